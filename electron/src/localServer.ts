@@ -5,9 +5,10 @@
  * 复用 packages/server 的业务逻辑
  */
 import { spawn, ChildProcess } from "child_process";
+import { randomBytes } from "crypto";
 import * as path from "path";
 import * as fs from "fs";
-import { app } from "electron";
+import { app, safeStorage } from "electron";
 
 // 本地模式专用端口（不常用端口，避免冲突）
 export const LOCAL_SERVER_PORT = 36925;
@@ -77,6 +78,31 @@ export function getDataDirectory(): string {
   return path.join(app.getPath("userData"), "server-data");
 }
 
+/**
+ * 获取敏感字段加密的主密钥
+ * 主密钥由系统钥匙串（safeStorage）加密后保存在数据目录之外，启动服务器时通过环境变量传入
+ * 系统不支持安全存储时（如没有密钥环的 Linux）返回 undefined，服务器只使用数据目录中的密钥
+ */
+function getSecretsMasterKey(): string | undefined {
+  if (!safeStorage.isEncryptionAvailable()) {
+    console.warn("[Local Server] 系统钥匙串不可用，敏感字段密钥仅保存在数据目录中");
+    return undefined;
+  }
+
+  const keyPath = path.join(app.getPath("userData"), "secrets-master.key");
+  try {
+    if (fs.existsSync(keyPath)) {
+      return safeStorage.decryptString(fs.readFileSync(keyPath));
+    }
+    const masterKey = randomBytes(32).toString("base64");
+    fs.writeFileSync(keyPath, safeStorage.encryptString(masterKey), { mode: 0o600 });
+    return masterKey;
+  } catch (error) {
+    console.error("[Local Server] 读取主密钥失败:", error);
+    return undefined;
+  }
+}
+
 /**
  * 获取本地服务器 URL
  */
@@ -195,6 +221,7 @@ export async function startLocalServer(): Promise<{
       PEN_BRIDGE_PORT: String(LOCAL_SERVER_PORT),
       PEN_BRIDGE_HOST: LOCAL_SERVER_HOST,
       PEN_BRIDGE_DATA_DIR: dataDir,
+      PEN_BRIDGE_MASTER_KEY: getSecretsMasterKey(),
     };
     
     // 直接运行 Bun 编译的独立二进制文件（无需 Node.js）
@@ -0,0 +1,97 @@
+/**
+ * 文章全文索引
+ *
+ * sql.js 内置的 SQLite 只编译了 FTS3/FTS4，且分词器不会切分中文，
+ * 因此写入索引前先在每个中日韩字符两侧插入空格，使每个汉字成为一个词元，
+ * 中文关键词按短语查询即可匹配连续的汉字。
+ *
+ * 索引表 article_fts 的 docid 与文章 ID 一致。articles 表上的触发器把新增、修改、
+ * 删除的文章 ID 记录到 article_fts_pending，覆盖所有写入路径（编辑器保存、平台同步、
+ * 数据导入等）；搜索前再由 syncArticleSearchIndex 更新这些文章的索引。
+ * 分词在应用中完成而不是注册为 SQL 函数，因为 sql.js 导出数据库时会重新打开连接，
+ * 已注册的自定义函数会失效。
+ */
+
+import type { DataSource } from "typeorm";
+
+// 中日韩字符：假名、汉字、谚文
+const CJK_CHAR_PATTERN = /([\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff])/g;
+
+/**
+ * 将文本转换为索引使用的词元序列：在中日韩字符两侧插入空格
+ */
+export function toSearchTokens(text: string | null | undefined): string {
+  if (!text) {
+    return "";
+  }
+  return text.replace(CJK_CHAR_PATTERN, " $1 ");
+}
+
+const SETUP_STATEMENTS = [
+  `CREATE VIRTUAL TABLE IF NOT EXISTS article_fts USING fts4(title, content, tokenize=unicode61)`,
+  `CREATE TABLE IF NOT EXISTS article_fts_pending (articleId INTEGER PRIMARY KEY)`,
+  `CREATE TRIGGER IF NOT EXISTS article_fts_insert AFTER INSERT ON articles BEGIN
+    INSERT OR IGNORE INTO article_fts_pending(articleId) VALUES (new.id);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS article_fts_update AFTER UPDATE OF title, content ON articles BEGIN
+    INSERT OR IGNORE INTO article_fts_pending(articleId) VALUES (new.id);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS article_fts_delete AFTER DELETE ON articles BEGIN
+    INSERT OR IGNORE INTO article_fts_pending(articleId) VALUES (old.id);
+  END`,
+];
+
+/**
+ * 创建索引表和触发器
+ *
+ * 迁移调整 articles 表结构时（SQLite 需要重建表）触发器会随之被删除，
+ * 因此每次启动都要重新创建；索引与文章数量不一致时重建整个索引。
+ */
+export async function setupArticleSearchIndex(dataSource: DataSource): Promise<void> {
+  for (const statement of SETUP_STATEMENTS) {
+    await dataSource.query(statement);
+  }
+
+  const [{ indexed }] = await dataSource.query(`SELECT COUNT(*) AS indexed FROM article_fts`);
+  const [{ total }] = await dataSource.query(`SELECT COUNT(*) AS total FROM articles`);
+  if (Number(indexed) !== Number(total)) {
+    await dataSource.query(`DELETE FROM article_fts`);
+    await dataSource.query(
+      `INSERT OR IGNORE INTO article_fts_pending(articleId) SELECT id FROM articles`
+    );
+    console.log(`[DB] 文章全文索引需要重建，共 ${total} 篇`);
+  }
+
+  await syncArticleSearchIndex(dataSource);
+}
+
+/**
+ * 更新待处理文章的索引
+ */
+export async function syncArticleSearchIndex(dataSource: DataSource): Promise<void> {
+  const pending: { articleId: number }[] = await dataSource.query(
+    `SELECT articleId FROM article_fts_pending`
+  );
+  if (pending.length === 0) {
+    return;
+  }
+
+  await dataSource.transaction(async (manager) => {
+    for (const { articleId } of pending) {
+      await manager.query(`DELETE FROM article_fts WHERE docid = ?`, [articleId]);
+
+      const [article] = await manager.query(`SELECT title, content FROM articles WHERE id = ?`, [
+        articleId,
+      ]);
+      if (article) {
+        await manager.query(`INSERT INTO article_fts(docid, title, content) VALUES (?, ?, ?)`, [
+          articleId,
+          toSearchTokens(article.title),
+          toSearchTokens(article.content),
+        ]);
+      }
+
+      await manager.query(`DELETE FROM article_fts_pending WHERE articleId = ?`, [articleId]);
+    }
+  });
+}
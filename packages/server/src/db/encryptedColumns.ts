@@ -0,0 +1,58 @@
+/**
+ * 加密字段迁移
+ *
+ * 实体上使用 encryptedColumn 转换器的字段写入时会自动加密，
+ * 但旧版本写入的明文、以及密钥轮换前用旧密钥加密的数据需要在这里统一（重新）加密。
+ * 直接读写原始值，绕开转换器，避免明文被当作密文处理。
+ * 旧密钥需要在更新后的数据写入磁盘后才能移除（secretsService.pruneInactiveKeys）。
+ */
+
+import type { DataSource } from "typeorm";
+import { encryptedColumn, secretsService } from "../services/secrets";
+
+/**
+ * 查找所有使用加密转换器的字段
+ */
+function getEncryptedColumns(dataSource: DataSource): { table: string; column: string; primary: string }[] {
+  const columns: { table: string; column: string; primary: string }[] = [];
+  for (const metadata of dataSource.entityMetadatas) {
+    const primary = metadata.primaryColumns[0]?.databaseName;
+    if (!primary) continue;
+    for (const column of metadata.columns) {
+      if (column.transformer === encryptedColumn) {
+        columns.push({ table: metadata.tableName, column: column.databaseName, primary });
+      }
+    }
+  }
+  return columns;
+}
+
+/**
+ * 加密明文数据，并将旧密钥加密的数据改用当前密钥加密
+ * @returns 更新的字段数量
+ */
+export async function encryptSecretColumns(dataSource: DataSource): Promise<number> {
+  let updated = 0;
+
+  await dataSource.transaction(async (manager) => {
+    for (const { table, column, primary } of getEncryptedColumns(dataSource)) {
+      const rows: { id: number; value: string }[] = await manager.query(
+        `SELECT "${primary}" AS id, "${column}" AS value FROM "${table}" WHERE "${column}" IS NOT NULL AND "${column}" != ''`
+      );
+      for (const { id, value } of rows) {
+        if (!secretsService.needsEncryption(value)) continue;
+        const encrypted = secretsService.encrypt(secretsService.decrypt(value));
+        await manager.query(`UPDATE "${table}" SET "${column}" = ? WHERE "${primary}" = ?`, [
+          encrypted,
+          id,
+        ]);
+        updated++;
+      }
+    }
+  });
+
+  if (updated > 0) {
+    console.log(`[DB] 已加密 ${updated} 个敏感字段`);
+  }
+  return updated;
+}
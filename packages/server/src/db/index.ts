@@ -1,9 +1,11 @@
 import { DataSource } from "typeorm";
 import { User } from "../entities/User";
 import { Article } from "../entities/Article";
+import { ArticlePublication } from "../entities/ArticlePublication";
 import { ArticleVersion } from "../entities/ArticleVersion";
 import { Folder } from "../entities/Folder";
 import { ScheduledTask } from "../entities/ScheduledTask";
+import { PublishCampaign } from "../entities/PublishCampaign";
 import { EmailConfig } from "../entities/EmailConfig";
 import { AdminUser } from "../entities/AdminUser";
 import { AdminSession } from "../entities/AdminSession";
@@ -11,10 +13,26 @@ import { AIProvider, AIModel } from "../entities/AIProvider";
 import { AIChatSession, AIChatMessage } from "../entities/AIChat";
 import { CopilotAuth } from "../entities/CopilotAuth";
 import { ClaudeCodeAuth } from "../entities/ClaudeCodeAuth";
+import { FolderShare } from "../entities/FolderShare";
+import { AuditLog } from "../entities/AuditLog";
+import { ArticleComment } from "../entities/ArticleComment";
+import { McpServer } from "../entities/McpServer";
+import { AIUsageRecord, AIUsageBudget } from "../entities/AIUsage";
+import { PromptTemplate } from "../entities/PromptTemplate";
 // @ts-ignore
 import initSqlJs from "sql.js";
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
 import { dirname, join } from "path";
+import {
+  readLegacyPublications,
+  migrateLegacyPublications,
+  type LegacyPublicationRow,
+} from "./legacyPublications";
+import { setupArticleSearchIndex } from "./articleSearchIndex";
+import { encryptSecretColumns } from "./encryptedColumns";
+import { runDatabaseMigrations, MIGRATIONS_TABLE } from "./migrate";
+import { migrations } from "./migrations";
+import { secretsService } from "../services/secrets";
 
 /**
  * 获取 sql.js WASM 文件路径
@@ -82,12 +100,17 @@ function getWasmPath(): string {
   );
 }
 
+const ENTITIES = [User, Article, ArticlePublication, ArticleVersion, Folder, ScheduledTask, PublishCampaign, EmailConfig, AdminUser, AdminSession, AIProvider, AIModel, AIChatSession, AIChatMessage, CopilotAuth, ClaudeCodeAuth, FolderShare, AuditLog, ArticleComment, McpServer, AIUsageRecord, AIUsageBudget, PromptTemplate];
+
 // 默认数据库路径，可通过 setDatabasePath 修改
 let DB_PATH = "data/pen-bridge.db";
 
 // 延迟初始化的 DataSource
 let _appDataSource: DataSource | null = null;
 
+// 初始化前从旧版表结构中读出的平台发布数据
+let _legacyPublications: LegacyPublicationRow[] = [];
+
 /**
  * 设置数据库文件路径（必须在 initDatabase 之前调用）
  */
@@ -129,6 +152,29 @@ const createDebouncedSave = () => (data: Uint8Array) => {
   }, SAVE_DEBOUNCE_MS);
 };
 
+/**
+ * 立即写入尚未保存的数据（防抖期间退出进程会丢失最后的修改）
+ */
+function flushPendingSave() {
+  if (saveTimeout) {
+    clearTimeout(saveTimeout);
+    saveTimeout = null;
+  }
+  if (pendingData) {
+    writeFileSync(DB_PATH, new Uint8Array(pendingData));
+    pendingData = null;
+  }
+}
+
+async function loadSqlJs(): Promise<any> {
+  // 获取 WASM 文件路径（始终明确指定，避免 Bun 打包后路径错误）
+  const wasmPath = getWasmPath();
+  const initOptions: any = {
+    locateFile: () => wasmPath,
+  };
+  return initSqlJs(initOptions);
+}
+
 /**
  * 创建 DataSource（延迟创建，使用当前的 DB_PATH）
  */
@@ -139,27 +185,44 @@ async function createDataSource(): Promise<DataSource> {
     mkdirSync(dataDir, { recursive: true });
   }
 
-  // 获取 WASM 文件路径（始终明确指定，避免 Bun 打包后路径错误）
-  const wasmPath = getWasmPath();
-  const initOptions: any = {
-    locateFile: () => wasmPath,
-  };
-  
-  const driver = await initSqlJs(initOptions);
+  const driver = await loadSqlJs();
   
   const dbFile = existsSync(DB_PATH) ? readFileSync(DB_PATH) : undefined;
+
+  // 旧版数据库同步表结构时会删除 articles 表上的旧版平台字段，需要先读出待迁移的数据
+  _legacyPublications = dbFile ? readLegacyPublications(driver, new Uint8Array(dbFile)) : [];
+
   return new DataSource({
     type: "sqljs",
     database: dbFile ? new Uint8Array(dbFile) : undefined,
-    synchronize: true,
+    // 表结构由迁移维护，见 db/migrate.ts
+    synchronize: false,
+    migrations,
+    migrationsTableName: MIGRATIONS_TABLE,
     logging: false,
-    entities: [User, Article, ArticleVersion, Folder, ScheduledTask, EmailConfig, AdminUser, AdminSession, AIProvider, AIModel, AIChatSession, AIChatMessage, CopilotAuth, ClaudeCodeAuth],
+    entities: ENTITIES,
     driver,
     autoSave: true,
     autoSaveCallback: createDebouncedSave(),
   });
 }
 
+/**
+ * 创建内存中的空数据库，用于生成迁移
+ */
+export async function createScratchDataSource(): Promise<DataSource> {
+  const dataSource = new DataSource({
+    type: "sqljs",
+    synchronize: false,
+    migrations,
+    migrationsTableName: MIGRATIONS_TABLE,
+    logging: false,
+    entities: ENTITIES,
+    driver: await loadSqlJs(),
+  });
+  return dataSource.initialize();
+}
+
 /**
  * 获取 AppDataSource（确保已初始化）
  */
@@ -195,17 +258,43 @@ export async function initDatabase(): Promise<DataSource> {
   if (!_appDataSource.isInitialized) {
     await _appDataSource.initialize();
     console.log(`Database initialized at ${DB_PATH}`);
+
+    await runDatabaseMigrations(_appDataSource, DB_PATH);
+
+    await migrateLegacyPublications(_appDataSource, _legacyPublications);
+    _legacyPublications = [];
+
+    await setupArticleSearchIndex(_appDataSource);
+
+    await encryptSecretColumns(_appDataSource);
+    // 数据写入磁盘后再移除旧密钥，避免中途退出导致数据无法解密
+    flushPendingSave();
+    secretsService.pruneInactiveKeys();
   }
   
   return _appDataSource;
 }
 
+/**
+ * 打开数据库但不执行迁移和启动任务，供迁移命令行使用
+ */
+export async function openDatabaseWithoutMigrations(): Promise<DataSource> {
+  if (_appDataSource?.isInitialized) {
+    return _appDataSource;
+  }
+  _appDataSource = await createDataSource();
+  _legacyPublications = [];
+  await _appDataSource.initialize();
+  return _appDataSource;
+}
+
 /**
  * 关闭数据库连接
  */
 export async function closeDatabase(): Promise<void> {
   if (_appDataSource?.isInitialized) {
     await _appDataSource.destroy();
+    flushPendingSave();
     _appDataSource = null;
     console.log("Database connection closed");
   }
@@ -0,0 +1,197 @@
+/**
+ * 旧版平台字段迁移
+ *
+ * 早期版本将腾讯云、掘金、CSDN 的发布信息直接存放在 articles 表的平台字段上。
+ * 这些字段现在由 article_publications 表承载，而旧版数据库升级时的 synchronize 会删除
+ * articles 表上的旧字段，因此需要在 DataSource 初始化之前先读出旧数据，
+ * 初始化完成后再写入发布记录表。
+ */
+
+import type { DataSource } from "typeorm";
+
+/**
+ * 待迁移的发布记录
+ */
+export interface LegacyPublicationRow {
+  articleId: number;
+  platform: string;
+  remoteId: string | null;
+  draftId: string | null;
+  url: string | null;
+  status: string | null;
+  config: Record<string, any>;
+  lastSyncedAt: string | null;
+}
+
+// 判断是否为旧版表结构的标记字段
+const LEGACY_MARKER_COLUMNS = ["tencentArticleId", "juejinArticleId", "csdnArticleId"];
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  return String(value);
+}
+
+// simple-array 字段在数据库中以逗号分隔的字符串保存
+function splitArray(value: unknown): string[] | undefined {
+  const text = toText(value);
+  return text ? text.split(",") : undefined;
+}
+
+// 删除值为 undefined 的配置项
+function compact(config: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(config).filter(([, v]) => v !== undefined));
+}
+
+/**
+ * 将一行旧版文章数据转换为各平台的发布记录
+ * 只有在平台上有过关联或配置的文章才会生成记录
+ */
+function toPublicationRows(row: Record<string, any>): LegacyPublicationRow[] {
+  const rows: LegacyPublicationRow[] = [];
+  const articleId = Number(row.id);
+
+  // 腾讯云
+  const tencentTagIds = splitArray(row.tencentTagIds)?.map(Number);
+  const sourceType = row.sourceType ? Number(row.sourceType) : undefined;
+  if (
+    row.tencentDraftId ||
+    row.tencentArticleId ||
+    row.tencentArticleUrl ||
+    tencentTagIds ||
+    (sourceType && sourceType !== 1)
+  ) {
+    rows.push({
+      articleId,
+      platform: "tencent",
+      remoteId: toText(row.tencentArticleId),
+      draftId: toText(row.tencentDraftId),
+      url: toText(row.tencentArticleUrl),
+      // 腾讯云状态原本记录在文章状态上
+      status: row.tencentArticleId ? toText(row.status) : row.tencentDraftId ? "draft" : null,
+      config: compact({ tagIds: tencentTagIds, sourceType }),
+      lastSyncedAt: toText(row.lastSyncedAt),
+    });
+  }
+
+  // 掘金
+  const juejinConfig = compact({
+    categoryId: toText(row.juejinCategoryId) ?? undefined,
+    tagIds: splitArray(row.juejinTagIds),
+    tagNames: splitArray(row.juejinTagNames),
+    briefContent: toText(row.juejinBriefContent) ?? undefined,
+  });
+  if (
+    row.juejinDraftId ||
+    row.juejinArticleId ||
+    row.juejinStatus ||
+    Object.keys(juejinConfig).length > 0
+  ) {
+    rows.push({
+      articleId,
+      platform: "juejin",
+      remoteId: toText(row.juejinArticleId),
+      draftId: toText(row.juejinDraftId),
+      url: toText(row.juejinArticleUrl),
+      status: toText(row.juejinStatus),
+      config: {
+        ...juejinConfig,
+        isOriginal: row.juejinIsOriginal === null || row.juejinIsOriginal === undefined
+          ? 1
+          : Number(row.juejinIsOriginal),
+      },
+      lastSyncedAt: toText(row.juejinLastSyncedAt),
+    });
+  }
+
+  // CSDN
+  const csdnConfig = compact({
+    tags: splitArray(row.csdnTags),
+    description: toText(row.csdnDescription) ?? undefined,
+    coverImage: toText(row.csdnCoverImage) ?? undefined,
+  });
+  if (row.csdnArticleId || row.csdnStatus || Object.keys(csdnConfig).length > 0) {
+    rows.push({
+      articleId,
+      platform: "csdn",
+      remoteId: toText(row.csdnArticleId),
+      draftId: null,
+      url: toText(row.csdnArticleUrl),
+      status: toText(row.csdnStatus),
+      config: {
+        ...csdnConfig,
+        type: toText(row.csdnType) || "original",
+        readType: toText(row.csdnReadType) || "public",
+      },
+      lastSyncedAt: toText(row.csdnLastSyncedAt),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * 从旧版数据库文件中读取需要迁移的平台数据
+ * 数据库不是旧版结构时返回空数组
+ *
+ * @param driver sql.js 驱动
+ * @param dbFile 数据库文件内容
+ */
+export function readLegacyPublications(driver: any, dbFile: Uint8Array): LegacyPublicationRow[] {
+  const db = new driver.Database(dbFile);
+  try {
+    const tableInfo = db.exec("PRAGMA table_info(articles)");
+    const columns = new Set<string>(
+      (tableInfo[0]?.values || []).map((value: any[]) => String(value[1]))
+    );
+    if (!LEGACY_MARKER_COLUMNS.some((column) => columns.has(column))) {
+      return [];
+    }
+
+    const rows: LegacyPublicationRow[] = [];
+    const stmt = db.prepare("SELECT * FROM articles");
+    while (stmt.step()) {
+      rows.push(...toPublicationRows(stmt.getAsObject()));
+    }
+    stmt.free();
+
+    console.log(`[DB] 检测到旧版平台字段，待迁移 ${rows.length} 条发布记录`);
+    return rows;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 将旧版平台数据写入发布记录表
+ * 已存在的 (articleId, platform) 记录会被跳过，可重复执行
+ */
+export async function migrateLegacyPublications(
+  dataSource: DataSource,
+  rows: LegacyPublicationRow[]
+): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+
+  for (const row of rows) {
+    await dataSource.query(
+      `INSERT OR IGNORE INTO article_publications
+        (articleId, platform, remoteId, draftId, url, status, config, lastSyncedAt, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+      [
+        row.articleId,
+        row.platform,
+        row.remoteId,
+        row.draftId,
+        row.url,
+        row.status,
+        JSON.stringify(row.config),
+        row.lastSyncedAt,
+      ]
+    );
+  }
+
+  console.log(`[DB] 已迁移 ${rows.length} 条平台发布记录`);
+}
@@ -0,0 +1,167 @@
+/**
+ * 数据库迁移
+ *
+ * 表结构由 db/migrations 中的版本化迁移维护，不再使用 synchronize 自动修改。
+ * 服务启动时自动执行未运行的迁移，执行前先把数据库文件复制到 backups 目录。
+ *
+ * 引入迁移之前由 synchronize 创建的数据库没有 migrations 表：
+ * 最后执行一次 synchronize 使表结构与当前实体一致，再把现有迁移全部标记为已执行。
+ *
+ * 修改实体后运行 `bun run migrate:generate <名称>` 生成新的迁移，并在 migrations/index.ts 中注册。
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync, unlinkSync } from "fs";
+import { dirname, join } from "path";
+import { DataSource, MigrationExecutor } from "typeorm";
+
+// 迁移记录表
+export const MIGRATIONS_TABLE = "migrations";
+
+// 每个数据库保留的迁移前备份数量
+const MAX_BACKUPS = 10;
+
+export interface MigrationStatus {
+  name: string;
+  executed: boolean;
+}
+
+/**
+ * 备份数据库文件
+ * @returns 备份文件路径；数据库文件不存在时返回 null
+ */
+export function backupDatabase(dbPath: string, reason: string): string | null {
+  if (!existsSync(dbPath)) {
+    return null;
+  }
+
+  const backupDir = join(dirname(dbPath), "backups");
+  if (!existsSync(backupDir)) {
+    mkdirSync(backupDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = join(backupDir, `pen-bridge-${timestamp}-${reason}.db`);
+  copyFileSync(dbPath, backupPath);
+
+  // 清理较早的备份
+  const backups = readdirSync(backupDir)
+    .filter((file) => file.startsWith("pen-bridge-") && file.endsWith(".db"))
+    .sort();
+  for (const file of backups.slice(0, Math.max(0, backups.length - MAX_BACKUPS))) {
+    unlinkSync(join(backupDir, file));
+  }
+
+  return backupPath;
+}
+
+/**
+ * 是否为引入迁移之前由 synchronize 创建的数据库
+ */
+async function isUnversionedDatabase(dataSource: DataSource): Promise<boolean> {
+  const queryRunner = dataSource.createQueryRunner();
+  try {
+    return !(await queryRunner.hasTable(MIGRATIONS_TABLE)) && (await queryRunner.hasTable("articles"));
+  } finally {
+    await queryRunner.release();
+  }
+}
+
+/**
+ * 执行未运行的迁移（服务启动时调用）
+ */
+export async function runDatabaseMigrations(dataSource: DataSource, dbPath: string): Promise<void> {
+  if (await isUnversionedDatabase(dataSource)) {
+    const backupPath = backupDatabase(dbPath, "baseline");
+    console.log(`[DB] 检测到未使用迁移管理的数据库，已备份到 ${backupPath}`);
+    await dataSource.synchronize();
+    await dataSource.runMigrations({ fake: true });
+    console.log(`[DB] 表结构已更新，${dataSource.migrations.length} 个迁移已标记为执行`);
+    return;
+  }
+
+  const pending = await new MigrationExecutor(dataSource).getPendingMigrations();
+  if (pending.length === 0) {
+    return;
+  }
+
+  const backupPath = backupDatabase(dbPath, "pre-migration");
+  if (backupPath) {
+    console.log(`[DB] 执行迁移前已备份数据库到 ${backupPath}`);
+  }
+
+  const executed = await dataSource.runMigrations({ transaction: "all" });
+  for (const migration of executed) {
+    console.log(`[DB] 已执行迁移 ${migration.name}`);
+  }
+}
+
+/**
+ * 获取所有迁移的执行状态
+ */
+export async function getMigrationStatus(dataSource: DataSource): Promise<MigrationStatus[]> {
+  const executed = await new MigrationExecutor(dataSource).getExecutedMigrations();
+  const executedNames = new Set(executed.map((migration) => migration.name));
+  return dataSource.migrations.map((migration) => {
+    const name = migration.name || migration.constructor.name;
+    return { name, executed: executedNames.has(name) };
+  });
+}
+
+/**
+ * 回滚最近一次执行的迁移，回滚前备份数据库
+ * @returns 回滚的迁移名称；没有已执行的迁移时返回 null
+ */
+export async function revertLastMigration(dataSource: DataSource, dbPath: string): Promise<string | null> {
+  const executed = await new MigrationExecutor(dataSource).getExecutedMigrations();
+  if (executed.length === 0) {
+    return null;
+  }
+
+  const backupPath = backupDatabase(dbPath, "pre-revert");
+  console.log(`[DB] 回滚前已备份数据库到 ${backupPath}`);
+
+  // 已执行的迁移按 id 倒序返回，第一条即最近一次执行的迁移
+  const last = executed[0];
+  await dataSource.undoLastMigration({ transaction: "all" });
+  return last.name;
+}
+
+/**
+ * 根据实体与已有迁移之间的差异生成新的迁移文件内容
+ * 在内存中的空数据库上执行所有迁移，再与实体定义比较
+ * @returns 迁移类名、文件名和源码；没有差异时返回 null
+ */
+export async function generateMigration(
+  dataSource: DataSource,
+  name: string
+): Promise<{ className: string; fileName: string; source: string } | null> {
+  await dataSource.runMigrations({ transaction: "all" });
+  const sqlInMemory = await dataSource.driver.createSchemaBuilder().log();
+  if (sqlInMemory.upQueries.length === 0) {
+    return null;
+  }
+
+  const timestamp = Date.now();
+  const className = `${name}${timestamp}`;
+  const toStatement = (query: { query: string; parameters?: unknown[] }) => {
+    const sql = query.query.replace(/`/g, "\\`");
+    const params = query.parameters?.length ? `, ${JSON.stringify(query.parameters)}` : "";
+    return `    await queryRunner.query(\`${sql}\`${params});`;
+  };
+
+  const source = `import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ${className} implements MigrationInterface {
+  name = "${className}";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+${sqlInMemory.upQueries.map(toStatement).join("\n")}
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+${[...sqlInMemory.downQueries].reverse().map(toStatement).join("\n")}
+  }
+}
+`;
+  return { className, fileName: `${timestamp}-${name}.ts`, source };
+}
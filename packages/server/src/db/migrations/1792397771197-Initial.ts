@@ -0,0 +1,133 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Initial1792397771197 implements MigrationInterface {
+  name = "Initial1792397771197";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tencentUid" varchar, "nickname" varchar, "avatarUrl" varchar, "cookies" text, "isLoggedIn" boolean NOT NULL DEFAULT (0), "lastLoginAt" datetime, "juejinUserId" varchar, "juejinNickname" varchar, "juejinAvatarUrl" varchar, "juejinCookies" text, "juejinLoggedIn" boolean NOT NULL DEFAULT (0), "juejinLastLoginAt" datetime, "csdnUserId" varchar, "csdnNickname" varchar, "csdnAvatarUrl" varchar, "csdnCookies" text, "csdnLoggedIn" boolean NOT NULL DEFAULT (0), "csdnLastLoginAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_d3d8936f45e8691b7b3df7159fd" UNIQUE ("tencentUid"))`);
+    await queryRunner.query(`CREATE TABLE "folders" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "parentId" integer, "order" integer NOT NULL DEFAULT (0), "isExpanded" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "articles" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "content" text NOT NULL, "summary" text, "tags" text, "status" text NOT NULL DEFAULT ('draft'), "scheduledAt" datetime, "publishedAt" datetime, "errorMessage" varchar, "userId" integer NOT NULL, "folderId" integer, "order" integer NOT NULL DEFAULT (0), "clientId" text, "localVersion" integer NOT NULL DEFAULT (1), "remoteVersion" integer, "contentHash" text, "remoteContentHash" text, "lastModifiedBy" text, "serverUpdatedAt" datetime, "hasConflict" boolean NOT NULL DEFAULT (0), "conflictRemoteContent" text, "conflictDetectedAt" datetime, "conflictBaseVersion" integer, "syncStatus" text NOT NULL DEFAULT ('synced'), "syncError" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "article_publications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "platform" text NOT NULL, "remoteId" text, "draftId" text, "url" text, "status" text, "config" text, "errorMessage" text, "lastSyncedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_ba43932885a40241613e267d0c" ON "article_publications" ("articleId", "platform") `);
+    await queryRunner.query(`CREATE TABLE "article_versions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "version" integer NOT NULL, "title" text NOT NULL, "content" text NOT NULL, "contentHash" text, "source" text NOT NULL, "deviceId" text, "label" text, "pinned" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_817f64e567b532c55d6f5a8fae" ON "article_versions" ("articleId", "version") `);
+    await queryRunner.query(`CREATE TABLE "publish_campaigns" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "mode" text NOT NULL DEFAULT ('parallel'), "staggerMinutes" integer NOT NULL DEFAULT (0), "scheduledAt" datetime NOT NULL, "status" text NOT NULL DEFAULT ('pending'), "completedAt" datetime, "notified" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "scheduled_tasks" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "platform" text NOT NULL DEFAULT ('tencent'), "config" text NOT NULL, "scheduledAt" datetime NOT NULL, "rule" text, "status" text NOT NULL DEFAULT ('pending'), "errorMessage" text, "executedAt" datetime, "resultUrl" varchar, "retryCount" integer NOT NULL DEFAULT (0), "maxRetries" integer NOT NULL DEFAULT (3), "notified" boolean NOT NULL DEFAULT (0), "campaignId" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "email_configs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "smtpHost" varchar, "smtpPort" integer, "smtpSecure" boolean NOT NULL DEFAULT (1), "smtpUser" varchar, "smtpPass" varchar, "fromName" varchar, "fromEmail" varchar, "notifyEmail" varchar, "notifyOnSuccess" boolean NOT NULL DEFAULT (1), "notifyOnFailed" boolean NOT NULL DEFAULT (1), "notifyOnCookieExpired" boolean NOT NULL DEFAULT (1), "enabled" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "admin_users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "username" varchar NOT NULL, "passwordHash" varchar NOT NULL, "role" varchar NOT NULL DEFAULT ('admin'), "lastLoginAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_2873882c38e8c07d98cb64f962d" UNIQUE ("username"))`);
+    await queryRunner.query(`CREATE TABLE "admin_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "token" varchar NOT NULL, "adminId" integer NOT NULL, "username" varchar NOT NULL, "role" varchar NOT NULL, "expiresAt" datetime NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_9412db96e8933fd0c58fdbf0b21" UNIQUE ("token"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_9412db96e8933fd0c58fdbf0b2" ON "admin_sessions" ("token") `);
+    await queryRunner.query(`CREATE TABLE "ai_providers" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "name" varchar NOT NULL, "baseUrl" varchar NOT NULL, "apiKey" varchar NOT NULL, "enabled" boolean NOT NULL DEFAULT (1), "order" integer NOT NULL DEFAULT (0), "sdkType" text NOT NULL DEFAULT ('openai-compatible'), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "ai_models" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "providerId" integer NOT NULL, "modelId" varchar NOT NULL, "displayName" varchar NOT NULL, "isDefault" boolean NOT NULL DEFAULT (0), "enabled" boolean NOT NULL DEFAULT (1), "order" integer NOT NULL DEFAULT (0), "contextLength" integer, "parameters" text, "capabilities" text, "aiLoopConfig" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "ai_chat_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "articleId" integer, "title" varchar NOT NULL DEFAULT ('新对话'), "modelId" varchar, "providerId" integer, "totalTokens" integer NOT NULL DEFAULT (0), "messageCount" integer NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_2d02a651fbefaa506d31dba328" ON "ai_chat_sessions" ("userId") `);
+    await queryRunner.query(`CREATE INDEX "IDX_b5e2b6b613f73858292a2bc629" ON "ai_chat_sessions" ("articleId") `);
+    await queryRunner.query(`CREATE INDEX "IDX_509b5b03622747115c69d595c8" ON "ai_chat_sessions" ("articleId", "userId") `);
+    await queryRunner.query(`CREATE TABLE "ai_chat_messages" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "sessionId" integer NOT NULL, "role" varchar NOT NULL, "content" text NOT NULL, "reasoning" text, "toolCalls" text, "toolCallId" varchar, "usage" text, "status" varchar NOT NULL DEFAULT ('completed'), "error" text, "duration" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_c21b53eccf0eb35723bb10f549" ON "ai_chat_messages" ("sessionId") `);
+    await queryRunner.query(`CREATE TABLE "copilot_auth" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "refreshToken" varchar NOT NULL, "accessToken" varchar NOT NULL, "expiresAt" integer NOT NULL, "enterpriseUrl" varchar, "username" varchar, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "claude_code_auth" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "authType" varchar NOT NULL DEFAULT ('oauth'), "refreshToken" varchar, "accessToken" varchar NOT NULL, "expiresAt" integer NOT NULL DEFAULT (0), "codeVerifier" varchar, "subscriptionType" varchar, "email" varchar, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "temporary_folders" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "parentId" integer, "order" integer NOT NULL DEFAULT (0), "isExpanded" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_1be2fce400dcc657602d336f23f" FOREIGN KEY ("parentId") REFERENCES "folders" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_folders"("id", "name", "parentId", "order", "isExpanded", "createdAt", "updatedAt") SELECT "id", "name", "parentId", "order", "isExpanded", "createdAt", "updatedAt" FROM "folders"`);
+    await queryRunner.query(`DROP TABLE "folders"`);
+    await queryRunner.query(`ALTER TABLE "temporary_folders" RENAME TO "folders"`);
+    await queryRunner.query(`CREATE TABLE "temporary_articles" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "content" text NOT NULL, "summary" text, "tags" text, "status" text NOT NULL DEFAULT ('draft'), "scheduledAt" datetime, "publishedAt" datetime, "errorMessage" varchar, "userId" integer NOT NULL, "folderId" integer, "order" integer NOT NULL DEFAULT (0), "clientId" text, "localVersion" integer NOT NULL DEFAULT (1), "remoteVersion" integer, "contentHash" text, "remoteContentHash" text, "lastModifiedBy" text, "serverUpdatedAt" datetime, "hasConflict" boolean NOT NULL DEFAULT (0), "conflictRemoteContent" text, "conflictDetectedAt" datetime, "conflictBaseVersion" integer, "syncStatus" text NOT NULL DEFAULT ('synced'), "syncError" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_a9d18538b896fe2a6762e143bea" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_8883ccbfeea760fa89a7b991a7f" FOREIGN KEY ("folderId") REFERENCES "folders" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_articles"("id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt") SELECT "id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt" FROM "articles"`);
+    await queryRunner.query(`DROP TABLE "articles"`);
+    await queryRunner.query(`ALTER TABLE "temporary_articles" RENAME TO "articles"`);
+    await queryRunner.query(`DROP INDEX "IDX_ba43932885a40241613e267d0c"`);
+    await queryRunner.query(`CREATE TABLE "temporary_article_publications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "platform" text NOT NULL, "remoteId" text, "draftId" text, "url" text, "status" text, "config" text, "errorMessage" text, "lastSyncedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_5eda0ee0e26017ebde7d16457e8" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_article_publications"("id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt") SELECT "id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt" FROM "article_publications"`);
+    await queryRunner.query(`DROP TABLE "article_publications"`);
+    await queryRunner.query(`ALTER TABLE "temporary_article_publications" RENAME TO "article_publications"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_ba43932885a40241613e267d0c" ON "article_publications" ("articleId", "platform") `);
+    await queryRunner.query(`DROP INDEX "IDX_817f64e567b532c55d6f5a8fae"`);
+    await queryRunner.query(`CREATE TABLE "temporary_article_versions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "version" integer NOT NULL, "title" text NOT NULL, "content" text NOT NULL, "contentHash" text, "source" text NOT NULL, "deviceId" text, "label" text, "pinned" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_2ab4ad03ed409f8ad238e482470" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_article_versions"("id", "articleId", "version", "title", "content", "contentHash", "source", "deviceId", "label", "pinned", "createdAt") SELECT "id", "articleId", "version", "title", "content", "contentHash", "source", "deviceId", "label", "pinned", "createdAt" FROM "article_versions"`);
+    await queryRunner.query(`DROP TABLE "article_versions"`);
+    await queryRunner.query(`ALTER TABLE "temporary_article_versions" RENAME TO "article_versions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_817f64e567b532c55d6f5a8fae" ON "article_versions" ("articleId", "version") `);
+    await queryRunner.query(`CREATE TABLE "temporary_publish_campaigns" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "mode" text NOT NULL DEFAULT ('parallel'), "staggerMinutes" integer NOT NULL DEFAULT (0), "scheduledAt" datetime NOT NULL, "status" text NOT NULL DEFAULT ('pending'), "completedAt" datetime, "notified" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_8f4b218e2f9537b74b094901934" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_daccfe62561eed9dca9301d819f" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_publish_campaigns"("id", "articleId", "userId", "mode", "staggerMinutes", "scheduledAt", "status", "completedAt", "notified", "createdAt", "updatedAt") SELECT "id", "articleId", "userId", "mode", "staggerMinutes", "scheduledAt", "status", "completedAt", "notified", "createdAt", "updatedAt" FROM "publish_campaigns"`);
+    await queryRunner.query(`DROP TABLE "publish_campaigns"`);
+    await queryRunner.query(`ALTER TABLE "temporary_publish_campaigns" RENAME TO "publish_campaigns"`);
+    await queryRunner.query(`CREATE TABLE "temporary_scheduled_tasks" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "platform" text NOT NULL DEFAULT ('tencent'), "config" text NOT NULL, "scheduledAt" datetime NOT NULL, "rule" text, "status" text NOT NULL DEFAULT ('pending'), "errorMessage" text, "executedAt" datetime, "resultUrl" varchar, "retryCount" integer NOT NULL DEFAULT (0), "maxRetries" integer NOT NULL DEFAULT (3), "notified" boolean NOT NULL DEFAULT (0), "campaignId" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_3a51b90214275702bdecc196f0e" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_d6c76d1717cd97f2bc6623a5a59" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_ca6a4b69d63259c3395d3fc2c88" FOREIGN KEY ("campaignId") REFERENCES "publish_campaigns" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_scheduled_tasks"("id", "articleId", "userId", "platform", "config", "scheduledAt", "rule", "status", "errorMessage", "executedAt", "resultUrl", "retryCount", "maxRetries", "notified", "campaignId", "createdAt", "updatedAt") SELECT "id", "articleId", "userId", "platform", "config", "scheduledAt", "rule", "status", "errorMessage", "executedAt", "resultUrl", "retryCount", "maxRetries", "notified", "campaignId", "createdAt", "updatedAt" FROM "scheduled_tasks"`);
+    await queryRunner.query(`DROP TABLE "scheduled_tasks"`);
+    await queryRunner.query(`ALTER TABLE "temporary_scheduled_tasks" RENAME TO "scheduled_tasks"`);
+    await queryRunner.query(`CREATE TABLE "temporary_email_configs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "smtpHost" varchar, "smtpPort" integer, "smtpSecure" boolean NOT NULL DEFAULT (1), "smtpUser" varchar, "smtpPass" varchar, "fromName" varchar, "fromEmail" varchar, "notifyEmail" varchar, "notifyOnSuccess" boolean NOT NULL DEFAULT (1), "notifyOnFailed" boolean NOT NULL DEFAULT (1), "notifyOnCookieExpired" boolean NOT NULL DEFAULT (1), "enabled" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_4b4c593c2cfdf5cc94acbfa2acf" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_email_configs"("id", "userId", "smtpHost", "smtpPort", "smtpSecure", "smtpUser", "smtpPass", "fromName", "fromEmail", "notifyEmail", "notifyOnSuccess", "notifyOnFailed", "notifyOnCookieExpired", "enabled", "createdAt", "updatedAt") SELECT "id", "userId", "smtpHost", "smtpPort", "smtpSecure", "smtpUser", "smtpPass", "fromName", "fromEmail", "notifyEmail", "notifyOnSuccess", "notifyOnFailed", "notifyOnCookieExpired", "enabled", "createdAt", "updatedAt" FROM "email_configs"`);
+    await queryRunner.query(`DROP TABLE "email_configs"`);
+    await queryRunner.query(`ALTER TABLE "temporary_email_configs" RENAME TO "email_configs"`);
+    await queryRunner.query(`DROP INDEX "IDX_9412db96e8933fd0c58fdbf0b2"`);
+    await queryRunner.query(`CREATE TABLE "temporary_admin_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "token" varchar NOT NULL, "adminId" integer NOT NULL, "username" varchar NOT NULL, "role" varchar NOT NULL, "expiresAt" datetime NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_9412db96e8933fd0c58fdbf0b21" UNIQUE ("token"), CONSTRAINT "FK_2d86d26b570d7df300d102b952e" FOREIGN KEY ("adminId") REFERENCES "admin_users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_admin_sessions"("id", "token", "adminId", "username", "role", "expiresAt", "createdAt") SELECT "id", "token", "adminId", "username", "role", "expiresAt", "createdAt" FROM "admin_sessions"`);
+    await queryRunner.query(`DROP TABLE "admin_sessions"`);
+    await queryRunner.query(`ALTER TABLE "temporary_admin_sessions" RENAME TO "admin_sessions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_9412db96e8933fd0c58fdbf0b2" ON "admin_sessions" ("token") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_9412db96e8933fd0c58fdbf0b2"`);
+    await queryRunner.query(`ALTER TABLE "admin_sessions" RENAME TO "temporary_admin_sessions"`);
+    await queryRunner.query(`CREATE TABLE "admin_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "token" varchar NOT NULL, "adminId" integer NOT NULL, "username" varchar NOT NULL, "role" varchar NOT NULL, "expiresAt" datetime NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_9412db96e8933fd0c58fdbf0b21" UNIQUE ("token"))`);
+    await queryRunner.query(`INSERT INTO "admin_sessions"("id", "token", "adminId", "username", "role", "expiresAt", "createdAt") SELECT "id", "token", "adminId", "username", "role", "expiresAt", "createdAt" FROM "temporary_admin_sessions"`);
+    await queryRunner.query(`DROP TABLE "temporary_admin_sessions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_9412db96e8933fd0c58fdbf0b2" ON "admin_sessions" ("token") `);
+    await queryRunner.query(`ALTER TABLE "email_configs" RENAME TO "temporary_email_configs"`);
+    await queryRunner.query(`CREATE TABLE "email_configs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "smtpHost" varchar, "smtpPort" integer, "smtpSecure" boolean NOT NULL DEFAULT (1), "smtpUser" varchar, "smtpPass" varchar, "fromName" varchar, "fromEmail" varchar, "notifyEmail" varchar, "notifyOnSuccess" boolean NOT NULL DEFAULT (1), "notifyOnFailed" boolean NOT NULL DEFAULT (1), "notifyOnCookieExpired" boolean NOT NULL DEFAULT (1), "enabled" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "email_configs"("id", "userId", "smtpHost", "smtpPort", "smtpSecure", "smtpUser", "smtpPass", "fromName", "fromEmail", "notifyEmail", "notifyOnSuccess", "notifyOnFailed", "notifyOnCookieExpired", "enabled", "createdAt", "updatedAt") SELECT "id", "userId", "smtpHost", "smtpPort", "smtpSecure", "smtpUser", "smtpPass", "fromName", "fromEmail", "notifyEmail", "notifyOnSuccess", "notifyOnFailed", "notifyOnCookieExpired", "enabled", "createdAt", "updatedAt" FROM "temporary_email_configs"`);
+    await queryRunner.query(`DROP TABLE "temporary_email_configs"`);
+    await queryRunner.query(`ALTER TABLE "scheduled_tasks" RENAME TO "temporary_scheduled_tasks"`);
+    await queryRunner.query(`CREATE TABLE "scheduled_tasks" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "platform" text NOT NULL DEFAULT ('tencent'), "config" text NOT NULL, "scheduledAt" datetime NOT NULL, "rule" text, "status" text NOT NULL DEFAULT ('pending'), "errorMessage" text, "executedAt" datetime, "resultUrl" varchar, "retryCount" integer NOT NULL DEFAULT (0), "maxRetries" integer NOT NULL DEFAULT (3), "notified" boolean NOT NULL DEFAULT (0), "campaignId" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "scheduled_tasks"("id", "articleId", "userId", "platform", "config", "scheduledAt", "rule", "status", "errorMessage", "executedAt", "resultUrl", "retryCount", "maxRetries", "notified", "campaignId", "createdAt", "updatedAt") SELECT "id", "articleId", "userId", "platform", "config", "scheduledAt", "rule", "status", "errorMessage", "executedAt", "resultUrl", "retryCount", "maxRetries", "notified", "campaignId", "createdAt", "updatedAt" FROM "temporary_scheduled_tasks"`);
+    await queryRunner.query(`DROP TABLE "temporary_scheduled_tasks"`);
+    await queryRunner.query(`ALTER TABLE "publish_campaigns" RENAME TO "temporary_publish_campaigns"`);
+    await queryRunner.query(`CREATE TABLE "publish_campaigns" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "mode" text NOT NULL DEFAULT ('parallel'), "staggerMinutes" integer NOT NULL DEFAULT (0), "scheduledAt" datetime NOT NULL, "status" text NOT NULL DEFAULT ('pending'), "completedAt" datetime, "notified" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "publish_campaigns"("id", "articleId", "userId", "mode", "staggerMinutes", "scheduledAt", "status", "completedAt", "notified", "createdAt", "updatedAt") SELECT "id", "articleId", "userId", "mode", "staggerMinutes", "scheduledAt", "status", "completedAt", "notified", "createdAt", "updatedAt" FROM "temporary_publish_campaigns"`);
+    await queryRunner.query(`DROP TABLE "temporary_publish_campaigns"`);
+    await queryRunner.query(`DROP INDEX "IDX_817f64e567b532c55d6f5a8fae"`);
+    await queryRunner.query(`ALTER TABLE "article_versions" RENAME TO "temporary_article_versions"`);
+    await queryRunner.query(`CREATE TABLE "article_versions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "version" integer NOT NULL, "title" text NOT NULL, "content" text NOT NULL, "contentHash" text, "source" text NOT NULL, "deviceId" text, "label" text, "pinned" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "article_versions"("id", "articleId", "version", "title", "content", "contentHash", "source", "deviceId", "label", "pinned", "createdAt") SELECT "id", "articleId", "version", "title", "content", "contentHash", "source", "deviceId", "label", "pinned", "createdAt" FROM "temporary_article_versions"`);
+    await queryRunner.query(`DROP TABLE "temporary_article_versions"`);
+    await queryRunner.query(`CREATE INDEX "IDX_817f64e567b532c55d6f5a8fae" ON "article_versions" ("articleId", "version") `);
+    await queryRunner.query(`DROP INDEX "IDX_ba43932885a40241613e267d0c"`);
+    await queryRunner.query(`ALTER TABLE "article_publications" RENAME TO "temporary_article_publications"`);
+    await queryRunner.query(`CREATE TABLE "article_publications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "platform" text NOT NULL, "remoteId" text, "draftId" text, "url" text, "status" text, "config" text, "errorMessage" text, "lastSyncedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "article_publications"("id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt") SELECT "id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt" FROM "temporary_article_publications"`);
+    await queryRunner.query(`DROP TABLE "temporary_article_publications"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_ba43932885a40241613e267d0c" ON "article_publications" ("articleId", "platform") `);
+    await queryRunner.query(`ALTER TABLE "articles" RENAME TO "temporary_articles"`);
+    await queryRunner.query(`CREATE TABLE "articles" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "content" text NOT NULL, "summary" text, "tags" text, "status" text NOT NULL DEFAULT ('draft'), "scheduledAt" datetime, "publishedAt" datetime, "errorMessage" varchar, "userId" integer NOT NULL, "folderId" integer, "order" integer NOT NULL DEFAULT (0), "clientId" text, "localVersion" integer NOT NULL DEFAULT (1), "remoteVersion" integer, "contentHash" text, "remoteContentHash" text, "lastModifiedBy" text, "serverUpdatedAt" datetime, "hasConflict" boolean NOT NULL DEFAULT (0), "conflictRemoteContent" text, "conflictDetectedAt" datetime, "conflictBaseVersion" integer, "syncStatus" text NOT NULL DEFAULT ('synced'), "syncError" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "articles"("id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt") SELECT "id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt" FROM "temporary_articles"`);
+    await queryRunner.query(`DROP TABLE "temporary_articles"`);
+    await queryRunner.query(`ALTER TABLE "folders" RENAME TO "temporary_folders"`);
+    await queryRunner.query(`CREATE TABLE "folders" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "parentId" integer, "order" integer NOT NULL DEFAULT (0), "isExpanded" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "folders"("id", "name", "parentId", "order", "isExpanded", "createdAt", "updatedAt") SELECT "id", "name", "parentId", "order", "isExpanded", "createdAt", "updatedAt" FROM "temporary_folders"`);
+    await queryRunner.query(`DROP TABLE "temporary_folders"`);
+    await queryRunner.query(`DROP TABLE "claude_code_auth"`);
+    await queryRunner.query(`DROP TABLE "copilot_auth"`);
+    await queryRunner.query(`DROP INDEX "IDX_c21b53eccf0eb35723bb10f549"`);
+    await queryRunner.query(`DROP TABLE "ai_chat_messages"`);
+    await queryRunner.query(`DROP INDEX "IDX_509b5b03622747115c69d595c8"`);
+    await queryRunner.query(`DROP INDEX "IDX_b5e2b6b613f73858292a2bc629"`);
+    await queryRunner.query(`DROP INDEX "IDX_2d02a651fbefaa506d31dba328"`);
+    await queryRunner.query(`DROP TABLE "ai_chat_sessions"`);
+    await queryRunner.query(`DROP TABLE "ai_models"`);
+    await queryRunner.query(`DROP TABLE "ai_providers"`);
+    await queryRunner.query(`DROP INDEX "IDX_9412db96e8933fd0c58fdbf0b2"`);
+    await queryRunner.query(`DROP TABLE "admin_sessions"`);
+    await queryRunner.query(`DROP TABLE "admin_users"`);
+    await queryRunner.query(`DROP TABLE "email_configs"`);
+    await queryRunner.query(`DROP TABLE "scheduled_tasks"`);
+    await queryRunner.query(`DROP TABLE "publish_campaigns"`);
+    await queryRunner.query(`DROP INDEX "IDX_817f64e567b532c55d6f5a8fae"`);
+    await queryRunner.query(`DROP TABLE "article_versions"`);
+    await queryRunner.query(`DROP INDEX "IDX_ba43932885a40241613e267d0c"`);
+    await queryRunner.query(`DROP TABLE "article_publications"`);
+    await queryRunner.query(`DROP TABLE "articles"`);
+    await queryRunner.query(`DROP TABLE "folders"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+  }
+}
@@ -0,0 +1,49 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MultiUserWorkspaces1792398437398 implements MigrationInterface {
+  name = "MultiUserWorkspaces1792398437398";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "folder_shares" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "folderId" integer NOT NULL, "userId" integer NOT NULL, "permission" varchar NOT NULL DEFAULT ('read'), "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8c44da1c4e9a7109a8ac42144e" ON "folder_shares" ("folderId", "userId") `);
+    await queryRunner.query(`CREATE TABLE "audit_logs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "adminId" integer, "username" varchar NOT NULL, "ownerUserId" integer NOT NULL, "action" varchar NOT NULL, "entityType" varchar NOT NULL, "entityId" integer, "entityName" text, "detail" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_13c69424c440a0e765053feb4b" ON "audit_logs" ("entityType", "entityId") `);
+    await queryRunner.query(`CREATE INDEX "IDX_680f3c4ab039b49f348a5567b2" ON "audit_logs" ("ownerUserId", "createdAt") `);
+    await queryRunner.query(`CREATE TABLE "temporary_folders" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "parentId" integer, "order" integer NOT NULL DEFAULT (0), "isExpanded" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "userId" integer NOT NULL DEFAULT (1), CONSTRAINT "FK_1be2fce400dcc657602d336f23f" FOREIGN KEY ("parentId") REFERENCES "folders" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_folders"("id", "name", "parentId", "order", "isExpanded", "createdAt", "updatedAt") SELECT "id", "name", "parentId", "order", "isExpanded", "createdAt", "updatedAt" FROM "folders"`);
+    await queryRunner.query(`DROP TABLE "folders"`);
+    await queryRunner.query(`ALTER TABLE "temporary_folders" RENAME TO "folders"`);
+    await queryRunner.query(`CREATE TABLE "temporary_admin_users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "username" varchar NOT NULL, "passwordHash" varchar NOT NULL, "role" varchar NOT NULL DEFAULT ('admin'), "lastLoginAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "userId" integer, CONSTRAINT "UQ_2873882c38e8c07d98cb64f962d" UNIQUE ("username"))`);
+    await queryRunner.query(`INSERT INTO "temporary_admin_users"("id", "username", "passwordHash", "role", "lastLoginAt", "createdAt", "updatedAt") SELECT "id", "username", "passwordHash", "role", "lastLoginAt", "createdAt", "updatedAt" FROM "admin_users"`);
+    await queryRunner.query(`DROP TABLE "admin_users"`);
+    await queryRunner.query(`ALTER TABLE "temporary_admin_users" RENAME TO "admin_users"`);
+    await queryRunner.query(`DROP INDEX "IDX_8c44da1c4e9a7109a8ac42144e"`);
+    await queryRunner.query(`CREATE TABLE "temporary_folder_shares" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "folderId" integer NOT NULL, "userId" integer NOT NULL, "permission" varchar NOT NULL DEFAULT ('read'), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_ce9dec7ce0c299258e23175906e" FOREIGN KEY ("folderId") REFERENCES "folders" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_0e8993e195922799c847362b9ed" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_folder_shares"("id", "folderId", "userId", "permission", "createdAt") SELECT "id", "folderId", "userId", "permission", "createdAt" FROM "folder_shares"`);
+    await queryRunner.query(`DROP TABLE "folder_shares"`);
+    await queryRunner.query(`ALTER TABLE "temporary_folder_shares" RENAME TO "folder_shares"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8c44da1c4e9a7109a8ac42144e" ON "folder_shares" ("folderId", "userId") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_8c44da1c4e9a7109a8ac42144e"`);
+    await queryRunner.query(`ALTER TABLE "folder_shares" RENAME TO "temporary_folder_shares"`);
+    await queryRunner.query(`CREATE TABLE "folder_shares" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "folderId" integer NOT NULL, "userId" integer NOT NULL, "permission" varchar NOT NULL DEFAULT ('read'), "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "folder_shares"("id", "folderId", "userId", "permission", "createdAt") SELECT "id", "folderId", "userId", "permission", "createdAt" FROM "temporary_folder_shares"`);
+    await queryRunner.query(`DROP TABLE "temporary_folder_shares"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8c44da1c4e9a7109a8ac42144e" ON "folder_shares" ("folderId", "userId") `);
+    await queryRunner.query(`ALTER TABLE "admin_users" RENAME TO "temporary_admin_users"`);
+    await queryRunner.query(`CREATE TABLE "admin_users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "username" varchar NOT NULL, "passwordHash" varchar NOT NULL, "role" varchar NOT NULL DEFAULT ('admin'), "lastLoginAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_2873882c38e8c07d98cb64f962d" UNIQUE ("username"))`);
+    await queryRunner.query(`INSERT INTO "admin_users"("id", "username", "passwordHash", "role", "lastLoginAt", "createdAt", "updatedAt") SELECT "id", "username", "passwordHash", "role", "lastLoginAt", "createdAt", "updatedAt" FROM "temporary_admin_users"`);
+    await queryRunner.query(`DROP TABLE "temporary_admin_users"`);
+    await queryRunner.query(`ALTER TABLE "folders" RENAME TO "temporary_folders"`);
+    await queryRunner.query(`CREATE TABLE "folders" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "parentId" integer, "order" integer NOT NULL DEFAULT (0), "isExpanded" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_1be2fce400dcc657602d336f23f" FOREIGN KEY ("parentId") REFERENCES "folders" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "folders"("id", "name", "parentId", "order", "isExpanded", "createdAt", "updatedAt") SELECT "id", "name", "parentId", "order", "isExpanded", "createdAt", "updatedAt" FROM "temporary_folders"`);
+    await queryRunner.query(`DROP TABLE "temporary_folders"`);
+    await queryRunner.query(`DROP INDEX "IDX_680f3c4ab039b49f348a5567b2"`);
+    await queryRunner.query(`DROP INDEX "IDX_13c69424c440a0e765053feb4b"`);
+    await queryRunner.query(`DROP TABLE "audit_logs"`);
+    await queryRunner.query(`DROP INDEX "IDX_8c44da1c4e9a7109a8ac42144e"`);
+    await queryRunner.query(`DROP TABLE "folder_shares"`);
+  }
+}
@@ -0,0 +1,43 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ReviewWorkflow1792399211640 implements MigrationInterface {
+  name = "ReviewWorkflow1792399211640";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "article_comments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "username" varchar NOT NULL, "body" text NOT NULL, "quote" text NOT NULL, "anchorStart" integer NOT NULL, "anchorEnd" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_a0ffb580b5f83e775d194a4a1b" ON "article_comments" ("articleId", "createdAt") `);
+    await queryRunner.query(`CREATE TABLE "temporary_articles" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "content" text NOT NULL, "summary" text, "tags" text, "status" text NOT NULL DEFAULT ('draft'), "scheduledAt" datetime, "publishedAt" datetime, "errorMessage" varchar, "userId" integer NOT NULL, "folderId" integer, "order" integer NOT NULL DEFAULT (0), "clientId" text, "localVersion" integer NOT NULL DEFAULT (1), "remoteVersion" integer, "contentHash" text, "remoteContentHash" text, "lastModifiedBy" text, "serverUpdatedAt" datetime, "hasConflict" boolean NOT NULL DEFAULT (0), "conflictRemoteContent" text, "conflictDetectedAt" datetime, "conflictBaseVersion" integer, "syncStatus" text NOT NULL DEFAULT ('synced'), "syncError" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "reviewStatus" text NOT NULL DEFAULT ('none'), "reviewerUserId" integer, "approvedContentHash" text, CONSTRAINT "FK_8883ccbfeea760fa89a7b991a7f" FOREIGN KEY ("folderId") REFERENCES "folders" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_a9d18538b896fe2a6762e143bea" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_articles"("id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt") SELECT "id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt" FROM "articles"`);
+    await queryRunner.query(`DROP TABLE "articles"`);
+    await queryRunner.query(`ALTER TABLE "temporary_articles" RENAME TO "articles"`);
+    await queryRunner.query(`CREATE TABLE "temporary_email_configs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "smtpHost" varchar, "smtpPort" integer, "smtpSecure" boolean NOT NULL DEFAULT (1), "smtpUser" varchar, "smtpPass" varchar, "fromName" varchar, "fromEmail" varchar, "notifyEmail" varchar, "notifyOnSuccess" boolean NOT NULL DEFAULT (1), "notifyOnFailed" boolean NOT NULL DEFAULT (1), "notifyOnCookieExpired" boolean NOT NULL DEFAULT (1), "enabled" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "notifyOnReview" boolean NOT NULL DEFAULT (1), CONSTRAINT "FK_4b4c593c2cfdf5cc94acbfa2acf" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_email_configs"("id", "userId", "smtpHost", "smtpPort", "smtpSecure", "smtpUser", "smtpPass", "fromName", "fromEmail", "notifyEmail", "notifyOnSuccess", "notifyOnFailed", "notifyOnCookieExpired", "enabled", "createdAt", "updatedAt") SELECT "id", "userId", "smtpHost", "smtpPort", "smtpSecure", "smtpUser", "smtpPass", "fromName", "fromEmail", "notifyEmail", "notifyOnSuccess", "notifyOnFailed", "notifyOnCookieExpired", "enabled", "createdAt", "updatedAt" FROM "email_configs"`);
+    await queryRunner.query(`DROP TABLE "email_configs"`);
+    await queryRunner.query(`ALTER TABLE "temporary_email_configs" RENAME TO "email_configs"`);
+    await queryRunner.query(`DROP INDEX "IDX_a0ffb580b5f83e775d194a4a1b"`);
+    await queryRunner.query(`CREATE TABLE "temporary_article_comments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "username" varchar NOT NULL, "body" text NOT NULL, "quote" text NOT NULL, "anchorStart" integer NOT NULL, "anchorEnd" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_7042a18a394319c32bb2d39f854" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_article_comments"("id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt") SELECT "id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt" FROM "article_comments"`);
+    await queryRunner.query(`DROP TABLE "article_comments"`);
+    await queryRunner.query(`ALTER TABLE "temporary_article_comments" RENAME TO "article_comments"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a0ffb580b5f83e775d194a4a1b" ON "article_comments" ("articleId", "createdAt") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_a0ffb580b5f83e775d194a4a1b"`);
+    await queryRunner.query(`ALTER TABLE "article_comments" RENAME TO "temporary_article_comments"`);
+    await queryRunner.query(`CREATE TABLE "article_comments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "username" varchar NOT NULL, "body" text NOT NULL, "quote" text NOT NULL, "anchorStart" integer NOT NULL, "anchorEnd" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "article_comments"("id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt") SELECT "id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt" FROM "temporary_article_comments"`);
+    await queryRunner.query(`DROP TABLE "temporary_article_comments"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a0ffb580b5f83e775d194a4a1b" ON "article_comments" ("articleId", "createdAt") `);
+    await queryRunner.query(`ALTER TABLE "email_configs" RENAME TO "temporary_email_configs"`);
+    await queryRunner.query(`CREATE TABLE "email_configs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "smtpHost" varchar, "smtpPort" integer, "smtpSecure" boolean NOT NULL DEFAULT (1), "smtpUser" varchar, "smtpPass" varchar, "fromName" varchar, "fromEmail" varchar, "notifyEmail" varchar, "notifyOnSuccess" boolean NOT NULL DEFAULT (1), "notifyOnFailed" boolean NOT NULL DEFAULT (1), "notifyOnCookieExpired" boolean NOT NULL DEFAULT (1), "enabled" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_4b4c593c2cfdf5cc94acbfa2acf" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "email_configs"("id", "userId", "smtpHost", "smtpPort", "smtpSecure", "smtpUser", "smtpPass", "fromName", "fromEmail", "notifyEmail", "notifyOnSuccess", "notifyOnFailed", "notifyOnCookieExpired", "enabled", "createdAt", "updatedAt") SELECT "id", "userId", "smtpHost", "smtpPort", "smtpSecure", "smtpUser", "smtpPass", "fromName", "fromEmail", "notifyEmail", "notifyOnSuccess", "notifyOnFailed", "notifyOnCookieExpired", "enabled", "createdAt", "updatedAt" FROM "temporary_email_configs"`);
+    await queryRunner.query(`DROP TABLE "temporary_email_configs"`);
+    await queryRunner.query(`ALTER TABLE "articles" RENAME TO "temporary_articles"`);
+    await queryRunner.query(`CREATE TABLE "articles" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "content" text NOT NULL, "summary" text, "tags" text, "status" text NOT NULL DEFAULT ('draft'), "scheduledAt" datetime, "publishedAt" datetime, "errorMessage" varchar, "userId" integer NOT NULL, "folderId" integer, "order" integer NOT NULL DEFAULT (0), "clientId" text, "localVersion" integer NOT NULL DEFAULT (1), "remoteVersion" integer, "contentHash" text, "remoteContentHash" text, "lastModifiedBy" text, "serverUpdatedAt" datetime, "hasConflict" boolean NOT NULL DEFAULT (0), "conflictRemoteContent" text, "conflictDetectedAt" datetime, "conflictBaseVersion" integer, "syncStatus" text NOT NULL DEFAULT ('synced'), "syncError" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_8883ccbfeea760fa89a7b991a7f" FOREIGN KEY ("folderId") REFERENCES "folders" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_a9d18538b896fe2a6762e143bea" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "articles"("id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt") SELECT "id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt" FROM "temporary_articles"`);
+    await queryRunner.query(`DROP TABLE "temporary_articles"`);
+    await queryRunner.query(`DROP INDEX "IDX_a0ffb580b5f83e775d194a4a1b"`);
+    await queryRunner.query(`DROP TABLE "article_comments"`);
+  }
+}
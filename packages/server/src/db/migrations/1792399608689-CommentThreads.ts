@@ -0,0 +1,37 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CommentThreads1792399608689 implements MigrationInterface {
+  name = "CommentThreads1792399608689";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_a0ffb580b5f83e775d194a4a1b"`);
+    await queryRunner.query(`CREATE TABLE "temporary_article_comments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "username" varchar NOT NULL, "body" text NOT NULL, "quote" text NOT NULL, "anchorStart" integer NOT NULL, "anchorEnd" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "parentId" integer, "detached" boolean NOT NULL DEFAULT (0), "resolved" boolean NOT NULL DEFAULT (0), "resolvedBy" varchar, "resolvedAt" datetime, CONSTRAINT "FK_7042a18a394319c32bb2d39f854" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_article_comments"("id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt") SELECT "id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt" FROM "article_comments"`);
+    await queryRunner.query(`DROP TABLE "article_comments"`);
+    await queryRunner.query(`ALTER TABLE "temporary_article_comments" RENAME TO "article_comments"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a0ffb580b5f83e775d194a4a1b" ON "article_comments" ("articleId", "createdAt") `);
+    await queryRunner.query(`DROP INDEX "IDX_a0ffb580b5f83e775d194a4a1b"`);
+    await queryRunner.query(`CREATE TABLE "temporary_article_comments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "username" varchar NOT NULL, "body" text NOT NULL, "quote" text, "anchorStart" integer, "anchorEnd" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "parentId" integer, "detached" boolean NOT NULL DEFAULT (0), "resolved" boolean NOT NULL DEFAULT (0), "resolvedBy" varchar, "resolvedAt" datetime, CONSTRAINT "FK_7042a18a394319c32bb2d39f854" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_article_comments"("id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt", "parentId", "detached", "resolved", "resolvedBy", "resolvedAt") SELECT "id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt", "parentId", "detached", "resolved", "resolvedBy", "resolvedAt" FROM "article_comments"`);
+    await queryRunner.query(`DROP TABLE "article_comments"`);
+    await queryRunner.query(`ALTER TABLE "temporary_article_comments" RENAME TO "article_comments"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a0ffb580b5f83e775d194a4a1b" ON "article_comments" ("articleId", "createdAt") `);
+    await queryRunner.query(`CREATE INDEX "IDX_61683f2bd08c04e29e50356b33" ON "article_comments" ("parentId") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_61683f2bd08c04e29e50356b33"`);
+    await queryRunner.query(`DROP INDEX "IDX_a0ffb580b5f83e775d194a4a1b"`);
+    await queryRunner.query(`ALTER TABLE "article_comments" RENAME TO "temporary_article_comments"`);
+    await queryRunner.query(`CREATE TABLE "article_comments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "username" varchar NOT NULL, "body" text NOT NULL, "quote" text NOT NULL, "anchorStart" integer NOT NULL, "anchorEnd" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "parentId" integer, "detached" boolean NOT NULL DEFAULT (0), "resolved" boolean NOT NULL DEFAULT (0), "resolvedBy" varchar, "resolvedAt" datetime, CONSTRAINT "FK_7042a18a394319c32bb2d39f854" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "article_comments"("id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt", "parentId", "detached", "resolved", "resolvedBy", "resolvedAt") SELECT "id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt", "parentId", "detached", "resolved", "resolvedBy", "resolvedAt" FROM "temporary_article_comments"`);
+    await queryRunner.query(`DROP TABLE "temporary_article_comments"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a0ffb580b5f83e775d194a4a1b" ON "article_comments" ("articleId", "createdAt") `);
+    await queryRunner.query(`DROP INDEX "IDX_a0ffb580b5f83e775d194a4a1b"`);
+    await queryRunner.query(`ALTER TABLE "article_comments" RENAME TO "temporary_article_comments"`);
+    await queryRunner.query(`CREATE TABLE "article_comments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "userId" integer NOT NULL, "username" varchar NOT NULL, "body" text NOT NULL, "quote" text NOT NULL, "anchorStart" integer NOT NULL, "anchorEnd" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_7042a18a394319c32bb2d39f854" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "article_comments"("id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt") SELECT "id", "articleId", "userId", "username", "body", "quote", "anchorStart", "anchorEnd", "createdAt" FROM "temporary_article_comments"`);
+    await queryRunner.query(`DROP TABLE "temporary_article_comments"`);
+    await queryRunner.query(`CREATE INDEX "IDX_a0ffb580b5f83e775d194a4a1b" ON "article_comments" ("articleId", "createdAt") `);
+  }
+}
@@ -0,0 +1,15 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class McpServers1792400564929 implements MigrationInterface {
+  name = "McpServers1792400564929";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "mcp_servers" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "name" varchar NOT NULL, "transport" text NOT NULL DEFAULT ('stdio'), "command" text, "args" text, "env" text, "url" text, "headers" text, "enabled" boolean NOT NULL DEFAULT (1), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_23850a3c7767d2f4ffaea8fd02" ON "mcp_servers" ("userId") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_23850a3c7767d2f4ffaea8fd02"`);
+    await queryRunner.query(`DROP TABLE "mcp_servers"`);
+  }
+}
@@ -0,0 +1,23 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ChatCompaction1792400852633 implements MigrationInterface {
+  name = "ChatCompaction1792400852633";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_c21b53eccf0eb35723bb10f549"`);
+    await queryRunner.query(`CREATE TABLE "temporary_ai_chat_messages" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "sessionId" integer NOT NULL, "role" varchar NOT NULL, "content" text NOT NULL, "reasoning" text, "toolCalls" text, "toolCallId" varchar, "usage" text, "status" varchar NOT NULL DEFAULT ('completed'), "error" text, "duration" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "isSummary" boolean NOT NULL DEFAULT (0), "compactedInto" integer)`);
+    await queryRunner.query(`INSERT INTO "temporary_ai_chat_messages"("id", "sessionId", "role", "content", "reasoning", "toolCalls", "toolCallId", "usage", "status", "error", "duration", "createdAt") SELECT "id", "sessionId", "role", "content", "reasoning", "toolCalls", "toolCallId", "usage", "status", "error", "duration", "createdAt" FROM "ai_chat_messages"`);
+    await queryRunner.query(`DROP TABLE "ai_chat_messages"`);
+    await queryRunner.query(`ALTER TABLE "temporary_ai_chat_messages" RENAME TO "ai_chat_messages"`);
+    await queryRunner.query(`CREATE INDEX "IDX_c21b53eccf0eb35723bb10f549" ON "ai_chat_messages" ("sessionId") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_c21b53eccf0eb35723bb10f549"`);
+    await queryRunner.query(`ALTER TABLE "ai_chat_messages" RENAME TO "temporary_ai_chat_messages"`);
+    await queryRunner.query(`CREATE TABLE "ai_chat_messages" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "sessionId" integer NOT NULL, "role" varchar NOT NULL, "content" text NOT NULL, "reasoning" text, "toolCalls" text, "toolCallId" varchar, "usage" text, "status" varchar NOT NULL DEFAULT ('completed'), "error" text, "duration" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "ai_chat_messages"("id", "sessionId", "role", "content", "reasoning", "toolCalls", "toolCallId", "usage", "status", "error", "duration", "createdAt") SELECT "id", "sessionId", "role", "content", "reasoning", "toolCalls", "toolCallId", "usage", "status", "error", "duration", "createdAt" FROM "temporary_ai_chat_messages"`);
+    await queryRunner.query(`DROP TABLE "temporary_ai_chat_messages"`);
+    await queryRunner.query(`CREATE INDEX "IDX_c21b53eccf0eb35723bb10f549" ON "ai_chat_messages" ("sessionId") `);
+  }
+}
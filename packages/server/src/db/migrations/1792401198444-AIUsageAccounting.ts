@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AIUsageAccounting1792401198444 implements MigrationInterface {
+  name = "AIUsageAccounting1792401198444";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "ai_usage_records" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "providerId" integer NOT NULL, "providerName" varchar NOT NULL, "modelId" varchar NOT NULL, "modelName" varchar NOT NULL, "articleId" integer, "source" varchar NOT NULL DEFAULT ('chat'), "inputTokens" integer NOT NULL DEFAULT (0), "outputTokens" integer NOT NULL DEFAULT (0), "cachedInputTokens" integer NOT NULL DEFAULT (0), "cost" real NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE INDEX "IDX_27b3a93b8e85feff9477dff736" ON "ai_usage_records" ("userId", "createdAt") `);
+    await queryRunner.query(`CREATE TABLE "ai_usage_budgets" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "dailyLimit" real, "monthlyLimit" real, "action" varchar NOT NULL DEFAULT ('warn'), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_562f6e2851c4cbee1113549a77" ON "ai_usage_budgets" ("userId") `);
+    await queryRunner.query(`CREATE TABLE "temporary_ai_models" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "providerId" integer NOT NULL, "modelId" varchar NOT NULL, "displayName" varchar NOT NULL, "isDefault" boolean NOT NULL DEFAULT (0), "enabled" boolean NOT NULL DEFAULT (1), "order" integer NOT NULL DEFAULT (0), "contextLength" integer, "parameters" text, "capabilities" text, "aiLoopConfig" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "pricing" text)`);
+    await queryRunner.query(`INSERT INTO "temporary_ai_models"("id", "userId", "providerId", "modelId", "displayName", "isDefault", "enabled", "order", "contextLength", "parameters", "capabilities", "aiLoopConfig", "createdAt", "updatedAt") SELECT "id", "userId", "providerId", "modelId", "displayName", "isDefault", "enabled", "order", "contextLength", "parameters", "capabilities", "aiLoopConfig", "createdAt", "updatedAt" FROM "ai_models"`);
+    await queryRunner.query(`DROP TABLE "ai_models"`);
+    await queryRunner.query(`ALTER TABLE "temporary_ai_models" RENAME TO "ai_models"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "ai_models" RENAME TO "temporary_ai_models"`);
+    await queryRunner.query(`CREATE TABLE "ai_models" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "providerId" integer NOT NULL, "modelId" varchar NOT NULL, "displayName" varchar NOT NULL, "isDefault" boolean NOT NULL DEFAULT (0), "enabled" boolean NOT NULL DEFAULT (1), "order" integer NOT NULL DEFAULT (0), "contextLength" integer, "parameters" text, "capabilities" text, "aiLoopConfig" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "ai_models"("id", "userId", "providerId", "modelId", "displayName", "isDefault", "enabled", "order", "contextLength", "parameters", "capabilities", "aiLoopConfig", "createdAt", "updatedAt") SELECT "id", "userId", "providerId", "modelId", "displayName", "isDefault", "enabled", "order", "contextLength", "parameters", "capabilities", "aiLoopConfig", "createdAt", "updatedAt" FROM "temporary_ai_models"`);
+    await queryRunner.query(`DROP TABLE "temporary_ai_models"`);
+    await queryRunner.query(`DROP INDEX "IDX_562f6e2851c4cbee1113549a77"`);
+    await queryRunner.query(`DROP TABLE "ai_usage_budgets"`);
+    await queryRunner.query(`DROP INDEX "IDX_27b3a93b8e85feff9477dff736"`);
+    await queryRunner.query(`DROP TABLE "ai_usage_records"`);
+  }
+}
@@ -0,0 +1,15 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class PromptLibrary1792401591390 implements MigrationInterface {
+  name = "PromptLibrary1792401591390";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "prompt_templates" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "command" varchar NOT NULL, "name" varchar NOT NULL, "description" text, "content" text NOT NULL, "kind" varchar NOT NULL DEFAULT ('command'), "enabled" boolean NOT NULL DEFAULT (1), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_b75da6fe9b215755d40fb8df71" ON "prompt_templates" ("userId", "command") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_b75da6fe9b215755d40fb8df71"`);
+    await queryRunner.query(`DROP TABLE "prompt_templates"`);
+  }
+}
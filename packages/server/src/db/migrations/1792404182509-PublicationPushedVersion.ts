@@ -0,0 +1,23 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class PublicationPushedVersion1792404182509 implements MigrationInterface {
+  name = "PublicationPushedVersion1792404182509";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_ba43932885a40241613e267d0c"`);
+    await queryRunner.query(`CREATE TABLE "temporary_article_publications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "platform" text NOT NULL, "remoteId" text, "draftId" text, "url" text, "status" text, "config" text, "errorMessage" text, "lastSyncedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "remoteContentHash" text, "pushedVersion" integer, CONSTRAINT "FK_5eda0ee0e26017ebde7d16457e8" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_article_publications"("id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt", "remoteContentHash") SELECT "id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt", "remoteContentHash" FROM "article_publications"`);
+    await queryRunner.query(`DROP TABLE "article_publications"`);
+    await queryRunner.query(`ALTER TABLE "temporary_article_publications" RENAME TO "article_publications"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_ba43932885a40241613e267d0c" ON "article_publications" ("articleId", "platform") `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_ba43932885a40241613e267d0c"`);
+    await queryRunner.query(`ALTER TABLE "article_publications" RENAME TO "temporary_article_publications"`);
+    await queryRunner.query(`CREATE TABLE "article_publications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "platform" text NOT NULL, "remoteId" text, "draftId" text, "url" text, "status" text, "config" text, "errorMessage" text, "lastSyncedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "remoteContentHash" text, CONSTRAINT "FK_5eda0ee0e26017ebde7d16457e8" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "article_publications"("id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt", "remoteContentHash") SELECT "id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt", "remoteContentHash" FROM "temporary_article_publications"`);
+    await queryRunner.query(`DROP TABLE "temporary_article_publications"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_ba43932885a40241613e267d0c" ON "article_publications" ("articleId", "platform") `);
+  }
+}
@@ -0,0 +1,31 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class PushedVersionMergeBase1792406506845 implements MigrationInterface {
+  name = "PushedVersionMergeBase1792406506845";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_ba43932885a40241613e267d0c"`);
+    await queryRunner.query(`CREATE TABLE "temporary_article_publications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "platform" text NOT NULL, "remoteId" text, "draftId" text, "url" text, "status" text, "config" text, "errorMessage" text, "lastSyncedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "remoteContentHash" text, "pushedVersionId" integer, CONSTRAINT "FK_5eda0ee0e26017ebde7d16457e8" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_article_publications"("id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt", "remoteContentHash", "pushedVersionId") SELECT "id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt", "remoteContentHash", "pushedVersion" FROM "article_publications"`);
+    await queryRunner.query(`DROP TABLE "article_publications"`);
+    await queryRunner.query(`ALTER TABLE "temporary_article_publications" RENAME TO "article_publications"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_ba43932885a40241613e267d0c" ON "article_publications" ("articleId", "platform") `);
+    await queryRunner.query(`CREATE TABLE "temporary_articles" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "content" text NOT NULL, "summary" text, "tags" text, "status" text NOT NULL DEFAULT ('draft'), "scheduledAt" datetime, "publishedAt" datetime, "errorMessage" varchar, "userId" integer NOT NULL, "folderId" integer, "order" integer NOT NULL DEFAULT (0), "clientId" text, "localVersion" integer NOT NULL DEFAULT (1), "remoteVersion" integer, "contentHash" text, "remoteContentHash" text, "lastModifiedBy" text, "serverUpdatedAt" datetime, "hasConflict" boolean NOT NULL DEFAULT (0), "conflictRemoteContent" text, "conflictDetectedAt" datetime, "conflictBaseVersion" integer, "syncStatus" text NOT NULL DEFAULT ('synced'), "syncError" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "reviewStatus" text NOT NULL DEFAULT ('none'), "reviewerUserId" integer, "approvedContentHash" text, "conflictSource" text, "conflictBaseVersionId" integer, CONSTRAINT "FK_8883ccbfeea760fa89a7b991a7f" FOREIGN KEY ("folderId") REFERENCES "folders" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_a9d18538b896fe2a6762e143bea" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_articles"("id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt", "reviewStatus", "reviewerUserId", "approvedContentHash", "conflictSource") SELECT "id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt", "reviewStatus", "reviewerUserId", "approvedContentHash", "conflictSource" FROM "articles"`);
+    await queryRunner.query(`DROP TABLE "articles"`);
+    await queryRunner.query(`ALTER TABLE "temporary_articles" RENAME TO "articles"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "articles" RENAME TO "temporary_articles"`);
+    await queryRunner.query(`CREATE TABLE "articles" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "content" text NOT NULL, "summary" text, "tags" text, "status" text NOT NULL DEFAULT ('draft'), "scheduledAt" datetime, "publishedAt" datetime, "errorMessage" varchar, "userId" integer NOT NULL, "folderId" integer, "order" integer NOT NULL DEFAULT (0), "clientId" text, "localVersion" integer NOT NULL DEFAULT (1), "remoteVersion" integer, "contentHash" text, "remoteContentHash" text, "lastModifiedBy" text, "serverUpdatedAt" datetime, "hasConflict" boolean NOT NULL DEFAULT (0), "conflictRemoteContent" text, "conflictDetectedAt" datetime, "conflictBaseVersion" integer, "syncStatus" text NOT NULL DEFAULT ('synced'), "syncError" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "reviewStatus" text NOT NULL DEFAULT ('none'), "reviewerUserId" integer, "approvedContentHash" text, "conflictSource" text, CONSTRAINT "FK_8883ccbfeea760fa89a7b991a7f" FOREIGN KEY ("folderId") REFERENCES "folders" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_a9d18538b896fe2a6762e143bea" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "articles"("id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt", "reviewStatus", "reviewerUserId", "approvedContentHash", "conflictSource") SELECT "id", "title", "content", "summary", "tags", "status", "scheduledAt", "publishedAt", "errorMessage", "userId", "folderId", "order", "clientId", "localVersion", "remoteVersion", "contentHash", "remoteContentHash", "lastModifiedBy", "serverUpdatedAt", "hasConflict", "conflictRemoteContent", "conflictDetectedAt", "conflictBaseVersion", "syncStatus", "syncError", "createdAt", "updatedAt", "reviewStatus", "reviewerUserId", "approvedContentHash", "conflictSource" FROM "temporary_articles"`);
+    await queryRunner.query(`DROP TABLE "temporary_articles"`);
+    await queryRunner.query(`DROP INDEX "IDX_ba43932885a40241613e267d0c"`);
+    await queryRunner.query(`ALTER TABLE "article_publications" RENAME TO "temporary_article_publications"`);
+    await queryRunner.query(`CREATE TABLE "article_publications" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "articleId" integer NOT NULL, "platform" text NOT NULL, "remoteId" text, "draftId" text, "url" text, "status" text, "config" text, "errorMessage" text, "lastSyncedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "remoteContentHash" text, "pushedVersion" integer, CONSTRAINT "FK_5eda0ee0e26017ebde7d16457e8" FOREIGN KEY ("articleId") REFERENCES "articles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "article_publications"("id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt", "remoteContentHash", "pushedVersion") SELECT "id", "articleId", "platform", "remoteId", "draftId", "url", "status", "config", "errorMessage", "lastSyncedAt", "createdAt", "updatedAt", "remoteContentHash", "pushedVersionId" FROM "temporary_article_publications"`);
+    await queryRunner.query(`DROP TABLE "temporary_article_publications"`);
+    await queryRunner.query(`CREATE UNIQUE INDEX "IDX_ba43932885a40241613e267d0c" ON "article_publications" ("articleId", "platform") `);
+  }
+}
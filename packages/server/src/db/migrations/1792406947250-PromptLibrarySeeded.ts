@@ -0,0 +1,21 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+export class PromptLibrarySeeded1792406947250 implements MigrationInterface {
+  name = "PromptLibrarySeeded1792406947250";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "temporary_users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tencentUid" varchar, "nickname" varchar, "avatarUrl" varchar, "cookies" text, "isLoggedIn" boolean NOT NULL DEFAULT (0), "lastLoginAt" datetime, "juejinUserId" varchar, "juejinNickname" varchar, "juejinAvatarUrl" varchar, "juejinCookies" text, "juejinLoggedIn" boolean NOT NULL DEFAULT (0), "juejinLastLoginAt" datetime, "csdnUserId" varchar, "csdnNickname" varchar, "csdnAvatarUrl" varchar, "csdnCookies" text, "csdnLoggedIn" boolean NOT NULL DEFAULT (0), "csdnLastLoginAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "promptLibrarySeeded" boolean NOT NULL DEFAULT (0), CONSTRAINT "UQ_d3d8936f45e8691b7b3df7159fd" UNIQUE ("tencentUid"))`);
+    await queryRunner.query(`INSERT INTO "temporary_users"("id", "tencentUid", "nickname", "avatarUrl", "cookies", "isLoggedIn", "lastLoginAt", "juejinUserId", "juejinNickname", "juejinAvatarUrl", "juejinCookies", "juejinLoggedIn", "juejinLastLoginAt", "csdnUserId", "csdnNickname", "csdnAvatarUrl", "csdnCookies", "csdnLoggedIn", "csdnLastLoginAt", "createdAt", "updatedAt") SELECT "id", "tencentUid", "nickname", "avatarUrl", "cookies", "isLoggedIn", "lastLoginAt", "juejinUserId", "juejinNickname", "juejinAvatarUrl", "juejinCookies", "juejinLoggedIn", "juejinLastLoginAt", "csdnUserId", "csdnNickname", "csdnAvatarUrl", "csdnCookies", "csdnLoggedIn", "csdnLastLoginAt", "createdAt", "updatedAt" FROM "users"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`ALTER TABLE "temporary_users" RENAME TO "users"`);
+    // 已有提示词的用户此前已经导入过内置提示词
+    await queryRunner.query(`UPDATE "users" SET "promptLibrarySeeded" = 1 WHERE "id" IN (SELECT DISTINCT "userId" FROM "prompt_templates")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" RENAME TO "temporary_users"`);
+    await queryRunner.query(`CREATE TABLE "users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tencentUid" varchar, "nickname" varchar, "avatarUrl" varchar, "cookies" text, "isLoggedIn" boolean NOT NULL DEFAULT (0), "lastLoginAt" datetime, "juejinUserId" varchar, "juejinNickname" varchar, "juejinAvatarUrl" varchar, "juejinCookies" text, "juejinLoggedIn" boolean NOT NULL DEFAULT (0), "juejinLastLoginAt" datetime, "csdnUserId" varchar, "csdnNickname" varchar, "csdnAvatarUrl" varchar, "csdnCookies" text, "csdnLoggedIn" boolean NOT NULL DEFAULT (0), "csdnLastLoginAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_d3d8936f45e8691b7b3df7159fd" UNIQUE ("tencentUid"))`);
+    await queryRunner.query(`INSERT INTO "users"("id", "tencentUid", "nickname", "avatarUrl", "cookies", "isLoggedIn", "lastLoginAt", "juejinUserId", "juejinNickname", "juejinAvatarUrl", "juejinCookies", "juejinLoggedIn", "juejinLastLoginAt", "csdnUserId", "csdnNickname", "csdnAvatarUrl", "csdnCookies", "csdnLoggedIn", "csdnLastLoginAt", "createdAt", "updatedAt") SELECT "id", "tencentUid", "nickname", "avatarUrl", "cookies", "isLoggedIn", "lastLoginAt", "juejinUserId", "juejinNickname", "juejinAvatarUrl", "juejinCookies", "juejinLoggedIn", "juejinLastLoginAt", "csdnUserId", "csdnNickname", "csdnAvatarUrl", "csdnCookies", "csdnLoggedIn", "csdnLastLoginAt", "createdAt", "updatedAt" FROM "temporary_users"`);
+    await queryRunner.query(`DROP TABLE "temporary_users"`);
+  }
+}
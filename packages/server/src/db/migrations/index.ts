@@ -0,0 +1,18 @@
+import { Initial1792397771197 } from "./1792397771197-Initial";
+import { MultiUserWorkspaces1792398437398 } from "./1792398437398-MultiUserWorkspaces";
+import { ReviewWorkflow1792399211640 } from "./1792399211640-ReviewWorkflow";
+import { CommentThreads1792399608689 } from "./1792399608689-CommentThreads";
+import { RemoteEditDetection1792400284163 } from "./1792400284163-RemoteEditDetection";
+import { McpServers1792400564929 } from "./1792400564929-McpServers";
+import { ChatCompaction1792400852633 } from "./1792400852633-ChatCompaction";
+import { AIUsageAccounting1792401198444 } from "./1792401198444-AIUsageAccounting";
+import { PromptLibrary1792401591390 } from "./1792401591390-PromptLibrary";
+import { PublicationPushedVersion1792404182509 } from "./1792404182509-PublicationPushedVersion";
+import { PushedVersionMergeBase1792406506845 } from "./1792406506845-PushedVersionMergeBase";
+import { PromptLibrarySeeded1792406947250 } from "./1792406947250-PromptLibrarySeeded";
+
+/**
+ * 已注册的数据库迁移，按时间顺序排列
+ * 使用静态导入而不是按目录加载，Bun 编译后的可执行文件中没有源码目录
+ */
+export const migrations: Function[] = [Initial1792397771197, MultiUserWorkspaces1792398437398, ReviewWorkflow1792399211640, CommentThreads1792399608689, RemoteEditDetection1792400284163, McpServers1792400564929, ChatCompaction1792400852633, AIUsageAccounting1792401198444, PromptLibrary1792401591390, PublicationPushedVersion1792404182509, PushedVersionMergeBase1792406506845, PromptLibrarySeeded1792406947250];
@@ -128,6 +128,14 @@ export class AIChatMessage {
   @Column({ nullable: true })
   duration?: number;
 
+  // 是否为上下文压缩生成的摘要消息（role 为 system，固定在对话中）
+  @Column({ default: false })
+  isSummary!: boolean;
+
+  // 已被压缩进的摘要消息 ID（压缩后的消息仍保留展示，但不再发送给模型）
+  @Column({ type: "integer", nullable: true })
+  compactedInto?: number | null;
+
   @CreateDateColumn()
   createdAt!: Date;
 }
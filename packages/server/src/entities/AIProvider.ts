@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
 } from "typeorm";
+import { encryptedColumn } from "../services/secrets";
 
 /**
  * AI SDK 类型
@@ -36,7 +37,7 @@ export class AIProvider {
   baseUrl!: string;
 
   // API 密钥（加密存储）
-  @Column()
+  @Column({ transformer: encryptedColumn })
   apiKey!: string;
 
   // 是否启用
@@ -97,6 +98,17 @@ export interface ModelParameters {
   presencePenalty?: number;
 }
 
+/**
+ * 模型价格（每百万 tokens）
+ * 同一工作区的模型应使用同一币种，用量报表和预算按此累计费用
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  // 缓存命中的输入价格，未设置时按普通输入计价
+  cachedInput?: number;
+}
+
 /**
  * AI 模型实体
  * 存储具体的模型配置，关联到供应商
@@ -149,6 +161,10 @@ export class AIModel {
   @Column({ type: "simple-json", nullable: true })
   aiLoopConfig?: AILoopConfig;
 
+  // 价格配置，未设置时不计算费用
+  @Column({ type: "simple-json", nullable: true })
+  pricing?: ModelPricing | null;
+
   @CreateDateColumn()
   createdAt!: Date;
 
@@ -0,0 +1,100 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * 用量来源
+ * - chat: AI 助手对话
+ * - compaction: 上下文压缩生成摘要
+ * - metadata: 生成发布平台的标题、摘要和标签
+ */
+export type AIUsageSource = "chat" | "compaction" | "metadata";
+
+/**
+ * AI 用量记录
+ * 每次调用模型记录一条，费用按调用时的模型价格计算
+ */
+@Entity("ai_usage_records")
+@Index(["userId", "createdAt"])
+export class AIUsageRecord {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  userId!: number;
+
+  @Column()
+  providerId!: number;
+
+  // 供应商、模型名称（记录时的快照，删除配置后报表仍可读）
+  @Column()
+  providerName!: string;
+
+  @Column()
+  modelId!: string;
+
+  @Column()
+  modelName!: string;
+
+  // 关联的文章（在文章中使用 AI 助手时）
+  @Column({ type: "integer", nullable: true })
+  articleId?: number | null;
+
+  @Column({ type: "varchar", default: "chat" })
+  source!: AIUsageSource;
+
+  @Column({ default: 0 })
+  inputTokens!: number;
+
+  @Column({ default: 0 })
+  outputTokens!: number;
+
+  // 输入中命中缓存的部分
+  @Column({ default: 0 })
+  cachedInputTokens!: number;
+
+  // 费用，模型未设置价格时为 0
+  @Column({ type: "real", default: 0 })
+  cost!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
+
+/**
+ * 超出预算时的处理方式
+ * - warn: 继续使用，在 AI 助手中提示
+ * - block: 拒绝新的请求
+ */
+export type AIBudgetAction = "warn" | "block";
+
+/**
+ * AI 用量预算
+ * 由超级管理员为每个用户设置，按自然日、自然月累计费用
+ */
+@Entity("ai_usage_budgets")
+export class AIUsageBudget {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Index({ unique: true })
+  @Column()
+  userId!: number;
+
+  @Column({ type: "real", nullable: true })
+  dailyLimit?: number | null;
+
+  @Column({ type: "real", nullable: true })
+  monthlyLimit?: number | null;
+
+  @Column({ type: "varchar", default: "warn" })
+  action!: AIBudgetAction;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -6,10 +6,13 @@ import {
   UpdateDateColumn,
 } from "typeorm";
 
-// 管理员角色
+// 管理员角色（各角色的权限见 services/permissions.ts）
 export enum AdminRole {
   SUPER_ADMIN = "super_admin", // 超级管理员，可管理其他用户
-  ADMIN = "admin", // 普通管理员
+  ADMIN = "admin", // 普通管理员，拥有全部内容权限
+  EDITOR = "editor", // 编辑：撰写文章，不能发布
+  REVIEWER = "reviewer", // 审核：审核文章
+  PUBLISHER = "publisher", // 发布：撰写和发布文章，管理平台账号
 }
 
 @Entity("admin_users")
@@ -29,6 +32,10 @@ export class AdminUser {
   })
   role!: AdminRole;
 
+  // 对应的工作区用户：平台账号、文章、文件夹、AI 配置等数据都归属于该用户
+  @Column({ type: "integer", nullable: true })
+  userId?: number | null;
+
   @Column({ nullable: true })
   lastLoginAt?: Date;
 
@@ -17,6 +17,14 @@ export enum ArticleStatus {
   FAILED = "failed", // 发布失败
 }
 
+// 编辑审核状态，与发布状态相互独立
+export enum ReviewStatus {
+  NONE = "none", // 未提交审核
+  IN_REVIEW = "in_review", // 审核中
+  CHANGES_REQUESTED = "changes_requested", // 需要修改
+  APPROVED = "approved", // 审核通过
+}
+
 @Entity("articles")
 export class Article {
   @PrimaryGeneratedColumn()
@@ -46,85 +54,10 @@ export class Article {
   @Column({ nullable: true })
   publishedAt?: Date;
 
-  @Column({ nullable: true })
-  tencentDraftId?: number; // 腾讯云社区草稿ID
-
-  @Column({ nullable: true })
-  tencentArticleId?: string; // 腾讯云社区文章ID
-
-  @Column({ nullable: true })
-  tencentArticleUrl?: string;
-
-  @Column({ type: "simple-array", nullable: true })
-  tencentTagIds?: number[]; // 腾讯云标签ID列表
-
-  @Column({ default: 1 })
-  sourceType!: number; // 来源类型: 1-原创, 2-转载, 3-翻译
-
-  @Column({ nullable: true })
-  lastSyncedAt?: Date; // 最后同步到腾讯云的时间
-
   @Column({ nullable: true })
   errorMessage?: string;
 
-  // 掘金相关字段
-  @Column({ nullable: true })
-  juejinDraftId?: string; // 掘金草稿ID
-
-  @Column({ nullable: true })
-  juejinArticleId?: string; // 掘金文章ID
-
-  @Column({ nullable: true })
-  juejinArticleUrl?: string; // 掘金文章链接
-
-  @Column({ nullable: true })
-  juejinCategoryId?: string; // 掘金分类ID
-
-  @Column({ type: "simple-array", nullable: true })
-  juejinTagIds?: string[]; // 掘金标签ID列表
-
-  @Column({ type: "simple-array", nullable: true })
-  juejinTagNames?: string[]; // 掘金标签名称列表（用于显示）
-
-  @Column({ nullable: true })
-  juejinBriefContent?: string; // 掘金摘要（最多100字）
-
-  @Column({ default: 1 })
-  juejinIsOriginal!: number; // 掘金是否原创: 1-原创, 0-转载
-
-  @Column({ nullable: true })
-  juejinStatus?: string; // 掘金文章状态: draft, pending, published, rejected
-
-  @Column({ nullable: true })
-  juejinLastSyncedAt?: Date; // 最后同步到掘金的时间
-
-  // CSDN 相关字段
-  @Column({ nullable: true })
-  csdnArticleId?: string; // CSDN 文章ID
-
-  @Column({ nullable: true })
-  csdnArticleUrl?: string; // CSDN 文章链接
-
-  @Column({ type: "simple-array", nullable: true })
-  csdnTags?: string[]; // CSDN 标签列表（用于显示）
-
-  @Column({ nullable: true })
-  csdnDescription?: string; // CSDN 摘要
-
-  @Column({ nullable: true })
-  csdnCoverImage?: string; // CSDN 封面图片
-
-  @Column({ default: "original" })
-  csdnType!: string; // CSDN 文章类型: original-原创, repost-转载, translated-翻译
-
-  @Column({ default: "public" })
-  csdnReadType!: string; // CSDN 可见范围: public-全部可见, private-仅我可见, fans-粉丝可见, vip-VIP可见
-
-  @Column({ nullable: true })
-  csdnStatus?: string; // CSDN 文章状态: draft, published
-
-  @Column({ nullable: true })
-  csdnLastSyncedAt?: Date; // 最后同步到 CSDN 的时间
+  // 各平台的发布信息见 ArticlePublication
 
   @ManyToOne(() => User)
   user!: User;
@@ -141,6 +74,17 @@ export class Article {
   @Column({ default: 0 })
   order!: number; // 在文件夹内的排序顺序
 
+  // ========== 编辑审核 ==========
+
+  @Column({ type: "text", default: ReviewStatus.NONE })
+  reviewStatus!: ReviewStatus;
+
+  @Column({ type: "integer", nullable: true })
+  reviewerUserId?: number | null; // 指定的审核人（工作区用户）
+
+  @Column({ type: "text", nullable: true })
+  approvedContentHash?: string | null; // 审核通过时标题和正文的哈希，内容变化后需要重新审核
+
   // ========== 本地缓存与同步相关字段 ==========
 
   @Column({ type: "text", nullable: true })
@@ -173,6 +117,15 @@ export class Article {
   @Column({ nullable: true })
   conflictDetectedAt?: Date; // 冲突检测时间
 
+  @Column({ type: "integer", nullable: true })
+  conflictBaseVersion?: number | null; // 冲突时本地修改所基于的版本号（三方合并的基准）
+
+  @Column({ type: "integer", nullable: true })
+  conflictBaseVersionId?: number | null; // 三方合并基准的历史版本 ID（平台上的修改以推送的内容为基准），优先于 conflictBaseVersion
+
+  @Column({ type: "text", nullable: true })
+  conflictSource?: string | null; // 冲突内容的来源: conflict_remote（其他设备）或平台标识
+
   @Column({ type: "text", default: "synced" })
   syncStatus!: string; // 同步状态: synced | pending | syncing | conflict | error
 
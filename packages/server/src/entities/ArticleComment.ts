@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+} from "typeorm";
+import { Article } from "./Article";
+
+/**
+ * 文章评论
+ * 没有 parentId 的评论是一个讨论串，锚定在正文（Markdown）中的一段文字上；
+ * 回复通过 parentId 挂在讨论串下，不单独锚定。评论不属于正文，不会进入发布和导出的 Markdown
+ */
+@Entity("article_comments")
+@Index(["articleId", "createdAt"])
+export class ArticleComment {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => Article, { onDelete: "CASCADE" })
+  article!: Article;
+
+  @Column()
+  articleId!: number;
+
+  // 所属讨论串（回复时为讨论串的首条评论 ID）
+  @Index()
+  @Column({ type: "integer", nullable: true })
+  parentId?: number | null;
+
+  // 评论人（工作区用户）
+  @Column()
+  userId!: number;
+
+  // 评论人用户名（评论时的快照）
+  @Column()
+  username!: string;
+
+  @Column({ type: "text" })
+  body!: string;
+
+  // 被评论的原文（仅讨论串）
+  @Column({ type: "text", nullable: true })
+  quote?: string | null;
+
+  // 原文在正文中的位置 [anchorStart, anchorEnd)，正文修改后重新定位
+  @Column({ type: "integer", nullable: true })
+  anchorStart?: number | null;
+
+  @Column({ type: "integer", nullable: true })
+  anchorEnd?: number | null;
+
+  // 原文已从正文中删除，无法再定位
+  @Column({ default: false })
+  detached!: boolean;
+
+  // 讨论串是否已解决
+  @Column({ default: false })
+  resolved!: boolean;
+
+  @Column({ type: "varchar", nullable: true })
+  resolvedBy?: string | null;
+
+  @Column({ type: "datetime", nullable: true })
+  resolvedAt?: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
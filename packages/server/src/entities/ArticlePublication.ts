@@ -0,0 +1,93 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  Index,
+} from "typeorm";
+import { Article } from "./Article";
+
+/**
+ * 腾讯云发布配置（保存在发布记录上）
+ */
+export interface TencentPublicationConfig {
+  tagIds?: number[]; // 腾讯云标签ID列表
+  sourceType?: number; // 来源类型: 1-原创, 2-转载, 3-翻译
+}
+
+/**
+ * 掘金发布配置（保存在发布记录上）
+ */
+export interface JuejinPublicationConfig {
+  categoryId?: string; // 掘金分类ID
+  tagIds?: string[]; // 掘金标签ID列表
+  tagNames?: string[]; // 掘金标签名称列表（用于显示）
+  briefContent?: string; // 掘金摘要（最多100字）
+  isOriginal?: number; // 是否原创: 1-原创, 0-转载
+}
+
+/**
+ * CSDN 发布配置（保存在发布记录上）
+ */
+export interface CsdnPublicationConfig {
+  tags?: string[]; // CSDN 标签列表
+  description?: string; // CSDN 摘要
+  coverImage?: string; // CSDN 封面图片
+  type?: string; // 文章类型: original-原创, repost-转载, translated-翻译
+  readType?: string; // 可见范围: public-全部可见, private-仅我可见, fans-粉丝可见, vip-VIP可见
+}
+
+/**
+ * 文章在某个平台上的发布记录
+ * 每篇文章在每个平台最多一条记录
+ */
+@Entity("article_publications")
+@Index(["articleId", "platform"], { unique: true })
+export class ArticlePublication {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => Article, { onDelete: "CASCADE" })
+  article!: Article;
+
+  @Column()
+  articleId!: number;
+
+  @Column({ type: "text" })
+  platform!: string; // 平台标识，与发布平台注册表一致
+
+  @Column({ type: "text", nullable: true })
+  remoteId?: string | null; // 平台文章ID
+
+  @Column({ type: "text", nullable: true })
+  draftId?: string | null; // 平台草稿ID
+
+  @Column({ type: "text", nullable: true })
+  url?: string | null; // 平台文章链接
+
+  @Column({ type: "text", nullable: true })
+  status?: string | null; // 平台文章状态: draft, pending, published, rejected, failed
+
+  @Column({ type: "simple-json", nullable: true })
+  config?: Record<string, any>; // 平台发布配置（标签、分类、摘要等）
+
+  @Column({ type: "text", nullable: true })
+  errorMessage?: string | null;
+
+  @Column({ nullable: true })
+  lastSyncedAt?: Date | null; // 最后同步到该平台的时间
+
+  @Column({ type: "text", nullable: true })
+  remoteContentHash?: string | null; // 上次检查时平台文章内容的哈希（用于发现在平台上直接修改），推送内容后清空
+
+  @Column({ type: "integer", nullable: true })
+  pushedVersionId?: number | null; // 最后推送到平台的内容（历史版本 ID），平台上有修改时作为三方合并的基准
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -8,7 +8,7 @@ import {
 } from "typeorm";
 import { Article } from "./Article";
 
-export type VersionSource = "local" | "tencent" | "juejin" | "csdn" | "conflict_remote";
+export type VersionSource = "local" | "tencent" | "juejin" | "csdn" | "conflict_remote" | "merged";
 
 @Entity("article_versions")
 @Index(["articleId", "version"])
@@ -40,6 +40,14 @@ export class ArticleVersion {
   @Column({ type: "text", nullable: true })
   deviceId?: string;
 
+  // 快照名称（如“已发给审稿人”），用户固定版本时填写
+  @Column({ type: "text", nullable: true })
+  label?: string | null;
+
+  // 固定的版本不会被清理
+  @Column({ default: false })
+  pinned!: boolean;
+
   @CreateDateColumn()
   createdAt!: Date;
 }
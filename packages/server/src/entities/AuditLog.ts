@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+export type AuditEntityType = "article" | "folder" | "platform" | "workspace";
+
+/**
+ * 操作记录
+ * 记录谁在什么时候修改了哪个工作区的什么数据
+ */
+@Entity("audit_logs")
+@Index(["ownerUserId", "createdAt"])
+@Index(["entityType", "entityId"])
+export class AuditLog {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  // 操作人
+  @Column()
+  userId!: number;
+
+  @Column({ type: "integer", nullable: true })
+  adminId?: number | null;
+
+  // 操作人用户名（记录时的快照，账号删除后仍可查看）
+  @Column()
+  username!: string;
+
+  // 被修改数据的所有者
+  @Column()
+  ownerUserId!: number;
+
+  // 操作类型，如 article.update、folder.share
+  @Column()
+  action!: string;
+
+  @Column({ type: "varchar" })
+  entityType!: AuditEntityType;
+
+  @Column({ type: "integer", nullable: true })
+  entityId?: number | null;
+
+  // 操作对象的名称（文章标题、文件夹名等），便于阅读
+  @Column({ type: "text", nullable: true })
+  entityName?: string | null;
+
+  // 附加信息
+  @Column({ type: "simple-json", nullable: true })
+  detail?: Record<string, unknown> | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
 } from "typeorm";
+import { encryptedColumn } from "../services/secrets";
 
 /**
  * Claude Code 认证实体
@@ -30,14 +31,14 @@ export class ClaudeCodeAuth {
    * OAuth refresh_token（长期有效，用于刷新 access_token）
    * 仅 authType === "oauth" 时使用
    */
-  @Column({ nullable: true })
+  @Column({ nullable: true, transformer: encryptedColumn })
   refreshToken?: string;
 
   /**
    * OAuth access_token（短期有效，约 1 小时）
    * 或 API Key（authType === "api_key" 时使用）
    */
-  @Column()
+  @Column({ transformer: encryptedColumn })
   accessToken!: string;
 
   /**
@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
 } from "typeorm";
+import { encryptedColumn } from "../services/secrets";
 
 /**
  * GitHub Copilot 认证实体
@@ -19,11 +20,11 @@ export class CopilotAuth {
   userId!: number;
 
   // OAuth access_token（长期有效，用于刷新 Copilot API token）
-  @Column()
+  @Column({ transformer: encryptedColumn })
   refreshToken!: string;
 
   // Copilot API token（短期有效，约 30 分钟）
-  @Column()
+  @Column({ transformer: encryptedColumn })
   accessToken!: string;
 
   // Copilot API token 过期时间戳（毫秒）
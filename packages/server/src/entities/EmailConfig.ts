@@ -6,6 +6,7 @@ import {
   UpdateDateColumn,
   ManyToOne,
 } from "typeorm";
+import { encryptedColumn } from "../services/secrets";
 import { User } from "./User";
 
 /**
@@ -36,7 +37,7 @@ export class EmailConfig {
   @Column({ nullable: true })
   smtpUser?: string;  // SMTP 用户名（通常是邮箱地址）
 
-  @Column({ nullable: true })
+  @Column({ nullable: true, transformer: encryptedColumn })
   smtpPass?: string;  // SMTP 密码或授权码
 
   // 发件人信息
@@ -60,6 +61,9 @@ export class EmailConfig {
   @Column({ default: true })
   notifyOnCookieExpired!: boolean;  // Cookie 失效时通知
 
+  @Column({ default: true })
+  notifyOnReview!: boolean;  // 文章审核状态变化时通知
+
   // 配置是否启用
   @Column({ default: false })
   enabled!: boolean;
@@ -16,6 +16,10 @@ export class Folder {
   @Column()
   name!: string;
 
+  // 所属用户；引入多用户之前创建的文件夹都属于 id 为 1 的用户
+  @Column({ default: 1 })
+  userId!: number;
+
   @Column({ nullable: true })
   parentId?: number;
 
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+} from "typeorm";
+import { Folder } from "./Folder";
+import { User } from "./User";
+
+/**
+ * 共享权限
+ */
+export enum SharePermission {
+  READ = "read", // 只读
+  EDIT = "edit", // 可编辑
+}
+
+/**
+ * 文件夹共享
+ * 共享对文件夹及其所有子文件夹、文章生效
+ */
+@Entity("folder_shares")
+@Index(["folderId", "userId"], { unique: true })
+export class FolderShare {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => Folder, { onDelete: "CASCADE" })
+  folder!: Folder;
+
+  @Column()
+  folderId!: number;
+
+  // 协作者
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  user!: User;
+
+  @Column()
+  userId!: number;
+
+  @Column({ type: "varchar", default: SharePermission.READ })
+  permission!: SharePermission;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { encryptedColumn } from "../services/secrets";
+
+/**
+ * MCP 服务连接方式
+ * - stdio: 在服务端启动本地命令，通过标准输入输出通信
+ * - http: 连接远程 Streamable HTTP 服务
+ */
+export type McpTransportType = "stdio" | "http";
+
+/**
+ * MCP 服务实体
+ * 用户注册的外部工具服务（Model Context Protocol），其工具会提供给 AI 写作助手
+ */
+@Entity("mcp_servers")
+@Index(["userId"])
+export class McpServer {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  userId!: number;
+
+  // 服务名称（用户自定义，显示在工具调用中）
+  @Column()
+  name!: string;
+
+  @Column({ type: "text", default: "stdio" })
+  transport!: McpTransportType;
+
+  // stdio：启动命令及参数
+  @Column({ type: "text", nullable: true })
+  command?: string | null;
+
+  @Column("simple-json", { nullable: true })
+  args?: string[] | null;
+
+  // stdio：环境变量，JSON 对象，加密存储（通常包含 API Key）
+  @Column({ type: "text", nullable: true, transformer: encryptedColumn })
+  env?: string | null;
+
+  // http：服务地址
+  @Column({ type: "text", nullable: true })
+  url?: string | null;
+
+  // http：请求头，JSON 对象，加密存储（通常包含认证信息）
+  @Column({ type: "text", nullable: true, transformer: encryptedColumn })
+  headers?: string | null;
+
+  @Column({ default: true })
+  enabled!: boolean;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * 提示词类型
+ * - command: 快捷指令，在 AI 助手输入框中通过 /指令 调用
+ * - system: 自定义系统提示词，启用后追加到每次对话的系统提示词中
+ */
+export type PromptTemplateKind = "command" | "system";
+
+/**
+ * 提示词库条目
+ * 内容支持 {{selection}}、{{title}}、{{platform}} 等变量，发送前在前端替换
+ */
+@Entity("prompt_templates")
+@Index(["userId", "command"], { unique: true })
+export class PromptTemplate {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  userId!: number;
+
+  // 指令名，如 polish（输入 /polish 调用），同时作为导出的文件名
+  @Column()
+  command!: string;
+
+  @Column()
+  name!: string;
+
+  @Column({ type: "text", nullable: true })
+  description?: string | null;
+
+  @Column({ type: "text" })
+  content!: string;
+
+  @Column({ type: "varchar", default: "command" })
+  kind!: PromptTemplateKind;
+
+  @Column({ default: true })
+  enabled!: boolean;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
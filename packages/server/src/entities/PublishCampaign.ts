@@ -0,0 +1,76 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+} from "typeorm";
+import { Article } from "./Article";
+import { User } from "./User";
+
+/**
+ * 发布活动状态
+ */
+export enum CampaignStatus {
+  PENDING = "pending",     // 待执行
+  RUNNING = "running",     // 执行中
+  SUCCESS = "success",     // 全部成功
+  PARTIAL = "partial",     // 部分成功
+  FAILED = "failed",       // 全部失败
+  CANCELLED = "cancelled", // 已取消
+}
+
+/**
+ * 发布活动执行方式
+ */
+export enum CampaignMode {
+  PARALLEL = "parallel",   // 各平台同时发布
+  STAGGERED = "staggered", // 各平台按间隔依次发布
+}
+
+/**
+ * 多平台发布活动
+ * 一次操作将文章发布到多个平台，每个平台对应一条关联的 ScheduledTask
+ */
+@Entity("publish_campaigns")
+export class PublishCampaign {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => Article, { onDelete: "CASCADE" })
+  article!: Article;
+
+  @Column()
+  articleId!: number;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  user!: User;
+
+  @Column()
+  userId!: number;
+
+  @Column({ type: "text", default: CampaignMode.PARALLEL })
+  mode!: CampaignMode;
+
+  @Column({ default: 0 })
+  staggerMinutes!: number;  // 错峰发布时相邻平台的间隔（分钟）
+
+  @Column()
+  scheduledAt!: Date;  // 第一个平台的发布时间
+
+  @Column({ type: "text", default: CampaignStatus.PENDING })
+  status!: CampaignStatus;
+
+  @Column({ nullable: true })
+  completedAt?: Date;
+
+  @Column({ default: false })
+  notified!: boolean;  // 是否已发送汇总通知
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
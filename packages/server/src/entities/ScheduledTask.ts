@@ -8,6 +8,7 @@ import {
 } from "typeorm";
 import { Article } from "./Article";
 import { User } from "./User";
+import { PublishCampaign } from "./PublishCampaign";
 
 /**
  * 定时任务状态
@@ -26,7 +27,7 @@ export enum TaskStatus {
 export enum Platform {
   TENCENT = "tencent",  // 腾讯云开发者社区
   JUEJIN = "juejin",    // 掘金（预留）
-  CSDN = "csdn",        // CSDN（预留）
+  CSDN = "csdn",        // CSDN
 }
 
 /**
@@ -51,10 +52,47 @@ export interface JuejinPublishConfig {
   isOriginal: 0 | 1;        // 0-转载, 1-原创
 }
 
+/**
+ * CSDN 发布配置
+ */
+export interface CsdnPublishConfig {
+  tags: string[];           // 标签列表
+  description?: string;     // 文章摘要
+  coverImage?: string;      // 封面图片
+  type: "original" | "repost" | "translated";        // 文章类型
+  readType: "public" | "private" | "fans" | "vip";   // 可见范围
+}
+
 /**
  * 平台配置类型
  */
-export type PlatformConfig = TencentPublishConfig | JuejinPublishConfig;
+export type PlatformConfig = TencentPublishConfig | JuejinPublishConfig | CsdnPublishConfig;
+
+/**
+ * 时间窗口规则：在指定星期的时间段内选择最近的空闲时间
+ * 例如工作日 08:00-09:30
+ */
+export interface ScheduleWindowRule {
+  type: "window";
+  weekdays: number[];   // 星期几: 0-周日, 1-周一 ... 6-周六
+  startTime: string;    // 窗口开始时间 HH:mm
+  endTime: string;      // 窗口结束时间 HH:mm
+}
+
+/**
+ * 错峰规则：在同一文章另一平台的发布时间之后延迟发布
+ * 例如掘金发布 2 小时后再发布到 CSDN
+ */
+export interface ScheduleStaggerRule {
+  type: "stagger";
+  afterPlatform: Platform;  // 参照的平台
+  offsetMinutes: number;    // 相对参照平台发布时间的延迟（分钟）
+}
+
+/**
+ * 定时规则，创建任务时据此分配具体的发布时间
+ */
+export type ScheduleRule = ScheduleWindowRule | ScheduleStaggerRule;
 
 /**
  * 定时发布任务实体
@@ -85,6 +123,9 @@ export class ScheduledTask {
   @Column()
   scheduledAt!: Date;
 
+  @Column({ type: "simple-json", nullable: true })
+  rule?: ScheduleRule | null;  // 分配发布时间所用的定时规则，直接指定时间时为空
+
   @Column({ type: "text", default: TaskStatus.PENDING })
   status!: TaskStatus;
 
@@ -106,6 +147,12 @@ export class ScheduledTask {
   @Column({ default: false })
   notified!: boolean;  // 是否已发送通知
 
+  @ManyToOne(() => PublishCampaign, { onDelete: "CASCADE", nullable: true })
+  campaign?: PublishCampaign;
+
+  @Column({ nullable: true })
+  campaignId?: number;  // 所属的多平台发布活动，单独创建的定时任务为空
+
   @CreateDateColumn()
   createdAt!: Date;
 
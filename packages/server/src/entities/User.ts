@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
 } from "typeorm";
+import { encryptedColumn } from "../services/secrets";
 
 @Entity("users")
 export class User {
@@ -21,7 +22,7 @@ export class User {
   @Column({ nullable: true })
   avatarUrl?: string;
 
-  @Column({ type: "text", nullable: true })
+  @Column({ type: "text", nullable: true, transformer: encryptedColumn })
   cookies?: string; // 存储腾讯云社区的登录 cookies
 
   @Column({ default: false })
@@ -40,7 +41,7 @@ export class User {
   @Column({ nullable: true })
   juejinAvatarUrl?: string; // 掘金头像
 
-  @Column({ type: "text", nullable: true })
+  @Column({ type: "text", nullable: true, transformer: encryptedColumn })
   juejinCookies?: string; // 存储掘金的登录 cookies
 
   @Column({ default: false })
@@ -59,7 +60,7 @@ export class User {
   @Column({ nullable: true })
   csdnAvatarUrl?: string; // CSDN 头像
 
-  @Column({ type: "text", nullable: true })
+  @Column({ type: "text", nullable: true, transformer: encryptedColumn })
   csdnCookies?: string; // 存储 CSDN 的登录 cookies
 
   @Column({ default: false })
@@ -68,6 +69,10 @@ export class User {
   @Column({ nullable: true })
   csdnLastLoginAt?: Date; // CSDN 最后登录时间
 
+  // ==================== AI 助手相关字段 ====================
+  @Column({ default: false })
+  promptLibrarySeeded!: boolean; // 是否已导入过内置提示词，只在首次使用提示词库时导入
+
   // ==================== 通用字段 ====================
   @CreateDateColumn()
   createdAt!: Date;
@@ -65,7 +65,7 @@ aiChatRouter.post("/", async (c) => {
     logStep("开始查询供应商配置");
     const providerRepo = AppDataSource.getRepository(AIProvider);
     const provider = await providerRepo.findOne({
-      where: { id: providerId, userId: 1 },
+      where: { id: providerId, userId: session.userId },
     });
     logStep("供应商配置查询完成");
 
@@ -78,7 +78,7 @@ aiChatRouter.post("/", async (c) => {
     logStep("开始查询模型配置");
     const modelRepo = AppDataSource.getRepository(AIModel);
     const modelConfig = await modelRepo.findOne({
-      where: { providerId, modelId, userId: 1 },
+      where: { providerId, modelId, userId: session.userId },
     });
     logStep("模型配置查询完成");
 
@@ -9,18 +9,20 @@ import { streamSSE } from "hono/streaming";
 import { streamText, jsonSchema } from "ai";
 import { AppDataSource } from "../db";
 import { AIProvider, AIModel, defaultCapabilities, defaultAILoopConfig } from "../entities/AIProvider";
+import { Article } from "../entities/Article";
 import { validateSession } from "../services/adminAuth";
 import { formatToolsForAPI, getToolExecutionLocation, getAllToolDefinitions } from "../services/aiTools";
-import { buildSystemPrompt } from "../services/promptTemplate";
+import { isMcpToolName } from "../services/mcpClient";
+import { aiUsageService } from "../services/aiUsage";
+import { buildSystemPrompt, SystemPrompt } from "../services/promptTemplate";
+import { promptLibraryService } from "../services/promptLibrary";
+import { workspaceService } from "../services/workspace";
 import { 
-  createProviderAdapter, 
+  createUserProviderAdapter, 
   buildStreamTextOptions,
   type ThinkingConfig,
-  type GitHubCopilotAdapterOptions,
-  type ClaudeCodeAdapterOptions,
+  type AIProviderAdapterInterface,
 } from "../services/aiProviderAdapter";
-import { CopilotAuth } from "../entities/CopilotAuth";
-import { ClaudeCodeAuth } from "../entities/ClaudeCodeAuth";
 import { CLAUDE_CODE_SYSTEM_PREFIX } from "../services/claudeCodeAuth";
 import { 
   convertMessagesToAISDK, 
@@ -63,7 +65,8 @@ function buildSystemMessage(
   existingSystemMessage: OpenAIMessage | undefined,
   articleContext: InternalArticleContext | undefined,
   toolInfoList: Array<{ name: string; description: string }>,
-  shouldEnableTools: boolean
+  shouldEnableTools: boolean,
+  customInstructions: string
 ): OpenAIMessage {
   if (existingSystemMessage) {
     // 前端提供了自定义系统提示词，追加上下文信息
@@ -80,6 +83,10 @@ function buildSystemMessage(
         `\n\n<important>\nread_article 工具返回的内容包含行号前缀（格式："行号 | 内容"）。行号仅用于定位，在使用 replace_content 等工具时，请勿在 search 参数中包含行号前缀，只提供实际的文本内容。\n</important>`
       );
     }
+
+    if (customInstructions) {
+      contextParts.push(`\n${SystemPrompt.customInstructions(customInstructions)}`);
+    }
     
     return {
       ...existingSystemMessage,
@@ -94,6 +101,7 @@ function buildSystemMessage(
       ? { ...articleContext, articleId: articleContext.articleId } 
       : undefined,
     tools: shouldEnableTools ? toolInfoList : undefined,
+    customInstructions,
     includeEnvironment: true,
   });
   
@@ -165,6 +173,8 @@ aiChatStreamRouter.post("/", async (c) => {
       messages,
       enableTools = true,
       articleContext,
+      // 上下文压缩后的对话摘要（代替已压缩的历史消息）
+      contextSummary,
       // 推理设置（从 AI Chat 面板动态传递）
       reasoningEnabled,
       reasoningEffort,
@@ -183,7 +193,7 @@ aiChatStreamRouter.post("/", async (c) => {
     // 获取供应商配置
     const providerRepo = AppDataSource.getRepository(AIProvider);
     const provider = await providerRepo.findOne({
-      where: { id: providerId, userId: 1 },
+      where: { id: providerId, userId: session.userId },
     });
 
     if (!provider) {
@@ -194,76 +204,26 @@ aiChatStreamRouter.post("/", async (c) => {
     // 获取模型配置
     const modelRepo = AppDataSource.getRepository(AIModel);
     const modelConfig = await modelRepo.findOne({
-      where: { providerId, modelId, userId: 1 },
+      where: { providerId, modelId, userId: session.userId },
     });
 
     const capabilities = modelConfig?.capabilities || defaultCapabilities;
 
-    let copilotOptions: GitHubCopilotAdapterOptions | undefined;
-    let claudeCodeOptions: ClaudeCodeAdapterOptions | undefined;
-    
-    if (provider.sdkType === "github-copilot") {
-      const copilotAuthRepo = AppDataSource.getRepository(CopilotAuth);
-      const copilotAuth = await copilotAuthRepo.findOne({ where: { userId: 1 } });
-      
-      if (!copilotAuth) {
-        logStep("错误: GitHub Copilot 未连接");
-        return c.json({ error: "GitHub Copilot 未连接，请先在设置中连接" }, 400);
-      }
-      
-      copilotOptions = {
-        auth: {
-          refreshToken: copilotAuth.refreshToken,
-          accessToken: copilotAuth.accessToken,
-          expiresAt: copilotAuth.expiresAt,
-          enterpriseUrl: copilotAuth.enterpriseUrl,
-        },
-        onTokenUpdate: async (newAuth) => {
-          await copilotAuthRepo.update(
-            { userId: 1 },
-            {
-              accessToken: newAuth.accessToken,
-              expiresAt: newAuth.expiresAt,
-            }
-          );
-          logStep("Copilot Token 已自动刷新并保存");
-        },
-      };
-      logStep("已获取 GitHub Copilot 认证信息");
-    } else if (provider.sdkType === "claude-code") {
-      const claudeCodeAuthRepo = AppDataSource.getRepository(ClaudeCodeAuth);
-      const claudeCodeAuth = await claudeCodeAuthRepo.findOne({ where: { userId: 1 } });
-      
-      if (!claudeCodeAuth) {
-        logStep("错误: Claude Code 未连接");
-        return c.json({ error: "Claude Code 未连接，请先在设置中连接" }, 400);
-      }
-      
-      claudeCodeOptions = {
-        auth: {
-          authType: claudeCodeAuth.authType,
-          accessToken: claudeCodeAuth.accessToken,
-          refreshToken: claudeCodeAuth.refreshToken,
-          expiresAt: claudeCodeAuth.expiresAt,
-          subscriptionType: claudeCodeAuth.subscriptionType,
-          email: claudeCodeAuth.email,
-        },
-        onTokenUpdate: async (newAuth) => {
-          await claudeCodeAuthRepo.update(
-            { userId: 1 },
-            {
-              accessToken: newAuth.accessToken,
-              refreshToken: newAuth.refreshToken,
-              expiresAt: newAuth.expiresAt,
-            }
-          );
-          logStep("Claude Code Token 已自动刷新并保存");
-        },
-      };
-      logStep("已获取 Claude Code 认证信息");
+    // 超出预算且设置为拒绝时不再调用模型
+    const budgetStatus = await aiUsageService.getBudgetStatus(session.userId);
+    if (budgetStatus.state === "blocked") {
+      logStep(`错误: ${budgetStatus.message}`);
+      return c.json({ error: budgetStatus.message }, 403);
     }
 
-    const adapter = createProviderAdapter(provider, copilotOptions, claudeCodeOptions);
+    let adapter: AIProviderAdapterInterface;
+    try {
+      adapter = await createUserProviderAdapter(provider, session.userId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "创建 AI 供应商适配器失败";
+      logStep(`错误: ${errorMessage}`);
+      return c.json({ error: errorMessage }, 400);
+    }
     const model = adapter.createModel(modelId);
     logStep(`使用 ${provider.sdkType} SDK 创建模型: ${modelId}`);
 
@@ -275,28 +235,57 @@ aiChatStreamRouter.post("/", async (c) => {
     const userMessages = messages.filter((m: OpenAIMessage) => m.role !== "system");
 
     // 使用模板服务构建系统提示词
-    const toolDefinitions = shouldEnableTools ? getAllToolDefinitions() : [];
+    const toolDefinitions = shouldEnableTools ? await getAllToolDefinitions(session.userId) : [];
     const toolInfoList = toolDefinitions.map((t) => ({
       name: t.function.name,
       description: t.function.description.split("\n")[0],
     }));
 
+    // 文章 ID 来自客户端，没有访问权限时不使用（也不把用量计入该文章）
+    let accessibleArticleId: number | undefined;
+    if (typeof articleContext?.articleId === "number") {
+      const article = await AppDataSource.getRepository(Article).findOne({
+        select: ["id", "userId", "folderId", "reviewerUserId"],
+        where: { id: articleContext.articleId },
+      });
+      if (article && (await workspaceService.getArticleAccessLevel(session.userId, article))) {
+        accessibleArticleId = article.id;
+      } else {
+        logStep(`忽略无权访问的文章上下文: articleId=${articleContext.articleId}`);
+      }
+    }
+
     // 构建文章上下文 (articleId 必须是 number 类型)
-    const articleContextForPrompt = articleContext && articleContext.articleId
+    const articleContextForPrompt = articleContext && accessibleArticleId
       ? {
           title: articleContext.title || "无标题",
           contentLength: articleContext.contentLength || 0,
-          articleId: articleContext.articleId as number,
+          articleId: accessibleArticleId,
         }
       : undefined;
 
+    // 提示词库中启用的自定义系统提示词
+    const customInstructions = await promptLibraryService.getSystemInstructions(session.userId, {
+      title: articleContext?.title || "",
+      platform: articleContext?.platform || "",
+    });
+
     let finalSystemMessage = buildSystemMessage(
       systemMessage,
       articleContextForPrompt,
       toolInfoList,
-      shouldEnableTools
+      shouldEnableTools,
+      customInstructions
     );
 
+    if (typeof contextSummary === "string" && contextSummary.trim()) {
+      finalSystemMessage = {
+        ...finalSystemMessage,
+        content: `${finalSystemMessage.content || ""}\n\n# 之前的对话摘要\n\n较早的对话已被压缩，以下是摘要：\n<conversation-summary>\n${contextSummary.trim()}\n</conversation-summary>`,
+      };
+      logStep(`已添加对话摘要: ${contextSummary.length} 字符`);
+    }
+
     if (provider.sdkType === "claude-code") {
       finalSystemMessage = {
         ...finalSystemMessage,
@@ -328,7 +317,7 @@ aiChatStreamRouter.post("/", async (c) => {
     // 构建工具配置（转换为 AI SDK 格式）
     const tools: Record<string, any> = {};
     if (shouldEnableTools) {
-      const apiTools = formatToolsForAPI();
+      const apiTools = await formatToolsForAPI(session.userId);
       for (const tool of apiTools) {
         tools[tool.function.name] = {
           description: tool.function.description,
@@ -364,11 +353,12 @@ aiChatStreamRouter.post("/", async (c) => {
       let fullReasoning = "";
       let promptTokens = 0;
       let completionTokens = 0;
+      let cachedInputTokens = 0;
       let firstChunkTime = 0;
       let isReasoning = false;
       const toolCalls: Array<{
         id: string;
-        type: "function";
+        type: "function" | "mcp";
         function: { name: string; arguments: string };
         executionLocation: string;
       }> = [];
@@ -397,6 +387,13 @@ aiChatStreamRouter.post("/", async (c) => {
       };
 
       try {
+        if (budgetStatus.state === "warn") {
+          await stream.writeSSE({
+            event: "budget_warning",
+            data: JSON.stringify({ message: budgetStatus.message }),
+          });
+        }
+
         const result = await executeStreamWithRetry();
 
         // 处理流式输出
@@ -463,7 +460,7 @@ aiChatStreamRouter.post("/", async (c) => {
               const toolCallInput = (part as any).args || (part as any).input || {};
               const toolCall = {
                 id: part.toolCallId,
-                type: "function" as const,
+                type: isMcpToolName(part.toolName) ? ("mcp" as const) : ("function" as const),
                 function: {
                   name: part.toolName,
                   arguments: JSON.stringify(toolCallInput),
@@ -478,6 +475,7 @@ aiChatStreamRouter.post("/", async (c) => {
                 data: JSON.stringify({
                   index: toolCalls.length - 1,
                   id: toolCall.id,
+                  type: toolCall.type,
                   name: toolCall.function.name,
                   executionLocation: toolCall.executionLocation,
                 }),
@@ -500,6 +498,7 @@ aiChatStreamRouter.post("/", async (c) => {
               if (part.totalUsage) {
                 promptTokens = part.totalUsage.inputTokens || 0;
                 completionTokens = part.totalUsage.outputTokens || 0;
+                cachedInputTokens = part.totalUsage.inputTokenDetails?.cacheReadTokens || 0;
               }
               logStep(
                 `finish_reason: ${part.finishReason}, fullContent长度: ${fullContent.length}, toolCalls数量: ${toolCalls.length}`
@@ -576,6 +575,16 @@ aiChatStreamRouter.post("/", async (c) => {
           }
         }
 
+        await aiUsageService.record({
+          userId: session.userId,
+          provider,
+          model: modelConfig,
+          modelId,
+          articleId: articleContextForPrompt?.articleId,
+          source: "chat",
+          usage: { inputTokens: promptTokens, outputTokens: completionTokens, cachedInputTokens },
+        });
+
         // 发送工具调用事件（如果有）
         if (toolCalls.length > 0) {
           logStep(`检测到 ${toolCalls.length} 个工具调用`);
@@ -54,7 +54,7 @@ aiToolExecuteRouter.post("/", async (c) => {
 
     // 执行工具
     console.log(`[AI Tool] 执行后端工具: ${toolName}`, args);
-    const result = await executeBackendTool(toolName, args);
+    const result = await executeBackendTool(toolName, args, session.userId);
     console.log(`[AI Tool] 工具执行结果:`, result);
 
     return c.json({
@@ -0,0 +1,80 @@
+/**
+ * 数据库迁移命令行
+ *
+ *   bun run migrate:status            查看迁移执行状态
+ *   bun run migrate:revert            回滚最近一次执行的迁移（回滚前自动备份）
+ *   bun run migrate:generate <名称>   根据实体变化生成新的迁移
+ *
+ * 数据目录与服务相同，可通过 PEN_BRIDGE_DATA_DIR 指定。
+ * 回滚会修改数据库文件，需先停止服务，否则服务退出时会用内存中的数据覆盖。
+ */
+import { writeFileSync } from "fs";
+import { join } from "path";
+import {
+  closeDatabase,
+  createScratchDataSource,
+  getDatabasePath as getCurrentDatabasePath,
+  openDatabaseWithoutMigrations,
+  setDatabasePath,
+} from "../db";
+import { generateMigration, getMigrationStatus, revertLastMigration } from "../db/migrate";
+import { getDatabasePath } from "../services/dataDir";
+
+async function status() {
+  const dataSource = await openDatabaseWithoutMigrations();
+  const statuses = await getMigrationStatus(dataSource);
+  await closeDatabase();
+
+  console.log(`数据库: ${getCurrentDatabasePath()}`);
+  for (const { name, executed } of statuses) {
+    console.log(`  [${executed ? "X" : " "}] ${name}`);
+  }
+  const pending = statuses.filter((item) => !item.executed).length;
+  console.log(pending > 0 ? `${pending} 个迁移未执行，将在服务启动时自动执行` : "所有迁移均已执行");
+}
+
+async function revert() {
+  const dataSource = await openDatabaseWithoutMigrations();
+  const name = await revertLastMigration(dataSource, getCurrentDatabasePath());
+  await closeDatabase();
+  console.log(name ? `已回滚迁移 ${name}` : "没有可回滚的迁移");
+}
+
+async function generate(name: string | undefined) {
+  if (!name || !/^[A-Za-z][A-Za-z0-9]*$/.test(name)) {
+    throw new Error("请提供迁移名称（字母开头，只包含字母和数字），如 migrate:generate AddArticleSlug");
+  }
+  const dataSource = await createScratchDataSource();
+  const result = await generateMigration(dataSource, name);
+  await dataSource.destroy();
+
+  if (!result) {
+    console.log("实体与现有迁移一致，无需生成新的迁移");
+    return;
+  }
+  const filePath = join(import.meta.dir, "../db/migrations", result.fileName);
+  writeFileSync(filePath, result.source);
+  console.log(`已生成迁移 ${filePath}`);
+  console.log(`请在 db/migrations/index.ts 中导入并注册 ${result.className}`);
+}
+
+async function main() {
+  const [command, arg] = process.argv.slice(2);
+  setDatabasePath(getDatabasePath());
+
+  switch (command) {
+    case "status":
+      return status();
+    case "revert":
+      return revert();
+    case "generate":
+      return generate(arg);
+    default:
+      throw new Error(`未知命令: ${command ?? ""}，可用命令: status、revert、generate`);
+  }
+}
+
+main().catch((error) => {
+  console.error("[Migrate]", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
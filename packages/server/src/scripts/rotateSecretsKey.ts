@@ -0,0 +1,34 @@
+/**
+ * 轮换敏感字段的数据密钥
+ *
+ * 用法（需先停止服务，否则服务退出时会用内存中的旧数据覆盖数据库）：
+ *   bun run secrets:rotate
+ *
+ * 数据目录与服务相同，可通过 PEN_BRIDGE_DATA_DIR 指定；
+ * 使用了 PEN_BRIDGE_MASTER_KEY 时也需要设置相同的值。
+ */
+import { closeDatabase, initDatabase, setDatabasePath } from "../db";
+import { encryptSecretColumns } from "../db/encryptedColumns";
+import { getDatabasePath } from "../services/dataDir";
+import { secretsService } from "../services/secrets";
+
+async function main() {
+  setDatabasePath(getDatabasePath());
+  // 初始化时会先加密遗留的明文数据
+  const dataSource = await initDatabase();
+
+  const keyId = secretsService.rotateKey();
+  console.log(`[Secrets] 已生成新密钥 ${keyId}，正在重新加密数据...`);
+
+  const updated = await encryptSecretColumns(dataSource);
+  // 关闭时会把数据写入磁盘，之后才能移除旧密钥
+  await closeDatabase();
+  secretsService.pruneInactiveKeys();
+
+  console.log(`[Secrets] 密钥轮换完成，重新加密了 ${updated} 个字段`);
+}
+
+main().catch((error) => {
+  console.error("[Secrets] 密钥轮换失败:", error);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import { AppDataSource } from "../db";
 import { AdminUser, AdminRole } from "../entities/AdminUser";
 import { AdminSession } from "../entities/AdminSession";
+import { User } from "../entities/User";
 import { LessThan } from "typeorm";
 import bcrypt from "bcryptjs";
 
@@ -41,6 +42,9 @@ export function generateToken(): string {
   );
 }
 
+// 引入多用户之前所有数据都属于该用户
+const LEGACY_USER_ID = 1;
+
 // Session 有效期（7 天）
 const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
 
@@ -72,11 +76,15 @@ export async function validateSession(token: string): Promise<{
   adminId: number;
   username: string;
   role: AdminRole;
+  userId: number;
 } | null> {
   const sessionRepo = AppDataSource.getRepository(AdminSession);
-  const session = await sessionRepo.findOne({ where: { token } });
+  const session = await sessionRepo.findOne({
+    where: { token },
+    relations: { admin: true },
+  });
 
-  if (!session) {
+  if (!session?.admin?.userId) {
     return null;
   }
 
@@ -86,10 +94,12 @@ export async function validateSession(token: string): Promise<{
     return null;
   }
 
+  // 角色以管理员当前的角色为准，修改角色后立即生效
   return {
     adminId: session.adminId,
     username: session.username,
-    role: session.role,
+    role: session.admin.role,
+    userId: session.admin.userId,
   };
 }
 
@@ -112,9 +122,48 @@ export async function cleanupExpiredSessions(): Promise<number> {
   return result.affected || 0;
 }
 
+/**
+ * 为管理员创建工作区用户
+ */
+async function createWorkspaceUser(): Promise<User> {
+  const userRepo = AppDataSource.getRepository(User);
+  return userRepo.save(userRepo.create({}));
+}
+
+/**
+ * 为还没有工作区的管理员关联用户
+ * 引入多用户之前的数据（id 为 1 的用户）交给最早创建的超级管理员，其他管理员使用新的空工作区
+ */
+export async function linkAdminWorkspaces(): Promise<void> {
+  const adminRepo = AppDataSource.getRepository(AdminUser);
+  const userRepo = AppDataSource.getRepository(User);
+
+  const admins = await adminRepo.find({ order: { id: "ASC" } });
+  const unlinked = admins.filter((admin) => !admin.userId);
+  if (unlinked.length === 0) {
+    return;
+  }
+
+  const legacyClaimed = admins.some((admin) => admin.userId === LEGACY_USER_ID);
+  const legacyOwner = legacyClaimed
+    ? undefined
+    : unlinked.find((admin) => admin.role === AdminRole.SUPER_ADMIN) ?? unlinked[0];
+
+  for (const admin of unlinked) {
+    if (admin === legacyOwner) {
+      const legacyUser = await userRepo.findOne({ where: { id: LEGACY_USER_ID } });
+      admin.userId = legacyUser ? legacyUser.id : (await createWorkspaceUser()).id;
+    } else {
+      admin.userId = (await createWorkspaceUser()).id;
+    }
+    await adminRepo.update(admin.id, { userId: admin.userId });
+    console.log(`管理员 ${admin.username} 已关联工作区用户 ${admin.userId}`);
+  }
+}
+
 /**
  * 初始化超级管理员账户
- * 仅在没有任何管理员时创建
+ * 仅在没有任何管理员时创建；同时为所有管理员关联工作区用户
  */
 export async function initializeSuperAdmin(): Promise<void> {
   const adminRepo = AppDataSource.getRepository(AdminUser);
@@ -122,18 +171,19 @@ export async function initializeSuperAdmin(): Promise<void> {
   const existingAdmins = await adminRepo.count();
   if (existingAdmins > 0) {
     console.log("管理员账户已存在，跳过初始化");
-    return;
-  }
+  } else {
+    const passwordHash = await hashPassword(INITIAL_ADMIN.password);
+    const superAdmin = adminRepo.create({
+      username: INITIAL_ADMIN.username,
+      passwordHash,
+      role: AdminRole.SUPER_ADMIN,
+    });
 
-  const passwordHash = await hashPassword(INITIAL_ADMIN.password);
-  const superAdmin = adminRepo.create({
-    username: INITIAL_ADMIN.username,
-    passwordHash,
-    role: AdminRole.SUPER_ADMIN,
-  });
+    await adminRepo.save(superAdmin);
+    console.log(`超级管理员账户已创建: ${INITIAL_ADMIN.username}`);
+  }
 
-  await adminRepo.save(superAdmin);
-  console.log(`超级管理员账户已创建: ${INITIAL_ADMIN.username}`);
+  await linkAdminWorkspaces();
 }
 
 /**
@@ -208,10 +258,12 @@ export async function createAdmin(
   }
 
   const passwordHash = await hashPassword(password);
+  const user = await createWorkspaceUser();
   const admin = adminRepo.create({
     username,
     passwordHash,
     role,
+    userId: user.id,
   });
 
   await adminRepo.save(admin);
@@ -232,6 +284,17 @@ export async function getAllAdmins(): Promise<Omit<AdminUser, "passwordHash">[]>
   return admins.map(({ passwordHash: _, ...admin }) => admin);
 }
 
+/**
+ * 获取工作区成员（用于选择共享文件夹的协作者）
+ */
+export async function getWorkspaceMembers(): Promise<{ userId: number; username: string }[]> {
+  const adminRepo = AppDataSource.getRepository(AdminUser);
+  const admins = await adminRepo.find({ order: { createdAt: "ASC" } });
+  return admins
+    .filter((admin) => !!admin.userId)
+    .map((admin) => ({ userId: admin.userId!, username: admin.username }));
+}
+
 /**
  * 更新管理员信息
  */
@@ -0,0 +1,201 @@
+/**
+ * AI 对话上下文压缩
+ * 对话接近模型上下文长度时，由模型把较早的对话和工具结果总结成一条摘要消息。
+ * 被压缩的消息仍保留在会话中用于展示，但不再发送给模型，之后的请求改为携带摘要。
+ */
+
+import { generateText } from "ai";
+import { In } from "typeorm";
+import { AppDataSource } from "../db";
+import { AIChatMessage, AIChatSession } from "../entities/AIChat";
+import { AIProvider, AIModel } from "../entities/AIProvider";
+import { createUserProviderAdapter } from "./aiProviderAdapter";
+import { CLAUDE_CODE_SYSTEM_PREFIX } from "./claudeCodeAuth";
+import { aiUsageService } from "./aiUsage";
+
+/**
+ * 压缩范围
+ * - turn: 保留最后一条用户消息及之后的消息（发送新消息前）
+ * - step: 只保留最后一条用户消息和最后一条 AI 回复（AI Loop 中途）
+ */
+export type CompactionMode = "turn" | "step";
+
+export class CompactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CompactionError";
+  }
+}
+
+// 单条工具结果、单条消息写入待总结文本的最大长度
+const MAX_TOOL_RESULT_CHARS = 2000;
+const MAX_MESSAGE_CHARS = 6000;
+
+const SUMMARY_SYSTEM_PROMPT = `你负责压缩 AI 写作助手的对话上下文。请把给出的对话记录总结为一份摘要，供助手在后续对话中代替原始记录使用。
+
+要求：
+- 保留用户的目标、明确提出的要求和偏好
+- 保留已经完成的操作（例如对文章做过的修改）和得到的结论
+- 保留工具结果中后续仍可能用到的关键信息，省略大段原文（需要时可以重新读取文章）
+- 列出尚未完成的事项
+- 使用与对话相同的语言，只输出摘要正文`;
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit)}\n…（已截断 ${text.length - limit} 字）` : text;
+}
+
+/**
+ * 把待压缩的消息整理成纯文本记录
+ */
+function buildTranscript(messages: AIChatMessage[]): string {
+  const parts: string[] = [];
+  for (const message of messages) {
+    if (message.isSummary) {
+      parts.push(`[之前的摘要]\n${message.content}`);
+      continue;
+    }
+    if (message.role === "user") {
+      parts.push(`[用户]\n${truncate(message.content, MAX_MESSAGE_CHARS)}`);
+      continue;
+    }
+    if (message.role === "assistant") {
+      const lines: string[] = [];
+      if (message.content.trim()) {
+        lines.push(truncate(message.content, MAX_MESSAGE_CHARS));
+      }
+      for (const toolCall of message.toolCalls || []) {
+        lines.push(`调用工具 ${toolCall.name}，参数：${truncate(toolCall.arguments, MAX_TOOL_RESULT_CHARS)}`);
+        const result = toolCall.status === "failed" ? `[错误] ${toolCall.error || "执行失败"}` : toolCall.result;
+        if (result) {
+          lines.push(`工具结果：${truncate(result, MAX_TOOL_RESULT_CHARS)}`);
+        }
+      }
+      if (lines.length > 0) {
+        parts.push(`[助手]\n${lines.join("\n")}`);
+      }
+    }
+  }
+  return parts.join("\n\n");
+}
+
+class AIChatCompactionService {
+  /**
+   * 选出需要压缩的消息：按模式保留最近的消息，其余未压缩的消息（包括之前的摘要）全部压缩
+   */
+  private selectMessages(messages: AIChatMessage[], mode: CompactionMode): AIChatMessage[] {
+    const active = messages.filter((m) => !m.compactedInto);
+    const lastUserIndex = active.map((m) => m.role).lastIndexOf("user");
+    if (lastUserIndex < 0) return [];
+
+    const keep = new Set<AIChatMessage>();
+    if (mode === "turn") {
+      active.slice(lastUserIndex).forEach((m) => keep.add(m));
+    } else {
+      keep.add(active[lastUserIndex]);
+      const lastAssistantIndex = active.map((m) => m.role).lastIndexOf("assistant");
+      if (lastAssistantIndex > lastUserIndex) {
+        keep.add(active[lastAssistantIndex]);
+      }
+    }
+    return active.filter((m) => !keep.has(m));
+  }
+
+  /**
+   * 压缩会话上下文
+   * 返回新生成的摘要消息；没有可压缩的内容时返回 null
+   */
+  async compactSession(
+    userId: number,
+    sessionId: number,
+    providerId: number,
+    modelId: string,
+    mode: CompactionMode
+  ): Promise<{ summary: AIChatMessage | null; compactedCount: number }> {
+    const sessionRepo = AppDataSource.getRepository(AIChatSession);
+    const messageRepo = AppDataSource.getRepository(AIChatMessage);
+
+    const session = await sessionRepo.findOne({ where: { id: sessionId, userId } });
+    if (!session) {
+      throw new CompactionError("会话不存在");
+    }
+    const provider = await AppDataSource.getRepository(AIProvider).findOne({
+      where: { id: providerId, userId },
+    });
+    if (!provider) {
+      throw new CompactionError("供应商不存在");
+    }
+
+    const messages = await messageRepo.find({
+      where: { sessionId },
+      order: { createdAt: "ASC", id: "ASC" },
+    });
+    const toCompact = this.selectMessages(messages, mode);
+    // 只有一条旧摘要时无需再次总结
+    if (toCompact.filter((m) => !m.isSummary).length === 0) {
+      return { summary: null, compactedCount: 0 };
+    }
+
+    const budgetStatus = await aiUsageService.getBudgetStatus(userId);
+    if (budgetStatus.state === "blocked") {
+      throw new CompactionError(budgetStatus.message || "已超出 AI 用量预算");
+    }
+
+    const adapter = await createUserProviderAdapter(provider, userId);
+    const system = provider.sdkType === "claude-code"
+      ? `${CLAUDE_CODE_SYSTEM_PREFIX}\n\n${SUMMARY_SYSTEM_PROMPT}`
+      : SUMMARY_SYSTEM_PROMPT;
+
+    const result = await generateText({
+      model: adapter.createModel(modelId),
+      system,
+      prompt: `请总结以下对话记录：\n\n${buildTranscript(toCompact)}`,
+      maxOutputTokens: 2048,
+    });
+    const model = await AppDataSource.getRepository(AIModel).findOne({
+      where: { providerId, modelId, userId },
+    });
+    await aiUsageService.record({
+      userId,
+      provider,
+      model,
+      modelId,
+      articleId: session.articleId,
+      source: "compaction",
+      usage: {
+        inputTokens: result.usage.inputTokens || 0,
+        outputTokens: result.usage.outputTokens || 0,
+        cachedInputTokens: result.usage.inputTokenDetails?.cacheReadTokens || 0,
+      },
+    });
+
+    const content = result.text.trim();
+    if (!content) {
+      throw new CompactionError("模型没有返回摘要内容");
+    }
+
+    const summary = await messageRepo.save(
+      messageRepo.create({
+        sessionId,
+        role: "system",
+        content,
+        isSummary: true,
+        status: "completed",
+        usage: {
+          promptTokens: result.usage.inputTokens || 0,
+          completionTokens: result.usage.outputTokens || 0,
+          totalTokens: result.usage.totalTokens || 0,
+        },
+      })
+    );
+    await messageRepo.update({ id: In(toCompact.map((m) => m.id)) }, { compactedInto: summary.id });
+
+    session.messageCount += 1;
+    session.totalTokens += summary.usage?.totalTokens || 0;
+    await sessionRepo.save(session);
+
+    console.log(`[AI Chat] 会话 ${sessionId} 已压缩 ${toCompact.length} 条消息`);
+    return { summary, compactedCount: toCompact.length };
+  }
+}
+
+export const aiChatCompactionService = new AIChatCompactionService();
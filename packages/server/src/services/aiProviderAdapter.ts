@@ -10,6 +10,9 @@ import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import type { LanguageModel } from "ai";
 import type { AIProvider, AIModel, ModelCapabilities, AISDKType } from "../entities/AIProvider";
+import { AppDataSource } from "../db";
+import { CopilotAuth } from "../entities/CopilotAuth";
+import { ClaudeCodeAuth } from "../entities/ClaudeCodeAuth";
 import {
   type CopilotAuthInfo,
   getCopilotToken,
@@ -592,6 +595,74 @@ export function createProviderAdapter(
   }
 }
 
+/**
+ * 创建用户的供应商适配器
+ * GitHub Copilot 和 Claude Code 从数据库读取认证信息，Token 自动刷新后写回数据库
+ */
+export async function createUserProviderAdapter(
+  provider: AIProvider,
+  userId: number
+): Promise<AIProviderAdapterInterface> {
+  if (provider.sdkType === "github-copilot") {
+    const copilotAuthRepo = AppDataSource.getRepository(CopilotAuth);
+    const copilotAuth = await copilotAuthRepo.findOne({ where: { userId } });
+    if (!copilotAuth) {
+      throw new Error("GitHub Copilot 未连接，请先在设置中连接");
+    }
+
+    return createProviderAdapter(provider, {
+      auth: {
+        refreshToken: copilotAuth.refreshToken,
+        accessToken: copilotAuth.accessToken,
+        expiresAt: copilotAuth.expiresAt,
+        enterpriseUrl: copilotAuth.enterpriseUrl,
+      },
+      onTokenUpdate: async (newAuth) => {
+        await copilotAuthRepo.update(
+          { userId },
+          {
+            accessToken: newAuth.accessToken,
+            expiresAt: newAuth.expiresAt,
+          }
+        );
+        console.log("[AI Provider] Copilot Token 已自动刷新并保存");
+      },
+    });
+  }
+
+  if (provider.sdkType === "claude-code") {
+    const claudeCodeAuthRepo = AppDataSource.getRepository(ClaudeCodeAuth);
+    const claudeCodeAuth = await claudeCodeAuthRepo.findOne({ where: { userId } });
+    if (!claudeCodeAuth) {
+      throw new Error("Claude Code 未连接，请先在设置中连接");
+    }
+
+    return createProviderAdapter(provider, undefined, {
+      auth: {
+        authType: claudeCodeAuth.authType,
+        accessToken: claudeCodeAuth.accessToken,
+        refreshToken: claudeCodeAuth.refreshToken,
+        expiresAt: claudeCodeAuth.expiresAt,
+        subscriptionType: claudeCodeAuth.subscriptionType,
+        email: claudeCodeAuth.email,
+      },
+      onTokenUpdate: async (newAuth) => {
+        await claudeCodeAuthRepo.update(
+          { userId },
+          {
+            accessToken: newAuth.accessToken,
+            refreshToken: newAuth.refreshToken,
+            expiresAt: newAuth.expiresAt,
+          }
+        );
+        console.log("[AI Provider] Claude Code Token 已自动刷新并保存");
+      },
+    });
+  }
+
+  return createProviderAdapter(provider);
+}
+
 export function createAIModelInstance(
   provider: AIProvider,
   model: AIModel,
@@ -4,13 +4,19 @@
  * 工具分为两类：
  * 1. 前端工具：需要在浏览器执行的工具（如修改编辑器内容）
  * 2. 后端工具：在服务端执行的工具（如 Web 搜索、数据库查询）
+ *
+ * 用户注册的 MCP 服务提供的工具也在服务端执行，由 mcpClient 代为调用
  */
 
+import { In } from "typeorm";
 import { AppDataSource } from "../db";
 import { Article } from "../entities/Article";
 import { AIProvider, AIModel } from "../entities/AIProvider";
 import { CopilotAuth } from "../entities/CopilotAuth";
 import { getCopilotToken, getCopilotApiBaseUrl, COPILOT_HEADERS } from "./githubCopilotAuth";
+import { articleSearchService } from "./articleSearch";
+import { workspaceService } from "./workspace";
+import { isMcpToolName, mcpClientManager } from "./mcpClient";
 
 /**
  * 工具定义接口
@@ -159,13 +165,13 @@ export const backendToolDefinitions: ToolDefinition[] = [
     type: "function",
     function: {
       name: "query_articles",
-      description: "查询数据库中的其他文章，可以按关键词搜索",
+      description: "查询数据库中的其他文章。提供关键词时对标题和正文进行全文搜索（空格分隔的关键词需全部命中，双引号包裹的内容按短语匹配），返回命中位置附近的摘要；不提供关键词时返回最近更新的文章",
       parameters: {
         type: "object",
         properties: {
           keyword: {
             type: "string",
-            description: "搜索关键词（可选）",
+            description: "搜索关键词（可选），例如：定时发布 或 \"type inference\"",
           },
           limit: {
             type: "integer",
@@ -245,17 +251,21 @@ export const backendToolDefinitions: ToolDefinition[] = [
 ];
 
 /**
- * 获取所有工具定义（用于发送给 AI）
+ * 获取所有工具定义（用于发送给 AI），包含用户启用的 MCP 服务提供的工具
  */
-export function getAllToolDefinitions(): ToolDefinition[] {
-  return [...frontendToolDefinitions, ...backendToolDefinitions];
+export async function getAllToolDefinitions(userId: number): Promise<ToolDefinition[]> {
+  const mcpTools = await mcpClientManager.getToolDefinitions(userId);
+  return [...frontendToolDefinitions, ...backendToolDefinitions, ...mcpTools];
 }
 
 /**
  * 获取工具执行位置
  */
 export function getToolExecutionLocation(toolName: string): "frontend" | "backend" | null {
-  const allTools = getAllToolDefinitions();
+  if (isMcpToolName(toolName)) {
+    return "backend";
+  }
+  const allTools = [...frontendToolDefinitions, ...backendToolDefinitions];
   const tool = allTools.find(t => t.function.name === toolName);
   return tool?.executionLocation || null;
 }
@@ -265,28 +275,49 @@ export function getToolExecutionLocation(toolName: string): "frontend" | "backen
  */
 export async function executeBackendTool(
   toolName: string,
-  args: Record<string, any>
+  args: Record<string, any>,
+  userId: number
 ): Promise<{ success: boolean; result?: any; error?: string }> {
   try {
+    if (isMcpToolName(toolName)) {
+      return await mcpClientManager.callTool(userId, toolName, args);
+    }
+
     switch (toolName) {
       case "query_articles": {
-        const articleRepo = AppDataSource.getRepository(Article);
         const limit = args.limit || 10;
-        
-        let query = articleRepo.createQueryBuilder("article")
-          .select(["article.id", "article.title", "article.summary", "article.createdAt", "article.updatedAt"])
-          .where("article.userId = :userId", { userId: 1 })
-          .orderBy("article.updatedAt", "DESC")
-          .take(limit);
-        
+
+        // 有关键词时使用全文搜索，否则返回最近更新的文章
         if (args.keyword) {
-          query = query.andWhere(
-            "(article.title LIKE :keyword OR article.content LIKE :keyword)",
-            { keyword: `%${args.keyword}%` }
-          );
+          const { items, total } = await articleSearchService.search({
+            userId,
+            query: args.keyword,
+            limit,
+          });
+
+          return {
+            success: true,
+            result: {
+              articles: items.map(a => ({
+                id: a.id,
+                title: a.title,
+                snippet: a.snippet.map(s => s.text).join(""),
+                updatedAt: a.updatedAt,
+              })),
+              total,
+            },
+          };
         }
-        
-        const articles = await query.getMany();
+
+        // 自己的文章和共享文件夹中的文章
+        const folderIds = await workspaceService.getAccessibleFolderIds(userId);
+        const articleRepo = AppDataSource.getRepository(Article);
+        const articles = await articleRepo.find({
+          select: ["id", "title", "summary", "createdAt", "updatedAt"],
+          where: folderIds.length > 0 ? [{ userId }, { folderId: In(folderIds) }] : { userId },
+          order: { updatedAt: "DESC" },
+          take: limit,
+        });
         
         return {
           success: true,
@@ -305,10 +336,10 @@ export async function executeBackendTool(
       case "get_article_by_id": {
         const articleRepo = AppDataSource.getRepository(Article);
         const article = await articleRepo.findOne({
-          where: { id: args.articleId, userId: 1 },
+          where: { id: args.articleId },
         });
         
-        if (!article) {
+        if (!article || !(await workspaceService.getArticleAccessLevel(userId, article))) {
           return {
             success: false,
             error: "文章不存在",
@@ -335,7 +366,7 @@ export async function executeBackendTool(
         }
         
         // 调用视觉模型分析图片
-        const result = await analyzeImage(imageSource, question);
+        const result = await analyzeImage(userId, imageSource, question);
         return result;
       }
       
@@ -362,15 +393,15 @@ export async function executeBackendTool(
 /**
  * 格式化工具定义为 OpenAI API 格式
  */
-export function formatToolsForAPI(): Array<{
+export async function formatToolsForAPI(userId: number): Promise<Array<{
   type: "function";
   function: {
     name: string;
     description: string;
     parameters: object;
   };
-}> {
-  return getAllToolDefinitions().map(tool => ({
+}>> {
+  return (await getAllToolDefinitions(userId)).map(tool => ({
     type: tool.type,
     function: {
       name: tool.function.name,
@@ -383,7 +414,7 @@ export function formatToolsForAPI(): Array<{
 /**
  * 查找支持视觉能力的模型
  */
-async function findVisionModel(): Promise<{
+async function findVisionModel(userId: number): Promise<{
   provider: AIProvider;
   model: AIModel;
 } | null> {
@@ -392,7 +423,7 @@ async function findVisionModel(): Promise<{
   
   // 查找所有启用的模型
   const models = await modelRepo.find({
-    where: { userId: 1, enabled: true },
+    where: { userId, enabled: true },
   });
   
   // 查找支持视觉的模型
@@ -401,7 +432,7 @@ async function findVisionModel(): Promise<{
     // vision 是 boolean 类型，直接判断
     if (capabilities?.vision === true) {
       const provider = await providerRepo.findOne({
-        where: { id: model.providerId, userId: 1, enabled: true },
+        where: { id: model.providerId, userId, enabled: true },
       });
       if (provider) {
         return { provider, model };
@@ -417,12 +448,13 @@ async function findVisionModel(): Promise<{
  * 支持 URL 和 Base64 两种格式
  */
 async function analyzeImage(
+  userId: number,
   imageSource: string,
   question?: string
 ): Promise<{ success: boolean; result?: any; error?: string }> {
   try {
     // 查找支持视觉的模型
-    const visionConfig = await findVisionModel();
+    const visionConfig = await findVisionModel(userId);
     if (!visionConfig) {
       return { 
         success: false, 
@@ -507,7 +539,7 @@ async function analyzeImage(
     // 处理 GitHub Copilot 特殊情况
     if (provider.sdkType === "github-copilot") {
       const copilotAuthRepo = AppDataSource.getRepository(CopilotAuth);
-      const copilotAuth = await copilotAuthRepo.findOne({ where: { userId: 1 } });
+      const copilotAuth = await copilotAuthRepo.findOne({ where: { userId } });
       
       if (!copilotAuth) {
         return { success: false, error: "GitHub Copilot 未连接" };
@@ -0,0 +1,267 @@
+/**
+ * AI 用量与费用统计
+ * 每次调用模型后记录 token 用量并按模型价格计算费用；按日、模型、供应商、文章汇总，
+ * 并在超出用户预算时提示或拒绝新的请求。
+ */
+
+import { Between, In, MoreThanOrEqual } from "typeorm";
+import { AppDataSource } from "../db";
+import type { AIProvider, AIModel, ModelPricing } from "../entities/AIProvider";
+import { AIUsageRecord, AIUsageBudget, type AIUsageSource, type AIBudgetAction } from "../entities/AIUsage";
+import { Article } from "../entities/Article";
+import { AdminUser } from "../entities/AdminUser";
+
+export interface UsageTokens {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+}
+
+export type UsageGroupBy = "day" | "model" | "provider" | "article" | "user";
+
+export interface UsageReportRow extends UsageTokens {
+  key: string;
+  label: string;
+  requests: number;
+  cost: number;
+}
+
+export interface BudgetWindow {
+  spent: number;
+  limit: number | null;
+}
+
+export interface BudgetStatus {
+  daily: BudgetWindow;
+  monthly: BudgetWindow;
+  action: AIBudgetAction;
+  // ok: 未超出；warn: 已超出但允许继续；blocked: 已超出且拒绝请求
+  state: "ok" | "warn" | "blocked";
+  message: string | null;
+}
+
+/**
+ * 按价格计算费用（价格为每百万 tokens）
+ */
+export function calculateCost(pricing: ModelPricing | null | undefined, usage: UsageTokens): number {
+  if (!pricing) return 0;
+  const cached = Math.min(usage.cachedInputTokens, usage.inputTokens);
+  const cachedPrice = pricing.cachedInput ?? pricing.input;
+  return (
+    ((usage.inputTokens - cached) * pricing.input + cached * cachedPrice + usage.outputTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+function startOfDay(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function startOfMonth(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+function formatDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatCost(cost: number): string {
+  return cost.toFixed(cost < 1 ? 4 : 2);
+}
+
+class AIUsageService {
+  private get recordRepo() {
+    return AppDataSource.getRepository(AIUsageRecord);
+  }
+
+  private get budgetRepo() {
+    return AppDataSource.getRepository(AIUsageBudget);
+  }
+
+  /**
+   * 记录一次模型调用的用量，失败只打印日志，不影响对话
+   */
+  async record(params: {
+    userId: number;
+    provider: AIProvider;
+    model: AIModel | null;
+    modelId: string;
+    articleId?: number | null;
+    source: AIUsageSource;
+    usage: UsageTokens;
+  }): Promise<void> {
+    const { usage } = params;
+    if (usage.inputTokens === 0 && usage.outputTokens === 0) return;
+    try {
+      await this.recordRepo.save(
+        this.recordRepo.create({
+          userId: params.userId,
+          providerId: params.provider.id,
+          providerName: params.provider.name,
+          modelId: params.modelId,
+          modelName: params.model?.displayName || params.modelId,
+          articleId: params.articleId ?? null,
+          source: params.source,
+          ...usage,
+          cost: calculateCost(params.model?.pricing, usage),
+        })
+      );
+    } catch (error) {
+      console.error("[AI Usage] 记录用量失败:", error);
+    }
+  }
+
+  private async sumCost(userId: number, since: Date): Promise<number> {
+    const records = await this.recordRepo.find({
+      select: { cost: true },
+      where: { userId, createdAt: MoreThanOrEqual(since) },
+    });
+    return records.reduce((sum, r) => sum + r.cost, 0);
+  }
+
+  async getBudget(userId: number): Promise<AIUsageBudget | null> {
+    return this.budgetRepo.findOne({ where: { userId } });
+  }
+
+  /**
+   * 用户本日、本月的费用与预算状态
+   */
+  async getBudgetStatus(userId: number): Promise<BudgetStatus> {
+    const budget = await this.getBudget(userId);
+    const [dailySpent, monthlySpent] = await Promise.all([
+      this.sumCost(userId, startOfDay()),
+      this.sumCost(userId, startOfMonth()),
+    ]);
+    const daily = { spent: dailySpent, limit: budget?.dailyLimit ?? null };
+    const monthly = { spent: monthlySpent, limit: budget?.monthlyLimit ?? null };
+    const action = budget?.action ?? "warn";
+
+    const exceeded: string[] = [];
+    if (daily.limit !== null && daily.spent >= daily.limit) {
+      exceeded.push(`今日费用 ${formatCost(daily.spent)} 已达到预算 ${formatCost(daily.limit)}`);
+    }
+    if (monthly.limit !== null && monthly.spent >= monthly.limit) {
+      exceeded.push(`本月费用 ${formatCost(monthly.spent)} 已达到预算 ${formatCost(monthly.limit)}`);
+    }
+
+    if (exceeded.length === 0) {
+      return { daily, monthly, action, state: "ok", message: null };
+    }
+    return {
+      daily,
+      monthly,
+      action,
+      state: action === "block" ? "blocked" : "warn",
+      message: action === "block"
+        ? `${exceeded.join("，")}，已暂停使用 AI 助手，请联系管理员调整预算`
+        : `${exceeded.join("，")}`,
+    };
+  }
+
+  /**
+   * 设置用户预算，两项限额都为空时删除预算
+   */
+  async setBudget(
+    userId: number,
+    data: { dailyLimit: number | null; monthlyLimit: number | null; action: AIBudgetAction }
+  ): Promise<AIUsageBudget | null> {
+    const existing = await this.getBudget(userId);
+    if (data.dailyLimit === null && data.monthlyLimit === null) {
+      if (existing) await this.budgetRepo.remove(existing);
+      return null;
+    }
+    const budget = existing ?? this.budgetRepo.create({ userId });
+    budget.dailyLimit = data.dailyLimit;
+    budget.monthlyLimit = data.monthlyLimit;
+    budget.action = data.action;
+    return this.budgetRepo.save(budget);
+  }
+
+  /**
+   * 用量报表
+   * userId 为空时统计所有用户（仅超级管理员）
+   */
+  async getReport(query: {
+    userId?: number;
+    from: Date;
+    to: Date;
+    groupBy: UsageGroupBy;
+  }): Promise<{ rows: UsageReportRow[]; total: Omit<UsageReportRow, "key" | "label"> }> {
+    const records = await this.recordRepo.find({
+      where: {
+        ...(query.userId !== undefined ? { userId: query.userId } : {}),
+        createdAt: Between(query.from, query.to),
+      },
+      order: { createdAt: "ASC" },
+    });
+
+    const labels = await this.loadLabels(records, query.groupBy);
+    const groups = new Map<string, UsageReportRow>();
+    const total = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, requests: 0, cost: 0 };
+
+    for (const record of records) {
+      const [key, label] = this.groupKey(record, query.groupBy, labels);
+      let row = groups.get(key);
+      if (!row) {
+        row = { key, label, inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, requests: 0, cost: 0 };
+        groups.set(key, row);
+      }
+      for (const target of [row, total]) {
+        target.inputTokens += record.inputTokens;
+        target.outputTokens += record.outputTokens;
+        target.cachedInputTokens += record.cachedInputTokens;
+        target.requests += 1;
+        target.cost += record.cost;
+      }
+    }
+
+    const rows = [...groups.values()];
+    if (query.groupBy !== "day") {
+      rows.sort((a, b) => b.cost - a.cost || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+    }
+    return { rows, total };
+  }
+
+  private groupKey(record: AIUsageRecord, groupBy: UsageGroupBy, labels: Map<number, string>): [string, string] {
+    switch (groupBy) {
+      case "day": {
+        const day = formatDay(new Date(record.createdAt));
+        return [day, day];
+      }
+      case "model":
+        return [`${record.providerId}:${record.modelId}`, `${record.modelName}（${record.providerName}）`];
+      case "provider":
+        return [String(record.providerId), record.providerName];
+      case "article":
+        if (!record.articleId) return ["none", "未关联文章"];
+        return [String(record.articleId), labels.get(record.articleId) || `文章 #${record.articleId}（已删除）`];
+      case "user":
+        return [String(record.userId), labels.get(record.userId) || `用户 #${record.userId}`];
+    }
+  }
+
+  /**
+   * 文章标题、用户名
+   */
+  private async loadLabels(records: AIUsageRecord[], groupBy: UsageGroupBy): Promise<Map<number, string>> {
+    if (groupBy === "article") {
+      const ids = [...new Set(records.map((r) => r.articleId).filter((id): id is number => !!id))];
+      if (ids.length === 0) return new Map();
+      const articles = await AppDataSource.getRepository(Article).find({
+        select: { id: true, title: true },
+        where: { id: In(ids) },
+      });
+      return new Map(articles.map((a) => [a.id, a.title || "无标题"]));
+    }
+    if (groupBy === "user") {
+      const admins = await AppDataSource.getRepository(AdminUser).find();
+      return new Map(
+        admins.filter((a) => !!a.userId).map((a) => [a.userId!, a.username])
+      );
+    }
+    return new Map();
+  }
+}
+
+export const aiUsageService = new AIUsageService();
@@ -0,0 +1,236 @@
+/**
+ * 文章评论
+ * 评论以讨论串的形式锚定在正文的一段文字上，正文修改后按修改位置重新定位锚点。
+ * 评论单独存储，不写入正文，因此不会进入发布到平台的 Markdown 和默认的数据导出。
+ */
+
+import { In, IsNull } from "typeorm";
+import { AppDataSource } from "../db";
+import { Article } from "../entities/Article";
+import { ArticleComment } from "../entities/ArticleComment";
+import type { AuditActor } from "./auditLog";
+
+/**
+ * 讨论串：首条评论（带锚点）及其回复
+ */
+export interface CommentThread extends ArticleComment {
+  replies: ArticleComment[];
+}
+
+/**
+ * 在正文中定位被评论的原文，返回起始位置
+ * 客户端给出的位置可能基于尚未保存的内容，此时选择离该位置最近的一处
+ */
+export function locateQuote(content: string, quote: string, hint: number): number | null {
+  if (!quote) {
+    return null;
+  }
+  if (content.startsWith(quote, hint)) {
+    return hint;
+  }
+  let best: number | null = null;
+  for (let i = content.indexOf(quote); i !== -1; i = content.indexOf(quote, i + 1)) {
+    if (best === null || Math.abs(i - hint) < Math.abs(best - hint)) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * 根据新旧正文的公共前缀和后缀，生成把旧正文中的区间映射到新正文的函数
+ * 区间与修改范围重叠时返回 null
+ */
+export function createRangeMapper(
+  before: string,
+  after: string
+): (start: number, end: number) => number | null {
+  const maxCommon = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < maxCommon && before.charCodeAt(prefix) === after.charCodeAt(prefix)) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+  const changedEnd = before.length - suffix;
+  const delta = after.length - before.length;
+
+  return (start, end) => {
+    if (end <= prefix) {
+      return start;
+    }
+    if (start >= changedEnd) {
+      return start + delta;
+    }
+    return null;
+  };
+}
+
+class ArticleCommentService {
+  private get commentRepo() {
+    return AppDataSource.getRepository(ArticleComment);
+  }
+
+  /**
+   * 获取文章的讨论串，按正文位置排序；已从正文中删除的原文排在最后
+   */
+  async listThreads(articleId: number): Promise<CommentThread[]> {
+    const comments = await this.commentRepo.find({
+      where: { articleId },
+      order: { createdAt: "ASC" },
+    });
+
+    const threads = comments
+      .filter((c) => !c.parentId)
+      .map((c) => ({ ...c, replies: comments.filter((r) => r.parentId === c.id) }));
+
+    return threads.sort((a, b) => {
+      if (a.detached !== b.detached) {
+        return a.detached ? 1 : -1;
+      }
+      return (a.anchorStart ?? 0) - (b.anchorStart ?? 0);
+    });
+  }
+
+  /**
+   * 获取多篇文章的评论（用于数据备份）
+   */
+  async listByArticles(articleIds: number[]): Promise<ArticleComment[]> {
+    if (articleIds.length === 0) {
+      return [];
+    }
+    return this.commentRepo.find({
+      where: { articleId: In(articleIds) },
+      order: { id: "ASC" },
+    });
+  }
+
+  /**
+   * 新建锚定在正文片段上的讨论串
+   */
+  async createThread(
+    actor: AuditActor,
+    article: Article,
+    params: { body: string; quote: string; anchorStart: number }
+  ): Promise<ArticleComment> {
+    const anchorStart = locateQuote(article.content, params.quote, params.anchorStart);
+    if (anchorStart === null) {
+      throw new Error("评论的原文不在正文中，请保存后重试");
+    }
+    return this.commentRepo.save(
+      this.commentRepo.create({
+        articleId: article.id,
+        userId: actor.userId,
+        username: actor.username,
+        body: params.body,
+        quote: params.quote,
+        anchorStart,
+        anchorEnd: anchorStart + params.quote.length,
+      })
+    );
+  }
+
+  /**
+   * 获取讨论串的首条评论
+   */
+  async getThread(threadId: number): Promise<ArticleComment> {
+    const thread = await this.commentRepo.findOne({ where: { id: threadId } });
+    if (!thread || thread.parentId) {
+      throw new Error("讨论不存在");
+    }
+    return thread;
+  }
+
+  /**
+   * 回复讨论串；回复已解决的讨论串时重新打开
+   */
+  async reply(actor: AuditActor, thread: ArticleComment, body: string): Promise<ArticleComment> {
+    if (thread.resolved) {
+      await this.setResolved(actor, thread, false);
+    }
+    return this.commentRepo.save(
+      this.commentRepo.create({
+        articleId: thread.articleId,
+        parentId: thread.id,
+        userId: actor.userId,
+        username: actor.username,
+        body,
+      })
+    );
+  }
+
+  /**
+   * 解决或重新打开讨论串
+   */
+  async setResolved(actor: AuditActor, thread: ArticleComment, resolved: boolean): Promise<void> {
+    await this.commentRepo.update(thread.id, {
+      resolved,
+      resolvedBy: resolved ? actor.username : null,
+      resolvedAt: resolved ? new Date() : null,
+    });
+  }
+
+  /**
+   * 删除自己的评论；删除讨论串首条评论时一并删除回复
+   */
+  async deleteComment(actor: AuditActor, commentId: number): Promise<void> {
+    const comment = await this.commentRepo.findOne({ where: { id: commentId } });
+    if (!comment || comment.userId !== actor.userId) {
+      throw new Error("评论不存在");
+    }
+    if (!comment.parentId) {
+      await this.commentRepo.delete({ parentId: comment.id });
+    }
+    await this.commentRepo.delete(commentId);
+  }
+
+  /**
+   * 正文保存后调用：按新旧正文的差异重新定位讨论串的锚点
+   * 原文仍在修改范围之外时平移位置，否则在新正文中查找最近的原文，找不到时标记为已脱离
+   */
+  async remapAnchors(articleId: number, previousContent: string): Promise<void> {
+    const article = await AppDataSource.getRepository(Article).findOne({
+      select: ["id", "content"],
+      where: { id: articleId },
+    });
+    if (!article || article.content === previousContent) {
+      return;
+    }
+    const content = article.content;
+
+    const threads = await this.commentRepo.find({ where: { articleId, parentId: IsNull() } });
+    const mapRange = createRangeMapper(previousContent, content);
+    for (const thread of threads) {
+      if (!thread.quote || thread.anchorStart == null) {
+        continue;
+      }
+      const quote = thread.quote;
+      const start = thread.anchorStart;
+
+      let mapped = thread.detached
+        ? null
+        : mapRange(start, thread.anchorEnd ?? start + quote.length);
+      if (mapped === null || !content.startsWith(quote, mapped)) {
+        mapped = locateQuote(content, quote, mapped ?? start);
+      }
+
+      const detached = mapped === null;
+      const anchorStart = mapped ?? start;
+      if (detached === thread.detached && anchorStart === start) {
+        continue;
+      }
+      await this.commentRepo.update(thread.id, {
+        detached,
+        anchorStart,
+        anchorEnd: anchorStart + quote.length,
+      });
+    }
+  }
+}
+
+export const articleCommentService = new ArticleCommentService();
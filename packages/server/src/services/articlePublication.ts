@@ -0,0 +1,156 @@
+/**
+ * 文章发布记录服务
+ * 管理文章在各平台上的发布记录（平台文章ID、链接、状态、发布配置等）
+ */
+
+import { In } from "typeorm";
+import { AppDataSource } from "../db";
+import { ArticlePublication } from "../entities/ArticlePublication";
+
+/**
+ * 发布记录可更新字段
+ * undefined 表示不修改，null 表示清除
+ */
+export type PublicationUpdate = Partial<
+  Pick<
+    ArticlePublication,
+    | "remoteId"
+    | "draftId"
+    | "url"
+    | "status"
+    | "errorMessage"
+    | "lastSyncedAt"
+    | "remoteContentHash"
+    | "pushedVersionId"
+  >
+>;
+
+class ArticlePublicationService {
+  // 使用 getter 懒加载，避免模块加载时数据库未初始化的问题
+  private get repo() {
+    return AppDataSource.getRepository(ArticlePublication);
+  }
+
+  /**
+   * 获取文章在指定平台的发布记录
+   */
+  async get(articleId: number, platform: string): Promise<ArticlePublication | null> {
+    return this.repo.findOne({ where: { articleId, platform } });
+  }
+
+  /**
+   * 获取文章在所有平台的发布记录
+   */
+  async listByArticle(articleId: number): Promise<ArticlePublication[]> {
+    return this.repo.find({ where: { articleId }, order: { id: "ASC" } });
+  }
+
+  /**
+   * 批量获取多篇文章的发布记录，按文章ID分组
+   */
+  async listByArticles(articleIds: number[]): Promise<Map<number, ArticlePublication[]>> {
+    const grouped = new Map<number, ArticlePublication[]>();
+    if (articleIds.length === 0) {
+      return grouped;
+    }
+
+    const publications = await this.repo.find({
+      where: { articleId: In(articleIds) },
+      order: { id: "ASC" },
+    });
+    for (const publication of publications) {
+      const list = grouped.get(publication.articleId) || [];
+      list.push(publication);
+      grouped.set(publication.articleId, list);
+    }
+    return grouped;
+  }
+
+  /**
+   * 批量获取多篇文章在指定平台的发布记录，按文章ID索引
+   */
+  async mapByPlatform(
+    platform: string,
+    articleIds: number[]
+  ): Promise<Map<number, ArticlePublication>> {
+    const mapped = new Map<number, ArticlePublication>();
+    if (articleIds.length === 0) {
+      return mapped;
+    }
+
+    const publications = await this.repo.find({
+      where: { platform, articleId: In(articleIds) },
+    });
+    for (const publication of publications) {
+      mapped.set(publication.articleId, publication);
+    }
+    return mapped;
+  }
+
+  /**
+   * 获取文章在指定平台的发布配置，没有记录时返回空对象
+   */
+  async getConfig<T extends object>(articleId: number, platform: string): Promise<Partial<T>> {
+    const publication = await this.get(articleId, platform);
+    return (publication?.config || {}) as Partial<T>;
+  }
+
+  /**
+   * 更新文章在指定平台的发布记录，不存在时创建
+   */
+  async upsert(
+    articleId: number,
+    platform: string,
+    data: PublicationUpdate
+  ): Promise<ArticlePublication> {
+    const publication =
+      (await this.get(articleId, platform)) || this.repo.create({ articleId, platform });
+
+    const changes: PublicationUpdate = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    );
+    Object.assign(publication, changes);
+
+    return this.repo.save(publication);
+  }
+
+  /**
+   * 合并更新文章在指定平台的发布配置，值为 undefined 的字段保持不变
+   */
+  async updateConfig<T extends object>(
+    articleId: number,
+    platform: string,
+    config: Partial<T>
+  ): Promise<ArticlePublication> {
+    const publication =
+      (await this.get(articleId, platform)) || this.repo.create({ articleId, platform });
+
+    const merged: Record<string, any> = { ...(publication.config || {}) };
+    for (const [key, value] of Object.entries(config)) {
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+    publication.config = merged;
+
+    return this.repo.save(publication);
+  }
+
+  /**
+   * 清除文章在指定平台的远程关联（平台上已不存在该文章时使用）
+   * 保留发布配置，方便重新发布
+   */
+  async reset(articleId: number, platform: string): Promise<void> {
+    await this.upsert(articleId, platform, {
+      remoteId: null,
+      draftId: null,
+      url: null,
+      status: null,
+      errorMessage: null,
+      lastSyncedAt: new Date(),
+    });
+  }
+}
+
+// 导出单例
+export const articlePublicationService = new ArticlePublicationService();
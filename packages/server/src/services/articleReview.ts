@@ -0,0 +1,249 @@
+/**
+ * 文章编辑审核
+ * 草稿提交审核后由指定的审核人通过或要求修改；只有审核通过的文章才能发布（立即发布或定时发布）。
+ * 审核通过后标题或正文发生变化时自动回到审核中。每次状态变化都写入操作记录并发送邮件通知。
+ */
+
+import { createHash } from "crypto";
+import { In } from "typeorm";
+import { AppDataSource } from "../db";
+import { Article, ReviewStatus } from "../entities/Article";
+import { AdminUser } from "../entities/AdminUser";
+import { auditLogService, type AuditActor } from "./auditLog";
+import { emailService } from "./emailService";
+import { Permission, roleHasPermission } from "./permissions";
+
+/**
+ * 文章未通过审核时尝试发布
+ */
+export class ReviewRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewRequiredError";
+  }
+}
+
+export interface Reviewer {
+  userId: number;
+  username: string;
+}
+
+// 各状态允许的操作
+const SUBMITTABLE = [ReviewStatus.NONE, ReviewStatus.CHANGES_REQUESTED];
+const DECIDABLE = [ReviewStatus.IN_REVIEW];
+
+class ArticleReviewService {
+  private get articleRepo() {
+    return AppDataSource.getRepository(Article);
+  }
+
+  /**
+   * 审核所依据的内容哈希（标题 + 正文）
+   */
+  contentHash(article: Pick<Article, "title" | "content">): string {
+    return createHash("sha256").update(`${article.title}\n${article.content}`).digest("hex");
+  }
+
+  /**
+   * 文章不能发布的原因，可以发布时返回 null
+   */
+  getPublishBlockReason(article: Article): string | null {
+    if (article.reviewStatus !== ReviewStatus.APPROVED) {
+      return "文章尚未通过审核，不能发布";
+    }
+    if (article.approvedContentHash !== this.contentHash(article)) {
+      return "文章在审核通过后有修改，需要重新审核";
+    }
+    return null;
+  }
+
+  /**
+   * 校验文章已通过审核
+   */
+  assertPublishable(article: Article): void {
+    const reason = this.getPublishBlockReason(article);
+    if (reason) {
+      throw new ReviewRequiredError(reason);
+    }
+  }
+
+  /**
+   * 可以担任审核人的成员（角色具有审核权限）
+   */
+  async listReviewers(): Promise<Reviewer[]> {
+    const admins = await AppDataSource.getRepository(AdminUser).find({ order: { createdAt: "ASC" } });
+    return admins
+      .filter((admin) => !!admin.userId && roleHasPermission(admin.role, Permission.ARTICLE_REVIEW))
+      .map((admin) => ({ userId: admin.userId!, username: admin.username }));
+  }
+
+  private async findReviewer(userId: number): Promise<Reviewer> {
+    const reviewer = (await this.listReviewers()).find((r) => r.userId === userId);
+    if (!reviewer) {
+      throw new Error("该成员没有审核权限");
+    }
+    return reviewer;
+  }
+
+  /**
+   * 查询审核人用户名
+   */
+  async getReviewerNames(userIds: number[]): Promise<Map<number, string>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+    const admins = await AppDataSource.getRepository(AdminUser).find({ where: { userId: In(userIds) } });
+    return new Map(admins.map((a) => [a.userId!, a.username]));
+  }
+
+  /**
+   * 提交审核（草稿或需要修改的文章）
+   */
+  async submit(actor: AuditActor, article: Article, reviewerUserId: number, note?: string): Promise<Article> {
+    if (!SUBMITTABLE.includes(article.reviewStatus)) {
+      throw new Error("文章已在审核中或已通过审核");
+    }
+    const reviewer = await this.findReviewer(reviewerUserId);
+    article.reviewerUserId = reviewer.userId;
+    return this.transition(actor, article, ReviewStatus.IN_REVIEW, note);
+  }
+
+  /**
+   * 更换审核人（审核中的文章）
+   */
+  async assignReviewer(actor: AuditActor, article: Article, reviewerUserId: number): Promise<Article> {
+    if (article.reviewStatus !== ReviewStatus.IN_REVIEW) {
+      throw new Error("只有审核中的文章可以更换审核人");
+    }
+    const reviewer = await this.findReviewer(reviewerUserId);
+    if (article.reviewerUserId === reviewer.userId) {
+      return article;
+    }
+    article.reviewerUserId = reviewer.userId;
+    await this.articleRepo.update(article.id, { reviewerUserId: reviewer.userId });
+    await auditLogService.recordArticle(actor, "article.review.assign", article, {
+      detail: { reviewer: reviewer.username },
+    });
+    await this.notify(actor, article, ReviewStatus.IN_REVIEW);
+    return article;
+  }
+
+  /**
+   * 审核通过
+   */
+  async approve(actor: AuditActor, article: Article, note?: string): Promise<Article> {
+    this.assertDecidable(actor, article);
+    article.approvedContentHash = this.contentHash(article);
+    return this.transition(actor, article, ReviewStatus.APPROVED, note);
+  }
+
+  /**
+   * 要求修改
+   */
+  async requestChanges(actor: AuditActor, article: Article, note?: string): Promise<Article> {
+    this.assertDecidable(actor, article);
+    return this.transition(actor, article, ReviewStatus.CHANGES_REQUESTED, note);
+  }
+
+  /**
+   * 撤回审核，回到未提交状态
+   */
+  async withdraw(actor: AuditActor, article: Article): Promise<Article> {
+    if (article.reviewStatus === ReviewStatus.NONE) {
+      return article;
+    }
+    return this.transition(actor, article, ReviewStatus.NONE);
+  }
+
+  /**
+   * 内容保存后调用：审核通过的文章内容发生变化时回到审核中
+   */
+  async handleContentChange(actor: AuditActor, articleId: number): Promise<void> {
+    const article = await this.articleRepo.findOne({ where: { id: articleId } });
+    if (
+      !article ||
+      article.reviewStatus !== ReviewStatus.APPROVED ||
+      article.approvedContentHash === this.contentHash(article)
+    ) {
+      return;
+    }
+    await this.transition(actor, article, ReviewStatus.IN_REVIEW, "审核通过后内容有修改，需要重新审核");
+  }
+
+  /**
+   * 指派给用户、等待其审核的文章
+   */
+  async listAssigned(userId: number): Promise<Article[]> {
+    return this.articleRepo.find({
+      select: ["id", "title", "userId", "folderId", "reviewStatus", "reviewerUserId", "updatedAt"],
+      where: { reviewerUserId: userId, reviewStatus: ReviewStatus.IN_REVIEW },
+      order: { updatedAt: "DESC" },
+    });
+  }
+
+  private assertDecidable(actor: AuditActor, article: Article): void {
+    if (!DECIDABLE.includes(article.reviewStatus)) {
+      throw new Error("文章不在审核中");
+    }
+    if (article.reviewerUserId !== actor.userId) {
+      throw new Error("只有指定的审核人可以审核该文章");
+    }
+  }
+
+  /**
+   * 变更审核状态，记录操作并通知相关成员
+   */
+  private async transition(
+    actor: AuditActor,
+    article: Article,
+    to: ReviewStatus,
+    note?: string
+  ): Promise<Article> {
+    const from = article.reviewStatus;
+    article.reviewStatus = to;
+    if (to !== ReviewStatus.APPROVED) {
+      article.approvedContentHash = null;
+    }
+
+    await this.articleRepo.update(article.id, {
+      reviewStatus: article.reviewStatus,
+      reviewerUserId: article.reviewerUserId ?? null,
+      approvedContentHash: article.approvedContentHash ?? null,
+    });
+
+    await auditLogService.recordArticle(actor, "article.review", article, {
+      detail: { from, to, note: note || undefined },
+    });
+    await this.notify(actor, article, to, note);
+    return article;
+  }
+
+  /**
+   * 通知作者和审核人（不通知操作人自己）
+   */
+  private async notify(actor: AuditActor, article: Article, status: ReviewStatus, note?: string): Promise<void> {
+    const recipients = [article.userId, article.reviewerUserId]
+      .filter((id): id is number => !!id && id !== actor.userId);
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const names = await this.getReviewerNames(article.reviewerUserId ? [article.reviewerUserId] : []);
+    // 邮件发送较慢，不阻塞请求
+    setImmediate(() => {
+      emailService
+        .notifyReviewStatus(recipients, {
+          articleTitle: article.title,
+          reviewStatus: status,
+          reviewActor: actor.username,
+          reviewer: article.reviewerUserId ? names.get(article.reviewerUserId) : undefined,
+          reviewNote: note,
+        })
+        .catch((error) => {
+          console.error("[ArticleReview] 发送审核通知失败:", error);
+        });
+    });
+  }
+}
+
+export const articleReviewService = new ArticleReviewService();
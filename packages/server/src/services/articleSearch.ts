@@ -0,0 +1,287 @@
+/**
+ * 文章全文搜索服务
+ * 基于 article_fts 全文索引，支持短语查询、按文件夹/标签/状态/平台筛选，并生成带高亮的摘要
+ */
+
+import { In } from "typeorm";
+import { AppDataSource } from "../db";
+import { syncArticleSearchIndex, toSearchTokens } from "../db/articleSearchIndex";
+import { Article, ArticleStatus } from "../entities/Article";
+import { Folder } from "../entities/Folder";
+import { articlePublicationService } from "./articlePublication";
+import { workspaceService } from "./workspace";
+
+/**
+ * 高亮片段：摘要和标题按是否命中拆分为若干段，由前端渲染
+ */
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface ArticleSearchOptions {
+  // 搜索该用户可以访问的文章：自己的文章和共享文件夹中的文章
+  userId: number;
+  // 搜索语句：空格分隔的关键词需全部命中，双引号包裹的内容按短语匹配
+  query: string;
+  // 文件夹筛选，包含子文件夹中的文章
+  folderId?: number;
+  tag?: string;
+  status?: ArticleStatus;
+  // 已同步或发布到该平台的文章
+  platform?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ArticleSearchResult {
+  id: number;
+  title: string;
+  status: ArticleStatus;
+  folderId?: number;
+  tags?: string[];
+  platforms: string[];
+  updatedAt: Date;
+  titleHighlights: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+/**
+ * 解析后的搜索语句
+ */
+interface ParsedQuery {
+  // FTS MATCH 表达式
+  match: string;
+  // 用于在原文中定位命中位置的正则
+  highlight: RegExp;
+}
+
+// 摘要长度（字符数）和命中位置之前保留的上下文长度
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEADING = 30;
+
+// 标题命中的权重，高于正文命中
+const TITLE_WEIGHT = 5;
+
+const WORD_SEPARATOR = /[^\p{L}\p{N}_]+/u;
+const LATIN_WORD = /^[\p{Script=Latin}\p{N}_]+$/u;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 解析搜索语句
+ * 每个关键词或短语转换为 FTS 短语查询；不在引号中的拉丁字母关键词按前缀匹配
+ */
+export function parseSearchQuery(query: string): ParsedQuery | null {
+  const phrases: string[] = [];
+  const patterns: string[] = [];
+
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const isPhrase = match[1] !== undefined;
+    const tokens = toSearchTokens(match[1] ?? match[2])
+      .split(WORD_SEPARATOR)
+      .filter(Boolean);
+    if (tokens.length === 0) {
+      continue;
+    }
+
+    const prefix = !isPhrase && LATIN_WORD.test(tokens[tokens.length - 1]);
+    phrases.push(`"${tokens.join(" ")}${prefix ? "*" : ""}"`);
+    patterns.push(
+      tokens.map(escapeRegExp).join("[^\\p{L}\\p{N}_]*") + (prefix ? "[\\p{L}\\p{N}_]*" : "")
+    );
+  }
+
+  if (phrases.length === 0) {
+    return null;
+  }
+
+  // 较长的模式优先，避免短关键词截断长短语的高亮
+  patterns.sort((a, b) => b.length - a.length);
+  return {
+    match: phrases.join(" "),
+    highlight: new RegExp(patterns.join("|"), "giu"),
+  };
+}
+
+/**
+ * 按命中位置将文本拆分为高亮片段
+ */
+export function highlightText(text: string, pattern: RegExp): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (!match[0]) {
+      continue;
+    }
+    if (match.index! > cursor) {
+      segments.push({ text: text.slice(cursor, match.index), highlight: false });
+    }
+    segments.push({ text: match[0], highlight: true });
+    cursor = match.index! + match[0].length;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlight: false });
+  }
+  return segments;
+}
+
+/**
+ * 将 Markdown 正文转换为适合展示摘要的纯文本
+ */
+function toPlainText(content: string): string {
+  return content
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*`|]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 截取第一个命中位置附近的正文作为摘要
+ */
+function buildSnippet(content: string, pattern: RegExp): HighlightSegment[] {
+  const text = toPlainText(content);
+  pattern.lastIndex = 0;
+  const first = pattern.exec(text);
+  pattern.lastIndex = 0;
+
+  const start = first ? Math.max(0, first.index - SNIPPET_LEADING) : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const segments = highlightText(text.slice(start, end), pattern);
+
+  if (start > 0) {
+    segments.unshift({ text: "…", highlight: false });
+  }
+  if (end < text.length) {
+    segments.push({ text: "…", highlight: false });
+  }
+  return segments;
+}
+
+/**
+ * 根据 offsets() 的结果计算相关度
+ * offsets 返回以空格分隔的四元组：列号、词序号、字节偏移、字节长度
+ */
+function scoreOffsets(offsets: string): number {
+  const values = offsets.split(" ").map(Number);
+  let score = 0;
+  for (let i = 0; i < values.length; i += 4) {
+    score += values[i] === 0 ? TITLE_WEIGHT : 1;
+  }
+  return score;
+}
+
+class ArticleSearchService {
+  /**
+   * 获取文件夹及其所有子文件夹的 ID
+   */
+  private async getFolderScope(folderId: number): Promise<number[]> {
+    const folders = await AppDataSource.getRepository(Folder).find({
+      select: ["id", "parentId"],
+    });
+
+    const scope = [folderId];
+    for (let i = 0; i < scope.length; i++) {
+      for (const folder of folders) {
+        if (folder.parentId === scope[i]) {
+          scope.push(folder.id);
+        }
+      }
+    }
+    return scope;
+  }
+
+  /**
+   * 搜索文章，按相关度排序（标题命中优先），相关度相同时按更新时间倒序
+   */
+  async search(
+    options: ArticleSearchOptions
+  ): Promise<{ items: ArticleSearchResult[]; total: number }> {
+    const parsed = parseSearchQuery(options.query);
+    if (!parsed) {
+      return { items: [], total: 0 };
+    }
+
+    await syncArticleSearchIndex(AppDataSource);
+
+    const conditions = ["article_fts MATCH ?"];
+    const params: unknown[] = [parsed.match];
+
+    const folderIds = await workspaceService.getAccessibleFolderIds(options.userId);
+    if (folderIds.length > 0) {
+      conditions.push(`(a.userId = ? OR a.folderId IN (${folderIds.map(() => "?").join(", ")}))`);
+      params.push(options.userId, ...folderIds);
+    } else {
+      conditions.push("a.userId = ?");
+      params.push(options.userId);
+    }
+
+    if (options.folderId !== undefined) {
+      const scope = await this.getFolderScope(options.folderId);
+      conditions.push(`a.folderId IN (${scope.map(() => "?").join(", ")})`);
+      params.push(...scope);
+    }
+    if (options.status) {
+      conditions.push("a.status = ?");
+      params.push(options.status);
+    }
+    if (options.tag) {
+      // simple-array 字段以逗号分隔保存
+      conditions.push("(',' || a.tags || ',') LIKE ?");
+      params.push(`%,${options.tag},%`);
+    }
+    if (options.platform) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM article_publications p WHERE p.articleId = a.id AND p.platform = ?)"
+      );
+      params.push(options.platform);
+    }
+
+    const rows: { id: number; updatedAt: string; offsets: string }[] = await AppDataSource.query(
+      `SELECT a.id AS id, a.updatedAt AS updatedAt, offsets(article_fts) AS offsets
+       FROM article_fts JOIN articles a ON a.id = article_fts.docid
+       WHERE ${conditions.join(" AND ")}`,
+      params
+    );
+
+    const ranked = rows
+      .map((row) => ({ ...row, score: scoreOffsets(row.offsets) }))
+      .sort((a, b) => b.score - a.score || b.updatedAt.localeCompare(a.updatedAt));
+
+    const offset = options.offset ?? 0;
+    const pageIds = ranked.slice(offset, offset + (options.limit ?? 20)).map((row) => row.id);
+    if (pageIds.length === 0) {
+      return { items: [], total: ranked.length };
+    }
+
+    const articles = await AppDataSource.getRepository(Article).find({
+      where: { id: In(pageIds) },
+    });
+    const articleMap = new Map(articles.map((article) => [article.id, article]));
+    const publications = await articlePublicationService.listByArticles(pageIds);
+
+    const items = pageIds
+      .map((id) => articleMap.get(id))
+      .filter((article): article is Article => !!article)
+      .map((article) => ({
+        id: article.id,
+        title: article.title,
+        status: article.status,
+        folderId: article.folderId,
+        tags: article.tags,
+        platforms: (publications.get(article.id) || []).map((p) => p.platform),
+        updatedAt: article.updatedAt,
+        titleHighlights: highlightText(article.title, parsed.highlight),
+        snippet: buildSnippet(article.content, parsed.highlight),
+      }));
+
+    return { items, total: ranked.length };
+  }
+}
+
+// 导出单例
+export const articleSearchService = new ArticleSearchService();
@@ -7,6 +7,12 @@ import * as path from "path";
 import { AppDataSource } from "../db";
 import { Article, ArticleStatus } from "../entities/Article";
 import { User } from "../entities/User";
+import type {
+  ArticlePublication,
+  TencentPublicationConfig,
+} from "../entities/ArticlePublication";
+import { articlePublicationService } from "./articlePublication";
+import { syncConflictDetector } from "./syncConflictDetector";
 
 /**
  * 第三方平台未登录错误
@@ -29,8 +35,25 @@ import {
   ArticleStatusCount,
 } from "./tencentApi";
 import { processArticleImages, hasImagesToUpload } from "./imageUpload";
+import { transformMarkdownForPlatform } from "./markdownTransformer";
 import { getUploadDir } from "./dataDir";
 
+// 发布记录中的平台标识
+const PLATFORM = "tencent";
+
+/**
+ * 从发布记录中读取腾讯云草稿ID、文章ID和发布配置
+ */
+function readPublication(publication: ArticlePublication | null) {
+  const config = (publication?.config || {}) as TencentPublicationConfig;
+  return {
+    draftId: publication?.draftId ? parseInt(publication.draftId) : undefined,
+    articleId: publication?.remoteId || undefined,
+    tagIds: config.tagIds || [],
+    sourceType: config.sourceType || 1,
+  };
+}
+
 // 同步结果
 export interface SyncResult {
   success: boolean;
@@ -78,16 +101,8 @@ export class ArticleSyncService {
   /**
    * 获取用户的 API 客户端
    */
-  private async getApiClient(userId?: number): Promise<TencentApiClient> {
-    const userRepository = this.userRepo;
-    let user: User | null;
-
-    if (userId) {
-      user = await userRepository.findOne({ where: { id: userId } });
-    } else {
-      // 获取第一个已登录的用户
-      user = await userRepository.findOne({ where: { isLoggedIn: true } });
-    }
+  async getApiClient(userId: number): Promise<TencentApiClient> {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
 
     if (!user || !user.isLoggedIn || !user.cookies) {
       throw new PlatformNotLoggedInError("tencent", "请先登录腾讯云开发者社区");
@@ -100,7 +115,7 @@ export class ArticleSyncService {
    * 同步文章到腾讯云草稿箱
    * 如果文章没有草稿ID，创建新草稿；否则更新现有草稿
    */
-  async syncToDraft(articleId: number, userId?: number): Promise<SyncResult> {
+  async syncToDraft(articleId: number, userId: number): Promise<SyncResult> {
     try {
       const article = await this.articleRepo.findOne({
         where: { id: articleId },
@@ -111,14 +126,26 @@ export class ArticleSyncService {
       }
 
       const client = await this.getApiClient(userId);
+      const tencent = readPublication(
+        await articlePublicationService.get(articleId, PLATFORM)
+      );
+
+      // 转换扩展语法（对齐语法为腾讯云原生语法，提示框等需要降级）
+      const { content: transformedContent, report } = transformMarkdownForPlatform(
+        article.content,
+        { platform: PLATFORM }
+      );
+      if (report.processed > 0) {
+        console.log(`[ArticleSync] 转换了 ${report.processed} 个扩展语法节点`, report.details);
+      }
 
       // 处理文章中的图片，上传到腾讯云 COS
-      let contentToSync = article.content;
-      if (hasImagesToUpload(article.content, "tencent")) {
+      let contentToSync = transformedContent;
+      if (hasImagesToUpload(transformedContent, "tencent")) {
         console.log("[ArticleSync] 检测到需要上传的图片，开始上传到腾讯云...");
         try {
           const { content: processedContent, results } = await processArticleImages(
-            article.content,
+            transformedContent,
             client,
             path.resolve(getUploadDir())
           );
@@ -148,18 +175,16 @@ export class ArticleSyncService {
       let draftId: number;
       let isNewDraft = false;
 
-      if (article.tencentDraftId) {
+      if (tencent.draftId) {
         // 尝试更新现有草稿
         try {
           const result = await client.updateDraft({
-            draftId: article.tencentDraftId,
-            articleId: article.tencentArticleId
-              ? parseInt(article.tencentArticleId)
-              : 0,
+            draftId: tencent.draftId,
+            articleId: tencent.articleId ? parseInt(tencent.articleId) : 0,
             title: article.title,
             content: contentToSync,
-            tagIds: article.tencentTagIds || [],
-            sourceType: article.sourceType,
+            tagIds: tencent.tagIds,
+            sourceType: tencent.sourceType,
           });
           draftId = result.draftId;
         } catch (updateError) {
@@ -170,8 +195,8 @@ export class ArticleSyncService {
             const result = await client.createDraft({
               title: article.title,
               content: contentToSync,
-              tagIds: article.tencentTagIds || [],
-              sourceType: article.sourceType,
+              tagIds: tencent.tagIds,
+              sourceType: tencent.sourceType,
             });
             draftId = result.draftId;
             isNewDraft = true;
@@ -184,17 +209,20 @@ export class ArticleSyncService {
         const result = await client.createDraft({
           title: article.title,
           content: contentToSync,
-          tagIds: article.tencentTagIds || [],
-          sourceType: article.sourceType,
+          tagIds: tencent.tagIds,
+          sourceType: tencent.sourceType,
         });
         draftId = result.draftId;
         isNewDraft = true;
       }
 
-      // 更新本地文章记录
-      article.tencentDraftId = draftId;
-      article.lastSyncedAt = new Date();
-      await this.articleRepo.save(article);
+      // 更新发布记录
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        draftId: String(draftId),
+        lastSyncedAt: new Date(),
+        remoteContentHash: null, // 推送了新内容，下次检查时重新记录平台内容
+        pushedVersionId: await syncConflictDetector.snapshotPushedContent(article, contentToSync, PLATFORM),
+      });
 
       return {
         success: true,
@@ -212,7 +240,7 @@ export class ArticleSyncService {
    */
   async publishArticle(
     articleId: number,
-    userId?: number
+    userId: number
   ): Promise<SyncResult> {
     try {
       const article = await this.articleRepo.findOne({
@@ -228,20 +256,33 @@ export class ArticleSyncService {
         return { success: false, message: "文章内容不能少于140字" };
       }
 
+      const tencent = readPublication(
+        await articlePublicationService.get(articleId, PLATFORM)
+      );
+
       // 检查标签
-      if (!article.tencentTagIds || article.tencentTagIds.length === 0) {
+      if (tencent.tagIds.length === 0) {
         return { success: false, message: "请至少选择一个标签" };
       }
 
       const client = await this.getApiClient(userId);
 
+      // 转换扩展语法（对齐语法为腾讯云原生语法，提示框等需要降级）
+      const { content: transformedContent, report } = transformMarkdownForPlatform(
+        article.content,
+        { platform: PLATFORM }
+      );
+      if (report.processed > 0) {
+        console.log(`[ArticleSync] 转换了 ${report.processed} 个扩展语法节点`, report.details);
+      }
+
       // 处理文章中的图片，上传到腾讯云 COS
-      let contentToPublish = article.content;
-      if (hasImagesToUpload(article.content, "tencent")) {
+      let contentToPublish = transformedContent;
+      if (hasImagesToUpload(transformedContent, "tencent")) {
         console.log("[ArticleSync] 检测到需要上传的图片，开始上传到腾讯云...");
         try {
           const { content: processedContent, results } = await processArticleImages(
-            article.content,
+            transformedContent,
             client,
             path.resolve(getUploadDir())
           );
@@ -269,18 +310,18 @@ export class ArticleSyncService {
       let isUpdate = false;
 
       // 判断是新发布还是更新已发布的文章
-      if (article.tencentArticleId) {
+      if (tencent.articleId) {
         // 已有腾讯云文章ID，尝试调用编辑接口更新文章
         isUpdate = true;
-        console.log(`[ArticleSync] 尝试更新已发布文章: ${article.tencentArticleId}`);
+        console.log(`[ArticleSync] 尝试更新已发布文章: ${tencent.articleId}`);
         try {
           publishResult = await client.editArticle({
-            articleId: parseInt(article.tencentArticleId),
-            draftId: article.tencentDraftId,
+            articleId: parseInt(tencent.articleId),
+            draftId: tencent.draftId,
             title: article.title,
             content: contentToPublish,
-            sourceType: article.sourceType || 1,
-            tagIds: article.tencentTagIds,
+            sourceType: tencent.sourceType,
+            tagIds: tencent.tagIds,
           });
         } catch (editError) {
           // 如果编辑失败（文章不存在等），清除旧的ID，重新发布
@@ -288,9 +329,13 @@ export class ArticleSyncService {
           console.log(`[ArticleSync] 更新失败: ${errorMsg}，将重新发布`);
           
           // 清除旧的腾讯云文章ID
-          article.tencentArticleId = undefined;
-          article.tencentArticleUrl = undefined;
-          article.tencentDraftId = undefined;
+          await articlePublicationService.upsert(articleId, PLATFORM, {
+            remoteId: null,
+            url: null,
+            draftId: null,
+          });
+          tencent.articleId = undefined;
+          tencent.draftId = undefined;
           isUpdate = false;
           
           // 继续执行新发布流程
@@ -300,35 +345,29 @@ export class ArticleSyncService {
       // 新发布文章（或更新失败后重新发布）
       if (!publishResult) {
         // 如果没有草稿ID，先创建草稿
-        if (!article.tencentDraftId) {
+        if (!tencent.draftId) {
           const syncResult = await this.syncToDraft(articleId, userId);
-          if (!syncResult.success) {
-            return syncResult;
+          if (!syncResult.success || !syncResult.draftId) {
+            return syncResult.success ? { success: false, message: "创建草稿失败" } : syncResult;
           }
-          // 重新获取文章以获取最新的 draftId
-          const updatedArticle = await this.articleRepo.findOne({
-            where: { id: articleId },
-          });
-          if (!updatedArticle?.tencentDraftId) {
-            return { success: false, message: "创建草稿失败" };
-          }
-          article.tencentDraftId = updatedArticle.tencentDraftId;
+          tencent.draftId = syncResult.draftId;
         }
 
-        console.log(`[ArticleSync] 新发布文章，草稿ID: ${article.tencentDraftId}`);
+        console.log(`[ArticleSync] 新发布文章，草稿ID: ${tencent.draftId}`);
         publishResult = await client.publishArticle({
-          draftId: article.tencentDraftId,
+          draftId: tencent.draftId,
           title: article.title,
           content: contentToPublish,
-          sourceType: article.sourceType || 1,
-          tagIds: article.tencentTagIds,
+          sourceType: tencent.sourceType,
+          tagIds: tencent.tagIds,
         });
 
         // 新发布成功后记录腾讯云文章ID
-        article.tencentArticleId = publishResult.articleId.toString();
-        article.tencentArticleUrl = `https://cloud.tencent.com/developer/article/${publishResult.articleId}`;
+        tencent.articleId = publishResult.articleId.toString();
       }
 
+      const articleUrl = `https://cloud.tencent.com/developer/article/${tencent.articleId}`;
+
       // 更新本地文章状态
       // 注意：API 返回的 status 不可靠，统一设置为"审核中"
       // 后续通过 syncArticleStatus 同步真实状态
@@ -340,9 +379,19 @@ export class ArticleSyncService {
         article.errorMessage = undefined;
       }
       article.publishedAt = new Date();
-      article.lastSyncedAt = new Date();
       await this.articleRepo.save(article);
 
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        remoteId: tencent.articleId,
+        draftId: tencent.draftId ? String(tencent.draftId) : null,
+        url: articleUrl,
+        status: article.status,
+        errorMessage: article.errorMessage ?? null,
+        lastSyncedAt: new Date(),
+        remoteContentHash: null,
+        pushedVersionId: await syncConflictDetector.snapshotPushedContent(article, contentToPublish, PLATFORM),
+      });
+
       return {
         success: publishResult.status !== 2,
         message: publishResult.status === 2 
@@ -351,7 +400,7 @@ export class ArticleSyncService {
             ? "文章已更新，等待审核"
             : "文章已提交，等待审核",
         articleId: publishResult.articleId,
-        articleUrl: article.tencentArticleUrl,
+        articleUrl,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : "发布失败";
@@ -364,6 +413,10 @@ export class ArticleSyncService {
         article.status = ArticleStatus.FAILED;
         article.errorMessage = message;
         await this.articleRepo.save(article);
+        await articlePublicationService.upsert(articleId, PLATFORM, {
+          status: ArticleStatus.FAILED,
+          errorMessage: message,
+        });
       }
 
       return { success: false, message };
@@ -373,7 +426,7 @@ export class ArticleSyncService {
   /**
    * 删除腾讯云草稿
    */
-  async deleteDraft(articleId: number, userId?: number): Promise<SyncResult> {
+  async deleteDraft(articleId: number, userId: number): Promise<SyncResult> {
     try {
       const article = await this.articleRepo.findOne({
         where: { id: articleId },
@@ -383,17 +436,21 @@ export class ArticleSyncService {
         return { success: false, message: "文章不存在" };
       }
 
-      if (!article.tencentDraftId) {
+      const { draftId } = readPublication(
+        await articlePublicationService.get(articleId, PLATFORM)
+      );
+      if (!draftId) {
         return { success: false, message: "文章没有对应的腾讯云草稿" };
       }
 
       const client = await this.getApiClient(userId);
-      await client.deleteDraft(article.tencentDraftId);
+      await client.deleteDraft(draftId);
 
       // 清除本地草稿ID
-      article.tencentDraftId = undefined;
-      article.lastSyncedAt = new Date();
-      await this.articleRepo.save(article);
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        draftId: null,
+        lastSyncedAt: new Date(),
+      });
 
       return { success: true, message: "草稿删除成功" };
     } catch (error) {
@@ -405,7 +462,7 @@ export class ArticleSyncService {
   /**
    * 搜索标签
    */
-  async searchTags(keyword: string, userId?: number): Promise<TagInfo[]> {
+  async searchTags(keyword: string, userId: number): Promise<TagInfo[]> {
     const client = await this.getApiClient(userId);
     return client.searchTags(keyword);
   }
@@ -426,8 +483,11 @@ export class ArticleSyncService {
         return { success: false, message: "文章不存在" };
       }
 
-      article.tencentTagIds = tagIds;
-      await this.articleRepo.save(article);
+      await articlePublicationService.updateConfig<TencentPublicationConfig>(
+        articleId,
+        PLATFORM,
+        { tagIds }
+      );
 
       return { success: true, message: "标签设置成功" };
     } catch (error) {
@@ -459,8 +519,11 @@ export class ArticleSyncService {
         };
       }
 
-      article.sourceType = sourceType;
-      await this.articleRepo.save(article);
+      await articlePublicationService.updateConfig<TencentPublicationConfig>(
+        articleId,
+        PLATFORM,
+        { sourceType }
+      );
 
       return { success: true, message: "来源类型设置成功" };
     } catch (error) {
@@ -472,7 +535,7 @@ export class ArticleSyncService {
   /**
    * 获取腾讯云草稿列表
    */
-  async fetchTencentDrafts(userId?: number) {
+  async fetchTencentDrafts(userId: number) {
     const client = await this.getApiClient(userId);
     return client.fetchDrafts();
   }
@@ -482,7 +545,7 @@ export class ArticleSyncService {
    */
   async fetchTencentArticles(
     params: { pageNumber?: number; pageSize?: number; status?: number },
-    userId?: number
+    userId: number
   ) {
     const client = await this.getApiClient(userId);
     return client.fetchArticles(params);
@@ -494,16 +557,9 @@ export class ArticleSyncService {
    * 这样可以避免因网络问题或临时失效导致误判登录失效
    * 只有用户主动 logout 才会清除登录状态
    */
-  async checkLoginStatus(userId?: number): Promise<boolean> {
+  async checkLoginStatus(userId: number): Promise<boolean> {
     try {
-      const userRepository = this.userRepo;
-      let user: User | null;
-
-      if (userId) {
-        user = await userRepository.findOne({ where: { id: userId } });
-      } else {
-        user = await userRepository.findOne({ where: { isLoggedIn: true } });
-      }
+      const user = await this.userRepo.findOne({ where: { id: userId } });
 
       // 只检查本地状态：有 cookies 且标记为已登录
       return !!(user && user.isLoggedIn && user.cookies);
@@ -517,7 +573,7 @@ export class ArticleSyncService {
    * 仅在实际 API 操作失败后调用，用于确认是否是登录过期导致的
    * 注意：此方法不会主动将本地登录状态设为 false
    */
-  async verifyRemoteLoginStatus(userId?: number): Promise<boolean> {
+  async verifyRemoteLoginStatus(userId: number): Promise<boolean> {
     try {
       const client = await this.getApiClient(userId);
       return client.checkLoginStatus();
@@ -536,7 +592,7 @@ export class ArticleSyncService {
       page?: number;
       pageSize?: number;
     },
-    userId?: number
+    userId: number
   ) {
     const client = await this.getApiClient(userId);
     return client.fetchCreatorArticles(params);
@@ -545,7 +601,7 @@ export class ArticleSyncService {
   /**
    * 获取文章状态统计
    */
-  async fetchArticleStatusCount(userId?: number): Promise<ArticleStatusCount> {
+  async fetchArticleStatusCount(userId: number): Promise<ArticleStatusCount> {
     const client = await this.getApiClient(userId);
     return client.fetchArticleStatusCount();
   }
@@ -587,15 +643,15 @@ export class ArticleSyncService {
 
   /**
    * 同步并匹配本地文章与腾讯云文章状态
-   * 优先通过 tencentArticleId 匹配，其次通过标题匹配
+   * 优先通过腾讯云文章ID匹配，其次通过标题匹配
    */
-  async syncArticleStatus(userId?: number): Promise<SyncStatusResult> {
+  async syncArticleStatus(userId: number): Promise<SyncStatusResult> {
     try {
       const client = await this.getApiClient(userId);
 
       // 获取所有本地文章
       const localArticles = await this.articleRepo.find({
-        where: { userId: userId || 1 },
+        where: { userId },
         order: { createdAt: "DESC" },
       });
 
@@ -629,6 +685,12 @@ export class ArticleSyncService {
       // 获取状态统计
       const statusCount = await client.fetchArticleStatusCount();
 
+      // 本地文章在腾讯云的发布记录
+      const publications = await articlePublicationService.mapByPlatform(
+        PLATFORM,
+        localArticles.map((a) => a.id)
+      );
+
       // 匹配本地文章与腾讯云文章
       const matchResults: ArticleMatchResult[] = [];
       // 统计状态真正发生变化的文章数量
@@ -640,10 +702,11 @@ export class ArticleSyncService {
           localTitle: localArticle.title,
           matched: false,
         };
+        const publication = publications.get(localArticle.id);
 
-        // 优先通过 tencentArticleId 匹配
-        if (localArticle.tencentArticleId) {
-          const tencentId = parseInt(localArticle.tencentArticleId);
+        // 优先通过腾讯云文章ID匹配
+        if (publication?.remoteId) {
+          const tencentId = parseInt(publication.remoteId);
           const matched = tencentArticles.find(
             (t) => t.articleId === tencentId
           );
@@ -691,7 +754,6 @@ export class ArticleSyncService {
             }
 
             // 更新本地文章的腾讯云ID和状态
-            localArticle.tencentArticleId = matched.articleId.toString();
             const changed = await this.updateLocalArticleStatus(localArticle, matched);
             if (changed) {
               statusChangedCount++;
@@ -701,16 +763,13 @@ export class ArticleSyncService {
 
         // 如果本地文章有腾讯云ID但未能匹配到，说明腾讯云上不存在该文章
         // 重置为本地草稿状态
-        if (!matchResult.matched && (localArticle.tencentArticleId || localArticle.tencentDraftId)) {
+        if (!matchResult.matched && (publication?.remoteId || publication?.draftId)) {
           console.log(`[ArticleSync] 文章未在腾讯云找到匹配，重置为本地草稿: ${localArticle.title}`);
           const oldStatus = localArticle.status;
-          localArticle.tencentArticleId = undefined;
-          localArticle.tencentDraftId = undefined;
-          localArticle.tencentArticleUrl = undefined;
           localArticle.status = ArticleStatus.DRAFT;
           localArticle.errorMessage = undefined;
-          localArticle.lastSyncedAt = new Date();
           await this.articleRepo.save(localArticle);
+          await articlePublicationService.reset(localArticle.id, PLATFORM);
           if (oldStatus !== ArticleStatus.DRAFT) {
             statusChangedCount++;
           }
@@ -797,21 +856,22 @@ export class ArticleSyncService {
       newStatus = ArticleStatus.PENDING;
     }
 
-    // 使用 update 只更新腾讯云相关字段，避免覆盖其他平台字段
+    // 使用 update 只更新状态字段，避免覆盖文章内容
     await this.articleRepo.update(localArticle.id, {
       status: newStatus,
       errorMessage: errorMessage,
-      tencentArticleId: tencentArticle.articleId.toString(),
-      tencentArticleUrl: `https://cloud.tencent.com/developer/article/${tencentArticle.articleId}`,
+    });
+    await articlePublicationService.upsert(localArticle.id, PLATFORM, {
+      remoteId: tencentArticle.articleId.toString(),
+      url: `https://cloud.tencent.com/developer/article/${tencentArticle.articleId}`,
+      status: newStatus,
+      errorMessage: errorMessage ?? null,
       lastSyncedAt: new Date(),
     });
     
     // 同步更新内存中的对象（供后续逻辑使用）
     localArticle.status = newStatus;
     localArticle.errorMessage = errorMessage;
-    localArticle.tencentArticleId = tencentArticle.articleId.toString();
-    localArticle.tencentArticleUrl = `https://cloud.tencent.com/developer/article/${tencentArticle.articleId}`;
-    localArticle.lastSyncedAt = new Date();
     
     // 返回状态是否发生了变化
     const statusChanged = oldStatus !== newStatus;
@@ -825,7 +885,7 @@ export class ArticleSyncService {
    * 获取审核失败的文章列表（包含失败原因）
    */
   async fetchRejectedArticles(
-    userId?: number
+    userId: number
   ): Promise<CreatorArticleInfo[]> {
     const client = await this.getApiClient(userId);
     const result = await client.fetchCreatorArticles({
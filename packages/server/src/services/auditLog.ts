@@ -0,0 +1,134 @@
+/**
+ * 操作记录服务
+ * 记录成员对文章、文件夹、平台账号等数据的修改，用于协作时追溯谁改了什么
+ */
+
+import { MoreThan } from "typeorm";
+import { AppDataSource } from "../db";
+import { AuditLog, type AuditEntityType } from "../entities/AuditLog";
+import type { Article } from "../entities/Article";
+
+/**
+ * 操作人（即 tRPC 上下文中的 admin）
+ */
+export interface AuditActor {
+  userId: number;
+  adminId?: number;
+  username: string;
+}
+
+export interface AuditRecord {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: number | null;
+  entityName?: string | null;
+  // 被修改数据的所有者，默认为操作人自己
+  ownerUserId?: number;
+  detail?: Record<string, unknown>;
+  // 同一操作人在该时间内对同一对象的相同操作只记录一次（如自动保存）
+  mergeWithinMs?: number;
+}
+
+export interface AuditLogQuery {
+  // 为空时查询所有记录（超级管理员）
+  viewerUserId?: number;
+  entityType?: AuditEntityType;
+  entityId?: number;
+  page: number;
+  pageSize: number;
+}
+
+class AuditLogService {
+  private get repo() {
+    return AppDataSource.getRepository(AuditLog);
+  }
+
+  /**
+   * 写入操作记录
+   * 记录失败不影响业务操作
+   */
+  async record(actor: AuditActor, record: AuditRecord): Promise<void> {
+    try {
+      if (record.mergeWithinMs && record.entityId) {
+        const recent = await this.repo.findOne({
+          where: {
+            userId: actor.userId,
+            action: record.action,
+            entityType: record.entityType,
+            entityId: record.entityId,
+            createdAt: MoreThan(new Date(Date.now() - record.mergeWithinMs)),
+          },
+        });
+        if (recent) {
+          return;
+        }
+      }
+
+      await this.repo.save(
+        this.repo.create({
+          userId: actor.userId,
+          adminId: actor.adminId ?? null,
+          username: actor.username,
+          ownerUserId: record.ownerUserId ?? actor.userId,
+          action: record.action,
+          entityType: record.entityType,
+          entityId: record.entityId ?? null,
+          entityName: record.entityName ?? null,
+          detail: record.detail ?? null,
+        })
+      );
+    } catch (error) {
+      console.error("[AuditLog] 写入操作记录失败:", error);
+    }
+  }
+
+  /**
+   * 写入文章相关的操作记录
+   */
+  async recordArticle(
+    actor: AuditActor,
+    action: string,
+    article: Pick<Article, "id" | "title" | "userId">,
+    options: Pick<AuditRecord, "detail" | "mergeWithinMs"> = {}
+  ): Promise<void> {
+    await this.record(actor, {
+      action,
+      entityType: "article",
+      entityId: article.id,
+      entityName: article.title,
+      ownerUserId: article.userId,
+      ...options,
+    });
+  }
+
+  /**
+   * 查询操作记录，按时间倒序
+   * 指定 viewerUserId 时只返回该用户自己的操作和发生在其数据上的操作；
+   * 查询单个对象的记录时由调用方先校验访问权限，返回该对象的全部记录
+   */
+  async list(query: AuditLogQuery): Promise<{ items: AuditLog[]; total: number }> {
+    const qb = this.repo.createQueryBuilder("log");
+
+    if (query.entityType) {
+      qb.andWhere("log.entityType = :entityType", { entityType: query.entityType });
+    }
+    if (query.entityId !== undefined) {
+      qb.andWhere("log.entityId = :entityId", { entityId: query.entityId });
+    } else if (query.viewerUserId !== undefined) {
+      qb.andWhere("(log.userId = :viewer OR log.ownerUserId = :viewer)", {
+        viewer: query.viewerUserId,
+      });
+    }
+
+    const [items, total] = await qb
+      .orderBy("log.createdAt", "DESC")
+      .addOrderBy("log.id", "DESC")
+      .skip((query.page - 1) * query.pageSize)
+      .take(query.pageSize)
+      .getManyAndCount();
+
+    return { items, total };
+  }
+}
+
+export const auditLogService = new AuditLogService();
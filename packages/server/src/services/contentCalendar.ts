@@ -0,0 +1,97 @@
+/**
+ * 内容日历服务
+ * 汇总定时发布任务和各平台的已发布文章，按时间展示在日历上
+ */
+
+import { Between, In } from "typeorm";
+import { AppDataSource } from "../db";
+import { ArticlePublication } from "../entities/ArticlePublication";
+import { ScheduledTask, TaskStatus } from "../entities/ScheduledTask";
+
+/**
+ * 日历事件
+ * - task: 尚未成功执行的定时任务（待执行、执行中、失败），时间为计划时间
+ * - published: 已发布到平台的文章，时间为发布时间
+ */
+export interface CalendarEvent {
+  key: string;
+  kind: "task" | "published";
+  taskId?: number;
+  articleId: number;
+  title: string;
+  platform: string;
+  status: string;
+  time: Date;
+  url?: string;
+  errorMessage?: string;
+}
+
+// 日历上展示的任务状态；成功的任务以平台发布记录的形式展示
+const CALENDAR_TASK_STATUSES = [TaskStatus.PENDING, TaskStatus.RUNNING, TaskStatus.FAILED];
+
+// 视为已发布的平台文章状态（审核中的文章也已提交发布）
+const PUBLISHED_STATUSES = ["published", "pending"];
+
+class ContentCalendarService {
+  /**
+   * 获取时间范围内的日历事件，按时间排序
+   */
+  async getEvents(userId: number, from: Date, to: Date): Promise<CalendarEvent[]> {
+    const taskRepo = AppDataSource.getRepository(ScheduledTask);
+    const publicationRepo = AppDataSource.getRepository(ArticlePublication);
+
+    const tasks = await taskRepo.find({
+      where: {
+        userId,
+        status: In(CALENDAR_TASK_STATUSES),
+        scheduledAt: Between(from, to),
+      },
+      relations: ["article"],
+    });
+
+    const events: CalendarEvent[] = tasks.map((task) => ({
+      key: `task-${task.id}`,
+      kind: "task",
+      taskId: task.id,
+      articleId: task.articleId,
+      title: task.article?.title || `文章 #${task.articleId}`,
+      platform: task.platform,
+      status: task.status,
+      time: task.scheduledAt,
+      errorMessage: task.errorMessage,
+    }));
+
+    // 发布记录没有单独的发布时间，使用文章的发布时间，缺失时退回到最后同步时间
+    const publications = await publicationRepo.find({
+      where: { status: In(PUBLISHED_STATUSES) },
+      relations: ["article"],
+    });
+    for (const publication of publications) {
+      if (!publication.article || publication.article.userId !== userId) {
+        continue;
+      }
+
+      const time =
+        publication.article.publishedAt || publication.lastSyncedAt || publication.updatedAt;
+      if (time < from || time > to) {
+        continue;
+      }
+
+      events.push({
+        key: `publication-${publication.id}`,
+        kind: "published",
+        articleId: publication.articleId,
+        title: publication.article.title,
+        platform: publication.platform,
+        status: publication.status!,
+        time,
+        url: publication.url ?? undefined,
+      });
+    }
+
+    return events.sort((a, b) => a.time.getTime() - b.time.getTime());
+  }
+}
+
+// 导出单例
+export const contentCalendarService = new ContentCalendarService();
@@ -535,6 +535,20 @@ export class CsdnApiClient {
     });
   }
 
+  /**
+   * 获取文章详情（编辑器接口，包含 Markdown 正文）
+   */
+  async getArticle(articleId: string): Promise<{
+    article_id: string;
+    title: string;
+    markdowncontent: string;
+    description: string;
+    tags: string; // 逗号分隔
+    status: number;
+  }> {
+    return this.request("GET", `/blog-console-api/v3/editor/getArticle?id=${articleId}&model_type=`);
+  }
+
   /**
    * 保存文章（草稿或发布）
    */
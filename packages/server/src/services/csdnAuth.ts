@@ -16,10 +16,11 @@ export interface CsdnLoginResult {
  * 从客户端设置 CSDN cookies（Electron 客户端调用）
  */
 export async function setCsdnCookiesFromClient(
+  userId: number,
   cookiesJson: string,
   nickname?: string,
   avatarUrl?: string,
-  userId?: string
+  csdnUserId?: string
 ): Promise<CsdnLoginResult> {
   try {
     const userRepo = AppDataSource.getRepository(User);
@@ -27,7 +28,7 @@ export async function setCsdnCookiesFromClient(
     // 尝试从 cookies 中提取用户信息
     let finalNickname = nickname;
     let finalAvatarUrl = avatarUrl;
-    let finalUserId = userId;
+    let finalUserId = csdnUserId;
 
     if (!finalNickname || !finalUserId) {
       try {
@@ -69,8 +70,8 @@ export async function setCsdnCookiesFromClient(
       }
     }
 
-    // 查找或创建用户（使用同一个用户记录，id=1）
-    let user = await userRepo.findOne({ where: { id: 1 } });
+    // 平台账号保存在当前工作区用户上
+    let user = await userRepo.findOne({ where: { id: userId } });
     if (!user) {
       user = userRepo.create({
         csdnCookies: cookiesJson,
@@ -113,7 +114,7 @@ export async function setCsdnCookiesFromClient(
 /**
  * 使用保存的 cookies 验证登录状态（自动登录）
  */
-export async function csdnAutoLogin(userId: number = 1): Promise<CsdnLoginResult> {
+export async function csdnAutoLogin(userId: number): Promise<CsdnLoginResult> {
   const userRepo = AppDataSource.getRepository(User);
   const user = await userRepo.findOne({ where: { id: userId } });
 
@@ -152,7 +153,7 @@ export async function csdnAutoLogin(userId: number = 1): Promise<CsdnLoginResult
 /**
  * 获取当前 CSDN 登录状态
  */
-export async function getCsdnLoginStatus(userId: number = 1): Promise<{
+export async function getCsdnLoginStatus(userId: number): Promise<{
   isLoggedIn: boolean;
   user?: {
     id: number;
@@ -184,7 +185,7 @@ export async function getCsdnLoginStatus(userId: number = 1): Promise<{
 /**
  * CSDN 登出
  */
-export async function csdnLogout(userId: number = 1): Promise<void> {
+export async function csdnLogout(userId: number): Promise<void> {
   const userRepo = AppDataSource.getRepository(User);
   const user = await userRepo.findOne({ where: { id: userId } });
 
@@ -198,7 +199,7 @@ export async function csdnLogout(userId: number = 1): Promise<void> {
 /**
  * 获取 CSDN Cookies JSON
  */
-export async function getCsdnCookies(userId: number = 1): Promise<string | null> {
+export async function getCsdnCookies(userId: number): Promise<string | null> {
   const userRepo = AppDataSource.getRepository(User);
   const user = await userRepo.findOne({ where: { id: userId } });
 
@@ -0,0 +1,432 @@
+/**
+ * CSDN 文章同步服务
+ * 负责文章的草稿同步、发布和状态同步
+ */
+
+import * as path from "path";
+import { AppDataSource } from "../db";
+import { Article } from "../entities/Article";
+import type { ArticlePublication } from "../entities/ArticlePublication";
+import { articlePublicationService } from "./articlePublication";
+import { syncConflictDetector } from "./syncConflictDetector";
+import { PlatformNotLoggedInError } from "./articleSync";
+import { getCsdnCookies } from "./csdnAuth";
+import { createCsdnApiClient, type CsdnApiClient, type CsdnTagInfo } from "./csdnApi";
+import { processArticleImages, hasImagesToUpload } from "./imageUpload";
+import { transformMarkdownForPlatform } from "./markdownTransformer";
+import { getDataDir } from "./dataDir";
+
+// 获取上传目录
+const UPLOAD_DIR = path.join(getDataDir(), "uploads");
+
+// 发布时遇到临时安全检查的最大重试次数
+const MAX_PUBLISH_RETRIES = 3;
+
+// 发布记录中的平台标识
+const PLATFORM = "csdn";
+
+export interface CsdnSyncResult {
+  success: boolean;
+  message: string;
+  articleId?: string;
+  articleUrl?: string;
+}
+
+/**
+ * CSDN 文章配置
+ */
+export interface CsdnArticleConfig {
+  tags?: string[];
+  description?: string;
+  coverImage?: string;
+  type?: "original" | "repost" | "translated";
+  readType?: "public" | "private" | "fans" | "vip";
+}
+
+/**
+ * 从发布记录中读取 CSDN 文章ID和发布参数
+ */
+function readPublication(publication: ArticlePublication | null) {
+  const config = (publication?.config || {}) as CsdnArticleConfig;
+  return {
+    articleId: publication?.remoteId || undefined,
+    tags: config.tags || [],
+    description: config.description || "",
+    coverImages: config.coverImage ? [config.coverImage] : undefined,
+    type: config.type || "original",
+    readType: config.readType || "public",
+  };
+}
+
+/**
+ * 判断是否是 CSDN 的微信扫码验证错误
+ */
+export function isWechatVerifyError(message: string): boolean {
+  return message.includes("微信扫码") || message.includes("请使用已绑定的微信");
+}
+
+class CsdnSyncService {
+  /**
+   * 获取 CSDN API 客户端
+   */
+  async getApiClient(userId: number): Promise<CsdnApiClient> {
+    const cookies = await getCsdnCookies(userId);
+    if (!cookies) {
+      throw new PlatformNotLoggedInError("csdn", "请先登录 CSDN 账号");
+    }
+    return createCsdnApiClient(cookies);
+  }
+
+  /**
+   * 检查登录状态（只检查本地数据库中的状态）
+   */
+  async checkLoginStatus(userId: number): Promise<boolean> {
+    return !!(await getCsdnCookies(userId));
+  }
+
+  /**
+   * 搜索标签
+   */
+  async searchTags(keyword: string, userId: number): Promise<CsdnTagInfo[]> {
+    const client = await this.getApiClient(userId);
+    return client.searchTags(keyword);
+  }
+
+  /**
+   * 设置文章的 CSDN 配置（标签、摘要、类型等）
+   */
+  async setArticleConfig(articleId: number, config: CsdnArticleConfig): Promise<{ success: boolean }> {
+    const articleRepo = AppDataSource.getRepository(Article);
+    const article = await articleRepo.findOne({ where: { id: articleId } });
+
+    if (!article) {
+      throw new Error("文章不存在");
+    }
+
+    await articlePublicationService.updateConfig<CsdnArticleConfig>(articleId, PLATFORM, config);
+    return { success: true };
+  }
+
+  /**
+   * 转换文章内容并上传图片
+   * 有图片上传失败时抛出错误，避免发布包含无效图片的文章
+   */
+  private async prepareContent(content: string, client: CsdnApiClient): Promise<string> {
+    const { content: transformedContent, report } = transformMarkdownForPlatform(
+      content,
+      { platform: "csdn" }
+    );
+
+    if (report.processed > 0) {
+      console.log(`[CsdnSync] 转换了 ${report.processed} 个扩展语法节点:`, report.details);
+    }
+
+    if (!hasImagesToUpload(transformedContent, "csdn")) {
+      return transformedContent;
+    }
+
+    console.log("[CsdnSync] 检测到需要上传的图片，开始处理...");
+    const { content: processedContent, results } = await processArticleImages(
+      transformedContent,
+      client,
+      UPLOAD_DIR,
+      "csdn"
+    );
+
+    const successCount = results.filter((r) => r.success).length;
+    console.log(`[CsdnSync] 图片上传完成: ${successCount}/${results.length} 成功`);
+
+    const failedImages = results.filter((r) => !r.success);
+    if (failedImages.length > 0) {
+      console.error("[CsdnSync] 图片上传失败:", failedImages.map((r) => r.error));
+      throw new Error(
+        `图片上传失败 (${failedImages.length}/${results.length})，请检查网络连接或重新登录 CSDN 后重试`
+      );
+    }
+
+    return processedContent;
+  }
+
+  /**
+   * 同步文章到 CSDN 草稿箱
+   */
+  async syncToDraft(articleId: number, userId: number): Promise<CsdnSyncResult> {
+    const articleRepo = AppDataSource.getRepository(Article);
+    const article = await articleRepo.findOne({ where: { id: articleId } });
+
+    if (!article) {
+      return { success: false, message: "文章不存在" };
+    }
+
+    const client = await this.getApiClient(userId);
+    const csdn = readPublication(await articlePublicationService.get(articleId, PLATFORM));
+
+    try {
+      const contentToSync = await this.prepareContent(article.content, client);
+
+      const result = await client.saveDraft({
+        ...csdn,
+        title: article.title,
+        markdownContent: contentToSync,
+        htmlContent: client.markdownToHtml(contentToSync),
+      });
+
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        remoteId: String(result.id),
+        status: "draft",
+        lastSyncedAt: new Date(),
+        remoteContentHash: null, // 推送了新内容，下次检查时重新记录平台内容
+        pushedVersionId: await syncConflictDetector.snapshotPushedContent(article, contentToSync, PLATFORM),
+      });
+
+      return {
+        success: true,
+        message: "草稿同步成功",
+        articleId: String(result.id),
+      };
+    } catch (error) {
+      console.error("[CsdnSync] 同步草稿失败:", error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "同步失败",
+      };
+    }
+  }
+
+  /**
+   * 使用文章已保存的 CSDN 配置发布文章
+   */
+  async publishArticle(articleId: number, userId: number): Promise<CsdnSyncResult> {
+    const articleRepo = AppDataSource.getRepository(Article);
+    const article = await articleRepo.findOne({ where: { id: articleId } });
+
+    if (!article) {
+      return { success: false, message: "文章不存在" };
+    }
+
+    // 验证必填字段
+    if (!article.title || article.title.length < 5) {
+      return { success: false, message: "文章标题至少需要5个字符" };
+    }
+    if (article.title.length > 100) {
+      return { success: false, message: "文章标题不能超过100个字符" };
+    }
+    if (!article.content || article.content.length < 50) {
+      return { success: false, message: "文章内容至少需要50个字符" };
+    }
+
+    const client = await this.getApiClient(userId);
+    const csdn = readPublication(await articlePublicationService.get(articleId, PLATFORM));
+
+    try {
+      console.log("[CsdnSync] 开始发布文章:", {
+        articleId: article.id,
+        title: article.title,
+        tags: csdn.tags,
+        existingCsdnId: csdn.articleId || "无",
+      });
+
+      const contentToPublish = await this.prepareContent(article.content, client);
+      const htmlContent = client.markdownToHtml(contentToPublish);
+
+      // 发布文章（带重试机制，处理 CSDN 临时性安全检查）
+      let lastError: Error | null = null;
+      let result: { id: number; url: string } | null = null;
+
+      for (let attempt = 1; attempt <= MAX_PUBLISH_RETRIES; attempt++) {
+        try {
+          result = await client.publishArticle({
+            ...csdn,
+            title: article.title,
+            markdownContent: contentToPublish,
+            htmlContent,
+          });
+          break;
+        } catch (err) {
+          lastError = err instanceof Error ? err : new Error(String(err));
+          if (isWechatVerifyError(lastError.message) && attempt < MAX_PUBLISH_RETRIES) {
+            console.log(`[CsdnSync] 遇到临时安全检查，等待后重试 (${attempt}/${MAX_PUBLISH_RETRIES})...`);
+            await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+          } else {
+            throw lastError;
+          }
+        }
+      }
+
+      if (!result) {
+        throw lastError || new Error("发布失败");
+      }
+
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        remoteId: String(result.id),
+        url: result.url,
+        status: "published",
+        errorMessage: null,
+        lastSyncedAt: new Date(),
+        remoteContentHash: null,
+        pushedVersionId: await syncConflictDetector.snapshotPushedContent(article, contentToPublish, PLATFORM),
+      });
+
+      console.log("[CsdnSync] 发布成功:", { articleId: result.id, url: result.url });
+
+      return {
+        success: true,
+        message: "发布成功",
+        articleId: String(result.id),
+        articleUrl: result.url,
+      };
+    } catch (error) {
+      console.error("[CsdnSync] 发布失败，详细信息:", {
+        articleId: article.id,
+        title: article.title,
+        tags: csdn.tags,
+        contentLength: article.content?.length,
+        error: error instanceof Error ? {
+          name: error.name,
+          message: error.message,
+          stack: error.stack,
+        } : error,
+      });
+
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        errorMessage: error instanceof Error ? error.message : "发布失败",
+      });
+
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "发布失败",
+      };
+    }
+  }
+
+  /**
+   * 同步本地文章与 CSDN 文章状态
+   */
+  async syncArticleStatus(userId: number) {
+    const client = await this.getApiClient(userId);
+    const articleRepo = AppDataSource.getRepository(Article);
+
+    // 获取 CSDN 上的所有文章（分页获取）
+    const allCsdnArticles: Array<{
+      articleId: string;
+      title: string;
+      status: string;
+      postTime: string;
+    }> = [];
+
+    let page = 1;
+    const pageSize = 50;
+    while (true) {
+      const articles = await client.fetchUserArticles({
+        status: "all_v3",
+        page,
+        pageSize,
+      });
+      if (articles.length === 0) break;
+      allCsdnArticles.push(...articles);
+      if (articles.length < pageSize) break;
+      page++;
+      // 防止无限循环
+      if (page > 20) break;
+    }
+
+    // 获取本地所有文章
+    const localArticles = await articleRepo.find({
+      where: { userId },
+      order: { createdAt: "DESC" },
+    });
+    const publications = await articlePublicationService.mapByPlatform(
+      PLATFORM,
+      localArticles.map((a) => a.id)
+    );
+
+    let syncedCount = 0;
+    let matchedCount = 0;
+    const updates: Array<{ id: number; status: string; articleId: string; matchType?: string }> = [];
+
+    // 根据 CSDN 状态获取本地状态（"1"-已发布, "2"-草稿）
+    const getLocalStatus = (csdnStatus: string): string => {
+      return csdnStatus === "1" ? "published" : "draft";
+    };
+
+    for (const local of localArticles) {
+      let csdnArticle: typeof allCsdnArticles[0] | undefined;
+      let matchType: "id" | "title" | undefined;
+      const publication = publications.get(local.id);
+
+      // 优先通过 CSDN 文章ID匹配
+      if (publication?.remoteId) {
+        csdnArticle = allCsdnArticles.find((a) => a.articleId === publication.remoteId);
+        if (csdnArticle) {
+          matchType = "id";
+        }
+      }
+
+      // 如果没有通过 ID 匹配，尝试通过标题匹配
+      if (!csdnArticle) {
+        csdnArticle = allCsdnArticles.find((a) => a.title.trim() === local.title.trim());
+        if (csdnArticle) {
+          matchType = "title";
+          console.log(`[CsdnSync] 通过标题匹配到文章: "${local.title}" -> ${csdnArticle.articleId}`);
+        }
+      }
+
+      if (csdnArticle) {
+        matchedCount++;
+        const newStatus = getLocalStatus(csdnArticle.status);
+        const oldStatus = publication?.status;
+
+        const needsIdUpdate = publication?.remoteId !== csdnArticle.articleId;
+        const needsStatusUpdate = oldStatus !== newStatus;
+
+        if (needsIdUpdate || needsStatusUpdate) {
+          await articlePublicationService.upsert(local.id, PLATFORM, {
+            remoteId: csdnArticle.articleId,
+            status: newStatus,
+            url: `https://blog.csdn.net/${client["cookies"].UserName}/article/details/${csdnArticle.articleId}`,
+            lastSyncedAt: new Date(),
+          });
+          syncedCount++;
+          updates.push({
+            id: local.id,
+            status: newStatus,
+            articleId: csdnArticle.articleId,
+            matchType,
+          });
+
+          console.log(`[CsdnSync] 更新文章状态: ${local.id} (${local.title}), ${oldStatus} -> ${newStatus}, 匹配方式: ${matchType}`);
+        }
+      } else if (publication?.status || publication?.remoteId) {
+        // 没有在 CSDN 上找到匹配的文章，重置 CSDN 相关状态
+        const oldStatus = publication.status;
+        const oldArticleId = publication.remoteId;
+
+        await articlePublicationService.reset(local.id, PLATFORM);
+        syncedCount++;
+        updates.push({
+          id: local.id,
+          status: "reset",
+          articleId: oldArticleId || "",
+          matchType: undefined,
+        });
+
+        console.log(`[CsdnSync] 重置文章状态: ${local.id} (${local.title}), ${oldStatus} -> 未发布 (CSDN上未找到匹配文章)`);
+      }
+    }
+
+    console.log(`[CsdnSync] 同步完成: 匹配 ${matchedCount} 篇, 更新 ${syncedCount} 篇`);
+
+    return {
+      success: true,
+      message: `同步完成: ${matchedCount}/${localArticles.length} 篇文章匹配成功，${syncedCount} 篇状态有更新`,
+      matchedCount,
+      syncedCount,
+      totalLocal: localArticles.length,
+      totalCsdn: allCsdnArticles.length,
+      updates,
+    };
+  }
+}
+
+// 导出单例
+export const csdnSyncService = new CsdnSyncService();
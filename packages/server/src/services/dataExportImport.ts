@@ -6,6 +6,8 @@
 import { AppDataSource } from "../db";
 import { User } from "../entities/User";
 import { Article, ArticleStatus } from "../entities/Article";
+import { ArticlePublication } from "../entities/ArticlePublication";
+import { ArticleComment } from "../entities/ArticleComment";
 import { Folder } from "../entities/Folder";
 import { AdminUser, AdminRole } from "../entities/AdminUser";
 import { AIProvider, AIModel } from "../entities/AIProvider";
@@ -18,6 +20,8 @@ import type {
   ExportedUser,
   ExportedFolder,
   ExportedArticle,
+  ExportedPublication,
+  ExportedComment,
   ExportedAdminUser,
   ExportedAIProvider,
   ExportedAIModel,
@@ -32,9 +36,13 @@ import * as fs from "fs";
 import * as path from "path";
 import JSZip from "jszip";
 import { getUploadDir } from "./dataDir";
+import { articlePublicationService } from "./articlePublication";
+import { articleCommentService } from "./articleComments";
+import { linkAdminWorkspaces } from "./adminAuth";
 
 // 当前数据格式版本
-const DATA_FORMAT_VERSION = "1.0.0";
+// 1.1.0: 文章平台字段改为 publications 发布记录列表
+const DATA_FORMAT_VERSION = "1.1.0";
 const APP_VERSION = "1.0.0"; // TODO: 从 package.json 读取
 
 function encrypt(text: string, password: string): string {
@@ -70,8 +78,116 @@ function stringToDate(str?: string | null): Date | undefined {
 }
 
 /**
- * 导出数据服务
+ * 导出文章评论
  */
+function toExportedComment(comment: ArticleComment): ExportedComment {
+  return {
+    id: comment.id,
+    parentId: comment.parentId ?? undefined,
+    userId: comment.userId,
+    username: comment.username,
+    body: comment.body,
+    quote: comment.quote ?? undefined,
+    anchorStart: comment.anchorStart ?? undefined,
+    anchorEnd: comment.anchorEnd ?? undefined,
+    detached: comment.detached,
+    resolved: comment.resolved,
+    resolvedBy: comment.resolvedBy ?? undefined,
+    resolvedAt: dateToString(comment.resolvedAt),
+    createdAt: comment.createdAt.toISOString(),
+  };
+}
+
+/**
+ * 导入文章评论，替换文章已有的评论
+ * 讨论串先于回复导出，按顺序导入即可映射回复的 parentId
+ */
+async function importComments(
+  articleId: number,
+  comments: ExportedComment[],
+  userIdMap: Map<number, number>
+): Promise<void> {
+  const commentRepo = AppDataSource.getRepository(ArticleComment);
+  await commentRepo.delete({ articleId });
+
+  const commentIdMap = new Map<number, number>();
+  for (const commentData of comments) {
+    const parentId = commentData.parentId ? commentIdMap.get(commentData.parentId) : undefined;
+    if (commentData.parentId && !parentId) {
+      continue;
+    }
+    const saved = await commentRepo.save(
+      commentRepo.create({
+        articleId,
+        parentId: parentId ?? null,
+        userId: userIdMap.get(commentData.userId) || commentData.userId,
+        username: commentData.username,
+        body: commentData.body,
+        quote: commentData.quote ?? null,
+        anchorStart: commentData.anchorStart ?? null,
+        anchorEnd: commentData.anchorEnd ?? null,
+        detached: commentData.detached,
+        resolved: commentData.resolved,
+        resolvedBy: commentData.resolvedBy ?? null,
+        resolvedAt: stringToDate(commentData.resolvedAt) ?? null,
+        createdAt: new Date(commentData.createdAt),
+      })
+    );
+    commentIdMap.set(commentData.id, saved.id);
+  }
+}
+
+/**
+ * 将旧版（1.0.0）导出格式中的平台字段转换为发布记录
+ */
+function legacyPublications(articleData: ExportedArticle): ExportedPublication[] {
+  const publications: ExportedPublication[] = [];
+
+  if (
+    articleData.tencentDraftId ||
+    articleData.tencentArticleId ||
+    articleData.tencentTagIds?.length
+  ) {
+    publications.push({
+      platform: "tencent",
+      remoteId: articleData.tencentArticleId,
+      draftId: articleData.tencentDraftId?.toString(),
+      url: articleData.tencentArticleUrl,
+      status: articleData.tencentArticleId ? articleData.status : undefined,
+      config: {
+        tagIds: articleData.tencentTagIds || [],
+        sourceType: articleData.sourceType || 1,
+      },
+      lastSyncedAt: articleData.lastSyncedAt,
+    });
+  }
+
+  if (
+    articleData.juejinDraftId ||
+    articleData.juejinArticleId ||
+    articleData.juejinStatus ||
+    articleData.juejinCategoryId
+  ) {
+    publications.push({
+      platform: "juejin",
+      remoteId: articleData.juejinArticleId,
+      draftId: articleData.juejinDraftId,
+      url: articleData.juejinArticleUrl,
+      status: articleData.juejinStatus,
+      config: {
+        categoryId: articleData.juejinCategoryId,
+        tagIds: articleData.juejinTagIds,
+        tagNames: articleData.juejinTagNames,
+        briefContent: articleData.juejinBriefContent,
+        isOriginal: articleData.juejinIsOriginal ?? 1,
+      },
+      lastSyncedAt: articleData.juejinLastSyncedAt,
+    });
+  }
+
+  return publications;
+}
+
 export async function exportData(options: ExportOptions): Promise<ExportData> {
   const metadata: ExportMetadata = {
     version: DATA_FORMAT_VERSION,
@@ -79,6 +195,7 @@ export async function exportData(options: ExportOptions): Promise<ExportData> {
     exportedAt: new Date().toISOString(),
     encrypted: !!options.encryptionPassword,
     includeSensitiveData: options.includeSensitiveData,
+    includeComments: !!options.includeComments,
   };
 
   const result: ExportData = {
@@ -139,6 +256,7 @@ export async function exportData(options: ExportOptions): Promise<ExportData> {
     result.folders = folders.map((folder) => ({
       id: folder.id,
       name: folder.name,
+      userId: folder.userId,
       parentId: folder.parentId,
       order: folder.order,
       isExpanded: folder.isExpanded,
@@ -151,6 +269,12 @@ export async function exportData(options: ExportOptions): Promise<ExportData> {
   if (options.includeArticles) {
     const articleRepo = AppDataSource.getRepository(Article);
     const articles = await articleRepo.find();
+    const publicationRepo = AppDataSource.getRepository(ArticlePublication);
+    const publications = await publicationRepo.find({ order: { id: "ASC" } });
+    // 评论不属于正文，只在明确选择时导出
+    const comments = options.includeComments
+      ? await articleCommentService.listByArticles(articles.map((a) => a.id))
+      : [];
     result.articles = articles.map((article) => ({
       id: article.id,
       title: article.title,
@@ -160,23 +284,22 @@ export async function exportData(options: ExportOptions): Promise<ExportData> {
       status: article.status,
       scheduledAt: dateToString(article.scheduledAt),
       publishedAt: dateToString(article.publishedAt),
-      tencentDraftId: article.tencentDraftId,
-      tencentArticleId: article.tencentArticleId,
-      tencentArticleUrl: article.tencentArticleUrl,
-      tencentTagIds: article.tencentTagIds,
-      sourceType: article.sourceType,
-      lastSyncedAt: dateToString(article.lastSyncedAt),
       errorMessage: article.errorMessage,
-      juejinDraftId: article.juejinDraftId,
-      juejinArticleId: article.juejinArticleId,
-      juejinArticleUrl: article.juejinArticleUrl,
-      juejinCategoryId: article.juejinCategoryId,
-      juejinTagIds: article.juejinTagIds,
-      juejinTagNames: article.juejinTagNames,
-      juejinBriefContent: article.juejinBriefContent,
-      juejinIsOriginal: article.juejinIsOriginal,
-      juejinStatus: article.juejinStatus,
-      juejinLastSyncedAt: dateToString(article.juejinLastSyncedAt),
+      publications: publications
+        .filter((p) => p.articleId === article.id)
+        .map((p) => ({
+          platform: p.platform,
+          remoteId: p.remoteId ?? undefined,
+          draftId: p.draftId ?? undefined,
+          url: p.url ?? undefined,
+          status: p.status ?? undefined,
+          config: p.config,
+          errorMessage: p.errorMessage ?? undefined,
+          lastSyncedAt: dateToString(p.lastSyncedAt),
+        })),
+      comments: options.includeComments
+        ? comments.filter((c) => c.articleId === article.id).map(toExportedComment)
+        : undefined,
       userId: article.userId,
       folderId: article.folderId,
       order: article.order,
@@ -194,6 +317,7 @@ export async function exportData(options: ExportOptions): Promise<ExportData> {
         id: admin.id,
         username: admin.username,
         role: admin.role as "super_admin" | "admin",
+        userId: admin.userId ?? undefined,
         lastLoginAt: dateToString(admin.lastLoginAt),
         createdAt: admin.createdAt.toISOString(),
         updatedAt: admin.updatedAt.toISOString(),
@@ -252,6 +376,7 @@ export async function exportData(options: ExportOptions): Promise<ExportData> {
       contextLength: model.contextLength,
       parameters: model.parameters,
       capabilities: model.capabilities,
+      pricing: model.pricing,
       createdAt: model.createdAt.toISOString(),
       updatedAt: model.updatedAt.toISOString(),
     }));
@@ -275,6 +400,7 @@ export async function exportData(options: ExportOptions): Promise<ExportData> {
         notifyOnSuccess: config.notifyOnSuccess,
         notifyOnFailed: config.notifyOnFailed,
         notifyOnCookieExpired: config.notifyOnCookieExpired,
+        notifyOnReview: config.notifyOnReview,
         enabled: config.enabled,
         createdAt: config.createdAt.toISOString(),
         updatedAt: config.updatedAt.toISOString(),
@@ -453,8 +579,12 @@ export async function importData(
         try {
           let folder: Folder | null = null;
 
-          // 检查是否存在同名文件夹
-          folder = await folderRepo.findOne({ where: { name: folderData.name } });
+          const ownerId = folderData.userId
+            ? userIdMap.get(folderData.userId) || folderData.userId
+            : 1;
+
+          // 检查该用户是否存在同名文件夹
+          folder = await folderRepo.findOne({ where: { name: folderData.name, userId: ownerId } });
 
           if (folder && !options.overwriteExisting) {
             folderIdMap.set(folderData.id, folder.id);
@@ -464,6 +594,7 @@ export async function importData(
 
           const newFolder = folder || new Folder();
           newFolder.name = folderData.name;
+          newFolder.userId = ownerId;
           // 映射父文件夹 ID
           if (folderData.parentId) {
             newFolder.parentId = folderIdMap.get(folderData.parentId) || folderData.parentId;
@@ -506,23 +637,7 @@ export async function importData(
           newArticle.status = articleData.status as ArticleStatus;
           newArticle.scheduledAt = stringToDate(articleData.scheduledAt);
           newArticle.publishedAt = stringToDate(articleData.publishedAt);
-          newArticle.tencentDraftId = articleData.tencentDraftId;
-          newArticle.tencentArticleId = articleData.tencentArticleId;
-          newArticle.tencentArticleUrl = articleData.tencentArticleUrl;
-          newArticle.tencentTagIds = articleData.tencentTagIds;
-          newArticle.sourceType = articleData.sourceType;
-          newArticle.lastSyncedAt = stringToDate(articleData.lastSyncedAt);
           newArticle.errorMessage = articleData.errorMessage;
-          newArticle.juejinDraftId = articleData.juejinDraftId;
-          newArticle.juejinArticleId = articleData.juejinArticleId;
-          newArticle.juejinArticleUrl = articleData.juejinArticleUrl;
-          newArticle.juejinCategoryId = articleData.juejinCategoryId;
-          newArticle.juejinTagIds = articleData.juejinTagIds;
-          newArticle.juejinTagNames = articleData.juejinTagNames;
-          newArticle.juejinBriefContent = articleData.juejinBriefContent;
-          newArticle.juejinIsOriginal = articleData.juejinIsOriginal;
-          newArticle.juejinStatus = articleData.juejinStatus;
-          newArticle.juejinLastSyncedAt = stringToDate(articleData.juejinLastSyncedAt);
           // 映射关联 ID
           newArticle.userId = userIdMap.get(articleData.userId) || articleData.userId;
           if (articleData.folderId) {
@@ -532,6 +647,30 @@ export async function importData(
 
           const savedArticle = await articleRepo.save(newArticle);
           articleIdMap.set(articleData.id, savedArticle.id);
+
+          // 导入各平台发布记录（兼容旧版导出格式的平台字段）
+          const publications = articleData.publications ?? legacyPublications(articleData);
+          for (const publicationData of publications) {
+            await articlePublicationService.upsert(savedArticle.id, publicationData.platform, {
+              remoteId: publicationData.remoteId ?? null,
+              draftId: publicationData.draftId ?? null,
+              url: publicationData.url ?? null,
+              status: publicationData.status ?? null,
+              errorMessage: publicationData.errorMessage ?? null,
+              lastSyncedAt: stringToDate(publicationData.lastSyncedAt) ?? null,
+            });
+            if (publicationData.config) {
+              await articlePublicationService.updateConfig(
+                savedArticle.id,
+                publicationData.platform,
+                publicationData.config
+              );
+            }
+          }
+
+          if (options.importComments && articleData.comments?.length) {
+            await importComments(savedArticle.id, articleData.comments, userIdMap);
+          }
           result.stats.articles.imported++;
         } catch (e) {
           result.stats.articles.failed++;
@@ -562,6 +701,9 @@ export async function importData(
             newAdmin.passwordHash = tryDecrypt(adminData.passwordHash) || adminData.passwordHash;
           }
           newAdmin.role = adminData.role as AdminRole;
+          if (adminData.userId && !newAdmin.userId) {
+            newAdmin.userId = userIdMap.get(adminData.userId) || null;
+          }
           newAdmin.lastLoginAt = stringToDate(adminData.lastLoginAt);
 
           await adminUserRepo.save(newAdmin);
@@ -571,6 +713,9 @@ export async function importData(
           result.errors.push(`导入管理员失败: ${e instanceof Error ? e.message : "未知错误"}`);
         }
       }
+
+      // 没有对应工作区用户的管理员创建新的工作区
+      await linkAdminWorkspaces();
     }
 
     // 导入 AI 配置
@@ -647,6 +792,7 @@ export async function importData(
             newModel.contextLength = modelData.contextLength;
             newModel.parameters = modelData.parameters;
             newModel.capabilities = modelData.capabilities;
+            newModel.pricing = modelData.pricing ?? null;
 
             await modelRepo.save(newModel);
             result.stats.aiModels.imported++;
@@ -689,6 +835,7 @@ export async function importData(
           newConfig.notifyOnSuccess = configData.notifyOnSuccess;
           newConfig.notifyOnFailed = configData.notifyOnFailed;
           newConfig.notifyOnCookieExpired = configData.notifyOnCookieExpired;
+          newConfig.notifyOnReview = configData.notifyOnReview ?? true;
           newConfig.enabled = configData.enabled;
 
           await emailConfigRepo.save(newConfig);
@@ -1161,6 +1308,7 @@ export async function previewZipData(
     emailConfigs: number;
     scheduledTasks: number;
     images: number;
+    comments: number;
   };
 }> {
   try {
@@ -1229,6 +1377,7 @@ export async function previewZipData(
         emailConfigs: data.emailConfigs.length,
         scheduledTasks: data.scheduledTasks.length,
         images: imageFiles.length,
+        comments: data.articles.reduce((sum, article) => sum + (article.comments?.length || 0), 0),
       },
     };
   } catch (e) {
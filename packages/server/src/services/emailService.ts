@@ -8,7 +8,8 @@ import type { Transporter } from "nodemailer";
 import { AppDataSource } from "../db";
 import { EmailConfig } from "../entities/EmailConfig";
 import { ScheduledTask, TaskStatus } from "../entities/ScheduledTask";
-import { Article } from "../entities/Article";
+import { PublishCampaign, CampaignStatus } from "../entities/PublishCampaign";
+import { Article, ReviewStatus } from "../entities/Article";
 
 /**
  * 邮件模板类型
@@ -17,8 +18,20 @@ export type EmailTemplateType =
   | "publish_success"
   | "publish_failed"
   | "cookie_expired"
+  | "campaign_result"
+  | "review_status"
   | "test";
 
+/**
+ * 多平台发布活动中单个平台的结果
+ */
+export interface CampaignPlatformResult {
+  platform: string;
+  success: boolean;
+  articleUrl?: string;
+  errorMessage?: string;
+}
+
 /**
  * 邮件模板参数
  */
@@ -29,8 +42,23 @@ export interface EmailTemplateParams {
   platform?: string;
   scheduledTime?: string;
   executedTime?: string;
+  campaignStatus?: CampaignStatus;
+  campaignResults?: CampaignPlatformResult[];
+  // 审核状态变化
+  reviewStatus?: ReviewStatus;
+  reviewActor?: string;
+  reviewer?: string;
+  reviewNote?: string;
 }
 
+// 审核状态邮件的标题和配色
+const REVIEW_STATUS_STYLES: Record<ReviewStatus, { text: string; color: string; bg: string; border: string }> = {
+  [ReviewStatus.NONE]: { text: "已撤回审核", color: "#8c8c8c", bg: "#fafafa", border: "#d9d9d9" },
+  [ReviewStatus.IN_REVIEW]: { text: "等待审核", color: "#1890ff", bg: "#e6f7ff", border: "#91d5ff" },
+  [ReviewStatus.CHANGES_REQUESTED]: { text: "需要修改", color: "#faad14", bg: "#fffbe6", border: "#ffe58f" },
+  [ReviewStatus.APPROVED]: { text: "审核通过", color: "#52c41a", bg: "#f6ffed", border: "#b7eb8f" },
+};
+
 /**
  * 邮件服务类
  */
@@ -157,6 +185,72 @@ export class EmailService {
           `,
         };
 
+      case "campaign_result": {
+        const results = params.campaignResults || [];
+        const successCount = results.filter((r) => r.success).length;
+        const titles: Partial<Record<CampaignStatus, { text: string; color: string; bg: string; border: string }>> = {
+          [CampaignStatus.SUCCESS]: { text: "全部成功", color: "#52c41a", bg: "#f6ffed", border: "#b7eb8f" },
+          [CampaignStatus.PARTIAL]: { text: "部分成功", color: "#faad14", bg: "#fffbe6", border: "#ffe58f" },
+          [CampaignStatus.FAILED]: { text: "全部失败", color: "#ff4d4f", bg: "#fff2f0", border: "#ffccc7" },
+        };
+        const title = (params.campaignStatus && titles[params.campaignStatus]) || titles[CampaignStatus.PARTIAL]!;
+        const rows = results
+          .map((r) => {
+            const detail = r.success
+              ? r.articleUrl
+                ? `<a href="${r.articleUrl}" style="color: #1890ff;">${r.articleUrl}</a>`
+                : "发布成功"
+              : `<span style="color: #ff4d4f;">${r.errorMessage || "未知错误"}</span>`;
+            return `<p style="margin: 0 0 8px 0;"><strong>${this.getPlatformName(r.platform)}：</strong>${r.success ? "✅" : "❌"} ${detail}</p>`;
+          })
+          .join("");
+
+        return {
+          subject: `[多平台发布${title.text}] ${params.articleTitle || "文章"}`,
+          html: `
+            <div style="font-family: 'Microsoft YaHei', Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: ${title.color}; border-bottom: 2px solid ${title.color}; padding-bottom: 10px;">
+                多平台发布${title.text}（${successCount}/${results.length}）
+              </h2>
+              <div style="background: ${title.bg}; border: 1px solid ${title.border}; border-radius: 4px; padding: 16px; margin: 16px 0;">
+                <p style="margin: 0 0 8px 0;"><strong>文章标题：</strong>${params.articleTitle || "未知"}</p>
+                <p style="margin: 0 0 8px 0;"><strong>计划时间：</strong>${params.scheduledTime || "立即发布"}</p>
+                <p style="margin: 0 0 16px 0;"><strong>完成时间：</strong>${params.executedTime || new Date().toLocaleString("zh-CN")}</p>
+                ${rows}
+              </div>
+              ${successCount < results.length ? `<p style="color: #666; font-size: 14px;">失败的平台可以在文章的多平台发布记录中单独重试。</p>` : ""}
+              <p style="color: #666; font-size: 12px; margin-top: 20px;">
+                此邮件由 PenBridge 多平台文章管理工具自动发送
+              </p>
+            </div>
+          `,
+        };
+      }
+
+      case "review_status": {
+        const style = REVIEW_STATUS_STYLES[params.reviewStatus || ReviewStatus.IN_REVIEW];
+        return {
+          subject: `[${style.text}] ${params.articleTitle || "文章"}`,
+          html: `
+            <div style="font-family: 'Microsoft YaHei', Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: ${style.color}; border-bottom: 2px solid ${style.color}; padding-bottom: 10px;">
+                文章${style.text}
+              </h2>
+              <div style="background: ${style.bg}; border: 1px solid ${style.border}; border-radius: 4px; padding: 16px; margin: 16px 0;">
+                <p style="margin: 0 0 8px 0;"><strong>文章标题：</strong>${params.articleTitle || "未知"}</p>
+                <p style="margin: 0 0 8px 0;"><strong>操作人：</strong>${params.reviewActor || "未知"}</p>
+                ${params.reviewer ? `<p style="margin: 0 0 8px 0;"><strong>审核人：</strong>${params.reviewer}</p>` : ""}
+                <p style="margin: 0;"><strong>时间：</strong>${new Date().toLocaleString("zh-CN")}</p>
+                ${params.reviewNote ? `<p style="margin: 8px 0 0 0;"><strong>说明：</strong>${params.reviewNote}</p>` : ""}
+              </div>
+              <p style="color: #666; font-size: 12px; margin-top: 20px;">
+                此邮件由 PenBridge 多平台文章管理工具自动发送
+              </p>
+            </div>
+          `,
+        };
+      }
+
       case "test":
         return {
           subject: "[测试邮件] 邮件配置测试",
@@ -225,6 +319,18 @@ export class EmailService {
       if (type === "cookie_expired" && !config!.notifyOnCookieExpired) {
         return { success: false, message: "未启用 Cookie 失效通知" };
       }
+      if (type === "review_status" && !config!.notifyOnReview) {
+        return { success: false, message: "未启用审核通知" };
+      }
+      if (type === "campaign_result") {
+        // 有成功的平台时按成功通知判断，有失败的平台时按失败通知判断
+        const results = params.campaignResults || [];
+        const wantSuccess = config!.notifyOnSuccess && results.some((r) => r.success);
+        const wantFailed = config!.notifyOnFailed && results.some((r) => !r.success);
+        if (!wantSuccess && !wantFailed) {
+          return { success: false, message: "未启用发布结果通知" };
+        }
+      }
 
       const transporter = this.createTransporter(config!);
       const { subject, html } = this.generateEmailContent(type, params);
@@ -292,6 +398,36 @@ export class EmailService {
     }
   }
 
+  /**
+   * 发送多平台发布活动的汇总通知
+   * 活动中的各平台任务不再单独发送通知，全部执行完毕后发送一封汇总邮件
+   */
+  async notifyCampaignResult(campaign: PublishCampaign, tasks: ScheduledTask[]): Promise<void> {
+    try {
+      const articleRepo = AppDataSource.getRepository(Article);
+      const article = await articleRepo.findOne({ where: { id: campaign.articleId } });
+
+      const campaignResults: CampaignPlatformResult[] = tasks
+        .filter((task) => task.status !== TaskStatus.CANCELLED)
+        .map((task) => ({
+          platform: task.platform,
+          success: task.status === TaskStatus.SUCCESS,
+          articleUrl: task.resultUrl,
+          errorMessage: task.errorMessage,
+        }));
+
+      await this.sendEmail(campaign.userId, "campaign_result", {
+        articleTitle: article?.title || "未知文章",
+        scheduledTime: campaign.scheduledAt.toLocaleString("zh-CN"),
+        executedTime: campaign.completedAt?.toLocaleString("zh-CN"),
+        campaignStatus: campaign.status,
+        campaignResults,
+      });
+    } catch (error) {
+      console.error("[EmailService] 发送发布活动通知失败:", error);
+    }
+  }
+
   /**
    * 发送 Cookie 即将过期预警
    */
@@ -315,6 +451,16 @@ export class EmailService {
     }
   }
 
+  /**
+   * 发送文章审核状态变化通知
+   * 每个收件人使用各自的邮件配置
+   */
+  async notifyReviewStatus(recipientUserIds: number[], params: EmailTemplateParams): Promise<void> {
+    for (const userId of new Set(recipientUserIds)) {
+      await this.sendEmail(userId, "review_status", params);
+    }
+  }
+
   /**
    * 验证 SMTP 配置是否正确
    */
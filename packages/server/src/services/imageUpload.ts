@@ -5,9 +5,7 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { TencentApiClient } from "./tencentApi";
-import { JuejinApiClient } from "./juejinApi";
-import { CsdnApiClient } from "./csdnApi";
+import { getPublisher } from "./publishers";
 
 /**
  * 图片上传客户端接口
@@ -24,9 +22,9 @@ export interface ImageUploadClient {
 }
 
 /**
- * 支持的平台类型
+ * 平台类型，对应已注册的发布平台适配器标识（如 tencent、juejin、csdn）
  */
-export type PlatformType = "tencent" | "juejin" | "csdn";
+export type PlatformType = string;
 
 // 调试日志开关
 const DEBUG = true;
@@ -92,34 +90,12 @@ const BASE64_IMAGE_PATTERN = /!\[([^\]]*)\]\((data:image\/([a-zA-Z]+);base64,([^
 // 支持带 title 的语法: ![alt](url "title") 或 ![alt](url 'title') 或 ![alt](url)
 const EXTERNAL_IMAGE_PATTERN = /!\[([^\]]*)\]\((https?:\/\/[^"\s)]+)(?:\s+["'][^"']*["'])?\)/g;
 
-/**
- * 各平台已托管的图片域名
- * 这些域名的图片不需要重新上传
- */
-const PLATFORM_IMAGE_DOMAINS: Record<PlatformType, string[]> = {
-  tencent: [
-    "developer.tce.qq.com",
-    "cos.ap-",
-    "myqcloud.com",
-  ],
-  juejin: [
-    "juejin.cn",
-    "byteimg.com",
-    "snssdk.com",
-    "bytedanceapi.com",
-  ],
-  csdn: [
-    "csdnimg.cn",
-    "csdn.net",
-    "obs.cn-north-4.myhuaweicloud.com",
-  ],
-};
-
 /**
  * 检查图片 URL 是否已经托管在目标平台
+ * 托管域名由各平台的发布适配器声明
  */
 function isImageHostedOnPlatform(url: string, platform: PlatformType): boolean {
-  const domains = PLATFORM_IMAGE_DOMAINS[platform];
+  const domains = getPublisher(platform)?.imageDomains || [];
   return domains.some(domain => url.includes(domain));
 }
 
@@ -540,3 +516,83 @@ export function getExternalImagesToUpload(
 
   return images;
 }
+
+/**
+ * 文章中图片的检查信息
+ */
+export interface ArticleImageInfo {
+  // 图片来源：本地上传、base64 内嵌、其他站点的外部图片
+  kind: "local" | "base64" | "external";
+  url: string;
+  // 图片所在行号（从 1 开始）
+  line: number;
+  // 图片格式（小写扩展名），无法识别时为空
+  extension?: string;
+  // 图片大小（字节），仅本地和 base64 图片可计算
+  size?: number;
+  // 本地图片对应的文件是否存在
+  exists?: boolean;
+}
+
+/**
+ * 检查文章中需要上传到目标平台的图片，用于发布前检查
+ * 已托管在目标平台的外部图片不包含在结果中
+ *
+ * @param content Markdown 内容
+ * @param platform 目标平台
+ * @param uploadDir 本地上传目录
+ */
+export function inspectArticleImages(
+  content: string,
+  platform: PlatformType,
+  uploadDir: string
+): ArticleImageInfo[] {
+  const images: ArticleImageInfo[] = [];
+  const lineOf = (index: number) => content.slice(0, index).split("\n").length;
+  const extensionOf = (url: string) => {
+    const match = url.split(/[?#]/)[0].match(/\.([a-zA-Z0-9]+)$/);
+    return match ? match[1].toLowerCase() : undefined;
+  };
+
+  for (const pattern of [LOCAL_IMAGE_PATTERN, RELATIVE_IMAGE_PATTERN]) {
+    for (const match of content.matchAll(new RegExp(pattern.source, "g"))) {
+      const url = match[2];
+      const localPath = resolveLocalFilePath(url, uploadDir);
+      const exists = !!localPath && fs.existsSync(localPath);
+      images.push({
+        kind: "local",
+        url,
+        line: lineOf(match.index!),
+        extension: extensionOf(url),
+        size: exists ? fs.statSync(localPath!).size : undefined,
+        exists,
+      });
+    }
+  }
+
+  for (const match of content.matchAll(new RegExp(BASE64_IMAGE_PATTERN.source, "g"))) {
+    const extension = match[3].toLowerCase();
+    images.push({
+      kind: "base64",
+      url: `data:image/${match[3]};base64,...`,
+      line: lineOf(match.index!),
+      extension: extension === "jpeg" ? "jpg" : extension,
+      size: Buffer.from(match[4], "base64").length,
+    });
+  }
+
+  for (const match of content.matchAll(new RegExp(EXTERNAL_IMAGE_PATTERN.source, "g"))) {
+    const url = match[2];
+    // 本地服务器图片已在上面处理
+    if (new RegExp(LOCAL_IMAGE_PATTERN.source).test(match[0])) continue;
+    if (isImageHostedOnPlatform(url, platform)) continue;
+    images.push({
+      kind: "external",
+      url,
+      line: lineOf(match.index!),
+      extension: extensionOf(url),
+    });
+  }
+
+  return images.sort((a, b) => a.line - b.line);
+}
@@ -17,10 +17,11 @@ export interface JuejinLoginResult {
  * 从客户端设置掘金 cookies（Electron 客户端调用）
  */
 export async function setJuejinCookiesFromClient(
+  userId: number,
   cookiesJson: string,
   nickname?: string,
   avatarUrl?: string,
-  userId?: string
+  juejinUserId?: string
 ): Promise<JuejinLoginResult> {
   try {
     const userRepo = AppDataSource.getRepository(User);
@@ -28,7 +29,7 @@ export async function setJuejinCookiesFromClient(
     // 如果没有传入用户信息，尝试通过 API 获取
     let finalNickname = nickname;
     let finalAvatarUrl = avatarUrl;
-    let finalUserId = userId;
+    let finalUserId = juejinUserId;
 
     if (!finalNickname || !finalAvatarUrl) {
       try {
@@ -49,8 +50,8 @@ export async function setJuejinCookiesFromClient(
       }
     }
 
-    // 查找或创建用户（使用同一个用户记录，id=1）
-    let user = await userRepo.findOne({ where: { id: 1 } });
+    // 平台账号保存在当前工作区用户上
+    let user = await userRepo.findOne({ where: { id: userId } });
     if (!user) {
       user = userRepo.create({
         juejinCookies: cookiesJson,
@@ -93,7 +94,7 @@ export async function setJuejinCookiesFromClient(
 /**
  * 使用保存的 cookies 验证登录状态（自动登录）
  */
-export async function juejinAutoLogin(userId: number = 1): Promise<JuejinLoginResult> {
+export async function juejinAutoLogin(userId: number): Promise<JuejinLoginResult> {
   const userRepo = AppDataSource.getRepository(User);
   const user = await userRepo.findOne({ where: { id: userId } });
 
@@ -132,7 +133,7 @@ export async function juejinAutoLogin(userId: number = 1): Promise<JuejinLoginRe
 /**
  * 获取当前掘金登录状态
  */
-export async function getJuejinLoginStatus(userId: number = 1): Promise<{
+export async function getJuejinLoginStatus(userId: number): Promise<{
   isLoggedIn: boolean;
   user?: {
     id: number;
@@ -164,7 +165,7 @@ export async function getJuejinLoginStatus(userId: number = 1): Promise<{
 /**
  * 掘金登出
  */
-export async function juejinLogout(userId: number = 1): Promise<void> {
+export async function juejinLogout(userId: number): Promise<void> {
   const userRepo = AppDataSource.getRepository(User);
   const user = await userRepo.findOne({ where: { id: userId } });
 
@@ -178,7 +179,7 @@ export async function juejinLogout(userId: number = 1): Promise<void> {
 /**
  * 获取掘金 Cookie 的会话信息（包括过期时间）
  */
-export async function getJuejinSessionInfo(userId: number = 1): Promise<{
+export async function getJuejinSessionInfo(userId: number): Promise<{
   isValid: boolean;
   remainingDays?: number;
   expiresDate?: string;
@@ -211,7 +212,7 @@ export async function getJuejinSessionInfo(userId: number = 1): Promise<{
 /**
  * 获取掘金 Cookies JSON
  */
-export async function getJuejinCookies(userId: number = 1): Promise<string | null> {
+export async function getJuejinCookies(userId: number): Promise<string | null> {
   const userRepo = AppDataSource.getRepository(User);
   const user = await userRepo.findOne({ where: { id: userId } });
 
@@ -7,6 +7,10 @@ import * as path from "path";
 import { AppDataSource } from "../db";
 import { Article } from "../entities/Article";
 import { User } from "../entities/User";
+import type { JuejinPublicationConfig } from "../entities/ArticlePublication";
+import { articlePublicationService } from "./articlePublication";
+import { syncConflictDetector } from "./syncConflictDetector";
+import { PlatformNotLoggedInError } from "./articleSync";
 import { createJuejinApiClient, type TagInfo } from "./juejinApi";
 import { processArticleImages, hasImagesToUpload } from "./imageUpload";
 import { transformMarkdownForPlatform } from "./markdownTransformer";
@@ -14,6 +18,9 @@ import { transformMarkdownForPlatform } from "./markdownTransformer";
 // 图片上传目录
 const UPLOAD_DIR = path.join(process.cwd(), "data", "uploads");
 
+// 发布记录中的平台标识
+const PLATFORM = "juejin";
+
 export interface JuejinSyncResult {
   success: boolean;
   message: string;
@@ -26,12 +33,12 @@ class JuejinSyncService {
   /**
    * 获取掘金 API 客户端
    */
-  private async getApiClient(userId: number = 1) {
+  async getApiClient(userId: number) {
     const userRepo = AppDataSource.getRepository(User);
     const user = await userRepo.findOne({ where: { id: userId } });
 
     if (!user || !user.juejinCookies) {
-      throw new Error("未登录掘金，请先在客户端登录");
+      throw new PlatformNotLoggedInError("juejin", "未登录掘金，请先在客户端登录");
     }
 
     return createJuejinApiClient(user.juejinCookies);
@@ -40,7 +47,7 @@ class JuejinSyncService {
   /**
    * 检查登录状态
    */
-  async checkLoginStatus(userId: number = 1): Promise<boolean> {
+  async checkLoginStatus(userId: number): Promise<boolean> {
     try {
       const client = await this.getApiClient(userId);
       return await client.checkLoginStatus();
@@ -52,7 +59,7 @@ class JuejinSyncService {
   /**
    * 搜索标签
    */
-  async searchTags(keyword: string, userId: number = 1): Promise<TagInfo[]> {
+  async searchTags(keyword: string, userId: number): Promise<TagInfo[]> {
     const client = await this.getApiClient(userId);
     return client.searchTags(keyword);
   }
@@ -62,13 +69,7 @@ class JuejinSyncService {
    */
   async setArticleConfig(
     articleId: number,
-    config: {
-      categoryId?: string;
-      tagIds?: string[];
-      tagNames?: string[];
-      briefContent?: string;
-      isOriginal?: number;
-    }
+    config: JuejinPublicationConfig
   ): Promise<{ success: boolean }> {
     const articleRepo = AppDataSource.getRepository(Article);
     const article = await articleRepo.findOne({ where: { id: articleId } });
@@ -77,30 +78,18 @@ class JuejinSyncService {
       throw new Error("文章不存在");
     }
 
-    if (config.categoryId !== undefined) {
-      article.juejinCategoryId = config.categoryId;
-    }
-    if (config.tagIds !== undefined) {
-      article.juejinTagIds = config.tagIds;
-    }
-    if (config.tagNames !== undefined) {
-      article.juejinTagNames = config.tagNames;
-    }
-    if (config.briefContent !== undefined) {
-      article.juejinBriefContent = config.briefContent;
-    }
-    if (config.isOriginal !== undefined) {
-      article.juejinIsOriginal = config.isOriginal;
-    }
-
-    await articleRepo.save(article);
+    await articlePublicationService.updateConfig<JuejinPublicationConfig>(
+      articleId,
+      PLATFORM,
+      config
+    );
     return { success: true };
   }
 
   /**
    * 同步文章到掘金草稿箱
    */
-  async syncToDraft(articleId: number, userId: number = 1): Promise<JuejinSyncResult> {
+  async syncToDraft(articleId: number, userId: number): Promise<JuejinSyncResult> {
     const articleRepo = AppDataSource.getRepository(Article);
     const article = await articleRepo.findOne({ where: { id: articleId } });
 
@@ -110,6 +99,8 @@ class JuejinSyncService {
 
     try {
       const client = await this.getApiClient(userId);
+      const publication = await articlePublicationService.get(articleId, PLATFORM);
+      const config = (publication?.config || {}) as JuejinPublicationConfig;
 
       // 转换扩展语法（掘金不支持对齐语法，需要移除）
       const { content: transformedContent, report } = transformMarkdownForPlatform(
@@ -143,31 +134,38 @@ class JuejinSyncService {
         }
       }
 
-      // 创建草稿
-      const draft = await client.createDraft(article.title);
-      console.log("[JuejinSync] 创建草稿成功:", draft.id);
+      // 已有草稿时直接更新，否则创建新草稿
+      let draftId = publication?.draftId;
+      if (!draftId) {
+        const draft = await client.createDraft(article.title);
+        draftId = draft.id;
+        console.log("[JuejinSync] 创建草稿成功:", draftId);
+      }
 
       // 更新草稿内容
       await client.updateDraft({
-        id: draft.id,
+        id: draftId,
         title: article.title,
         markContent: contentToSync,
-        briefContent: article.juejinBriefContent || article.summary || "",
-        categoryId: article.juejinCategoryId || "6809637767543259144", // 默认前端
-        tagIds: article.juejinTagIds || [],
-        isOriginal: article.juejinIsOriginal,
+        briefContent: config.briefContent || article.summary || "",
+        categoryId: config.categoryId || "6809637767543259144", // 默认前端
+        tagIds: config.tagIds || [],
+        isOriginal: config.isOriginal ?? 1,
       });
 
       // 保存草稿 ID
-      article.juejinDraftId = draft.id;
-      article.juejinLastSyncedAt = new Date();
-      article.juejinStatus = "draft";
-      await articleRepo.save(article);
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        draftId,
+        status: "draft",
+        lastSyncedAt: new Date(),
+        remoteContentHash: null, // 推送了新内容，下次检查时重新记录平台内容
+        pushedVersionId: await syncConflictDetector.snapshotPushedContent(article, contentToSync, PLATFORM),
+      });
 
       return {
         success: true,
         message: "草稿同步成功",
-        draftId: draft.id,
+        draftId,
       };
     } catch (error) {
       console.error("[JuejinSync] 同步草稿失败:", error);
@@ -190,7 +188,7 @@ class JuejinSyncService {
       briefContent: string;
       isOriginal?: number;
     },
-    userId: number = 1
+    userId: number
   ): Promise<JuejinSyncResult> {
     const articleRepo = AppDataSource.getRepository(Article);
     const article = await articleRepo.findOne({ where: { id: articleId } });
@@ -212,12 +210,19 @@ class JuejinSyncService {
     if (!config.briefContent || config.briefContent.trim().length === 0) {
       return { success: false, message: "请填写文章摘要" };
     }
+    if (config.briefContent.length < 50) {
+      return { success: false, message: "摘要至少需要50个字符" };
+    }
     if (config.briefContent.length > 100) {
       return { success: false, message: "摘要不能超过100字" };
     }
+    if (!article.content || article.content.length < 100) {
+      return { success: false, message: "文章正文建议至少100字" };
+    }
 
     try {
       const client = await this.getApiClient(userId);
+      const publication = await articlePublicationService.get(articleId, PLATFORM);
 
       // 转换扩展语法（掘金不支持对齐语法，需要移除）
       const { content: transformedContent, report } = transformMarkdownForPlatform(
@@ -256,7 +261,7 @@ class JuejinSyncService {
         }
       }
 
-      // 一键发布
+      // 一键发布（复用已有草稿ID）
       const result = await client.publishArticleOneClick({
         title: article.title,
         markContent: contentToPublish,
@@ -264,36 +269,45 @@ class JuejinSyncService {
         categoryId: config.categoryId,
         tagIds: config.tagIds,
         isOriginal: config.isOriginal ?? 1,
+        existingDraftId: publication?.draftId || undefined,
       });
 
       console.log("[JuejinSync] 发布成功:", result);
 
-      // 更新文章状态
-      article.juejinArticleId = result.article_id;
-      article.juejinDraftId = result.draft_id;
-      article.juejinArticleUrl = `https://juejin.cn/post/${result.article_id}`;
-      article.juejinCategoryId = config.categoryId;
-      article.juejinTagIds = config.tagIds;
-      article.juejinTagNames = config.tagNames;
-      article.juejinBriefContent = config.briefContent;
-      article.juejinIsOriginal = config.isOriginal ?? 1;
-      article.juejinStatus = "pending"; // 审核中
-      article.juejinLastSyncedAt = new Date();
-      await articleRepo.save(article);
+      // 更新发布记录
+      const articleUrl = `https://juejin.cn/post/${result.article_id}`;
+      await articlePublicationService.updateConfig<JuejinPublicationConfig>(articleId, PLATFORM, {
+        categoryId: config.categoryId,
+        tagIds: config.tagIds,
+        tagNames: config.tagNames,
+        briefContent: config.briefContent,
+        isOriginal: config.isOriginal ?? 1,
+      });
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        remoteId: result.article_id,
+        draftId: result.draft_id,
+        url: articleUrl,
+        status: "pending", // 审核中
+        errorMessage: null,
+        lastSyncedAt: new Date(),
+        remoteContentHash: null,
+        pushedVersionId: await syncConflictDetector.snapshotPushedContent(article, contentToPublish, PLATFORM),
+      });
 
       return {
         success: true,
         message: "发布成功，文章正在审核中",
         articleId: result.article_id,
-        articleUrl: article.juejinArticleUrl,
+        articleUrl,
       };
     } catch (error) {
       console.error("[JuejinSync] 发布失败:", error);
       
       // 更新错误状态
-      article.juejinStatus = "failed";
-      article.errorMessage = error instanceof Error ? error.message : "发布失败";
-      await articleRepo.save(article);
+      await articlePublicationService.upsert(articleId, PLATFORM, {
+        status: "failed",
+        errorMessage: error instanceof Error ? error.message : "发布失败",
+      });
 
       return {
         success: false,
@@ -302,6 +316,27 @@ class JuejinSyncService {
     }
   }
 
+  /**
+   * 使用发布记录上已保存的掘金配置发布文章
+   */
+  async publishWithSavedConfig(articleId: number, userId: number): Promise<JuejinSyncResult> {
+    const config = await articlePublicationService.getConfig<JuejinPublicationConfig>(
+      articleId,
+      PLATFORM
+    );
+    return this.publishArticle(
+      articleId,
+      {
+        categoryId: config.categoryId || "",
+        tagIds: config.tagIds || [],
+        tagNames: config.tagNames,
+        briefContent: config.briefContent || "",
+        isOriginal: config.isOriginal,
+      },
+      userId
+    );
+  }
+
   /**
    * 获取用户的掘金文章列表
    */
@@ -312,11 +347,162 @@ class JuejinSyncService {
       pageNo?: number;
       pageSize?: number;
     },
-    userId: number = 1
+    userId: number
   ) {
     const client = await this.getApiClient(userId);
     return client.fetchUserArticles(params);
   }
+
+  /**
+   * 同步本地文章与掘金文章状态
+   * 优先通过掘金文章ID匹配，其次通过标题匹配
+   */
+  async syncArticleStatus(userId: number) {
+    const client = await this.getApiClient(userId);
+    const articleRepo = AppDataSource.getRepository(Article);
+
+    // 获取掘金上的所有文章（分页获取）
+    const allJuejinArticles: Array<{
+      article_id: string;
+      article_info: {
+        article_id: string;
+        title: string;
+        status: number;
+        audit_status: number;
+        draft_id: string;
+      };
+    }> = [];
+
+    let pageNo = 1;
+    const pageSize = 50;
+    while (true) {
+      const articles = await client.fetchUserArticles({
+        auditStatus: null,
+        pageNo,
+        pageSize,
+      });
+      if (articles.length === 0) break;
+      allJuejinArticles.push(...articles);
+      if (articles.length < pageSize) break;
+      pageNo++;
+    }
+
+    // 获取本地所有文章（不仅是已发布到掘金的）
+    const localArticles = await articleRepo.find({
+      where: { userId },
+      order: { createdAt: "DESC" },
+    });
+    const publications = await articlePublicationService.mapByPlatform(
+      PLATFORM,
+      localArticles.map((a) => a.id)
+    );
+
+    let syncedCount = 0;
+    let matchedCount = 0;
+    const updates: Array<{ id: number; status: string; articleId: string; matchType?: string }> = [];
+
+    // 辅助函数：根据掘金审核状态获取本地状态
+    const getLocalStatus = (auditStatus: number, currentStatus?: string): string => {
+      switch (auditStatus) {
+        case 2:
+          return "published";
+        case 1:
+          return "pending";
+        case 3:
+          return "rejected";
+        default:
+          return currentStatus || "unknown";
+      }
+    };
+
+    for (const local of localArticles) {
+      let juejinArticle: typeof allJuejinArticles[0] | undefined;
+      let matchType: "id" | "title" | undefined;
+      const publication = publications.get(local.id);
+
+      // 优先通过掘金文章ID匹配
+      if (publication?.remoteId) {
+        juejinArticle = allJuejinArticles.find(
+          (a) => a.article_id === publication.remoteId
+        );
+        if (juejinArticle) {
+          matchType = "id";
+        }
+      }
+
+      // 如果没有通过 ID 匹配，尝试通过标题匹配
+      if (!juejinArticle) {
+        juejinArticle = allJuejinArticles.find(
+          (a) => a.article_info.title.trim() === local.title.trim()
+        );
+        if (juejinArticle) {
+          matchType = "title";
+          console.log(`[JuejinSync] 通过标题匹配到文章: "${local.title}" -> ${juejinArticle.article_id}`);
+        }
+      }
+
+      if (juejinArticle) {
+        matchedCount++;
+        const newStatus = getLocalStatus(juejinArticle.article_info.audit_status, publication?.status ?? undefined);
+        const oldStatus = publication?.status;
+        
+        // 更新掘金文章ID（如果是通过标题匹配的，需要保存ID）
+        const needsIdUpdate = publication?.remoteId !== juejinArticle.article_id;
+        const needsStatusUpdate = oldStatus !== newStatus;
+
+        if (needsIdUpdate || needsStatusUpdate) {
+          await articlePublicationService.upsert(local.id, PLATFORM, {
+            remoteId: juejinArticle.article_id,
+            url: `https://juejin.cn/post/${juejinArticle.article_id}`,
+            status: newStatus,
+            // 同步草稿ID
+            draftId: juejinArticle.article_info.draft_id || undefined,
+            lastSyncedAt: new Date(),
+          });
+          
+          if (needsStatusUpdate) {
+            syncedCount++;
+            updates.push({
+              id: local.id,
+              status: newStatus,
+              articleId: juejinArticle.article_id,
+              matchType,
+            });
+            console.log(`[JuejinSync] 文章状态已更新: ${oldStatus} -> ${newStatus} (${matchType}匹配)`);
+          }
+        }
+      } else {
+        // 掘金上找不到对应文章
+        // 如果本地有掘金相关状态但远程没有匹配，说明需要重置
+        const hasJuejinData = publication?.remoteId || publication?.status;
+        const needsReset = hasJuejinData && publication?.status !== "draft";
+        
+        if (needsReset) {
+          const oldArticleId = publication?.remoteId || "unknown";
+          const oldStatus = publication?.status;
+          console.log(`[JuejinSync] 文章在掘金上已不存在，重置状态: ${local.title} (原状态: ${oldStatus})`);
+          
+          await articlePublicationService.reset(local.id, PLATFORM);
+          console.log(`[JuejinSync] 已重置掘金发布记录`);
+          
+          syncedCount++;
+          updates.push({
+            id: local.id,
+            status: "deleted",
+            articleId: oldArticleId,
+          });
+        }
+      }
+    }
+
+    return {
+      success: true,
+      message: `同步完成: ${matchedCount}/${localArticles.length} 篇文章匹配成功，${syncedCount} 篇状态有更新`,
+      syncedCount,
+      matchedCount,
+      updates,
+    };
+  }
 }
 
 // 导出单例
@@ -1,17 +1,27 @@
 /**
  * Markdown 转换服务
  * 负责将 Markdown 中的扩展语法根据目标平台进行转换
+ *
+ * 使用 remark-directive 解析出指令节点，再按节点在原文中的位置替换对应的文本。
+ * 指令以外的内容保持原样，避免重新序列化整篇文章导致格式变化（如公式中的转义）。
  */
 
-import { 
-  getDirectiveByName,
-  getAlignmentDirectiveNames,
-} from "@shared/markdown/directives";
-import { 
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkDirective from "remark-directive";
+import type { Nodes } from "mdast";
+import { findDirective } from "@shared/markdown/directives";
+import {
   getPlatformConfig,
   getTransformStrategy,
 } from "@shared/markdown/platformConfig";
-import type { TransformStrategy } from "@shared/markdown/types";
+import type {
+  DirectiveDefinition,
+  DirectiveType,
+  DowngradeStyle,
+  TransformStrategy,
+} from "@shared/markdown/types";
 
 /**
  * Markdown 转换选项
@@ -19,7 +29,7 @@ import type { TransformStrategy } from "@shared/markdown/types";
 export interface TransformOptions {
   /** 目标平台 */
   platform: string;
-  
+
   /** 覆盖默认策略 */
   overrideStrategies?: Record<string, TransformStrategy>;
 }
@@ -30,7 +40,7 @@ export interface TransformOptions {
 export interface TransformResult {
   /** 转换后的 Markdown */
   content: string;
-  
+
   /** 转换报告 */
   report: {
     /** 处理的指令数量 */
@@ -41,12 +51,118 @@ export interface TransformResult {
       strategy: TransformStrategy;
       count: number;
     }>;
+    /** 每一处降级（平台不支持而改用标准 Markdown 表示的指令） */
+    downgrades: Array<{
+      name: string;
+      line: number;
+      style: DowngradeStyle;
+    }>;
   };
 }
 
+type DirectiveNode = Extract<Nodes, { type: DirectiveType }>;
+
+const processor = unified().use(remarkParse).use(remarkGfm).use(remarkDirective);
+
+const DIRECTIVE_TYPES: string[] = ["containerDirective", "leafDirective", "textDirective"];
+
+function isDirective(node: Nodes): node is DirectiveNode {
+  return DIRECTIVE_TYPES.includes(node.type);
+}
+
+function startOf(node: Nodes): number {
+  return node.position!.start.offset!;
+}
+
+function endOf(node: Nodes): number {
+  return node.position!.end.offset!;
+}
+
+/**
+ * 收集子节点中最外层的指令节点（不进入指令内部）
+ */
+function collectDirectives(nodes: Nodes[], found: DirectiveNode[] = []): DirectiveNode[] {
+  for (const node of nodes) {
+    if (isDirective(node)) {
+      found.push(node);
+    } else if ("children" in node) {
+      collectDirectives(node.children as Nodes[], found);
+    }
+  }
+  return found;
+}
+
+/**
+ * 提取节点的纯文本
+ */
+function nodeText(node: Nodes): string {
+  if ("value" in node) {
+    return node.value;
+  }
+  if ("children" in node) {
+    return (node.children as Nodes[]).map(nodeText).join("");
+  }
+  return "";
+}
+
+/**
+ * 去掉多行文本中第一行之后每行的缩进
+ * 指令位于列表等缩进结构中时，内容的后续行带有原文缩进
+ */
+function dedent(text: string, indent: number): string {
+  if (indent === 0) return text;
+  const pattern = new RegExp(`^[ \\t]{0,${indent}}`);
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 ? line : line.replace(pattern, "")))
+    .join("\n");
+}
+
+/**
+ * 为多行文本中第一行之后的非空行加上缩进
+ */
+function reindent(text: string, indent: number): string {
+  if (indent === 0) return text;
+  const prefix = " ".repeat(indent);
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 || !line ? line : prefix + line))
+    .join("\n");
+}
+
+/**
+ * 按降级方式生成标准 Markdown
+ */
+function applyDowngrade(
+  style: DowngradeStyle,
+  definition: DirectiveDefinition,
+  content: string,
+  label: string
+): string {
+  const title = label || definition.downgrade?.label || definition.name;
+
+  switch (style) {
+    case "blockquote": {
+      const emoji = definition.downgrade?.emoji;
+      const header = `${emoji ? `${emoji} ` : ""}**${title}**`;
+      const lines = content ? [header, "", ...content.split("\n")] : [header];
+      return lines.map((line) => (line ? `> ${line}` : ">")).join("\n");
+    }
+    case "section":
+      return content ? `**${title}**\n\n${content}` : `**${title}**`;
+    case "inlineCode": {
+      const text = content || label;
+      return text.includes("`") ? `\`\` ${text} \`\`` : `\`${text}\``;
+    }
+    case "unwrap":
+    default:
+      return content;
+  }
+}
+
 /**
  * 将 Markdown 内容转换为指定平台兼容的格式
- * 使用正则表达式进行轻量级处理，支持嵌套
+ * 支持嵌套指令（如 tabs 中的 tab、提示框中的 kbd），由内向外依次转换
  */
 export function transformMarkdownForPlatform(
   markdown: string,
@@ -54,67 +170,126 @@ export function transformMarkdownForPlatform(
 ): TransformResult {
   const { platform, overrideStrategies = {} } = options;
   const platformConfig = getPlatformConfig(platform);
-  
+
   // 统计信息
   const stats: Record<string, { strategy: TransformStrategy; count: number }> = {};
-  
-  let result = markdown;
-  const alignmentNames = getAlignmentDirectiveNames();
-  
-  // 处理每种对齐指令
-  for (const directiveName of alignmentNames) {
-    const definition = getDirectiveByName(directiveName);
-    if (!definition) continue;
-    
+  const downgrades: TransformResult["report"]["downgrades"] = [];
+
+  // 输出原文中 [start, end) 的内容，其中的指令替换为转换结果
+  const renderRange = (start: number, end: number, directives: DirectiveNode[]): string => {
+    let output = "";
+    let cursor = start;
+    for (const directive of directives) {
+      if (startOf(directive) < start || endOf(directive) > end) continue;
+
+      let before = markdown.slice(cursor, startOf(directive));
+      let rendered = renderDirective(directive);
+
+      // 转换后的块级内容与相邻的非空行之间补一个空行，避免被并入相邻段落
+      const changed = rendered !== markdown.slice(startOf(directive), endOf(directive));
+      if (changed && directive.type !== "textDirective") {
+        if (/\S[^\n]*\n[ \t]*$/.test(output + before)) {
+          before = before.replace(/\n([ \t]*)$/, "\n\n$1");
+        }
+        if (/^\n[ \t]*\S/.test(markdown.slice(endOf(directive), end))) {
+          rendered += "\n";
+        }
+      }
+
+      output += before + rendered;
+      cursor = endOf(directive);
+    }
+    return output + markdown.slice(cursor, end);
+  };
+
+  const renderDirective = (node: DirectiveNode): string => {
+    const definition = findDirective(node.name, node.type);
+    const children = node.children as Nodes[];
+
+    // 未注册的指令（包括被误识别为指令的普通文本，如 10:30）保持原样
+    if (!definition) {
+      return renderRange(startOf(node), endOf(node), collectDirectives(children));
+    }
+
     // 确定策略
-    const strategy = 
-      overrideStrategies[directiveName] ||
-      getTransformStrategy(platform, directiveName);
-    
-    // 匹配容器指令: :::name ... :::
-    // 使用非贪婪匹配和多行模式
-    const containerRegex = new RegExp(
-      `^:::${directiveName}\\s*\\n([\\s\\S]*?)^:::[ \\t]*$`,
-      "gm"
-    );
-    
-    let matchCount = 0;
-    
-    result = result.replace(containerRegex, (_match, content: string) => {
-      matchCount++;
-      
-      // 移除内容首尾的空白行，但保留内部格式
-      const trimmedContent = content.replace(/^\n+/, "").replace(/\n+$/, "");
-      
-      switch (strategy) {
-        case "keep":
-          // 保留原样
-          return _match;
-          
-        case "toHtml":
-          // 转换为 HTML（腾讯云场景，但对齐语法是原生支持的，所以实际不会走这里）
-          if (platformConfig.supportsHtml) {
-            return definition.toHtml(trimmedContent);
-          }
-          // 如果平台不支持 HTML，回退到纯文本
-          return definition.toText(trimmedContent);
-          
-        case "toText":
-          // 转换为纯文本
-          return definition.toText(trimmedContent);
-          
-        case "remove":
-        default:
-          // 移除指令语法，只保留内容
-          return trimmedContent;
+    const strategy =
+      overrideStrategies[node.name] ||
+      getTransformStrategy(platform, node.name);
+
+    const stat = (stats[node.name] ||= { strategy, count: 0 });
+    stat.count++;
+
+    if (strategy === "keep") {
+      return renderRange(startOf(node), endOf(node), collectDirectives(children));
+    }
+
+    // 容器指令的标题是带 directiveLabel 标记的首个段落，行内和叶子指令的标题即其内容
+    let label: string;
+    let contentNodes: Nodes[];
+    if (node.type === "containerDirective") {
+      const first = children[0] as Nodes | undefined;
+      const labelNode = (first?.data as { directiveLabel?: boolean } | undefined)?.directiveLabel
+        ? first
+        : undefined;
+      label = labelNode ? nodeText(labelNode) : "";
+      contentNodes = labelNode ? children.slice(1) : children;
+    } else {
+      label = nodeText(node);
+      contentNodes = children;
+    }
+
+    // 块级指令的内容按指令所在列的缩进处理，行内指令不涉及缩进
+    const indent = node.type === "textDirective" ? 0 : node.position!.start.column - 1;
+    const content = contentNodes.length > 0
+      ? dedent(
+          renderRange(
+            startOf(contentNodes[0]),
+            endOf(contentNodes[contentNodes.length - 1]),
+            collectDirectives(contentNodes)
+          ),
+          indent
+        )
+      : "";
+
+    const attrs: Record<string, string> = {};
+    for (const [key, value] of Object.entries(node.attributes || {})) {
+      if (value != null) attrs[key] = value;
+    }
+    if (label) attrs.label = label;
+
+    let output: string;
+    switch (strategy) {
+      case "toHtml":
+        // 如果平台不支持 HTML，回退到纯文本
+        output = platformConfig.supportsHtml
+          ? definition.toHtml(content, attrs)
+          : definition.toText(content, attrs);
+        break;
+
+      case "toText":
+        output = definition.toText(content, attrs);
+        break;
+
+      case "downgrade": {
+        const style = definition.downgrade?.style || "unwrap";
+        downgrades.push({ name: node.name, line: node.position!.start.line, style });
+        output = applyDowngrade(style, definition, content, label);
+        break;
       }
-    });
-    
-    if (matchCount > 0) {
-      stats[directiveName] = { strategy, count: matchCount };
+
+      case "remove":
+      default:
+        // 移除指令语法，只保留内容
+        output = content;
+        break;
     }
-  }
-  
+
+    return reindent(output, indent);
+  };
+
+  const tree = processor.parse(markdown);
+  const result = renderRange(0, markdown.length, collectDirectives(tree.children as Nodes[]));
+
   // 构建报告
   const report = {
     processed: Object.values(stats).reduce((sum, s) => sum + s.count, 0),
@@ -123,8 +298,9 @@ export function transformMarkdownForPlatform(
       strategy,
       count,
     })),
+    downgrades,
   };
-  
+
   return {
     content: result,
     report,
@@ -136,19 +312,70 @@ export function transformMarkdownForPlatform(
  */
 export function detectDirectives(markdown: string): string[] {
   const found: Set<string> = new Set();
-  const alignmentNames = getAlignmentDirectiveNames();
-  
-  for (const name of alignmentNames) {
-    // 匹配 :::name
-    const regex = new RegExp(`^:::${name}\\s*$`, "m");
-    if (regex.test(markdown)) {
-      found.add(name);
+
+  const walk = (nodes: Nodes[]) => {
+    for (const node of nodes) {
+      if (isDirective(node) && findDirective(node.name, node.type)) {
+        found.add(node.name);
+      }
+      if ("children" in node) {
+        walk(node.children as Nodes[]);
+      }
     }
-  }
-  
+  };
+  walk(processor.parse(markdown).children as Nodes[]);
+
   return Array.from(found);
 }
 
+/**
+ * 检测 Markdown 中的原始 HTML（块级和行内），返回每一处的行号和内容
+ * 代码块和行内代码中的内容不会被识别为 HTML
+ */
+export function detectHtml(markdown: string): Array<{ line: number; value: string }> {
+  const found: Array<{ line: number; value: string }> = [];
+
+  const walk = (nodes: Nodes[]) => {
+    for (const node of nodes) {
+      // 跳过 HTML 注释
+      if (node.type === "html" && !node.value.trim().startsWith("<!--")) {
+        found.push({ line: node.position!.start.line, value: node.value.trim() });
+      }
+      if ("children" in node) {
+        walk(node.children as Nodes[]);
+      }
+    }
+  };
+  walk(processor.parse(markdown).children as Nodes[]);
+
+  return found;
+}
+
+/**
+ * 移除 Markdown 中的原始 HTML，模拟不支持 HTML 的平台对内容的过滤
+ * 行内 HTML 标签只移除标签本身，标签之间的文本保留
+ */
+export function stripHtml(markdown: string): string {
+  const ranges: Array<[number, number]> = [];
+
+  const walk = (nodes: Nodes[]) => {
+    for (const node of nodes) {
+      if (node.type === "html") {
+        ranges.push([startOf(node), endOf(node)]);
+      } else if ("children" in node) {
+        walk(node.children as Nodes[]);
+      }
+    }
+  };
+  walk(processor.parse(markdown).children as Nodes[]);
+
+  let result = markdown;
+  for (const [start, end] of ranges.reverse()) {
+    result = result.slice(0, start) + result.slice(end);
+  }
+  return result;
+}
+
 /**
  * 获取内容中使用的扩展语法及其对应的平台兼容性
  */
@@ -160,15 +387,15 @@ export function analyzeCompatibility(
   compatibility: Record<string, Record<string, TransformStrategy>>;
 } {
   const directives = detectDirectives(markdown);
-  
+
   const compatibility: Record<string, Record<string, TransformStrategy>> = {};
-  
+
   for (const platform of platforms) {
     compatibility[platform] = {};
     for (const directive of directives) {
       compatibility[platform][directive] = getTransformStrategy(platform, directive);
     }
   }
-  
+
   return { directives, compatibility };
 }
@@ -0,0 +1,632 @@
+/**
+ * MCP（Model Context Protocol）客户端
+ * 连接用户注册的外部工具服务，发现其工具并代为调用，供 AI 写作助手使用。
+ *
+ * 支持两种连接方式：
+ * - stdio：在服务端启动命令，按行收发 JSON-RPC 消息
+ * - Streamable HTTP：POST JSON-RPC 消息，响应为 JSON 或 SSE 流
+ *
+ * 每个服务的连接会被缓存，服务配置修改或连接断开后重新建立。
+ * 只有超级管理员的 HTTP 服务可以连接本机和内网地址。
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import { AppDataSource } from "../db";
+import { AdminRole, AdminUser } from "../entities/AdminUser";
+import { assertPublicUrl } from "./publicUrl";
+import { McpServer } from "../entities/McpServer";
+import type { ToolDefinition } from "./aiTools";
+
+const PROTOCOL_VERSION = "2025-06-18";
+const CLIENT_INFO = { name: "pen-bridge", version: "1.0.0" };
+
+const CONNECT_TIMEOUT = 20000;
+const REQUEST_TIMEOUT = 60000;
+
+// 保留的 stderr 长度，用于连接失败时给出原因
+const STDERR_TAIL = 2000;
+
+// 工具名格式：mcp__{服务ID}__{工具名}，大模型 API 要求工具名只包含字母数字、下划线和横线，且不超过 64 个字符
+export const MCP_TOOL_PREFIX = "mcp__";
+const MCP_TOOL_NAME_PATTERN = /^mcp__(\d+)__(.+)$/;
+const MAX_TOOL_NAME_LENGTH = 64;
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * MCP 服务声明的工具
+ */
+export interface McpToolInfo {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+  annotations?: { title?: string; readOnlyHint?: boolean };
+}
+
+/**
+ * 提供给前端展示和权限配置的工具信息
+ */
+export interface McpToolSummary {
+  // 发送给大模型的工具名
+  name: string;
+  toolName: string;
+  serverId: number;
+  serverName: string;
+  title: string;
+  description: string;
+  // 服务声明为只读的工具
+  readOnly: boolean;
+}
+
+export interface McpToolList {
+  tools: McpToolSummary[];
+  errors: { serverId: number; serverName: string; error: string }[];
+}
+
+/**
+ * 判断是否为 MCP 工具（由工具名前缀区分）
+ */
+export function isMcpToolName(toolName: string): boolean {
+  return MCP_TOOL_NAME_PATTERN.test(toolName);
+}
+
+function toApiToolName(serverId: number, toolName: string): string {
+  const name = `${MCP_TOOL_PREFIX}${serverId}__${toolName.replace(/[^a-zA-Z0-9_-]/g, "_")}`;
+  return name.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+function parseJsonObject(value: string | null | undefined): Record<string, string> {
+  if (!value) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toResult(message: JsonRpcMessage): any {
+  if (message.error) {
+    throw new Error(message.error.message || `MCP 错误 ${message.error.code}`);
+  }
+  return message.result;
+}
+
+/**
+ * 将工具调用结果转换为文本
+ */
+function formatToolContent(result: any): string {
+  const parts = ((result?.content as any[]) || []).map((item) => {
+    switch (item.type) {
+      case "text":
+        return item.text as string;
+      case "image":
+      case "audio":
+        return `[${item.type === "image" ? "图片" : "音频"}: ${item.mimeType}]`;
+      case "resource":
+        return item.resource?.text ?? `[资源: ${item.resource?.uri}]`;
+      case "resource_link":
+        return `[资源: ${item.uri}]`;
+      default:
+        return JSON.stringify(item);
+    }
+  });
+  if (parts.length === 0 && result?.structuredContent) {
+    return JSON.stringify(result.structuredContent, null, 2);
+  }
+  return parts.join("\n\n");
+}
+
+interface McpTransport {
+  readonly closed: boolean;
+  protocolVersion?: string;
+  request(message: JsonRpcMessage, timeout: number): Promise<any>;
+  notify(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * stdio 连接：每行一条 JSON-RPC 消息
+ */
+class StdioTransport implements McpTransport {
+  private child: ChildProcess;
+  private buffer = "";
+  private stderr = "";
+  private exited = false;
+  private pending = new Map<
+    number | string,
+    { resolve: (value: any) => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  constructor(command: string, args: string[], env: Record<string, string>) {
+    this.child = spawn(command, args, {
+      env: { ...process.env, ...env },
+      stdio: ["pipe", "pipe", "pipe"],
+      windowsHide: true,
+      // Windows 上 npx 等命令是 .cmd 脚本，需要通过 shell 启动
+      shell: process.platform === "win32",
+    });
+
+    this.child.stdout!.setEncoding("utf8");
+    this.child.stdout!.on("data", (chunk: string) => this.handleData(chunk));
+    this.child.stderr!.setEncoding("utf8");
+    this.child.stderr!.on("data", (chunk: string) => {
+      this.stderr = (this.stderr + chunk).slice(-STDERR_TAIL);
+    });
+    // 进程退出后写入 stdin 会触发 EPIPE，没有监听时会作为未处理的错误使整个服务崩溃
+    this.child.stdin!.on("error", (error) => this.fail(new Error(`MCP 服务连接已断开: ${error.message}`)));
+    this.child.on("error", (error) => this.fail(new Error(`启动 MCP 服务失败: ${error.message}`)));
+    this.child.on("exit", (code) => {
+      const detail = this.stderr.trim() ? `: ${this.stderr.trim()}` : "";
+      this.fail(new Error(`MCP 服务进程已退出 (code ${code})${detail}`));
+    });
+  }
+
+  get closed() {
+    return this.exited;
+  }
+
+  private handleData(chunk: string) {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, index).trim();
+      this.buffer = this.buffer.slice(index + 1);
+      if (!line) continue;
+      try {
+        this.handleMessage(JSON.parse(line));
+      } catch {
+        // 服务输出的非 JSON 内容（如日志）直接忽略
+      }
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage) {
+    if (message.method) {
+      // 服务端发来的请求：只响应 ping，其余客户端能力未实现
+      if (message.id !== undefined) {
+        this.send(
+          message.method === "ping"
+            ? { jsonrpc: "2.0", id: message.id, result: {} }
+            : { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: "Method not found" } }
+        );
+      }
+      return;
+    }
+    const pending = message.id !== undefined ? this.pending.get(message.id) : undefined;
+    if (!pending) return;
+    this.pending.delete(message.id!);
+    clearTimeout(pending.timer);
+    try {
+      pending.resolve(toResult(message));
+    } catch (error) {
+      pending.reject(error as Error);
+    }
+  }
+
+  private fail(error: Error) {
+    this.exited = true;
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private send(message: JsonRpcMessage) {
+    if (this.exited) {
+      throw new Error("MCP 服务进程已退出");
+    }
+    this.child.stdin!.write(JSON.stringify(message) + "\n");
+  }
+
+  request(message: JsonRpcMessage, timeout: number): Promise<any> {
+    return new Promise((resolve, reject) => {
+      if (this.exited) {
+        reject(new Error("MCP 服务进程已退出"));
+        return;
+      }
+      const timer = setTimeout(() => {
+        this.pending.delete(message.id!);
+        reject(new Error(`MCP 请求超时: ${message.method}`));
+      }, timeout);
+      this.pending.set(message.id!, { resolve, reject, timer });
+      try {
+        this.send(message);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(message.id!);
+        reject(error);
+      }
+    });
+  }
+
+  async notify(message: JsonRpcMessage): Promise<void> {
+    this.send(message);
+  }
+
+  async close(): Promise<void> {
+    if (!this.exited) {
+      this.child.stdin!.end();
+      this.child.kill();
+    }
+  }
+}
+
+/**
+ * Streamable HTTP 连接
+ */
+class HttpTransport implements McpTransport {
+  protocolVersion?: string;
+  private sessionId?: string;
+  private expired = false;
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string>,
+    // 地址受限时不跟随重定向，避免经公网地址跳转到内网
+    private restricted: boolean
+  ) {}
+
+  get closed() {
+    return this.expired;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      ...this.headers,
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+      ...(this.protocolVersion ? { "MCP-Protocol-Version": this.protocolVersion } : {}),
+    };
+  }
+
+  private async post(message: JsonRpcMessage, timeout: number): Promise<Response> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: this.buildHeaders(),
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(timeout),
+      redirect: this.restricted ? "error" : "follow",
+    });
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+    if (!response.ok) {
+      // 会话已失效，需要重新连接
+      if (response.status === 404 && this.sessionId) {
+        this.expired = true;
+      }
+      const text = await response.text().catch(() => "");
+      throw new Error(`MCP 服务返回 HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ""}`);
+    }
+    return response;
+  }
+
+  async request(message: JsonRpcMessage, timeout: number): Promise<any> {
+    const response = await this.post(message, timeout);
+    const contentType = response.headers.get("content-type") || "";
+
+    if (contentType.includes("text/event-stream")) {
+      return this.readEventStream(response, message.id!);
+    }
+
+    const body = await response.json();
+    const reply = Array.isArray(body) ? body.find((m) => m.id === message.id) : body;
+    if (!reply) {
+      throw new Error("MCP 服务未返回响应");
+    }
+    return toResult(reply);
+  }
+
+  /**
+   * 读取 SSE 流直到收到对应请求的响应
+   */
+  private async readEventStream(response: Response, id: number | string): Promise<any> {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value.replace(/\r\n/g, "\n");
+
+        let index: number;
+        while ((index = buffer.indexOf("\n\n")) >= 0) {
+          const event = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          const data = event
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trimStart())
+            .join("\n");
+          if (!data) continue;
+
+          let message: JsonRpcMessage;
+          try {
+            message = JSON.parse(data);
+          } catch {
+            continue;
+          }
+          if (message.id === id && !message.method) {
+            return toResult(message);
+          }
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+    throw new Error("MCP 服务未返回响应");
+  }
+
+  async notify(message: JsonRpcMessage): Promise<void> {
+    const response = await this.post(message, CONNECT_TIMEOUT);
+    await response.body?.cancel();
+  }
+
+  async close(): Promise<void> {
+    this.expired = true;
+    if (!this.sessionId) return;
+    await fetch(this.url, {
+      method: "DELETE",
+      headers: this.buildHeaders(),
+      signal: AbortSignal.timeout(CONNECT_TIMEOUT),
+      redirect: this.restricted ? "error" : "follow",
+    }).catch(() => {});
+  }
+}
+
+/**
+ * 已完成初始化的 MCP 会话
+ */
+class McpConnection {
+  private nextId = 1;
+  tools: McpToolInfo[] = [];
+
+  constructor(private transport: McpTransport) {}
+
+  get closed() {
+    return this.transport.closed;
+  }
+
+  private request(method: string, params?: unknown, timeout = REQUEST_TIMEOUT): Promise<any> {
+    return this.transport.request({ jsonrpc: "2.0", id: this.nextId++, method, params }, timeout);
+  }
+
+  async initialize(): Promise<void> {
+    const result = await this.request(
+      "initialize",
+      { protocolVersion: PROTOCOL_VERSION, capabilities: {}, clientInfo: CLIENT_INFO },
+      CONNECT_TIMEOUT
+    );
+    this.transport.protocolVersion = result?.protocolVersion || PROTOCOL_VERSION;
+    await this.transport.notify({ jsonrpc: "2.0", method: "notifications/initialized" });
+    this.tools = await this.listTools();
+  }
+
+  private async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request("tools/list", cursor ? { cursor } : {}, CONNECT_TIMEOUT);
+      tools.push(...(result?.tools || []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  callTool(name: string, args: Record<string, any>): Promise<any> {
+    return this.request("tools/call", { name, arguments: args });
+  }
+
+  close(): Promise<void> {
+    return this.transport.close();
+  }
+}
+
+class McpClientManager {
+  // 服务 ID -> 连接；version 为服务配置的更新时间，配置修改后重新连接
+  private connections = new Map<number, { version: number; connection: Promise<McpConnection> }>();
+
+  private get serverRepo() {
+    return AppDataSource.getRepository(McpServer);
+  }
+
+  /**
+   * 服务所属用户是否为超级管理员（可以连接本机和内网地址）
+   */
+  private async isSuperAdmin(userId: number): Promise<boolean> {
+    const admin = await AppDataSource.getRepository(AdminUser).findOne({
+      where: { userId, role: AdminRole.SUPER_ADMIN },
+    });
+    return !!admin;
+  }
+
+  /**
+   * 建立连接并完成初始化
+   */
+  async connect(server: McpServer): Promise<McpConnection> {
+    let transport: McpTransport;
+    if (server.transport === "http") {
+      if (!server.url) {
+        throw new Error("未配置服务地址");
+      }
+      const restricted = !(await this.isSuperAdmin(server.userId));
+      if (restricted) {
+        await assertPublicUrl(server.url);
+      }
+      transport = new HttpTransport(server.url, parseJsonObject(server.headers), restricted);
+    } else {
+      if (!server.command) {
+        throw new Error("未配置启动命令");
+      }
+      transport = new StdioTransport(server.command, server.args || [], parseJsonObject(server.env));
+    }
+
+    const connection = new McpConnection(transport);
+    try {
+      await connection.initialize();
+    } catch (error) {
+      await connection.close().catch(() => {});
+      throw error;
+    }
+    return connection;
+  }
+
+  private async getConnection(server: McpServer): Promise<McpConnection> {
+    const version = new Date(server.updatedAt).getTime();
+    const cached = this.connections.get(server.id);
+    if (cached && cached.version === version) {
+      const connection = await cached.connection.catch(() => null);
+      if (connection && !connection.closed) {
+        return connection;
+      }
+    }
+    this.disconnect(server.id);
+
+    const connection = this.connect(server);
+    this.connections.set(server.id, { version, connection });
+    // 连接失败不缓存，下次重试
+    connection.catch(() => {
+      if (this.connections.get(server.id)?.connection === connection) {
+        this.connections.delete(server.id);
+      }
+    });
+    return connection;
+  }
+
+  /**
+   * 断开服务连接（服务修改或删除时调用）
+   */
+  disconnect(serverId: number): void {
+    const cached = this.connections.get(serverId);
+    if (!cached) return;
+    this.connections.delete(serverId);
+    cached.connection.then((connection) => connection.close()).catch(() => {});
+  }
+
+  /**
+   * 测试服务配置，返回服务提供的工具（不缓存连接）
+   */
+  async testServer(server: McpServer): Promise<McpToolInfo[]> {
+    const connection = await this.connect(server);
+    await connection.close().catch(() => {});
+    return connection.tools;
+  }
+
+  /**
+   * 列出用户所有启用服务的工具，连接失败的服务记录在 errors 中
+   */
+  async listTools(userId: number): Promise<McpToolList> {
+    const servers = await this.serverRepo.find({
+      where: { userId, enabled: true },
+      order: { createdAt: "ASC" },
+    });
+
+    const result: McpToolList = { tools: [], errors: [] };
+    const connections = await Promise.allSettled(servers.map((s) => this.getConnection(s)));
+    connections.forEach((settled, index) => {
+      const server = servers[index];
+      if (settled.status === "rejected") {
+        const error = settled.reason instanceof Error ? settled.reason.message : String(settled.reason);
+        console.warn(`[MCP] 连接服务 ${server.name} 失败: ${error}`);
+        result.errors.push({ serverId: server.id, serverName: server.name, error });
+        return;
+      }
+      for (const tool of settled.value.tools) {
+        result.tools.push({
+          name: toApiToolName(server.id, tool.name),
+          toolName: tool.name,
+          serverId: server.id,
+          serverName: server.name,
+          title: tool.title || tool.annotations?.title || tool.name,
+          description: tool.description || "",
+          readOnly: tool.annotations?.readOnlyHint === true,
+        });
+      }
+    });
+    return result;
+  }
+
+  /**
+   * 用户可用的 MCP 工具定义（与内置工具一起发送给大模型）
+   */
+  async getToolDefinitions(userId: number): Promise<ToolDefinition[]> {
+    const servers = await this.serverRepo.find({ where: { userId, enabled: true } });
+    const definitions: ToolDefinition[] = [];
+
+    for (const server of servers) {
+      let connection: McpConnection;
+      try {
+        connection = await this.getConnection(server);
+      } catch (error) {
+        console.warn(`[MCP] 连接服务 ${server.name} 失败，本次对话不提供其工具:`, error);
+        continue;
+      }
+      for (const tool of connection.tools) {
+        const schema = tool.inputSchema || {};
+        definitions.push({
+          type: "function",
+          function: {
+            name: toApiToolName(server.id, tool.name),
+            description: `[${server.name}] ${tool.description || tool.title || tool.name}`,
+            parameters: {
+              ...schema,
+              type: "object",
+              properties: schema.properties || {},
+              required: schema.required || [],
+            },
+          },
+          executionLocation: "backend",
+        });
+      }
+    }
+    return definitions;
+  }
+
+  /**
+   * 调用 MCP 工具
+   */
+  async callTool(
+    userId: number,
+    toolName: string,
+    args: Record<string, any>
+  ): Promise<{ success: boolean; result?: any; error?: string }> {
+    const match = toolName.match(MCP_TOOL_NAME_PATTERN);
+    const server = match
+      ? await this.serverRepo.findOne({ where: { id: Number(match[1]), userId, enabled: true } })
+      : null;
+    if (!server) {
+      return { success: false, error: `MCP 服务不存在或已停用: ${toolName}` };
+    }
+
+    const connection = await this.getConnection(server);
+    const tool = connection.tools.find((t) => toApiToolName(server.id, t.name) === toolName);
+    if (!tool) {
+      return { success: false, error: `${server.name} 没有提供工具 ${toolName}` };
+    }
+
+    console.log(`[MCP] 调用 ${server.name} 的工具 ${tool.name}`);
+    const result = await connection.callTool(tool.name, args);
+    const content = formatToolContent(result);
+    if (result?.isError) {
+      return { success: false, error: content || "工具执行失败" };
+    }
+    return { success: true, result: content };
+  }
+}
+
+export const mcpClientManager = new McpClientManager();
@@ -0,0 +1,218 @@
+/**
+ * 发布信息建议
+ * 用默认 AI 模型根据文章内容生成候选标题、摘要、标签和分类，
+ * 标签和分类映射为平台上真实存在的 ID，并按平台的长度限制校验。
+ */
+
+import { generateText } from "ai";
+import { AppDataSource } from "../db";
+import type { Article } from "../entities/Article";
+import { AIModel, AIProvider } from "../entities/AIProvider";
+import { createUserProviderAdapter } from "./aiProviderAdapter";
+import { CLAUDE_CODE_SYSTEM_PREFIX } from "./claudeCodeAuth";
+import { aiUsageService } from "./aiUsage";
+import type { PublisherAdapter, PublisherTag } from "./publishers";
+
+export class MetadataSuggestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MetadataSuggestionError";
+  }
+}
+
+export interface MetadataSuggestion {
+  titles: string[];
+  summary: string | null;
+  tags: PublisherTag[];
+  category: PublisherTag | null;
+  // 不满足平台限制、没有找到对应标签等需要用户注意的情况
+  warnings: string[];
+}
+
+// 候选标题数量
+const TITLE_COUNT = 5;
+// 发送给模型的正文最大长度
+const MAX_CONTENT_CHARS = 12000;
+
+/**
+ * 从模型回复中取出 JSON 对象（允许包裹在代码块或说明文字中）
+ */
+function parseJsonReply(text: string): Record<string, unknown> {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    throw new MetadataSuggestionError("模型没有返回有效的结果，请重试");
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new MetadataSuggestionError("模型返回的结果无法解析，请重试");
+  }
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string").map((item) => item.trim()).filter(Boolean)
+    : [];
+}
+
+function buildPrompt(
+  article: Article,
+  publisher: PublisherAdapter,
+  categories: PublisherTag[]
+): { system: string; prompt: string } {
+  const { title, summary, maxTags } = publisher.metadataLimits;
+  const fields = [
+    `- titles: ${TITLE_COUNT} 个候选标题，每个 ${title.min}-${title.max} 字，风格各不相同，不使用标题党措辞`,
+    summary
+      ? `- summary: 文章摘要，${summary.min > 0 ? `${summary.min}-${summary.max}` : `不超过 ${summary.max}`} 字，概括文章解决的问题和核心结论`
+      : null,
+    `- tags: ${maxTags * 2} 个按相关度排序的标签关键词，使用该平台常见的技术名词（如 JavaScript、Docker、性能优化）`,
+    categories.length > 0
+      ? `- category: 从以下分类中选择最合适的一个，原样输出名称：${categories.map((c) => c.name).join("、")}`
+      : null,
+  ].filter(Boolean);
+
+  const system = `你负责为技术文章填写发布到${publisher.name}所需的信息。
+只输出一个 JSON 对象，不要输出其他内容，字段如下：
+${fields.join("\n")}
+
+字数按字符计算，中英文、标点都算一个字符。使用与文章相同的语言。`;
+
+  const content = article.content.length > MAX_CONTENT_CHARS
+    ? `${article.content.slice(0, MAX_CONTENT_CHARS)}\n…（正文过长，已截断）`
+    : article.content;
+
+  return {
+    system,
+    prompt: `文章标题：${article.title}\n\n文章正文：\n${content}`,
+  };
+}
+
+class MetadataSuggestionService {
+  /**
+   * 用户的默认模型及其供应商
+   */
+  private async getDefaultModel(userId: number): Promise<{ model: AIModel; provider: AIProvider }> {
+    const model = await AppDataSource.getRepository(AIModel).findOne({
+      where: { userId, isDefault: true, enabled: true },
+    });
+    const provider = model
+      ? await AppDataSource.getRepository(AIProvider).findOne({
+          where: { id: model.providerId, userId, enabled: true },
+        })
+      : null;
+    if (!model || !provider) {
+      throw new MetadataSuggestionError("请先在 AI 配置中设置默认模型");
+    }
+    return { model, provider };
+  }
+
+  /**
+   * 按模型给出的关键词搜索平台标签：优先名称完全一致的标签，否则取搜索结果的第一个
+   */
+  private async resolveTags(
+    keywords: string[],
+    publisher: PublisherAdapter,
+    userId: number
+  ): Promise<{ tags: PublisherTag[]; missing: string[] }> {
+    const tags: PublisherTag[] = [];
+    const missing: string[] = [];
+    for (const keyword of keywords) {
+      if (tags.length >= publisher.metadataLimits.maxTags) break;
+      const results = await publisher.searchTags(keyword, userId);
+      const tag = results.find((r) => r.name.toLowerCase() === keyword.toLowerCase()) || results[0];
+      if (!tag) {
+        missing.push(keyword);
+      } else if (!tags.some((t) => t.id === tag.id)) {
+        tags.push(tag);
+      }
+    }
+    return { tags, missing };
+  }
+
+  /**
+   * 生成发布信息建议
+   * 平台未登录时搜索标签会抛出 PlatformNotLoggedInError
+   */
+  async suggest(userId: number, article: Article, publisher: PublisherAdapter): Promise<MetadataSuggestion> {
+    if (!article.content.trim()) {
+      throw new MetadataSuggestionError("文章内容为空");
+    }
+    const { model, provider } = await this.getDefaultModel(userId);
+    const budgetStatus = await aiUsageService.getBudgetStatus(userId);
+    if (budgetStatus.state === "blocked") {
+      throw new MetadataSuggestionError(budgetStatus.message || "已超出 AI 用量预算");
+    }
+
+    const categories = publisher.listCategories ? await publisher.listCategories(userId) : [];
+    const { system, prompt } = buildPrompt(article, publisher, categories);
+    const adapter = await createUserProviderAdapter(provider, userId);
+    const result = await generateText({
+      model: adapter.createModel(model.modelId),
+      system: provider.sdkType === "claude-code" ? `${CLAUDE_CODE_SYSTEM_PREFIX}\n\n${system}` : system,
+      prompt,
+      maxOutputTokens: 1024,
+    });
+    await aiUsageService.record({
+      userId,
+      provider,
+      model,
+      modelId: model.modelId,
+      articleId: article.id,
+      source: "metadata",
+      usage: {
+        inputTokens: result.usage.inputTokens || 0,
+        outputTokens: result.usage.outputTokens || 0,
+        cachedInputTokens: result.usage.inputTokenDetails?.cacheReadTokens || 0,
+      },
+    });
+
+    const reply = parseJsonReply(result.text);
+    const limits = publisher.metadataLimits;
+    const warnings: string[] = [];
+
+    // 标题：去重，丢弃不满足长度限制的
+    const candidates = [...new Set(toStringList(reply.titles))];
+    const titles = candidates
+      .filter((t) => t.length >= limits.title.min && t.length <= limits.title.max)
+      .slice(0, TITLE_COUNT);
+    if (titles.length < candidates.length) {
+      warnings.push(`已忽略 ${candidates.length - titles.length} 个长度不符合要求（${limits.title.min}-${limits.title.max} 字）的标题`);
+    }
+
+    // 摘要：过长时截断，过短时提示补充
+    let summary: string | null = null;
+    if (limits.summary && typeof reply.summary === "string" && reply.summary.trim()) {
+      summary = reply.summary.trim();
+      if (summary.length > limits.summary.max) {
+        summary = summary.slice(0, limits.summary.max);
+        warnings.push(`摘要超过 ${limits.summary.max} 字，已截断，请检查结尾是否完整`);
+      } else if (summary.length < limits.summary.min) {
+        warnings.push(`摘要不足 ${limits.summary.min} 字，请补充`);
+      }
+    }
+
+    const { tags, missing } = await this.resolveTags(toStringList(reply.tags), publisher, userId);
+    if (tags.length === 0) {
+      warnings.push(`没有在${publisher.name}找到合适的标签，请手动选择`);
+    } else if (missing.length > 0 && tags.length < limits.maxTags) {
+      warnings.push(`以下标签在${publisher.name}不存在：${missing.join("、")}`);
+    }
+
+    let category: PublisherTag | null = null;
+    if (categories.length > 0 && typeof reply.category === "string") {
+      const name = reply.category.trim();
+      category = categories.find((c) => c.name === name)
+        || categories.find((c) => name.includes(c.name) || c.name.includes(name))
+        || null;
+      if (!category) {
+        warnings.push("没有匹配到合适的分类，请手动选择");
+      }
+    }
+
+    return { titles, summary, tags, category, warnings };
+  }
+}
+
+export const metadataSuggestionService = new MetadataSuggestionService();
@@ -0,0 +1,76 @@
+/**
+ * 角色权限
+ * 每个角色拥有一组权限，tRPC 中间件按 procedure 所需的权限校验当前管理员的角色。
+ * 用户管理和数据导入导出仍然只允许超级管理员（superAdminProcedure）。
+ */
+
+import { AdminRole } from "../entities/AdminUser";
+
+// 权限
+export enum Permission {
+  ARTICLE_WRITE = "article:write", // 创建、编辑、删除文章和文件夹
+  ARTICLE_REVIEW = "article:review", // 审核文章
+  ARTICLE_PUBLISH = "article:publish", // 发布、同步草稿、定时发布
+  PLATFORM_MANAGE = "platform:manage", // 登录、退出发布平台账号
+}
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  [Permission.ARTICLE_WRITE]: "撰写文章",
+  [Permission.ARTICLE_REVIEW]: "审核文章",
+  [Permission.ARTICLE_PUBLISH]: "发布文章",
+  [Permission.PLATFORM_MANAGE]: "管理平台账号",
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  [AdminRole.SUPER_ADMIN]: "超级管理员",
+  [AdminRole.ADMIN]: "管理员",
+  [AdminRole.EDITOR]: "编辑",
+  [AdminRole.REVIEWER]: "审核",
+  [AdminRole.PUBLISHER]: "发布",
+};
+
+const ALL_PERMISSIONS = Object.values(Permission);
+
+// 权限矩阵
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  [AdminRole.SUPER_ADMIN]: ALL_PERMISSIONS,
+  [AdminRole.ADMIN]: ALL_PERMISSIONS,
+  [AdminRole.EDITOR]: [Permission.ARTICLE_WRITE],
+  [AdminRole.REVIEWER]: [Permission.ARTICLE_REVIEW],
+  [AdminRole.PUBLISHER]: [
+    Permission.ARTICLE_WRITE,
+    Permission.ARTICLE_PUBLISH,
+    Permission.PLATFORM_MANAGE,
+  ],
+};
+
+/**
+ * 获取角色拥有的权限，未知角色没有任何权限
+ */
+export function getRolePermissions(role: AdminRole): Permission[] {
+  return ROLE_PERMISSIONS[role] ?? [];
+}
+
+/**
+ * 角色是否拥有指定权限
+ */
+export function roleHasPermission(role: AdminRole, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
+
+/**
+ * 权限矩阵（用于设置页面展示）
+ */
+export function getPermissionMatrix() {
+  return {
+    permissions: ALL_PERMISSIONS.map((permission) => ({
+      id: permission,
+      label: PERMISSION_LABELS[permission],
+    })),
+    roles: Object.values(AdminRole).map((role) => ({
+      id: role,
+      label: ROLE_LABELS[role],
+      permissions: getRolePermissions(role),
+    })),
+  };
+}
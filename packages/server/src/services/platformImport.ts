@@ -0,0 +1,382 @@
+/**
+ * 平台文章导入
+ * 将平台上已有的文章拉取到本地文章库：下载正文中的图片到本地，并关联平台文章ID，
+ * 之后在本地修改再同步时会更新平台上的同一篇文章，而不是新建
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { In } from "typeorm";
+import { AppDataSource } from "../db";
+import { Article, ArticleStatus } from "../entities/Article";
+import { ArticlePublication } from "../entities/ArticlePublication";
+import type { VersionSource } from "../entities/ArticleVersion";
+import { articlePublicationService } from "./articlePublication";
+import { auditLogService, type AuditActor } from "./auditLog";
+import { getUploadDir } from "./dataDir";
+import { assertPublicUrl } from "./publicUrl";
+import { simpleHash, syncConflictDetector } from "./syncConflictDetector";
+import { requirePublisher, type RemoteArticle, type RemoteArticleSummary } from "./publishers";
+import { workspaceService } from "./workspace";
+
+// 外部图片：![alt](https://... "title")
+const REMOTE_IMAGE_PATTERN = /!\[([^\]]*)\]\((https?:\/\/[^"\s)]+)(\s+["'][^"']*["'])?\)/g;
+
+const IMAGE_DOWNLOAD_TIMEOUT = 15000;
+const IMAGE_MAX_SIZE = 10 * 1024 * 1024;
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "bmp", "svg"];
+
+/**
+ * 读取图片内容，超过大小限制时中止（先看 Content-Length，没有时边读边计数）
+ */
+async function readImageBody(response: Response): Promise<Buffer> {
+  const tooLarge = () => new Error("图片超过 10MB");
+  if (Number(response.headers.get("content-length") || 0) > IMAGE_MAX_SIZE) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > IMAGE_MAX_SIZE) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 导入列表中的一项，附带与本地文章的对应关系
+ */
+export interface ImportCandidate extends RemoteArticleSummary {
+  /** 已关联该平台文章的本地文章 */
+  linkedArticleId?: number;
+  /** 标题相同、尚未关联的本地文章（导入时直接关联） */
+  duplicateArticleId?: number;
+}
+
+/**
+ * 单篇文章的导入结果
+ * created：新建本地文章；linked：关联到已有的同名或同内容文章；skipped：已关联过；failed：失败
+ */
+export interface ImportResult {
+  key: string;
+  title?: string;
+  action: "created" | "linked" | "skipped" | "failed";
+  articleId?: number;
+  /** 下载到本地的图片数量 */
+  images?: number;
+  /** 下载失败、保留原地址的图片数量 */
+  failedImages?: number;
+  message?: string;
+}
+
+type LinkedRemote = Pick<ArticlePublication, "articleId" | "remoteId" | "draftId">;
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content.trim()).digest("hex");
+}
+
+/**
+ * 平台文章与本地发布记录是否是同一篇
+ */
+function isSameRemote(
+  publication: LinkedRemote,
+  remote: Pick<RemoteArticleSummary, "remoteId" | "draftId">
+): boolean {
+  return (
+    (!!remote.remoteId && publication.remoteId === remote.remoteId) ||
+    (!!remote.draftId && publication.draftId === remote.draftId)
+  );
+}
+
+class PlatformImportService {
+  /**
+   * 当前用户可访问的文章在指定平台上的发布记录
+   */
+  private async listPublications(articleIds: number[], platform: string): Promise<LinkedRemote[]> {
+    if (articleIds.length === 0) {
+      return [];
+    }
+    return AppDataSource.getRepository(ArticlePublication).find({
+      select: ["articleId", "remoteId", "draftId"],
+      where: { articleId: In(articleIds), platform },
+    });
+  }
+
+  private async listArticles(articleIds: number[]) {
+    if (articleIds.length === 0) {
+      return [];
+    }
+    return AppDataSource.getRepository(Article).find({
+      select: ["id", "title", "content"],
+      where: { id: In(articleIds) },
+    });
+  }
+
+  /**
+   * 分页列出平台上的文章，并标记已关联和同名的本地文章
+   */
+  async listRemote(
+    userId: number,
+    platform: string,
+    page: number
+  ): Promise<{ items: ImportCandidate[]; hasMore: boolean }> {
+    const publisher = requirePublisher(platform);
+
+    const result = await publisher.listRemoteArticles(userId, page);
+    const articleIds = await workspaceService.findAccessibleArticleIds(userId);
+    const publications = await this.listPublications(articleIds, platform);
+    // 只能关联到可以编辑的文章
+    const editableIds = await workspaceService.findAccessibleArticleIds(userId, "edit");
+    const articles = editableIds.length
+      ? await AppDataSource.getRepository(Article).find({
+          select: ["id", "title"],
+          where: { id: In(editableIds) },
+        })
+      : [];
+    const linkedIds = new Set(publications.map((p) => p.articleId));
+
+    return {
+      hasMore: result.hasMore,
+      items: result.items.map((item) => ({
+        ...item,
+        linkedArticleId: publications.find((p) => isSameRemote(p, item))?.articleId,
+        duplicateArticleId: articles.find(
+          (a) => a.title.trim() === item.title.trim() && !linkedIds.has(a.id)
+        )?.id,
+      })),
+    };
+  }
+
+  /**
+   * 导入平台文章
+   * 已关联的文章跳过；标题或正文相同且尚未关联该平台的本地文章直接关联，不覆盖本地内容；
+   * 关联后同步会把本地文章推送到平台，所以只关联有编辑权限的文章；其余新建本地文章
+   */
+  async importArticles(
+    actor: AuditActor,
+    platform: string,
+    keys: string[],
+    folderId?: number
+  ): Promise<ImportResult[]> {
+    const publisher = requirePublisher(platform);
+
+    const articleIds = await workspaceService.findAccessibleArticleIds(actor.userId);
+    const publications = await this.listPublications(articleIds, platform);
+    const editableIds = await workspaceService.findAccessibleArticleIds(actor.userId, "edit");
+    const articles = (await this.listArticles(editableIds)).map((a) => ({
+      id: a.id,
+      title: a.title.trim(),
+      hash: hashContent(a.content),
+    }));
+
+    const results: ImportResult[] = [];
+    for (const key of keys) {
+      try {
+        const remote = await publisher.fetchRemoteArticle(key, actor.userId);
+        const linked = publications.find((p) => isSameRemote(p, remote));
+        if (linked) {
+          results.push({
+            key,
+            title: remote.title,
+            action: "skipped",
+            articleId: linked.articleId,
+            message: "已导入",
+          });
+          continue;
+        }
+
+        const hash = hashContent(remote.content);
+        const duplicate = articles.find(
+          (a) =>
+            (a.title === remote.title.trim() || a.hash === hash) &&
+            !publications.some((p) => p.articleId === a.id)
+        );
+        const article = duplicate
+          ? await AppDataSource.getRepository(Article).findOneOrFail({ where: { id: duplicate.id } })
+          : null;
+
+        const result = article
+          ? await this.linkArticle(actor, platform, article, remote)
+          : await this.createArticle(actor, platform, remote, folderId);
+        publications.push({
+          articleId: result.articleId!,
+          remoteId: remote.remoteId,
+          draftId: remote.draftId,
+        });
+        if (result.action === "created") {
+          articles.push({ id: result.articleId!, title: remote.title.trim(), hash });
+        }
+        results.push(result);
+      } catch (error) {
+        results.push({
+          key,
+          action: "failed",
+          message: error instanceof Error ? error.message : "导入失败",
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * 将平台文章关联到已有的本地文章
+   */
+  private async linkArticle(
+    actor: AuditActor,
+    platform: string,
+    article: Article,
+    remote: RemoteArticle
+  ): Promise<ImportResult> {
+    await this.savePublication(article.id, platform, remote);
+    await auditLogService.recordArticle(actor, "article.import", article, {
+      detail: { platform, remoteId: remote.remoteId ?? remote.draftId, linked: true },
+    });
+    return { key: remote.key, title: remote.title, action: "linked", articleId: article.id };
+  }
+
+  /**
+   * 新建本地文章，图片下载到文章的上传目录
+   */
+  private async createArticle(
+    actor: AuditActor,
+    platform: string,
+    remote: RemoteArticle,
+    folderId?: number
+  ): Promise<ImportResult> {
+    const articleRepo = AppDataSource.getRepository(Article);
+    const published = remote.status === "published";
+
+    const article = new Article();
+    article.title = remote.title.trim() || "未命名文章";
+    article.content = remote.content;
+    article.summary = remote.summary;
+    article.tags = remote.tags?.length ? remote.tags : undefined;
+    article.status = published ? ArticleStatus.PUBLISHED : ArticleStatus.DRAFT;
+    article.publishedAt = published && remote.updatedAt ? new Date(remote.updatedAt) : undefined;
+    article.folderId = folderId;
+    article.userId = actor.userId;
+    article.localVersion = 1;
+    article.syncStatus = "synced";
+    article.serverUpdatedAt = new Date();
+    await articleRepo.save(article);
+
+    // 图片目录按文章 ID 划分，需要先保存文章再下载图片
+    const localized = await this.downloadImages(article.id, remote.content);
+    if (localized.content !== article.content) {
+      article.content = localized.content;
+      await articleRepo.save(article);
+    }
+
+    // 合并基准是平台上的内容（图片仍为平台地址），与之后获取的平台内容一致
+    const pushedVersionId = await syncConflictDetector.snapshotPushedContent(
+      article,
+      remote.content,
+      platform as VersionSource
+    );
+    await this.savePublication(article.id, platform, remote, pushedVersionId);
+    await auditLogService.recordArticle(actor, "article.import", article, {
+      detail: {
+        platform,
+        remoteId: remote.remoteId ?? remote.draftId,
+        images: localized.downloaded,
+        failedImages: localized.failed || undefined,
+      },
+    });
+
+    return {
+      key: remote.key,
+      title: article.title,
+      action: "created",
+      articleId: article.id,
+      images: localized.downloaded,
+      failedImages: localized.failed,
+    };
+  }
+
+  /**
+   * @param pushedVersionId 导入时创建的文章以导入的内容作为合并基准；关联已有文章时两边内容可能不同，不记录基准
+   */
+  private async savePublication(articleId: number, platform: string, remote: RemoteArticle, pushedVersionId?: number) {
+    await articlePublicationService.upsert(articleId, platform, {
+      remoteId: remote.remoteId,
+      draftId: remote.draftId,
+      url: remote.url,
+      status: remote.status,
+      lastSyncedAt: new Date(),
+      // 以导入时的平台内容为基准，之后在平台上的修改会被发现
+      remoteContentHash: simpleHash(remote.content),
+      pushedVersionId,
+    });
+  }
+
+  /**
+   * 下载正文中的外部图片到 /uploads/{articleId}，并替换为本地地址
+   * 下载失败的图片保留原地址；图片地址来自平台正文，只下载公网地址且不跟随重定向
+   */
+  private async downloadImages(
+    articleId: number,
+    content: string
+  ): Promise<{ content: string; downloaded: number; failed: number }> {
+    const urls = [...new Set([...content.matchAll(REMOTE_IMAGE_PATTERN)].map((m) => m[2]))];
+    if (urls.length === 0) {
+      return { content, downloaded: 0, failed: 0 };
+    }
+
+    const articleDir = join(getUploadDir(), String(articleId));
+    if (!existsSync(articleDir)) {
+      mkdirSync(articleDir, { recursive: true });
+    }
+
+    const replacements = new Map<string, string>();
+    for (const url of urls) {
+      try {
+        await assertPublicUrl(url);
+        const response = await fetch(url, {
+          signal: AbortSignal.timeout(IMAGE_DOWNLOAD_TIMEOUT),
+          redirect: "error",
+        });
+        const contentType = response.headers.get("content-type") || "";
+        if (!response.ok || !contentType.startsWith("image/")) {
+          throw new Error(`下载图片失败: ${response.status}`);
+        }
+        const buffer = await readImageBody(response);
+
+        const typeExt = contentType.match(/image\/([a-z]+)/)?.[1];
+        const urlExt = new URL(url).pathname.match(/\.([a-zA-Z]+)$/)?.[1]?.toLowerCase();
+        const ext = [typeExt === "jpeg" ? "jpg" : typeExt, urlExt].find(
+          (e): e is string => !!e && IMAGE_EXTENSIONS.includes(e)
+        ) || "png";
+
+        const fileName = `${randomUUID()}.${ext}`;
+        writeFileSync(join(articleDir, fileName), new Uint8Array(buffer));
+        replacements.set(url, `/uploads/${articleId}/${fileName}`);
+      } catch (error) {
+        console.warn(`[PlatformImport] 图片下载失败，保留原地址: ${url}`, error);
+      }
+    }
+
+    return {
+      content: content.replace(REMOTE_IMAGE_PATTERN, (match, alt, url, title = "") => {
+        const local = replacements.get(url);
+        return local ? `![${alt}](${local}${title})` : match;
+      }),
+      downloaded: replacements.size,
+      failed: urls.length - replacements.size,
+    };
+  }
+}
+
+export const platformImportService = new PlatformImportService();
@@ -0,0 +1,293 @@
+/**
+ * 提示词库
+ * 用户保存常用的提示词，在 AI 助手输入框中通过 /指令 调用，或作为自定义系统提示词追加到每次对话。
+ * 条目以 Markdown 文件导入导出：文件名即指令名，开头的 front matter 记录名称、说明和类型，其余为提示词正文。
+ */
+
+import JSZip from "jszip";
+import { AppDataSource } from "../db";
+import { PromptTemplate, type PromptTemplateKind } from "../entities/PromptTemplate";
+import { User } from "../entities/User";
+import { SystemPrompt } from "./promptTemplate";
+
+export class PromptLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptLibraryError";
+  }
+}
+
+/**
+ * 模板变量
+ * - selection: 编辑器中选中的文字
+ * - title: 文章标题
+ * - platform: 当前预览的发布平台
+ */
+export interface PromptVariables {
+  selection?: string;
+  title?: string;
+  platform?: string;
+}
+
+export interface PromptTemplateInput {
+  command: string;
+  name: string;
+  description?: string | null;
+  content: string;
+  kind: PromptTemplateKind;
+  enabled: boolean;
+}
+
+// 指令名：字母、数字（含中文）、- 和 _，不能以符号开头
+export const COMMAND_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N}_-]*$/u;
+
+// 单个 Markdown 文件的最大长度
+const MAX_FILE_CHARS = 50_000;
+
+// 解压单个文件时的字节上限（UTF-8 下每个字符最多 4 字节）
+const MAX_FILE_BYTES = MAX_FILE_CHARS * 4;
+
+/**
+ * 替换模板中的 {{变量}}，未知变量保持原样
+ */
+export function renderPromptTemplate(content: string, variables: PromptVariables): string {
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    Object.hasOwn(variables, key) ? (variables[key as keyof PromptVariables] ?? "") : match
+  );
+}
+
+/**
+ * 解析 Markdown 文件
+ * front matter 只支持单行的 key: value
+ */
+export function parsePromptMarkdown(fileName: string, text: string): PromptTemplateInput {
+  const command = fileName.replace(/^.*[\\/]/, "").replace(/\.md$/i, "").trim();
+  if (!COMMAND_PATTERN.test(command)) {
+    throw new PromptLibraryError(`文件名 ${fileName} 不是有效的指令名`);
+  }
+
+  const normalized = text.replace(/^﻿/, "").replace(/\r\n/g, "\n");
+  const meta: Record<string, string> = {};
+  let body = normalized;
+  const frontMatter = normalized.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontMatter) {
+    for (const line of frontMatter[1].split("\n")) {
+      const index = line.indexOf(":");
+      if (index > 0) {
+        meta[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+      }
+    }
+    body = normalized.slice(frontMatter[0].length);
+  }
+
+  const content = body.trim();
+  if (!content) {
+    throw new PromptLibraryError(`${fileName} 没有提示词内容`);
+  }
+  return {
+    command,
+    name: meta.name || command,
+    description: meta.description || null,
+    content,
+    kind: meta.kind === "system" ? "system" : "command",
+    enabled: meta.enabled !== "false",
+  };
+}
+
+/**
+ * 生成 Markdown 文件内容
+ */
+export function toPromptMarkdown(template: PromptTemplate): string {
+  const meta = [`name: ${template.name}`];
+  if (template.description) meta.push(`description: ${template.description.replace(/\n/g, " ")}`);
+  if (template.kind === "system") meta.push("kind: system");
+  if (!template.enabled) meta.push("enabled: false");
+  return `---\n${meta.join("\n")}\n---\n\n${template.content.trim()}\n`;
+}
+
+/**
+ * 读取压缩包中的文件，解压超过 maxBytes 时停止并返回 null
+ * 不信任压缩包中记录的大小，边解压边计数
+ */
+function readZipEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.removeAllListeners("data");
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    stream.on("error", reject);
+  });
+}
+
+class PromptLibraryService {
+  private get repo() {
+    return AppDataSource.getRepository(PromptTemplate);
+  }
+
+  /**
+   * 提示词列表，首次使用时导入内置提示词；之后删除的内置提示词不会再自动恢复
+   */
+  async list(userId: number): Promise<PromptTemplate[]> {
+    const userRepo = AppDataSource.getRepository(User);
+    const user = await userRepo.findOne({ where: { id: userId } });
+    if (user && !user.promptLibrarySeeded) {
+      await this.importDefaults(userId);
+      await userRepo.update(userId, { promptLibrarySeeded: true });
+    }
+    return this.repo.find({ where: { userId }, order: { kind: "ASC", command: "ASC" } });
+  }
+
+  async findById(userId: number, id: number): Promise<PromptTemplate> {
+    const template = await this.repo.findOne({ where: { id, userId } });
+    if (!template) {
+      throw new PromptLibraryError("提示词不存在");
+    }
+    return template;
+  }
+
+  private async assertCommandAvailable(userId: number, command: string, excludeId?: number) {
+    const existing = await this.repo.findOne({ where: { userId, command } });
+    if (existing && existing.id !== excludeId) {
+      throw new PromptLibraryError(`指令 /${command} 已存在`);
+    }
+  }
+
+  async create(userId: number, input: PromptTemplateInput): Promise<PromptTemplate> {
+    await this.assertCommandAvailable(userId, input.command);
+    return this.repo.save(this.repo.create({ ...input, userId }));
+  }
+
+  async update(userId: number, id: number, input: Partial<PromptTemplateInput>): Promise<PromptTemplate> {
+    const template = await this.findById(userId, id);
+    if (input.command !== undefined && input.command !== template.command) {
+      await this.assertCommandAvailable(userId, input.command, id);
+    }
+    Object.assign(template, input);
+    return this.repo.save(template);
+  }
+
+  async delete(userId: number, id: number): Promise<void> {
+    const template = await this.findById(userId, id);
+    await this.repo.remove(template);
+  }
+
+  /**
+   * 导入 Markdown 文件，指令已存在时按 overwrite 覆盖或跳过
+   */
+  async importMarkdown(
+    userId: number,
+    files: Array<{ fileName: string; content: string }>,
+    overwrite: boolean
+  ): Promise<{ created: number; updated: number; skipped: number; errors: string[] }> {
+    const result = { created: 0, updated: 0, skipped: 0, errors: [] as string[] };
+    for (const file of files) {
+      let input: PromptTemplateInput;
+      try {
+        if (file.content.length > MAX_FILE_CHARS) {
+          throw new PromptLibraryError(`${file.fileName} 超过 ${MAX_FILE_CHARS} 字`);
+        }
+        input = parsePromptMarkdown(file.fileName, file.content);
+      } catch (error) {
+        result.errors.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      const existing = await this.repo.findOne({ where: { userId, command: input.command } });
+      if (!existing) {
+        await this.repo.save(this.repo.create({ ...input, userId }));
+        result.created++;
+      } else if (overwrite) {
+        Object.assign(existing, input);
+        await this.repo.save(existing);
+        result.updated++;
+      } else {
+        result.skipped++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 导入 ZIP 压缩包中的所有 Markdown 文件
+   */
+  async importZip(userId: number, zipBase64: string, overwrite: boolean) {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(Buffer.from(zipBase64, "base64"));
+    } catch {
+      throw new PromptLibraryError("无法读取 ZIP 文件");
+    }
+    const files: Array<{ fileName: string; content: string }> = [];
+    const oversized: string[] = [];
+    for (const entry of Object.values(zip.files)) {
+      if (!entry.dir && entry.name.toLowerCase().endsWith(".md")) {
+        const content = await readZipEntry(entry, MAX_FILE_BYTES);
+        if (content === null) {
+          oversized.push(`${entry.name} 超过 ${MAX_FILE_CHARS} 字`);
+        } else {
+          files.push({ fileName: entry.name, content });
+        }
+      }
+    }
+    if (files.length === 0 && oversized.length === 0) {
+      throw new PromptLibraryError("ZIP 文件中没有 Markdown 文件");
+    }
+    const result = await this.importMarkdown(userId, files, overwrite);
+    result.errors.unshift(...oversized);
+    return result;
+  }
+
+  /**
+   * 导入内置提示词（已存在的指令不覆盖）
+   */
+  async importDefaults(userId: number) {
+    return this.importMarkdown(userId, SystemPrompt.library(), false);
+  }
+
+  /**
+   * 导出单个提示词
+   */
+  async exportMarkdown(userId: number, id: number): Promise<{ fileName: string; content: string }> {
+    const template = await this.findById(userId, id);
+    return { fileName: `${template.command}.md`, content: toPromptMarkdown(template) };
+  }
+
+  /**
+   * 导出全部提示词为 ZIP（base64）
+   */
+  async exportZip(userId: number): Promise<string> {
+    const templates = await this.repo.find({ where: { userId }, order: { command: "ASC" } });
+    const zip = new JSZip();
+    for (const template of templates) {
+      zip.file(`${template.command}.md`, toPromptMarkdown(template));
+    }
+    const buffer = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+    return buffer.toString("base64");
+  }
+
+  /**
+   * 已启用的自定义系统提示词，按指令名排序拼接
+   */
+  async getSystemInstructions(userId: number, variables: PromptVariables): Promise<string> {
+    const templates = await this.repo.find({
+      where: { userId, kind: "system", enabled: true },
+      order: { command: "ASC" },
+    });
+    return templates
+      .map((template) => renderPromptTemplate(template.content, variables).trim())
+      .filter(Boolean)
+      .join("\n\n");
+  }
+}
+
+export const promptLibraryService = new PromptLibraryService();
@@ -8,7 +8,7 @@
  * - 支持环境信息注入
  */
 
-import { readFileSync, existsSync } from "fs";
+import { readFileSync, readdirSync, existsSync } from "fs";
 import { resolve, dirname, join } from "path";
 import { fileURLToPath } from "url";
 
@@ -145,6 +145,21 @@ export namespace SystemPrompt {
     templateCache.clear();
   }
 
+  /**
+   * 加载内置的提示词库（prompts/library 目录下的 .md 文件）
+   */
+  export function library(): Array<{ fileName: string; content: string }> {
+    const libraryDir = join(getPromptsDir(), "library");
+    if (!existsSync(libraryDir)) {
+      console.warn(`[SystemPrompt] 未找到内置提示词库: ${libraryDir}`);
+      return [];
+    }
+    return readdirSync(libraryDir)
+      .filter((fileName) => fileName.endsWith(".md"))
+      .sort()
+      .map((fileName) => ({ fileName, content: readFileSync(join(libraryDir, fileName), "utf-8") }));
+  }
+
   /**
    * 获取基础系统提示词
    */
@@ -0,0 +1,71 @@
+/**
+ * 公网地址校验
+ */
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+/**
+ * 是否为本机、内网、链路本地等非公网地址
+ */
+function isPrivateAddress(address: string): boolean {
+  // IPv4 映射地址（::ffff:10.0.0.1，URL 中会被规范为 ::ffff:a00:1）按 IPv4 判断
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = address.toLowerCase().match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) || // 运营商级 NAT
+      (a === 169 && b === 254) || // 链路本地，包括云服务器元数据地址
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224 // 组播和保留地址
+    );
+  }
+
+  const ip = address.toLowerCase();
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    /^f[cd]/.test(ip) || // 唯一本地地址 fc00::/7
+    /^fe[89ab]/.test(ip) // 链路本地 fe80::/10
+  );
+}
+
+/**
+ * 校验地址只指向公网
+ * 服务端代用户请求的地址（MCP 服务、导入文章中的图片等）需要先校验，防止借此访问服务器所在的内网
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("地址无效");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("只支持 http 和 https 地址");
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true })).map((item) => item.address);
+  } catch {
+    throw new Error(`无法解析地址: ${hostname}`);
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error("不能访问本机或内网地址");
+  }
+}
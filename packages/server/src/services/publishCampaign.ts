@@ -0,0 +1,318 @@
+/**
+ * 多平台发布活动服务
+ * 一次操作将文章发布到多个平台：为每个平台创建一条关联到活动的定时任务，
+ * 由调度器执行，全部执行完毕后汇总结果并发送一封通知邮件
+ */
+
+import { In } from "typeorm";
+import { AppDataSource } from "../db";
+import { Article, ArticleStatus } from "../entities/Article";
+import { ScheduledTask, TaskStatus, Platform } from "../entities/ScheduledTask";
+import { PublishCampaign, CampaignStatus, CampaignMode } from "../entities/PublishCampaign";
+import { emailService } from "./emailService";
+import { getPublisher } from "./publishers";
+import { articleReviewService } from "./articleReview";
+import { publishLintService } from "./publishLint";
+import { schedulerService } from "./scheduler";
+
+/**
+ * 发布活动及其各平台任务
+ */
+export interface CampaignWithTasks extends PublishCampaign {
+  tasks: ScheduledTask[];
+}
+
+// 仍会被调度器执行的任务状态
+const ACTIVE_TASK_STATUSES = [TaskStatus.PENDING, TaskStatus.RUNNING];
+
+class PublishCampaignService {
+  // 使用 getter 懒加载，避免模块加载时数据库未初始化的问题
+  private get campaignRepo() {
+    return AppDataSource.getRepository(PublishCampaign);
+  }
+
+  private get taskRepo() {
+    return AppDataSource.getRepository(ScheduledTask);
+  }
+
+  /**
+   * 创建发布活动
+   * 各平台使用文章上已保存的发布配置，缺少配置的平台会直接报错
+   */
+  async createCampaign(params: {
+    articleId: number;
+    userId: number;
+    platforms: Platform[];
+    mode: CampaignMode;
+    staggerMinutes?: number;
+    scheduledAt?: Date;
+  }): Promise<CampaignWithTasks> {
+    const platforms = [...new Set(params.platforms)];
+    if (platforms.length === 0) {
+      throw new Error("请至少选择一个发布平台");
+    }
+
+    const article = await AppDataSource.getRepository(Article).findOne({
+      where: { id: params.articleId },
+    });
+    if (!article) {
+      throw new Error("文章不存在");
+    }
+    articleReviewService.assertPublishable(article);
+
+    const now = new Date();
+    if (params.scheduledAt && params.scheduledAt <= now) {
+      throw new Error("定时发布时间必须在当前时间之后");
+    }
+
+    const staggerMinutes =
+      params.mode === CampaignMode.STAGGERED ? Math.max(params.staggerMinutes || 0, 1) : 0;
+
+    // 创建任务前先检查所有平台，避免只创建了部分平台的任务
+    const startAt = params.scheduledAt || now;
+    const targets = [];
+    for (const [index, platform] of platforms.entries()) {
+      const publisher = getPublisher(platform);
+      if (!publisher?.capabilities.schedule) {
+        throw new Error(`不支持定时发布的平台: ${platform}`);
+      }
+
+      const config = await publisher.getSavedConfig(params.articleId);
+      if (!config) {
+        throw new Error(`${publisher.name}缺少发布配置，请先在该平台的发布弹窗中填写并保存`);
+      }
+
+      const existingTask = await this.taskRepo.findOne({
+        where: {
+          articleId: params.articleId,
+          platform,
+          status: In(ACTIVE_TASK_STATUSES),
+        },
+      });
+      if (existingTask) {
+        throw new Error(`该文章在${publisher.name}已有待执行的定时发布任务`);
+      }
+
+      await publishLintService.assertPublishable(params.articleId, platform, true);
+
+      // 与该平台其他定时任务的间隔检查
+      const scheduledAt = new Date(startAt.getTime() + index * staggerMinutes * 60 * 1000);
+      await schedulerService.resolveScheduledAt({
+        articleId: params.articleId,
+        userId: params.userId,
+        platform,
+        scheduledAt,
+        immediate: !params.scheduledAt,
+      });
+
+      targets.push({ platform, config, scheduledAt });
+    }
+
+    const campaign = await this.campaignRepo.save(
+      this.campaignRepo.create({
+        articleId: params.articleId,
+        userId: params.userId,
+        mode: params.mode,
+        staggerMinutes,
+        scheduledAt: startAt,
+        status: CampaignStatus.PENDING,
+      })
+    );
+
+    const tasks: ScheduledTask[] = [];
+    for (const target of targets) {
+      tasks.push(
+        await schedulerService.createTask({
+          articleId: params.articleId,
+          userId: params.userId,
+          platform: target.platform,
+          scheduledAt: target.scheduledAt,
+          config: target.config,
+          campaignId: campaign.id,
+          immediate: !params.scheduledAt,
+        })
+      );
+    }
+
+    console.log(
+      `[Campaign] 创建发布活动 #${campaign.id}, 文章ID: ${params.articleId}, 平台: ${platforms.join(", ")}, 方式: ${params.mode}`
+    );
+
+    return { ...campaign, tasks };
+  }
+
+  /**
+   * 获取发布活动及其任务
+   */
+  async getCampaign(campaignId: number, userId: number): Promise<CampaignWithTasks> {
+    const campaign = await this.campaignRepo.findOne({
+      where: { id: campaignId, userId },
+    });
+    if (!campaign) {
+      throw new Error("发布活动不存在");
+    }
+
+    return { ...campaign, tasks: await this.getTasks(campaign.id) };
+  }
+
+  /**
+   * 获取文章的发布活动列表（最新的在前）
+   */
+  async listByArticle(articleId: number, userId: number, limit = 10): Promise<CampaignWithTasks[]> {
+    const campaigns = await this.campaignRepo.find({
+      where: { articleId, userId },
+      order: { createdAt: "DESC" },
+      take: limit,
+    });
+    if (campaigns.length === 0) {
+      return [];
+    }
+
+    const tasks = await this.taskRepo.find({
+      where: { campaignId: In(campaigns.map((c) => c.id)) },
+      order: { scheduledAt: "ASC", id: "ASC" },
+    });
+
+    return campaigns.map((campaign) => ({
+      ...campaign,
+      tasks: tasks.filter((task) => task.campaignId === campaign.id),
+    }));
+  }
+
+  /**
+   * 重试活动中失败的平台
+   * 任务重新进入待执行状态，活动结束后会重新发送汇总通知
+   */
+  async retryTask(campaignId: number, taskId: number, userId: number): Promise<CampaignWithTasks> {
+    const campaign = await this.campaignRepo.findOne({
+      where: { id: campaignId, userId },
+    });
+    if (!campaign) {
+      throw new Error("发布活动不存在");
+    }
+
+    const task = await this.taskRepo.findOne({
+      where: { id: taskId, campaignId },
+    });
+    if (!task) {
+      throw new Error("任务不存在");
+    }
+    if (task.status !== TaskStatus.FAILED) {
+      throw new Error("只能重试失败的任务");
+    }
+
+    task.status = TaskStatus.PENDING;
+    task.scheduledAt = new Date();
+    task.retryCount = 0;
+    task.errorMessage = undefined;
+    task.executedAt = undefined;
+    task.notified = false;
+    await this.taskRepo.save(task);
+
+    campaign.status = CampaignStatus.RUNNING;
+    campaign.completedAt = undefined;
+    campaign.notified = false;
+    await this.campaignRepo.save(campaign);
+
+    console.log(`[Campaign] 发布活动 #${campaignId} 重试任务 #${taskId} (${task.platform})`);
+
+    return this.getCampaign(campaignId, userId);
+  }
+
+  /**
+   * 取消发布活动中尚未执行的任务
+   */
+  async cancelCampaign(campaignId: number, userId: number): Promise<CampaignWithTasks> {
+    const campaign = await this.campaignRepo.findOne({
+      where: { id: campaignId, userId },
+    });
+    if (!campaign) {
+      throw new Error("发布活动不存在");
+    }
+
+    const pendingTasks = await this.taskRepo.find({
+      where: { campaignId, status: TaskStatus.PENDING },
+    });
+    if (pendingTasks.length === 0) {
+      throw new Error("没有可取消的任务");
+    }
+
+    for (const task of pendingTasks) {
+      task.status = TaskStatus.CANCELLED;
+      await this.taskRepo.save(task);
+    }
+
+    // 与单独取消定时任务一致，文章回到草稿状态
+    const articleRepo = AppDataSource.getRepository(Article);
+    const article = await articleRepo.findOne({ where: { id: campaign.articleId } });
+    if (article && article.status === ArticleStatus.SCHEDULED) {
+      article.status = ArticleStatus.DRAFT;
+      article.scheduledAt = undefined;
+      await articleRepo.save(article);
+    }
+
+    console.log(`[Campaign] 取消发布活动 #${campaignId} 的 ${pendingTasks.length} 个待执行任务`);
+
+    await this.refreshStatus(campaignId);
+    return this.getCampaign(campaignId, userId);
+  }
+
+  /**
+   * 根据各平台任务的状态更新活动状态
+   * 由调度器在活动任务执行后调用；所有任务结束时发送汇总通知
+   */
+  async refreshStatus(campaignId: number): Promise<void> {
+    const campaign = await this.campaignRepo.findOne({ where: { id: campaignId } });
+    if (!campaign) {
+      return;
+    }
+
+    const tasks = await this.getTasks(campaignId);
+    const isActive = tasks.some((task) => ACTIVE_TASK_STATUSES.includes(task.status));
+
+    if (isActive) {
+      const started = tasks.some(
+        (task) => task.status !== TaskStatus.PENDING || task.retryCount > 0
+      );
+      campaign.status = started ? CampaignStatus.RUNNING : CampaignStatus.PENDING;
+      await this.campaignRepo.save(campaign);
+      return;
+    }
+
+    const successCount = tasks.filter((task) => task.status === TaskStatus.SUCCESS).length;
+    const failedCount = tasks.filter((task) => task.status === TaskStatus.FAILED).length;
+
+    if (successCount === 0 && failedCount === 0) {
+      campaign.status = CampaignStatus.CANCELLED;
+    } else if (failedCount === 0 && successCount === tasks.length) {
+      campaign.status = CampaignStatus.SUCCESS;
+    } else if (successCount === 0) {
+      campaign.status = CampaignStatus.FAILED;
+    } else {
+      campaign.status = CampaignStatus.PARTIAL;
+    }
+    campaign.completedAt = new Date();
+    await this.campaignRepo.save(campaign);
+
+    console.log(
+      `[Campaign] 发布活动 #${campaignId} 执行完毕: ${campaign.status} (成功 ${successCount}/${tasks.length})`
+    );
+
+    // 全部取消时不发送通知
+    if (!campaign.notified && campaign.status !== CampaignStatus.CANCELLED) {
+      await emailService.notifyCampaignResult(campaign, tasks);
+      campaign.notified = true;
+      await this.campaignRepo.save(campaign);
+    }
+  }
+
+  private getTasks(campaignId: number): Promise<ScheduledTask[]> {
+    return this.taskRepo.find({
+      where: { campaignId },
+      order: { scheduledAt: "ASC", id: "ASC" },
+    });
+  }
+}
+
+// 导出单例
+export const publishCampaignService = new PublishCampaignService();
@@ -0,0 +1,228 @@
+/**
+ * 发布前检查服务
+ * 按目标平台检查文章能否顺利发布：平台的发布规则（必填配置、长度限制）由各平台适配器检查，
+ * 扩展语法、原始 HTML、图片等内容兼容性在此统一检查
+ */
+
+import { AppDataSource } from "../db";
+import { Article } from "../entities/Article";
+import { getPlatformConfig } from "@shared/markdown/platformConfig";
+import { detectHtml, transformMarkdownForPlatform } from "./markdownTransformer";
+import { inspectArticleImages } from "./imageUpload";
+import { getUploadDir } from "./dataDir";
+import { listPublishers, requirePublisher } from "./publishers";
+import type { PublisherAdapter, PublishLintIssue } from "./publishers";
+
+/**
+ * 发布前检查有错误级问题时尝试发布
+ */
+export class PublishLintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PublishLintError";
+  }
+}
+
+/**
+ * 单个平台的检查结果
+ */
+export interface PlatformLintResult {
+  platform: string;
+  name: string;
+  issues: PublishLintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)}MB`
+    : `${Math.ceil(bytes / 1024)}KB`;
+}
+
+/**
+ * 检查扩展语法在目标平台上的处理方式
+ * 被移除、转为纯文本或降级的指令在平台上的展示与编辑器预览不同
+ */
+function lintDirectives(content: string, platform: string): PublishLintIssue[] {
+  const issues: PublishLintIssue[] = [];
+  const platformConfig = getPlatformConfig(platform);
+  const { report } = transformMarkdownForPlatform(content, { platform });
+
+  for (const downgrade of report.downgrades) {
+    issues.push({
+      severity: "warning",
+      code: "directive-downgraded",
+      message: `${downgrade.name} 语法不受平台支持，将转换为标准 Markdown`,
+      line: downgrade.line,
+    });
+  }
+
+  for (const detail of report.details) {
+    const removed = detail.strategy === "remove";
+    const toText =
+      detail.strategy === "toText" || (detail.strategy === "toHtml" && !platformConfig.supportsHtml);
+    if (removed || toText) {
+      issues.push({
+        severity: "warning",
+        code: removed ? "directive-removed" : "directive-to-text",
+        message: removed
+          ? `${detail.name} 语法将被移除，仅保留内容（共 ${detail.count} 处）`
+          : `${detail.name} 语法将转换为纯文本（共 ${detail.count} 处）`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 检查不支持 HTML 的平台上的原始 HTML
+ */
+function lintHtml(content: string, platform: string): PublishLintIssue[] {
+  if (getPlatformConfig(platform).supportsHtml) {
+    return [];
+  }
+  return detectHtml(content).map(({ line, value }) => ({
+    severity: "warning" as const,
+    code: "html-unsupported",
+    message: `平台不支持 HTML，${value.length > 40 ? `${value.slice(0, 40)}…` : value} 将按原文显示或被过滤`,
+    line,
+  }));
+}
+
+/**
+ * 检查图片的格式、大小以及是否需要转存
+ */
+function lintImages(content: string, publisher: PublisherAdapter): PublishLintIssue[] {
+  const issues: PublishLintIssue[] = [];
+  const { maxSize, formats } = publisher.imageLimits;
+
+  for (const image of inspectArticleImages(content, publisher.platform, getUploadDir())) {
+    if (image.kind === "local" && !image.exists) {
+      issues.push({
+        severity: "error",
+        code: "image-missing",
+        message: `图片文件不存在：${image.url}`,
+        line: image.line,
+      });
+      continue;
+    }
+
+    if (image.kind === "external") {
+      issues.push({
+        severity: "warning",
+        code: "image-rehost",
+        message: `外部图片将下载后重新上传到平台：${image.url}`,
+        line: image.line,
+      });
+    }
+
+    if (image.extension && !formats.includes(image.extension)) {
+      issues.push({
+        severity: image.kind === "external" ? "warning" : "error",
+        code: "image-format",
+        message: `平台不支持 ${image.extension} 格式的图片（支持 ${formats.join("、")}）`,
+        line: image.line,
+      });
+    }
+
+    if (image.size !== undefined && image.size > maxSize) {
+      issues.push({
+        severity: "error",
+        code: "image-too-large",
+        message: `图片大小 ${formatSize(image.size)} 超过平台限制 ${formatSize(maxSize)}`,
+        line: image.line,
+      });
+    }
+  }
+
+  return issues;
+}
+
+class PublishLintService {
+  /**
+   * 检查文章在各目标平台上的发布问题
+   * @param articleId 文章 ID
+   * @param platforms 目标平台，未指定时检查所有已注册平台
+   */
+  async lintArticle(articleId: number, platforms?: string[]): Promise<PlatformLintResult[]> {
+    const article = await AppDataSource.getRepository(Article).findOne({
+      where: { id: articleId },
+    });
+    if (!article) {
+      throw new Error("文章不存在");
+    }
+
+    const publishers = platforms
+      ? platforms.map((platform) => requirePublisher(platform))
+      : listPublishers();
+
+    return Promise.all(publishers.map((publisher) => this.lintPlatform(article, publisher)));
+  }
+
+  /**
+   * 文章不能发布到该平台的原因，没有错误级问题时返回 null
+   * @param contentOnly 只检查内容兼容性，不检查平台配置；用于创建定时任务，此时任务配置尚未写入文章
+   */
+  async getPublishBlockReason(
+    articleId: number,
+    platform: string,
+    contentOnly = false
+  ): Promise<string | null> {
+    const article = await AppDataSource.getRepository(Article).findOne({
+      where: { id: articleId },
+    });
+    if (!article) {
+      return "文章不存在";
+    }
+
+    const result = await this.lintPlatform(article, requirePublisher(platform), contentOnly);
+    const errors = result.issues.filter((issue) => issue.severity === "error");
+    if (errors.length === 0) {
+      return null;
+    }
+    return `${result.name}发布检查未通过：${errors.map((issue) => issue.message).join("；")}`;
+  }
+
+  /**
+   * 校验文章可以发布到该平台
+   */
+  async assertPublishable(articleId: number, platform: string, contentOnly = false): Promise<void> {
+    const reason = await this.getPublishBlockReason(articleId, platform, contentOnly);
+    if (reason) {
+      throw new PublishLintError(reason);
+    }
+  }
+
+  private async lintPlatform(
+    article: Article,
+    publisher: PublisherAdapter,
+    contentOnly = false
+  ): Promise<PlatformLintResult> {
+    const issues = [
+      ...(contentOnly ? [] : await publisher.lint(article)),
+      ...lintDirectives(article.content, publisher.platform),
+      ...lintHtml(article.content, publisher.platform),
+      ...lintImages(article.content, publisher),
+    ];
+
+    // 错误在前，同级别按行号排序，无行号的排在最前
+    issues.sort(
+      (a, b) =>
+        (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1) ||
+        (a.line ?? 0) - (b.line ?? 0)
+    );
+
+    return {
+      platform: publisher.platform,
+      name: publisher.name,
+      issues,
+      errorCount: issues.filter((issue) => issue.severity === "error").length,
+      warningCount: issues.filter((issue) => issue.severity === "warning").length,
+    };
+  }
+}
+
+// 导出单例
+export const publishLintService = new PublishLintService();
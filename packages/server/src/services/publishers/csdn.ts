@@ -0,0 +1,170 @@
+/**
+ * CSDN 发布适配器
+ */
+
+import type { CsdnPublicationConfig } from "../../entities/ArticlePublication";
+import type { CsdnPublishConfig } from "../../entities/ScheduledTask";
+import { articlePublicationService } from "../articlePublication";
+import { csdnSyncService } from "../csdnSync";
+import type { PublisherAdapter, PublishLintIssue } from "./types";
+
+const IMPORT_PAGE_SIZE = 20;
+
+export const csdnPublisher: PublisherAdapter<CsdnPublishConfig> = {
+  platform: "csdn",
+  name: "CSDN",
+  imageDomains: [
+    "csdnimg.cn",
+    "csdn.net",
+    "obs.cn-north-4.myhuaweicloud.com",
+  ],
+  capabilities: {
+    draft: true,
+    schedule: true,
+    statusSync: true,
+    import: true,
+  },
+  imageLimits: {
+    maxSize: 5 * 1024 * 1024,
+    formats: ["png", "jpg", "jpeg", "gif", "webp", "bmp"],
+  },
+  metadataLimits: {
+    title: { min: 5, max: 100 },
+    summary: { min: 0, max: 256 },
+    maxTags: 5,
+  },
+
+  isLoggedIn(userId) {
+    return csdnSyncService.checkLoginStatus(userId);
+  },
+
+  getImageClient(userId) {
+    return csdnSyncService.getApiClient(userId);
+  },
+
+  async searchTags(keyword, userId) {
+    const tags = await csdnSyncService.searchTags(keyword, userId);
+    return tags.map((tag) => ({ id: tag.name, name: tag.name }));
+  },
+
+  async applyConfig(articleId, config) {
+    await csdnSyncService.setArticleConfig(articleId, {
+      tags: config.tags,
+      description: config.description,
+      coverImage: config.coverImage,
+      type: config.type,
+      readType: config.readType,
+    });
+  },
+
+  async getSavedConfig(articleId) {
+    const config = await articlePublicationService.getConfig<CsdnPublicationConfig>(
+      articleId,
+      "csdn"
+    );
+    if (!config.tags?.length) {
+      return null;
+    }
+
+    return {
+      tags: config.tags,
+      description: config.description,
+      coverImage: config.coverImage,
+      type: (config.type || "original") as CsdnPublishConfig["type"],
+      readType: (config.readType || "public") as CsdnPublishConfig["readType"],
+    };
+  },
+
+  async lint(article) {
+    const issues: PublishLintIssue[] = [];
+    const config = await articlePublicationService.getConfig<CsdnPublicationConfig>(
+      article.id,
+      "csdn"
+    );
+
+    if (!config.tags?.length) {
+      issues.push({ severity: "error", code: "missing-tags", message: "请至少选择一个标签" });
+    }
+    if (article.title.length < 5) {
+      issues.push({ severity: "error", code: "title-too-short", message: "文章标题至少需要5个字符" });
+    } else if (article.title.length > 100) {
+      issues.push({ severity: "error", code: "title-too-long", message: "文章标题不能超过100个字符" });
+    }
+    if (article.content.length < 50) {
+      issues.push({ severity: "error", code: "content-too-short", message: "文章内容至少需要50个字符" });
+    }
+    return issues;
+  },
+
+  async syncDraft(articleId, userId) {
+    const result = await csdnSyncService.syncToDraft(articleId, userId);
+    return {
+      success: result.success,
+      message: result.message,
+      remoteId: result.articleId,
+    };
+  },
+
+  async publish(articleId, userId) {
+    const result = await csdnSyncService.publishArticle(articleId, userId);
+    return {
+      success: result.success,
+      message: result.message,
+      remoteId: result.articleId,
+      url: result.articleUrl,
+    };
+  },
+
+  async syncStatus(userId) {
+    const result = await csdnSyncService.syncArticleStatus(userId);
+    return { success: result.success, message: result.message };
+  },
+
+  async listRemoteArticles(userId, page) {
+    const client = await csdnSyncService.getApiClient(userId);
+    const userInfo = await client.getUserInfo();
+    const articles = await client.fetchUserArticles({
+      status: "all_v3",
+      page,
+      pageSize: IMPORT_PAGE_SIZE,
+    });
+
+    return {
+      items: articles.map((article) => {
+        const published = article.status === "1";
+        return {
+          key: article.articleId,
+          title: article.title,
+          status: published ? "published" : "draft",
+          // CSDN 的草稿与文章共用 ID
+          remoteId: article.articleId,
+          url:
+            published && userInfo
+              ? `https://blog.csdn.net/${userInfo.userName}/article/details/${article.articleId}`
+              : undefined,
+          updatedAt: article.postTime || undefined,
+        };
+      }),
+      hasMore: articles.length >= IMPORT_PAGE_SIZE,
+    };
+  },
+
+  async fetchRemoteArticle(key, userId) {
+    const client = await csdnSyncService.getApiClient(userId);
+    const [article, userInfo] = await Promise.all([client.getArticle(key), client.getUserInfo()]);
+    const published = Number(article.status) === 1;
+    return {
+      key,
+      title: article.title,
+      status: published ? "published" : "draft",
+      remoteId: key,
+      url:
+        published && userInfo
+          ? `https://blog.csdn.net/${userInfo.userName}/article/details/${key}`
+          : undefined,
+      content: article.markdowncontent || "",
+      summary: article.description || undefined,
+      tags: article.tags ? article.tags.split(",").filter(Boolean) : undefined,
+    };
+  },
+};
@@ -0,0 +1,28 @@
+/**
+ * 发布平台适配器入口
+ * 注册所有内置平台；新增平台只需实现 PublisherAdapter 并在此注册
+ */
+
+import { registerPublisher } from "./registry";
+import { tencentPublisher } from "./tencent";
+import { juejinPublisher } from "./juejin";
+import { csdnPublisher } from "./csdn";
+
+registerPublisher(tencentPublisher);
+registerPublisher(juejinPublisher);
+registerPublisher(csdnPublisher);
+
+export { registerPublisher, getPublisher, requirePublisher, listPublishers } from "./registry";
+export type {
+  PublisherAdapter,
+  PublisherCapabilities,
+  PublisherImageLimits,
+  PublisherMetadataLimits,
+  PublishLintIssue,
+  PublisherTag,
+  PublishResult,
+  StatusSyncResult,
+  RemoteArticleSummary,
+  RemoteArticlePage,
+  RemoteArticle,
+} from "./types";
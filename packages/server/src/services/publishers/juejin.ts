@@ -0,0 +1,205 @@
+/**
+ * 掘金发布适配器
+ */
+
+import type { JuejinPublicationConfig } from "../../entities/ArticlePublication";
+import type { JuejinPublishConfig } from "../../entities/ScheduledTask";
+import { articlePublicationService } from "../articlePublication";
+import { juejinSyncService } from "../juejinSync";
+import { getJuejinCookies } from "../juejinAuth";
+import type { PublisherAdapter, PublishLintIssue, RemoteArticleSummary } from "./types";
+
+const IMPORT_PAGE_SIZE = 10;
+
+// 掘金接口中的时间为秒级时间戳字符串
+function toIsoTime(seconds?: string): string | undefined {
+  return seconds ? new Date(Number(seconds) * 1000).toISOString() : undefined;
+}
+
+export const juejinPublisher: PublisherAdapter<JuejinPublishConfig> = {
+  platform: "juejin",
+  name: "掘金",
+  imageDomains: [
+    "juejin.cn",
+    "byteimg.com",
+    "snssdk.com",
+    "bytedanceapi.com",
+  ],
+  capabilities: {
+    draft: true,
+    schedule: true,
+    statusSync: true,
+    import: true,
+  },
+  imageLimits: {
+    maxSize: 5 * 1024 * 1024,
+    formats: ["png", "jpg", "jpeg", "gif", "webp"],
+  },
+  metadataLimits: {
+    title: { min: 5, max: 100 },
+    summary: { min: 50, max: 100 },
+    maxTags: 3,
+  },
+
+  async isLoggedIn(userId) {
+    return !!(await getJuejinCookies(userId));
+  },
+
+  getImageClient(userId) {
+    return juejinSyncService.getApiClient(userId);
+  },
+
+  async searchTags(keyword, userId) {
+    const tags = await juejinSyncService.searchTags(keyword, userId);
+    return tags.map((tag) => ({ id: tag.tag_id, name: tag.tag_name }));
+  },
+
+  async listCategories(userId) {
+    const client = await juejinSyncService.getApiClient(userId);
+    const categories = await client.fetchCategories();
+    return categories.map((category) => ({ id: category.category_id, name: category.category_name }));
+  },
+
+  async applyConfig(articleId, config) {
+    await juejinSyncService.setArticleConfig(articleId, {
+      categoryId: config.categoryId,
+      tagIds: config.tagIds,
+      tagNames: config.tagNames,
+      briefContent: config.briefContent,
+      isOriginal: config.isOriginal,
+    });
+  },
+
+  async getSavedConfig(articleId) {
+    const config = await articlePublicationService.getConfig<JuejinPublicationConfig>(
+      articleId,
+      "juejin"
+    );
+    if (!config.categoryId || !config.tagIds?.length || !config.briefContent) {
+      return null;
+    }
+
+    return {
+      categoryId: config.categoryId,
+      tagIds: config.tagIds,
+      tagNames: config.tagNames,
+      briefContent: config.briefContent,
+      isOriginal: config.isOriginal === 0 ? 0 : 1,
+    };
+  },
+  async lint(article) {
+    const issues: PublishLintIssue[] = [];
+    const config = await articlePublicationService.getConfig<JuejinPublicationConfig>(
+      article.id,
+      "juejin"
+    );
+
+    if (!config.categoryId) {
+      issues.push({ severity: "error", code: "missing-category", message: "请选择文章分类" });
+    }
+    if (!config.tagIds?.length) {
+      issues.push({ severity: "error", code: "missing-tags", message: "请至少选择一个标签" });
+    } else if (config.tagIds.length > 3) {
+      issues.push({ severity: "error", code: "too-many-tags", message: "最多只能选择3个标签" });
+    }
+
+    // 摘要需要 50-100 字
+    const briefLength = config.briefContent?.trim().length || 0;
+    if (briefLength === 0) {
+      issues.push({ severity: "error", code: "missing-brief", message: "请填写文章摘要" });
+    } else if (briefLength < 50) {
+      issues.push({
+        severity: "error",
+        code: "brief-too-short",
+        message: `摘要至少需要50个字符（当前 ${briefLength} 个）`,
+      });
+    } else if (briefLength > 100) {
+      issues.push({
+        severity: "error",
+        code: "brief-too-long",
+        message: `摘要不能超过100字（当前 ${briefLength} 个）`,
+      });
+    }
+
+    if (article.content.length < 100) {
+      issues.push({ severity: "error", code: "content-too-short", message: "文章正文至少需要100字" });
+    }
+    return issues;
+  },
+
+
+  async syncDraft(articleId, userId) {
+    const result = await juejinSyncService.syncToDraft(articleId, userId);
+    return {
+      success: result.success,
+      message: result.message,
+      draftId: result.draftId,
+    };
+  },
+
+  async publish(articleId, userId) {
+    const result = await juejinSyncService.publishWithSavedConfig(articleId, userId);
+    return {
+      success: result.success,
+      message: result.message,
+      remoteId: result.articleId,
+      url: result.articleUrl,
+    };
+  },
+
+  async syncStatus(userId) {
+    const result = await juejinSyncService.syncArticleStatus(userId);
+    return { success: result.success, message: result.message };
+  },
+
+  // 已发布的文章和未发布的草稿分两个接口返回，每页各取一页；导入时都按草稿获取正文
+  async listRemoteArticles(userId, page) {
+    const client = await juejinSyncService.getApiClient(userId);
+    const [articles, drafts] = await Promise.all([
+      client.fetchUserArticles({ auditStatus: null, pageNo: page, pageSize: IMPORT_PAGE_SIZE }),
+      client.fetchUserDrafts({ pageNo: page, pageSize: IMPORT_PAGE_SIZE }),
+    ]);
+
+    const items: RemoteArticleSummary[] = articles.map(({ article_id, article_info }) => ({
+      key: article_info.draft_id,
+      title: article_info.title,
+      status: article_info.audit_status === 2 ? "published" : "pending",
+      remoteId: article_id,
+      draftId: article_info.draft_id,
+      url: `https://juejin.cn/post/${article_id}`,
+      updatedAt: toIsoTime(article_info.mtime),
+    }));
+    for (const draft of drafts) {
+      if (!items.some((item) => item.draftId === draft.id)) {
+        items.push({
+          key: draft.id,
+          title: draft.title,
+          status: "draft",
+          draftId: draft.id,
+          updatedAt: toIsoTime(draft.mtime),
+        });
+      }
+    }
+
+    return {
+      items,
+      hasMore: articles.length >= IMPORT_PAGE_SIZE || drafts.length >= IMPORT_PAGE_SIZE,
+    };
+  },
+
+  async fetchRemoteArticle(key, userId) {
+    const client = await juejinSyncService.getApiClient(userId);
+    const draft = await client.getDraftDetail(key);
+    const published = !!draft.article_id && draft.article_id !== "0";
+    return {
+      key,
+      title: draft.title,
+      status: published ? "published" : "draft",
+      remoteId: published ? draft.article_id : undefined,
+      draftId: key,
+      url: published ? `https://juejin.cn/post/${draft.article_id}` : undefined,
+      content: draft.mark_content || "",
+      summary: draft.brief_content || undefined,
+    };
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * 发布平台注册表
+ * 调度器、发布菜单和图片上传流程都通过注册表获取平台适配器
+ */
+
+import type { PlatformConfig } from "../../entities/ScheduledTask";
+import type { PublisherAdapter } from "./types";
+
+// 各适配器只接收本平台的发布配置，调用方按 platform 取到对应的适配器
+const publishers = new Map<string, PublisherAdapter<PlatformConfig>>();
+
+/**
+ * 注册发布平台适配器
+ * 重复注册同一平台会覆盖之前的适配器
+ */
+export function registerPublisher(adapter: PublisherAdapter<PlatformConfig>): void {
+  publishers.set(adapter.platform, adapter);
+}
+
+/**
+ * 按平台标识获取适配器
+ */
+export function getPublisher(platform: string): PublisherAdapter<PlatformConfig> | undefined {
+  return publishers.get(platform);
+}
+
+/**
+ * 按平台标识获取适配器，不存在时抛出错误
+ */
+export function requirePublisher(platform: string): PublisherAdapter<PlatformConfig> {
+  const adapter = publishers.get(platform);
+  if (!adapter) {
+    throw new Error(`不支持的平台: ${platform}`);
+  }
+  return adapter;
+}
+
+/**
+ * 获取所有已注册的适配器（按注册顺序）
+ */
+export function listPublishers(): PublisherAdapter<PlatformConfig>[] {
+  return Array.from(publishers.values());
+}
@@ -0,0 +1,176 @@
+/**
+ * 腾讯云开发者社区发布适配器
+ */
+
+import { AppDataSource } from "../../db";
+import { Article } from "../../entities/Article";
+import type { TencentPublicationConfig } from "../../entities/ArticlePublication";
+import type { TencentPublishConfig } from "../../entities/ScheduledTask";
+import { articleSyncService } from "../articleSync";
+import { articlePublicationService } from "../articlePublication";
+import type { PublisherAdapter, PublishLintIssue, RemoteArticleSummary } from "./types";
+import type { DraftInfo } from "../tencentApi";
+
+const IMPORT_PAGE_SIZE = 20;
+
+/**
+ * 草稿列表返回的 Markdown 正文带有编辑器标记，导入时去掉
+ */
+function unwrapMarkdownContent(content: string): string {
+  const match = content.match(/^<!--markdown-->\n?([\s\S]*?)\n?<!--\/markdown-->\s*$/);
+  return match ? match[1] : content;
+}
+
+function toRemoteSummary(draft: DraftInfo): RemoteArticleSummary {
+  const published = draft.articleId > 0;
+  return {
+    key: String(draft.draftId),
+    title: draft.title,
+    status: published ? "published" : "draft",
+    remoteId: published ? String(draft.articleId) : undefined,
+    draftId: String(draft.draftId),
+    url: published ? `https://cloud.tencent.com/developer/article/${draft.articleId}` : undefined,
+    updatedAt: draft.updateTime ? new Date(draft.updateTime * 1000).toISOString() : undefined,
+  };
+}
+
+export const tencentPublisher: PublisherAdapter<TencentPublishConfig> = {
+  platform: "tencent",
+  name: "腾讯云开发者社区",
+  imageDomains: [
+    "developer.tce.qq.com",
+    "cos.ap-",
+    "myqcloud.com",
+  ],
+  capabilities: {
+    draft: true,
+    schedule: true,
+    statusSync: true,
+    import: true,
+  },
+  imageLimits: {
+    maxSize: 10 * 1024 * 1024,
+    formats: ["png", "jpg", "jpeg", "gif", "webp"],
+  },
+  metadataLimits: {
+    title: { min: 5, max: 100 },
+    summary: { min: 0, max: 200 },
+    maxTags: 5,
+  },
+
+  isLoggedIn(userId) {
+    return articleSyncService.checkLoginStatus(userId);
+  },
+
+  getImageClient(userId) {
+    return articleSyncService.getApiClient(userId);
+  },
+
+  async searchTags(keyword, userId) {
+    const tags = await articleSyncService.searchTags(keyword, userId);
+    return tags.map((tag) => ({ id: String(tag.tagId), name: tag.tagName }));
+  },
+
+  async applyConfig(articleId, config) {
+    const articleRepo = AppDataSource.getRepository(Article);
+    const article = await articleRepo.findOne({ where: { id: articleId } });
+    if (!article) {
+      throw new Error("文章不存在");
+    }
+
+    await articlePublicationService.updateConfig<TencentPublicationConfig>(articleId, "tencent", {
+      tagIds: config.tagIds,
+      sourceType: config.sourceType,
+    });
+    if (config.summary) {
+      article.summary = config.summary;
+      await articleRepo.save(article);
+    }
+  },
+
+  async getSavedConfig(articleId) {
+    const article = await AppDataSource.getRepository(Article).findOne({
+      where: { id: articleId },
+    });
+    const config = await articlePublicationService.getConfig<TencentPublicationConfig>(
+      articleId,
+      "tencent"
+    );
+    if (!article || !config.tagIds?.length) {
+      return null;
+    }
+
+    return {
+      tagIds: config.tagIds,
+      sourceType: (config.sourceType || 1) as TencentPublishConfig["sourceType"],
+      summary: article.summary || undefined,
+    };
+  },
+  async lint(article) {
+    const issues: PublishLintIssue[] = [];
+    const config = await articlePublicationService.getConfig<TencentPublicationConfig>(
+      article.id,
+      "tencent"
+    );
+
+    if (!config.tagIds?.length) {
+      issues.push({ severity: "error", code: "missing-tags", message: "请至少选择一个标签" });
+    }
+    if (article.content.length < 140) {
+      issues.push({ severity: "error", code: "content-too-short", message: "文章内容不能少于140字" });
+    }
+    return issues;
+  },
+
+
+  async syncDraft(articleId, userId) {
+    const result = await articleSyncService.syncToDraft(articleId, userId);
+    return {
+      success: result.success,
+      message: result.message,
+      draftId: result.draftId?.toString(),
+    };
+  },
+
+  async publish(articleId, userId) {
+    const result = await articleSyncService.publishArticle(articleId, userId);
+    return {
+      success: result.success,
+      message: result.message,
+      remoteId: result.articleId?.toString(),
+      url: result.articleUrl,
+    };
+  },
+
+  async syncStatus(userId) {
+    const result = await articleSyncService.syncArticleStatus(userId);
+    return { success: result.success, message: result.message };
+  },
+
+  // 平台只在草稿接口中返回正文，已发布的文章也保留有草稿
+  async listRemoteArticles(userId, page) {
+    const client = await articleSyncService.getApiClient(userId);
+    const result = await client.fetchDrafts(page, IMPORT_PAGE_SIZE);
+    return {
+      items: result.list.map(toRemoteSummary),
+      hasMore: page * IMPORT_PAGE_SIZE < result.total,
+    };
+  },
+
+  async fetchRemoteArticle(key, userId) {
+    const client = await articleSyncService.getApiClient(userId);
+    for (let page = 1; ; page++) {
+      const result = await client.fetchDrafts(page, IMPORT_PAGE_SIZE);
+      const draft = result.list.find((d) => String(d.draftId) === key);
+      if (draft) {
+        return {
+          ...toRemoteSummary(draft),
+          content: unwrapMarkdownContent(draft.content || ""),
+        };
+      }
+      if (result.list.length === 0 || page * IMPORT_PAGE_SIZE >= result.total) {
+        throw new Error("平台上找不到该草稿");
+      }
+    }
+  },
+};
@@ -0,0 +1,195 @@
+/**
+ * 发布平台适配器类型定义
+ * 每个发布平台实现一个 PublisherAdapter，并注册到发布平台注册表
+ */
+
+import type { Article } from "../../entities/Article";
+import type { ImageUploadClient } from "../imageUpload";
+
+/**
+ * 发布/同步操作结果
+ */
+export interface PublishResult {
+  success: boolean;
+  message: string;
+  /** 平台文章ID */
+  remoteId?: string;
+  /** 平台草稿ID */
+  draftId?: string;
+  /** 平台文章链接 */
+  url?: string;
+}
+
+/**
+ * 状态同步结果
+ */
+export interface StatusSyncResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * 平台标签（统一不同平台的标签结构）
+ */
+export interface PublisherTag {
+  id: string;
+  name: string;
+}
+
+/**
+ * 平台支持的能力
+ */
+export interface PublisherCapabilities {
+  /** 是否支持同步到平台草稿箱 */
+  draft: boolean;
+  /** 是否支持定时发布 */
+  schedule: boolean;
+  /** 是否支持同步平台文章状态 */
+  statusSync: boolean;
+  /** 是否支持将平台上已有的文章导入本地 */
+  import: boolean;
+}
+
+/**
+ * 平台接受的图片
+ */
+export interface PublisherImageLimits {
+  /** 单张图片大小上限（字节） */
+  maxSize: number;
+  /** 支持的图片格式（扩展名，小写） */
+  formats: string[];
+}
+
+/**
+ * 平台对标题、摘要和标签的限制（字符数）
+ * summary 为 null 表示平台没有摘要字段
+ */
+export interface PublisherMetadataLimits {
+  title: { min: number; max: number };
+  summary: { min: number; max: number } | null;
+  maxTags: number;
+}
+
+/**
+ * 发布前检查发现的问题
+ * error 会导致发布失败，warning 不影响发布但平台上的展示可能与预期不同
+ */
+export interface PublishLintIssue {
+  severity: "error" | "warning";
+  /** 问题类型，如 missing-tags、directive-removed */
+  code: string;
+  message: string;
+  /** 问题所在的行号（正文中的问题） */
+  line?: number;
+}
+
+/**
+ * 平台上已有的文章（导入列表中的一项）
+ */
+export interface RemoteArticleSummary {
+  /** 导入时用于获取正文的标识（按平台可能是文章 ID 或草稿 ID） */
+  key: string;
+  title: string;
+  /** 平台文章状态：published、pending、draft */
+  status: string;
+  /** 平台文章ID（已发布时） */
+  remoteId?: string;
+  /** 平台草稿ID */
+  draftId?: string;
+  url?: string;
+  updatedAt?: string;
+}
+
+/**
+ * 平台文章列表的一页
+ */
+export interface RemoteArticlePage {
+  items: RemoteArticleSummary[];
+  hasMore: boolean;
+}
+
+/**
+ * 平台文章的完整内容
+ */
+export interface RemoteArticle extends RemoteArticleSummary {
+  /** Markdown 正文 */
+  content: string;
+  summary?: string;
+  tags?: string[];
+}
+
+/**
+ * 发布平台适配器
+ *
+ * 约定：
+ * - 平台未登录时抛出 PlatformNotLoggedInError
+ * - 业务失败（校验不通过、平台返回错误等）通过 PublishResult.success = false 返回
+ * - publish/syncDraft 使用文章上已保存的平台配置，发布前先调用 applyConfig 写入配置
+ */
+export interface PublisherAdapter<TConfig = unknown> {
+  /** 平台标识，与 ScheduledTask.platform 一致 */
+  readonly platform: string;
+
+  /** 平台显示名称 */
+  readonly name: string;
+
+  /** 平台已托管的图片域名，这些域名的图片不需要重新上传 */
+  readonly imageDomains: string[];
+
+  /** 平台支持的能力 */
+  readonly capabilities: PublisherCapabilities;
+
+  /** 平台接受的图片大小和格式 */
+  readonly imageLimits: PublisherImageLimits;
+
+  /** 平台对标题、摘要和标签的限制 */
+  readonly metadataLimits: PublisherMetadataLimits;
+
+  /**
+   * 检查登录状态
+   * 只检查本地数据库中的登录状态，不调用远程 API
+   */
+  isLoggedIn(userId: number): Promise<boolean>;
+
+  /** 获取图片上传客户端 */
+  getImageClient(userId: number): Promise<ImageUploadClient>;
+
+  /** 搜索平台标签 */
+  searchTags(keyword: string, userId: number): Promise<PublisherTag[]>;
+
+  /** 获取平台文章分类（没有分类的平台不实现） */
+  listCategories?(userId: number): Promise<PublisherTag[]>;
+
+  /** 将发布配置写入文章 */
+  applyConfig(articleId: number, config: TConfig): Promise<void>;
+
+  /**
+   * 读取文章上已保存的发布配置
+   * 缺少发布所需的配置项时返回 null
+   */
+  getSavedConfig(articleId: number): Promise<TConfig | null>;
+
+  /**
+   * 检查平台的发布规则（必填配置、标题和正文长度等）
+   * 扩展语法、图片、HTML 等内容兼容性由 publishLint 服务统一检查
+   */
+  lint(article: Article): Promise<PublishLintIssue[]>;
+
+  /** 同步文章到平台草稿箱 */
+  syncDraft(articleId: number, userId: number): Promise<PublishResult>;
+
+  /** 发布文章 */
+  publish(articleId: number, userId: number): Promise<PublishResult>;
+
+  /** 同步本地文章与平台文章的状态 */
+  syncStatus(userId: number): Promise<StatusSyncResult>;
+
+  /**
+   * 分页列出平台上已有的文章（capabilities.import 为 true 时可用）
+   * @param page 从 1 开始
+   */
+  listRemoteArticles(userId: number, page: number): Promise<RemoteArticlePage>;
+
+  /** 获取平台文章的标题和 Markdown 正文 */
+  fetchRemoteArticle(key: string, userId: number): Promise<RemoteArticle>;
+}
@@ -0,0 +1,127 @@
+/**
+ * 平台修改检测
+ * 定期获取已发布文章在平台上的内容，与上次记录的平台内容哈希比较，
+ * 发现有人直接在平台上修改了文章时记录为冲突，避免下次发布覆盖平台上的修改；
+ * 以最后推送到平台的版本作为基准，与本地的修改三方合并
+ */
+
+import { In, Not, IsNull } from "typeorm";
+import { AppDataSource } from "../db";
+import { Article } from "../entities/Article";
+import { ArticlePublication } from "../entities/ArticlePublication";
+import type { VersionSource } from "../entities/ArticleVersion";
+import { getPublisher } from "./publishers";
+import { simpleHash, syncConflictDetector } from "./syncConflictDetector";
+
+/**
+ * 一次检测的统计
+ */
+export interface RemoteEditCheckResult {
+  checked: number;
+  conflicts: number;
+  failed: number;
+}
+
+class RemoteEditDetector {
+  private get publicationRepo() {
+    return AppDataSource.getRepository(ArticlePublication);
+  }
+
+  /**
+   * 检查所有已发布到平台的文章
+   * 平台内容第一次获取时只记录哈希；之后哈希变化说明平台上有修改
+   */
+  async checkAll(): Promise<RemoteEditCheckResult> {
+    const result: RemoteEditCheckResult = { checked: 0, conflicts: 0, failed: 0 };
+
+    const publications = await this.publicationRepo.find({
+      where: { status: "published", remoteId: Not(IsNull()) },
+    });
+    if (publications.length === 0) {
+      return result;
+    }
+
+    // 已有未解决冲突的文章等冲突解决后再检查
+    const articles = await AppDataSource.getRepository(Article).find({
+      select: ["id", "userId", "localVersion", "hasConflict"],
+      where: { id: In([...new Set(publications.map((p) => p.articleId))]) },
+    });
+    const articleMap = new Map(articles.map((a) => [a.id, a]));
+
+    // 平台账号按用户登录，同一用户同一平台只检查一次登录状态
+    const loginCache = new Map<string, boolean>();
+
+    for (const publication of publications) {
+      const article = articleMap.get(publication.articleId);
+      const publisher = getPublisher(publication.platform);
+      if (!article || article.hasConflict || !publisher?.capabilities.import) {
+        continue;
+      }
+
+      const loginKey = `${publication.platform}:${article.userId}`;
+      if (!loginCache.has(loginKey)) {
+        loginCache.set(
+          loginKey,
+          await publisher.isLoggedIn(article.userId).catch(() => false)
+        );
+      }
+      if (!loginCache.get(loginKey)) {
+        continue;
+      }
+
+      try {
+        const changed = await this.checkPublication(publication, article);
+        result.checked++;
+        if (changed) {
+          result.conflicts++;
+        }
+      } catch (error) {
+        result.failed++;
+        console.error(
+          `[RemoteEditDetector] 获取${publisher.name}文章失败 (文章ID: ${article.id}):`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 检查单篇文章在一个平台上的内容，发现修改时记录冲突并返回 true
+   */
+  private async checkPublication(
+    publication: ArticlePublication,
+    article: Pick<Article, "id" | "userId" | "localVersion">
+  ): Promise<boolean> {
+    const publisher = getPublisher(publication.platform)!;
+    // 草稿 ID 与导入时获取正文的标识一致；CSDN 没有单独的草稿 ID
+    const key = publication.draftId || publication.remoteId!;
+    const remote = await publisher.fetchRemoteArticle(key, article.userId);
+    const hash = simpleHash(remote.content);
+
+    if (publication.remoteContentHash === hash) {
+      return false;
+    }
+    await this.publicationRepo.update(publication.id, { remoteContentHash: hash });
+    if (!publication.remoteContentHash) {
+      return false;
+    }
+
+    console.log(
+      `[RemoteEditDetector] 发现${publisher.name}上的修改 (文章ID: ${article.id})，已记录为冲突`
+    );
+    await syncConflictDetector.markConflict(
+      article.id,
+      remote.content,
+      remote.title,
+      article.localVersion + 1,
+      undefined,
+      publication.platform as VersionSource,
+      publication.pushedVersionId ?? undefined
+    );
+    return true;
+  }
+}
+
+export const remoteEditDetector = new RemoteEditDetector();
@@ -0,0 +1,86 @@
+/**
+ * 定时发布时间分配
+ * 根据定时规则和已占用的时间计算具体的发布时间，不访问数据库
+ */
+
+import type { ScheduleWindowRule } from "../entities/ScheduledTask";
+
+// 时间窗口规则最多向后查找的天数
+const MAX_SEARCH_DAYS = 60;
+
+/**
+ * 将 HH:mm 解析为当天的分钟数
+ */
+export function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) {
+    throw new Error(`时间格式无效: ${value}`);
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    throw new Error(`时间格式无效: ${value}`);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * 查找与指定时间间隔不足 gapMs 的已占用时间
+ */
+export function findCollision(time: Date, busy: Date[], gapMs: number): Date | undefined {
+  return busy.find((slot) => Math.abs(slot.getTime() - time.getTime()) < gapMs);
+}
+
+/**
+ * 从指定时间开始向后查找第一个空闲时间
+ * 与已占用时间冲突时按 gapMs 步进
+ */
+export function findFreeSlot(start: Date, busy: Date[], gapMs: number): Date {
+  let candidate = new Date(start);
+  while (findCollision(candidate, busy, gapMs)) {
+    candidate = new Date(candidate.getTime() + gapMs);
+  }
+  return candidate;
+}
+
+/**
+ * 在时间窗口规则内查找 from 之后的第一个空闲时间
+ * 窗口内的候选时间从窗口开始按 gapMs 步进，找不到时返回 null
+ */
+export function findWindowSlot(
+  rule: ScheduleWindowRule,
+  busy: Date[],
+  from: Date,
+  gapMs: number
+): Date | null {
+  const startMinutes = parseTimeOfDay(rule.startTime);
+  const endMinutes = parseTimeOfDay(rule.endTime);
+  if (endMinutes < startMinutes) {
+    throw new Error("时间窗口的结束时间不能早于开始时间");
+  }
+  if (rule.weekdays.length === 0) {
+    throw new Error("请至少选择一天");
+  }
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    if (!rule.weekdays.includes(day.getDay())) {
+      continue;
+    }
+
+    const windowStart = new Date(day.getTime() + startMinutes * 60 * 1000);
+    const windowEnd = new Date(day.getTime() + endMinutes * 60 * 1000);
+
+    for (
+      let candidate = windowStart;
+      candidate <= windowEnd;
+      candidate = new Date(candidate.getTime() + gapMs)
+    ) {
+      if (candidate > from && !findCollision(candidate, busy, gapMs)) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
@@ -5,21 +5,28 @@
  * 功能：
  * 1. 定时任务调度：检查并执行到期的发布任务
  * 2. 每日登录状态探测：凌晨 00:00 检测各平台登录状态
+ * 3. 平台修改检测：定期检查已发布的文章是否在平台上被直接修改
  */
 
-import { LessThanOrEqual, In } from "typeorm";
+import { LessThanOrEqual, Between, In, Not } from "typeorm";
 import { AppDataSource } from "../db";
 import { Article, ArticleStatus } from "../entities/Article";
-import { ScheduledTask, TaskStatus, Platform, TencentPublishConfig, JuejinPublishConfig, PlatformConfig } from "../entities/ScheduledTask";
+import {
+  ScheduledTask,
+  TaskStatus,
+  Platform,
+  PlatformConfig,
+  ScheduleRule,
+} from "../entities/ScheduledTask";
 import { User } from "../entities/User";
-import { articleSyncService } from "./articleSync";
 import { emailService } from "./emailService";
+import { publishCampaignService } from "./publishCampaign";
 import { createTencentApiClient } from "./tencentApi";
-import { createJuejinApiClient } from "./juejinApi";
-import { getJuejinCookies } from "./juejinAuth";
-import { transformMarkdownForPlatform } from "./markdownTransformer";
-import { processArticleImages, hasImagesToUpload } from "./imageUpload";
-import * as path from "path";
+import { getPublisher, requirePublisher } from "./publishers";
+import { findCollision, findFreeSlot, findWindowSlot } from "./scheduleSlots";
+import { articleReviewService, ReviewRequiredError } from "./articleReview";
+import { remoteEditDetector } from "./remoteEditDetector";
+import { publishLintService, PublishLintError } from "./publishLint";
 
 /**
  * 调度器配置
@@ -29,6 +36,8 @@ interface SchedulerConfig {
   maxRetries: number;     // 最大重试次数
   retryDelay: number;     // 重试延迟（毫秒）
   loginCheckHour: number; // 每日登录状态检测的小时（0-23）
+  slotGap: number;        // 同一平台相邻任务的最小间隔（毫秒）
+  remoteEditCheckInterval: number; // 平台修改检测间隔（毫秒）
 }
 
 const DEFAULT_CONFIG: SchedulerConfig = {
@@ -36,6 +45,8 @@ const DEFAULT_CONFIG: SchedulerConfig = {
   maxRetries: 3,
   retryDelay: 5 * 60 * 1000,  // 5分钟后重试
   loginCheckHour: 0,  // 凌晨 00:00 检测登录状态
+  slotGap: 10 * 60 * 1000,  // 同一平台的任务至少间隔10分钟
+  remoteEditCheckInterval: 30 * 60 * 1000,  // 每30分钟检测一次平台上的修改
 };
 
 /**
@@ -44,6 +55,8 @@ const DEFAULT_CONFIG: SchedulerConfig = {
 export class SchedulerService {
   private intervalId?: ReturnType<typeof setInterval>;
   private loginCheckIntervalId?: ReturnType<typeof setInterval>;
+  private remoteEditIntervalId?: ReturnType<typeof setInterval>;
+  private isCheckingRemoteEdits = false;
   private config: SchedulerConfig;
   private isRunning = false;
   private lastLoginCheckDate?: string; // 记录上次登录检测的日期，避免重复检测
@@ -77,6 +90,11 @@ export class SchedulerService {
     this.loginCheckIntervalId = setInterval(() => {
       this.checkDailyLoginStatus();
     }, 60 * 1000); // 每分钟检查一次是否需要执行登录状态检测
+
+    // 设置平台修改检测（启动时不立即执行，避免与启动时的任务检查同时请求平台）
+    this.remoteEditIntervalId = setInterval(() => {
+      this.checkRemoteEdits();
+    }, this.config.remoteEditCheckInterval);
   }
 
   /**
@@ -91,6 +109,10 @@ export class SchedulerService {
       clearInterval(this.loginCheckIntervalId);
       this.loginCheckIntervalId = undefined;
     }
+    if (this.remoteEditIntervalId) {
+      clearInterval(this.remoteEditIntervalId);
+      this.remoteEditIntervalId = undefined;
+    }
     console.log("[Scheduler] 调度器已停止");
   }
 
@@ -122,6 +144,29 @@ export class SchedulerService {
     }
   }
 
+  /**
+   * 检测已发布的文章是否在平台上被直接修改，发现修改时记录为冲突
+   */
+  private async checkRemoteEdits(): Promise<void> {
+    if (this.isCheckingRemoteEdits || !AppDataSource.isInitialized) {
+      return;
+    }
+
+    this.isCheckingRemoteEdits = true;
+    try {
+      const result = await remoteEditDetector.checkAll();
+      if (result.checked > 0) {
+        console.log(
+          `[Scheduler] 平台修改检测完成: 检查 ${result.checked} 篇，发现修改 ${result.conflicts} 篇，失败 ${result.failed} 篇`
+        );
+      }
+    } catch (error) {
+      console.error("[Scheduler] 平台修改检测失败:", error);
+    } finally {
+      this.isCheckingRemoteEdits = false;
+    }
+  }
+
   /**
    * 验证所有用户的登录状态
    * 通过调用 API 获取用户信息来验证 cookie 是否有效
@@ -227,6 +272,14 @@ export class SchedulerService {
     }
   }
 
+  /**
+   * 立即检查并执行到期的任务，不等待下一个检查周期
+   * 上一轮检查尚未完成时跳过，到期任务会在下一轮执行
+   */
+  triggerCheck(): void {
+    this.checkAndExecuteTasks();
+  }
+
   /**
    * 检查并执行到期的任务
    */
@@ -282,8 +335,24 @@ export class SchedulerService {
         console.log(`[Scheduler] 发现 ${pendingTasks.length} 个已到期任务，准备执行`);
       }
 
+      // 任务依次执行；同一发布活动的任务都会读取并保存同一篇文章，并行执行会互相覆盖文章状态和摘要，
+      // 执行完一个活动的所有任务后再汇总活动状态
+      const campaignTasks = new Map<number, ScheduledTask[]>();
       for (const task of pendingTasks) {
-        await this.executeTask(task);
+        if (task.campaignId) {
+          const group = campaignTasks.get(task.campaignId) || [];
+          group.push(task);
+          campaignTasks.set(task.campaignId, group);
+        } else {
+          await this.executeTask(task);
+        }
+      }
+
+      for (const [campaignId, tasks] of campaignTasks) {
+        for (const task of tasks) {
+          await this.executeTask(task);
+        }
+        await publishCampaignService.refreshStatus(campaignId);
       }
     } catch (error) {
       console.error("[Scheduler] 检查任务失败:", error);
@@ -305,23 +374,21 @@ export class SchedulerService {
     await taskRepo.save(task);
 
     try {
+      // 创建任务后文章可能被修改，执行前重新确认已通过审核
+      const article = await AppDataSource.getRepository(Article).findOne({ where: { id: task.articleId } });
+      if (!article) {
+        throw new Error("文章不存在");
+      }
+      articleReviewService.assertPublishable(article);
+
       // 先检查登录状态
       const isLoggedIn = await this.checkLoginStatus(task.userId, task.platform);
       if (!isLoggedIn) {
         throw new Error("登录状态已失效，请重新登录");
       }
 
-      // 根据平台执行不同的发布逻辑
-      switch (task.platform) {
-        case Platform.TENCENT:
-          await this.executeTencentPublish(task);
-          break;
-        case Platform.JUEJIN:
-          await this.executeJuejinPublish(task);
-          break;
-        default:
-          throw new Error(`不支持的平台: ${task.platform}`);
-      }
+      // 通过发布平台适配器执行发布
+      await this.executePublish(task);
 
       // 执行成功
       task.status = TaskStatus.SUCCESS;
@@ -330,8 +397,8 @@ export class SchedulerService {
 
       console.log(`[Scheduler] 任务 #${task.id} 执行成功`);
 
-      // 发送成功通知
-      if (!task.notified) {
+      // 发送成功通知（发布活动中的任务由活动统一发送汇总通知）
+      if (!task.notified && !task.campaignId) {
         await emailService.notifyTaskResult(task);
         task.notified = true;
         await taskRepo.save(task);
@@ -346,7 +413,11 @@ export class SchedulerService {
 
       // 判断是否需要重试
       const isCookieExpired = this.isCookieExpiredError(errorMessage);
-      const canRetry = !isCookieExpired && task.retryCount < task.maxRetries;
+      const canRetry =
+        !isCookieExpired &&
+        !(error instanceof ReviewRequiredError) &&
+        !(error instanceof PublishLintError) &&
+        task.retryCount < task.maxRetries;
 
       if (canRetry) {
         // 安排重试
@@ -358,8 +429,8 @@ export class SchedulerService {
         task.status = TaskStatus.FAILED;
         console.log(`[Scheduler] 任务 #${task.id} 最终失败: ${errorMessage}`);
 
-        // 发送失败通知
-        if (!task.notified) {
+        // 发送失败通知（发布活动中的任务由活动统一发送汇总通知）
+        if (!task.notified && !task.campaignId) {
           await emailService.notifyTaskResult(task);
           task.notified = true;
         }
@@ -375,18 +446,13 @@ export class SchedulerService {
    * 这样可以避免因网络问题导致误判登录失效
    */
   private async checkLoginStatus(userId: number, platform: Platform): Promise<boolean> {
-    try {
-      const userRepo = AppDataSource.getRepository(User);
-      const user = await userRepo.findOne({ where: { id: userId } });
-      
-      if (platform === Platform.TENCENT) {
-        // 只检查本地状态：有 cookies 且标记为已登录
-        return !!(user && user.isLoggedIn && user.cookies);
-      } else if (platform === Platform.JUEJIN) {
-        // 检查掘金登录状态
-        return !!(user && user.juejinLoggedIn && user.juejinCookies);
-      }
+    const publisher = getPublisher(platform);
+    if (!publisher) {
       return false;
+    }
+
+    try {
+      return await publisher.isLoggedIn(userId);
     } catch {
       return false;
     }
@@ -401,200 +467,26 @@ export class SchedulerService {
   }
 
   /**
-   * 执行腾讯云发布
+   * 执行发布
+   * 先将任务中保存的配置写入文章，检查通过后再使用文章配置发布
    */
-  private async executeTencentPublish(task: ScheduledTask): Promise<void> {
-    const articleRepo = AppDataSource.getRepository(Article);
+  private async executePublish(task: ScheduledTask): Promise<void> {
     const taskRepo = AppDataSource.getRepository(ScheduledTask);
+    const publisher = requirePublisher(task.platform);
 
-    // 获取文章
-    const article = await articleRepo.findOne({
-      where: { id: task.articleId },
-    });
-
-    if (!article) {
-      throw new Error("文章不存在");
-    }
-
-    // 应用定时任务中保存的配置
-    const config = task.config as TencentPublishConfig;
-    article.tencentTagIds = config.tagIds;
-    article.sourceType = config.sourceType;
-    if (config.summary) {
-      article.summary = config.summary;
-    }
-    await articleRepo.save(article);
-
-    // 执行发布
-    const result = await articleSyncService.publishArticle(task.articleId, task.userId);
+    await publisher.applyConfig(task.articleId, task.config);
+    await publishLintService.assertPublishable(task.articleId, task.platform);
 
+    const result = await publisher.publish(task.articleId, task.userId);
     if (!result.success) {
       throw new Error(result.message);
     }
 
     // 更新任务结果
-    task.resultUrl = result.articleUrl;
+    task.resultUrl = result.url;
     await taskRepo.save(task);
   }
 
-  /**
-   * 执行掘金发布
-   */
-  private async executeJuejinPublish(task: ScheduledTask): Promise<void> {
-    const articleRepo = AppDataSource.getRepository(Article);
-    const taskRepo = AppDataSource.getRepository(ScheduledTask);
-
-    // 获取文章
-    const article = await articleRepo.findOne({
-      where: { id: task.articleId },
-    });
-
-    if (!article) {
-      throw new Error("文章不存在");
-    }
-
-    // 获取掘金 cookies
-    const cookies = await getJuejinCookies();
-    if (!cookies) {
-      throw new Error("掘金登录已失效，请重新登录");
-    }
-
-    // 应用定时任务中保存的配置
-    const config = task.config as JuejinPublishConfig;
-    article.juejinCategoryId = config.categoryId;
-    article.juejinTagIds = config.tagIds;
-    article.juejinTagNames = config.tagNames;
-    article.juejinBriefContent = config.briefContent;
-    article.juejinIsOriginal = config.isOriginal;
-    await articleRepo.save(article);
-
-    // 验证配置
-    if (!article.juejinCategoryId) {
-      throw new Error("请先选择文章分类");
-    }
-    if (!article.juejinTagIds || article.juejinTagIds.length === 0) {
-      throw new Error("请至少选择一个标签");
-    }
-    if (article.juejinTagIds.length > 3) {
-      throw new Error("最多选择3个标签");
-    }
-    if (!article.juejinBriefContent) {
-      throw new Error("请填写文章摘要");
-    }
-    if (article.juejinBriefContent.length < 50) {
-      throw new Error("摘要至少需要50个字符");
-    }
-    if (article.juejinBriefContent.length > 100) {
-      throw new Error("摘要不能超过100个字符");
-    }
-    if (!article.content || article.content.length < 100) {
-      throw new Error("文章正文建议至少100字");
-    }
-
-    // 图片上传目录
-    const UPLOAD_DIR = path.join(process.cwd(), "data", "uploads");
-
-    try {
-      const client = createJuejinApiClient(cookies);
-
-      console.log("[Scheduler] 开始执行掘金定时发布:", {
-        articleId: article.id,
-        title: article.title,
-        categoryId: article.juejinCategoryId,
-        tagIds: article.juejinTagIds,
-        existingDraftId: article.juejinDraftId || "无",
-      });
-
-      // 转换扩展语法（掘金不支持对齐语法，需要移除）
-      const { content: transformedContent, report } = transformMarkdownForPlatform(
-        article.content,
-        { platform: "juejin" }
-      );
-      
-      if (report.processed > 0) {
-        console.log(`[Scheduler] 转换了 ${report.processed} 个扩展语法节点`, report.details);
-      }
-
-      // 处理文章中的图片，上传到掘金 ImageX
-      let contentToPublish = transformedContent;
-      if (hasImagesToUpload(transformedContent, "juejin")) {
-        console.log("[Scheduler] 检测到需要上传的图片，开始上传到掘金...");
-        try {
-          const { content: processedContent, results } = await processArticleImages(
-            transformedContent,
-            client,
-            UPLOAD_DIR,
-            "juejin"
-          );
-          contentToPublish = processedContent;
-          
-          const successCount = results.filter(r => r.success).length;
-          console.log(`[Scheduler] 图片上传完成: ${successCount}/${results.length} 成功`);
-          
-          // 如果有图片上传失败，给出警告但继续发布
-          if (successCount < results.length) {
-            console.warn(`[Scheduler] 警告: ${results.length - successCount} 张图片上传失败`);
-          }
-        } catch (imageError) {
-          const errorMsg = imageError instanceof Error ? imageError.message : "未知错误";
-          console.error("[Scheduler] 图片上传失败:", errorMsg);
-          throw new Error(`图片上传失败: ${errorMsg}`);
-        }
-      }
-
-      // 一键发布文章（复用已有草稿ID）
-      const result = await client.publishArticleOneClick({
-        title: article.title,
-        markContent: contentToPublish,
-        briefContent: article.juejinBriefContent,
-        categoryId: article.juejinCategoryId,
-        tagIds: article.juejinTagIds,
-        isOriginal: article.juejinIsOriginal,
-        existingDraftId: article.juejinDraftId || undefined,
-      });
-
-      // 更新文章状态
-      article.juejinArticleId = result.article_id;
-      article.juejinDraftId = result.draft_id;
-      article.juejinArticleUrl = `https://juejin.cn/post/${result.article_id}`;
-      article.juejinStatus = "pending"; // 掘金发布后需要审核，初始状态为审核中
-      article.juejinLastSyncedAt = new Date();
-      await articleRepo.save(article);
-
-      console.log("[Scheduler] 掘金发布成功:", {
-        articleId: result.article_id,
-        draftId: result.draft_id,
-        url: article.juejinArticleUrl,
-      });
-
-      // 更新任务结果
-      task.resultUrl = article.juejinArticleUrl;
-      await taskRepo.save(task);
-    } catch (error) {
-      // 详细记录错误日志
-      console.error("[Scheduler] 掘金发布失败，详细信息:", {
-        articleId: article.id,
-        title: article.title,
-        categoryId: article.juejinCategoryId,
-        tagIds: article.juejinTagIds,
-        briefContent: article.juejinBriefContent,
-        contentLength: article.content?.length,
-        error: error instanceof Error ? {
-          name: error.name,
-          message: error.message,
-          stack: error.stack,
-        } : error,
-      });
-
-      // 更新错误状态
-      article.juejinStatus = "failed";
-      article.errorMessage = error instanceof Error ? error.message : "发布失败";
-      await articleRepo.save(article);
-
-      throw error;
-    }
-  }
-
   /**
    * 创建定时任务
    */
@@ -602,12 +494,23 @@ export class SchedulerService {
     articleId: number;
     userId: number;
     platform: Platform;
-    scheduledAt: Date;
+    scheduledAt?: Date;
+    rule?: ScheduleRule;
     config: PlatformConfig;
+    // 所属的发布活动
+    campaignId?: number;
+    // 立即开始的发布活动，任务时间可以是当前时间
+    immediate?: boolean;
   }): Promise<ScheduledTask> {
     const taskRepo = AppDataSource.getRepository(ScheduledTask);
     const articleRepo = AppDataSource.getRepository(Article);
 
+    // 验证平台支持定时发布
+    const publisher = getPublisher(params.platform);
+    if (!publisher?.capabilities.schedule) {
+      throw new Error(`不支持定时发布的平台: ${params.platform}`);
+    }
+
     // 验证文章存在
     const article = await articleRepo.findOne({
       where: { id: params.articleId },
@@ -615,6 +518,9 @@ export class SchedulerService {
     if (!article) {
       throw new Error("文章不存在");
     }
+    articleReviewService.assertPublishable(article);
+    // 任务配置在执行时才写入文章，这里只检查内容
+    await publishLintService.assertPublishable(params.articleId, params.platform, true);
 
     // 检查是否已有相同的待执行任务
     const existingTask = await taskRepo.findOne({
@@ -629,36 +535,157 @@ export class SchedulerService {
       throw new Error("该文章已有待执行的定时发布任务");
     }
 
-    // 验证定时时间
-    if (params.scheduledAt <= new Date()) {
-      throw new Error("定时发布时间必须在当前时间之后");
-    }
+    // 按定时规则分配发布时间，并检查与其他任务是否冲突
+    const scheduledAt = await this.resolveScheduledAt(params);
 
     // 创建任务
     const task = taskRepo.create({
       articleId: params.articleId,
       userId: params.userId,
       platform: params.platform,
-      scheduledAt: params.scheduledAt,
+      scheduledAt,
+      rule: params.rule,
       config: params.config,
       status: TaskStatus.PENDING,
       maxRetries: this.config.maxRetries,
+      campaignId: params.campaignId,
     });
 
     await taskRepo.save(task);
 
     // 更新文章状态
     article.status = ArticleStatus.SCHEDULED;
-    article.scheduledAt = params.scheduledAt;
+    article.scheduledAt = scheduledAt;
     await articleRepo.save(article);
 
     console.log(`[Scheduler] 创建定时任务 #${task.id}`);
-    console.log(`[Scheduler] - 计划时间: ${params.scheduledAt.toISOString()} (本地: ${params.scheduledAt.toLocaleString("zh-CN")})`);
+    if (params.rule) {
+      console.log(`[Scheduler] - 定时规则: ${JSON.stringify(params.rule)}`);
+    }
+    console.log(`[Scheduler] - 计划时间: ${scheduledAt.toISOString()} (本地: ${scheduledAt.toLocaleString("zh-CN")})`);
     console.log(`[Scheduler] - 当前时间: ${new Date().toISOString()} (本地: ${new Date().toLocaleString("zh-CN")})`);
 
     return task;
   }
 
+  /**
+   * 计算任务的发布时间
+   * - 指定时间：校验时间有效且与同平台的其他任务不冲突
+   * - 时间窗口规则：在窗口内选择最近的空闲时间
+   * - 错峰规则：在参照平台的发布时间之后延迟，冲突时顺延
+   */
+  async resolveScheduledAt(params: {
+    articleId: number;
+    userId: number;
+    platform: Platform;
+    scheduledAt?: Date;
+    rule?: ScheduleRule;
+    excludeTaskId?: number;
+    immediate?: boolean;
+  }): Promise<Date> {
+    const now = new Date();
+    const busy = await this.getBusySlots(params.userId, params.platform, params.excludeTaskId);
+
+    if (!params.rule) {
+      if (!params.scheduledAt) {
+        throw new Error("请指定发布时间或定时规则");
+      }
+      if (params.scheduledAt <= now && !params.immediate) {
+        throw new Error("定时发布时间必须在当前时间之后");
+      }
+
+      const collision = findCollision(params.scheduledAt, busy, this.config.slotGap);
+      if (collision) {
+        const name = getPublisher(params.platform)?.name || params.platform;
+        throw new Error(
+          `该时间与${name}在 ${collision.toLocaleString("zh-CN")} 的定时任务间隔不足 ${this.config.slotGap / 60000} 分钟`
+        );
+      }
+      return params.scheduledAt;
+    }
+
+    if (params.rule.type === "window") {
+      const slot = findWindowSlot(params.rule, busy, now, this.config.slotGap);
+      if (!slot) {
+        throw new Error("时间窗口内没有可用的发布时间");
+      }
+      return slot;
+    }
+
+    // 错峰规则：以参照平台待执行任务的计划时间为准，否则以最近一次成功发布的时间为准
+    const taskRepo = AppDataSource.getRepository(ScheduledTask);
+    const { afterPlatform, offsetMinutes } = params.rule;
+    if (afterPlatform === params.platform) {
+      throw new Error("错峰发布的参照平台不能是当前平台");
+    }
+
+    const referenceTask = await taskRepo.findOne({
+      where: {
+        articleId: params.articleId,
+        platform: afterPlatform,
+        status: In([TaskStatus.PENDING, TaskStatus.RUNNING]),
+      },
+      order: { scheduledAt: "ASC" },
+    });
+    const publishedTask = referenceTask
+      ? null
+      : await taskRepo.findOne({
+          where: {
+            articleId: params.articleId,
+            platform: afterPlatform,
+            status: TaskStatus.SUCCESS,
+          },
+          order: { executedAt: "DESC" },
+        });
+
+    const referenceTime = referenceTask?.scheduledAt || publishedTask?.executedAt;
+    if (!referenceTime) {
+      const name = getPublisher(afterPlatform)?.name || afterPlatform;
+      throw new Error(`未找到该文章在${name}的定时任务或发布记录`);
+    }
+
+    const target = new Date(referenceTime.getTime() + offsetMinutes * 60 * 1000);
+    return findFreeSlot(target > now ? target : now, busy, this.config.slotGap);
+  }
+
+  /**
+   * 获取同一平台已被待执行任务占用的时间
+   */
+  private async getBusySlots(
+    userId: number,
+    platform: Platform,
+    excludeTaskId?: number
+  ): Promise<Date[]> {
+    const taskRepo = AppDataSource.getRepository(ScheduledTask);
+    const where: any = {
+      userId,
+      platform,
+      status: In([TaskStatus.PENDING, TaskStatus.RUNNING]),
+    };
+    if (excludeTaskId) {
+      where.id = Not(excludeTaskId);
+    }
+
+    const tasks = await taskRepo.find({ where });
+    return tasks.map((task) => task.scheduledAt);
+  }
+
+  /**
+   * 获取时间范围内已计划的发布任务（用于发布日历）
+   */
+  async getPlannedTasks(userId: number, from: Date, to: Date): Promise<ScheduledTask[]> {
+    const taskRepo = AppDataSource.getRepository(ScheduledTask);
+    return taskRepo.find({
+      where: {
+        userId,
+        status: In([TaskStatus.PENDING, TaskStatus.RUNNING]),
+        scheduledAt: Between(from, to),
+      },
+      order: { scheduledAt: "ASC" },
+      relations: ["article"],
+    });
+  }
+
   /**
    * 取消定时任务
    */
@@ -692,6 +719,10 @@ export class SchedulerService {
       await articleRepo.save(article);
     }
 
+    if (task.campaignId) {
+      await publishCampaignService.refreshStatus(task.campaignId);
+    }
+
     console.log(`[Scheduler] 取消定时任务 #${taskId}`);
   }
 
@@ -744,6 +775,7 @@ export class SchedulerService {
     userId: number,
     updates: {
       scheduledAt?: Date;
+      rule?: ScheduleRule;
       config?: PlatformConfig;
     }
   ): Promise<ScheduledTask> {
@@ -763,18 +795,23 @@ export class SchedulerService {
     }
 
     // 更新字段
-    if (updates.scheduledAt) {
-      if (updates.scheduledAt <= new Date()) {
-        throw new Error("定时发布时间必须在当前时间之后");
-      }
-      task.scheduledAt = updates.scheduledAt;
+    if (updates.scheduledAt || updates.rule) {
+      task.scheduledAt = await this.resolveScheduledAt({
+        articleId: task.articleId,
+        userId,
+        platform: task.platform,
+        scheduledAt: updates.scheduledAt,
+        rule: updates.rule,
+        excludeTaskId: task.id,
+      });
+      task.rule = updates.rule ?? null;
 
       // 同步更新文章的定时时间
       const article = await articleRepo.findOne({
         where: { id: task.articleId },
       });
       if (article) {
-        article.scheduledAt = updates.scheduledAt;
+        article.scheduledAt = task.scheduledAt;
         await articleRepo.save(article);
       }
     }
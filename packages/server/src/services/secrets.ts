@@ -0,0 +1,223 @@
+/**
+ * 敏感字段加密服务
+ *
+ * 平台 Cookie、AI API Key、OAuth Token 等字段使用 AES-256-GCM 加密后写入数据库，
+ * 实体上通过 encryptedColumn 转换器透明加解密，业务代码读写的仍是明文。
+ *
+ * 数据密钥保存在数据目录的 secrets.key 中（文件权限 600）。
+ * 设置了环境变量 PEN_BRIDGE_MASTER_KEY 时（Electron 本地模式从系统钥匙串读取后注入），
+ * secrets.key 本身再用该主密钥加密，数据目录被复制走也无法解密。
+ *
+ * 密文中带有密钥 ID：轮换密钥时先加入新密钥，所有数据重新加密后再移除旧密钥，
+ * 中途中断也不会导致数据无法解密。
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { chmodSync, existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { ValueTransformer } from "typeorm";
+import { getDataDir } from "./dataDir";
+
+// 密文前缀，用于区分迁移前的明文数据
+const CIPHER_PREFIX = "enc:v1:";
+
+// 用主密钥加密密钥文件时使用的密钥 ID
+const MASTER_KEY_ID = "master";
+
+const KEY_FILE_NAME = "secrets.key";
+
+/**
+ * 密钥环：可同时存在多个密钥，新数据使用 activeKeyId 对应的密钥加密
+ */
+interface Keyring {
+  activeKeyId: string;
+  keys: Record<string, string>; // 密钥 ID -> base64 编码的 32 字节密钥
+}
+
+function encryptWithKey(plaintext: string, keyId: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `${CIPHER_PREFIX}${keyId}:${iv.toString("base64")}:${tag.toString("base64")}:${data.toString("base64")}`;
+}
+
+function parseCiphertext(value: string): { keyId: string; iv: Buffer; tag: Buffer; data: Buffer } {
+  const [keyId, iv, tag, data] = value.slice(CIPHER_PREFIX.length).split(":");
+  if (!keyId || iv === undefined || tag === undefined || data === undefined) {
+    throw new Error("密文格式不正确");
+  }
+  return {
+    keyId,
+    iv: Buffer.from(iv, "base64"),
+    tag: Buffer.from(tag, "base64"),
+    data: Buffer.from(data, "base64"),
+  };
+}
+
+function decryptWithKey(iv: Buffer, tag: Buffer, data: Buffer, key: Buffer): string {
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+}
+
+function generateKeyId(): string {
+  return randomBytes(4).toString("hex");
+}
+
+class SecretsService {
+  private keyring: Keyring | null = null;
+
+  private get keyFilePath(): string {
+    return join(getDataDir(), KEY_FILE_NAME);
+  }
+
+  /**
+   * 环境变量中的主密钥（任意长度的字符串，派生为 32 字节密钥）
+   */
+  private getMasterKey(): Buffer | null {
+    const masterKey = process.env.PEN_BRIDGE_MASTER_KEY;
+    return masterKey ? createHash("sha256").update(masterKey).digest() : null;
+  }
+
+  private loadKeyring(): Keyring {
+    if (this.keyring) {
+      return this.keyring;
+    }
+
+    if (!existsSync(this.keyFilePath)) {
+      const keyId = generateKeyId();
+      this.keyring = { activeKeyId: keyId, keys: { [keyId]: randomBytes(32).toString("base64") } };
+      this.saveKeyring();
+      console.log(`[Secrets] 已生成数据密钥: ${this.keyFilePath}`);
+      return this.keyring;
+    }
+
+    const raw = readFileSync(this.keyFilePath, "utf8").trim();
+    const masterKey = this.getMasterKey();
+    let json: string;
+    if (raw.startsWith(CIPHER_PREFIX)) {
+      if (!masterKey) {
+        throw new Error("密钥文件已使用主密钥加密，但未设置 PEN_BRIDGE_MASTER_KEY");
+      }
+      const { iv, tag, data } = parseCiphertext(raw);
+      try {
+        json = decryptWithKey(iv, tag, data, masterKey);
+      } catch {
+        throw new Error("无法解密密钥文件，PEN_BRIDGE_MASTER_KEY 不正确");
+      }
+    } else {
+      json = raw;
+    }
+
+    this.keyring = JSON.parse(json) as Keyring;
+    if (!this.keyring.keys[this.keyring.activeKeyId]) {
+      throw new Error("密钥文件损坏：找不到当前使用的密钥");
+    }
+
+    // 之前未使用主密钥保护的密钥文件，设置主密钥后自动加密
+    if (masterKey && !raw.startsWith(CIPHER_PREFIX)) {
+      this.saveKeyring();
+      console.log("[Secrets] 密钥文件已使用主密钥加密");
+    }
+    return this.keyring;
+  }
+
+  /**
+   * 写入密钥文件：先写临时文件再替换，避免写入中断导致密钥丢失
+   */
+  private saveKeyring(): void {
+    if (!this.keyring) return;
+    const json = JSON.stringify(this.keyring);
+    const masterKey = this.getMasterKey();
+    const content = masterKey ? encryptWithKey(json, MASTER_KEY_ID, masterKey) : json;
+
+    const tempPath = `${this.keyFilePath}.tmp`;
+    writeFileSync(tempPath, content, { mode: 0o600 });
+    renameSync(tempPath, this.keyFilePath);
+    try {
+      chmodSync(this.keyFilePath, 0o600);
+    } catch {
+      // Windows 不支持文件权限，忽略
+    }
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = this.loadKeyring().keys[keyId];
+    if (!key) {
+      throw new Error(`找不到密钥 ${keyId}，无法解密数据`);
+    }
+    return Buffer.from(key, "base64");
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(CIPHER_PREFIX);
+  }
+
+  /**
+   * 是否需要（重新）加密：明文数据，或使用的不是当前密钥
+   */
+  needsEncryption(value: string): boolean {
+    if (!this.isEncrypted(value)) {
+      return true;
+    }
+    return parseCiphertext(value).keyId !== this.loadKeyring().activeKeyId;
+  }
+
+  encrypt(plaintext: string): string {
+    const { activeKeyId } = this.loadKeyring();
+    return encryptWithKey(plaintext, activeKeyId, this.getKey(activeKeyId));
+  }
+
+  /**
+   * 解密数据；未加密的旧数据原样返回
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+    const { keyId, iv, tag, data } = parseCiphertext(value);
+    return decryptWithKey(iv, tag, data, this.getKey(keyId));
+  }
+
+  /**
+   * 开始轮换：生成新密钥并设为当前密钥，旧密钥保留到数据全部重新加密
+   * @returns 新密钥 ID
+   */
+  rotateKey(): string {
+    const keyring = this.loadKeyring();
+    const keyId = generateKeyId();
+    keyring.keys[keyId] = randomBytes(32).toString("base64");
+    keyring.activeKeyId = keyId;
+    this.saveKeyring();
+    return keyId;
+  }
+
+  /**
+   * 移除当前密钥以外的密钥（所有数据已使用当前密钥重新加密后调用）
+   * @returns 移除的密钥数量
+   */
+  pruneInactiveKeys(): number {
+    const keyring = this.loadKeyring();
+    const inactive = Object.keys(keyring.keys).filter((id) => id !== keyring.activeKeyId);
+    if (inactive.length === 0) {
+      return 0;
+    }
+    for (const id of inactive) {
+      delete keyring.keys[id];
+    }
+    this.saveKeyring();
+    return inactive.length;
+  }
+}
+
+export const secretsService = new SecretsService();
+
+/**
+ * 加密列转换器：写入时加密，读取时解密
+ */
+export const encryptedColumn: ValueTransformer = {
+  to: (value: string | null | undefined) =>
+    typeof value === "string" && value !== "" ? secretsService.encrypt(value) : value,
+  from: (value: string | null | undefined) =>
+    typeof value === "string" ? secretsService.decrypt(value) : value,
+};
@@ -1,6 +1,9 @@
+import { In, IsNull, LessThanOrEqual, Not } from "typeorm";
 import { AppDataSource } from "../db";
 import { Article } from "../entities/Article";
+import { ArticlePublication } from "../entities/ArticlePublication";
 import { ArticleVersion, VersionSource } from "../entities/ArticleVersion";
+import { threeWayMerge, type ThreeWayMergeResult } from "./threeWayMerge";
 
 export interface ConflictCheckResult {
   hasConflict: boolean;
@@ -9,15 +12,43 @@ export interface ConflictCheckResult {
   remoteContent?: string;
   remoteTitle?: string;
   remoteUpdatedAt?: Date;
+  // 冲突内容的来源：其他设备（conflict_remote）或在平台上直接修改（平台标识）
+  remoteSource?: string;
   syncStatus: string;
 }
 
 export interface ConflictResolution {
   articleId: number;
-  resolution: "local" | "remote";
+  resolution: "local" | "remote" | "merged";
+  // resolution 为 merged 时的合并结果
+  content?: string;
 }
 
-function simpleHash(content: string): string {
+// 每篇文章保留的未固定历史版本数量
+const MAX_UNPINNED_VERSIONS = 20;
+
+// 历史版本列表返回的字段（不含正文）
+const VERSION_SUMMARY_FIELDS: (keyof ArticleVersion)[] = [
+  "id",
+  "articleId",
+  "version",
+  "title",
+  "contentHash",
+  "source",
+  "deviceId",
+  "label",
+  "pinned",
+  "createdAt",
+];
+
+export interface MergePreview extends ThreeWayMergeResult {
+  // 是否找到了共同的基准版本；没有基准时双方的所有差异都作为冲突
+  hasBase: boolean;
+  baseVersion?: number;
+  remoteContent: string;
+}
+
+export function simpleHash(content: string): string {
   let hash = 0;
   for (let i = 0; i < content.length; i++) {
     const char = content.charCodeAt(i);
@@ -50,22 +81,31 @@ export class SyncConflictDetector {
       remoteContent: article.conflictRemoteContent || undefined,
       remoteTitle: undefined,
       remoteUpdatedAt: article.conflictDetectedAt || undefined,
+      remoteSource: article.conflictSource || undefined,
       syncStatus: article.syncStatus,
     };
   }
 
+  /**
+   * 记录冲突
+   * @param source 冲突内容的来源，在平台上直接修改时为平台标识，保存的历史版本也使用该来源
+   * @param baseVersionId 作为合并基准的历史版本 ID（平台上的修改以推送到平台的内容为基准）
+   */
   async markConflict(
     articleId: number,
     remoteContent: string,
     remoteTitle: string,
-    remoteVersion: number
+    remoteVersion: number,
+    baseVersion?: number,
+    source: VersionSource = "conflict_remote",
+    baseVersionId?: number
   ): Promise<void> {
     const article = await this.articleRepo.findOne({ where: { id: articleId } });
     if (!article) {
       throw new Error("文章不存在");
     }
 
-    await this.saveVersion(article, "conflict_remote", remoteContent, remoteTitle);
+    await this.saveVersion(article, source, remoteContent, remoteTitle);
 
     await this.articleRepo.update(articleId, {
       hasConflict: true,
@@ -73,10 +113,75 @@ export class SyncConflictDetector {
       conflictDetectedAt: new Date(),
       remoteVersion,
       remoteContentHash: simpleHash(remoteContent),
+      conflictBaseVersion: baseVersion ?? null,
+      conflictBaseVersionId: baseVersionId ?? null,
+      conflictSource: source,
       syncStatus: "conflict",
     });
   }
 
+  /**
+   * 查找三方合并的基准：冲突发生时本地修改所基于的版本
+   * 记录了基准版本 ID 时直接使用；否则取不晚于该版本号的最新本地版本，
+   * 冲突时保存的云端内容与基准版本号相同，不能作为基准
+   */
+  private async findMergeBase(article: Article): Promise<ArticleVersion | null> {
+    if (article.conflictBaseVersionId) {
+      return this.versionRepo.findOne({
+        where: { id: article.conflictBaseVersionId, articleId: article.id },
+      });
+    }
+    if (article.conflictBaseVersion === null || article.conflictBaseVersion === undefined) {
+      return null;
+    }
+    return this.versionRepo.findOne({
+      where: {
+        articleId: article.id,
+        version: LessThanOrEqual(article.conflictBaseVersion),
+        source: In(["local", "merged"]),
+      },
+      order: { version: "DESC", createdAt: "DESC" },
+    });
+  }
+
+  /**
+   * 三方合并本地内容与云端内容
+   * 只有一方修改的区域自动合并，双方都修改的区域作为冲突返回，由用户逐个选择
+   */
+  async prepareMerge(articleId: number, localContent: string): Promise<MergePreview> {
+    const article = await this.articleRepo.findOne({ where: { id: articleId } });
+    if (!article) {
+      throw new Error("文章不存在");
+    }
+    if (!article.hasConflict || !article.conflictRemoteContent) {
+      throw new Error("文章没有待解决的冲突");
+    }
+
+    const base = await this.findMergeBase(article);
+    const result = threeWayMerge(base?.content ?? null, localContent, article.conflictRemoteContent);
+
+    return {
+      ...result,
+      hasBase: !!base,
+      baseVersion: base?.version,
+      remoteContent: article.conflictRemoteContent,
+    };
+  }
+
+  /**
+   * 其他设备覆盖文章内容前保存当前内容为历史版本
+   * 这样之前的设备再同步时，可以用该版本作为三方合并的基准
+   */
+  async snapshotBeforeOverwrite(article: Article, content: string, deviceId?: string): Promise<void> {
+    if (!deviceId || !article.lastModifiedBy || article.lastModifiedBy === deviceId) {
+      return;
+    }
+    if (article.content === content) {
+      return;
+    }
+    await this.saveVersion(article, "local");
+  }
+
   async resolveConflict(params: ConflictResolution): Promise<Article> {
     const { articleId, resolution } = params;
     
@@ -94,6 +199,9 @@ export class SyncConflictDetector {
         hasConflict: false,
         conflictRemoteContent: undefined,
         conflictDetectedAt: undefined,
+        conflictBaseVersion: null,
+        conflictBaseVersionId: null,
+        conflictSource: null,
         syncStatus: "pending",
         localVersion: article.localVersion + 1,
       });
@@ -110,9 +218,33 @@ export class SyncConflictDetector {
         hasConflict: false,
         conflictRemoteContent: undefined,
         conflictDetectedAt: undefined,
+        conflictBaseVersion: null,
+        conflictBaseVersionId: null,
+        conflictSource: null,
         syncStatus: "synced",
         localVersion: article.remoteVersion || article.localVersion + 1,
       });
+    } else if (resolution === "merged") {
+      if (params.content === undefined) {
+        throw new Error("缺少合并后的内容");
+      }
+
+      const localVersion = article.localVersion + 1;
+      await this.articleRepo.update(articleId, {
+        content: params.content,
+        contentHash: simpleHash(params.content),
+        hasConflict: false,
+        conflictRemoteContent: undefined,
+        conflictDetectedAt: undefined,
+        conflictBaseVersion: null,
+        conflictBaseVersionId: null,
+        conflictSource: null,
+        syncStatus: "synced",
+        localVersion,
+        serverUpdatedAt: new Date(),
+      });
+
+      await this.saveVersion({ ...article, localVersion }, "merged", params.content);
     }
 
     return this.articleRepo.findOneOrFail({ where: { id: articleId } });
@@ -154,11 +286,29 @@ export class SyncConflictDetector {
     });
   }
 
+  /**
+   * 把推送到平台的内容（已转换格式、替换图片地址）保存为历史版本，返回版本 ID
+   * 之后发现平台上的修改时，以该版本作为三方合并的基准
+   */
+  async snapshotPushedContent(article: Article, content: string, platform: VersionSource): Promise<number> {
+    const existing = await this.versionRepo.findOne({
+      select: ["id"],
+      where: { articleId: article.id, source: platform, contentHash: simpleHash(content) },
+      order: { id: "DESC" },
+    });
+    if (existing) {
+      return existing.id;
+    }
+    const version = await this.saveVersion(article, platform, content);
+    return version.id;
+  }
+
   async saveVersion(
     article: Article,
     source: VersionSource,
     content?: string,
-    title?: string
+    title?: string,
+    label?: string
   ): Promise<ArticleVersion> {
     const version = this.versionRepo.create({
       articleId: article.id,
@@ -167,23 +317,104 @@ export class SyncConflictDetector {
       content: content || article.content,
       contentHash: simpleHash(content || article.content),
       source,
+      deviceId: article.lastModifiedBy,
+      label: label ?? null,
+      pinned: !!label,
     });
 
-    return this.versionRepo.save(version);
+    const saved = await this.versionRepo.save(version);
+    await this.cleanOldVersions(article.id);
+    return saved;
   }
 
+  /**
+   * 获取历史版本列表（不含正文），按时间倒序
+   */
   async getVersionHistory(articleId: number, limit = 10): Promise<ArticleVersion[]> {
     return this.versionRepo.find({
+      select: VERSION_SUMMARY_FIELDS,
       where: { articleId },
-      order: { createdAt: "DESC" },
+      order: { createdAt: "DESC", id: "DESC" },
       take: limit,
     });
   }
 
-  async cleanOldVersions(articleId: number, keepCount = 20): Promise<number> {
+  async getVersion(versionId: number): Promise<ArticleVersion> {
+    const version = await this.versionRepo.findOne({ where: { id: versionId } });
+    if (!version) {
+      throw new Error("历史版本不存在");
+    }
+    return version;
+  }
+
+  /**
+   * 将文章当前内容保存为命名快照，快照会被固定，不会被清理
+   */
+  async createSnapshot(articleId: number, label: string): Promise<ArticleVersion> {
+    const article = await this.articleRepo.findOne({ where: { id: articleId } });
+    if (!article) {
+      throw new Error("文章不存在");
+    }
+    return this.saveVersion(article, "local", undefined, undefined, label);
+  }
+
+  /**
+   * 固定或取消固定历史版本
+   * 固定时可以填写名称；取消固定后版本重新参与清理
+   */
+  async setVersionPinned(versionId: number, pinned: boolean, label?: string): Promise<ArticleVersion> {
+    const version = await this.getVersion(versionId);
+    version.pinned = pinned;
+    version.label = pinned ? label ?? version.label ?? null : null;
+    await this.versionRepo.update(versionId, { pinned: version.pinned, label: version.label });
+    if (!pinned) {
+      // 取消固定的旧版本可能会被立即清理
+      await this.cleanOldVersions(version.articleId);
+    }
+    return version;
+  }
+
+  /**
+   * 恢复到指定历史版本
+   * 恢复前先把当前内容保存为历史版本，恢复操作本身也可以撤销
+   */
+  async restoreVersion(versionId: number): Promise<Article> {
+    const version = await this.getVersion(versionId);
+    const article = await this.articleRepo.findOne({ where: { id: version.articleId } });
+    if (!article) {
+      throw new Error("文章不存在");
+    }
+
+    if (article.content !== version.content || article.title !== version.title) {
+      await this.saveVersion(article, "local");
+    }
+
+    await this.articleRepo.update(article.id, {
+      title: version.title,
+      content: version.content,
+      contentHash: simpleHash(version.content),
+      localVersion: article.localVersion + 1,
+      serverUpdatedAt: new Date(),
+      syncStatus: "synced",
+    });
+
+    return this.articleRepo.findOneOrFail({ where: { id: article.id } });
+  }
+
+  /**
+   * 清理旧版本，只保留最近 keepCount 个未固定的版本
+   */
+  async cleanOldVersions(articleId: number, keepCount = MAX_UNPINNED_VERSIONS): Promise<number> {
+    // 推送到平台的版本是之后合并平台修改的基准，不清理
+    const pushed = await AppDataSource.getRepository(ArticlePublication).find({
+      select: ["pushedVersionId"],
+      where: { articleId, pushedVersionId: Not(IsNull()) },
+    });
+    const pushedIds = pushed.map((p) => p.pushedVersionId!);
     const versions = await this.versionRepo.find({
-      where: { articleId },
-      order: { createdAt: "DESC" },
+      select: ["id"],
+      where: { articleId, pinned: Not(true), ...(pushedIds.length ? { id: Not(In(pushedIds)) } : {}) },
+      order: { createdAt: "DESC", id: "DESC" },
     });
 
     if (versions.length <= keepCount) {
@@ -17,6 +17,7 @@ export interface LoginResult {
 
 // 从客户端设置 cookies（Electron 客户端调用）
 export async function setCookiesFromClient(
+  userId: number,
   cookiesJson: string,
   nickname?: string,
   avatarUrl?: string
@@ -45,8 +46,8 @@ export async function setCookiesFromClient(
       }
     }
 
-    // 查找或创建用户
-    let user = await userRepo.findOne({ where: { id: 1 } });
+    // 平台账号保存在当前工作区用户上
+    let user = await userRepo.findOne({ where: { id: userId } });
     if (!user) {
       user = userRepo.create({
         nickname: finalNickname,
@@ -96,7 +97,7 @@ export async function waitForManualLogin(): Promise<LoginResult> {
 // 注意：只要本地有 cookies 且 isLoggedIn=true，就认为已登录
 // 不主动调用 API 验证，避免因网络问题或临时失效导致登录状态丢失
 // 只有用户主动 logout 才会清除登录状态
-export async function autoLogin(userId: number = 1): Promise<LoginResult> {
+export async function autoLogin(userId: number): Promise<LoginResult> {
   const userRepo = AppDataSource.getRepository(User);
   const user = await userRepo.findOne({ where: { id: userId } });
 
@@ -132,7 +133,7 @@ export async function autoLogin(userId: number = 1): Promise<LoginResult> {
 }
 
 // 获取当前登录状态
-export async function getLoginStatus(userId: number = 1): Promise<{
+export async function getLoginStatus(userId: number): Promise<{
   isLoggedIn: boolean;
   user?: { id: number; nickname?: string; avatarUrl?: string };
 }> {
@@ -156,7 +157,7 @@ export async function getLoginStatus(userId: number = 1): Promise<{
 }
 
 // 登出
-export async function logout(userId: number = 1): Promise<void> {
+export async function logout(userId: number): Promise<void> {
   const userRepo = AppDataSource.getRepository(User);
   const user = await userRepo.findOne({ where: { id: userId } });
 
@@ -0,0 +1,245 @@
+/**
+ * 三方合并
+ * 以双方共同的历史版本为基准，按行比较本地和云端的修改：
+ * 只有一方修改的区域自动采用该方的内容，双方修改了同一区域且结果不同时标记为冲突
+ */
+
+/**
+ * 一方相对基准版本的一处修改
+ * 基准版本的 [baseStart, baseEnd) 行被替换为该方的 [sideStart, sideEnd) 行
+ */
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+/**
+ * 合并结果片段
+ * - stable: 无冲突的内容（双方一致，或只有一方修改并已自动合并）
+ * - conflict: 双方修改了同一区域，需要人工选择
+ */
+export type MergeChunk =
+  | { type: "stable"; lines: string[]; autoMerged?: boolean }
+  | { type: "conflict"; id: number; base: string[]; local: string[]; remote: string[] };
+
+export interface ThreeWayMergeResult {
+  chunks: MergeChunk[];
+  // 冲突数量
+  conflictCount: number;
+  // 自动合并的修改数量
+  autoMergedCount: number;
+}
+
+// 超过该规模（行数乘积）时不再逐行比较，整段视为一处修改，避免占用过多内存
+const MAX_DIFF_CELLS = 25_000_000;
+
+/**
+ * 计算 side 相对 base 的修改（基于最长公共子序列）
+ */
+function diffLines(base: string[], side: string[]): Hunk[] {
+  // 去掉相同的开头和结尾，只比较中间部分
+  let prefix = 0;
+  while (prefix < base.length && prefix < side.length && base[prefix] === side[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < side.length - prefix &&
+    base[base.length - 1 - suffix] === side[side.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const n = base.length - prefix - suffix;
+  const m = side.length - prefix - suffix;
+  if (n === 0 && m === 0) {
+    return [];
+  }
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [{ baseStart: prefix, baseEnd: prefix + n, sideStart: prefix, sideEnd: prefix + m }];
+  }
+
+  // lcs[i][j]: base[i..] 与 side[j..] 的最长公共子序列长度
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        base[prefix + i] === side[prefix + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  // 沿公共子序列前进，连续的不匹配行组成一处修改
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && base[prefix + i] === side[prefix + j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = {
+        baseStart: prefix + i,
+        baseEnd: prefix + i,
+        sideStart: prefix + j,
+        sideEnd: prefix + j,
+      };
+      hunks.push(current);
+    }
+    if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      j++;
+      current.sideEnd = prefix + j;
+    } else {
+      i++;
+      current.baseEnd = prefix + i;
+    }
+  }
+  return hunks;
+}
+
+/**
+ * 取出一方在基准版本 [start, end) 区域对应的内容
+ */
+function sideRange(
+  base: string[],
+  side: string[],
+  hunks: Hunk[],
+  start: number,
+  end: number
+): string[] {
+  if (hunks.length === 0) {
+    return base.slice(start, end);
+  }
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  return side.slice(
+    first.sideStart - (first.baseStart - start),
+    last.sideEnd + (end - last.baseEnd)
+  );
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * 没有基准版本时无法判断哪一方做了修改，本地和云端的每处差异都作为冲突
+ */
+function twoWayConflicts(localLines: string[], remoteLines: string[]): ThreeWayMergeResult {
+  const chunks: MergeChunk[] = [];
+  let conflictCount = 0;
+  let cursor = 0;
+
+  for (const hunk of diffLines(localLines, remoteLines)) {
+    if (hunk.baseStart > cursor) {
+      chunks.push({ type: "stable", lines: localLines.slice(cursor, hunk.baseStart) });
+    }
+    chunks.push({
+      type: "conflict",
+      id: conflictCount++,
+      base: [],
+      local: localLines.slice(hunk.baseStart, hunk.baseEnd),
+      remote: remoteLines.slice(hunk.sideStart, hunk.sideEnd),
+    });
+    cursor = hunk.baseEnd;
+  }
+  if (cursor < localLines.length) {
+    chunks.push({ type: "stable", lines: localLines.slice(cursor) });
+  }
+
+  return { chunks, conflictCount, autoMergedCount: 0 };
+}
+
+/**
+ * 三方合并
+ * @param base 共同基准版本；为 null 时（找不到共同版本）双方的所有差异都视为冲突
+ * @param local 本地内容
+ * @param remote 云端内容
+ */
+export function threeWayMerge(
+  base: string | null,
+  local: string,
+  remote: string
+): ThreeWayMergeResult {
+  const localLines = local.split("\n");
+  const remoteLines = remote.split("\n");
+
+  if (base === null) {
+    return twoWayConflicts(localLines, remoteLines);
+  }
+  const baseLines = base.split("\n");
+
+  const localHunks = diffLines(baseLines, localLines).map((hunk) => ({ ...hunk, side: "local" as const }));
+  const remoteHunks = diffLines(baseLines, remoteLines).map((hunk) => ({ ...hunk, side: "remote" as const }));
+  const allHunks = [...localHunks, ...remoteHunks].sort(
+    (a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd
+  );
+
+  const chunks: MergeChunk[] = [];
+  let conflictCount = 0;
+  let autoMergedCount = 0;
+  let cursor = 0;
+
+  const pushStable = (lines: string[], autoMerged = false) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === "stable" && !last.autoMerged && !autoMerged) {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: "stable", lines, autoMerged: autoMerged || undefined });
+    }
+  };
+
+  let index = 0;
+  while (index < allHunks.length) {
+    // 相互重叠或相邻的修改合并为一个区域
+    const regionStart = allHunks[index].baseStart;
+    let regionEnd = allHunks[index].baseEnd;
+    const regionLocal: Hunk[] = [];
+    const regionRemote: Hunk[] = [];
+    while (index < allHunks.length && allHunks[index].baseStart <= regionEnd) {
+      const hunk = allHunks[index];
+      (hunk.side === "local" ? regionLocal : regionRemote).push(hunk);
+      regionEnd = Math.max(regionEnd, hunk.baseEnd);
+      index++;
+    }
+
+    pushStable(baseLines.slice(cursor, regionStart));
+    cursor = regionEnd;
+
+    const localText = sideRange(baseLines, localLines, regionLocal, regionStart, regionEnd);
+    const remoteText = sideRange(baseLines, remoteLines, regionRemote, regionStart, regionEnd);
+
+    if (regionRemote.length === 0) {
+      pushStable(localText, true);
+      autoMergedCount++;
+    } else if (regionLocal.length === 0) {
+      pushStable(remoteText, true);
+      autoMergedCount++;
+    } else if (sameLines(localText, remoteText)) {
+      // 双方做了相同的修改
+      pushStable(localText, true);
+      autoMergedCount++;
+    } else {
+      chunks.push({
+        type: "conflict",
+        id: conflictCount++,
+        base: baseLines.slice(regionStart, regionEnd),
+        local: localText,
+        remote: remoteText,
+      });
+    }
+  }
+  pushStable(baseLines.slice(cursor));
+
+  return { chunks, conflictCount, autoMergedCount };
+}
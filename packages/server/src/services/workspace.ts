@@ -0,0 +1,192 @@
+/**
+ * 工作区访问控制
+ * 每个管理员对应一个工作区用户，文章和文件夹归属于各自的用户。
+ * 所有者可以把文件夹共享给其他成员（只读 / 可编辑），共享对子文件夹和其中的文章同样生效。
+ */
+
+import { In } from "typeorm";
+import { AppDataSource } from "../db";
+import { Article } from "../entities/Article";
+import { Folder } from "../entities/Folder";
+import { FolderShare, SharePermission } from "../entities/FolderShare";
+import { AdminUser } from "../entities/AdminUser";
+
+/**
+ * 访问级别：owner 为所有者，edit / read 来自共享
+ */
+export type AccessLevel = "owner" | "edit" | "read";
+
+const ACCESS_RANK: Record<AccessLevel, number> = { read: 1, edit: 2, owner: 3 };
+
+/**
+ * 访问级别是否满足要求
+ */
+export function hasAccess(level: AccessLevel | null, required: AccessLevel): boolean {
+  return !!level && ACCESS_RANK[level] >= ACCESS_RANK[required];
+}
+
+function maxAccess(a: AccessLevel | undefined, b: AccessLevel): AccessLevel {
+  return a && ACCESS_RANK[a] >= ACCESS_RANK[b] ? a : b;
+}
+
+export interface FolderShareInfo {
+  id: number;
+  folderId: number;
+  userId: number;
+  username: string;
+  permission: SharePermission;
+  createdAt: Date;
+}
+
+class WorkspaceService {
+  private get folderRepo() {
+    return AppDataSource.getRepository(Folder);
+  }
+
+  private get shareRepo() {
+    return AppDataSource.getRepository(FolderShare);
+  }
+
+  private get articleRepo() {
+    return AppDataSource.getRepository(Article);
+  }
+
+  /**
+   * 获取用户可以访问的所有文件夹及访问级别
+   */
+  async getFolderAccess(userId: number): Promise<Map<number, AccessLevel>> {
+    const folders = await this.folderRepo.find({ select: ["id", "parentId", "userId"] });
+    const shares = await this.shareRepo.find({ where: { userId } });
+
+    const children = new Map<number, number[]>();
+    for (const folder of folders) {
+      if (folder.parentId) {
+        const list = children.get(folder.parentId) || [];
+        list.push(folder.id);
+        children.set(folder.parentId, list);
+      }
+    }
+
+    const access = new Map<number, AccessLevel>();
+    for (const folder of folders) {
+      if (folder.userId === userId) {
+        access.set(folder.id, "owner");
+      }
+    }
+
+    // 共享权限向下传递到所有子文件夹
+    for (const share of shares) {
+      const level: AccessLevel = share.permission === SharePermission.EDIT ? "edit" : "read";
+      const stack = [share.folderId];
+      while (stack.length > 0) {
+        const folderId = stack.pop()!;
+        access.set(folderId, maxAccess(access.get(folderId), level));
+        stack.push(...(children.get(folderId) || []));
+      }
+    }
+
+    return access;
+  }
+
+  /**
+   * 获取用户对文件夹的访问级别，无权访问时返回 null
+   */
+  async getFolderAccessLevel(userId: number, folderId: number): Promise<AccessLevel | null> {
+    return (await this.getFolderAccess(userId)).get(folderId) ?? null;
+  }
+
+  /**
+   * 获取用户对文章的访问级别
+   * 文章作者和文章所在文件夹的所有者都是所有者，其他成员通过文件夹共享获得权限；
+   * 指定的审核人至少可以查看
+   */
+  async getArticleAccessLevel(
+    userId: number,
+    article: Pick<Article, "userId" | "folderId"> & Partial<Pick<Article, "reviewerUserId">>,
+    folderAccess?: Map<number, AccessLevel>
+  ): Promise<AccessLevel | null> {
+    if (article.userId === userId) {
+      return "owner";
+    }
+    const access = article.folderId
+      ? (folderAccess ?? (await this.getFolderAccess(userId))).get(article.folderId) ?? null
+      : null;
+    if (!access && article.reviewerUserId === userId) {
+      return "read";
+    }
+    return access;
+  }
+
+  /**
+   * 获取用户可以访问的文件夹 ID（自己的和共享给自己的）
+   */
+  async getAccessibleFolderIds(userId: number): Promise<number[]> {
+    return [...(await this.getFolderAccess(userId)).keys()];
+  }
+
+  /**
+   * 获取用户可以访问的文章 ID：自己的文章，或位于可访问文件夹中的文章
+   * @param required 需要的访问级别，如 edit 时不包含只读共享的文件夹
+   */
+  async findAccessibleArticleIds(userId: number, required: AccessLevel = "read"): Promise<number[]> {
+    const folderIds = [...(await this.getFolderAccess(userId)).entries()]
+      .filter(([, level]) => hasAccess(level, required))
+      .map(([folderId]) => folderId);
+    const articles = await this.articleRepo.find({
+      select: ["id"],
+      where: folderIds.length > 0 ? [{ userId }, { folderId: In(folderIds) }] : { userId },
+    });
+    return articles.map((a) => a.id);
+  }
+
+  /**
+   * 获取文件夹的共享列表
+   */
+  async listShares(folderId: number): Promise<FolderShareInfo[]> {
+    const shares = await this.shareRepo.find({ where: { folderId }, order: { createdAt: "ASC" } });
+    if (shares.length === 0) {
+      return [];
+    }
+    const admins = await AppDataSource.getRepository(AdminUser).find({
+      where: { userId: In(shares.map((s) => s.userId)) },
+    });
+    const usernames = new Map(admins.map((a) => [a.userId!, a.username]));
+    return shares.map((share) => ({
+      id: share.id,
+      folderId: share.folderId,
+      userId: share.userId,
+      username: usernames.get(share.userId) || `用户 ${share.userId}`,
+      permission: share.permission,
+      createdAt: share.createdAt,
+    }));
+  }
+
+  /**
+   * 共享文件夹给其他成员；已共享时更新权限
+   */
+  async shareFolder(folderId: number, userId: number, permission: SharePermission): Promise<FolderShare> {
+    const folder = await this.folderRepo.findOne({ where: { id: folderId } });
+    if (!folder) {
+      throw new Error("文件夹不存在");
+    }
+    if (folder.userId === userId) {
+      throw new Error("不能共享给文件夹所有者");
+    }
+
+    const existing = await this.shareRepo.findOne({ where: { folderId, userId } });
+    if (existing) {
+      existing.permission = permission;
+      return this.shareRepo.save(existing);
+    }
+    return this.shareRepo.save(this.shareRepo.create({ folderId, userId, permission }));
+  }
+
+  /**
+   * 取消共享
+   */
+  async unshareFolder(folderId: number, userId: number): Promise<void> {
+    await this.shareRepo.delete({ folderId, userId });
+  }
+}
+
+export const workspaceService = new WorkspaceService();
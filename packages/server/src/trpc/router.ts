@@ -10,15 +10,23 @@ import { articleRouter } from "./routers/article.router";
 import { syncRouter } from "./routers/sync.router";
 import { folderRouter } from "./routers/folder.router";
 import { articleExtRouter } from "./routers/articleExt.router";
+import { reviewRouter } from "./routers/review.router";
+import { commentRouter } from "./routers/comment.router";
 import { scheduleRouter } from "./routers/schedule.router";
+import { campaignRouter } from "./routers/campaign.router";
 import { emailConfigRouter } from "./routers/emailConfig.router";
 import { juejinRouter } from "./routers/juejin.router";
 import { csdnRouter } from "./routers/csdn.router";
+import { publisherRouter } from "./routers/publisher.router";
 import { aiConfigRouter } from "./routers/aiConfig.router";
 import { aiChatRouter } from "./routers/aiChat.router";
+import { mcpRouter } from "./routers/mcp.router";
+import { aiUsageRouter } from "./routers/aiUsage.router";
+import { promptLibraryRouter } from "./routers/promptLibrary.router";
 import { dataTransferRouter } from "./routers/dataTransfer.router";
 import { copilotAuthRouter } from "./routers/copilotAuth.router";
 import { claudeCodeAuthRouter } from "./routers/claudeCodeAuth.router";
+import { auditRouter } from "./routers/audit.router";
 
 // 组合所有路由
 export const appRouter = t.router({
@@ -54,9 +62,18 @@ export const appRouter = t.router({
   // 扩展文章相关接口
   articleExt: articleExtRouter,
 
+  // 编辑审核相关
+  review: reviewRouter,
+
+  // 文章评论相关
+  comment: commentRouter,
+
   // 定时任务相关
   schedule: scheduleRouter,
 
+  // 多平台发布活动相关
+  campaign: campaignRouter,
+
   // 邮件配置相关
   emailConfig: emailConfigRouter,
 
@@ -66,17 +83,32 @@ export const appRouter = t.router({
   // CSDN 相关
   csdn: csdnRouter,
 
+  // 发布平台注册表（统一访问各平台）
+  publisher: publisherRouter,
+
   // AI 配置相关
   aiConfig: aiConfigRouter,
 
   // AI 聊天相关
   aiChat: aiChatRouter,
 
+  // MCP 服务（AI 外部工具）
+  mcp: mcpRouter,
+
+  // AI 用量、费用与预算
+  aiUsage: aiUsageRouter,
+
+  // 提示词库（快捷指令与自定义系统提示词）
+  promptLibrary: promptLibraryRouter,
+
   // 数据导入导出
   dataTransfer: dataTransferRouter,
 
   copilotAuth: copilotAuthRouter,
   claudeCodeAuth: claudeCodeAuthRouter,
+
+  // 操作记录
+  audit: auditRouter,
 });
 
 export type AppRouter = typeof appRouter;
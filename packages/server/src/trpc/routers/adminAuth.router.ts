@@ -7,6 +7,7 @@ import {
   destroySession,
   changePassword,
 } from "../../services/adminAuth";
+import { getRolePermissions } from "../../services/permissions";
 
 // 管理员认证相关路由
 export const adminAuthRouter = t.router({
@@ -26,7 +27,7 @@ export const adminAuthRouter = t.router({
           message: "用户名或密码错误",
         });
       }
-      return result;
+      return { ...result, permissions: getRolePermissions(result.admin.role) };
     }),
 
   // 验证当前 session
@@ -38,7 +39,10 @@ export const adminAuthRouter = t.router({
     if (!session) {
       return { valid: false, admin: null };
     }
-    return { valid: true, admin: session };
+    return {
+      valid: true,
+      admin: { ...session, permissions: getRolePermissions(session.role) },
+    };
   }),
 
   // 登出
@@ -8,6 +8,7 @@ import {
   deleteAdmin,
 } from "../../services/adminAuth";
 import { AdminRole } from "../../entities/AdminUser";
+import { getPermissionMatrix } from "../../services/permissions";
 
 // 管理员管理路由（仅超级管理员）
 export const adminUserRouter = t.router({
@@ -16,6 +17,11 @@ export const adminUserRouter = t.router({
     return getAllAdmins();
   }),
 
+  // 角色权限矩阵
+  roles: superAdminProcedure.query(() => {
+    return getPermissionMatrix();
+  }),
+
   // 创建管理员
   create: superAdminProcedure
     .input(
@@ -1,8 +1,9 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { t, protectedProcedure } from "../shared";
+import { t, protectedProcedure, requireArticleAccess } from "../shared";
 import { AppDataSource } from "../../db";
 import { AIChatSession, AIChatMessage, ToolCallRecord } from "../../entities/AIChat";
+import { aiChatCompactionService, CompactionError } from "../../services/aiChatCompaction";
 
 // AI 聊天相关路由
 export const aiChatRouter = t.router({
@@ -16,11 +17,15 @@ export const aiChatRouter = t.router({
         providerId: z.number().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      // 会话的文章用于统计 AI 用量，只能关联有权访问的文章
+      if (input.articleId) {
+        await requireArticleAccess(ctx, input.articleId);
+      }
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       
       const session = sessionRepo.create({
-        userId: 1,
+        userId: ctx.admin.userId,
         articleId: input.articleId,
         title: input.title || "新对话",
         modelId: input.modelId,
@@ -40,10 +45,10 @@ export const aiChatRouter = t.router({
         pageSize: z.number().default(20),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       
-      const where: { userId: number; articleId?: number } = { userId: 1 };
+      const where: { userId: number; articleId?: number } = { userId: ctx.admin.userId };
       if (input.articleId) {
         where.articleId = input.articleId;
       }
@@ -67,10 +72,10 @@ export const aiChatRouter = t.router({
   // 获取单个会话
   getSession: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       const session = await sessionRepo.findOne({
-        where: { id: input.id, userId: 1 },
+        where: { id: input.id, userId: ctx.admin.userId },
       });
       
       if (!session) {
@@ -93,13 +98,13 @@ export const aiChatRouter = t.router({
         providerId: z.number().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       const { id, ...updateData } = input;
       
-      await sessionRepo.update({ id, userId: 1 }, updateData);
+      await sessionRepo.update({ id, userId: ctx.admin.userId }, updateData);
       
-      const session = await sessionRepo.findOne({ where: { id, userId: 1 } });
+      const session = await sessionRepo.findOne({ where: { id, userId: ctx.admin.userId } });
       if (!session) {
         throw new TRPCError({
           code: "NOT_FOUND",
@@ -113,14 +118,22 @@ export const aiChatRouter = t.router({
   // 删除会话
   deleteSession: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       const messageRepo = AppDataSource.getRepository(AIChatMessage);
+
+      const session = await sessionRepo.findOne({ where: { id: input.id, userId: ctx.admin.userId } });
+      if (!session) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "会话不存在",
+        });
+      }
       
       // 先删除会话下的所有消息
       await messageRepo.delete({ sessionId: input.id });
       // 再删除会话
-      await sessionRepo.delete({ id: input.id, userId: 1 });
+      await sessionRepo.delete({ id: input.id, userId: ctx.admin.userId });
       
       return { success: true };
     }),
@@ -134,13 +147,13 @@ export const aiChatRouter = t.router({
         pageSize: z.number().default(50),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const messageRepo = AppDataSource.getRepository(AIChatMessage);
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       
       // 验证会话归属
       const session = await sessionRepo.findOne({
-        where: { id: input.sessionId, userId: 1 },
+        where: { id: input.sessionId, userId: ctx.admin.userId },
       });
       
       if (!session) {
@@ -197,13 +210,13 @@ export const aiChatRouter = t.router({
         duration: z.number().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const messageRepo = AppDataSource.getRepository(AIChatMessage);
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       
       // 验证会话归属
       const session = await sessionRepo.findOne({
-        where: { id: input.sessionId, userId: 1 },
+        where: { id: input.sessionId, userId: ctx.admin.userId },
       });
       
       if (!session) {
@@ -283,13 +296,13 @@ export const aiChatRouter = t.router({
   // 清空会话消息
   clearMessages: protectedProcedure
     .input(z.object({ sessionId: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const messageRepo = AppDataSource.getRepository(AIChatMessage);
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       
       // 验证会话归属
       const session = await sessionRepo.findOne({
-        where: { id: input.sessionId, userId: 1 },
+        where: { id: input.sessionId, userId: ctx.admin.userId },
       });
       
       if (!session) {
@@ -309,6 +322,36 @@ export const aiChatRouter = t.router({
       return { success: true };
     }),
 
+  // 压缩会话上下文：把较早的消息总结为摘要
+  compactSession: protectedProcedure
+    .input(
+      z.object({
+        sessionId: z.number(),
+        providerId: z.number(),
+        modelId: z.string(),
+        mode: z.enum(["turn", "step"]).default("turn"),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await aiChatCompactionService.compactSession(
+          ctx.admin.userId,
+          input.sessionId,
+          input.providerId,
+          input.modelId,
+          input.mode
+        );
+      } catch (error) {
+        if (error instanceof CompactionError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? `压缩上下文失败: ${error.message}` : "压缩上下文失败",
+        });
+      }
+    }),
+
   // 获取或创建文章关联的默认会话
   // 注意：每个文章只有一个会话，与选择的模型无关
   getOrCreateArticleSession: protectedProcedure
@@ -317,19 +360,20 @@ export const aiChatRouter = t.router({
         articleId: z.number(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.articleId);
       const sessionRepo = AppDataSource.getRepository(AIChatSession);
       
       // 查找文章关联的会话（每个文章只有一个会话）
       let session = await sessionRepo.findOne({
-        where: { articleId: input.articleId, userId: 1 },
+        where: { articleId: input.articleId, userId: ctx.admin.userId },
         order: { updatedAt: "DESC" },
       });
       
       if (!session) {
         // 创建新会话
         session = sessionRepo.create({
-          userId: 1,
+          userId: ctx.admin.userId,
           articleId: input.articleId,
           title: "文章助手",
         });
@@ -27,13 +27,20 @@ const parametersSchema = z.object({
   presencePenalty: z.number().min(-2).max(2).optional(),
 });
 
+// 模型价格 schema（每百万 tokens）
+const pricingSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cachedInput: z.number().min(0).optional(),
+});
+
 // AI 配置相关路由
 export const aiConfigRouter = t.router({
   // 获取所有 AI 供应商
-  listProviders: protectedProcedure.query(async () => {
+  listProviders: protectedProcedure.query(async ({ ctx }) => {
     const providerRepo = AppDataSource.getRepository(AIProvider);
     const providers = await providerRepo.find({
-      where: { userId: 1 },
+      where: { userId: ctx.admin.userId },
       order: { order: "ASC", createdAt: "ASC" },
     });
     // 隐藏 API Key，只返回是否已设置
@@ -54,19 +61,19 @@ export const aiConfigRouter = t.router({
         sdkType: z.enum(["openai", "openai-compatible", "github-copilot"]).default("openai-compatible"),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const providerRepo = AppDataSource.getRepository(AIProvider);
 
       // 获取最大排序值
       const maxOrderResult = await providerRepo
         .createQueryBuilder("provider")
         .select("MAX(provider.order)", "maxOrder")
-        .where("provider.userId = :userId", { userId: 1 })
+        .where("provider.userId = :userId", { userId: ctx.admin.userId })
         .getRawOne();
 
       const provider = providerRepo.create({
         ...input,
-        userId: 1,
+        userId: ctx.admin.userId,
         order: (maxOrderResult?.maxOrder ?? -1) + 1,
       });
 
@@ -91,7 +98,7 @@ export const aiConfigRouter = t.router({
         sdkType: z.enum(["openai", "openai-compatible", "github-copilot"]).optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const providerRepo = AppDataSource.getRepository(AIProvider);
       const { id, ...updateData } = input;
 
@@ -100,9 +107,9 @@ export const aiConfigRouter = t.router({
         delete updateData.apiKey;
       }
 
-      await providerRepo.update({ id, userId: 1 }, updateData);
+      await providerRepo.update({ id, userId: ctx.admin.userId }, updateData);
 
-      const provider = await providerRepo.findOne({ where: { id, userId: 1 } });
+      const provider = await providerRepo.findOne({ where: { id, userId: ctx.admin.userId } });
       if (!provider) {
         throw new TRPCError({
           code: "NOT_FOUND",
@@ -120,14 +127,14 @@ export const aiConfigRouter = t.router({
   // 删除 AI 供应商
   deleteProvider: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const providerRepo = AppDataSource.getRepository(AIProvider);
       const modelRepo = AppDataSource.getRepository(AIModel);
 
       // 先删除关联的模型
-      await modelRepo.delete({ providerId: input.id, userId: 1 });
+      await modelRepo.delete({ providerId: input.id, userId: ctx.admin.userId });
       // 再删除供应商
-      await providerRepo.delete({ id: input.id, userId: 1 });
+      await providerRepo.delete({ id: input.id, userId: ctx.admin.userId });
 
       return { success: true };
     }),
@@ -135,9 +142,9 @@ export const aiConfigRouter = t.router({
   // 获取供应商下的所有模型
   listModels: protectedProcedure
     .input(z.object({ providerId: z.number().optional() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const modelRepo = AppDataSource.getRepository(AIModel);
-      const where: { userId: number; providerId?: number } = { userId: 1 };
+      const where: { userId: number; providerId?: number } = { userId: ctx.admin.userId };
       if (input.providerId) {
         where.providerId = input.providerId;
       }
@@ -159,9 +166,10 @@ export const aiConfigRouter = t.router({
         parameters: parametersSchema.optional(),
         capabilities: capabilitiesSchema.optional(),
         aiLoopConfig: aiLoopConfigSchema.optional(),
+        pricing: pricingSchema.nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const modelRepo = AppDataSource.getRepository(AIModel);
 
       // 获取最大排序值
@@ -169,7 +177,7 @@ export const aiConfigRouter = t.router({
         .createQueryBuilder("model")
         .select("MAX(model.order)", "maxOrder")
         .where("model.userId = :userId AND model.providerId = :providerId", {
-          userId: 1,
+          userId: ctx.admin.userId,
           providerId: input.providerId,
         })
         .getRawOne();
@@ -177,14 +185,14 @@ export const aiConfigRouter = t.router({
       // 如果设为默认，需要取消其他模型的默认状态
       if (input.isDefault) {
         await modelRepo.update(
-          { userId: 1 },
+          { userId: ctx.admin.userId },
           { isDefault: false }
         );
       }
 
       const model = modelRepo.create({
         ...input,
-        userId: 1,
+        userId: ctx.admin.userId,
         order: (maxOrderResult?.maxOrder ?? -1) + 1,
         capabilities: input.capabilities || defaultCapabilities,
         aiLoopConfig: input.aiLoopConfig || defaultAILoopConfig,
@@ -207,23 +215,24 @@ export const aiConfigRouter = t.router({
         parameters: parametersSchema.optional(),
         capabilities: capabilitiesSchema.optional(),
         aiLoopConfig: aiLoopConfigSchema.optional(),
+        pricing: pricingSchema.nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const modelRepo = AppDataSource.getRepository(AIModel);
       const { id, ...updateData } = input;
 
       // 如果设为默认，需要取消其他模型的默认状态
       if (updateData.isDefault) {
         await modelRepo.update(
-          { userId: 1 },
+          { userId: ctx.admin.userId },
           { isDefault: false }
         );
       }
 
-      await modelRepo.update({ id, userId: 1 }, updateData);
+      await modelRepo.update({ id, userId: ctx.admin.userId }, updateData);
 
-      const model = await modelRepo.findOne({ where: { id, userId: 1 } });
+      const model = await modelRepo.findOne({ where: { id, userId: ctx.admin.userId } });
       if (!model) {
         throw new TRPCError({
           code: "NOT_FOUND",
@@ -237,19 +246,19 @@ export const aiConfigRouter = t.router({
   // 删除模型
   deleteModel: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const modelRepo = AppDataSource.getRepository(AIModel);
-      await modelRepo.delete({ id: input.id, userId: 1 });
+      await modelRepo.delete({ id: input.id, userId: ctx.admin.userId });
       return { success: true };
     }),
 
   // 获取默认模型
-  getDefaultModel: protectedProcedure.query(async () => {
+  getDefaultModel: protectedProcedure.query(async ({ ctx }) => {
     const modelRepo = AppDataSource.getRepository(AIModel);
     const providerRepo = AppDataSource.getRepository(AIProvider);
 
     const model = await modelRepo.findOne({
-      where: { userId: 1, isDefault: true, enabled: true },
+      where: { userId: ctx.admin.userId, isDefault: true, enabled: true },
     });
 
     if (!model) {
@@ -257,7 +266,7 @@ export const aiConfigRouter = t.router({
     }
 
     const provider = await providerRepo.findOne({
-      where: { id: model.providerId, userId: 1, enabled: true },
+      where: { id: model.providerId, userId: ctx.admin.userId, enabled: true },
     });
 
     if (!provider) {
@@ -284,10 +293,10 @@ export const aiConfigRouter = t.router({
         message: z.string().min(1, "请输入测试消息"),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const providerRepo = AppDataSource.getRepository(AIProvider);
       const provider = await providerRepo.findOne({
-        where: { id: input.providerId, userId: 1 },
+        where: { id: input.providerId, userId: ctx.admin.userId },
       });
 
       if (!provider) {
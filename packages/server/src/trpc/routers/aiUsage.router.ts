@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { t, protectedProcedure, superAdminProcedure } from "../shared";
+import { AdminRole } from "../../entities/AdminUser";
+import { getWorkspaceMembers } from "../../services/adminAuth";
+import { aiUsageService } from "../../services/aiUsage";
+
+const limitSchema = z.number().min(0).nullable();
+
+// AI 用量与预算路由
+export const aiUsageRouter = t.router({
+  // 用量报表，scope 为 all 时统计所有用户（仅超级管理员）
+  report: protectedProcedure
+    .input(
+      z.object({
+        from: z.string().datetime(),
+        to: z.string().datetime(),
+        groupBy: z.enum(["day", "model", "provider", "article", "user"]),
+        scope: z.enum(["self", "all"]).default("self"),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.scope === "all" && ctx.admin.role !== AdminRole.SUPER_ADMIN) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "需要超级管理员权限" });
+      }
+      return aiUsageService.getReport({
+        userId: input.scope === "all" ? undefined : ctx.admin.userId,
+        from: new Date(input.from),
+        to: new Date(input.to),
+        groupBy: input.groupBy,
+      });
+    }),
+
+  // 当前用户的预算状态
+  budgetStatus: protectedProcedure.query(async ({ ctx }) => {
+    return aiUsageService.getBudgetStatus(ctx.admin.userId);
+  }),
+
+  // 所有成员的预算与本期费用
+  listBudgets: superAdminProcedure.query(async () => {
+    const members = await getWorkspaceMembers();
+    return Promise.all(
+      members.map(async (member) => ({
+        ...member,
+        status: await aiUsageService.getBudgetStatus(member.userId),
+      }))
+    );
+  }),
+
+  // 设置成员预算，两项限额都为空表示不限制
+  setBudget: superAdminProcedure
+    .input(
+      z.object({
+        userId: z.number(),
+        dailyLimit: limitSchema,
+        monthlyLimit: limitSchema,
+        action: z.enum(["warn", "block"]),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { userId, ...data } = input;
+      await aiUsageService.setBudget(userId, data);
+      return aiUsageService.getBudgetStatus(userId);
+    }),
+});
@@ -1,9 +1,19 @@
 import { z } from "zod";
-import { t, protectedProcedure } from "../shared";
+import { In } from "typeorm";
+import { t, protectedProcedure, writeProcedure, requireArticleAccess } from "../shared";
 import { AppDataSource } from "../../db";
 import { Article, ArticleStatus } from "../../entities/Article";
 import { cleanupUnusedImages, deleteAllArticleImages } from "../../services/imageCleanup";
 import { syncConflictDetector } from "../../services/syncConflictDetector";
+import { articlePublicationService } from "../../services/articlePublication";
+import { articleSearchService } from "../../services/articleSearch";
+import { workspaceService } from "../../services/workspace";
+import { auditLogService } from "../../services/auditLog";
+import { articleReviewService } from "../../services/articleReview";
+import { articleCommentService } from "../../services/articleComments";
+
+// 同一成员连续编辑同一篇文章时，该时间内只记录一次
+const EDIT_AUDIT_MERGE_MS = 10 * 60 * 1000;
 
 // 文章相关路由
 export const articleRouter = t.router({
@@ -16,20 +26,31 @@ export const articleRouter = t.router({
         pageSize: z.number().default(10),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
       const { status, page, pageSize } = input;
+      const userId = ctx.admin.userId;
 
-      const where = status ? { status } : {};
+      // 自己的文章和共享文件夹中的文章
+      const folderIds = await workspaceService.getAccessibleFolderIds(userId);
+      const scopes = folderIds.length > 0 ? [{ userId }, { folderId: In(folderIds) }] : [{ userId }];
       const [articles, total] = await articleRepo.findAndCount({
-        where,
+        where: scopes.map((scope) => (status ? { ...scope, status } : scope)),
         order: { createdAt: "DESC" },
         skip: (page - 1) * pageSize,
         take: pageSize,
       });
 
+      // 附加各平台发布记录
+      const publications = await articlePublicationService.listByArticles(
+        articles.map((a) => a.id)
+      );
+
       return {
-        articles,
+        articles: articles.map((article) => ({
+          ...article,
+          publications: publications.get(article.id) || [],
+        })),
         total,
         page,
         pageSize,
@@ -37,20 +58,48 @@ export const articleRouter = t.router({
       };
     }),
 
+  // 全文搜索：标题和正文，支持短语查询和筛选，返回带高亮的摘要
+  search: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().min(1).max(200),
+        folderId: z.number().optional(),
+        tag: z.string().optional(),
+        status: z.nativeEnum(ArticleStatus).optional(),
+        platform: z.string().optional(),
+        limit: z.number().min(1).max(50).default(20),
+        offset: z.number().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return articleSearchService.search({
+        ...input,
+        userId: ctx.admin.userId,
+      });
+    }),
+
   // 获取单篇文章（完整数据，包含 content）
   get: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
-      return articleRepo.findOne({ where: { id: input.id } });
+      const article = await articleRepo.findOne({ where: { id: input.id } });
+      const access = article
+        ? await workspaceService.getArticleAccessLevel(ctx.admin.userId, article)
+        : null;
+      if (!article || !access) {
+        return null;
+      }
+      const publications = await articlePublicationService.listByArticle(article.id);
+      return { ...article, publications, access };
     }),
 
   // 获取文章元数据（不含 content，用于快速加载）
   getMeta: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
-      return articleRepo.findOne({
+      const article = await articleRepo.findOne({
         where: { id: input.id },
         select: [
           "id",
@@ -62,44 +111,30 @@ export const articleRouter = t.router({
           "order",
           "scheduledAt",
           "publishedAt",
-          "tencentDraftId",
-          "tencentArticleId",
-          "tencentArticleUrl",
-          "tencentTagIds",
-          "sourceType",
-          "lastSyncedAt",
           "errorMessage",
           "userId",
+          "reviewStatus",
+          "reviewerUserId",
           "createdAt",
           "updatedAt",
-          // 掘金相关字段
-          "juejinDraftId",
-          "juejinArticleId",
-          "juejinArticleUrl",
-          "juejinCategoryId",
-          "juejinTagIds",
-          "juejinTagNames",
-          "juejinBriefContent",
-          "juejinIsOriginal",
-          "juejinStatus",
-          "juejinLastSyncedAt",
-          // CSDN 相关字段
-          "csdnArticleId",
-          "csdnArticleUrl",
-          "csdnTags",
-          "csdnDescription",
-          "csdnType",
-          "csdnReadType",
-          "csdnStatus",
-          "csdnLastSyncedAt",
         ],
       });
+      const access = article
+        ? await workspaceService.getArticleAccessLevel(ctx.admin.userId, article)
+        : null;
+      if (!article || !access) {
+        return null;
+      }
+      // 各平台发布记录（包含平台配置）
+      const publications = await articlePublicationService.listByArticle(article.id);
+      // access 为当前用户的访问级别，只读时编辑器不保存修改
+      return { ...article, publications, access };
     }),
 
   // 获取文章内容（只返回 content，用于延迟加载）
   getContent: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
       const article = await articleRepo.findOne({
         where: { id: input.id },
@@ -109,7 +144,7 @@ export const articleRouter = t.router({
     }),
 
   // 创建文章
-  create: protectedProcedure
+  create: writeProcedure
     .input(
       z.object({
         title: z.string().min(1),
@@ -125,7 +160,7 @@ export const articleRouter = t.router({
         lastModifiedBy: z.string().nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
 
       const article = new Article();
@@ -133,15 +168,13 @@ export const articleRouter = t.router({
       article.content = input.content;
       article.summary = input.summary ?? undefined;
       article.tags = input.tags ?? undefined;
-      article.tencentTagIds = input.tencentTagIds ?? [];
-      article.sourceType = input.sourceType ?? 1;
       article.status = input.scheduledAt
         ? ArticleStatus.SCHEDULED
         : ArticleStatus.DRAFT;
       article.scheduledAt = input.scheduledAt
         ? new Date(input.scheduledAt)
         : undefined;
-      article.userId = 1; // 简化处理
+      article.userId = ctx.admin.userId;
       
       // 同步相关字段
       if (input.clientId) article.clientId = input.clientId;
@@ -152,11 +185,20 @@ export const articleRouter = t.router({
       article.serverUpdatedAt = new Date();
 
       await articleRepo.save(article);
+
+      if (input.tencentTagIds?.length || (input.sourceType && input.sourceType !== 1)) {
+        await articlePublicationService.updateConfig(article.id, "tencent", {
+          tagIds: input.tencentTagIds ?? [],
+          sourceType: input.sourceType ?? 1,
+        });
+      }
+
+      await auditLogService.recordArticle(ctx.admin, "article.create", article);
       return article;
     }),
 
   // 更新文章
-  update: protectedProcedure
+  update: writeProcedure
     .input(
       z.object({
         id: z.number(),
@@ -171,9 +213,10 @@ export const articleRouter = t.router({
         localVersion: z.number().nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
       const { id, title, content, summary, tags, scheduledAt, clientId, contentHash, lastModifiedBy, localVersion } = input;
+      const { article: existing } = await requireArticleAccess(ctx, id, "edit");
 
       const updateData: Partial<Article> = {};
       if (title !== null && title !== undefined) updateData.title = title;
@@ -193,7 +236,21 @@ export const articleRouter = t.router({
       updateData.serverUpdatedAt = new Date();
       updateData.syncStatus = "synced";
 
+      if (updateData.content !== undefined) {
+        await syncConflictDetector.snapshotBeforeOverwrite(existing, updateData.content, updateData.lastModifiedBy);
+      }
+
       await articleRepo.update(id, updateData);
+      await auditLogService.recordArticle(
+        ctx.admin,
+        "article.update",
+        { ...existing, title: updateData.title ?? existing.title },
+        { mergeWithinMs: EDIT_AUDIT_MERGE_MS }
+      );
+      await articleReviewService.handleContentChange(ctx.admin, id);
+      if (updateData.content !== undefined) {
+        await articleCommentService.remapAnchors(id, existing.content);
+      }
 
       if (content !== null && content !== undefined) {
         setImmediate(() => {
@@ -207,7 +264,7 @@ export const articleRouter = t.router({
     }),
   
   // 同步更新（带冲突检测）
-  syncUpdate: protectedProcedure
+  syncUpdate: writeProcedure
     .input(
       z.object({
         id: z.number(),
@@ -221,18 +278,21 @@ export const articleRouter = t.router({
         baseVersion: z.number().nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
       const { id, title, content, summary, clientId, contentHash, lastModifiedBy, localVersion, baseVersion } = input;
 
-      const existing = await articleRepo.findOne({ where: { id } });
-      if (!existing) {
-        throw new Error("文章不存在");
-      }
+      const { article: existing } = await requireArticleAccess(ctx, id, "edit");
 
       if (baseVersion !== null && baseVersion !== undefined && existing.localVersion > baseVersion) {
         if (existing.contentHash && existing.contentHash !== contentHash) {
-          await syncConflictDetector.markConflict(id, existing.content, existing.title, existing.localVersion);
+          await syncConflictDetector.markConflict(
+            id,
+            existing.content,
+            existing.title,
+            existing.localVersion,
+            baseVersion
+          );
           return {
             success: false,
             conflict: true,
@@ -242,6 +302,8 @@ export const articleRouter = t.router({
         }
       }
 
+      await syncConflictDetector.snapshotBeforeOverwrite(existing, content, lastModifiedBy);
+
       const updateData: Partial<Article> = {
         title,
         content,
@@ -255,9 +317,20 @@ export const articleRouter = t.router({
         hasConflict: false,
         conflictRemoteContent: undefined,
         conflictDetectedAt: undefined,
+        conflictBaseVersion: null,
+        conflictBaseVersionId: null,
+        conflictSource: null,
       };
 
       await articleRepo.update(id, updateData);
+      await auditLogService.recordArticle(
+        ctx.admin,
+        "article.update",
+        { ...existing, title },
+        { mergeWithinMs: EDIT_AUDIT_MERGE_MS }
+      );
+      await articleReviewService.handleContentChange(ctx.admin, id);
+      await articleCommentService.remapAnchors(id, existing.content);
 
       setImmediate(() => {
         cleanupUnusedImages(id, content).catch((err) => {
@@ -274,11 +347,13 @@ export const articleRouter = t.router({
     }),
 
   // 删除文章
-  delete: protectedProcedure
+  delete: writeProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.id, "owner");
       const articleRepo = AppDataSource.getRepository(Article);
       await articleRepo.delete(input.id);
+      await auditLogService.recordArticle(ctx.admin, "article.delete", article);
       
       // 异步删除文章的所有上传图片
       setImmediate(() => {
@@ -1,21 +1,29 @@
 import { z } from "zod";
-import { t, protectedProcedure } from "../shared";
+import { TRPCError } from "@trpc/server";
+import { t, writeProcedure, requireArticleAccess, requireFolderAccess } from "../shared";
 import { AppDataSource } from "../../db";
 import { Article, ArticleStatus } from "../../entities/Article";
+import { auditLogService } from "../../services/auditLog";
+import { articleReviewService } from "../../services/articleReview";
 
 // 扩展文章相关接口路由
 export const articleExtRouter = t.router({
   // 在指定文件夹中创建文章
-  createInFolder: protectedProcedure
+  createInFolder: writeProcedure
     .input(
       z.object({
         title: z.string().min(1),
         folderId: z.number().nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
 
+      // 在共享文件夹中创建文章需要编辑权限
+      if (input.folderId) {
+        await requireFolderAccess(ctx, input.folderId, "edit");
+      }
+
       // 获取同级文章的最大排序值
       const maxOrderResult = await articleRepo
         .createQueryBuilder("article")
@@ -23,8 +31,8 @@ export const articleExtRouter = t.router({
         .where(
           input.folderId
             ? "article.folderId = :folderId"
-            : "article.folderId IS NULL",
-          { folderId: input.folderId }
+            : "article.folderId IS NULL AND article.userId = :userId",
+          { folderId: input.folderId, userId: ctx.admin.userId }
         )
         .getRawOne();
 
@@ -32,25 +40,33 @@ export const articleExtRouter = t.router({
         title: input.title,
         content: "",
         status: ArticleStatus.DRAFT,
-        userId: 1,
+        userId: ctx.admin.userId,
         folderId: input.folderId ?? undefined,
         order: (maxOrderResult?.maxOrder ?? -1) + 1,
       });
 
       await articleRepo.save(article);
+      await auditLogService.recordArticle(ctx.admin, "article.create", article);
       return article;
     }),
 
   // 移动文章到指定文件夹
-  moveToFolder: protectedProcedure
+  moveToFolder: writeProcedure
     .input(
       z.object({
         id: z.number(),
         folderId: z.number().nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
+      const { article } = await requireArticleAccess(ctx, input.id, "edit");
+      if (input.folderId) {
+        await requireFolderAccess(ctx, input.folderId, "edit");
+      } else if (article.userId !== ctx.admin.userId) {
+        // 移到根目录后只有作者能看到，协作者不能这样做
+        throw new TRPCError({ code: "FORBIDDEN", message: "只有文章作者可以将文章移到根目录" });
+      }
       
       // 使用 QueryBuilder 来正确处理 NULL 值
       // 当 folderId 为 null/undefined 时，需要将数据库字段设置为 NULL
@@ -60,21 +76,30 @@ export const articleExtRouter = t.router({
         .set({ folderId: input.folderId === null || input.folderId === undefined ? () => "NULL" : input.folderId })
         .where("id = :id", { id: input.id })
         .execute();
-      
+
+      await auditLogService.recordArticle(ctx.admin, "article.move", article, {
+        detail: { from: article.folderId ?? null, to: input.folderId ?? null },
+      });
       return articleRepo.findOne({ where: { id: input.id } });
     }),
 
   // 重命名文章
-  rename: protectedProcedure
+  rename: writeProcedure
     .input(
       z.object({
         id: z.number(),
         title: z.string().min(1),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const articleRepo = AppDataSource.getRepository(Article);
+      const { article } = await requireArticleAccess(ctx, input.id, "edit");
       await articleRepo.update(input.id, { title: input.title });
+      await auditLogService.recordArticle(ctx.admin, "article.rename", { ...article, title: input.title }, {
+        detail: { from: article.title, to: input.title },
+      });
+      // 标题属于审核内容，已通过审核的文章改名后需要重新审核
+      await articleReviewService.handleContentChange(ctx.admin, input.id);
       return articleRepo.findOne({ where: { id: input.id } });
     }),
 });
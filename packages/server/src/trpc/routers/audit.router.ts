@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { t, protectedProcedure, requireArticleAccess, requireFolderAccess } from "../shared";
+import { AdminRole } from "../../entities/AdminUser";
+import { auditLogService } from "../../services/auditLog";
+
+// 操作记录相关路由
+export const auditRouter = t.router({
+  // 查询操作记录
+  // 指定文章或文件夹时返回该对象的全部记录（需要访问权限）；
+  // 否则超级管理员可查看所有记录，其他成员查看自己的操作和发生在自己数据上的操作
+  list: protectedProcedure
+    .input(
+      z.object({
+        entityType: z.enum(["article", "folder", "platform", "workspace"]).optional(),
+        entityId: z.number().optional(),
+        page: z.number().min(1).default(1),
+        pageSize: z.number().min(1).max(100).default(30),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.entityId !== undefined) {
+        if (input.entityType === "article") {
+          await requireArticleAccess(ctx, input.entityId);
+        } else if (input.entityType === "folder") {
+          await requireFolderAccess(ctx, input.entityId);
+        } else {
+          return { items: [], total: 0 };
+        }
+      }
+
+      const { items, total } = await auditLogService.list({
+        ...input,
+        viewerUserId: ctx.admin.role === AdminRole.SUPER_ADMIN ? undefined : ctx.admin.userId,
+      });
+      return { items, total, page: input.page, pageSize: input.pageSize };
+    }),
+});
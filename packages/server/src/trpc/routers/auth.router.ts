@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { t, protectedProcedure } from "../shared";
+import { t, protectedProcedure, platformProcedure } from "../shared";
+import { auditLogService } from "../../services/auditLog";
 import {
   waitForManualLogin,
   autoLogin,
@@ -11,28 +12,34 @@ import {
 // 腾讯云认证相关路由
 export const authRouter = t.router({
   // 获取登录状态
-  status: protectedProcedure.query(async () => {
-    return getLoginStatus();
+  status: protectedProcedure.query(async ({ ctx }) => {
+    return getLoginStatus(ctx.admin.userId);
   }),
 
   // 手动登录（打开浏览器让用户登录）
-  manualLogin: protectedProcedure.mutation(async () => {
+  manualLogin: platformProcedure.mutation(async () => {
     return waitForManualLogin();
   }),
 
   // 自动登录（使用保存的 cookies）
-  autoLogin: protectedProcedure.mutation(async () => {
-    return autoLogin();
+  autoLogin: platformProcedure.mutation(async ({ ctx }) => {
+    return autoLogin(ctx.admin.userId);
   }),
 
   // 登出
-  logout: protectedProcedure.mutation(async () => {
-    await logout();
+  logout: platformProcedure.mutation(async ({ ctx }) => {
+    await logout(ctx.admin.userId);
+    await auditLogService.record(ctx.admin, {
+      action: "platform.logout",
+      entityType: "platform",
+      entityName: "腾讯云",
+      detail: { platform: "tencent" },
+    });
     return { success: true };
   }),
 
   // 从客户端设置 cookies（Electron 客户端调用）
-  setCookies: protectedProcedure
+  setCookies: platformProcedure
     .input(
       z.object({
         cookies: z.string(),
@@ -40,7 +47,21 @@ export const authRouter = t.router({
         avatarUrl: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      return setCookiesFromClient(input.cookies, input.nickname, input.avatarUrl);
+    .mutation(async ({ ctx, input }) => {
+      const result = await setCookiesFromClient(
+        ctx.admin.userId,
+        input.cookies,
+        input.nickname,
+        input.avatarUrl
+      );
+      if (result.success) {
+        await auditLogService.record(ctx.admin, {
+          action: "platform.login",
+          entityType: "platform",
+          entityName: "腾讯云",
+          detail: { platform: "tencent", nickname: result.user?.nickname },
+        });
+      }
+      return result;
     }),
 });
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { t, protectedProcedure, publishProcedure, requireArticleAccess, requireApproved } from "../shared";
+import { schedulerService } from "../../services/scheduler";
+import { publishCampaignService } from "../../services/publishCampaign";
+import { Platform } from "../../entities/ScheduledTask";
+import { CampaignMode } from "../../entities/PublishCampaign";
+import { auditLogService } from "../../services/auditLog";
+
+// 多平台发布活动相关路由
+export const campaignRouter = t.router({
+  // 创建发布活动（使用各平台已保存的发布配置）
+  create: publishProcedure
+    .input(
+      z.object({
+        articleId: z.number(),
+        platforms: z.array(z.nativeEnum(Platform)).min(1),
+        mode: z.nativeEnum(CampaignMode).default(CampaignMode.PARALLEL),
+        // 错峰发布时相邻平台的间隔（分钟）
+        staggerMinutes: z.number().int().min(1).max(24 * 60).optional(),
+        // 不传则立即开始发布
+        scheduledAt: z.string().datetime().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId, "edit");
+      requireApproved(article);
+      const campaign = await publishCampaignService.createCampaign({
+        articleId: input.articleId,
+        userId: ctx.admin.userId,
+        platforms: input.platforms,
+        mode: input.mode,
+        staggerMinutes: input.staggerMinutes,
+        scheduledAt: input.scheduledAt ? new Date(input.scheduledAt) : undefined,
+      });
+
+      // 立即发布时不等待下一个检查周期
+      if (!input.scheduledAt) {
+        schedulerService.triggerCheck();
+      }
+
+      await auditLogService.recordArticle(ctx.admin, "article.campaign", article, {
+        detail: { platforms: input.platforms, scheduledAt: input.scheduledAt },
+      });
+      return campaign;
+    }),
+
+  // 获取发布活动详情
+  get: protectedProcedure
+    .input(z.object({ campaignId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      return publishCampaignService.getCampaign(input.campaignId, ctx.admin.userId);
+    }),
+
+  // 获取文章的发布活动列表
+  listByArticle: protectedProcedure
+    .input(
+      z.object({
+        articleId: z.number(),
+        limit: z.number().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return publishCampaignService.listByArticle(input.articleId, ctx.admin.userId, input.limit);
+    }),
+
+  // 重试活动中失败的平台
+  retryTask: publishProcedure
+    .input(z.object({ campaignId: z.number(), taskId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const campaign = await publishCampaignService.retryTask(
+        input.campaignId,
+        input.taskId,
+        ctx.admin.userId
+      );
+      schedulerService.triggerCheck();
+      return campaign;
+    }),
+
+  // 取消活动中尚未执行的任务
+  cancel: publishProcedure
+    .input(z.object({ campaignId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      return publishCampaignService.cancelCampaign(input.campaignId, ctx.admin.userId);
+    }),
+});
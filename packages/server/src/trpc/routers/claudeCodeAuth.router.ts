@@ -23,9 +23,9 @@ const pendingOAuthFlows = new Map<
 >();
 
 export const claudeCodeAuthRouter = t.router({
-  getStatus: protectedProcedure.query(async () => {
+  getStatus: protectedProcedure.query(async ({ ctx }) => {
     const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-    const auth = await repo.findOne({ where: { userId: 1 } });
+    const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
     if (!auth) {
       return { connected: false };
@@ -49,7 +49,7 @@ export const claudeCodeAuthRouter = t.router({
         subscriptionType: z.enum(["max", "pro"]).default("max"),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const pkce = generatePKCE();
         const authorizeUrl = buildAuthorizeUrl(
@@ -58,7 +58,7 @@ export const claudeCodeAuthRouter = t.router({
           input.subscriptionType === "max"
         );
 
-        pendingOAuthFlows.set(1, {
+        pendingOAuthFlows.set(ctx.admin.userId, {
           verifier: pkce.verifier,
           challenge: pkce.challenge,
           subscriptionType: input.subscriptionType,
@@ -66,14 +66,14 @@ export const claudeCodeAuthRouter = t.router({
         });
 
         const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-        let auth = await repo.findOne({ where: { userId: 1 } });
+        let auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
         if (auth) {
           auth.codeVerifier = pkce.verifier;
           auth.subscriptionType = input.subscriptionType;
         } else {
           auth = repo.create({
-            userId: 1,
+            userId: ctx.admin.userId,
             authType: "oauth",
             accessToken: "",
             expiresAt: 0,
@@ -101,10 +101,10 @@ export const claudeCodeAuthRouter = t.router({
         code: z.string().min(1),
       })
     )
-    .mutation(async ({ input }) => {
-      const pendingFlow = pendingOAuthFlows.get(1);
+    .mutation(async ({ ctx, input }) => {
+      const pendingFlow = pendingOAuthFlows.get(ctx.admin.userId);
       const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-      const auth = await repo.findOne({ where: { userId: 1 } });
+      const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
       const verifier = pendingFlow?.verifier || auth?.codeVerifier;
 
@@ -116,7 +116,7 @@ export const claudeCodeAuthRouter = t.router({
       }
 
       if (pendingFlow && Date.now() > pendingFlow.expiresAt) {
-        pendingOAuthFlows.delete(1);
+        pendingOAuthFlows.delete(ctx.admin.userId);
         throw new TRPCError({
           code: "BAD_REQUEST",
           message: "OAuth 流程已过期，请重新开始",
@@ -126,7 +126,7 @@ export const claudeCodeAuthRouter = t.router({
       try {
         const tokens = await exchangeCodeForTokens(input.code, verifier);
 
-        pendingOAuthFlows.delete(1);
+        pendingOAuthFlows.delete(ctx.admin.userId);
 
         if (auth) {
           auth.authType = "oauth";
@@ -143,7 +143,7 @@ export const claudeCodeAuthRouter = t.router({
 
         await repo.save(auth);
 
-        await ensureClaudeCodeProvider();
+        await ensureClaudeCodeProvider(ctx.admin.userId);
 
         return {
           success: true,
@@ -157,10 +157,10 @@ export const claudeCodeAuthRouter = t.router({
       }
     }),
 
-  cancelOAuthFlow: protectedProcedure.mutation(async () => {
-    pendingOAuthFlows.delete(1);
+  cancelOAuthFlow: protectedProcedure.mutation(async ({ ctx }) => {
+    pendingOAuthFlows.delete(ctx.admin.userId);
     const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-    const auth = await repo.findOne({ where: { userId: 1 } });
+    const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
     if (auth && auth.codeVerifier) {
       auth.codeVerifier = undefined;
       await repo.save(auth);
@@ -174,9 +174,9 @@ export const claudeCodeAuthRouter = t.router({
         apiKey: z.string().min(1),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-      let auth = await repo.findOne({ where: { userId: 1 } });
+      let auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
       if (auth) {
         auth.authType = "api_key";
@@ -187,7 +187,7 @@ export const claudeCodeAuthRouter = t.router({
         auth.subscriptionType = undefined;
       } else {
         auth = repo.create({
-          userId: 1,
+          userId: ctx.admin.userId,
           authType: "api_key",
           accessToken: input.apiKey,
           expiresAt: 0,
@@ -196,14 +196,14 @@ export const claudeCodeAuthRouter = t.router({
 
       await repo.save(auth);
 
-      await ensureClaudeCodeProvider();
+      await ensureClaudeCodeProvider(ctx.admin.userId);
 
       return { success: true };
     }),
 
-  refreshToken: protectedProcedure.mutation(async () => {
+  refreshToken: protectedProcedure.mutation(async ({ ctx }) => {
     const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-    const auth = await repo.findOne({ where: { userId: 1 } });
+    const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
     if (!auth) {
       throw new TRPCError({
@@ -246,15 +246,15 @@ export const claudeCodeAuthRouter = t.router({
     }
   }),
 
-  disconnect: protectedProcedure.mutation(async () => {
+  disconnect: protectedProcedure.mutation(async ({ ctx }) => {
     const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-    await repo.delete({ userId: 1 });
+    await repo.delete({ userId: ctx.admin.userId });
 
     const providerRepo = AppDataSource.getRepository(AIProvider);
     const modelRepo = AppDataSource.getRepository(AIModel);
 
     const provider = await providerRepo.findOne({
-      where: { userId: 1, sdkType: "claude-code" },
+      where: { userId: ctx.admin.userId, sdkType: "claude-code" },
     });
 
     if (provider) {
@@ -274,9 +274,9 @@ export const claudeCodeAuthRouter = t.router({
     return { success: true, count: models.length };
   }),
 
-  getAuthInfo: protectedProcedure.query(async () => {
+  getAuthInfo: protectedProcedure.query(async ({ ctx }) => {
     const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-    const auth = await repo.findOne({ where: { userId: 1 } });
+    const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
     if (!auth) {
       return null;
@@ -297,9 +297,9 @@ export const claudeCodeAuthRouter = t.router({
         includeClaudeCodeBeta: z.boolean().default(false),
       }).optional()
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
     const repo = AppDataSource.getRepository(ClaudeCodeAuth);
-    const auth = await repo.findOne({ where: { userId: 1 } });
+    const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
     if (!auth || auth.authType !== "oauth") {
       return { error: "需要 OAuth 认证" };
@@ -356,23 +356,23 @@ export const claudeCodeAuthRouter = t.router({
   }),
 });
 
-async function ensureClaudeCodeProvider() {
+async function ensureClaudeCodeProvider(userId: number) {
   const providerRepo = AppDataSource.getRepository(AIProvider);
   const modelRepo = AppDataSource.getRepository(AIModel);
 
   let provider = await providerRepo.findOne({
-    where: { userId: 1, sdkType: "claude-code" },
+    where: { userId, sdkType: "claude-code" },
   });
 
   if (!provider) {
     const maxOrderResult = await providerRepo
       .createQueryBuilder("provider")
       .select("MAX(provider.order)", "maxOrder")
-      .where("provider.userId = :userId", { userId: 1 })
+      .where("provider.userId = :userId", { userId })
       .getRawOne();
 
     provider = providerRepo.create({
-      userId: 1,
+      userId,
       name: "Claude Code",
       baseUrl: "https://api.anthropic.com",
       apiKey: "",
@@ -388,7 +388,7 @@ async function ensureClaudeCodeProvider() {
       const m = models[i];
       const isDefaultModel = m.id.includes("sonnet-4") || m.id.includes("sonnet-4-");
       const model = modelRepo.create({
-        userId: 1,
+        userId,
         providerId: provider.id,
         modelId: m.id,
         displayName: m.name,
@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { t, protectedProcedure, requireArticleAccess, type AuthedContext } from "../shared";
+import { ArticleComment } from "../../entities/ArticleComment";
+import { articleCommentService } from "../../services/articleComments";
+
+/**
+ * 执行评论操作，将业务错误转换为 BAD_REQUEST
+ */
+async function runComment<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error instanceof Error ? error.message : "评论操作失败",
+    });
+  }
+}
+
+/**
+ * 获取讨论串并校验对所属文章的访问权限
+ */
+async function requireThread(ctx: AuthedContext, threadId: number): Promise<ArticleComment> {
+  const thread = await runComment(() => articleCommentService.getThread(threadId));
+  await requireArticleAccess(ctx, thread.articleId);
+  return thread;
+}
+
+// 文章评论相关路由
+// 能查看文章的成员都可以评论（包括只读共享和审核人）
+export const commentRouter = t.router({
+  // 获取文章的讨论串
+  list: protectedProcedure
+    .input(z.object({ articleId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.articleId);
+      const threads = await articleCommentService.listThreads(input.articleId);
+      const mine = (comment: ArticleComment) => comment.userId === ctx.admin.userId;
+      return threads.map((thread) => ({
+        ...thread,
+        mine: mine(thread),
+        replies: thread.replies.map((reply) => ({ ...reply, mine: mine(reply) })),
+      }));
+    }),
+
+  // 评论选中的正文，新建讨论串
+  create: protectedProcedure
+    .input(
+      z.object({
+        articleId: z.number(),
+        body: z.string().trim().min(1).max(2000),
+        quote: z.string().min(1),
+        // 选中文字在编辑器内容中的起始位置
+        anchorStart: z.number().int().min(0),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId);
+      return runComment(() =>
+        articleCommentService.createThread(ctx.admin, article, {
+          body: input.body,
+          quote: input.quote,
+          anchorStart: input.anchorStart,
+        })
+      );
+    }),
+
+  // 回复讨论串
+  reply: protectedProcedure
+    .input(z.object({ threadId: z.number(), body: z.string().trim().min(1).max(2000) }))
+    .mutation(async ({ ctx, input }) => {
+      const thread = await requireThread(ctx, input.threadId);
+      return articleCommentService.reply(ctx.admin, thread, input.body);
+    }),
+
+  // 解决或重新打开讨论串
+  resolve: protectedProcedure
+    .input(z.object({ threadId: z.number(), resolved: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const thread = await requireThread(ctx, input.threadId);
+      await articleCommentService.setResolved(ctx.admin, thread, input.resolved);
+      return { success: true };
+    }),
+
+  // 删除自己的评论
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await runComment(() => articleCommentService.deleteComment(ctx.admin, input.id));
+      return { success: true };
+    }),
+});
@@ -26,9 +26,9 @@ export const copilotAuthRouter = t.router({
   /**
    * 获取 GitHub Copilot 认证状态
    */
-  getStatus: protectedProcedure.query(async () => {
+  getStatus: protectedProcedure.query(async ({ ctx }) => {
     const repo = AppDataSource.getRepository(CopilotAuth);
-    const auth = await repo.findOne({ where: { userId: 1 } });
+    const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
     if (!auth) {
       return { connected: false };
@@ -55,12 +55,12 @@ export const copilotAuthRouter = t.router({
         enterpriseUrl: z.string().url().optional(),
       }).optional()
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const result = await startDeviceFlowAuth(input?.enterpriseUrl);
 
         // 存储设备授权信息，用于后续轮询
-        pendingDeviceFlows.set(1, {
+        pendingDeviceFlows.set(ctx.admin.userId, {
           deviceCode: result.deviceCode,
           interval: result.interval,
           enterpriseUrl: input?.enterpriseUrl,
@@ -84,8 +84,8 @@ export const copilotAuthRouter = t.router({
   /**
    * 完成设备授权（轮询等待用户授权）
    */
-  completeAuth: protectedProcedure.mutation(async () => {
-    const pendingFlow = pendingDeviceFlows.get(1);
+  completeAuth: protectedProcedure.mutation(async ({ ctx }) => {
+    const pendingFlow = pendingDeviceFlows.get(ctx.admin.userId);
 
     if (!pendingFlow) {
       throw new TRPCError({
@@ -96,7 +96,7 @@ export const copilotAuthRouter = t.router({
 
     // 检查是否过期
     if (Date.now() > pendingFlow.expiresAt) {
-      pendingDeviceFlows.delete(1);
+      pendingDeviceFlows.delete(ctx.admin.userId);
       throw new TRPCError({
         code: "BAD_REQUEST",
         message: "授权流程已过期，请重新开始",
@@ -129,7 +129,7 @@ export const copilotAuthRouter = t.router({
       console.log(`[Copilot Auth] 成功获取 Copilot token`);
 
       // 清理待处理的流程
-      pendingDeviceFlows.delete(1);
+      pendingDeviceFlows.delete(ctx.admin.userId);
 
       // 尝试获取 GitHub 用户名
       let username: string | undefined;
@@ -153,7 +153,7 @@ export const copilotAuthRouter = t.router({
 
       // 保存认证信息到数据库
       const repo = AppDataSource.getRepository(CopilotAuth);
-      let auth = await repo.findOne({ where: { userId: 1 } });
+      let auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
       if (auth) {
         // 更新现有记录
@@ -165,7 +165,7 @@ export const copilotAuthRouter = t.router({
       } else {
         // 创建新记录
         auth = repo.create({
-          userId: 1,
+          userId: ctx.admin.userId,
           refreshToken: oauthToken,
           accessToken: copilotToken.token,
           expiresAt: copilotToken.expiresAt,
@@ -178,7 +178,7 @@ export const copilotAuthRouter = t.router({
       console.log(`[Copilot Auth] 认证信息已保存到数据库`);
 
       // 自动创建 GitHub Copilot Provider（如果不存在）
-      await ensureCopilotProvider(pendingFlow.enterpriseUrl);
+      await ensureCopilotProvider(ctx.admin.userId, pendingFlow.enterpriseUrl);
 
       return {
         success: true,
@@ -201,17 +201,17 @@ export const copilotAuthRouter = t.router({
   /**
    * 取消正在进行的授权流程
    */
-  cancelAuth: protectedProcedure.mutation(async () => {
-    pendingDeviceFlows.delete(1);
+  cancelAuth: protectedProcedure.mutation(async ({ ctx }) => {
+    pendingDeviceFlows.delete(ctx.admin.userId);
     return { success: true };
   }),
 
   /**
    * 刷新 Copilot Token
    */
-  refreshToken: protectedProcedure.mutation(async () => {
+  refreshToken: protectedProcedure.mutation(async ({ ctx }) => {
     const repo = AppDataSource.getRepository(CopilotAuth);
-    const auth = await repo.findOne({ where: { userId: 1 } });
+    const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
     if (!auth) {
       throw new TRPCError({
@@ -245,16 +245,16 @@ export const copilotAuthRouter = t.router({
   /**
    * 断开 GitHub Copilot 连接
    */
-  disconnect: protectedProcedure.mutation(async () => {
+  disconnect: protectedProcedure.mutation(async ({ ctx }) => {
     const repo = AppDataSource.getRepository(CopilotAuth);
-    await repo.delete({ userId: 1 });
+    await repo.delete({ userId: ctx.admin.userId });
 
     // 同时删除关联的 Provider 和 Models
     const providerRepo = AppDataSource.getRepository(AIProvider);
     const modelRepo = AppDataSource.getRepository(AIModel);
 
     const provider = await providerRepo.findOne({
-      where: { userId: 1, sdkType: "github-copilot" },
+      where: { userId: ctx.admin.userId, sdkType: "github-copilot" },
     });
 
     if (provider) {
@@ -275,9 +275,9 @@ export const copilotAuthRouter = t.router({
   /**
    * 获取认证信息（用于 AI 调用）
    */
-  getAuthInfo: protectedProcedure.query(async () => {
+  getAuthInfo: protectedProcedure.query(async ({ ctx }) => {
     const repo = AppDataSource.getRepository(CopilotAuth);
-    const auth = await repo.findOne({ where: { userId: 1 } });
+    const auth = await repo.findOne({ where: { userId: ctx.admin.userId } });
 
     if (!auth) {
       return null;
@@ -295,13 +295,13 @@ export const copilotAuthRouter = t.router({
 /**
  * 确保 GitHub Copilot Provider 存在
  */
-async function ensureCopilotProvider(enterpriseUrl?: string) {
+async function ensureCopilotProvider(userId: number, enterpriseUrl?: string) {
   const providerRepo = AppDataSource.getRepository(AIProvider);
   const modelRepo = AppDataSource.getRepository(AIModel);
 
   // 检查是否已存在
   let provider = await providerRepo.findOne({
-    where: { userId: 1, sdkType: "github-copilot" },
+    where: { userId, sdkType: "github-copilot" },
   });
 
   if (!provider) {
@@ -309,12 +309,12 @@ async function ensureCopilotProvider(enterpriseUrl?: string) {
     const maxOrderResult = await providerRepo
       .createQueryBuilder("provider")
       .select("MAX(provider.order)", "maxOrder")
-      .where("provider.userId = :userId", { userId: 1 })
+      .where("provider.userId = :userId", { userId })
       .getRawOne();
 
     // 创建 Provider
     provider = providerRepo.create({
-      userId: 1,
+      userId,
       name: enterpriseUrl ? "GitHub Copilot (Enterprise)" : "GitHub Copilot",
       baseUrl: enterpriseUrl
         ? `https://copilot-api.${enterpriseUrl.replace(/^https?:\/\//, "")}`
@@ -331,7 +331,7 @@ async function ensureCopilotProvider(enterpriseUrl?: string) {
     for (let i = 0; i < COPILOT_MODELS.length; i++) {
       const m = COPILOT_MODELS[i];
       const model = modelRepo.create({
-        userId: 1,
+        userId,
         providerId: provider.id,
         modelId: m.id,
         displayName: m.name,
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { t, protectedProcedure } from "../shared";
+import { t, protectedProcedure, platformProcedure } from "../shared";
+import { auditLogService } from "../../services/auditLog";
 import {
   setCsdnCookiesFromClient,
   csdnAutoLogin,
@@ -10,23 +11,29 @@ import {
 // CSDN 认证相关路由
 export const csdnAuthRouter = t.router({
   // 获取登录状态
-  status: protectedProcedure.query(async () => {
-    return getCsdnLoginStatus();
+  status: protectedProcedure.query(async ({ ctx }) => {
+    return getCsdnLoginStatus(ctx.admin.userId);
   }),
 
   // 自动登录（使用保存的 cookies）
-  autoLogin: protectedProcedure.mutation(async () => {
-    return csdnAutoLogin();
+  autoLogin: platformProcedure.mutation(async ({ ctx }) => {
+    return csdnAutoLogin(ctx.admin.userId);
   }),
 
   // 登出
-  logout: protectedProcedure.mutation(async () => {
-    await csdnLogout();
+  logout: platformProcedure.mutation(async ({ ctx }) => {
+    await csdnLogout(ctx.admin.userId);
+    await auditLogService.record(ctx.admin, {
+      action: "platform.logout",
+      entityType: "platform",
+      entityName: "CSDN",
+      detail: { platform: "csdn" },
+    });
     return { success: true };
   }),
 
   // 从客户端设置 cookies（Electron 客户端调用）
-  setCookies: protectedProcedure
+  setCookies: platformProcedure
     .input(
       z.object({
         cookies: z.string(),
@@ -35,12 +42,22 @@ export const csdnAuthRouter = t.router({
         userId: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      return setCsdnCookiesFromClient(
+    .mutation(async ({ ctx, input }) => {
+      const result = await setCsdnCookiesFromClient(
+        ctx.admin.userId,
         input.cookies,
         input.nickname,
         input.avatarUrl,
         input.userId
       );
+      if (result.success) {
+        await auditLogService.record(ctx.admin, {
+          action: "platform.login",
+          entityType: "platform",
+          entityName: "CSDN",
+          detail: { platform: "csdn", nickname: result.user?.nickname },
+        });
+      }
+      return result;
     }),
 });
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { t, protectedProcedure } from "../shared";
+import { t, protectedProcedure, superAdminProcedure } from "../shared";
 import {
   exportDataToZip,
   importDataFromZip,
@@ -9,9 +9,10 @@ import {
 } from "../../services/dataExportImport";
 
 // 数据导入导出路由
+// 导入导出包含所有成员的数据，仅超级管理员可用
 export const dataTransferRouter = t.router({
   // 导出数据为 ZIP（返回 base64 编码的 ZIP 数据）
-  export: protectedProcedure
+  export: superAdminProcedure
     .input(
       z.object({
         includeSensitiveData: z.boolean().default(false),
@@ -24,6 +25,8 @@ export const dataTransferRouter = t.router({
         includeEmailConfig: z.boolean().default(true),
         includeScheduledTasks: z.boolean().default(true),
         includeImages: z.boolean().default(true),
+        // 评论不属于正文，默认不导出
+        includeComments: z.boolean().default(false),
       })
     )
     .mutation(async ({ input }) => {
@@ -45,7 +48,7 @@ export const dataTransferRouter = t.router({
     }),
 
   // 从 ZIP 导入数据
-  import: protectedProcedure
+  import: superAdminProcedure
     .input(
       z.object({
         zipData: z.string(), // base64 编码的 ZIP 数据
@@ -59,6 +62,8 @@ export const dataTransferRouter = t.router({
         importEmailConfig: z.boolean().default(true),
         importScheduledTasks: z.boolean().default(true),
         importImages: z.boolean().default(true),
+        // 与导出一致，评论默认不导入
+        importComments: z.boolean().default(false),
       })
     )
     .mutation(async ({ input }) => {
@@ -77,7 +82,7 @@ export const dataTransferRouter = t.router({
     }),
 
   // 预览 ZIP 文件内容（不实际导入，只返回统计信息）
-  preview: protectedProcedure
+  preview: superAdminProcedure
     .input(
       z.object({
         zipData: z.string(), // base64 编码的 ZIP 数据
@@ -7,19 +7,20 @@ import { emailService } from "../../services/emailService";
 // 邮件配置相关路由
 export const emailConfigRouter = t.router({
   // 获取邮件配置
-  get: protectedProcedure.query(async () => {
+  get: protectedProcedure.query(async ({ ctx }) => {
     const configRepo = AppDataSource.getRepository(EmailConfig);
-    let config = await configRepo.findOne({ where: { userId: 1 } });
+    let config = await configRepo.findOne({ where: { userId: ctx.admin.userId } });
     
     // 如果不存在，创建默认配置
     if (!config) {
       config = configRepo.create({
-        userId: 1,
+        userId: ctx.admin.userId,
         enabled: false,
         smtpSecure: true,
         notifyOnSuccess: true,
         notifyOnFailed: true,
         notifyOnCookieExpired: true,
+        notifyOnReview: true,
       });
       await configRepo.save(config);
     }
@@ -47,15 +48,16 @@ export const emailConfigRouter = t.router({
         notifyOnSuccess: z.boolean().optional(),
         notifyOnFailed: z.boolean().optional(),
         notifyOnCookieExpired: z.boolean().optional(),
+        notifyOnReview: z.boolean().optional(),
         enabled: z.boolean().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const configRepo = AppDataSource.getRepository(EmailConfig);
-      let config = await configRepo.findOne({ where: { userId: 1 } });
+      let config = await configRepo.findOne({ where: { userId: ctx.admin.userId } });
       
       if (!config) {
-        config = configRepo.create({ userId: 1 });
+        config = configRepo.create({ userId: ctx.admin.userId });
       }
       
       // 更新配置
@@ -73,6 +75,7 @@ export const emailConfigRouter = t.router({
       if (input.notifyOnSuccess !== undefined) config.notifyOnSuccess = input.notifyOnSuccess;
       if (input.notifyOnFailed !== undefined) config.notifyOnFailed = input.notifyOnFailed;
       if (input.notifyOnCookieExpired !== undefined) config.notifyOnCookieExpired = input.notifyOnCookieExpired;
+      if (input.notifyOnReview !== undefined) config.notifyOnReview = input.notifyOnReview;
       if (input.enabled !== undefined) config.enabled = input.enabled;
       
       await configRepo.save(config);
@@ -96,12 +99,12 @@ export const emailConfigRouter = t.router({
         smtpPass: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // 如果密码是占位符，从数据库获取真实密码
       let password = input.smtpPass;
       if (password === "••••••••") {
         const configRepo = AppDataSource.getRepository(EmailConfig);
-        const config = await configRepo.findOne({ where: { userId: 1 } });
+        const config = await configRepo.findOne({ where: { userId: ctx.admin.userId } });
         if (config?.smtpPass) {
           password = config.smtpPass;
         } else {
@@ -119,7 +122,7 @@ export const emailConfigRouter = t.router({
     }),
 
   // 发送测试邮件
-  sendTest: protectedProcedure.mutation(async () => {
-    return emailService.sendTestEmail(1);
+  sendTest: protectedProcedure.mutation(async ({ ctx }) => {
+    return emailService.sendTestEmail(ctx.admin.userId);
   }),
 });
@@ -1,60 +1,123 @@
 import { z } from "zod";
-import { t, protectedProcedure } from "../shared";
+import { In } from "typeorm";
+import { TRPCError } from "@trpc/server";
+import { t, protectedProcedure, writeProcedure, requireFolderAccess } from "../shared";
 import { AppDataSource } from "../../db";
 import { Article } from "../../entities/Article";
 import { Folder } from "../../entities/Folder";
+import { FolderShare, SharePermission } from "../../entities/FolderShare";
+import { AdminUser } from "../../entities/AdminUser";
+import { articlePublicationService } from "../../services/articlePublication";
+import { workspaceService } from "../../services/workspace";
+import { auditLogService, type AuditActor } from "../../services/auditLog";
+import { getWorkspaceMembers } from "../../services/adminAuth";
+
+/**
+ * 写入文件夹相关的操作记录
+ */
+function recordFolder(
+  actor: AuditActor,
+  action: string,
+  folder: Folder,
+  detail?: Record<string, unknown>
+) {
+  return auditLogService.record(actor, {
+    action,
+    entityType: "folder",
+    entityId: folder.id,
+    entityName: folder.name,
+    ownerUserId: folder.userId,
+    detail,
+  });
+}
 
 // 文件夹相关路由
 export const folderRouter = t.router({
   // 获取文件夹树结构（只返回文件树所需的轻量字段，不包含 content）
-  tree: protectedProcedure.query(async () => {
+  // 包含自己的文件夹、共享给自己的文件夹，以及其中的文章
+  tree: protectedProcedure.query(async ({ ctx }) => {
     const folderRepo = AppDataSource.getRepository(Folder);
     const articleRepo = AppDataSource.getRepository(Article);
+    const userId = ctx.admin.userId;
 
-    // 获取所有文件夹
-    const folders = await folderRepo.find({
-      order: { order: "ASC", createdAt: "ASC" },
-    });
+    const folderAccess = await workspaceService.getFolderAccess(userId);
+    const folderIds = [...folderAccess.keys()];
 
-    // 获取所有文章（只选择文件树需要的字段，排除 content 大字段）
+    const folders = folderIds.length
+      ? await folderRepo.find({
+          where: { id: In(folderIds) },
+          order: { order: "ASC", createdAt: "ASC" },
+        })
+      : [];
+
+    // 获取文章（只选择文件树需要的字段，排除 content 大字段）
     const articles = await articleRepo.find({
       select: [
         "id",
         "title",
         "status",
         "folderId",
+        "userId",
         "order",
         "createdAt",
         "updatedAt",
         "scheduledAt",
         "publishedAt",
-        // 腾讯云发布状态
-        "tencentArticleId",
-        "tencentArticleUrl",
-        // 掘金发布状态
-        "juejinArticleId",
-        "juejinArticleUrl",
-        // CSDN 发布状态
-        "csdnArticleId",
-        "csdnArticleUrl",
       ],
+      where: folderIds.length ? [{ userId }, { folderId: In(folderIds) }] : { userId },
       order: { order: "ASC", createdAt: "DESC" },
     });
 
-    return { folders, articles };
+    // 共享文件夹所有者的用户名
+    const ownerIds = [...new Set(folders.map((f) => f.userId).filter((id) => id !== userId))];
+    const owners = ownerIds.length
+      ? await AppDataSource.getRepository(AdminUser).find({ where: { userId: In(ownerIds) } })
+      : [];
+    const ownerNames = new Map(owners.map((a) => [a.userId!, a.username]));
+
+    // 各平台发布状态（只返回文件树展示需要的字段）
+    const publications = await articlePublicationService.listByArticles(
+      articles.map((a) => a.id)
+    );
+
+    return {
+      // 上级文件夹不可见的共享文件夹作为根文件夹展示
+      folders: folders.map((folder) => ({
+        ...folder,
+        parentId: folder.parentId && folderAccess.has(folder.parentId) ? folder.parentId : null,
+        access: folderAccess.get(folder.id)!,
+        ownerName: folder.userId !== userId ? ownerNames.get(folder.userId) ?? null : null,
+      })),
+      articles: articles.map((article) => ({
+        ...article,
+        folderId: article.folderId && folderAccess.has(article.folderId) ? article.folderId : null,
+        publications: (publications.get(article.id) || []).map((p) => ({
+          platform: p.platform,
+          remoteId: p.remoteId,
+          url: p.url,
+          status: p.status,
+        })),
+      })),
+    };
   }),
 
   // 创建文件夹
-  create: protectedProcedure
+  create: writeProcedure
     .input(
       z.object({
         name: z.string().min(1),
         parentId: z.number().nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const folderRepo = AppDataSource.getRepository(Folder);
 
+      // 子文件夹与上级文件夹属于同一所有者，在共享文件夹中创建需要编辑权限
+      const parent = input.parentId
+        ? (await requireFolderAccess(ctx, input.parentId, "edit")).folder
+        : null;
+      const ownerId = parent ? parent.userId : ctx.admin.userId;
+
       // 获取同级文件夹的最大排序值
       const maxOrderResult = await folderRepo
         .createQueryBuilder("folder")
@@ -62,39 +125,47 @@ export const folderRouter = t.router({
         .where(
           input.parentId
             ? "folder.parentId = :parentId"
-            : "folder.parentId IS NULL",
-          { parentId: input.parentId }
+            : "folder.parentId IS NULL AND folder.userId = :userId",
+          { parentId: input.parentId, userId: ownerId }
         )
         .getRawOne();
 
       const folder = folderRepo.create({
         name: input.name,
+        userId: ownerId,
         parentId: input.parentId ?? undefined,
         order: (maxOrderResult?.maxOrder ?? -1) + 1,
       });
 
       await folderRepo.save(folder);
+      await recordFolder(ctx.admin, "folder.create", folder);
       return folder;
     }),
 
   // 重命名文件夹
-  rename: protectedProcedure
+  rename: writeProcedure
     .input(
       z.object({
         id: z.number(),
         name: z.string().min(1),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const { folder } = await requireFolderAccess(ctx, input.id, "edit");
       const folderRepo = AppDataSource.getRepository(Folder);
       await folderRepo.update(input.id, { name: input.name });
+      await recordFolder(ctx.admin, "folder.rename", { ...folder, name: input.name }, {
+        from: folder.name,
+        to: input.name,
+      });
       return folderRepo.findOne({ where: { id: input.id } });
     }),
 
   // 删除文件夹（及其子文件夹和文章）
-  delete: protectedProcedure
+  delete: writeProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const { folder } = await requireFolderAccess(ctx, input.id, "owner");
       const folderRepo = AppDataSource.getRepository(Folder);
       const articleRepo = AppDataSource.getRepository(Article);
 
@@ -121,25 +192,35 @@ export const folderRouter = t.router({
         );
       }
 
-      // 删除所有相关文件夹
+      // 删除所有相关文件夹及其共享
+      await AppDataSource.getRepository(FolderShare).delete({ folderId: In(folderIds) });
       await folderRepo.delete(folderIds);
+      await recordFolder(ctx.admin, "folder.delete", folder);
 
       return { success: true };
     }),
 
-  // 移动文件夹
-  move: protectedProcedure
+  // 移动文件夹（只能在自己的文件夹之间移动）
+  move: writeProcedure
     .input(
       z.object({
         id: z.number(),
         parentId: z.number().nullish(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const { folder } = await requireFolderAccess(ctx, input.id, "owner");
+      if (input.parentId) {
+        await requireFolderAccess(ctx, input.parentId, "owner");
+      }
       const folderRepo = AppDataSource.getRepository(Folder);
       await folderRepo.update(input.id, {
         parentId: input.parentId ?? undefined,
       });
+      await recordFolder(ctx.admin, "folder.move", folder, {
+        from: folder.parentId ?? null,
+        to: input.parentId ?? null,
+      });
       return folderRepo.findOne({ where: { id: input.id } });
     }),
 
@@ -151,9 +232,73 @@ export const folderRouter = t.router({
         isExpanded: z.boolean(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireFolderAccess(ctx, input.id);
       const folderRepo = AppDataSource.getRepository(Folder);
       await folderRepo.update(input.id, { isExpanded: input.isExpanded });
       return { success: true };
     }),
+
+  // ========== 共享 ==========
+
+  // 可以共享的成员（所有管理员对应的工作区用户）
+  members: protectedProcedure.query(async ({ ctx }) => {
+    const members = await getWorkspaceMembers();
+    return members.filter((member) => member.userId !== ctx.admin.userId);
+  }),
+
+  // 获取文件夹的共享列表（仅所有者）
+  shares: protectedProcedure
+    .input(z.object({ folderId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireFolderAccess(ctx, input.folderId, "owner");
+      return workspaceService.listShares(input.folderId);
+    }),
+
+  // 共享文件夹给成员；已共享时修改权限
+  share: writeProcedure
+    .input(
+      z.object({
+        folderId: z.number(),
+        userId: z.number(),
+        permission: z.nativeEnum(SharePermission),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { folder } = await requireFolderAccess(ctx, input.folderId, "owner");
+      const members = await getWorkspaceMembers();
+      const member = members.find((m) => m.userId === input.userId);
+      if (!member) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "成员不存在" });
+      }
+
+      try {
+        await workspaceService.shareFolder(input.folderId, input.userId, input.permission);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "共享失败",
+        });
+      }
+
+      await recordFolder(ctx.admin, "folder.share", folder, {
+        member: member.username,
+        permission: input.permission,
+      });
+      return workspaceService.listShares(input.folderId);
+    }),
+
+  // 取消共享
+  unshare: writeProcedure
+    .input(z.object({ folderId: z.number(), userId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { folder } = await requireFolderAccess(ctx, input.folderId, "owner");
+      const shares = await workspaceService.listShares(input.folderId);
+      const share = shares.find((s) => s.userId === input.userId);
+      if (share) {
+        await workspaceService.unshareFolder(input.folderId, input.userId);
+        await recordFolder(ctx.admin, "folder.unshare", folder, { member: share.username });
+      }
+      return workspaceService.listShares(input.folderId);
+    }),
 });
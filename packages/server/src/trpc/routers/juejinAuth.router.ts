@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { t, protectedProcedure } from "../shared";
+import { t, protectedProcedure, platformProcedure } from "../shared";
+import { auditLogService } from "../../services/auditLog";
 import {
   setJuejinCookiesFromClient,
   juejinAutoLogin,
@@ -11,23 +12,29 @@ import {
 // 掘金认证相关路由
 export const juejinAuthRouter = t.router({
   // 获取登录状态
-  status: protectedProcedure.query(async () => {
-    return getJuejinLoginStatus();
+  status: protectedProcedure.query(async ({ ctx }) => {
+    return getJuejinLoginStatus(ctx.admin.userId);
   }),
 
   // 自动登录（使用保存的 cookies）
-  autoLogin: protectedProcedure.mutation(async () => {
-    return juejinAutoLogin();
+  autoLogin: platformProcedure.mutation(async ({ ctx }) => {
+    return juejinAutoLogin(ctx.admin.userId);
   }),
 
   // 登出
-  logout: protectedProcedure.mutation(async () => {
-    await juejinLogout();
+  logout: platformProcedure.mutation(async ({ ctx }) => {
+    await juejinLogout(ctx.admin.userId);
+    await auditLogService.record(ctx.admin, {
+      action: "platform.logout",
+      entityType: "platform",
+      entityName: "掘金",
+      detail: { platform: "juejin" },
+    });
     return { success: true };
   }),
 
   // 从客户端设置 cookies（Electron 客户端调用）
-  setCookies: protectedProcedure
+  setCookies: platformProcedure
     .input(
       z.object({
         cookies: z.string(),
@@ -36,17 +43,27 @@ export const juejinAuthRouter = t.router({
         userId: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      return setJuejinCookiesFromClient(
+    .mutation(async ({ ctx, input }) => {
+      const result = await setJuejinCookiesFromClient(
+        ctx.admin.userId,
         input.cookies,
         input.nickname,
         input.avatarUrl,
         input.userId
       );
+      if (result.success) {
+        await auditLogService.record(ctx.admin, {
+          action: "platform.login",
+          entityType: "platform",
+          entityName: "掘金",
+          detail: { platform: "juejin", nickname: result.user?.nickname },
+        });
+      }
+      return result;
     }),
 
   // 获取会话信息（包括过期时间）
-  sessionInfo: protectedProcedure.query(async () => {
-    return getJuejinSessionInfo();
+  sessionInfo: protectedProcedure.query(async ({ ctx }) => {
+    return getJuejinSessionInfo(ctx.admin.userId);
   }),
 });
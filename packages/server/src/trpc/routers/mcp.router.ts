@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { t, protectedProcedure, type AuthedContext } from "../shared";
+import { AppDataSource } from "../../db";
+import { AdminRole } from "../../entities/AdminUser";
+import { McpServer } from "../../entities/McpServer";
+import { mcpClientManager } from "../../services/mcpClient";
+import { assertPublicUrl } from "../../services/publicUrl";
+
+// 环境变量、请求头的值在列表中隐藏
+const MASKED_VALUE = "••••••••";
+
+const keyValueSchema = z.record(z.string(), z.string());
+
+const serverInputSchema = z.object({
+  name: z.string().trim().min(1, "请输入服务名称").max(50),
+  transport: z.enum(["stdio", "http"]),
+  command: z.string().trim().nullish(),
+  args: z.array(z.string()).nullish(),
+  env: keyValueSchema.nullish(),
+  url: z.string().trim().url("请输入有效的 URL").nullish(),
+  headers: keyValueSchema.nullish(),
+  enabled: z.boolean().optional(),
+});
+
+function parseRecord(value: string | null | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+function maskRecord(value: string | null | undefined): Record<string, string> {
+  return Object.fromEntries(Object.keys(parseRecord(value)).map((key) => [key, MASKED_VALUE]));
+}
+
+/**
+ * 合并编辑后的键值：值为占位符时保留原值
+ */
+function mergeRecord(
+  input: Record<string, string> | null | undefined,
+  current: string | null | undefined
+): string | null {
+  if (!input || Object.keys(input).length === 0) return null;
+  const previous = parseRecord(current);
+  const merged = Object.fromEntries(
+    Object.entries(input).map(([key, value]) => [key, value === MASKED_VALUE ? previous[key] ?? "" : value])
+  );
+  return JSON.stringify(merged);
+}
+
+function toClient(server: McpServer) {
+  return {
+    id: server.id,
+    name: server.name,
+    transport: server.transport,
+    command: server.command,
+    args: server.args || [],
+    env: maskRecord(server.env),
+    url: server.url,
+    headers: maskRecord(server.headers),
+    enabled: server.enabled,
+    createdAt: server.createdAt,
+    updatedAt: server.updatedAt,
+  };
+}
+
+/**
+ * 校验连接配置
+ * stdio 服务会在服务器上执行命令，只允许超级管理员配置；
+ * 其他角色的 HTTP 服务只能指向公网地址（连接时还会再次校验解析结果）
+ */
+async function validateServer(ctx: AuthedContext, server: Pick<McpServer, "transport" | "command" | "url">) {
+  const isSuperAdmin = ctx.admin.role === AdminRole.SUPER_ADMIN;
+  if (server.transport === "stdio") {
+    if (!isSuperAdmin) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "只有超级管理员可以配置本地命令类型的 MCP 服务" });
+    }
+    if (!server.command) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "请输入启动命令" });
+    }
+  } else if (!server.url) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "请输入服务地址" });
+  } else if (!isSuperAdmin) {
+    try {
+      await assertPublicUrl(server.url);
+    } catch (error) {
+      throw new TRPCError({ code: "FORBIDDEN", message: `MCP 服务地址不可用: ${(error as Error).message}` });
+    }
+  }
+}
+
+async function findServer(userId: number, id: number): Promise<McpServer> {
+  const server = await AppDataSource.getRepository(McpServer).findOne({ where: { id, userId } });
+  if (!server) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "MCP 服务不存在" });
+  }
+  return server;
+}
+
+// MCP 服务相关路由
+export const mcpRouter = t.router({
+  // 获取 MCP 服务列表
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const servers = await AppDataSource.getRepository(McpServer).find({
+      where: { userId: ctx.admin.userId },
+      order: { createdAt: "ASC" },
+    });
+    return servers.map(toClient);
+  }),
+
+  // 添加 MCP 服务
+  create: protectedProcedure.input(serverInputSchema).mutation(async ({ ctx, input }) => {
+    await validateServer(ctx, input);
+    const repo = AppDataSource.getRepository(McpServer);
+    const server = repo.create({
+      userId: ctx.admin.userId,
+      name: input.name,
+      transport: input.transport,
+      command: input.transport === "stdio" ? input.command : null,
+      args: input.transport === "stdio" ? input.args || [] : null,
+      env: input.transport === "stdio" ? mergeRecord(input.env, null) : null,
+      url: input.transport === "http" ? input.url : null,
+      headers: input.transport === "http" ? mergeRecord(input.headers, null) : null,
+      enabled: input.enabled ?? true,
+    });
+    await repo.save(server);
+    return toClient(server);
+  }),
+
+  // 更新 MCP 服务
+  update: protectedProcedure
+    .input(serverInputSchema.partial().extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const server = await findServer(ctx.admin.userId, input.id);
+      // 修改 stdio 服务（包括启停）同样需要超级管理员权限
+      await validateServer(ctx, {
+        transport: input.transport ?? server.transport,
+        command: input.command !== undefined ? input.command : server.command,
+        url: input.url !== undefined ? input.url : server.url,
+      });
+
+      if (input.name !== undefined) server.name = input.name;
+      if (input.transport !== undefined) server.transport = input.transport;
+      if (input.command !== undefined) server.command = input.command;
+      if (input.args !== undefined) server.args = input.args;
+      if (input.env !== undefined) server.env = mergeRecord(input.env, server.env);
+      if (input.url !== undefined) server.url = input.url;
+      if (input.headers !== undefined) server.headers = mergeRecord(input.headers, server.headers);
+      if (input.enabled !== undefined) server.enabled = input.enabled;
+
+      await AppDataSource.getRepository(McpServer).save(server);
+      mcpClientManager.disconnect(server.id);
+      return toClient(server);
+    }),
+
+  // 删除 MCP 服务
+  delete: protectedProcedure.input(z.object({ id: z.number() })).mutation(async ({ ctx, input }) => {
+    const server = await findServer(ctx.admin.userId, input.id);
+    await AppDataSource.getRepository(McpServer).remove(server);
+    mcpClientManager.disconnect(input.id);
+    return { success: true };
+  }),
+
+  // 测试连接，返回服务提供的工具
+  test: protectedProcedure.input(z.object({ id: z.number() })).mutation(async ({ ctx, input }) => {
+    const server = await findServer(ctx.admin.userId, input.id);
+    try {
+      const tools = await mcpClientManager.testServer(server);
+      return {
+        success: true,
+        message: `连接成功，发现 ${tools.length} 个工具`,
+        tools: tools.map((tool) => ({ name: tool.name, description: tool.description || "" })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "连接失败",
+        tools: [],
+      };
+    }
+  }),
+
+  // 当前可用的 MCP 工具（用于工具权限配置和工具调用展示）
+  listTools: protectedProcedure.query(async ({ ctx }) => {
+    return mcpClientManager.listTools(ctx.admin.userId);
+  }),
+});
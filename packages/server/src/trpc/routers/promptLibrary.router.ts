@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { t, protectedProcedure } from "../shared";
+import {
+  promptLibraryService,
+  PromptLibraryError,
+  COMMAND_PATTERN,
+} from "../../services/promptLibrary";
+
+const templateInputSchema = z.object({
+  command: z
+    .string()
+    .trim()
+    .min(1, "请输入指令名")
+    .max(32)
+    .regex(COMMAND_PATTERN, "指令名只能包含文字、数字、- 和 _"),
+  name: z.string().trim().min(1, "请输入名称").max(50),
+  description: z.string().trim().max(200).nullish(),
+  content: z.string().trim().min(1, "请输入提示词内容").max(50_000),
+  kind: z.enum(["command", "system"]),
+  enabled: z.boolean(),
+});
+
+/**
+ * 把服务层错误转换为 TRPCError
+ */
+async function handle<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof PromptLibraryError) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    }
+    throw error;
+  }
+}
+
+// 提示词库相关路由
+export const promptLibraryRouter = t.router({
+  // 获取提示词列表
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return promptLibraryService.list(ctx.admin.userId);
+  }),
+
+  // 新建提示词
+  create: protectedProcedure.input(templateInputSchema).mutation(async ({ ctx, input }) => {
+    return handle(() => promptLibraryService.create(ctx.admin.userId, input));
+  }),
+
+  // 更新提示词
+  update: protectedProcedure
+    .input(templateInputSchema.partial().extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      return handle(() => promptLibraryService.update(ctx.admin.userId, id, data));
+    }),
+
+  // 删除提示词
+  delete: protectedProcedure.input(z.object({ id: z.number() })).mutation(async ({ ctx, input }) => {
+    await handle(() => promptLibraryService.delete(ctx.admin.userId, input.id));
+    return { success: true };
+  }),
+
+  // 导入 Markdown 文件或包含 Markdown 文件的 ZIP
+  import: protectedProcedure
+    .input(
+      z.object({
+        files: z.array(z.object({ fileName: z.string(), content: z.string() })).optional(),
+        zip: z.string().optional(),
+        overwrite: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return handle(async () => {
+        if (input.zip) {
+          return promptLibraryService.importZip(ctx.admin.userId, input.zip, input.overwrite);
+        }
+        if (!input.files?.length) {
+          throw new PromptLibraryError("请选择要导入的文件");
+        }
+        return promptLibraryService.importMarkdown(ctx.admin.userId, input.files, input.overwrite);
+      });
+    }),
+
+  // 恢复内置提示词（不覆盖同名指令）
+  importDefaults: protectedProcedure.mutation(async ({ ctx }) => {
+    return promptLibraryService.importDefaults(ctx.admin.userId);
+  }),
+
+  // 导出单个提示词为 Markdown
+  export: protectedProcedure.input(z.object({ id: z.number() })).mutation(async ({ ctx, input }) => {
+    return handle(() => promptLibraryService.exportMarkdown(ctx.admin.userId, input.id));
+  }),
+
+  // 导出全部提示词为 ZIP（base64）
+  exportAll: protectedProcedure.mutation(async ({ ctx }) => {
+    return { data: await promptLibraryService.exportZip(ctx.admin.userId) };
+  }),
+});
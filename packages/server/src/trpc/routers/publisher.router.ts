@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  t,
+  protectedProcedure,
+  publishProcedure,
+  writeProcedure,
+  wrapPlatformCall,
+  requireArticleAccess,
+  requireFolderAccess,
+} from "../shared";
+import { getPublisher, listPublishers } from "../../services/publishers";
+import { platformImportService } from "../../services/platformImport";
+import { publishLintService } from "../../services/publishLint";
+import { metadataSuggestionService, MetadataSuggestionError } from "../../services/metadataSuggestion";
+import { stripHtml, transformMarkdownForPlatform } from "../../services/markdownTransformer";
+import { getPlatformConfig } from "@shared/markdown/platformConfig";
+
+/**
+ * 按平台标识获取适配器，不存在时抛出 BAD_REQUEST
+ */
+function getPublisherOrThrow(platform: string) {
+  const publisher = getPublisher(platform);
+  if (!publisher) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `不支持的平台: ${platform}`,
+    });
+  }
+  return publisher;
+}
+
+/**
+ * 检查平台是否支持导入文章
+ */
+function requireImportable(platform: string) {
+  const publisher = getPublisherOrThrow(platform);
+  if (!publisher.capabilities.import) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${publisher.name}不支持导入文章`,
+    });
+  }
+  return publisher;
+}
+
+// 发布平台相关路由（通过发布平台注册表统一访问各平台）
+export const publisherRouter = t.router({
+  // 获取所有已注册的发布平台及登录状态
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return Promise.all(
+      listPublishers().map(async (publisher) => ({
+        platform: publisher.platform,
+        name: publisher.name,
+        capabilities: publisher.capabilities,
+        isLoggedIn: await publisher.isLoggedIn(ctx.admin.userId).catch(() => false),
+      }))
+    );
+  }),
+
+  // 同步文章到指定平台草稿箱
+  syncDraft: publishProcedure
+    .input(z.object({ platform: z.string(), articleId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const publisher = getPublisherOrThrow(input.platform);
+      await requireArticleAccess(ctx, input.articleId, "edit");
+      if (!publisher.capabilities.draft) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${publisher.name}不支持同步草稿`,
+        });
+      }
+      return wrapPlatformCall(() => publisher.syncDraft(input.articleId, ctx.admin.userId));
+    }),
+
+  // 发布前检查：列出文章在各平台上会导致发布失败的错误和展示差异的警告
+  lint: protectedProcedure
+    .input(z.object({ articleId: z.number(), platforms: z.array(z.string()).optional() }))
+    .query(async ({ ctx, input }) => {
+      input.platforms?.forEach(getPublisherOrThrow);
+      await requireArticleAccess(ctx, input.articleId);
+      return publishLintService.lintArticle(input.articleId, input.platforms);
+    }),
+
+  // 按平台转换 Markdown，用于编辑器中的平台预览
+  // 文章内容可能较长，使用 mutation 通过请求体传递
+  preview: protectedProcedure
+    .input(z.object({ platform: z.string(), content: z.string() }))
+    .mutation(async ({ input }) => {
+      getPublisherOrThrow(input.platform);
+      const { supportsHtml } = getPlatformConfig(input.platform);
+      const { content, report } = transformMarkdownForPlatform(input.content, {
+        platform: input.platform,
+      });
+      return {
+        content: supportsHtml ? content : stripHtml(content),
+        supportsHtml,
+        report,
+      };
+    }),
+
+  // 搜索指定平台的标签
+  searchTags: protectedProcedure
+    .input(z.object({ platform: z.string(), keyword: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const publisher = getPublisherOrThrow(input.platform);
+      return wrapPlatformCall(() => publisher.searchTags(input.keyword, ctx.admin.userId));
+    }),
+
+  // 用默认 AI 模型生成候选标题、摘要、标签和分类
+  suggestMetadata: protectedProcedure
+    .input(z.object({ platform: z.string(), articleId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const publisher = getPublisherOrThrow(input.platform);
+      const { article } = await requireArticleAccess(ctx, input.articleId, "edit");
+      try {
+        return await wrapPlatformCall(() =>
+          metadataSuggestionService.suggest(ctx.admin.userId, article, publisher)
+        );
+      } catch (error) {
+        if (error instanceof MetadataSuggestionError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+        throw error;
+      }
+    }),
+
+  // 同步指定平台的文章状态
+  syncStatus: protectedProcedure
+    .input(z.object({ platform: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const publisher = getPublisherOrThrow(input.platform);
+      return wrapPlatformCall(() => publisher.syncStatus(ctx.admin.userId));
+    }),
+
+  // 分页列出平台上已有的文章（用于导入）
+  remoteArticles: writeProcedure
+    .input(z.object({ platform: z.string(), page: z.number().int().min(1).default(1) }))
+    .query(async ({ ctx, input }) => {
+      requireImportable(input.platform);
+      return wrapPlatformCall(() =>
+        platformImportService.listRemote(ctx.admin.userId, input.platform, input.page)
+      );
+    }),
+
+  // 将平台文章导入本地文章库
+  importArticles: writeProcedure
+    .input(
+      z.object({
+        platform: z.string(),
+        keys: z.array(z.string()).min(1).max(50),
+        folderId: z.number().nullish(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      requireImportable(input.platform);
+      if (input.folderId) {
+        await requireFolderAccess(ctx, input.folderId, "edit");
+      }
+      return wrapPlatformCall(() =>
+        platformImportService.importArticles(
+          ctx.admin,
+          input.platform,
+          input.keys,
+          input.folderId ?? undefined
+        )
+      );
+    }),
+});
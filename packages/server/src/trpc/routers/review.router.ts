@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  t,
+  protectedProcedure,
+  writeProcedure,
+  reviewProcedure,
+  requireArticleAccess,
+  type AuthedContext,
+} from "../shared";
+import { Article } from "../../entities/Article";
+import { articleReviewService } from "../../services/articleReview";
+import { Permission, roleHasPermission } from "../../services/permissions";
+
+/**
+ * 执行审核操作，将业务错误转换为 BAD_REQUEST
+ */
+async function runReview<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error instanceof Error ? error.message : "审核操作失败",
+    });
+  }
+}
+
+/**
+ * 文章的审核状态（编辑器中展示）
+ */
+async function toReviewState(ctx: AuthedContext, article: Article) {
+  const names = await articleReviewService.getReviewerNames(
+    article.reviewerUserId ? [article.reviewerUserId] : []
+  );
+  return {
+    articleId: article.id,
+    status: article.reviewStatus,
+    reviewer: article.reviewerUserId
+      ? {
+          userId: article.reviewerUserId,
+          username: names.get(article.reviewerUserId) || `用户 ${article.reviewerUserId}`,
+        }
+      : null,
+    // 不能发布的原因，为空时可以发布
+    publishBlockReason: articleReviewService.getPublishBlockReason(article),
+    // 当前用户是否可以通过或退回
+    canDecide:
+      article.reviewerUserId === ctx.admin.userId &&
+      roleHasPermission(ctx.admin.role, Permission.ARTICLE_REVIEW),
+  };
+}
+
+const noteSchema = z.string().max(1000).optional();
+
+// 编辑审核相关路由
+export const reviewRouter = t.router({
+  // 可以选择的审核人
+  reviewers: protectedProcedure.query(async () => {
+    return articleReviewService.listReviewers();
+  }),
+
+  // 获取文章的审核状态
+  get: protectedProcedure
+    .input(z.object({ articleId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId);
+      return toReviewState(ctx, article);
+    }),
+
+  // 等待我审核的文章
+  assigned: protectedProcedure.query(async ({ ctx }) => {
+    const articles = await articleReviewService.listAssigned(ctx.admin.userId);
+    const authors = await articleReviewService.getReviewerNames([
+      ...new Set(articles.map((a) => a.userId)),
+    ]);
+    return articles.map((article) => ({
+      id: article.id,
+      title: article.title,
+      author: authors.get(article.userId) || `用户 ${article.userId}`,
+      updatedAt: article.updatedAt,
+    }));
+  }),
+
+  // 提交审核
+  submit: writeProcedure
+    .input(z.object({ articleId: z.number(), reviewerUserId: z.number(), note: noteSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId, "edit");
+      await runReview(() =>
+        articleReviewService.submit(ctx.admin, article, input.reviewerUserId, input.note)
+      );
+      return toReviewState(ctx, article);
+    }),
+
+  // 更换审核人
+  assign: writeProcedure
+    .input(z.object({ articleId: z.number(), reviewerUserId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId, "edit");
+      await runReview(() =>
+        articleReviewService.assignReviewer(ctx.admin, article, input.reviewerUserId)
+      );
+      return toReviewState(ctx, article);
+    }),
+
+  // 撤回审核
+  withdraw: writeProcedure
+    .input(z.object({ articleId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId, "edit");
+      await runReview(() => articleReviewService.withdraw(ctx.admin, article));
+      return toReviewState(ctx, article);
+    }),
+
+  // 审核通过
+  approve: reviewProcedure
+    .input(z.object({ articleId: z.number(), note: noteSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId);
+      await runReview(() => articleReviewService.approve(ctx.admin, article, input.note));
+      return toReviewState(ctx, article);
+    }),
+
+  // 要求修改
+  requestChanges: reviewProcedure
+    .input(z.object({ articleId: z.number(), note: noteSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId);
+      await runReview(() => articleReviewService.requestChanges(ctx.admin, article, input.note));
+      return toReviewState(ctx, article);
+    }),
+});
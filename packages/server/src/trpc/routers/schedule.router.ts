@@ -1,26 +1,57 @@
 import { z } from "zod";
 import { Not } from "typeorm";
-import { t, protectedProcedure } from "../shared";
+import { t, protectedProcedure, publishProcedure, requireArticleAccess, requireApproved } from "../shared";
 import { AppDataSource } from "../../db";
 import { schedulerService } from "../../services/scheduler";
+import { contentCalendarService } from "../../services/contentCalendar";
+import { auditLogService } from "../../services/auditLog";
 import {
   ScheduledTask,
   TaskStatus,
   Platform,
   TencentPublishConfig,
   JuejinPublishConfig,
+  CsdnPublishConfig,
   PlatformConfig,
+  ScheduleRule,
 } from "../../entities/ScheduledTask";
 
+// CSDN 发布配置
+const csdnConfigSchema = z.object({
+  tags: z.array(z.string()),
+  description: z.string().optional(),
+  coverImage: z.string().optional(),
+  type: z.enum(["original", "repost", "translated"]),
+  readType: z.enum(["public", "private", "fans", "vip"]),
+});
+
+// 定时规则：时间窗口或相对其他平台错峰
+const scheduleRuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("window"),
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1),
+    startTime: z.string().regex(/^\d{2}:\d{2}$/),
+    endTime: z.string().regex(/^\d{2}:\d{2}$/),
+  }),
+  z.object({
+    type: z.literal("stagger"),
+    afterPlatform: z.nativeEnum(Platform),
+    offsetMinutes: z.number().int().min(0).max(7 * 24 * 60),
+  }),
+]);
+
 // 定时任务相关路由
 export const scheduleRouter = t.router({
   // 创建定时发布任务
-  create: protectedProcedure
+  create: publishProcedure
     .input(
       z.object({
         articleId: z.number(),
         platform: z.nativeEnum(Platform).default(Platform.TENCENT),
-        scheduledAt: z.string().datetime(),
+        // 指定发布时间，与定时规则二选一
+        scheduledAt: z.string().datetime().optional(),
+        // 定时规则，由服务端分配具体发布时间
+        rule: scheduleRuleSchema.optional(),
         // 腾讯云配置
         tencentConfig: z.object({
           tagIds: z.array(z.number()),
@@ -37,9 +68,14 @@ export const scheduleRouter = t.router({
           briefContent: z.string(),
           isOriginal: z.union([z.literal(0), z.literal(1)]),
         }).optional(),
+        // CSDN 配置
+        csdnConfig: csdnConfigSchema.optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.articleId, "edit");
+      requireApproved(article);
+
       // 根据平台选择配置
       let config: PlatformConfig;
       if (input.platform === Platform.JUEJIN) {
@@ -47,6 +83,11 @@ export const scheduleRouter = t.router({
           throw new Error("缺少掘金发布配置");
         }
         config = input.juejinConfig as JuejinPublishConfig;
+      } else if (input.platform === Platform.CSDN) {
+        if (!input.csdnConfig) {
+          throw new Error("缺少 CSDN 发布配置");
+        }
+        config = input.csdnConfig as CsdnPublishConfig;
       } else {
         if (!input.tencentConfig) {
           throw new Error("缺少腾讯云发布配置");
@@ -56,29 +97,35 @@ export const scheduleRouter = t.router({
 
       const task = await schedulerService.createTask({
         articleId: input.articleId,
-        userId: 1, // 简化处理
+        userId: ctx.admin.userId,
         platform: input.platform,
-        scheduledAt: new Date(input.scheduledAt),
+        scheduledAt: input.scheduledAt ? new Date(input.scheduledAt) : undefined,
+        rule: input.rule as ScheduleRule | undefined,
         config,
       });
+
+      await auditLogService.recordArticle(ctx.admin, "article.schedule", article, {
+        detail: { platform: task.platform, scheduledAt: task.scheduledAt },
+      });
       return task;
     }),
 
   // 取消定时任务
-  cancel: protectedProcedure
+  cancel: publishProcedure
     .input(z.object({ taskId: z.number() }))
-    .mutation(async ({ input }) => {
-      await schedulerService.cancelTask(input.taskId, 1);
+    .mutation(async ({ ctx, input }) => {
+      await schedulerService.cancelTask(input.taskId, ctx.admin.userId);
       return { success: true };
     }),
 
   // 更新定时任务
-  update: protectedProcedure
+  update: publishProcedure
     .input(
       z.object({
         taskId: z.number(),
         platform: z.nativeEnum(Platform).optional(),
         scheduledAt: z.string().datetime().optional(),
+        rule: scheduleRuleSchema.optional(),
         // 腾讯云配置
         tencentConfig: z.object({
           tagIds: z.array(z.number()),
@@ -95,20 +142,94 @@ export const scheduleRouter = t.router({
           briefContent: z.string(),
           isOriginal: z.union([z.literal(0), z.literal(1)]),
         }).optional(),
+        // CSDN 配置
+        csdnConfig: csdnConfigSchema.optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const updates: { scheduledAt?: Date; config?: PlatformConfig } = {};
-      if (input.scheduledAt) {
+    .mutation(async ({ ctx, input }) => {
+      const updates: { scheduledAt?: Date; rule?: ScheduleRule; config?: PlatformConfig } = {};
+      if (input.rule) {
+        updates.rule = input.rule as ScheduleRule;
+      } else if (input.scheduledAt) {
         updates.scheduledAt = new Date(input.scheduledAt);
       }
       // 根据平台选择配置
       if (input.juejinConfig) {
         updates.config = input.juejinConfig as JuejinPublishConfig;
+      } else if (input.csdnConfig) {
+        updates.config = input.csdnConfig as CsdnPublishConfig;
       } else if (input.tencentConfig) {
         updates.config = input.tencentConfig as TencentPublishConfig;
       }
-      return schedulerService.updateTask(input.taskId, 1, updates);
+      return schedulerService.updateTask(input.taskId, ctx.admin.userId, updates);
+    }),
+
+  // 预览定时规则分配的发布时间（不创建任务）
+  previewSlot: protectedProcedure
+    .input(
+      z.object({
+        articleId: z.number(),
+        platform: z.nativeEnum(Platform),
+        rule: scheduleRuleSchema,
+        // 编辑已有任务时排除任务自身占用的时间
+        taskId: z.number().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const scheduledAt = await schedulerService.resolveScheduledAt({
+          articleId: input.articleId,
+          userId: ctx.admin.userId,
+          platform: input.platform,
+          rule: input.rule as ScheduleRule,
+          excludeTaskId: input.taskId,
+        });
+        return { scheduledAt, error: null };
+      } catch (error) {
+        return {
+          scheduledAt: null,
+          error: error instanceof Error ? error.message : "无法分配发布时间",
+        };
+      }
+    }),
+
+  // 获取时间范围内已计划的发布任务（发布日历）
+  listPlanned: protectedProcedure
+    .input(
+      z.object({
+        from: z.string().datetime(),
+        to: z.string().datetime(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const tasks = await schedulerService.getPlannedTasks(
+        ctx.admin.userId,
+        new Date(input.from),
+        new Date(input.to)
+      );
+      return tasks.map((task) => ({
+        id: task.id,
+        articleId: task.articleId,
+        articleTitle: task.article?.title || `文章 #${task.articleId}`,
+        platform: task.platform,
+        scheduledAt: task.scheduledAt,
+      }));
+    }),
+
+  // 获取内容日历事件（定时任务与已发布文章）
+  calendar: protectedProcedure
+    .input(
+      z.object({
+        from: z.string().datetime(),
+        to: z.string().datetime(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return contentCalendarService.getEvents(
+        ctx.admin.userId,
+        new Date(input.from),
+        new Date(input.to)
+      );
     }),
 
   // 获取文章的定时任务
@@ -117,7 +238,8 @@ export const scheduleRouter = t.router({
       articleId: z.number(),
       platform: z.nativeEnum(Platform).optional(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.articleId);
       return schedulerService.getArticleTask(input.articleId, input.platform);
     }),
 
@@ -128,13 +250,13 @@ export const scheduleRouter = t.router({
         status: z.array(z.nativeEnum(TaskStatus)).optional(),
       })
     )
-    .query(async ({ input }) => {
-      return schedulerService.getUserTasks(1, input.status);
+    .query(async ({ ctx, input }) => {
+      return schedulerService.getUserTasks(ctx.admin.userId, input.status);
     }),
 
   // 获取待执行的定时任务列表
-  listPending: protectedProcedure.query(async () => {
-    return schedulerService.getUserTasks(1, [TaskStatus.PENDING]);
+  listPending: protectedProcedure.query(async ({ ctx }) => {
+    return schedulerService.getUserTasks(ctx.admin.userId, [TaskStatus.PENDING]);
   }),
 
   // 获取任务历史记录
@@ -145,10 +267,10 @@ export const scheduleRouter = t.router({
         pageSize: z.number().default(20),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const taskRepo = AppDataSource.getRepository(ScheduledTask);
       const [tasks, total] = await taskRepo.findAndCount({
-        where: { userId: 1 },
+        where: { userId: ctx.admin.userId },
         order: { createdAt: "DESC" },
         skip: (input.page - 1) * input.pageSize,
         take: input.pageSize,
@@ -164,10 +286,10 @@ export const scheduleRouter = t.router({
     }),
 
   // 清空历史记录（只清空非 pending 状态的任务）
-  clearHistory: protectedProcedure.mutation(async () => {
+  clearHistory: protectedProcedure.mutation(async ({ ctx }) => {
     const taskRepo = AppDataSource.getRepository(ScheduledTask);
     const result = await taskRepo.delete({
-      userId: 1,
+      userId: ctx.admin.userId,
       status: Not(TaskStatus.PENDING),
     });
     return {
@@ -1,65 +1,83 @@
 import { z } from "zod";
-import { t, protectedProcedure, wrapPlatformCall } from "../shared";
+import { t, protectedProcedure, writeProcedure, publishProcedure, wrapPlatformCall, requireArticleAccess, requireApproved, requireLintPassed } from "../shared";
 import { articleSyncService } from "../../services/articleSync";
 import { syncConflictDetector } from "../../services/syncConflictDetector";
+import { auditLogService } from "../../services/auditLog";
+import { articleReviewService } from "../../services/articleReview";
+import { articleCommentService } from "../../services/articleComments";
 
 // 同步相关路由 - 使用 API 直接调用
 export const syncRouter = t.router({
   // 同步文章到腾讯云草稿箱
-  syncToDraft: protectedProcedure
+  syncToDraft: publishProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
-      return wrapPlatformCall(() => articleSyncService.syncToDraft(input.id));
+    .mutation(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.id, "edit");
+      return wrapPlatformCall(() => articleSyncService.syncToDraft(input.id, ctx.admin.userId));
     }),
 
   // 使用 API 发布文章
-  publishViaApi: protectedProcedure
+  publishViaApi: publishProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
-      return wrapPlatformCall(() => articleSyncService.publishArticle(input.id));
+    .mutation(async ({ ctx, input }) => {
+      const { article } = await requireArticleAccess(ctx, input.id, "edit");
+      requireApproved(article);
+      await requireLintPassed(input.id, "tencent");
+      const result = await wrapPlatformCall(() =>
+        articleSyncService.publishArticle(input.id, ctx.admin.userId)
+      );
+      if (result.success) {
+        await auditLogService.recordArticle(ctx.admin, "article.publish", article, {
+          detail: { platform: "tencent" },
+        });
+      }
+      return result;
     }),
 
   // 删除腾讯云草稿
-  deleteDraft: protectedProcedure
+  deleteDraft: publishProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
-      return wrapPlatformCall(() => articleSyncService.deleteDraft(input.id));
+    .mutation(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.id, "edit");
+      return wrapPlatformCall(() => articleSyncService.deleteDraft(input.id, ctx.admin.userId));
     }),
 
   // 搜索标签
   searchTags: protectedProcedure
     .input(z.object({ keyword: z.string() }))
-    .query(async ({ input }) => {
-      return wrapPlatformCall(() => articleSyncService.searchTags(input.keyword));
+    .query(async ({ ctx, input }) => {
+      return wrapPlatformCall(() => articleSyncService.searchTags(input.keyword, ctx.admin.userId));
     }),
 
   // 设置文章标签
-  setTags: protectedProcedure
+  setTags: writeProcedure
     .input(
       z.object({
         id: z.number(),
         tagIds: z.array(z.number()),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.id, "edit");
       return wrapPlatformCall(() => articleSyncService.setArticleTags(input.id, input.tagIds));
     }),
 
   // 设置文章来源类型
-  setSourceType: protectedProcedure
+  setSourceType: writeProcedure
     .input(
       z.object({
         id: z.number(),
         sourceType: z.number().min(1).max(3),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.id, "edit");
       return wrapPlatformCall(() => articleSyncService.setSourceType(input.id, input.sourceType));
     }),
 
   // 获取腾讯云草稿列表
-  fetchTencentDrafts: protectedProcedure.query(async () => {
-    return wrapPlatformCall(() => articleSyncService.fetchTencentDrafts());
+  fetchTencentDrafts: protectedProcedure.query(async ({ ctx }) => {
+    return wrapPlatformCall(() => articleSyncService.fetchTencentDrafts(ctx.admin.userId));
   }),
 
   // 获取腾讯云文章列表
@@ -71,13 +89,13 @@ export const syncRouter = t.router({
         status: z.number().optional(),
       })
     )
-    .query(async ({ input }) => {
-      return wrapPlatformCall(() => articleSyncService.fetchTencentArticles(input));
+    .query(async ({ ctx, input }) => {
+      return wrapPlatformCall(() => articleSyncService.fetchTencentArticles(input, ctx.admin.userId));
     }),
 
   // 检查 API 登录状态
-  checkApiLoginStatus: protectedProcedure.query(async () => {
-    const isLoggedIn = await articleSyncService.checkLoginStatus();
+  checkApiLoginStatus: protectedProcedure.query(async ({ ctx }) => {
+    const isLoggedIn = await articleSyncService.checkLoginStatus(ctx.admin.userId);
     return { isLoggedIn };
   }),
 
@@ -91,42 +109,57 @@ export const syncRouter = t.router({
         pageSize: z.number().optional(),
       })
     )
-    .query(async ({ input }) => {
-      return wrapPlatformCall(() => articleSyncService.fetchCreatorArticles(input));
+    .query(async ({ ctx, input }) => {
+      return wrapPlatformCall(() => articleSyncService.fetchCreatorArticles(input, ctx.admin.userId));
     }),
 
   // 获取文章状态统计
-  fetchArticleStatusCount: protectedProcedure.query(async () => {
-    return wrapPlatformCall(() => articleSyncService.fetchArticleStatusCount());
+  fetchArticleStatusCount: protectedProcedure.query(async ({ ctx }) => {
+    return wrapPlatformCall(() => articleSyncService.fetchArticleStatusCount(ctx.admin.userId));
   }),
 
   // 同步并匹配本地文章与腾讯云文章状态
-  syncArticleStatus: protectedProcedure.mutation(async () => {
-    return wrapPlatformCall(() => articleSyncService.syncArticleStatus());
+  syncArticleStatus: protectedProcedure.mutation(async ({ ctx }) => {
+    return wrapPlatformCall(() => articleSyncService.syncArticleStatus(ctx.admin.userId));
   }),
 
   // 获取审核失败的文章列表（包含失败原因）
-  fetchRejectedArticles: protectedProcedure.query(async () => {
-    return wrapPlatformCall(() => articleSyncService.fetchRejectedArticles());
+  fetchRejectedArticles: protectedProcedure.query(async ({ ctx }) => {
+    return wrapPlatformCall(() => articleSyncService.fetchRejectedArticles(ctx.admin.userId));
   }),
 
   // ========== 本地缓存冲突检测相关 ==========
 
   checkConflict: protectedProcedure
     .input(z.object({ articleId: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.articleId);
       return syncConflictDetector.checkConflict(input.articleId);
     }),
 
-  resolveConflict: protectedProcedure
+  resolveConflict: writeProcedure
     .input(
       z.object({
         articleId: z.number(),
-        resolution: z.enum(["local", "remote"]),
+        resolution: z.enum(["local", "remote", "merged"]),
+        content: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      return syncConflictDetector.resolveConflict(input);
+    .mutation(async ({ ctx, input }) => {
+      const { article: existing } = await requireArticleAccess(ctx, input.articleId, "edit");
+      const result = await syncConflictDetector.resolveConflict(input);
+      await articleReviewService.handleContentChange(ctx.admin, input.articleId);
+      await articleCommentService.remapAnchors(input.articleId, existing.content);
+      return result;
+    }),
+
+  // 三方合并预览：自动合并互不重叠的修改，返回需要人工选择的冲突
+  // 本地内容可能较长，使用 mutation 通过请求体传递
+  prepareMerge: protectedProcedure
+    .input(z.object({ articleId: z.number(), localContent: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.articleId, "edit");
+      return syncConflictDetector.prepareMerge(input.articleId, input.localContent);
     }),
 
   updateSyncStatus: protectedProcedure
@@ -137,7 +170,8 @@ export const syncRouter = t.router({
         error: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.articleId, "edit");
       await syncConflictDetector.updateSyncStatus(
         input.articleId,
         input.status,
@@ -153,7 +187,55 @@ export const syncRouter = t.router({
         limit: z.number().optional(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.articleId);
       return syncConflictDetector.getVersionHistory(input.articleId, input.limit);
     }),
+
+  // 获取历史版本（含正文）
+  getVersion: protectedProcedure
+    .input(z.object({ versionId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const version = await syncConflictDetector.getVersion(input.versionId);
+      await requireArticleAccess(ctx, version.articleId);
+      return version;
+    }),
+
+  // 恢复到指定历史版本
+  restoreVersion: writeProcedure
+    .input(z.object({ versionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const version = await syncConflictDetector.getVersion(input.versionId);
+      const { article: existing } = await requireArticleAccess(ctx, version.articleId, "edit");
+      const article = await syncConflictDetector.restoreVersion(input.versionId);
+      await auditLogService.recordArticle(ctx.admin, "article.restore", article, {
+        detail: { versionId: version.id, version: version.version, label: version.label },
+      });
+      await articleReviewService.handleContentChange(ctx.admin, article.id);
+      await articleCommentService.remapAnchors(article.id, existing.content);
+      return article;
+    }),
+
+  // 将当前内容保存为命名快照
+  createSnapshot: writeProcedure
+    .input(z.object({ articleId: z.number(), label: z.string().trim().min(1).max(50) }))
+    .mutation(async ({ ctx, input }) => {
+      await requireArticleAccess(ctx, input.articleId, "edit");
+      return syncConflictDetector.createSnapshot(input.articleId, input.label);
+    }),
+
+  // 固定或取消固定历史版本
+  setVersionPinned: writeProcedure
+    .input(
+      z.object({
+        versionId: z.number(),
+        pinned: z.boolean(),
+        label: z.string().trim().max(50).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const version = await syncConflictDetector.getVersion(input.versionId);
+      await requireArticleAccess(ctx, version.articleId, "edit");
+      return syncConflictDetector.setVersionPinned(input.versionId, input.pinned, input.label);
+    }),
 });
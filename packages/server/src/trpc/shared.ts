@@ -2,6 +2,13 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import { validateSession } from "../services/adminAuth";
 import { AdminRole } from "../entities/AdminUser";
 import { PlatformNotLoggedInError } from "../services/articleSync";
+import { AppDataSource } from "../db";
+import { Article } from "../entities/Article";
+import { Folder } from "../entities/Folder";
+import { workspaceService, hasAccess, type AccessLevel } from "../services/workspace";
+import { Permission, PERMISSION_LABELS, roleHasPermission } from "../services/permissions";
+import { articleReviewService } from "../services/articleReview";
+import { publishLintService } from "../services/publishLint";
 
 // 创建带有上下文的 tRPC
 export interface Context {
@@ -13,6 +20,8 @@ export interface AuthedContext extends Context {
     adminId: number;
     username: string;
     role: AdminRole;
+    // 当前管理员对应的工作区用户
+    userId: number;
   };
 }
 
@@ -79,6 +88,26 @@ const isSuperAdmin = t.middleware(async ({ ctx, next }) => {
 export const protectedProcedure = t.procedure.use(isAuthed);
 export const superAdminProcedure = t.procedure.use(isSuperAdmin);
 
+/**
+ * 需要指定权限的 procedure（权限矩阵见 services/permissions.ts）
+ */
+export function permissionProcedure(permission: Permission) {
+  return protectedProcedure.use(({ ctx, next }) => {
+    if (!roleHasPermission(ctx.admin.role, permission)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `当前角色没有${PERMISSION_LABELS[permission]}的权限`,
+      });
+    }
+    return next({ ctx });
+  });
+}
+
+export const writeProcedure = permissionProcedure(Permission.ARTICLE_WRITE);
+export const reviewProcedure = permissionProcedure(Permission.ARTICLE_REVIEW);
+export const publishProcedure = permissionProcedure(Permission.ARTICLE_PUBLISH);
+export const platformProcedure = permissionProcedure(Permission.PLATFORM_MANAGE);
+
 /**
  * 包装可能抛出平台未登录错误的异步调用
  * 将 PlatformNotLoggedInError 转换为 PRECONDITION_FAILED TRPCError
@@ -96,3 +125,72 @@ export async function wrapPlatformCall<T>(fn: () => Promise<T>): Promise<T> {
     throw error;
   }
 }
+
+const ACCESS_LABELS: Record<AccessLevel, string> = {
+  read: "查看",
+  edit: "编辑",
+  owner: "管理",
+};
+
+/**
+ * 获取当前用户有权访问的文章
+ * 文章不存在或无权查看时返回 NOT_FOUND，权限不足时返回 FORBIDDEN
+ */
+export async function requireArticleAccess(
+  ctx: AuthedContext,
+  articleId: number,
+  required: AccessLevel = "read"
+): Promise<{ article: Article; access: AccessLevel }> {
+  const article = await AppDataSource.getRepository(Article).findOne({ where: { id: articleId } });
+  const access = article
+    ? await workspaceService.getArticleAccessLevel(ctx.admin.userId, article)
+    : null;
+  if (!article || !access) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "文章不存在" });
+  }
+  if (!hasAccess(access, required)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `没有${ACCESS_LABELS[required]}该文章的权限` });
+  }
+  return { article, access };
+}
+
+/**
+ * 获取当前用户有权访问的文件夹
+ */
+export async function requireFolderAccess(
+  ctx: AuthedContext,
+  folderId: number,
+  required: AccessLevel = "read"
+): Promise<{ folder: Folder; access: AccessLevel }> {
+  const folder = await AppDataSource.getRepository(Folder).findOne({ where: { id: folderId } });
+  const access = folder
+    ? await workspaceService.getFolderAccessLevel(ctx.admin.userId, folderId)
+    : null;
+  if (!folder || !access) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "文件夹不存在" });
+  }
+  if (!hasAccess(access, required)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `没有${ACCESS_LABELS[required]}该文件夹的权限` });
+  }
+  return { folder, access };
+}
+
+/**
+ * 文章通过审核后才能发布
+ */
+export function requireApproved(article: Article): void {
+  const reason = articleReviewService.getPublishBlockReason(article);
+  if (reason) {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: reason });
+  }
+}
+
+/**
+ * 发布前检查有错误级问题时不能发布
+ */
+export async function requireLintPassed(articleId: number, platform: string): Promise<void> {
+  const reason = await publishLintService.getPublishBlockReason(articleId, platform);
+  if (reason) {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: reason });
+  }
+}
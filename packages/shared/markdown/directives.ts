@@ -5,6 +5,36 @@
 
 import type { DirectiveDefinition, DirectiveType } from "./types";
 
+// 对齐容器在不支持的平台上只保留内容
+const ALIGNMENT_DOWNGRADE = { style: "unwrap" } as const;
+
+/**
+ * 转义 HTML 文本
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * 创建提示框指令（:::tip、:::warning 等）
+ * 标题可通过 :::tip[自定义标题] 覆盖
+ */
+function createAdmonition(name: string, label: string, emoji: string): DirectiveDefinition {
+  return {
+    name,
+    type: "containerDirective",
+    description: `${label}提示框`,
+    toHtml: (content, attrs) =>
+      `<div class="admonition admonition-${name}">\n<p><strong>${emoji} ${escapeHtml(attrs?.label || label)}</strong></p>\n\n${content}\n\n</div>`,
+    toText: (content, attrs) => `${attrs?.label || label}：${content}`,
+    downgrade: { style: "blockquote", emoji, label },
+  };
+}
+
 /**
  * 所有扩展语法定义
  */
@@ -17,6 +47,7 @@ export const directiveDefinitions: DirectiveDefinition[] = [
     toHtml: (content) => 
       `<div style="text-align: left">${content}</div>`,
     toText: (content) => content,
+    downgrade: ALIGNMENT_DOWNGRADE,
   },
   
   // :::right - 右对齐容器
@@ -27,6 +58,7 @@ export const directiveDefinitions: DirectiveDefinition[] = [
     toHtml: (content) => 
       `<div style="text-align: right">${content}</div>`,
     toText: (content) => content,
+    downgrade: ALIGNMENT_DOWNGRADE,
   },
   
   // :::center - 居中容器
@@ -37,6 +69,7 @@ export const directiveDefinitions: DirectiveDefinition[] = [
     toHtml: (content) => 
       `<div style="text-align: center">${content}</div>`,
     toText: (content) => content,
+    downgrade: ALIGNMENT_DOWNGRADE,
   },
   
   // :::justify - 两端对齐容器
@@ -47,6 +80,54 @@ export const directiveDefinitions: DirectiveDefinition[] = [
     toHtml: (content) => 
       `<div style="text-align: justify">${content}</div>`,
     toText: (content) => content,
+    downgrade: ALIGNMENT_DOWNGRADE,
+  },
+  
+  // :::tip / :::note / :::info / :::warning / :::danger - 提示框
+  createAdmonition("tip", "提示", "💡"),
+  createAdmonition("note", "注意", "📝"),
+  createAdmonition("info", "信息", "ℹ️"),
+  createAdmonition("warning", "警告", "⚠️"),
+  createAdmonition("danger", "危险", "🚫"),
+  
+  // :::details[标题] - 可折叠内容
+  {
+    name: "details",
+    type: "containerDirective",
+    description: "可折叠的详细内容",
+    toHtml: (content, attrs) =>
+      `<details>\n<summary>${escapeHtml(attrs?.label || "详情")}</summary>\n\n${content}\n\n</details>`,
+    toText: (content) => content,
+    downgrade: { style: "section", label: "详情" },
+  },
+  
+  // ::::tabs 包含多个 :::tab[标题] - 选项卡
+  {
+    name: "tabs",
+    type: "containerDirective",
+    description: "选项卡组",
+    toHtml: (content) => `<div class="tabs">\n\n${content}\n\n</div>`,
+    toText: (content) => content,
+    downgrade: { style: "unwrap" },
+  },
+  {
+    name: "tab",
+    type: "containerDirective",
+    description: "选项卡（需放在 tabs 中）",
+    toHtml: (content, attrs) =>
+      `<div class="tab">\n<p><strong>${escapeHtml(attrs?.label || "选项卡")}</strong></p>\n\n${content}\n\n</div>`,
+    toText: (content) => content,
+    downgrade: { style: "section", label: "选项卡" },
+  },
+  
+  // :kbd[Ctrl+C] - 键盘按键
+  {
+    name: "kbd",
+    type: "textDirective",
+    description: "键盘按键",
+    toHtml: (content) => `<kbd>${escapeHtml(content)}</kbd>`,
+    toText: (content) => content,
+    downgrade: { style: "inlineCode" },
   },
 ];
 
@@ -58,15 +139,16 @@ export function getDirectiveByName(name: string): DirectiveDefinition | undefine
 }
 
 /**
- * 按类型获取所有指令
+ * 按名称和类型查找指令定义
+ * 同名但语法类型不符的指令（如把 :::kbd 写成容器）不视为已注册指令
  */
-export function getDirectivesByType(type: DirectiveType): DirectiveDefinition[] {
-  return directiveDefinitions.filter((d) => d.type === type);
+export function findDirective(name: string, type: DirectiveType): DirectiveDefinition | undefined {
+  return directiveDefinitions.find((d) => d.name === name && d.type === type);
 }
 
 /**
- * 获取所有对齐相关的指令名称
+ * 按类型获取所有指令
  */
-export function getAlignmentDirectiveNames(): string[] {
-  return ["left", "right", "center", "justify"];
+export function getDirectivesByType(type: DirectiveType): DirectiveDefinition[] {
+  return directiveDefinitions.filter((d) => d.type === type);
 }
@@ -5,6 +5,18 @@
 
 import type { PlatformSyntaxConfig, TransformStrategy } from "./types";
 
+// 提示框、折叠块、选项卡在各平台都没有原生语法，降级为引用块或加粗标题
+const DOWNGRADED_BLOCKS: Record<string, TransformStrategy> = {
+  tip: "downgrade",
+  note: "downgrade",
+  info: "downgrade",
+  warning: "downgrade",
+  danger: "downgrade",
+  details: "downgrade",
+  tabs: "downgrade",
+  tab: "downgrade",
+};
+
 /**
  * 各平台的语法支持配置
  */
@@ -20,6 +32,9 @@ export const platformConfigs: Record<string, PlatformSyntaxConfig> = {
       right: "keep",
       center: "keep",
       justify: "keep",
+      ...DOWNGRADED_BLOCKS,
+      // 支持 HTML，按键渲染为 <kbd>
+      kbd: "toHtml",
     },
     defaultStrategy: "toHtml",
   },
@@ -35,6 +50,9 @@ export const platformConfigs: Record<string, PlatformSyntaxConfig> = {
       right: "remove",
       center: "remove",
       justify: "remove",
+      ...DOWNGRADED_BLOCKS,
+      // 不支持 HTML，按键降级为行内代码
+      kbd: "downgrade",
     },
     defaultStrategy: "remove",
   },
@@ -50,6 +68,10 @@ export const platformConfigs: Record<string, PlatformSyntaxConfig> = {
       right: "remove",
       center: "remove",
       justify: "remove",
+      ...DOWNGRADED_BLOCKS,
+      // CSDN 支持 <details> 和 <kbd>
+      details: "toHtml",
+      kbd: "toHtml",
     },
     defaultStrategy: "remove",
   },
@@ -17,7 +17,30 @@ export type TransformStrategy =
   | "keep"      // 保留原样（平台原生支持）
   | "toHtml"    // 转换为 HTML
   | "toText"    // 提取纯文本
-  | "remove";   // 完全移除
+  | "downgrade" // 降级为标准 Markdown（如引用块），见 DirectiveDowngrade
+  | "remove";   // 移除指令语法，只保留内容
+
+/**
+ * 降级方式
+ */
+export type DowngradeStyle =
+  | "unwrap"      // 去掉指令，只保留内容
+  | "blockquote"  // 引用块，首行为图标和标题
+  | "section"     // 加粗标题后接内容
+  | "inlineCode"; // 行内代码
+
+/**
+ * 平台不支持某个指令时的降级方式
+ */
+export interface DirectiveDowngrade {
+  style: DowngradeStyle;
+  
+  /** 引用块首行的图标 */
+  emoji?: string;
+  
+  /** 默认标题（指令未写标题时使用，如 :::tip 默认为“提示”） */
+  label?: string;
+}
 
 /**
  * 扩展语法定义
@@ -34,8 +57,8 @@ export interface DirectiveDefinition {
   
   /** 
    * 转换为 HTML 的函数
-   * @param content 指令内的内容（已转为 HTML）
-   * @param attrs 指令属性
+   * @param content 指令内的内容（容器指令为 Markdown，前后带空行以便平台继续按 Markdown 解析）
+   * @param attrs 指令属性，指令标题（如 :::details[标题]）以 label 传入
    * @returns HTML 字符串
    */
   toHtml: (content: string, attrs?: Record<string, string>) => string;
@@ -47,6 +70,9 @@ export interface DirectiveDefinition {
    * @returns 纯文本字符串
    */
   toText: (content: string, attrs?: Record<string, string>) => string;
+  
+  /** 降级方式，未配置时降级等同于移除指令 */
+  downgrade?: DirectiveDowngrade;
 }
 
 /**
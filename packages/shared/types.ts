@@ -23,18 +23,29 @@ export interface Article {
   status: ArticleStatus;
   scheduledAt?: Date | string;
   publishedAt?: Date | string;
-  tencentDraftId?: number;
-  tencentArticleId?: string;
-  tencentArticleUrl?: string;
-  tencentTagIds?: number[];
-  sourceType?: number; // 1-原创, 2-转载, 3-翻译
-  lastSyncedAt?: Date | string;
   errorMessage?: string;
+  publications?: ArticlePublication[]; // 各平台发布记录
   userId: number;
   createdAt: Date | string;
   updatedAt: Date | string;
 }
 
+// 文章在某个平台上的发布记录
+export interface ArticlePublication {
+  id: number;
+  articleId: number;
+  platform: string; // tencent | juejin | csdn
+  remoteId?: string; // 平台文章ID
+  draftId?: string; // 平台草稿ID
+  url?: string;
+  status?: string;
+  config?: Record<string, any>; // 平台发布配置
+  errorMessage?: string;
+  lastSyncedAt?: Date | string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
 // 同步结果
 export interface SyncResult {
   success: boolean;
@@ -111,6 +122,7 @@ export interface ExportMetadata {
   exportedAt: string; // 导出时间 ISO 格式
   encrypted: boolean; // 是否加密
   includeSensitiveData: boolean; // 是否包含敏感数据
+  includeComments?: boolean; // 是否包含文章评论
 }
 
 /**
@@ -143,6 +155,7 @@ export interface ExportedUser {
 export interface ExportedFolder {
   id: number;
   name: string;
+  userId?: number; // 所属用户，旧版导出文件没有该字段
   parentId?: number;
   order: number;
   isExpanded: boolean;
@@ -162,15 +175,18 @@ export interface ExportedArticle {
   status: ArticleStatus;
   scheduledAt?: string;
   publishedAt?: string;
-  // 腾讯云
+  errorMessage?: string;
+  // 各平台发布记录
+  publications?: ExportedPublication[];
+  // 文章评论（仅在导出时选择包含评论才有）
+  comments?: ExportedComment[];
+  // 旧版（1.0.0）导出格式的平台字段，仅用于导入兼容
   tencentDraftId?: number;
   tencentArticleId?: string;
   tencentArticleUrl?: string;
   tencentTagIds?: number[];
-  sourceType: number;
+  sourceType?: number;
   lastSyncedAt?: string;
-  errorMessage?: string;
-  // 掘金
   juejinDraftId?: string;
   juejinArticleId?: string;
   juejinArticleUrl?: string;
@@ -178,7 +194,7 @@ export interface ExportedArticle {
   juejinTagIds?: string[];
   juejinTagNames?: string[];
   juejinBriefContent?: string;
-  juejinIsOriginal: number;
+  juejinIsOriginal?: number;
   juejinStatus?: string;
   juejinLastSyncedAt?: string;
   // 关联
@@ -189,6 +205,39 @@ export interface ExportedArticle {
   updatedAt: string;
 }
 
+/**
+ * 导出的文章发布记录
+ */
+export interface ExportedPublication {
+  platform: string;
+  remoteId?: string;
+  draftId?: string;
+  url?: string;
+  status?: string;
+  config?: Record<string, any>;
+  errorMessage?: string;
+  lastSyncedAt?: string;
+}
+
+/**
+ * 导出的文章评论
+ */
+export interface ExportedComment {
+  id: number;
+  parentId?: number; // 所属讨论串（导出数据中的评论 ID）
+  userId: number;
+  username: string;
+  body: string;
+  quote?: string;
+  anchorStart?: number;
+  anchorEnd?: number;
+  detached: boolean;
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+}
+
 /**
  * 导出的管理员用户数据
  */
@@ -197,6 +246,7 @@ export interface ExportedAdminUser {
   username: string;
   passwordHash?: string; // 敏感数据，可选导出
   role: "super_admin" | "admin";
+  userId?: number; // 对应的工作区用户
   lastLoginAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -248,6 +298,15 @@ export interface ModelParameters {
   presencePenalty?: number;
 }
 
+/**
+ * 模型价格（每百万 tokens）
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cachedInput?: number;
+}
+
 /**
  * 默认模型能力配置
  */
@@ -298,6 +357,7 @@ export interface ExportedAIModel {
   parameters?: ModelParameters;
   capabilities?: ModelCapabilities;
   aiLoopConfig?: AILoopConfig;
+  pricing?: ModelPricing | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -319,6 +379,7 @@ export interface ExportedEmailConfig {
   notifyOnSuccess: boolean;
   notifyOnFailed: boolean;
   notifyOnCookieExpired: boolean;
+  notifyOnReview?: boolean; // 旧版备份中没有该字段
   enabled: boolean;
   createdAt: string;
   updatedAt: string;
@@ -385,6 +446,7 @@ export interface ExportOptions {
   includeEmailConfig: boolean; // 是否包含邮件配置
   includeScheduledTasks: boolean; // 是否包含定时任务
   includeImages: boolean; // 是否包含文章图片
+  includeComments?: boolean; // 是否包含文章评论（默认不包含）
 }
 
 /**
@@ -401,6 +463,7 @@ export interface ImportOptions {
   importEmailConfig: boolean;
   importScheduledTasks: boolean;
   importImages: boolean; // 是否导入图片
+  importComments?: boolean; // 是否导入文章评论（默认不导入）
 }
 
 /**
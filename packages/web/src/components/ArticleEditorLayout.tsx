@@ -14,8 +14,20 @@ import {
   Bot,
   Search,
   MoreHorizontal,
+  Eye,
+  History,
+  ClipboardCheck,
+  MessageSquare,
 } from "lucide-react";
 import { SyncConflictBanner } from "@/components/SyncConflictBanner";
+import { ConflictMergeDialog } from "@/components/ConflictMergeDialog";
+import { VersionHistoryDrawer } from "@/components/VersionHistoryDrawer";
+import {
+  ReviewDrawer,
+  REVIEW_STATUS_LABELS,
+  REVIEW_STATUS_VARIANTS,
+  type ReviewStatus,
+} from "@/components/ReviewDrawer";
 import { useSyncConflict } from "@/hooks/use-sync-conflict";
 import { Drawer } from "antd";
 import { Button } from "@/components/ui/button";
@@ -45,12 +57,17 @@ import { EditorSkeleton } from "@/components/EditorSkeleton";
 import { SettingItem } from "@/components/SettingItem";
 import { countWords, formatWordCountDetail } from "@/utils/wordCount";
 import { AIChatPanel } from "@/components/ai-chat/AIChatPanel";
+import { PlatformPreview } from "@/components/platform-preview";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { trpc } from "@/utils/trpc";
+import { CommentSidebar, type CommentThread } from "@/components/CommentSidebar";
+import { getSelectionAnchor, lineNumberAt, type CommentSelection } from "@/utils/commentAnchor";
 
 // 编辑器宽度设置
 const WIDTH_STORAGE_KEY = "editor-fullwidth-preference";
 const SMALL_FONT_KEY = "editor-small-font-preference";
 const SHOW_TOC_KEY = "editor-show-toc-preference";
+const SIDEBAR_TAB_KEY = "editor-sidebar-tab-preference";
 const AUTO_HEADING_NUMBER_KEY = "editor-auto-heading-number-preference";
 const TOC_WIDTH_KEY = "editor-toc-width-preference";
 const STANDARD_WIDTH = "768px";
@@ -66,6 +83,10 @@ const AI_PANEL_WIDTH_KEY = "editor-ai-panel-width-preference";
 const AI_PANEL_OPEN_KEY = "editor-ai-panel-open-preference";
 const AI_PANEL_DEFAULT_WIDTH = 400;
 
+// 平台预览设置
+const PREVIEW_PLATFORM_KEY = "editor-preview-platform-preference";
+const PREVIEW_PANEL_WIDTH = 560;
+
 export interface ArticleEditorLayoutProps {
   // 文章数据
   title: string;
@@ -100,6 +121,9 @@ export interface ArticleEditorLayoutProps {
 
   // 可选：使用云端版本后重新加载内容的回调
   onContentReload?: () => void;
+
+  // 可选：只读（无编辑权限时只能查看和评论）
+  readOnly?: boolean;
 }
 
 export function ArticleEditorLayout({
@@ -117,6 +141,7 @@ export function ArticleEditorLayout({
   editorKey,
   articleId,
   onContentReload,
+  readOnly = false,
 }: ArticleEditorLayoutProps) {
   const navigate = useNavigate();
   const isMobile = useIsMobile();
@@ -124,11 +149,22 @@ export function ArticleEditorLayout({
   const {
     hasConflict,
     remoteUpdatedAt,
+    remoteSource,
     isResolving,
     dismissConflict,
     useLocalVersion,
     useRemoteVersion,
+    useMergedVersion,
   } = useSyncConflict(articleId);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [commentSelection, setCommentSelection] = useState<CommentSelection | null>(null);
+  const { data: review } = trpc.review.get.useQuery(
+    { articleId: articleId! },
+    { enabled: !!articleId }
+  );
+  const reviewStatus = (review?.status || "none") as ReviewStatus;
 
   const handleUseRemoteVersion = useCallback(async () => {
     const success = await useRemoteVersion();
@@ -136,6 +172,13 @@ export function ArticleEditorLayout({
       onContentReload();
     }
   }, [useRemoteVersion, onContentReload]);
+
+  const handleUseMergedVersion = useCallback(async (mergedContent: string) => {
+    const success = await useMergedVersion(mergedContent);
+    if (success && onContentReload) {
+      onContentReload();
+    }
+  }, [useMergedVersion, onContentReload]);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [mobileTocOpen, setMobileTocOpen] = useState(false);
   const [mobileAIOpen, setMobileAIOpen] = useState(false);
@@ -151,6 +194,15 @@ export function ArticleEditorLayout({
     const saved = localStorage.getItem(SHOW_TOC_KEY);
     return saved === "true";
   });
+  // 右侧边栏当前标签：目录或评论
+  const [sidebarTab, setSidebarTab] = useState<"toc" | "comments">(() => {
+    return localStorage.getItem(SIDEBAR_TAB_KEY) === "comments" ? "comments" : "toc";
+  });
+  const { data: commentThreads = [] } = trpc.comment.list.useQuery(
+    { articleId: articleId! },
+    { enabled: !!articleId }
+  );
+  const openThreadCount = (commentThreads as CommentThread[]).filter((t) => !t.resolved).length;
   const [autoHeadingNumber, setAutoHeadingNumber] = useState(() => {
     const saved = localStorage.getItem(AUTO_HEADING_NUMBER_KEY);
     return saved === "true";
@@ -177,6 +229,11 @@ export function ArticleEditorLayout({
   });
   
   // 搜索框状态
+  // 平台预览：与编辑器并排显示
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [previewPlatform, setPreviewPlatform] = useState(() => {
+    return localStorage.getItem(PREVIEW_PLATFORM_KEY) || "juejin";
+  });
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [initialSearchText, setInitialSearchText] = useState("");
   
@@ -248,6 +305,28 @@ export function ArticleEditorLayout({
     }
   }, [content]);
 
+  // 记录正文中选中的文字，用于在评论侧边栏中发起讨论
+  useEffect(() => {
+    if (!articleId) return;
+    const handleSelectionChange = () => {
+      const container = editorContainerRef.current;
+      const anchor = container ? getSelectionAnchor(container, content) : null;
+      if (anchor) {
+        setCommentSelection(anchor);
+      }
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => document.removeEventListener("selectionchange", handleSelectionChange);
+  }, [articleId, content]);
+
+  // 点击讨论时滚动到被评论的正文位置
+  const handleThreadClick = useCallback((thread: CommentThread) => {
+    milkdownEditorRef.current?.scrollToLine?.(lineNumberAt(content, thread.anchorStart));
+    if (isMobile) {
+      setMobileTocOpen(false);
+    }
+  }, [content, isMobile]);
+
   // 保存偏好到 localStorage
   useEffect(() => {
     localStorage.setItem(WIDTH_STORAGE_KEY, String(isFullWidth));
@@ -261,6 +340,20 @@ export function ArticleEditorLayout({
     localStorage.setItem(SHOW_TOC_KEY, String(showToc));
   }, [showToc]);
 
+  useEffect(() => {
+    localStorage.setItem(SIDEBAR_TAB_KEY, sidebarTab);
+  }, [sidebarTab]);
+
+  // 打开评论侧边栏
+  const openComments = useCallback(() => {
+    setSidebarTab("comments");
+    if (isMobile) {
+      setMobileTocOpen(true);
+    } else {
+      setShowToc(true);
+    }
+  }, [isMobile]);
+
   useEffect(() => {
     localStorage.setItem(AUTO_HEADING_NUMBER_KEY, String(autoHeadingNumber));
   }, [autoHeadingNumber]);
@@ -277,6 +370,10 @@ export function ArticleEditorLayout({
   useEffect(() => {
     localStorage.setItem(AI_PANEL_WIDTH_KEY, String(aiPanelWidth));
   }, [aiPanelWidth]);
+
+  useEffect(() => {
+    localStorage.setItem(PREVIEW_PLATFORM_KEY, previewPlatform);
+  }, [previewPlatform]);
   
   // Ctrl+F 搜索快捷键
   useEffect(() => {
@@ -374,6 +471,13 @@ export function ArticleEditorLayout({
   }, [onContentChange, handleEditorRefresh]);
   
   // AI 工具上下文
+  // 提示词变量 {{platform}} 使用当前预览平台的名称
+  const { data: publishers = [] } = trpc.publisher.list.useQuery(undefined, {
+    staleTime: 60 * 1000,
+  });
+  const previewPlatformName = (publishers as Array<{ platform: string; name: string }>)
+    .find((publisher) => publisher.platform === previewPlatform)?.name;
+
   const toolContext = useMemo(() => ({
     title,
     content,
@@ -382,7 +486,9 @@ export function ArticleEditorLayout({
     onContentChange,
     onEditorRefresh: handleEditorRefresh,
     setEditorContent,  // 新增：直接设置编辑器内容
-  }), [title, content, articleId, onTitleChange, onContentChange, handleEditorRefresh, setEditorContent]);
+    selection: commentSelection?.quote,
+    platform: previewPlatformName,
+  }), [title, content, articleId, onTitleChange, onContentChange, handleEditorRefresh, setEditorContent, commentSelection?.quote, previewPlatformName]);
 
   // AI 面板文章上下文 - 避免每次渲染创建新对象
   const articleContext = useMemo(() => 
@@ -442,8 +548,56 @@ export function ArticleEditorLayout({
     let width = 0;
     if (showToc) width += tocWidth;
     if (isAIPanelOpen) width += aiPanelWidth;
+    if (isPreviewOpen && !isMobile) width += PREVIEW_PANEL_WIDTH;
     return width;
-  }, [showToc, tocWidth, isAIPanelOpen, aiPanelWidth]);
+  }, [showToc, tocWidth, isAIPanelOpen, aiPanelWidth, isPreviewOpen, isMobile]);
+
+  // 右侧边栏标签切换（没有文章 ID 时只有目录）
+  const sidebarTabs = (
+    <div className="flex items-center gap-1 min-w-0">
+      {[
+        { key: "toc" as const, icon: <List className="h-4 w-4 shrink-0" />, label: "目录" },
+        ...(articleId
+          ? [{
+              key: "comments" as const,
+              icon: <MessageSquare className="h-4 w-4 shrink-0" />,
+              label: openThreadCount > 0 ? `评论 ${openThreadCount}` : "评论",
+            }]
+          : []),
+      ].map((tab) => (
+        <button
+          key={tab.key}
+          className={`flex items-center gap-1.5 px-1.5 py-0.5 rounded text-sm font-medium transition-colors ${
+            sidebarTab === tab.key || !articleId
+              ? "text-foreground"
+              : "text-muted-foreground hover:text-foreground"
+          }`}
+          onClick={() => setSidebarTab(tab.key)}
+        >
+          {tab.icon}
+          <span className="truncate">{tab.label}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  // 右侧边栏内容
+  const renderSidebarContent = (onHeadingSelect: (heading: HeadingItem) => void) =>
+    articleId && sidebarTab === "comments" ? (
+      <CommentSidebar
+        articleId={articleId}
+        selection={commentSelection}
+        onSelectionUsed={() => setCommentSelection(null)}
+        onThreadClick={handleThreadClick}
+        className="flex-1"
+      />
+    ) : (
+      <TableOfContents
+        content={content}
+        className="flex-1 overflow-hidden"
+        onHeadingClick={onHeadingSelect}
+      />
+    );
 
   return (
     <div className="flex flex-col h-full bg-background relative">
@@ -470,6 +624,15 @@ export function ArticleEditorLayout({
               已发布
             </Badge>
           )}
+          {reviewStatus !== "none" && !isMobile && (
+            <Badge
+              variant={REVIEW_STATUS_VARIANTS[reviewStatus]}
+              className="ml-1 shrink-0 cursor-pointer"
+              onClick={() => setReviewOpen(true)}
+            >
+              {REVIEW_STATUS_LABELS[reviewStatus]}
+            </Badge>
+          )}
         </div>
         <div className="flex items-center gap-1 md:gap-2">
           {/* 状态指示器（如保存状态） */}
@@ -491,10 +654,33 @@ export function ArticleEditorLayout({
                   <Search className="h-4 w-4 mr-2" />
                   搜索
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setMobileTocOpen(true)}>
+                <DropdownMenuItem
+                  onClick={() => {
+                    setSidebarTab("toc");
+                    setMobileTocOpen(true);
+                  }}
+                >
                   <List className="h-4 w-4 mr-2" />
                   目录
                 </DropdownMenuItem>
+                {articleId && (
+                  <DropdownMenuItem onClick={() => setHistoryOpen(true)}>
+                    <History className="h-4 w-4 mr-2" />
+                    版本历史
+                  </DropdownMenuItem>
+                )}
+                {articleId && (
+                  <DropdownMenuItem onClick={openComments}>
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    评论
+                  </DropdownMenuItem>
+                )}
+                {articleId && (
+                  <DropdownMenuItem onClick={() => setReviewOpen(true)}>
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    审核
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={() => setMobileAIOpen(true)}>
                   <Bot className="h-4 w-4 mr-2" />
                   AI 助手
@@ -526,6 +712,89 @@ export function ArticleEditorLayout({
                 </Tooltip>
               </TooltipProvider>
 
+              {/* 桌面端：平台预览按钮 */}
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant={isPreviewOpen ? "secondary" : "ghost"}
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setIsPreviewOpen(!isPreviewOpen)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {isPreviewOpen ? "关闭平台预览" : "平台预览"}
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+
+              {/* 桌面端：版本历史按钮 */}
+              {articleId && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant={historyOpen ? "secondary" : "ghost"}
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setHistoryOpen(true)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>版本历史</TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+
+              {/* 桌面端：评论按钮 */}
+              {articleId && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant={showToc && sidebarTab === "comments" ? "secondary" : "ghost"}
+                        size="icon"
+                        className="h-8 w-8 relative"
+                        onClick={() =>
+                          showToc && sidebarTab === "comments" ? setShowToc(false) : openComments()
+                        }
+                      >
+                        <MessageSquare className="h-4 w-4" />
+                        {openThreadCount > 0 && (
+                          <span className="absolute -top-0.5 -right-0.5 min-w-3.5 h-3.5 px-0.5 rounded-full bg-primary text-[9px] leading-3.5 text-primary-foreground">
+                            {openThreadCount}
+                          </span>
+                        )}
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>评论</TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+
+              {/* 桌面端：审核按钮 */}
+              {articleId && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant={reviewOpen ? "secondary" : "ghost"}
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setReviewOpen(!reviewOpen)}
+                      >
+                        <ClipboardCheck className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>审核</TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+
               {/* 桌面端：AI 助手按钮 */}
               <TooltipProvider>
                 <Tooltip>
@@ -563,13 +832,47 @@ export function ArticleEditorLayout({
       {hasConflict && (
         <SyncConflictBanner
           remoteUpdatedAt={remoteUpdatedAt}
+          remoteSource={remoteSource}
           isResolving={isResolving}
           onUseLocal={useLocalVersion}
           onUseRemote={handleUseRemoteVersion}
+          onMerge={() => setMergeDialogOpen(true)}
           onDismiss={dismissConflict}
         />
       )}
+
+      {/* 三方合并弹窗 */}
+      {mergeDialogOpen && articleId && (
+        <ConflictMergeDialog
+          open={mergeDialogOpen}
+          onOpenChange={setMergeDialogOpen}
+          articleId={articleId}
+          localContent={content}
+          onMerged={handleUseMergedVersion}
+        />
+      )}
       
+      {/* 版本历史抽屉 */}
+      {articleId && (
+        <VersionHistoryDrawer
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          articleId={articleId}
+          currentContent={content}
+          onRestored={onContentReload}
+        />
+      )}
+
+      {/* 审核抽屉 */}
+      {articleId && (
+        <ReviewDrawer
+          open={reviewOpen}
+          onOpenChange={setReviewOpen}
+          articleId={articleId}
+          canEdit={!readOnly}
+        />
+      )}
+
       {/* 设置抽屉 - 放在最外层，使用 antd Drawer 避免 Portal 影响编辑器 */}
       <Drawer
         title="页面设置"
@@ -698,6 +1001,7 @@ export function ArticleEditorLayout({
               placeholder="无标题"
               value={title}
               onChange={(e) => onTitleChange(e.target.value)}
+              readOnly={readOnly}
               className={`w-full bg-transparent font-normal py-0 px-0 border-0 outline-none placeholder:text-muted-foreground/40 ${isSmallFont ? 'text-2xl' : ''}`}
               style={{ 
                 fontSize: isSmallFont ? undefined : '30px', 
@@ -765,6 +1069,7 @@ export function ArticleEditorLayout({
                 showLineNumbers={showLineNumbers}
                 initialEditorType={editorMode}
                 onEditorTypeChange={setEditorMode}
+                readonly={readOnly}
               />
             )}
           </div>
@@ -792,24 +1097,32 @@ export function ArticleEditorLayout({
           </TooltipProvider>
         </div>
 
+        {/* 桌面端：平台预览，与编辑器并排 */}
+        {!isMobile && isPreviewOpen && (
+          <div
+            className="border-l shrink-0 overflow-hidden"
+            style={{ width: `${PREVIEW_PANEL_WIDTH}px` }}
+          >
+            <PlatformPreview
+              content={content}
+              platform={previewPlatform}
+              onPlatformChange={setPreviewPlatform}
+              onClose={() => setIsPreviewOpen(false)}
+            />
+          </div>
+        )}
+
         {/* 移动端：目录抽屉 */}
         {isMobile && (
           <Sheet open={mobileTocOpen} onOpenChange={setMobileTocOpen}>
             <SheetContent side="right" className="w-72 p-0">
               <SheetHeader className="border-b px-4 py-3">
-                <SheetTitle className="flex items-center gap-2">
-                  <List className="h-4 w-4" />
-                  目录
-                </SheetTitle>
+                <SheetTitle>{sidebarTabs}</SheetTitle>
               </SheetHeader>
-              <TableOfContents
-                content={content}
-                className="flex-1 overflow-hidden"
-                onHeadingClick={(heading) => {
-                  handleHeadingClick(heading);
-                  setMobileTocOpen(false);
-                }}
-              />
+              {renderSidebarContent((heading) => {
+                handleHeadingClick(heading);
+                setMobileTocOpen(false);
+              })}
             </SheetContent>
           </Sheet>
         )}
@@ -842,12 +1155,9 @@ export function ArticleEditorLayout({
               className={`absolute left-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-primary/20 active:bg-primary/30 transition-colors z-10 ${isDragging ? 'bg-primary/30' : ''}`}
               onMouseDown={handleMouseDown}
             />
-            {/* 目录标题 */}
-            <div className="flex items-center justify-between px-3 py-2 border-b shrink-0">
-              <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground min-w-0">
-                <List className="h-4 w-4 shrink-0" />
-                <span className="truncate">目录</span>
-              </div>
+            {/* 目录 / 评论标签 */}
+            <div className="flex items-center justify-between px-2 py-2 border-b shrink-0">
+              {sidebarTabs}
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -861,17 +1171,13 @@ export function ArticleEditorLayout({
                     </Button>
                   </TooltipTrigger>
                   <TooltipContent side="left">
-                    关闭目录
+                    关闭侧边栏
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
             </div>
-            {/* 目录内容 */}
-            <TableOfContents
-              content={content}
-              className="flex-1 overflow-hidden"
-              onHeadingClick={handleHeadingClick}
-            />
+            {/* 目录 / 评论内容 */}
+            {renderSidebarContent(handleHeadingClick)}
           </div>
         )}
 
@@ -896,7 +1202,7 @@ export function ArticleEditorLayout({
                   variant="ghost"
                   size="icon"
                   className="fixed top-1/3 h-8 w-8 bg-muted/80 backdrop-blur-sm shadow-sm border"
-                  style={{ right: isAIPanelOpen ? aiPanelWidth + 16 : 16 }}
+                  style={{ right: getRightSidebarWidth() + 16 }}
                   onClick={() => setShowToc(true)}
                 >
                   <PanelRight className="h-4 w-4" />
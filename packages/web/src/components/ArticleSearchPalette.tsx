@@ -0,0 +1,196 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "@tanstack/react-router";
+import { FileText, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { NativeSelect } from "@/components/ui/native-select";
+import { StatusBadge } from "@/components/dashboard";
+import { trpc } from "@/utils/trpc";
+import { PLATFORM_NAMES } from "@/utils/publications";
+import { useDebounce } from "@/hooks/use-debounce";
+
+interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+interface SearchResult {
+  id: number;
+  title: string;
+  status: string;
+  tags?: string[];
+  platforms: string[];
+  titleHighlights: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+interface ArticleSearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_OPTIONS = [
+  { value: "", label: "全部状态" },
+  { value: "draft", label: "草稿" },
+  { value: "scheduled", label: "定时发布" },
+  { value: "pending", label: "审核中" },
+  { value: "published", label: "已发布" },
+  { value: "failed", label: "发布失败" },
+];
+
+const PLATFORM_OPTIONS = [
+  { value: "", label: "全部平台" },
+  ...Object.entries(PLATFORM_NAMES).map(([value, label]) => ({ value, label })),
+];
+
+/**
+ * 从输入中提取 #标签 筛选，其余部分作为搜索语句
+ */
+function parseInput(input: string): { query: string; tag?: string } {
+  let tag: string | undefined;
+  const query = input
+    .replace(/(^|\s)#(\S+)/g, (_, space: string, name: string) => {
+      tag = name;
+      return space;
+    })
+    .trim();
+  return { query, tag };
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// 文章全文搜索命令面板
+export function ArticleSearchPalette({ open, onOpenChange }: ArticleSearchPaletteProps) {
+  const navigate = useNavigate();
+  const [input, setInput] = useState("");
+  const [folderId, setFolderId] = useState("");
+  const [status, setStatus] = useState("");
+  const [platform, setPlatform] = useState("");
+
+  const debouncedInput = useDebounce(input, 250);
+  const { query, tag } = parseInput(debouncedInput);
+
+  const { data: tree } = trpc.folder.tree.useQuery(undefined, { enabled: open });
+  const folderOptions = useMemo(
+    () => [
+      { value: "", label: "全部文件夹" },
+      ...((tree?.folders || []) as { id: number; name: string }[]).map((folder) => ({
+        value: String(folder.id),
+        label: folder.name,
+      })),
+    ],
+    [tree]
+  );
+
+  const { data, isFetching } = trpc.article.search.useQuery(
+    {
+      query,
+      tag,
+      folderId: folderId ? Number(folderId) : undefined,
+      status: (status || undefined) as any,
+      platform: platform || undefined,
+    },
+    { enabled: open && query.length > 0, keepPreviousData: true }
+  );
+  const results: SearchResult[] = query ? data?.items || [] : [];
+
+  const handleSelect = (articleId: number) => {
+    onOpenChange(false);
+    navigate({ to: "/articles/$id/edit", params: { id: String(articleId) } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-2xl" showCloseButton={false}>
+        <DialogTitle className="sr-only">搜索文章</DialogTitle>
+        <DialogDescription className="sr-only">按标题和正文搜索文章</DialogDescription>
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder='搜索标题和正文，"短语" 精确匹配，#标签 筛选'
+          />
+          <div className="flex gap-2 border-b px-3 py-2">
+            <div className="flex-1">
+              <NativeSelect options={folderOptions} value={folderId} onChange={setFolderId} />
+            </div>
+            <div className="flex-1">
+              <NativeSelect options={STATUS_OPTIONS} value={status} onChange={setStatus} />
+            </div>
+            <div className="flex-1">
+              <NativeSelect options={PLATFORM_OPTIONS} value={platform} onChange={setPlatform} />
+            </div>
+          </div>
+          <CommandList className="max-h-[400px]">
+            {query && !isFetching && (
+              <CommandEmpty>没有找到匹配的文章</CommandEmpty>
+            )}
+            {isFetching && results.length === 0 && (
+              <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                搜索中...
+              </div>
+            )}
+            {results.map((item) => (
+              <CommandItem
+                key={item.id}
+                value={String(item.id)}
+                onSelect={() => handleSelect(item.id)}
+                className="flex flex-col items-start gap-1"
+              >
+                <div className="flex w-full items-center gap-2">
+                  <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="flex-1 truncate font-medium">
+                    <Highlighted segments={item.titleHighlights} />
+                  </span>
+                  <StatusBadge status={item.status} />
+                </div>
+                <p className="line-clamp-2 text-xs text-muted-foreground">
+                  <Highlighted segments={item.snippet} />
+                </p>
+                {(item.platforms.length > 0 || (item.tags && item.tags.length > 0)) && (
+                  <div className="flex flex-wrap gap-1 text-[10px] text-muted-foreground">
+                    {item.platforms.map((p) => (
+                      <span key={p} className="rounded bg-muted px-1">
+                        {PLATFORM_NAMES[p] || p}
+                      </span>
+                    ))}
+                    {item.tags?.map((t) => (
+                      <span key={t}>#{t}</span>
+                    ))}
+                  </div>
+                )}
+              </CommandItem>
+            ))}
+          </CommandList>
+          {query && data && (
+            <div className="border-t px-3 py-1.5 text-xs text-muted-foreground">
+              共 {data.total} 篇
+              {data.total > results.length && `，显示前 ${results.length} 篇`}
+            </div>
+          )}
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
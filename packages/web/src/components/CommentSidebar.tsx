@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { message } from "antd";
+import dayjs from "dayjs";
+import { Check, MessageSquarePlus, RotateCcw, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/utils/trpc";
+import type { CommentSelection } from "@/utils/commentAnchor";
+
+// 单条评论
+export interface CommentItem {
+  id: number;
+  username: string;
+  body: string;
+  createdAt: string;
+  mine: boolean;
+}
+
+// 讨论串：锚定在正文片段上的首条评论及其回复
+export interface CommentThread extends CommentItem {
+  quote: string;
+  anchorStart: number;
+  anchorEnd: number;
+  // 原文已从正文中删除
+  detached: boolean;
+  resolved: boolean;
+  resolvedBy?: string | null;
+  replies: CommentItem[];
+}
+
+interface CommentSidebarProps {
+  articleId: number;
+  /** 编辑器中选中的文字，用于新建讨论 */
+  selection: CommentSelection | null;
+  onSelectionUsed: () => void;
+  /** 点击讨论时定位到正文 */
+  onThreadClick: (thread: CommentThread) => void;
+  className?: string;
+}
+
+/**
+ * 评论侧边栏
+ * 对选中的正文发起讨论，回复、解决或重新打开讨论
+ */
+export function CommentSidebar({
+  articleId,
+  selection,
+  onSelectionUsed,
+  onThreadClick,
+  className,
+}: CommentSidebarProps) {
+  const utils = trpc.useContext();
+  const [newBody, setNewBody] = useState("");
+  const [replyingId, setReplyingId] = useState<number | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [showResolved, setShowResolved] = useState(false);
+
+  const { data: threads = [] } = trpc.comment.list.useQuery({ articleId });
+
+  const refresh = () => utils.comment.list.invalidate({ articleId });
+  const handleError = (error: Error) => {
+    message.error(error.message);
+  };
+
+  const createMutation = trpc.comment.create.useMutation({
+    onSuccess: () => {
+      refresh();
+      setNewBody("");
+      onSelectionUsed();
+    },
+    onError: handleError,
+  });
+  const replyMutation = trpc.comment.reply.useMutation({
+    onSuccess: () => {
+      refresh();
+      setReplyBody("");
+      setReplyingId(null);
+    },
+    onError: handleError,
+  });
+  const resolveMutation = trpc.comment.resolve.useMutation({
+    onSuccess: refresh,
+    onError: handleError,
+  });
+  const deleteMutation = trpc.comment.delete.useMutation({
+    onSuccess: refresh,
+    onError: handleError,
+  });
+
+  const allThreads = threads as CommentThread[];
+  const resolvedCount = allThreads.filter((t) => t.resolved).length;
+  const visibleThreads = showResolved ? allThreads : allThreads.filter((t) => !t.resolved);
+
+  const handleCreate = () => {
+    if (!selection || selection.anchorStart < 0 || !newBody.trim()) return;
+    createMutation.mutate({
+      articleId,
+      body: newBody.trim(),
+      quote: selection.quote,
+      anchorStart: selection.anchorStart,
+    });
+  };
+
+  const renderComment = (comment: CommentItem) => (
+    <div key={comment.id} className="group/comment space-y-0.5">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{comment.username}</span>
+        <span className="flex-1">{dayjs(comment.createdAt).format("MM-DD HH:mm")}</span>
+        {comment.mine && (
+          <button
+            className="opacity-0 group-hover/comment:opacity-100 hover:text-destructive"
+            title="删除评论"
+            onClick={(e) => {
+              e.stopPropagation();
+              deleteMutation.mutate({ id: comment.id });
+            }}
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+    </div>
+  );
+
+  return (
+    <div className={cn("h-full flex flex-col overflow-hidden", className)}>
+      {/* 新建讨论 */}
+      <div className="px-3 py-2 border-b shrink-0 space-y-2">
+        {selection ? (
+          <>
+            <blockquote className="border-l-2 pl-2 text-xs text-muted-foreground line-clamp-3">
+              {selection.quote}
+            </blockquote>
+            {selection.anchorStart < 0 ? (
+              <p className="text-xs text-destructive">
+                无法在正文中定位选中的文字，请不要跨越加粗、链接等格式选择
+              </p>
+            ) : (
+              <>
+                <Textarea
+                  placeholder="输入评论"
+                  value={newBody}
+                  onChange={(e) => setNewBody(e.target.value)}
+                  rows={2}
+                  className="text-sm"
+                />
+                <Button
+                  size="sm"
+                  className="w-full h-7"
+                  disabled={!newBody.trim() || createMutation.isLoading}
+                  onClick={handleCreate}
+                >
+                  <MessageSquarePlus className="h-3.5 w-3.5 mr-1.5" />
+                  评论
+                </Button>
+              </>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">在正文中选中文字后发起讨论</p>
+        )}
+        {resolvedCount > 0 && (
+          <label className="flex items-center justify-between text-xs text-muted-foreground">
+            显示已解决（{resolvedCount}）
+            <Switch checked={showResolved} onCheckedChange={setShowResolved} />
+          </label>
+        )}
+      </div>
+
+      {/* 讨论列表 */}
+      <div className="flex-1 overflow-y-auto">
+        {visibleThreads.length === 0 ? (
+          <div className="text-sm text-muted-foreground py-4 px-3">暂无讨论</div>
+        ) : (
+          <div className="divide-y">
+            {visibleThreads.map((thread) => (
+              <div
+                key={thread.id}
+                className={cn(
+                  "px-3 py-2 space-y-2 cursor-pointer hover:bg-accent/30 transition-colors",
+                  thread.resolved && "opacity-60"
+                )}
+                onClick={() => !thread.detached && onThreadClick(thread)}
+              >
+                <div className="flex items-start gap-1.5">
+                  <blockquote className="flex-1 border-l-2 pl-2 text-xs text-muted-foreground line-clamp-2">
+                    {thread.quote}
+                  </blockquote>
+                  {thread.detached && (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0 shrink-0">
+                      原文已删除
+                    </Badge>
+                  )}
+                </div>
+
+                {renderComment(thread)}
+                {thread.replies.length > 0 && (
+                  <div className="pl-2 border-l space-y-2">{thread.replies.map(renderComment)}</div>
+                )}
+
+                {/* 回复 / 解决 */}
+                <div className="space-y-1.5" onClick={(e) => e.stopPropagation()}>
+                  {replyingId === thread.id ? (
+                    <>
+                      <Textarea
+                        placeholder="回复"
+                        value={replyBody}
+                        onChange={(e) => setReplyBody(e.target.value)}
+                        rows={2}
+                        className="text-sm"
+                        autoFocus
+                      />
+                      <div className="flex gap-1.5">
+                        <Button
+                          size="sm"
+                          className="h-6 text-xs flex-1"
+                          disabled={!replyBody.trim() || replyMutation.isLoading}
+                          onClick={() => replyMutation.mutate({ threadId: thread.id, body: replyBody.trim() })}
+                        >
+                          回复
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 text-xs"
+                          onClick={() => setReplyingId(null)}
+                        >
+                          取消
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 text-xs px-2"
+                        onClick={() => {
+                          setReplyingId(thread.id);
+                          setReplyBody("");
+                        }}
+                      >
+                        回复
+                      </Button>
+                      <div className="flex-1" />
+                      {thread.resolved ? (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 text-xs px-2"
+                          title={thread.resolvedBy ? `${thread.resolvedBy} 已解决` : undefined}
+                          onClick={() => resolveMutation.mutate({ threadId: thread.id, resolved: false })}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          重新打开
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 text-xs px-2"
+                          onClick={() => resolveMutation.mutate({ threadId: thread.id, resolved: true })}
+                        >
+                          <Check className="h-3 w-3 mr-1" />
+                          解决
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CommentSidebar;
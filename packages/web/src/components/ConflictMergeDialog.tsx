@@ -0,0 +1,313 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, GitMerge, Check, Pencil } from "lucide-react";
+import { message } from "antd";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  LightDialog,
+  LightDialogHeader,
+  LightDialogTitle,
+  LightDialogDescription,
+  LightDialogFooter,
+} from "@/components/ui/light-dialog";
+import { trpc } from "@/utils/trpc";
+
+/**
+ * 服务端三方合并返回的片段
+ */
+type MergeChunk =
+  | { type: "stable"; lines: string[]; autoMerged?: boolean }
+  | { type: "conflict"; id: number; base: string[]; local: string[]; remote: string[] };
+
+interface MergePreview {
+  chunks: MergeChunk[];
+  conflictCount: number;
+  autoMergedCount: number;
+  hasBase: boolean;
+  baseVersion?: number;
+}
+
+/**
+ * 冲突的处理方式：采用本地、采用云端、两者都保留（本地在前）、手动编辑
+ */
+type ConflictChoice =
+  | { kind: "local" | "remote" | "both" }
+  | { kind: "custom"; text: string };
+
+interface ConflictMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  articleId: number;
+  /** 编辑器中的本地内容 */
+  localContent: string;
+  /** 保存合并结果 */
+  onMerged: (content: string) => Promise<unknown>;
+}
+
+// 未修改的内容较长时只显示首尾几行
+const CONTEXT_LINES = 3;
+
+function resolveChoice(
+  conflict: Extract<MergeChunk, { type: "conflict" }>,
+  choice: ConflictChoice
+): string[] {
+  switch (choice.kind) {
+    case "local":
+      return conflict.local;
+    case "remote":
+      return conflict.remote;
+    case "both":
+      return [...conflict.local, ...conflict.remote];
+    case "custom":
+      return choice.text.split("\n");
+  }
+}
+
+function StableBlock({ lines, autoMerged }: { lines: string[]; autoMerged?: boolean }) {
+  const collapsed = !autoMerged && lines.length > CONTEXT_LINES * 2 + 1;
+  const visible = collapsed
+    ? [...lines.slice(0, CONTEXT_LINES), null, ...lines.slice(-CONTEXT_LINES)]
+    : lines;
+
+  return (
+    <div
+      className={cn(
+        "px-3 py-1",
+        autoMerged && "border-l-2 border-blue-400 bg-blue-50/60 dark:bg-blue-950/30"
+      )}
+    >
+      {autoMerged && <div className="mb-0.5 text-[10px] text-blue-600">已自动合并</div>}
+      {visible.map((line, index) =>
+        line === null ? (
+          <div key={index} className="py-0.5 text-center italic text-muted-foreground">
+            … 省略 {lines.length - CONTEXT_LINES * 2} 行未修改的内容 …
+          </div>
+        ) : (
+          <div key={index} className="whitespace-pre-wrap break-all text-muted-foreground">
+            {line || " "}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function SideColumn({
+  label,
+  lines,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  lines: string[];
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex min-w-0 flex-col rounded border",
+        selected ? "border-primary ring-1 ring-primary" : "border-border"
+      )}
+    >
+      <div className="flex items-center justify-between border-b bg-muted/40 px-2 py-1">
+        <span className="text-xs font-medium">{label}</span>
+        <Button
+          variant={selected ? "default" : "outline"}
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={onSelect}
+        >
+          {selected && <Check className="mr-1 h-3 w-3" />}
+          采用
+        </Button>
+      </div>
+      <div className="flex-1 px-2 py-1">
+        {lines.length === 0 ? (
+          <span className="italic text-muted-foreground">（删除）</span>
+        ) : (
+          lines.map((line, index) => (
+            <div key={index} className="whitespace-pre-wrap break-all">
+              {line || " "}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 三方合并弹窗
+ * 以冲突前双方共同的历史版本为基准，互不重叠的修改已自动合并，双方都修改的区域逐个选择
+ */
+export function ConflictMergeDialog({
+  open,
+  onOpenChange,
+  articleId,
+  localContent,
+  onMerged,
+}: ConflictMergeDialogProps) {
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [choices, setChoices] = useState<Record<number, ConflictChoice>>({});
+  const [saving, setSaving] = useState(false);
+
+  const prepareMutation = trpc.sync.prepareMerge.useMutation({
+    onSuccess: (data: MergePreview) => {
+      setPreview(data);
+      setChoices({});
+    },
+    onError: (error: Error) => {
+      message.error(`合并失败: ${error.message}`);
+      onOpenChange(false);
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      prepareMutation.mutate({ articleId, localContent });
+    }
+    // 只在打开时计算一次，编辑器内容之后的变化不影响本次合并
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, articleId]);
+
+  const resolvedCount = Object.keys(choices).length;
+  const allResolved = !!preview && resolvedCount === preview.conflictCount;
+
+  const mergedContent = useMemo(() => {
+    if (!preview || !allResolved) return null;
+    return preview.chunks
+      .flatMap((chunk) =>
+        chunk.type === "stable" ? chunk.lines : resolveChoice(chunk, choices[chunk.id])
+      )
+      .join("\n");
+  }, [preview, choices, allResolved]);
+
+  const setChoice = (id: number, choice: ConflictChoice) => {
+    setChoices((prev) => ({ ...prev, [id]: choice }));
+  };
+
+  const handleSave = async () => {
+    if (mergedContent === null) return;
+    setSaving(true);
+    try {
+      await onMerged(mergedContent);
+      onOpenChange(false);
+    } catch {
+      // 错误已在 onError 中处理
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <LightDialog open={open} onOpenChange={onOpenChange} className="sm:max-w-[960px]">
+      <LightDialogHeader>
+        <LightDialogTitle>合并本地与云端版本</LightDialogTitle>
+        <LightDialogDescription>
+          {preview
+            ? preview.hasBase
+              ? `已自动合并 ${preview.autoMergedCount} 处修改，${preview.conflictCount} 处冲突需要选择`
+              : `未找到双方共同的历史版本，${preview.conflictCount} 处差异需要逐一选择`
+            : "正在比较本地和云端的修改..."}
+        </LightDialogDescription>
+      </LightDialogHeader>
+
+      <div className="max-h-[65vh] overflow-y-auto rounded-md border font-mono text-xs">
+        {!preview ? (
+          <div className="flex items-center justify-center py-10 text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            正在合并...
+          </div>
+        ) : preview.chunks.length === 0 ? (
+          <div className="py-10 text-center text-muted-foreground">内容为空</div>
+        ) : (
+          preview.chunks.map((chunk, index) => {
+            if (chunk.type === "stable") {
+              return <StableBlock key={index} lines={chunk.lines} autoMerged={chunk.autoMerged} />;
+            }
+
+            const choice = choices[chunk.id];
+            return (
+              <div
+                key={index}
+                className="space-y-2 border-y border-amber-300 bg-amber-50/60 p-2 dark:border-amber-800 dark:bg-amber-950/20"
+              >
+                <div className="flex items-center justify-between text-[11px] text-amber-700 dark:text-amber-300">
+                  <span>冲突 {chunk.id + 1}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      variant={choice?.kind === "both" ? "default" : "outline"}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setChoice(chunk.id, { kind: "both" })}
+                    >
+                      保留两者
+                    </Button>
+                    <Button
+                      variant={choice?.kind === "custom" ? "default" : "outline"}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() =>
+                        setChoice(chunk.id, {
+                          kind: "custom",
+                          text: resolveChoice(chunk, choice ?? { kind: "local" }).join("\n"),
+                        })
+                      }
+                    >
+                      <Pencil className="mr-1 h-3 w-3" />
+                      手动编辑
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <SideColumn
+                    label="本地"
+                    lines={chunk.local}
+                    selected={choice?.kind === "local"}
+                    onSelect={() => setChoice(chunk.id, { kind: "local" })}
+                  />
+                  <SideColumn
+                    label="云端"
+                    lines={chunk.remote}
+                    selected={choice?.kind === "remote"}
+                    onSelect={() => setChoice(chunk.id, { kind: "remote" })}
+                  />
+                </div>
+                {choice?.kind === "custom" && (
+                  <Textarea
+                    value={choice.text}
+                    onChange={(e) => setChoice(chunk.id, { kind: "custom", text: e.target.value })}
+                    className="min-h-[80px] font-mono text-xs"
+                  />
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <LightDialogFooter>
+        {preview && preview.conflictCount > 0 && (
+          <span className="mr-auto self-center text-xs text-muted-foreground">
+            已处理 {resolvedCount} / {preview.conflictCount} 处冲突
+          </span>
+        )}
+        <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+          取消
+        </Button>
+        <Button onClick={handleSave} disabled={!allResolved || saving}>
+          {saving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <GitMerge className="mr-2 h-4 w-4" />
+          )}
+          保存合并结果
+        </Button>
+      </LightDialogFooter>
+    </LightDialog>
+  );
+}
+
+export default ConflictMergeDialog;
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/light-dialog";
 import { NativeSelect } from "@/components/ui/native-select";
 import { trpc } from "@/utils/trpc";
+import PublishMetadataSuggest, { type MetadataSuggestion } from "./PublishMetadataSuggest";
 import CsdnTagSelect from "./CsdnTagSelect";
 import CsdnWechatVerifyDialog from "./CsdnWechatVerifyDialog";
 
@@ -43,6 +44,8 @@ interface CsdnPublishDialogProps {
   csdnType?: string;
   csdnReadType?: string;
   onSuccess?: () => void;
+  // 选用 AI 建议的标题后同步编辑器中的标题
+  onTitleChange?: (title: string) => void;
 }
 
 /**
@@ -60,6 +63,7 @@ export function CsdnPublishDialog({
   csdnType: initialType = "original",
   csdnReadType: initialReadType = "public",
   onSuccess,
+  onTitleChange,
 }: CsdnPublishDialogProps) {
   const [tags, setTags] = useState<string[]>(initialTags);
   const [description, setDescription] = useState(initialDescription);
@@ -198,6 +202,16 @@ export function CsdnPublishDialog({
     }
   };
 
+  // 填入 AI 建议的标签和摘要
+  const handleApplySuggestion = (suggestion: MetadataSuggestion) => {
+    if (suggestion.tags.length > 0) {
+      setTags(suggestion.tags.map((tag) => tag.name));
+    }
+    if (suggestion.summary) {
+      setDescription(suggestion.summary);
+    }
+  };
+
   const isLoading = saveConfigMutation.isLoading || publishMutation.isLoading;
 
   // 摘要字数统计
@@ -225,6 +239,15 @@ export function CsdnPublishDialog({
       </LightDialogHeader>
 
       <div className="space-y-4 py-4">
+        {/* AI 生成发布信息 */}
+        <PublishMetadataSuggest
+          articleId={articleId}
+          platform="csdn"
+          onApply={handleApplySuggestion}
+          onTitleChange={onTitleChange}
+          disabled={isLoading}
+        />
+
         {/* 标签选择 */}
         <div className="space-y-2">
           <Label>
@@ -0,0 +1,373 @@
+import { useState, useEffect, useRef } from "react";
+import { message } from "antd";
+import { Loader2, Calendar, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  LightDialog,
+  LightDialogHeader,
+  LightDialogTitle,
+  LightDialogDescription,
+  LightDialogFooter,
+} from "@/components/ui/light-dialog";
+import { NativeSelect } from "@/components/ui/native-select";
+import { trpc } from "@/utils/trpc";
+import PublishMetadataSuggest, { type MetadataSuggestion } from "./PublishMetadataSuggest";
+import CsdnTagSelect from "./CsdnTagSelect";
+import ScheduleTimeField, {
+  createScheduleTimeValue,
+  toScheduleInput,
+  type ScheduleRule,
+} from "./ScheduleTimeField";
+
+// CSDN 文章类型选项
+const CSDN_TYPE_OPTIONS = [
+  { value: "original", label: "原创" },
+  { value: "repost", label: "转载" },
+  { value: "translated", label: "翻译" },
+];
+
+// CSDN 可见范围选项
+const CSDN_READ_TYPE_OPTIONS = [
+  { value: "public", label: "全部可见" },
+  { value: "private", label: "仅我可见" },
+  { value: "fans", label: "粉丝可见" },
+  { value: "vip", label: "VIP可见" },
+];
+
+type CsdnType = "original" | "repost" | "translated";
+type CsdnReadType = "public" | "private" | "fans" | "vip";
+
+interface CsdnSchedulePublishDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  articleId: number;
+  // 文章信息（用于获取推荐标签）
+  articleTitle?: string;
+  articleContent?: string;
+  // 初始值
+  csdnTags?: string[];
+  csdnDescription?: string;
+  csdnCoverImage?: string;
+  csdnType?: string;
+  csdnReadType?: string;
+  // 已有的定时任务信息
+  existingTask?: {
+    id: number;
+    scheduledAt: string;
+    rule?: ScheduleRule | null;
+    config: {
+      tags: string[];
+      description?: string;
+      coverImage?: string;
+      type: CsdnType;
+      readType: CsdnReadType;
+    };
+  } | null;
+  onSuccess?: () => void;
+  // 选用 AI 建议的标题后同步编辑器中的标题
+  onTitleChange?: (title: string) => void;
+}
+
+/**
+ * CSDN 定时发布配置弹窗
+ */
+export function CsdnSchedulePublishDialog({
+  open,
+  onOpenChange,
+  articleId,
+  articleTitle = "",
+  articleContent = "",
+  csdnTags: initialTags = [],
+  csdnDescription: initialDescription = "",
+  csdnCoverImage: initialCoverImage,
+  csdnType: initialType = "original",
+  csdnReadType: initialReadType = "public",
+  existingTask,
+  onSuccess,
+  onTitleChange,
+}: CsdnSchedulePublishDialogProps) {
+  const [tags, setTags] = useState<string[]>(initialTags);
+  const [description, setDescription] = useState(initialDescription);
+  const [type, setType] = useState<string>(initialType);
+  const [readType, setReadType] = useState<string>(initialReadType);
+  const [scheduleTime, setScheduleTime] = useState(() => createScheduleTimeValue(existingTask));
+
+  const trpcUtils = trpc.useContext();
+
+  // 同步初始值
+  useEffect(() => {
+    if (open) {
+      if (existingTask) {
+        // 编辑模式：使用已有任务的配置
+        setTags(existingTask.config.tags || []);
+        setDescription(existingTask.config.description || "");
+        setType(existingTask.config.type || "original");
+        setReadType(existingTask.config.readType || "public");
+        setScheduleTime(createScheduleTimeValue(existingTask));
+      } else {
+        // 新建模式：使用文章的配置
+        setTags(initialTags || []);
+        setDescription(initialDescription);
+        setType(initialType);
+        setReadType(initialReadType);
+        // 默认设置为1小时后
+        setScheduleTime(createScheduleTimeValue());
+      }
+    }
+  }, [open, existingTask, initialTags, initialDescription, initialType, initialReadType]);
+
+  // 任务变更后刷新相关数据
+  const invalidateQueries = () => {
+    trpcUtils.article.list.invalidate();
+    trpcUtils.article.get.invalidate({ id: articleId });
+    trpcUtils.schedule.getByArticle.invalidate({ articleId, platform: "csdn" });
+    trpcUtils.schedule.listPending.invalidate();
+  };
+
+  // 创建定时任务
+  const createTaskMutation = trpc.schedule.create.useMutation({
+    onSuccess: () => {
+      message.success("定时发布任务创建成功");
+      onOpenChange(false);
+      invalidateQueries();
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      message.error(`创建失败: ${error.message}`);
+    },
+  });
+
+  // 更新定时任务
+  const updateTaskMutation = trpc.schedule.update.useMutation({
+    onSuccess: () => {
+      message.success("定时发布任务已更新");
+      onOpenChange(false);
+      invalidateQueries();
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      message.error(`更新失败: ${error.message}`);
+    },
+  });
+
+  // 取消定时任务
+  const cancelTaskMutation = trpc.schedule.cancel.useMutation({
+    onSuccess: () => {
+      message.success("定时发布任务已取消");
+      onOpenChange(false);
+      invalidateQueries();
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      message.error(`取消失败: ${error.message}`);
+    },
+  });
+
+  const handleSubmit = async () => {
+    // 验证标签
+    if (tags.length === 0) {
+      message.error("请至少选择一个标签");
+      return;
+    }
+
+    if (tags.length > 5) {
+      message.error("最多可以选择5个标签");
+      return;
+    }
+
+    // 验证摘要长度（摘要为选填项）
+    if (description.length > 256) {
+      message.error("摘要不能超过256个字符");
+      return;
+    }
+
+    // 验证时间（指定时间或定时规则）
+    const { error: scheduleError, ...scheduleInput } = toScheduleInput(scheduleTime);
+    if (scheduleError) {
+      message.error(scheduleError);
+      return;
+    }
+
+    const csdnConfig = {
+      tags,
+      description: description || undefined,
+      coverImage: existingTask?.config.coverImage ?? initialCoverImage,
+      type: type as CsdnType,
+      readType: readType as CsdnReadType,
+    };
+
+    if (existingTask) {
+      // 更新模式
+      updateTaskMutation.mutate({
+        taskId: existingTask.id,
+        platform: "csdn" as any,
+        ...scheduleInput,
+        csdnConfig,
+      });
+    } else {
+      // 创建模式
+      createTaskMutation.mutate({
+        articleId,
+        platform: "csdn" as any,
+        ...scheduleInput,
+        csdnConfig,
+      });
+    }
+  };
+
+  const handleCancel = () => {
+    if (existingTask) {
+      cancelTaskMutation.mutate({ taskId: existingTask.id });
+    }
+  };
+
+  // 填入 AI 建议的标签和摘要
+  const handleApplySuggestion = (suggestion: MetadataSuggestion) => {
+    if (suggestion.tags.length > 0) {
+      setTags(suggestion.tags.map((tag) => tag.name));
+    }
+    if (suggestion.summary) {
+      setDescription(suggestion.summary);
+    }
+  };
+
+  const isLoading =
+    createTaskMutation.isLoading ||
+    updateTaskMutation.isLoading ||
+    cancelTaskMutation.isLoading;
+
+  // 用于 antd 组件的容器引用
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // 摘要字数统计
+  const descriptionLength = description.length;
+  const isOverLimit = descriptionLength > 256;
+
+  return (
+    <LightDialog open={open} onOpenChange={onOpenChange} className="sm:max-w-[520px]">
+      <div ref={containerRef}>
+        <LightDialogHeader>
+          <LightDialogTitle>
+            {existingTask ? "编辑定时发布" : "定时发布到 CSDN"}
+          </LightDialogTitle>
+          <LightDialogDescription>
+            设置发布时间和配置，系统将在指定时间自动发布文章到 CSDN
+          </LightDialogDescription>
+        </LightDialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* AI 生成发布信息 */}
+          <PublishMetadataSuggest
+            articleId={articleId}
+            platform="csdn"
+            onApply={handleApplySuggestion}
+            onTitleChange={onTitleChange}
+            disabled={isLoading}
+          />
+
+          {/* 发布时间 */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-1">
+              <Calendar className="h-4 w-4" />
+              发布时间 <span className="text-destructive">*</span>
+            </Label>
+            <ScheduleTimeField
+              value={scheduleTime}
+              onChange={setScheduleTime}
+              articleId={articleId}
+              platform="csdn"
+              taskId={existingTask?.id}
+              getPopupContainer={() => containerRef.current || document.body}
+            />
+          </div>
+
+          {/* 标签选择 */}
+          <div className="space-y-2">
+            <Label>
+              文章标签 <span className="text-destructive">*</span>
+            </Label>
+            <CsdnTagSelect
+              value={tags}
+              onChange={setTags}
+              articleTitle={articleTitle}
+              articleContent={articleContent}
+              maxCount={5}
+              disabled={isLoading}
+            />
+          </div>
+
+          {/* 文章类型 */}
+          <div className="space-y-2">
+            <Label>文章类型</Label>
+            <NativeSelect
+              value={type}
+              onChange={setType}
+              options={CSDN_TYPE_OPTIONS}
+            />
+          </div>
+
+          {/* 可见范围 */}
+          <div className="space-y-2">
+            <Label>可见范围</Label>
+            <NativeSelect
+              value={readType}
+              onChange={setReadType}
+              options={CSDN_READ_TYPE_OPTIONS}
+            />
+          </div>
+
+          {/* 摘要 */}
+          <div className="space-y-2">
+            <Label>文章摘要</Label>
+            <textarea
+              placeholder="请输入文章摘要（选填，最多256字）"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={`flex w-full rounded-md border bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-none ${
+                isOverLimit ? "border-destructive" : "border-input"
+              }`}
+            />
+            <p className={`text-xs ${isOverLimit ? "text-destructive" : "text-muted-foreground"}`}>
+              {descriptionLength}/256 字符
+              {isOverLimit && " - 摘要过长"}
+            </p>
+          </div>
+        </div>
+
+        <LightDialogFooter className="flex-col sm:flex-row gap-2">
+          {existingTask && (
+            <Button
+              variant="destructive"
+              onClick={handleCancel}
+              disabled={isLoading}
+              className="sm:mr-auto"
+            >
+              {cancelTaskMutation.isLoading && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              取消定时
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isLoading}
+          >
+            关闭
+          </Button>
+          <Button onClick={handleSubmit} disabled={isLoading}>
+            {(createTaskMutation.isLoading || updateTaskMutation.isLoading) && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            <Clock className="h-4 w-4 mr-2" />
+            {existingTask ? "更新定时" : "确认定时"}
+          </Button>
+        </LightDialogFooter>
+      </div>
+    </LightDialog>
+  );
+}
+
+export default CsdnSchedulePublishDialog;
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/light-dialog";
 import { NativeSelect } from "@/components/ui/native-select";
 import { trpc } from "@/utils/trpc";
+import PublishMetadataSuggest, { type MetadataSuggestion } from "./PublishMetadataSuggest";
 import JuejinTagSelect from "./JuejinTagSelect";
 
 // 掘金固定分类列表
@@ -42,6 +43,8 @@ interface JuejinPublishDialogProps {
   juejinBriefContent?: string;
   juejinIsOriginal?: number;
   onSuccess?: () => void;
+  // 选用 AI 建议的标题后同步编辑器中的标题
+  onTitleChange?: (title: string) => void;
 }
 
 /**
@@ -58,6 +61,7 @@ export function JuejinPublishDialog({
   juejinBriefContent: initialBriefContent = "",
   juejinIsOriginal: initialIsOriginal = 1,
   onSuccess,
+  onTitleChange,
 }: JuejinPublishDialogProps) {
   const [categoryId, setCategoryId] = useState<string>(initialCategoryId);
   const [tags, setTags] = useState<TagLabelValue[]>([]);
@@ -172,6 +176,20 @@ export function JuejinPublishDialog({
     }
   };
 
+  // 填入 AI 建议的分类、标签和摘要
+  const handleApplySuggestion = (suggestion: MetadataSuggestion) => {
+    const category = suggestion.category;
+    if (category && JUEJIN_CATEGORIES.some((c) => c.category_id === category.id)) {
+      setCategoryId(category.id);
+    }
+    if (suggestion.tags.length > 0) {
+      setTags(suggestion.tags.map((tag) => ({ value: tag.id, label: tag.name })));
+    }
+    if (suggestion.summary) {
+      setBriefContent(suggestion.summary);
+    }
+  };
+
   const isLoading = saveConfigMutation.isLoading || publishMutation.isLoading;
 
   // 摘要字数统计
@@ -200,6 +218,15 @@ export function JuejinPublishDialog({
       </LightDialogHeader>
 
       <div className="space-y-4 py-4">
+        {/* AI 生成发布信息 */}
+        <PublishMetadataSuggest
+          articleId={articleId}
+          platform="juejin"
+          onApply={handleApplySuggestion}
+          onTitleChange={onTitleChange}
+          disabled={isLoading}
+        />
+
         {/* 分类选择 */}
         <div className="space-y-2">
           <Label>
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { message, DatePicker, TimePicker } from "antd";
+import { message } from "antd";
 import { Loader2, Calendar, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -12,8 +12,13 @@ import {
 } from "@/components/ui/light-dialog";
 import { NativeSelect } from "@/components/ui/native-select";
 import { trpc } from "@/utils/trpc";
+import PublishMetadataSuggest, { type MetadataSuggestion } from "./PublishMetadataSuggest";
 import JuejinTagSelect from "./JuejinTagSelect";
-import dayjs from "dayjs";
+import ScheduleTimeField, {
+  createScheduleTimeValue,
+  toScheduleInput,
+  type ScheduleRule,
+} from "./ScheduleTimeField";
 
 // 掘金固定分类列表
 const JUEJIN_CATEGORIES = [
@@ -46,6 +51,7 @@ interface JuejinSchedulePublishDialogProps {
   existingTask?: {
     id: number;
     scheduledAt: string;
+    rule?: ScheduleRule | null;
     config: {
       categoryId: string;
       categoryName?: string;
@@ -56,6 +62,8 @@ interface JuejinSchedulePublishDialogProps {
     };
   } | null;
   onSuccess?: () => void;
+  // 选用 AI 建议的标题后同步编辑器中的标题
+  onTitleChange?: (title: string) => void;
 }
 
 /**
@@ -72,13 +80,13 @@ export function JuejinSchedulePublishDialog({
   juejinIsOriginal: initialIsOriginal = 1,
   existingTask,
   onSuccess,
+  onTitleChange,
 }: JuejinSchedulePublishDialogProps) {
   const [categoryId, setCategoryId] = useState<string>(initialCategoryId);
   const [tags, setTags] = useState<TagLabelValue[]>([]);
   const [briefContent, setBriefContent] = useState(initialBriefContent);
   const [isOriginal, setIsOriginal] = useState<string>(String(initialIsOriginal));
-  const [scheduledDate, setScheduledDate] = useState<dayjs.Dayjs | null>(null);
-  const [scheduledTime, setScheduledTime] = useState<dayjs.Dayjs | null>(null);
+  const [scheduleTime, setScheduleTime] = useState(() => createScheduleTimeValue(existingTask));
 
   const trpcUtils = trpc.useContext();
 
@@ -97,9 +105,7 @@ export function JuejinSchedulePublishDialog({
         setTags(initialTags);
         setBriefContent(existingTask.config.briefContent || "");
         setIsOriginal(String(existingTask.config.isOriginal));
-        const taskTime = dayjs(existingTask.scheduledAt);
-        setScheduledDate(taskTime);
-        setScheduledTime(taskTime);
+        setScheduleTime(createScheduleTimeValue(existingTask));
       } else {
         // 新建模式：使用文章的配置
         setCategoryId(initialCategoryId);
@@ -113,9 +119,7 @@ export function JuejinSchedulePublishDialog({
         setBriefContent(initialBriefContent);
         setIsOriginal(String(initialIsOriginal));
         // 默认设置为1小时后
-        const defaultTime = dayjs().add(1, "hour");
-        setScheduledDate(defaultTime);
-        setScheduledTime(defaultTime);
+        setScheduleTime(createScheduleTimeValue());
       }
     }
   }, [open, existingTask, initialCategoryId, initialTagIds, initialTagNames, initialBriefContent, initialIsOriginal]);
@@ -203,20 +207,10 @@ export function JuejinSchedulePublishDialog({
       return;
     }
 
-    // 验证时间
-    if (!scheduledDate || !scheduledTime) {
-      message.error("请选择发布时间");
-      return;
-    }
-
-    // 合并日期和时间
-    const scheduledAt = scheduledDate
-      .hour(scheduledTime.hour())
-      .minute(scheduledTime.minute())
-      .second(0);
-
-    if (scheduledAt.isBefore(dayjs())) {
-      message.error("发布时间必须在当前时间之后");
+    // 验证时间（指定时间或定时规则）
+    const { error: scheduleError, ...scheduleInput } = toScheduleInput(scheduleTime);
+    if (scheduleError) {
+      message.error(scheduleError);
       return;
     }
 
@@ -237,7 +231,7 @@ export function JuejinSchedulePublishDialog({
       updateTaskMutation.mutate({
         taskId: existingTask.id,
         platform: "juejin" as any,
-        scheduledAt: scheduledAt.toISOString(),
+        ...scheduleInput,
         juejinConfig,
       });
     } else {
@@ -245,7 +239,7 @@ export function JuejinSchedulePublishDialog({
       createTaskMutation.mutate({
         articleId,
         platform: "juejin" as any,
-        scheduledAt: scheduledAt.toISOString(),
+        ...scheduleInput,
         juejinConfig,
       });
     }
@@ -257,6 +251,20 @@ export function JuejinSchedulePublishDialog({
     }
   };
 
+  // 填入 AI 建议的分类、标签和摘要
+  const handleApplySuggestion = (suggestion: MetadataSuggestion) => {
+    const category = suggestion.category;
+    if (category && JUEJIN_CATEGORIES.some((c) => c.category_id === category.id)) {
+      setCategoryId(category.id);
+    }
+    if (suggestion.tags.length > 0) {
+      setTags(suggestion.tags.map((tag) => ({ value: tag.id, label: tag.name })));
+    }
+    if (suggestion.summary) {
+      setBriefContent(suggestion.summary);
+    }
+  };
+
   const isLoading =
     createTaskMutation.isLoading ||
     updateTaskMutation.isLoading ||
@@ -265,11 +273,6 @@ export function JuejinSchedulePublishDialog({
   // 用于 antd 组件的容器引用
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // 禁用过去的日期
-  const disabledDate = (current: dayjs.Dayjs) => {
-    return current && current < dayjs().startOf("day");
-  };
-
   // 摘要字数统计
   const briefContentLength = briefContent.length;
   const isUnderLimit = briefContentLength > 0 && briefContentLength < 50;
@@ -289,33 +292,29 @@ export function JuejinSchedulePublishDialog({
         </LightDialogHeader>
 
         <div className="space-y-4 py-4">
+          {/* AI 生成发布信息 */}
+          <PublishMetadataSuggest
+            articleId={articleId}
+            platform="juejin"
+            onApply={handleApplySuggestion}
+            onTitleChange={onTitleChange}
+            disabled={isLoading}
+          />
+
           {/* 发布时间 */}
           <div className="space-y-2">
             <Label className="flex items-center gap-1">
               <Calendar className="h-4 w-4" />
               发布时间 <span className="text-destructive">*</span>
             </Label>
-            <div className="flex gap-2">
-              <DatePicker
-                value={scheduledDate}
-                onChange={setScheduledDate}
-                disabledDate={disabledDate}
-                placeholder="选择日期"
-                className="flex-1"
-                getPopupContainer={() => containerRef.current || document.body}
-              />
-              <TimePicker
-                value={scheduledTime}
-                onChange={setScheduledTime}
-                format="HH:mm"
-                placeholder="选择时间"
-                className="flex-1"
-                getPopupContainer={() => containerRef.current || document.body}
-              />
-            </div>
-            <p className="text-xs text-muted-foreground">
-              系统将在设定时间自动发布文章
-            </p>
+            <ScheduleTimeField
+              value={scheduleTime}
+              onChange={setScheduleTime}
+              articleId={articleId}
+              platform="juejin"
+              taskId={existingTask?.id}
+              getPopupContainer={() => containerRef.current || document.body}
+            />
           </div>
 
           {/* 分类选择 - 使用原生 Select 提升性能 */}
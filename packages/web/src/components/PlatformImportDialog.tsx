@@ -0,0 +1,347 @@
+import { useState, useEffect } from "react";
+import { message } from "antd";
+import dayjs from "dayjs";
+import { Download, Loader2, CheckCircle, XCircle, Link2, MinusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  LightDialog,
+  LightDialogHeader,
+  LightDialogTitle,
+  LightDialogDescription,
+  LightDialogFooter,
+} from "@/components/ui/light-dialog";
+import { NativeSelect } from "@/components/ui/native-select";
+import { trpc } from "@/utils/trpc";
+
+interface PublisherInfo {
+  platform: string;
+  name: string;
+  capabilities: { import: boolean };
+  isLoggedIn: boolean;
+}
+
+interface ImportCandidate {
+  key: string;
+  title: string;
+  status: string;
+  updatedAt?: string;
+  linkedArticleId?: number;
+  duplicateArticleId?: number;
+}
+
+interface ImportResult {
+  key: string;
+  title?: string;
+  action: "created" | "linked" | "skipped" | "failed";
+  articleId?: number;
+  images?: number;
+  failedImages?: number;
+  message?: string;
+}
+
+// 平台文章状态
+const REMOTE_STATUS_LABELS: Record<string, string> = {
+  published: "已发布",
+  pending: "审核中",
+  draft: "草稿",
+};
+
+// 根目录
+const ROOT_FOLDER = "root";
+
+interface PlatformImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * 平台文章导入弹窗
+ * 选择平台上已有的文章导入到本地文章库，导入后与平台文章关联
+ */
+export function PlatformImportDialog({ open, onOpenChange, onSuccess }: PlatformImportDialogProps) {
+  const [platform, setPlatform] = useState("");
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<ImportCandidate[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [folderId, setFolderId] = useState(ROOT_FOLDER);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  const trpcUtils = trpc.useContext();
+
+  const { data: publishers = [] } = trpc.publisher.list.useQuery(undefined, {
+    staleTime: 60 * 1000,
+    enabled: open,
+  });
+  const importable = (publishers as PublisherInfo[]).filter((p) => p.capabilities.import);
+
+  const { data: tree } = trpc.folder.tree.useQuery(undefined, { enabled: open });
+  const folderOptions = [
+    { value: ROOT_FOLDER, label: "根目录" },
+    ...((tree?.folders || []) as any[])
+      .filter((folder) => folder.access !== "read")
+      .map((folder) => ({ value: String(folder.id), label: folder.name })),
+  ];
+
+  const {
+    data: remotePage,
+    isFetching,
+    error,
+  } = trpc.publisher.remoteArticles.useQuery(
+    { platform, page },
+    { enabled: open && !!platform, retry: false, refetchOnWindowFocus: false }
+  );
+
+  // 打开时默认选择第一个已登录的平台
+  useEffect(() => {
+    if (open && !platform) {
+      const first = importable.find((p) => p.isLoggedIn);
+      if (first) setPlatform(first.platform);
+    }
+  }, [open, publishers]);
+
+  // 关闭后重置
+  useEffect(() => {
+    if (!open) {
+      setResults(null);
+      setSelected([]);
+    }
+  }, [open]);
+
+  // 累积已加载的分页
+  useEffect(() => {
+    if (!remotePage) return;
+    setItems((prev) => {
+      const base = page === 1 ? [] : prev;
+      const keys = new Set(base.map((item) => item.key));
+      return [...base, ...remotePage.items.filter((item: ImportCandidate) => !keys.has(item.key))];
+    });
+  }, [remotePage]);
+
+  const handlePlatformChange = (value: string) => {
+    setPlatform(value);
+    setPage(1);
+    setItems([]);
+    setSelected([]);
+    setResults(null);
+  };
+
+  const importMutation = trpc.publisher.importArticles.useMutation({
+    onSuccess: (data: ImportResult[]) => {
+      setResults(data);
+      setSelected([]);
+      // 重新加载列表以更新已导入标记
+      setPage(1);
+      setItems([]);
+      const imported = data.filter((r) => r.action === "created" || r.action === "linked").length;
+      if (imported > 0) {
+        message.success(`已导入 ${imported} 篇文章`);
+        trpcUtils.folder.tree.invalidate();
+        trpcUtils.article.list.invalidate();
+        trpcUtils.publisher.remoteArticles.invalidate({ platform });
+        onSuccess?.();
+      }
+    },
+    onError: (error: Error) => {
+      message.error(`导入失败: ${error.message}`);
+    },
+  });
+
+  const selectable = items.filter((item) => !item.linkedArticleId);
+
+  const toggleItem = (key: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, key] : prev.filter((k) => k !== key)));
+  };
+
+  const handleImport = () => {
+    if (selected.length === 0) {
+      message.error("请至少选择一篇文章");
+      return;
+    }
+    importMutation.mutate({
+      platform,
+      keys: selected,
+      folderId: folderId === ROOT_FOLDER ? null : Number(folderId),
+    });
+  };
+
+  const renderResult = (result: ImportResult) => {
+    switch (result.action) {
+      case "created":
+        return (
+          <span className="flex items-center gap-1 text-green-600">
+            <CheckCircle className="h-3 w-3" />
+            已导入
+            {!!result.images && `，下载 ${result.images} 张图片`}
+            {!!result.failedImages && `，${result.failedImages} 张图片保留原地址`}
+          </span>
+        );
+      case "linked":
+        return (
+          <span className="flex items-center gap-1 text-green-600">
+            <Link2 className="h-3 w-3" />
+            已关联到本地已有文章
+          </span>
+        );
+      case "skipped":
+        return (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <MinusCircle className="h-3 w-3" />
+            {result.message || "已跳过"}
+          </span>
+        );
+      default:
+        return (
+          <span className="flex items-center gap-1 text-destructive" title={result.message}>
+            <XCircle className="h-3 w-3" />
+            {result.message || "导入失败"}
+          </span>
+        );
+    }
+  };
+
+  return (
+    <LightDialog open={open} onOpenChange={onOpenChange} className="sm:max-w-[560px]">
+      <LightDialogHeader>
+        <LightDialogTitle>从平台导入</LightDialogTitle>
+        <LightDialogDescription>
+          将平台上已有的文章导入本地，图片会下载到本地，之后修改同步时更新平台上的同一篇文章
+        </LightDialogDescription>
+      </LightDialogHeader>
+
+      <div className="space-y-4 py-4">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label>平台</Label>
+            <NativeSelect
+              value={platform}
+              onChange={handlePlatformChange}
+              placeholder="选择平台"
+              options={importable.map((p) => ({
+                value: p.platform,
+                label: p.isLoggedIn ? p.name : `${p.name}（未登录）`,
+                disabled: !p.isLoggedIn,
+              }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>导入到</Label>
+            <NativeSelect value={folderId} onChange={setFolderId} options={folderOptions} />
+          </div>
+        </div>
+
+        {results ? (
+          <div className="space-y-2">
+            <Label>导入结果</Label>
+            <div className="rounded-md border divide-y max-h-[320px] overflow-y-auto">
+              {results.map((result) => (
+                <div key={result.key} className="px-3 py-2 text-sm space-y-0.5">
+                  <p className="truncate">{result.title || result.key}</p>
+                  <div className="text-xs">{renderResult(result)}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>平台文章</Label>
+              {selectable.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() =>
+                    setSelected(
+                      selected.length === selectable.length ? [] : selectable.map((item) => item.key)
+                    )
+                  }
+                >
+                  {selected.length === selectable.length ? "取消全选" : "全选"}
+                </Button>
+              )}
+            </div>
+            <div className="rounded-md border divide-y max-h-[320px] overflow-y-auto">
+              {items.map((item) => (
+                <div key={item.key} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <p className="truncate" title={item.title}>
+                      {item.title || "无标题"}
+                    </p>
+                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <span>{REMOTE_STATUS_LABELS[item.status] || item.status}</span>
+                      {item.updatedAt && <span>{dayjs(item.updatedAt).format("YYYY-MM-DD")}</span>}
+                      {item.linkedArticleId ? (
+                        <Badge variant="secondary" className="text-[10px] px-1 py-0">
+                          已导入
+                        </Badge>
+                      ) : (
+                        item.duplicateArticleId && (
+                          <Badge
+                            variant="outline"
+                            className="text-[10px] px-1 py-0"
+                            title="导入时关联到本地同名文章，不覆盖本地内容"
+                          >
+                            本地有同名文章
+                          </Badge>
+                        )
+                      )}
+                    </div>
+                  </div>
+                  <Switch
+                    checked={selected.includes(item.key)}
+                    onCheckedChange={(checked) => toggleItem(item.key, checked)}
+                    disabled={!!item.linkedArticleId}
+                  />
+                </div>
+              ))}
+              {isFetching && (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+              {!isFetching && error && (
+                <p className="px-3 py-4 text-sm text-destructive">{(error as Error).message}</p>
+              )}
+              {!isFetching && !error && items.length === 0 && (
+                <p className="px-3 py-4 text-sm text-muted-foreground">
+                  {platform ? "平台上没有文章" : "请先登录支持导入的平台"}
+                </p>
+              )}
+            </div>
+            {remotePage?.hasMore && !isFetching && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => setPage(page + 1)}>
+                加载更多
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <LightDialogFooter>
+        <Button
+          variant="outline"
+          onClick={() => (results ? setResults(null) : onOpenChange(false))}
+          disabled={importMutation.isLoading}
+        >
+          {results ? "继续导入" : "关闭"}
+        </Button>
+        {!results && (
+          <Button onClick={handleImport} disabled={importMutation.isLoading || selected.length === 0}>
+            {importMutation.isLoading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            导入{selected.length > 0 && `（${selected.length}）`}
+          </Button>
+        )}
+      </LightDialogFooter>
+    </LightDialog>
+  );
+}
+
+export default PlatformImportDialog;
@@ -0,0 +1,447 @@
+import { useState, useEffect, useRef } from "react";
+import { message, DatePicker, TimePicker } from "antd";
+import {
+  Loader2,
+  Calendar,
+  Send,
+  RotateCw,
+  ExternalLink,
+  CheckCircle,
+  XCircle,
+  Clock,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  LightDialog,
+  LightDialogHeader,
+  LightDialogTitle,
+  LightDialogDescription,
+  LightDialogFooter,
+} from "@/components/ui/light-dialog";
+import { NativeSelect } from "@/components/ui/native-select";
+import { trpc } from "@/utils/trpc";
+import { PLATFORM_NAMES } from "@/utils/publications";
+import dayjs from "dayjs";
+
+interface PublisherInfo {
+  platform: string;
+  name: string;
+  capabilities: { schedule: boolean };
+  isLoggedIn: boolean;
+}
+
+interface CampaignTask {
+  id: number;
+  platform: string;
+  status: string;
+  scheduledAt: string;
+  errorMessage?: string | null;
+  resultUrl?: string | null;
+}
+
+interface Campaign {
+  id: number;
+  mode: string;
+  status: string;
+  scheduledAt: string;
+  createdAt: string;
+  tasks: CampaignTask[];
+}
+
+// 发布方式选项
+const MODE_OPTIONS = [
+  { value: "parallel", label: "同时发布" },
+  { value: "staggered", label: "错峰发布（按间隔依次发布）" },
+];
+
+// 发布时机选项
+const TIMING_OPTIONS = [
+  { value: "now", label: "立即发布" },
+  { value: "scheduled", label: "定时发布" },
+];
+
+// 发布活动状态
+const CAMPAIGN_STATUS_LABELS: Record<string, string> = {
+  pending: "待执行",
+  running: "执行中",
+  success: "全部成功",
+  partial: "部分成功",
+  failed: "全部失败",
+  cancelled: "已取消",
+};
+
+interface PublishCampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  articleId: number;
+  onSuccess?: () => void;
+}
+
+/**
+ * 多平台发布弹窗
+ * 使用各平台已保存的发布配置一次发布到多个平台，并展示该文章的发布记录
+ */
+export function PublishCampaignDialog({
+  open,
+  onOpenChange,
+  articleId,
+  onSuccess,
+}: PublishCampaignDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mode, setMode] = useState("parallel");
+  const [staggerMinutes, setStaggerMinutes] = useState("10");
+  const [timing, setTiming] = useState("now");
+  const [scheduledDate, setScheduledDate] = useState<dayjs.Dayjs | null>(null);
+  const [scheduledTime, setScheduledTime] = useState<dayjs.Dayjs | null>(null);
+
+  const trpcUtils = trpc.useContext();
+
+  const { data: publishers = [] } = trpc.publisher.list.useQuery(undefined, {
+    staleTime: 60 * 1000,
+    enabled: open,
+  });
+  const schedulable = (publishers as PublisherInfo[]).filter((p) => p.capabilities.schedule);
+
+  // 发布记录：有未结束的活动时定时刷新
+  const { data: campaigns = [] } = trpc.campaign.listByArticle.useQuery(
+    { articleId },
+    {
+      enabled: open,
+      refetchInterval: (data: Campaign[] | undefined) =>
+        data?.some((c) => c.status === "pending" || c.status === "running") ? 5000 : false,
+    }
+  );
+
+  // 打开时默认选中已登录的平台
+  useEffect(() => {
+    if (open) {
+      setSelected(schedulable.filter((p) => p.isLoggedIn).map((p) => p.platform));
+      const defaultTime = dayjs().add(1, "hour");
+      setScheduledDate(defaultTime);
+      setScheduledTime(defaultTime);
+    }
+  }, [open, publishers]);
+
+  const invalidateQueries = () => {
+    trpcUtils.campaign.listByArticle.invalidate({ articleId });
+    trpcUtils.article.list.invalidate();
+    trpcUtils.article.get.invalidate({ id: articleId });
+    trpcUtils.article.getMeta.invalidate({ id: articleId });
+    trpcUtils.schedule.listPending.invalidate();
+  };
+
+  const createMutation = trpc.campaign.create.useMutation({
+    onSuccess: () => {
+      message.success(timing === "now" ? "已开始发布到所选平台" : "多平台定时发布已创建");
+      invalidateQueries();
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      message.error(`创建失败: ${error.message}`);
+    },
+  });
+
+  const retryMutation = trpc.campaign.retryTask.useMutation({
+    onSuccess: () => {
+      message.success("已重新提交发布");
+      invalidateQueries();
+    },
+    onError: (error: Error) => {
+      message.error(`重试失败: ${error.message}`);
+    },
+  });
+
+  const cancelMutation = trpc.campaign.cancel.useMutation({
+    onSuccess: () => {
+      message.success("已取消未执行的平台");
+      invalidateQueries();
+    },
+    onError: (error: Error) => {
+      message.error(`取消失败: ${error.message}`);
+    },
+  });
+
+  const openExternal = (url: string) => {
+    // 优先使用 Electron API 在系统默认浏览器中打开
+    if (window.electronAPI?.shell?.openExternal) {
+      window.electronAPI.shell.openExternal(url);
+    } else {
+      window.open(url, "_blank");
+    }
+  };
+
+  const togglePlatform = (platform: string, checked: boolean) => {
+    setSelected((prev) =>
+      checked ? [...prev, platform] : prev.filter((p) => p !== platform)
+    );
+  };
+
+  const handleSubmit = () => {
+    if (selected.length === 0) {
+      message.error("请至少选择一个发布平台");
+      return;
+    }
+
+    const minutes = Number(staggerMinutes);
+    if (mode === "staggered" && (!Number.isInteger(minutes) || minutes < 1)) {
+      message.error("发布间隔至少为1分钟");
+      return;
+    }
+
+    let scheduledAt: string | undefined;
+    if (timing === "scheduled") {
+      if (!scheduledDate || !scheduledTime) {
+        message.error("请选择发布时间");
+        return;
+      }
+      const time = scheduledDate
+        .hour(scheduledTime.hour())
+        .minute(scheduledTime.minute())
+        .second(0);
+      if (time.isBefore(dayjs())) {
+        message.error("发布时间必须在当前时间之后");
+        return;
+      }
+      scheduledAt = time.toISOString();
+    }
+
+    createMutation.mutate({
+      articleId,
+      platforms: selected as any,
+      mode: mode as any,
+      staggerMinutes: mode === "staggered" ? minutes : undefined,
+      scheduledAt,
+    });
+  };
+
+  // 用于 antd 组件的容器引用
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const disabledDate = (current: dayjs.Dayjs) => {
+    return current && current < dayjs().startOf("day");
+  };
+
+  const renderTaskStatus = (task: CampaignTask) => {
+    switch (task.status) {
+      case "pending":
+        return (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {dayjs(task.scheduledAt).format("MM/DD HH:mm")}
+          </span>
+        );
+      case "running":
+        return (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            发布中
+          </span>
+        );
+      case "success":
+        return (
+          <span className="flex items-center gap-1 text-green-600">
+            <CheckCircle className="h-3 w-3" />
+            成功
+          </span>
+        );
+      case "failed":
+        return (
+          <span className="flex items-center gap-1 text-destructive">
+            <XCircle className="h-3 w-3" />
+            失败
+          </span>
+        );
+      default:
+        return <span className="text-muted-foreground">已取消</span>;
+    }
+  };
+
+  return (
+    <LightDialog open={open} onOpenChange={onOpenChange} className="sm:max-w-[560px]">
+      <div ref={containerRef}>
+        <LightDialogHeader>
+          <LightDialogTitle>多平台发布</LightDialogTitle>
+          <LightDialogDescription>
+            使用各平台已保存的发布配置，一次发布到多个平台
+          </LightDialogDescription>
+        </LightDialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* 目标平台 */}
+          <div className="space-y-2">
+            <Label>
+              发布平台 <span className="text-destructive">*</span>
+            </Label>
+            <div className="rounded-md border divide-y">
+              {schedulable.map((publisher) => (
+                <div
+                  key={publisher.platform}
+                  className="flex items-center justify-between px-3 py-2 text-sm"
+                >
+                  <span>
+                    {publisher.name}
+                    {!publisher.isLoggedIn && (
+                      <span className="ml-2 text-xs text-muted-foreground">未登录</span>
+                    )}
+                  </span>
+                  <Switch
+                    checked={selected.includes(publisher.platform)}
+                    onCheckedChange={(checked) => togglePlatform(publisher.platform, checked)}
+                    disabled={!publisher.isLoggedIn}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              各平台的标签、分类、摘要等配置需先在对应平台的发布弹窗中保存
+            </p>
+          </div>
+
+          {/* 发布方式 */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>发布方式</Label>
+              <NativeSelect value={mode} onChange={setMode} options={MODE_OPTIONS} />
+            </div>
+            {mode === "staggered" && (
+              <div className="space-y-2">
+                <Label>发布间隔（分钟）</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={staggerMinutes}
+                  onChange={(e) => setStaggerMinutes(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* 发布时机 */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-1">
+              <Calendar className="h-4 w-4" />
+              发布时间
+            </Label>
+            <NativeSelect value={timing} onChange={setTiming} options={TIMING_OPTIONS} />
+            {timing === "scheduled" && (
+              <div className="flex gap-2">
+                <DatePicker
+                  value={scheduledDate}
+                  onChange={setScheduledDate}
+                  disabledDate={disabledDate}
+                  placeholder="选择日期"
+                  className="flex-1"
+                  getPopupContainer={() => containerRef.current || document.body}
+                />
+                <TimePicker
+                  value={scheduledTime}
+                  onChange={setScheduledTime}
+                  format="HH:mm"
+                  placeholder="选择时间"
+                  className="flex-1"
+                  getPopupContainer={() => containerRef.current || document.body}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* 发布记录 */}
+          {campaigns.length > 0 && (
+            <div className="space-y-2">
+              <Label>发布记录</Label>
+              <div className="max-h-[240px] overflow-y-auto space-y-2">
+                {(campaigns as Campaign[]).map((campaign) => (
+                  <div key={campaign.id} className="rounded-md border p-2 space-y-1 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">
+                        {dayjs(campaign.createdAt).format("YYYY-MM-DD HH:mm")}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">
+                          {CAMPAIGN_STATUS_LABELS[campaign.status] || campaign.status}
+                        </Badge>
+                        {campaign.tasks.some((task) => task.status === "pending") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => cancelMutation.mutate({ campaignId: campaign.id })}
+                            disabled={cancelMutation.isLoading}
+                          >
+                            取消未执行
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {campaign.tasks.map((task) => (
+                      <div key={task.id} className="flex items-center justify-between gap-2">
+                        <span className="w-20 shrink-0">
+                          {PLATFORM_NAMES[task.platform] || task.platform}
+                        </span>
+                        <div className="flex-1 min-w-0 text-xs">
+                          {renderTaskStatus(task)}
+                          {task.status === "failed" && task.errorMessage && (
+                            <p className="truncate text-muted-foreground" title={task.errorMessage}>
+                              {task.errorMessage}
+                            </p>
+                          )}
+                        </div>
+                        {task.status === "success" && task.resultUrl && (
+                          <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => openExternal(task.resultUrl!)}
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                          </Button>
+                        )}
+                        {task.status === "failed" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() =>
+                              retryMutation.mutate({ campaignId: campaign.id, taskId: task.id })
+                            }
+                            disabled={retryMutation.isLoading}
+                          >
+                            <RotateCw className="h-3 w-3 mr-1" />
+                            重试
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <LightDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={createMutation.isLoading}
+          >
+            关闭
+          </Button>
+          <Button onClick={handleSubmit} disabled={createMutation.isLoading}>
+            {createMutation.isLoading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            {timing === "now" ? "开始发布" : "确认定时"}
+          </Button>
+        </LightDialogFooter>
+      </div>
+    </LightDialog>
+  );
+}
+
+export default PublishCampaignDialog;
@@ -0,0 +1,138 @@
+import { Loader2, RotateCw, XCircle, AlertTriangle, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  LightDialog,
+  LightDialogHeader,
+  LightDialogTitle,
+  LightDialogDescription,
+  LightDialogFooter,
+} from "@/components/ui/light-dialog";
+import { trpc } from "@/utils/trpc";
+
+/**
+ * 发布前检查发现的问题
+ */
+export interface PublishLintIssue {
+  severity: "error" | "warning";
+  code: string;
+  message: string;
+  line?: number;
+}
+
+/**
+ * 单个平台的检查结果
+ */
+export interface PlatformLintResult {
+  platform: string;
+  name: string;
+  issues: PublishLintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+interface PublishLintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  articleId: number;
+}
+
+/**
+ * 检查结果摘要，用于发布菜单和弹窗标题
+ */
+export function LintSummary({ result }: { result: PlatformLintResult }) {
+  if (result.errorCount === 0 && result.warningCount === 0) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-green-600">
+        <CheckCircle className="size-3" />
+        检查通过
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center gap-2 text-xs">
+      {result.errorCount > 0 && (
+        <span className="inline-flex items-center gap-1 text-destructive">
+          <XCircle className="size-3" />
+          {result.errorCount} 个错误
+        </span>
+      )}
+      {result.warningCount > 0 && (
+        <span className="inline-flex items-center gap-1 text-amber-600">
+          <AlertTriangle className="size-3" />
+          {result.warningCount} 个警告
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * 发布前检查弹窗
+ * 按平台列出会导致发布失败的错误，以及平台展示与编辑器不一致的警告
+ */
+export function PublishLintDialog({ open, onOpenChange, articleId }: PublishLintDialogProps) {
+  const { data: results = [], isFetching, refetch } = trpc.publisher.lint.useQuery(
+    { articleId },
+    { enabled: open }
+  );
+
+  return (
+    <LightDialog open={open} onOpenChange={onOpenChange} className="sm:max-w-[600px]">
+      <LightDialogHeader>
+        <LightDialogTitle>发布检查</LightDialogTitle>
+        <LightDialogDescription>
+          检查文章在各平台的发布配置和内容兼容性，错误需修正后才能发布
+        </LightDialogDescription>
+      </LightDialogHeader>
+
+      <div className="max-h-[60vh] space-y-4 overflow-y-auto py-4">
+        {isFetching && results.length === 0 && (
+          <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+            <Loader2 className="mr-2 size-4 animate-spin" />
+            正在检查...
+          </div>
+        )}
+
+        {(results as PlatformLintResult[]).map((result) => (
+          <div key={result.platform} className="rounded-md border">
+            <div className="flex items-center justify-between border-b bg-muted/40 px-3 py-2">
+              <span className="text-sm font-medium">{result.name}</span>
+              <LintSummary result={result} />
+            </div>
+            {result.issues.length > 0 && (
+              <ul className="divide-y">
+                {result.issues.map((issue, index) => (
+                  <li key={index} className="flex items-start gap-2 px-3 py-2 text-sm">
+                    {issue.severity === "error" ? (
+                      <XCircle className="mt-0.5 size-4 shrink-0 text-destructive" />
+                    ) : (
+                      <AlertTriangle className="mt-0.5 size-4 shrink-0 text-amber-600" />
+                    )}
+                    <span className="flex-1 break-all">{issue.message}</span>
+                    {issue.line && (
+                      <span className="shrink-0 text-xs text-muted-foreground">第 {issue.line} 行</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <LightDialogFooter>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          {isFetching ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <RotateCw className="mr-2 size-4" />
+          )}
+          重新检查
+        </Button>
+        <Button onClick={() => onOpenChange(false)}>关闭</Button>
+      </LightDialogFooter>
+    </LightDialog>
+  );
+}
+
+export default PublishLintDialog;
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
+import type { LucideIcon } from "lucide-react";
 import { message } from "antd";
 import {
   CloudUpload,
@@ -10,13 +11,21 @@ import {
   Edit,
   Flame,
   Code2,
+  Send,
+  ListChecks,
+  ClipboardCheck,
 } from "lucide-react";
 import { trpc } from "@/utils/trpc";
+import { hasPermission, Permission } from "@/utils/auth";
+import { findPublication, type ArticlePublication } from "@/utils/publications";
 import TencentPublishDialog from "./TencentPublishDialog";
 import SchedulePublishDialog from "./SchedulePublishDialog";
 import JuejinPublishDialog from "./JuejinPublishDialog";
 import JuejinSchedulePublishDialog from "./JuejinSchedulePublishDialog";
 import CsdnPublishDialog from "./CsdnPublishDialog";
+import CsdnSchedulePublishDialog from "./CsdnSchedulePublishDialog";
+import PublishCampaignDialog from "./PublishCampaignDialog";
+import PublishLintDialog, { LintSummary, type PlatformLintResult } from "./PublishLintDialog";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -34,78 +43,92 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 
+/**
+ * 服务端发布平台注册表返回的平台信息
+ */
+interface PublisherInfo {
+  platform: string;
+  name: string;
+  capabilities: {
+    draft: boolean;
+    schedule: boolean;
+    statusSync: boolean;
+  };
+  isLoggedIn: boolean;
+}
+
+/**
+ * 平台子菜单状态
+ */
+interface PlatformMenuState {
+  icon: LucideIcon;
+  status?: string;
+  articleUrl?: string;
+  scheduledAt?: string;
+  onPublish?: () => void;
+  onSchedule?: () => void;
+}
+
 interface PublishMenuProps {
   articleId: number;
   articleStatus: string;
   articleTitle?: string;  // 文章标题（用于 CSDN 推荐标签）
   articleContent?: string;  // 文章内容（用于 CSDN 推荐标签）
-  tencentArticleUrl?: string;
-  tencentTagIds?: number[];
-  sourceType?: number;
+  /** 文章在各平台的发布记录 */
+  publications?: ArticlePublication[];
   summary?: string;
   scheduledAt?: string;  // 定时发布时间
-  // 掘金相关
-  juejinArticleUrl?: string;
-  juejinCategoryId?: string;
-  juejinTagIds?: string[];
-  juejinTagNames?: string[];
-  juejinBriefContent?: string;
-  juejinIsOriginal?: number;
-  juejinStatus?: string;
   juejinScheduledAt?: string;  // 掘金定时发布时间
-  // CSDN 相关
-  csdnArticleUrl?: string;
-  csdnTags?: string[];
-  csdnDescription?: string;
-  csdnType?: string;
-  csdnReadType?: string;
-  csdnStatus?: string;
   onSuccess?: () => void;
+  /** 发布弹窗中选用 AI 建议的标题后回调 */
+  onTitleChange?: (title: string) => void;
   /** 显示模式：button 显示完整按钮，icon 只显示图标 */
   variant?: "button" | "icon";
   /** 是否禁用 */
   disabled?: boolean;
+  /** 不能发布的原因（如尚未通过审核），为空时可以发布 */
+  blockedReason?: string | null;
 }
 
 /**
  * 发布菜单组件
- * 支持多平台发布，当前已实现腾讯云开发者社区
+ * 平台列表来自服务端发布平台注册表，各平台的发布配置弹窗在此按平台挂载
  */
 export function PublishMenu({
   articleId,
   articleStatus,
   articleTitle = "",
   articleContent = "",
-  tencentArticleUrl,
-  tencentTagIds = [],
-  sourceType = 1,
+  publications,
   summary = "",
   scheduledAt,
-  // 掘金相关
-  juejinArticleUrl,
-  juejinCategoryId = "",
-  juejinTagIds = [],
-  juejinTagNames = [],
-  juejinBriefContent = "",
-  juejinIsOriginal = 1,
-  juejinStatus,
   juejinScheduledAt,
-  // CSDN 相关
-  csdnArticleUrl,
-  csdnTags = [],
-  csdnDescription = "",
-  csdnType = "original",
-  csdnReadType = "public",
-  csdnStatus,
   onSuccess,
+  onTitleChange,
   variant = "button",
-  disabled = false,
+  disabled: disabledProp = false,
+  blockedReason,
 }: PublishMenuProps) {
+  // 没有发布权限的角色（如编辑、审核）不能发布
+  const canPublish = hasPermission(Permission.ARTICLE_PUBLISH);
+  const disabled = disabledProp || !canPublish;
   const [publishDialogOpen, setPublishDialogOpen] = useState(false);
   const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
   const [juejinPublishDialogOpen, setJuejinPublishDialogOpen] = useState(false);
   const [juejinScheduleDialogOpen, setJuejinScheduleDialogOpen] = useState(false);
   const [csdnPublishDialogOpen, setCsdnPublishDialogOpen] = useState(false);
+  const [csdnScheduleDialogOpen, setCsdnScheduleDialogOpen] = useState(false);
+  const [campaignDialogOpen, setCampaignDialogOpen] = useState(false);
+  const [lintDialogOpen, setLintDialogOpen] = useState(false);
+  const [menuOpen, setMenuOpen] = useState(false);
+
+  // 各平台的发布记录与发布配置
+  const tencent = findPublication(publications, "tencent");
+  const tencentConfig = tencent?.config || {};
+  const juejin = findPublication(publications, "juejin");
+  const juejinConfig = juejin?.config || {};
+  const csdn = findPublication(publications, "csdn");
+  const csdnConfig = csdn?.config || {};
 
   // 获取文章的腾讯云定时任务
   const { data: existingTask } = trpc.schedule.getByArticle.useQuery(
@@ -116,19 +139,40 @@ export function PublishMenu({
   // 获取文章的掘金定时任务
   const { data: existingJuejinTask } = trpc.schedule.getByArticle.useQuery(
     { articleId, platform: "juejin" as any },
-    { enabled: juejinStatus === "scheduled" }
+    { enabled: juejin?.status === "scheduled" }
+  );
+
+  // 获取文章的 CSDN 定时任务（创建定时任务时文章状态会变为 scheduled）
+  const { data: existingCsdnTask } = trpc.schedule.getByArticle.useQuery(
+    { articleId, platform: "csdn" as any },
+    { enabled: articleStatus === "scheduled" }
+  );
+
+  // 已注册的发布平台（顺序与服务端注册表一致）
+  const { data: publishers = [] } = trpc.publisher.list.useQuery(undefined, {
+    staleTime: 60 * 1000,
+  });
+
+  // 发布前检查，打开菜单时执行
+  const { data: lintResults = [] } = trpc.publisher.lint.useQuery(
+    { articleId },
+    { enabled: menuOpen, staleTime: 10 * 1000 }
+  );
+  const lintByPlatform = new Map<string, PlatformLintResult>(
+    (lintResults as PlatformLintResult[]).map((result) => [result.platform, result])
   );
 
   const trpcUtils = trpc.useContext();
 
-  // 同步草稿
-  const saveDraftMutation = trpc.sync.syncToDraft.useMutation({
+  // 同步草稿（通过发布平台注册表统一调用）
+  const syncDraftMutation = trpc.publisher.syncDraft.useMutation({
     onSuccess: (result: any) => {
       message.destroy("sync-draft");
       if (result.success) {
         message.success(result.message || "草稿已同步到云端");
         trpcUtils.article.list.invalidate();
         trpcUtils.article.get.invalidate({ id: articleId });
+        trpcUtils.article.getMeta.invalidate({ id: articleId });
         onSuccess?.();
       } else {
         message.error(result.message || "同步失败");
@@ -140,61 +184,144 @@ export function PublishMenu({
     },
   });
 
-  const handleSyncDraft = () => {
+  const handleSyncDraft = (platform: string) => {
     message.loading({ content: "正在同步草稿...", key: "sync-draft", duration: 0 });
-    saveDraftMutation.mutate({ id: articleId });
+    syncDraftMutation.mutate({ platform, articleId });
   };
 
-  const handleViewArticle = () => {
-    if (tencentArticleUrl) {
-      // 优先使用 Electron API 在系统默认浏览器中打开
-      if (window.electronAPI?.shell?.openExternal) {
-        window.electronAPI.shell.openExternal(tencentArticleUrl);
-      } else {
-        // 回退到 window.open（Web 环境）
-        window.open(tencentArticleUrl, "_blank");
-      }
+  const openExternal = (url: string) => {
+    // 优先使用 Electron API 在系统默认浏览器中打开
+    if (window.electronAPI?.shell?.openExternal) {
+      window.electronAPI.shell.openExternal(url);
+    } else {
+      // 回退到 window.open（Web 环境）
+      window.open(url, "_blank");
     }
   };
 
-  const handleViewJuejinArticle = () => {
-    if (juejinArticleUrl) {
-      if (window.electronAPI?.shell?.openExternal) {
-        window.electronAPI.shell.openExternal(juejinArticleUrl);
-      } else {
-        window.open(juejinArticleUrl, "_blank");
-      }
-    }
+  // 各平台的菜单状态与发布弹窗入口
+  // 未在此声明的平台只提供通用操作（如同步草稿）
+  const platformMenus: Record<string, PlatformMenuState> = {
+    tencent: {
+      icon: Cloud,
+      status: articleStatus,
+      articleUrl: tencent?.url ?? undefined,
+      scheduledAt,
+      onPublish: () => setPublishDialogOpen(true),
+      onSchedule: () => setScheduleDialogOpen(true),
+    },
+    juejin: {
+      icon: Flame,
+      status: juejin?.status ?? undefined,
+      articleUrl: juejin?.url ?? undefined,
+      scheduledAt: juejinScheduledAt,
+      onPublish: () => setJuejinPublishDialogOpen(true),
+      onSchedule: () => setJuejinScheduleDialogOpen(true),
+    },
+    csdn: {
+      icon: Code2,
+      status: existingCsdnTask ? "scheduled" : csdn?.status ?? undefined,
+      articleUrl: csdn?.url ?? undefined,
+      scheduledAt: existingCsdnTask?.scheduledAt as unknown as string | undefined,
+      onPublish: () => setCsdnPublishDialogOpen(true),
+      onSchedule: () => setCsdnScheduleDialogOpen(true),
+    },
   };
 
-  const handleViewCsdnArticle = () => {
-    if (csdnArticleUrl) {
-      if (window.electronAPI?.shell?.openExternal) {
-        window.electronAPI.shell.openExternal(csdnArticleUrl);
-      } else {
-        window.open(csdnArticleUrl, "_blank");
-      }
-    }
+  // 格式化定时发布时间
+  const formatScheduledTime = (time: string) => {
+    const date = new Date(time);
+    return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, "0")}`;
   };
 
-  // 判断文章状态
-  const isPublished = articleStatus === "published";
-  const isPending = articleStatus === "pending";
-  const isScheduled = articleStatus === "scheduled";
-  const canPublish =
-    articleStatus === "draft" ||
-    articleStatus === "failed";
+  // 渲染单个平台的子菜单
+  const renderPlatformMenu = (publisher: PublisherInfo) => {
+    const menu = platformMenus[publisher.platform];
+    const Icon = menu?.icon ?? CloudUpload;
+    const status = menu?.status;
+
+    const canPublish = !status || status === "draft" || status === "failed";
+    const isScheduled = status === "scheduled";
+    const isPending = status === "pending";
+    const isPublished = status === "published";
+    const canSchedule = publisher.capabilities.schedule && !!menu?.onSchedule;
+    const lint = lintByPlatform.get(publisher.platform);
+
+    return (
+      <DropdownMenuSub>
+        <DropdownMenuSubTrigger>
+          <Icon className="size-4" />
+          {publisher.name}
+        </DropdownMenuSubTrigger>
+        <DropdownMenuSubContent>
+          {lint && (canPublish || isScheduled) && (
+            <>
+              <DropdownMenuItem onClick={() => setLintDialogOpen(true)}>
+                <LintSummary result={lint} />
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
 
-  // 掘金状态判断
-  const canPublishJuejin = !juejinStatus || juejinStatus === "draft" || juejinStatus === "failed";
+          {!publisher.isLoggedIn && (
+            <DropdownMenuItem disabled>
+              <span className="text-muted-foreground">未登录，请先在设置中登录</span>
+            </DropdownMenuItem>
+          )}
 
-  // CSDN 状态判断
-  const canPublishCsdn = !csdnStatus || csdnStatus === "draft" || csdnStatus === "failed";
+          {publisher.isLoggedIn && canPublish && !blockedReason && menu?.onPublish && (
+            <DropdownMenuItem onClick={menu.onPublish}>
+              <CloudUpload className="size-4" />
+              立即发布
+            </DropdownMenuItem>
+          )}
 
-  // 格式化定时发布时间
-  const formatScheduledTime = (time: string) => {
-    const date = new Date(time);
-    return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, "0")}`;
+          {publisher.isLoggedIn && canPublish && !blockedReason && canSchedule && (
+            <DropdownMenuItem onClick={menu.onSchedule}>
+              <Calendar className="size-4" />
+              定时发布
+            </DropdownMenuItem>
+          )}
+
+          {publisher.isLoggedIn && isScheduled && !blockedReason && canSchedule && (
+            <DropdownMenuItem onClick={menu.onSchedule}>
+              <Edit className="size-4" />
+              编辑定时 {menu.scheduledAt ? `(${formatScheduledTime(menu.scheduledAt)})` : ""}
+            </DropdownMenuItem>
+          )}
+
+          {publisher.isLoggedIn && publisher.capabilities.draft && (canPublish || isScheduled) && (
+            <DropdownMenuItem
+              onClick={() => handleSyncDraft(publisher.platform)}
+              disabled={syncDraftMutation.isLoading}
+            >
+              <Cloud className="size-4" />
+              同步草稿
+            </DropdownMenuItem>
+          )}
+
+          {isPending && (
+            <DropdownMenuItem disabled>
+              <Clock className="size-4" />
+              审核中...
+            </DropdownMenuItem>
+          )}
+
+          {(isPublished || isPending) && menu?.articleUrl && (
+            <DropdownMenuItem onClick={() => openExternal(menu.articleUrl!)}>
+              <ExternalLink className="size-4" />
+              查看文章
+            </DropdownMenuItem>
+          )}
+
+          {isPublished && !menu?.articleUrl && (
+            <DropdownMenuItem disabled>
+              <span className="text-muted-foreground">已发布</span>
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuSubContent>
+      </DropdownMenuSub>
+    );
   };
 
   // 渲染触发器按钮
@@ -203,6 +330,7 @@ export function PublishMenu({
       variant={variant === "icon" ? "ghost" : "default"}
       size={variant === "icon" ? "icon-sm" : "default"}
       disabled={disabled}
+      title={canPublish ? undefined : "当前角色没有发布权限"}
     >
       <CloudUpload className="size-4" />
       {variant !== "icon" && (
@@ -217,7 +345,7 @@ export function PublishMenu({
   return (
     <>
       {/* modal={false} 是关键优化：防止 DropdownMenu 阻塞主线程，允许与 Dialog 更好地交互 */}
-      <DropdownMenu modal={false}>
+      <DropdownMenu modal={false} open={menuOpen} onOpenChange={setMenuOpen}>
         <DropdownMenuTrigger asChild disabled={disabled}>
           {variant === "icon" ? (
             <Tooltip>
@@ -231,153 +359,30 @@ export function PublishMenu({
           )}
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end">
-          {/* 腾讯云开发者社区子菜单 */}
-          <DropdownMenuSub>
-            <DropdownMenuSubTrigger>
-              <Cloud className="size-4" />
-              腾讯云开发者社区
-            </DropdownMenuSubTrigger>
-            <DropdownMenuSubContent>
-              {canPublish && (
-                <>
-                  <DropdownMenuItem onClick={() => setPublishDialogOpen(true)}>
-                    <CloudUpload className="size-4" />
-                    立即发布
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setScheduleDialogOpen(true)}>
-                    <Calendar className="size-4" />
-                    定时发布
-                  </DropdownMenuItem>
-                </>
-              )}
-
-              {isScheduled && (
-                <DropdownMenuItem onClick={() => setScheduleDialogOpen(true)}>
-                  <Edit className="size-4" />
-                  编辑定时 {scheduledAt ? `(${formatScheduledTime(scheduledAt)})` : ""}
-                </DropdownMenuItem>
-              )}
-
-              {(canPublish || isScheduled) && (
-                <DropdownMenuItem
-                  onClick={handleSyncDraft}
-                  disabled={saveDraftMutation.isLoading}
-                >
-                  <Cloud className="size-4" />
-                  同步草稿
-                </DropdownMenuItem>
-              )}
-
-              {isPending && (
-                <DropdownMenuItem disabled>
-                  <Clock className="size-4" />
-                  审核中...
-                </DropdownMenuItem>
-              )}
-
-              {(isPublished || isPending) && tencentArticleUrl && (
-                <DropdownMenuItem onClick={handleViewArticle}>
-                  <ExternalLink className="size-4" />
-                  查看文章
-                </DropdownMenuItem>
-              )}
-
-              {isPublished && !tencentArticleUrl && (
-                <DropdownMenuItem disabled>
-                  <span className="text-muted-foreground">已发布</span>
-                </DropdownMenuItem>
-              )}
-            </DropdownMenuSubContent>
-          </DropdownMenuSub>
-
-          <DropdownMenuSeparator />
-
-          {/* 掘金子菜单 */}
-          <DropdownMenuSub>
-            <DropdownMenuSubTrigger>
-              <Flame className="size-4" />
-              掘金
-            </DropdownMenuSubTrigger>
-            <DropdownMenuSubContent>
-              {canPublishJuejin && (
-                <>
-                  <DropdownMenuItem onClick={() => setJuejinPublishDialogOpen(true)}>
-                    <CloudUpload className="size-4" />
-                    立即发布
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setJuejinScheduleDialogOpen(true)}>
-                    <Calendar className="size-4" />
-                    定时发布
-                  </DropdownMenuItem>
-                </>
-              )}
-
-              {juejinStatus === "scheduled" && (
-                <DropdownMenuItem onClick={() => setJuejinScheduleDialogOpen(true)}>
-                  <Edit className="size-4" />
-                  编辑定时 {juejinScheduledAt ? `(${formatScheduledTime(juejinScheduledAt)})` : ""}
-                </DropdownMenuItem>
-              )}
-
-              {juejinStatus === "pending" && (
-                <DropdownMenuItem disabled>
-                  <Clock className="size-4" />
-                  审核中...
-                </DropdownMenuItem>
-              )}
-
-              {juejinStatus === "published" && juejinArticleUrl && (
-                <DropdownMenuItem onClick={handleViewJuejinArticle}>
-                  <ExternalLink className="size-4" />
-                  查看文章
-                </DropdownMenuItem>
-              )}
-
-              {juejinStatus === "published" && !juejinArticleUrl && (
-                <DropdownMenuItem disabled>
-                  <span className="text-muted-foreground">已发布</span>
-                </DropdownMenuItem>
-              )}
-            </DropdownMenuSubContent>
-          </DropdownMenuSub>
-
+          {blockedReason && (
+            <>
+              <DropdownMenuItem disabled>
+                <ClipboardCheck className="size-4" />
+                {blockedReason}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onClick={() => setCampaignDialogOpen(true)} disabled={!!blockedReason}>
+            <Send className="size-4" />
+            多平台发布
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setLintDialogOpen(true)}>
+            <ListChecks className="size-4" />
+            发布检查
+          </DropdownMenuItem>
           <DropdownMenuSeparator />
-
-          {/* CSDN 子菜单 */}
-          <DropdownMenuSub>
-            <DropdownMenuSubTrigger>
-              <Code2 className="size-4" />
-              CSDN
-            </DropdownMenuSubTrigger>
-            <DropdownMenuSubContent>
-              {canPublishCsdn && (
-                <DropdownMenuItem onClick={() => setCsdnPublishDialogOpen(true)}>
-                  <CloudUpload className="size-4" />
-                  立即发布
-                </DropdownMenuItem>
-              )}
-
-              {csdnStatus === "pending" && (
-                <DropdownMenuItem disabled>
-                  <Clock className="size-4" />
-                  审核中...
-                </DropdownMenuItem>
-              )}
-
-              {csdnStatus === "published" && csdnArticleUrl && (
-                <DropdownMenuItem onClick={handleViewCsdnArticle}>
-                  <ExternalLink className="size-4" />
-                  查看文章
-                </DropdownMenuItem>
-              )}
-
-              {csdnStatus === "published" && !csdnArticleUrl && (
-                <DropdownMenuItem disabled>
-                  <span className="text-muted-foreground">已发布</span>
-                </DropdownMenuItem>
-              )}
-            </DropdownMenuSubContent>
-          </DropdownMenuSub>
+          {publishers.map((publisher: PublisherInfo, index: number) => (
+            <Fragment key={publisher.platform}>
+              {index > 0 && <DropdownMenuSeparator />}
+              {renderPlatformMenu(publisher)}
+            </Fragment>
+          ))}
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -387,10 +392,11 @@ export function PublishMenu({
           open={publishDialogOpen}
           onOpenChange={setPublishDialogOpen}
           articleId={articleId}
-          tencentTagIds={tencentTagIds}
-          sourceType={sourceType}
+          tencentTagIds={tencentConfig.tagIds}
+          sourceType={tencentConfig.sourceType}
           summary={summary}
           onSuccess={onSuccess}
+          onTitleChange={onTitleChange}
         />
       )}
 
@@ -400,15 +406,17 @@ export function PublishMenu({
           open={scheduleDialogOpen}
           onOpenChange={setScheduleDialogOpen}
           articleId={articleId}
-          tencentTagIds={tencentTagIds}
-          sourceType={sourceType}
+          tencentTagIds={tencentConfig.tagIds}
+          sourceType={tencentConfig.sourceType}
           summary={summary}
           existingTask={existingTask ? {
             id: existingTask.id,
             scheduledAt: existingTask.scheduledAt as unknown as string,
+            rule: existingTask.rule as any,
             config: existingTask.config as any,
           } : null}
           onSuccess={onSuccess}
+          onTitleChange={onTitleChange}
         />
       )}
 
@@ -418,12 +426,13 @@ export function PublishMenu({
           open={juejinPublishDialogOpen}
           onOpenChange={setJuejinPublishDialogOpen}
           articleId={articleId}
-          juejinCategoryId={juejinCategoryId}
-          juejinTagIds={juejinTagIds}
-          juejinTagNames={juejinTagNames}
-          juejinBriefContent={juejinBriefContent}
-          juejinIsOriginal={juejinIsOriginal}
+          juejinCategoryId={juejinConfig.categoryId}
+          juejinTagIds={juejinConfig.tagIds}
+          juejinTagNames={juejinConfig.tagNames}
+          juejinBriefContent={juejinConfig.briefContent}
+          juejinIsOriginal={juejinConfig.isOriginal}
           onSuccess={onSuccess}
+          onTitleChange={onTitleChange}
         />
       )}
 
@@ -433,17 +442,19 @@ export function PublishMenu({
           open={juejinScheduleDialogOpen}
           onOpenChange={setJuejinScheduleDialogOpen}
           articleId={articleId}
-          juejinCategoryId={juejinCategoryId}
-          juejinTagIds={juejinTagIds}
-          juejinTagNames={juejinTagNames}
-          juejinBriefContent={juejinBriefContent}
-          juejinIsOriginal={juejinIsOriginal}
+          juejinCategoryId={juejinConfig.categoryId}
+          juejinTagIds={juejinConfig.tagIds}
+          juejinTagNames={juejinConfig.tagNames}
+          juejinBriefContent={juejinConfig.briefContent}
+          juejinIsOriginal={juejinConfig.isOriginal}
           existingTask={existingJuejinTask ? {
             id: existingJuejinTask.id,
             scheduledAt: existingJuejinTask.scheduledAt as unknown as string,
+            rule: existingJuejinTask.rule as any,
             config: existingJuejinTask.config as any,
           } : null}
           onSuccess={onSuccess}
+          onTitleChange={onTitleChange}
         />
       )}
 
@@ -455,11 +466,55 @@ export function PublishMenu({
           articleId={articleId}
           articleTitle={articleTitle}
           articleContent={articleContent}
-          csdnTags={csdnTags}
-          csdnDescription={csdnDescription}
-          csdnType={csdnType}
-          csdnReadType={csdnReadType}
+          csdnTags={csdnConfig.tags}
+          csdnDescription={csdnConfig.description}
+          csdnType={csdnConfig.type}
+          csdnReadType={csdnConfig.readType}
+          onSuccess={onSuccess}
+          onTitleChange={onTitleChange}
+        />
+      )}
+
+      {/* CSDN 定时发布配置弹窗 - 条件渲染 */}
+      {csdnScheduleDialogOpen && (
+        <CsdnSchedulePublishDialog
+          open={csdnScheduleDialogOpen}
+          onOpenChange={setCsdnScheduleDialogOpen}
+          articleId={articleId}
+          articleTitle={articleTitle}
+          articleContent={articleContent}
+          csdnTags={csdnConfig.tags}
+          csdnDescription={csdnConfig.description}
+          csdnCoverImage={csdnConfig.coverImage}
+          csdnType={csdnConfig.type}
+          csdnReadType={csdnConfig.readType}
+          existingTask={existingCsdnTask ? {
+            id: existingCsdnTask.id,
+            scheduledAt: existingCsdnTask.scheduledAt as unknown as string,
+            rule: existingCsdnTask.rule as any,
+            config: existingCsdnTask.config as any,
+          } : null}
           onSuccess={onSuccess}
+          onTitleChange={onTitleChange}
+        />
+      )}
+
+      {/* 多平台发布弹窗 - 条件渲染 */}
+      {campaignDialogOpen && (
+        <PublishCampaignDialog
+          open={campaignDialogOpen}
+          onOpenChange={setCampaignDialogOpen}
+          articleId={articleId}
+          onSuccess={onSuccess}
+        />
+      )}
+
+      {/* 发布检查弹窗 - 条件渲染 */}
+      {lintDialogOpen && (
+        <PublishLintDialog
+          open={lintDialogOpen}
+          onOpenChange={setLintDialogOpen}
+          articleId={articleId}
         />
       )}
     </>
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { message } from "antd";
+import { Check, Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/utils/trpc";
+
+export interface SuggestedTag {
+  id: string;
+  name: string;
+}
+
+export interface MetadataSuggestion {
+  titles: string[];
+  summary: string | null;
+  tags: SuggestedTag[];
+  category: SuggestedTag | null;
+  warnings: string[];
+}
+
+interface PublishMetadataSuggestProps {
+  articleId: number;
+  platform: string;
+  /** 把建议的摘要、标签、分类填入发布表单 */
+  onApply: (suggestion: MetadataSuggestion) => void;
+  /** 选用候选标题后同步编辑器中的标题 */
+  onTitleChange?: (title: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 发布弹窗中的「AI 生成发布信息」
+ * 用默认 AI 模型生成摘要、标签和分类并填入表单，候选标题点击后保存为文章标题
+ */
+export function PublishMetadataSuggest({
+  articleId,
+  platform,
+  onApply,
+  onTitleChange,
+  disabled = false,
+}: PublishMetadataSuggestProps) {
+  const [suggestion, setSuggestion] = useState<MetadataSuggestion | null>(null);
+  const [appliedTitle, setAppliedTitle] = useState<string | null>(null);
+
+  const trpcUtils = trpc.useContext();
+
+  const suggestMutation = trpc.publisher.suggestMetadata.useMutation({
+    onSuccess: (result: MetadataSuggestion) => {
+      setSuggestion(result);
+      setAppliedTitle(null);
+      onApply(result);
+      message.success("已填入 AI 建议的发布信息，请检查后发布");
+    },
+    onError: (error: Error) => {
+      message.error(`生成失败: ${error.message}`);
+    },
+  });
+
+  const updateTitleMutation = trpc.article.update.useMutation({
+    onSuccess: (_: unknown, variables: { title: string }) => {
+      setAppliedTitle(variables.title);
+      onTitleChange?.(variables.title);
+      trpcUtils.article.list.invalidate();
+      trpcUtils.article.get.invalidate({ id: articleId });
+      trpcUtils.article.getMeta.invalidate({ id: articleId });
+      message.success("文章标题已更新");
+    },
+    onError: (error: Error) => {
+      message.error(`标题保存失败: ${error.message}`);
+    },
+  });
+
+  const isLoading = suggestMutation.isLoading;
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          使用默认 AI 模型根据正文生成摘要、标签和候选标题
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="shrink-0"
+          onClick={() => suggestMutation.mutate({ platform, articleId })}
+          disabled={disabled || isLoading}
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Sparkles className="h-4 w-4 mr-1" />
+          )}
+          {suggestion ? "重新生成" : "AI 生成"}
+        </Button>
+      </div>
+
+      {suggestion && suggestion.titles.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium">候选标题（点击使用）</p>
+          {suggestion.titles.map((title) => (
+            <button
+              key={title}
+              type="button"
+              className="w-full text-left text-sm rounded px-2 py-1 hover:bg-muted flex items-center gap-2 disabled:opacity-50"
+              onClick={() => updateTitleMutation.mutate({ id: articleId, title })}
+              disabled={disabled || updateTitleMutation.isLoading}
+            >
+              <span className="flex-1">{title}</span>
+              {appliedTitle === title && <Check className="h-4 w-4 text-green-600 shrink-0" />}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {suggestion?.warnings.map((warning) => (
+        <p key={warning} className="text-xs text-amber-600">{warning}</p>
+      ))}
+    </div>
+  );
+}
+
+export default PublishMetadataSuggest;
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Drawer, message } from "antd";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { useIsMobile } from "@/hooks/use-mobile";
+
+export type ReviewStatus = "none" | "in_review" | "changes_requested" | "approved";
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  none: "未提交审核",
+  in_review: "审核中",
+  changes_requested: "需要修改",
+  approved: "审核通过",
+};
+
+export const REVIEW_STATUS_VARIANTS: Record<ReviewStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  none: "outline",
+  in_review: "secondary",
+  changes_requested: "destructive",
+  approved: "default",
+};
+
+interface ReviewDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  articleId: number;
+  /** 当前用户可以编辑文章（提交、撤回审核） */
+  canEdit: boolean;
+}
+
+/**
+ * 编辑审核抽屉
+ * 提交审核、指定审核人、通过或要求修改；对正文的意见在评论侧边栏中讨论
+ */
+export function ReviewDrawer({
+  open,
+  onOpenChange,
+  articleId,
+  canEdit,
+}: ReviewDrawerProps) {
+  const isMobile = useIsMobile();
+  const utils = trpc.useContext();
+  const [reviewerId, setReviewerId] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: review, isLoading } = trpc.review.get.useQuery({ articleId }, { enabled: open });
+  const { data: reviewers = [] } = trpc.review.reviewers.useQuery(undefined, {
+    enabled: open && canEdit,
+  });
+
+  useEffect(() => {
+    setReviewerId(review?.reviewer ? String(review.reviewer.userId) : "");
+  }, [review?.reviewer?.userId]);
+
+  const handleReviewChanged = (state: any) => {
+    utils.review.get.setData({ articleId }, state);
+    utils.article.getMeta.invalidate({ id: articleId });
+    utils.review.assigned.invalidate();
+    setNote("");
+  };
+  const handleError = (error: Error) => {
+    message.error(error.message);
+  };
+
+  const submitMutation = trpc.review.submit.useMutation({
+    onSuccess: (state: any) => {
+      handleReviewChanged(state);
+      message.success("已提交审核");
+    },
+    onError: handleError,
+  });
+  const assignMutation = trpc.review.assign.useMutation({
+    onSuccess: (state: any) => {
+      handleReviewChanged(state);
+      message.success("已更换审核人");
+    },
+    onError: handleError,
+  });
+  const withdrawMutation = trpc.review.withdraw.useMutation({
+    onSuccess: handleReviewChanged,
+    onError: handleError,
+  });
+  const approveMutation = trpc.review.approve.useMutation({
+    onSuccess: (state: any) => {
+      handleReviewChanged(state);
+      message.success("已通过审核");
+    },
+    onError: handleError,
+  });
+  const requestChangesMutation = trpc.review.requestChanges.useMutation({
+    onSuccess: (state: any) => {
+      handleReviewChanged(state);
+      message.success("已要求修改");
+    },
+    onError: handleError,
+  });
+
+  const status = (review?.status || "none") as ReviewStatus;
+  const canSubmit = canEdit && (status === "none" || status === "changes_requested");
+  const isBusy =
+    submitMutation.isLoading ||
+    assignMutation.isLoading ||
+    withdrawMutation.isLoading ||
+    approveMutation.isLoading ||
+    requestChangesMutation.isLoading;
+
+  return (
+    <Drawer
+      title={
+        <span className="flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4" />
+          审核
+        </span>
+      }
+      placement="right"
+      width={isMobile ? "100%" : 380}
+      open={open}
+      onClose={() => onOpenChange(false)}
+      // 不遮挡编辑器，审核时仍可查看正文和评论
+      mask={false}
+      styles={{ body: { padding: 16 } }}
+    >
+      {isLoading || !review ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* 审核状态 */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Badge variant={REVIEW_STATUS_VARIANTS[status]}>{REVIEW_STATUS_LABELS[status]}</Badge>
+              {review.reviewer && (
+                <span className="text-sm text-muted-foreground">审核人：{review.reviewer.username}</span>
+              )}
+            </div>
+            {review.publishBlockReason && (
+              <p className="text-xs text-muted-foreground">{review.publishBlockReason}</p>
+            )}
+          </div>
+
+          {/* 提交审核 / 更换审核人 */}
+          {canEdit && (
+            <div className="space-y-2">
+              <Label>审核人</Label>
+              <Select
+                value={reviewerId}
+                onValueChange={(value) => {
+                  setReviewerId(value);
+                  if (status === "in_review") {
+                    assignMutation.mutate({ articleId, reviewerUserId: Number(value) });
+                  }
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={reviewers.length ? "选择审核人" : "没有可选的审核人"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {reviewers.map((r: any) => (
+                    <SelectItem key={r.userId} value={String(r.userId)}>
+                      {r.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canSubmit && (
+                <>
+                  <Textarea
+                    placeholder="给审核人的说明（可选）"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={2}
+                  />
+                  <Button
+                    className="w-full"
+                    disabled={!reviewerId || isBusy}
+                    onClick={() =>
+                      submitMutation.mutate({
+                        articleId,
+                        reviewerUserId: Number(reviewerId),
+                        note: note.trim() || undefined,
+                      })
+                    }
+                  >
+                    提交审核
+                  </Button>
+                </>
+              )}
+              {!canSubmit && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={isBusy}
+                  onClick={() => withdrawMutation.mutate({ articleId })}
+                >
+                  撤回审核
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* 审核人操作 */}
+          {review.canDecide && status === "in_review" && (
+            <div className="space-y-2">
+              <Label>审核意见</Label>
+              <Textarea
+                placeholder="审核意见（可选）"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button
+                  className="flex-1"
+                  disabled={isBusy}
+                  onClick={() => approveMutation.mutate({ articleId, note: note.trim() || undefined })}
+                >
+                  通过
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  disabled={isBusy}
+                  onClick={() =>
+                    requestChangesMutation.mutate({ articleId, note: note.trim() || undefined })
+                  }
+                >
+                  要求修改
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Drawer>
+  );
+}
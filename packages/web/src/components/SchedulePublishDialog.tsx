@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { message, DatePicker, TimePicker } from "antd";
+import { message } from "antd";
 import { Loader2, Calendar, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -12,8 +12,13 @@ import {
 } from "@/components/ui/light-dialog";
 import { NativeSelect } from "@/components/ui/native-select";
 import { trpc } from "@/utils/trpc";
+import PublishMetadataSuggest, { type MetadataSuggestion } from "./PublishMetadataSuggest";
 import TencentTagSelect from "./TencentTagSelect";
-import dayjs from "dayjs";
+import ScheduleTimeField, {
+  createScheduleTimeValue,
+  toScheduleInput,
+  type ScheduleRule,
+} from "./ScheduleTimeField";
 
 interface SchedulePublishDialogProps {
   open: boolean;
@@ -27,6 +32,7 @@ interface SchedulePublishDialogProps {
   existingTask?: {
     id: number;
     scheduledAt: string;
+    rule?: ScheduleRule | null;
     config: {
       tagIds: number[];
       tagNames?: string[];
@@ -35,6 +41,8 @@ interface SchedulePublishDialogProps {
     };
   } | null;
   onSuccess?: () => void;
+  // 选用 AI 建议的标题后同步编辑器中的标题
+  onTitleChange?: (title: string) => void;
 }
 
 /**
@@ -49,12 +57,14 @@ export function SchedulePublishDialog({
   summary: initialSummary = "",
   existingTask,
   onSuccess,
+  onTitleChange,
 }: SchedulePublishDialogProps) {
   const [tagIds, setTagIds] = useState<number[]>(initialTagIds);
   const [sourceType, setSourceType] = useState<string>(String(initialSourceType));
   const [summary, setSummary] = useState(initialSummary);
-  const [scheduledDate, setScheduledDate] = useState<dayjs.Dayjs | null>(null);
-  const [scheduledTime, setScheduledTime] = useState<dayjs.Dayjs | null>(null);
+  // AI 建议的标签名称，用于在标签选择器中显示
+  const [suggestedTagNames, setSuggestedTagNames] = useState<Record<number, string>>();
+  const [scheduleTime, setScheduleTime] = useState(() => createScheduleTimeValue(existingTask));
 
   const trpcUtils = trpc.useContext();
 
@@ -66,18 +76,14 @@ export function SchedulePublishDialog({
         setTagIds(existingTask.config.tagIds || []);
         setSourceType(String(existingTask.config.sourceType));
         setSummary(existingTask.config.summary || "");
-        const taskTime = dayjs(existingTask.scheduledAt);
-        setScheduledDate(taskTime);
-        setScheduledTime(taskTime);
+        setScheduleTime(createScheduleTimeValue(existingTask));
       } else {
         // 新建模式：使用文章的配置
         setTagIds(initialTagIds);
         setSourceType(String(initialSourceType));
         setSummary(initialSummary);
         // 默认设置为1小时后
-        const defaultTime = dayjs().add(1, "hour");
-        setScheduledDate(defaultTime);
-        setScheduledTime(defaultTime);
+        setScheduleTime(createScheduleTimeValue());
       }
     }
   }, [open, existingTask, initialTagIds, initialSourceType, initialSummary]);
@@ -138,20 +144,10 @@ export function SchedulePublishDialog({
       return;
     }
 
-    // 验证时间
-    if (!scheduledDate || !scheduledTime) {
-      message.error("请选择发布时间");
-      return;
-    }
-
-    // 合并日期和时间
-    const scheduledAt = scheduledDate
-      .hour(scheduledTime.hour())
-      .minute(scheduledTime.minute())
-      .second(0);
-
-    if (scheduledAt.isBefore(dayjs())) {
-      message.error("发布时间必须在当前时间之后");
+    // 验证时间（指定时间或定时规则）
+    const { error: scheduleError, ...scheduleInput } = toScheduleInput(scheduleTime);
+    if (scheduleError) {
+      message.error(scheduleError);
       return;
     }
 
@@ -166,7 +162,7 @@ export function SchedulePublishDialog({
       updateTaskMutation.mutate({
         taskId: existingTask.id,
         platform: "tencent" as any,
-        scheduledAt: scheduledAt.toISOString(),
+        ...scheduleInput,
         tencentConfig,
       });
     } else {
@@ -174,7 +170,7 @@ export function SchedulePublishDialog({
       createTaskMutation.mutate({
         articleId,
         platform: "tencent" as any,
-        scheduledAt: scheduledAt.toISOString(),
+        ...scheduleInput,
         tencentConfig,
       });
     }
@@ -186,6 +182,17 @@ export function SchedulePublishDialog({
     }
   };
 
+  // 填入 AI 建议的标签和摘要
+  const handleApplySuggestion = (suggestion: MetadataSuggestion) => {
+    if (suggestion.tags.length > 0) {
+      setSuggestedTagNames(Object.fromEntries(suggestion.tags.map((tag) => [Number(tag.id), tag.name])));
+      setTagIds(suggestion.tags.map((tag) => Number(tag.id)));
+    }
+    if (suggestion.summary) {
+      setSummary(suggestion.summary);
+    }
+  };
+
   const isLoading =
     createTaskMutation.isLoading ||
     updateTaskMutation.isLoading ||
@@ -194,11 +201,6 @@ export function SchedulePublishDialog({
   // 用于 antd 组件的容器引用
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // 禁用过去的日期
-  const disabledDate = (current: dayjs.Dayjs) => {
-    return current && current < dayjs().startOf("day");
-  };
-
   return (
     <LightDialog open={open} onOpenChange={onOpenChange} className="sm:max-w-[480px]">
       <div ref={containerRef}>
@@ -212,33 +214,29 @@ export function SchedulePublishDialog({
         </LightDialogHeader>
 
         <div className="space-y-4 py-4">
+          {/* AI 生成发布信息 */}
+          <PublishMetadataSuggest
+            articleId={articleId}
+            platform="tencent"
+            onApply={handleApplySuggestion}
+            onTitleChange={onTitleChange}
+            disabled={isLoading}
+          />
+
           {/* 发布时间 */}
           <div className="space-y-2">
             <Label className="flex items-center gap-1">
               <Calendar className="h-4 w-4" />
               发布时间 <span className="text-destructive">*</span>
             </Label>
-            <div className="flex gap-2">
-              <DatePicker
-                value={scheduledDate}
-                onChange={setScheduledDate}
-                disabledDate={disabledDate}
-                placeholder="选择日期"
-                className="flex-1"
-                getPopupContainer={() => containerRef.current || document.body}
-              />
-              <TimePicker
-                value={scheduledTime}
-                onChange={setScheduledTime}
-                format="HH:mm"
-                placeholder="选择时间"
-                className="flex-1"
-                getPopupContainer={() => containerRef.current || document.body}
-              />
-            </div>
-            <p className="text-xs text-muted-foreground">
-              系统将在设定时间自动发布文章
-            </p>
+            <ScheduleTimeField
+              value={scheduleTime}
+              onChange={setScheduleTime}
+              articleId={articleId}
+              platform="tencent"
+              taskId={existingTask?.id}
+              getPopupContainer={() => containerRef.current || document.body}
+            />
           </div>
 
           {/* 标签选择 */}
@@ -248,6 +246,7 @@ export function SchedulePublishDialog({
             </Label>
             <TencentTagSelect
               value={tagIds}
+              tagNames={suggestedTagNames}
               onChange={handleTagChange}
               getPopupContainer={() => containerRef.current || document.body}
             />
@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { DatePicker, TimePicker } from "antd";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { trpc } from "@/utils/trpc";
+import { PLATFORM_NAMES } from "@/utils/publications";
+import { cn } from "@/lib/utils";
+import dayjs from "dayjs";
+
+/**
+ * 定时规则（与服务端 ScheduleRule 一致）
+ */
+export type ScheduleRule =
+  | { type: "window"; weekdays: number[]; startTime: string; endTime: string }
+  | { type: "stagger"; afterPlatform: string; offsetMinutes: number };
+
+export type ScheduleMode = "fixed" | "window" | "stagger";
+
+/**
+ * 发布时间表单值
+ */
+export interface ScheduleTimeValue {
+  mode: ScheduleMode;
+  // 指定时间
+  date: dayjs.Dayjs | null;
+  time: dayjs.Dayjs | null;
+  // 时间窗口
+  weekdays: number[];
+  windowStart: dayjs.Dayjs | null;
+  windowEnd: dayjs.Dayjs | null;
+  // 错峰发布
+  afterPlatform: string;
+  offsetMinutes: string;
+}
+
+const MODE_OPTIONS = [
+  { value: "fixed", label: "指定时间" },
+  { value: "window", label: "时间窗口（自动选择空闲时间）" },
+  { value: "stagger", label: "错峰发布（在其他平台之后）" },
+];
+
+// 按周一到周日的顺序展示
+const WEEKDAYS = [
+  { value: 1, label: "一" },
+  { value: 2, label: "二" },
+  { value: 3, label: "三" },
+  { value: 4, label: "四" },
+  { value: 5, label: "五" },
+  { value: 6, label: "六" },
+  { value: 0, label: "日" },
+];
+
+const WEEKDAY_NAMES = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
+
+// 将 HH:mm 转换为今天对应时间的 dayjs 对象（仅用于时间选择器）
+function fromTimeOfDay(value: string): dayjs.Dayjs {
+  const [hour, minute] = value.split(":").map(Number);
+  return dayjs().startOf("day").hour(hour).minute(minute);
+}
+
+/**
+ * 根据已有任务生成初始表单值，新建时默认1小时后
+ */
+export function createScheduleTimeValue(
+  task?: { scheduledAt: string; rule?: ScheduleRule | null } | null
+): ScheduleTimeValue {
+  const time = task ? dayjs(task.scheduledAt) : dayjs().add(1, "hour");
+  const rule = task?.rule;
+  return {
+    mode: rule?.type ?? "fixed",
+    date: time,
+    time,
+    weekdays: rule?.type === "window" ? rule.weekdays : [1, 2, 3, 4, 5],
+    windowStart: fromTimeOfDay(rule?.type === "window" ? rule.startTime : "08:00"),
+    windowEnd: fromTimeOfDay(rule?.type === "window" ? rule.endTime : "09:30"),
+    afterPlatform: rule?.type === "stagger" ? rule.afterPlatform : "",
+    offsetMinutes: rule?.type === "stagger" ? String(rule.offsetMinutes) : "120",
+  };
+}
+
+/**
+ * 将表单值转换为定时任务接口参数
+ * 校验不通过时返回 error
+ */
+export function toScheduleInput(value: ScheduleTimeValue): {
+  scheduledAt?: string;
+  rule?: ScheduleRule;
+  error?: string;
+} {
+  if (value.mode === "window") {
+    if (value.weekdays.length === 0) {
+      return { error: "请至少选择一天" };
+    }
+    if (!value.windowStart || !value.windowEnd) {
+      return { error: "请选择时间窗口" };
+    }
+    const startTime = value.windowStart.format("HH:mm");
+    const endTime = value.windowEnd.format("HH:mm");
+    if (endTime < startTime) {
+      return { error: "时间窗口的结束时间不能早于开始时间" };
+    }
+    return { rule: { type: "window", weekdays: value.weekdays, startTime, endTime } };
+  }
+
+  if (value.mode === "stagger") {
+    const offsetMinutes = Number(value.offsetMinutes);
+    if (!value.afterPlatform) {
+      return { error: "请选择参照平台" };
+    }
+    if (!Number.isInteger(offsetMinutes) || offsetMinutes < 0) {
+      return { error: "延迟时间必须是非负整数分钟" };
+    }
+    return { rule: { type: "stagger", afterPlatform: value.afterPlatform, offsetMinutes } };
+  }
+
+  if (!value.date || !value.time) {
+    return { error: "请选择发布时间" };
+  }
+  const scheduledAt = value.date
+    .hour(value.time.hour())
+    .minute(value.time.minute())
+    .second(0);
+  if (scheduledAt.isBefore(dayjs())) {
+    return { error: "发布时间必须在当前时间之后" };
+  }
+  return { scheduledAt: scheduledAt.toISOString() };
+}
+
+interface ScheduleTimeFieldProps {
+  value: ScheduleTimeValue;
+  onChange: (value: ScheduleTimeValue) => void;
+  articleId: number;
+  platform: string;
+  // 编辑已有任务时传入，分配时间时排除任务自身
+  taskId?: number;
+  getPopupContainer?: () => HTMLElement;
+}
+
+/**
+ * 定时发布时间设置
+ * 支持指定时间、时间窗口、错峰发布三种方式，并展示已计划的发布日历
+ */
+export function ScheduleTimeField({
+  value,
+  onChange,
+  articleId,
+  platform,
+  taskId,
+  getPopupContainer,
+}: ScheduleTimeFieldProps) {
+  const update = (patch: Partial<ScheduleTimeValue>) => onChange({ ...value, ...patch });
+
+  const input = toScheduleInput(value);
+
+  // 按规则预览服务端分配的发布时间
+  const { data: preview, isFetching: previewLoading } = trpc.schedule.previewSlot.useQuery(
+    { articleId, platform: platform as any, rule: input.rule as any, taskId },
+    { enabled: !!input.rule }
+  );
+
+  const selectedTime =
+    value.mode === "fixed"
+      ? input.scheduledAt
+        ? dayjs(input.scheduledAt)
+        : null
+      : preview?.scheduledAt
+        ? dayjs(preview.scheduledAt)
+        : null;
+
+  const staggerOptions = Object.keys(PLATFORM_NAMES)
+    .filter((p) => p !== platform)
+    .map((p) => ({ value: p, label: PLATFORM_NAMES[p] }));
+
+  const disabledDate = (current: dayjs.Dayjs) => {
+    return current && current < dayjs().startOf("day");
+  };
+
+  return (
+    <div className="space-y-2">
+      <NativeSelect
+        value={value.mode}
+        onChange={(mode) => update({ mode: mode as ScheduleMode })}
+        options={MODE_OPTIONS}
+      />
+
+      {value.mode === "fixed" && (
+        <div className="flex gap-2">
+          <DatePicker
+            value={value.date}
+            onChange={(date) => update({ date })}
+            disabledDate={disabledDate}
+            placeholder="选择日期"
+            className="flex-1"
+            getPopupContainer={getPopupContainer}
+          />
+          <TimePicker
+            value={value.time}
+            onChange={(time) => update({ time })}
+            format="HH:mm"
+            placeholder="选择时间"
+            className="flex-1"
+            getPopupContainer={getPopupContainer}
+          />
+        </div>
+      )}
+
+      {value.mode === "window" && (
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            {WEEKDAYS.map((day) => {
+              const active = value.weekdays.includes(day.value);
+              return (
+                <Button
+                  key={day.value}
+                  type="button"
+                  variant={active ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 w-8 px-0"
+                  onClick={() =>
+                    update({
+                      weekdays: active
+                        ? value.weekdays.filter((d) => d !== day.value)
+                        : [...value.weekdays, day.value],
+                    })
+                  }
+                >
+                  {day.label}
+                </Button>
+              );
+            })}
+          </div>
+          <div className="flex items-center gap-2">
+            <TimePicker
+              value={value.windowStart}
+              onChange={(windowStart) => update({ windowStart })}
+              format="HH:mm"
+              placeholder="开始时间"
+              className="flex-1"
+              getPopupContainer={getPopupContainer}
+            />
+            <span className="text-muted-foreground">至</span>
+            <TimePicker
+              value={value.windowEnd}
+              onChange={(windowEnd) => update({ windowEnd })}
+              format="HH:mm"
+              placeholder="结束时间"
+              className="flex-1"
+              getPopupContainer={getPopupContainer}
+            />
+          </div>
+        </div>
+      )}
+
+      {value.mode === "stagger" && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1">
+            <NativeSelect
+              value={value.afterPlatform}
+              onChange={(afterPlatform) => update({ afterPlatform })}
+              placeholder="参照平台"
+              options={staggerOptions}
+            />
+          </div>
+          <span className="text-muted-foreground shrink-0">之后</span>
+          <Input
+            type="number"
+            min={0}
+            value={value.offsetMinutes}
+            onChange={(e) => update({ offsetMinutes: e.target.value })}
+            className="w-24"
+          />
+          <span className="text-muted-foreground shrink-0">分钟</span>
+        </div>
+      )}
+
+      {value.mode !== "fixed" && (
+        <p className={cn("text-xs", preview?.error ? "text-destructive" : "text-muted-foreground")}>
+          {!input.rule
+            ? input.error
+            : previewLoading
+              ? "正在计算发布时间..."
+              : preview?.error
+                ? preview.error
+                : selectedTime
+                  ? `将在 ${selectedTime.format("YYYY-MM-DD HH:mm")} 发布`
+                  : null}
+        </p>
+      )}
+
+      <ScheduleSlotCalendar selectedTime={selectedTime} currentTaskId={taskId} />
+    </div>
+  );
+}
+
+/**
+ * 发布日历：按天展示一周内已计划的发布任务
+ */
+function ScheduleSlotCalendar({
+  selectedTime,
+  currentTaskId,
+}: {
+  selectedTime: dayjs.Dayjs | null;
+  currentTaskId?: number;
+}) {
+  const [weekOffset, setWeekOffset] = useState(0);
+  const baseDay = (selectedTime || dayjs()).startOf("day");
+  const startDay = baseDay.add(weekOffset * 7, "day");
+  const endDay = startDay.add(7, "day");
+
+  const { data: planned = [], isLoading } = trpc.schedule.listPlanned.useQuery({
+    from: startDay.toISOString(),
+    to: endDay.toISOString(),
+  });
+
+  const days = Array.from({ length: 7 }, (_, i) => startDay.add(i, "day"));
+
+  return (
+    <div className="rounded-md border p-2 space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>已计划的发布</span>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setWeekOffset(weekOffset - 1)}
+            disabled={startDay.isBefore(dayjs(), "day") || startDay.isSame(dayjs(), "day")}
+          >
+            <ChevronLeft className="h-3 w-3" />
+          </Button>
+          <span>
+            {startDay.format("MM/DD")} - {endDay.subtract(1, "day").format("MM/DD")}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setWeekOffset(weekOffset + 1)}
+          >
+            <ChevronRight className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-1">
+          {days.map((day) => {
+            const tasks = planned.filter(
+              (task: any) => task.id !== currentTaskId && dayjs(task.scheduledAt).isSame(day, "day")
+            );
+            const isSelectedDay = selectedTime?.isSame(day, "day");
+            return (
+              <div
+                key={day.valueOf()}
+                className={cn(
+                  "min-h-[64px] rounded border p-1 text-[10px] leading-tight space-y-0.5",
+                  isSelectedDay && "border-primary"
+                )}
+              >
+                <div className="text-muted-foreground">
+                  {WEEKDAY_NAMES[day.day()]} {day.format("D")}
+                </div>
+                {tasks.map((task: any) => (
+                  <div
+                    key={task.id}
+                    className="truncate rounded bg-muted px-0.5"
+                    title={`${task.articleTitle} · ${PLATFORM_NAMES[task.platform] || task.platform}`}
+                  >
+                    {dayjs(task.scheduledAt).format("HH:mm")} {PLATFORM_NAMES[task.platform] || task.platform}
+                  </div>
+                ))}
+                {isSelectedDay && selectedTime && (
+                  <div className="truncate rounded bg-primary px-0.5 text-primary-foreground">
+                    {selectedTime.format("HH:mm")} 本任务
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ScheduleTimeField;
@@ -1,5 +1,6 @@
 import { AlertTriangle, X, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { PLATFORM_NAMES } from "@/utils/publications";
 import dayjs from "dayjs";
 import relativeTime from "dayjs/plugin/relativeTime";
 import "dayjs/locale/zh-cn";
@@ -9,8 +10,11 @@ dayjs.locale("zh-cn");
 
 interface SyncConflictBannerProps {
   remoteUpdatedAt?: Date;
+  /** 冲突内容的来源，在平台上直接修改时为平台标识 */
+  remoteSource?: string;
   isResolving: boolean;
   onViewDiff?: () => void;
+  onMerge?: () => void;
   onUseLocal: () => void;
   onUseRemote: () => void;
   onDismiss: () => void;
@@ -18,8 +22,10 @@ interface SyncConflictBannerProps {
 
 export function SyncConflictBanner({
   remoteUpdatedAt,
+  remoteSource,
   isResolving,
   onViewDiff,
+  onMerge,
   onUseLocal,
   onUseRemote,
   onDismiss,
@@ -29,7 +35,9 @@ export function SyncConflictBanner({
       <div className="flex items-center gap-2 text-amber-800 dark:text-amber-200 min-w-0">
         <AlertTriangle className="h-4 w-4 shrink-0" />
         <span className="text-sm truncate">
-          云端有新版本
+          {remoteSource && PLATFORM_NAMES[remoteSource]
+            ? `文章在${PLATFORM_NAMES[remoteSource]}上被修改，请合并后再发布`
+            : "云端有新版本"}
           {remoteUpdatedAt && (
             <span className="text-amber-600 dark:text-amber-400 ml-1">
               ({dayjs(remoteUpdatedAt).fromNow()})
@@ -49,6 +57,17 @@ export function SyncConflictBanner({
             查看对比
           </Button>
         )}
+        {onMerge && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={onMerge}
+            disabled={isResolving}
+          >
+            合并
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="sm"
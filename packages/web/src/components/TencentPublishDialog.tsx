@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/light-dialog";
 import { NativeSelect } from "@/components/ui/native-select";
 import { trpc } from "@/utils/trpc";
+import PublishMetadataSuggest, { type MetadataSuggestion } from "./PublishMetadataSuggest";
 import TencentTagSelect from "./TencentTagSelect";
 
 interface TencentPublishDialogProps {
@@ -23,6 +24,8 @@ interface TencentPublishDialogProps {
   sourceType?: number;
   summary?: string;
   onSuccess?: () => void;
+  // 选用 AI 建议的标题后同步编辑器中的标题
+  onTitleChange?: (title: string) => void;
 }
 
 /**
@@ -36,10 +39,13 @@ export function TencentPublishDialog({
   sourceType: initialSourceType = 1,
   summary: initialSummary = "",
   onSuccess,
+  onTitleChange,
 }: TencentPublishDialogProps) {
   const [tagIds, setTagIds] = useState<number[]>(initialTagIds);
   const [sourceType, setSourceType] = useState<string>(String(initialSourceType));
   const [summary, setSummary] = useState(initialSummary);
+  // AI 建议的标签名称，用于在标签选择器中显示
+  const [suggestedTagNames, setSuggestedTagNames] = useState<Record<number, string>>();
 
   const trpcUtils = trpc.useContext();
 
@@ -130,6 +136,17 @@ export function TencentPublishDialog({
     }
   };
 
+  // 填入 AI 建议的标签和摘要
+  const handleApplySuggestion = (suggestion: MetadataSuggestion) => {
+    if (suggestion.tags.length > 0) {
+      setSuggestedTagNames(Object.fromEntries(suggestion.tags.map((tag) => [Number(tag.id), tag.name])));
+      setTagIds(suggestion.tags.map((tag) => Number(tag.id)));
+    }
+    if (suggestion.summary) {
+      setSummary(suggestion.summary);
+    }
+  };
+
   const isLoading =
     setTagsMutation.isLoading ||
     setSourceTypeMutation.isLoading ||
@@ -150,6 +167,15 @@ export function TencentPublishDialog({
         </LightDialogHeader>
 
         <div className="space-y-4 py-4">
+          {/* AI 生成发布信息 */}
+          <PublishMetadataSuggest
+            articleId={articleId}
+            platform="tencent"
+            onApply={handleApplySuggestion}
+            onTitleChange={onTitleChange}
+            disabled={isLoading}
+          />
+
           {/* 标签选择 */}
           <div className="space-y-2">
             <Label>
@@ -157,6 +183,7 @@ export function TencentPublishDialog({
             </Label>
             <TencentTagSelect 
               value={tagIds} 
+              tagNames={suggestedTagNames}
               onChange={handleTagChange}
               getPopupContainer={() => containerRef.current || document.body}
             />
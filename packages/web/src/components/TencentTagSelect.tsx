@@ -12,6 +12,8 @@ interface TencentTagSelectProps {
   onChange?: (tagIds: number[]) => void;
   placeholder?: string;
   disabled?: boolean;
+  // 已知的标签名称（如 AI 建议的标签），value 中新增的标签据此显示
+  tagNames?: Record<number, string>;
   // getPopupContainer 在新组件中不再需要，但保留接口兼容性
   getPopupContainer?: () => HTMLElement;
 }
@@ -25,6 +27,7 @@ export function TencentTagSelect({
   onChange,
   placeholder = "搜索并选择标签（发布文章至少需要1个标签）",
   disabled = false,
+  tagNames,
 }: TencentTagSelectProps) {
   const [searchValue, setSearchValue] = useState("");
   const [debouncedSearchValue, setDebouncedSearchValue] = useState("");
@@ -70,6 +73,18 @@ export function TencentTagSelect({
     }
   }, [value]);
 
+  // 外部设置了带名称的标签时补充到已选项中
+  useEffect(() => {
+    if (!tagNames) return;
+    setSelectedOptions((prev) => {
+      const kept = prev.filter((option) => value.includes(Number(option.value)));
+      const added = value
+        .filter((id) => tagNames[id] && !kept.some((option) => Number(option.value) === id))
+        .map((id) => ({ value: String(id), label: tagNames[id] }));
+      return added.length > 0 || kept.length !== prev.length ? [...kept, ...added] : prev;
+    });
+  }, [value, tagNames]);
+
   // 处理搜索
   const handleSearch = (keyword: string) => {
     setSearchValue(keyword);
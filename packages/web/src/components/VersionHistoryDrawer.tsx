@@ -0,0 +1,469 @@
+import { useEffect, useMemo, useState } from "react";
+import { Drawer, Modal, message } from "antd";
+import { diffWords, type Change } from "diff";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import { History, Loader2, Pin, PinOff, RotateCcw, Bookmark } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { trpc } from "@/utils/trpc";
+import { useIsMobile } from "@/hooks/use-mobile";
+
+dayjs.extend(relativeTime);
+
+type VersionSource = "local" | "tencent" | "juejin" | "csdn" | "conflict_remote" | "merged";
+
+interface VersionSummary {
+  id: number;
+  version: number;
+  title: string;
+  source: VersionSource;
+  deviceId?: string;
+  label?: string | null;
+  pinned: boolean;
+  createdAt: string;
+}
+
+interface VersionDetail extends VersionSummary {
+  content: string;
+}
+
+interface VersionHistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  articleId: number;
+  /** 编辑器中的当前内容 */
+  currentContent: string;
+  /** 恢复历史版本后重新加载文章 */
+  onRestored?: () => void;
+}
+
+// 时间线分组顺序
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  local: "本地",
+  tencent: "腾讯云",
+  juejin: "掘金",
+  csdn: "CSDN",
+  conflict_remote: "冲突时的云端版本",
+  merged: "合并结果",
+};
+
+// 对比当前编辑器内容
+const CURRENT_TARGET = "current";
+
+// 单次对比的最大编辑距离，超过后不再计算，避免大文档卡顿
+const MAX_EDIT_LENGTH = 5000;
+
+// 未修改的内容较长时只显示首尾
+const CONTEXT_CHARS = 120;
+
+// 历史版本列表的最大数量（包含固定的快照）
+const HISTORY_LIMIT = 100;
+
+/**
+ * 中文没有空格分词，使用 Intl.Segmenter 按词切分；不支持时退回按空白切分
+ */
+function getWordSegmenter(): unknown {
+  const Segmenter = (Intl as unknown as {
+    Segmenter?: new (locale: string, options: { granularity: "word" }) => unknown;
+  }).Segmenter;
+  return Segmenter ? new Segmenter("zh", { granularity: "word" }) : undefined;
+}
+
+function formatVersionTime(createdAt: string): string {
+  return dayjs(createdAt).format("YYYY-MM-DD HH:mm:ss");
+}
+
+function UnchangedText({ value }: { value: string }) {
+  if (value.length <= CONTEXT_CHARS * 2 + 20) {
+    return <span className="text-muted-foreground">{value}</span>;
+  }
+  return (
+    <span className="text-muted-foreground">
+      {value.slice(0, CONTEXT_CHARS)}
+      <span className="mx-1 rounded bg-muted px-1 text-[10px] italic">
+        … 省略 {value.length - CONTEXT_CHARS * 2} 字未修改的内容 …
+      </span>
+      {value.slice(-CONTEXT_CHARS)}
+    </span>
+  );
+}
+
+function WordDiffView({ changes }: { changes: Change[] }) {
+  return (
+    <div className="whitespace-pre-wrap break-all font-mono text-xs leading-relaxed">
+      {changes.map((change, index) =>
+        change.added ? (
+          <ins key={index} className="bg-green-100 text-green-800 no-underline dark:bg-green-950/50 dark:text-green-200">
+            {change.value}
+          </ins>
+        ) : change.removed ? (
+          <del key={index} className="bg-red-100 text-red-800 dark:bg-red-950/50 dark:text-red-200">
+            {change.value}
+          </del>
+        ) : (
+          <UnchangedText key={index} value={change.value} />
+        )
+      )}
+    </div>
+  );
+}
+
+function VersionItem({
+  version,
+  selected,
+  onSelect,
+}: {
+  version: VersionSummary;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={cn(
+        "relative w-full border-l-2 py-1.5 pl-3 pr-2 text-left text-xs transition-colors hover:bg-muted/60",
+        selected ? "border-primary bg-muted" : "border-border"
+      )}
+    >
+      <div className="flex items-center gap-1">
+        <span className="font-medium">v{version.version}</span>
+        {version.pinned && <Pin className="h-3 w-3 text-amber-500" />}
+        <span className="ml-auto text-muted-foreground">{dayjs(version.createdAt).fromNow()}</span>
+      </div>
+      {version.label && <div className="truncate text-amber-700 dark:text-amber-400">{version.label}</div>}
+      <div className="truncate text-muted-foreground">{version.title}</div>
+    </button>
+  );
+}
+
+/**
+ * 版本历史抽屉
+ * 按来源分组显示历史版本，支持与当前内容或其他版本逐词对比、一键恢复和固定命名快照
+ */
+export function VersionHistoryDrawer({
+  open,
+  onOpenChange,
+  articleId,
+  currentContent,
+  onRestored,
+}: VersionHistoryDrawerProps) {
+  const isMobile = useIsMobile();
+  const trpcUtils = trpc.useContext();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareTarget, setCompareTarget] = useState<string>(CURRENT_TARGET);
+  const [snapshotLabel, setSnapshotLabel] = useState("");
+  const [pinLabel, setPinLabel] = useState("");
+
+  const { data: versions = [], isLoading } = trpc.sync.getVersionHistory.useQuery(
+    { articleId, limit: HISTORY_LIMIT },
+    { enabled: open }
+  );
+  const versionList = versions as VersionSummary[];
+
+  const { data: selectedVersion } = trpc.sync.getVersion.useQuery(
+    { versionId: selectedId! },
+    { enabled: open && selectedId !== null }
+  );
+  const compareVersionId = compareTarget === CURRENT_TARGET ? null : Number(compareTarget);
+  const { data: compareVersion } = trpc.sync.getVersion.useQuery(
+    { versionId: compareVersionId! },
+    { enabled: open && compareVersionId !== null }
+  );
+
+  // 打开时默认选中最新的版本
+  useEffect(() => {
+    if (!open) return;
+    if (versionList.length > 0 && !versionList.some((v) => v.id === selectedId)) {
+      setSelectedId(versionList[0].id);
+      setCompareTarget(CURRENT_TARGET);
+    }
+  }, [open, versionList, selectedId]);
+
+  useEffect(() => {
+    setPinLabel("");
+  }, [selectedId]);
+
+  const groups = useMemo(() => {
+    const pinned = versionList.filter((v) => v.pinned);
+    const bySource = (Object.keys(SOURCE_LABELS) as VersionSource[])
+      .map((source) => ({
+        source,
+        items: versionList.filter((v) => v.source === source && !v.pinned),
+      }))
+      .filter((group) => group.items.length > 0);
+    return { pinned, bySource };
+  }, [versionList]);
+
+  const targetContent =
+    compareTarget === CURRENT_TARGET
+      ? currentContent
+      : (compareVersion as VersionDetail | undefined)?.content;
+
+  const diff = useMemo(() => {
+    const source = (selectedVersion as VersionDetail | undefined)?.content;
+    if (source === undefined || targetContent === undefined) return null;
+    const changes = diffWords(source, targetContent, {
+      intlSegmenter: getWordSegmenter(),
+      maxEditLength: MAX_EDIT_LENGTH,
+    });
+    return { changes: changes ?? null };
+  }, [selectedVersion, targetContent]);
+
+  const changeCount = diff?.changes?.filter((c) => c.added || c.removed).length ?? 0;
+
+  const invalidateHistory = () => trpcUtils.sync.getVersionHistory.invalidate({ articleId });
+
+  const snapshotMutation = trpc.sync.createSnapshot.useMutation({
+    onSuccess: async (version: VersionSummary) => {
+      message.success("快照已保存");
+      setSnapshotLabel("");
+      // 列表刷新后再选中，否则会被默认选中逻辑覆盖
+      await invalidateHistory();
+      setSelectedId(version.id);
+    },
+    onError: (error: Error) => {
+      message.error(`保存快照失败: ${error.message}`);
+    },
+  });
+
+  const pinMutation = trpc.sync.setVersionPinned.useMutation({
+    onSuccess: (version: VersionSummary) => {
+      message.success(version.pinned ? "已固定，该版本不会被自动清理" : "已取消固定");
+      invalidateHistory();
+      trpcUtils.sync.getVersion.invalidate({ versionId: version.id });
+    },
+    onError: (error: Error) => {
+      message.error(`操作失败: ${error.message}`);
+    },
+  });
+
+  const restoreMutation = trpc.sync.restoreVersion.useMutation({
+    onSuccess: () => {
+      message.success("已恢复到所选版本");
+      invalidateHistory();
+      onRestored?.();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      message.error(`恢复失败: ${error.message}`);
+    },
+  });
+
+  const handleRestore = () => {
+    const version = selectedVersion as VersionDetail | undefined;
+    if (!version) return;
+    Modal.confirm({
+      title: `恢复到 v${version.version}？`,
+      content: "当前内容会先保存为历史版本，恢复后可以随时再切换回来。",
+      okText: "恢复",
+      cancelText: "取消",
+      onOk: () => restoreMutation.mutateAsync({ versionId: version.id }),
+    });
+  };
+
+  const compareOptions = [
+    { value: CURRENT_TARGET, label: "当前内容" },
+    ...versionList
+      .filter((v) => v.id !== selectedId)
+      .map((v) => ({
+        value: String(v.id),
+        label: `v${v.version} · ${v.label || SOURCE_LABELS[v.source]} · ${formatVersionTime(v.createdAt)}`,
+      })),
+  ];
+
+  const selected = selectedVersion as VersionDetail | undefined;
+
+  return (
+    <Drawer
+      title={
+        <span className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          版本历史
+        </span>
+      }
+      placement="right"
+      width={isMobile ? "100%" : 860}
+      open={open}
+      onClose={() => onOpenChange(false)}
+      styles={{
+        header: { padding: "12px 16px", borderBottom: "1px solid var(--border)" },
+        body: { padding: 0, display: "flex", flexDirection: "column" },
+      }}
+    >
+      {/* 保存命名快照 */}
+      <div className="flex items-center gap-2 border-b px-4 py-2">
+        <Bookmark className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <Input
+          value={snapshotLabel}
+          onChange={(e) => setSnapshotLabel(e.target.value)}
+          placeholder="快照名称，如：已发给审稿人"
+          maxLength={50}
+          className="h-8 text-sm"
+        />
+        <Button
+          size="sm"
+          className="shrink-0"
+          disabled={!snapshotLabel.trim() || snapshotMutation.isLoading}
+          onClick={() => snapshotMutation.mutate({ articleId, label: snapshotLabel.trim() })}
+        >
+          {snapshotMutation.isLoading && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+          保存快照
+        </Button>
+      </div>
+
+      <div className={cn("flex min-h-0 flex-1", isMobile && "flex-col")}>
+        {/* 时间线 */}
+        <div
+          className={cn(
+            "shrink-0 overflow-y-auto border-border p-2",
+            isMobile ? "max-h-56 border-b" : "w-60 border-r"
+          )}
+        >
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : versionList.length === 0 ? (
+            <div className="py-10 text-center text-xs text-muted-foreground">暂无历史版本</div>
+          ) : (
+            <div className="space-y-3">
+              {groups.pinned.length > 0 && (
+                <div>
+                  <div className="mb-1 px-1 text-[11px] font-medium text-muted-foreground">已固定的快照</div>
+                  {groups.pinned.map((version) => (
+                    <VersionItem
+                      key={version.id}
+                      version={version}
+                      selected={version.id === selectedId}
+                      onSelect={() => setSelectedId(version.id)}
+                    />
+                  ))}
+                </div>
+              )}
+              {groups.bySource.map((group) => (
+                <div key={group.source}>
+                  <div className="mb-1 px-1 text-[11px] font-medium text-muted-foreground">
+                    {SOURCE_LABELS[group.source]}（{group.items.length}）
+                  </div>
+                  {group.items.map((version) => (
+                    <VersionItem
+                      key={version.id}
+                      version={version}
+                      selected={version.id === selectedId}
+                      onSelect={() => setSelectedId(version.id)}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* 版本详情与对比 */}
+        <div className="flex min-w-0 flex-1 flex-col">
+          {!selected ? (
+            <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+              {selectedId !== null ? <Loader2 className="h-4 w-4 animate-spin" /> : "选择一个版本查看差异"}
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2 border-b px-4 py-2">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="font-medium">
+                    v{selected.version} · {SOURCE_LABELS[selected.source]}
+                  </span>
+                  <span className="text-muted-foreground">{formatVersionTime(selected.createdAt)}</span>
+                  {selected.deviceId && (
+                    <span className="text-muted-foreground">设备 {selected.deviceId.slice(0, 8)}</span>
+                  )}
+                  <div className="ml-auto flex items-center gap-1">
+                    {selected.pinned ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        disabled={pinMutation.isLoading}
+                        onClick={() => pinMutation.mutate({ versionId: selected.id, pinned: false })}
+                      >
+                        <PinOff className="mr-1 h-3.5 w-3.5" />
+                        取消固定
+                      </Button>
+                    ) : (
+                      <>
+                        <Input
+                          value={pinLabel}
+                          onChange={(e) => setPinLabel(e.target.value)}
+                          placeholder="快照名称（可选）"
+                          maxLength={50}
+                          className="h-7 w-36 text-xs"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          disabled={pinMutation.isLoading}
+                          onClick={() =>
+                            pinMutation.mutate({
+                              versionId: selected.id,
+                              pinned: true,
+                              label: pinLabel.trim() || undefined,
+                            })
+                          }
+                        >
+                          <Pin className="mr-1 h-3.5 w-3.5" />
+                          固定
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      disabled={restoreMutation.isLoading}
+                      onClick={handleRestore}
+                    >
+                      <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                      恢复此版本
+                    </Button>
+                  </div>
+                </div>
+                {selected.label && (
+                  <div className="text-xs text-amber-700 dark:text-amber-400">{selected.label}</div>
+                )}
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="shrink-0">对比到</span>
+                  <NativeSelect
+                    options={compareOptions}
+                    value={compareTarget}
+                    onChange={setCompareTarget}
+                    className="h-7 flex-1 text-xs"
+                  />
+                  {diff?.changes && (
+                    <span className="shrink-0">{changeCount === 0 ? "内容一致" : `${changeCount} 处改动`}</span>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto px-4 py-3">
+                {!diff ? (
+                  <div className="flex items-center justify-center py-10 text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  </div>
+                ) : !diff.changes ? (
+                  <div className="py-10 text-center text-sm text-muted-foreground">改动过多，无法逐词对比</div>
+                ) : (
+                  <WordDiffView changes={diff.changes} />
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </Drawer>
+  );
+}
+
+export default VersionHistoryDrawer;
@@ -15,10 +15,12 @@ import {
   Settings2,
   Zap,
   X,
+  Archive,
+  Loader2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Select as AntdSelect } from "antd";
+import { Select as AntdSelect, message as antdMessage } from "antd";
 import {
   Tooltip,
   TooltipContent,
@@ -28,11 +30,13 @@ import {
 import { cn } from "@/lib/utils";
 import { useAIChat } from "./hooks/useAIChat";
 import { useToolPermissions } from "./hooks/useToolPermissions";
+import { usePromptCommands } from "./hooks/usePromptCommands";
 import { ToolPermissionDialog } from "./ToolPermissionDialog";
 import { AILoadingIndicator } from "./AILoadingIndicator";
 import { MessageItem } from "./MessageItem";
 import { QueuedMessageItem } from "./QueuedMessageItem";
-import type { AIChatPanelProps } from "./types";
+import { SlashCommandMenu } from "./SlashCommandMenu";
+import type { AIChatPanelProps, PromptCommand } from "./types";
 
 // 最小宽度（最大宽度不限制，可自由拖拽）
 const MIN_WIDTH = 280;
@@ -54,6 +58,9 @@ export function AIChatPanel({
   const [permissionDialogOpen, setPermissionDialogOpen] = useState(false);
   // 粘贴的图片（base64 格式）
   const [pastedImages, setPastedImages] = useState<string[]>([]);
+  // 快捷指令补全：当前高亮项，按 Esc 后隐藏直到输入变化
+  const [activeCommandIndex, setActiveCommandIndex] = useState(0);
+  const [commandMenuDismissed, setCommandMenuDismissed] = useState(false);
   
   // Refs
   const panelRef = useRef<HTMLDivElement>(null);
@@ -68,6 +75,13 @@ export function AIChatPanel({
   // 工具权限配置 Hook
   const toolPermissions = useToolPermissions();
   
+  // 提示词快捷指令
+  const { getSuggestions, expandCommand } = usePromptCommands(toolContext);
+  const commandSuggestions = useMemo(
+    () => (commandMenuDismissed ? [] : getSuggestions(inputValue)),
+    [commandMenuDismissed, getSuggestions, inputValue]
+  );
+  
   // AI 聊天 Hook
   const {
     session,
@@ -86,6 +100,10 @@ export function AIChatPanel({
     stopGeneration,
     clearMessages,
     editAndResend,
+    // 上下文压缩
+    compactContext,
+    isCompacting,
+    contextTokens,
     // 待发送消息队列
     queuedMessages,
     removeQueuedMessage,
@@ -114,6 +132,16 @@ export function AIChatPanel({
     return fromMessages > 0 ? fromMessages : (session?.totalTokens || 0);
   }, [messages, session?.totalTokens]);
   
+  // 手动压缩上下文
+  const handleCompact = useCallback(async () => {
+    const compactedCount = await compactContext();
+    if (compactedCount > 0) {
+      antdMessage.success(`已压缩 ${compactedCount} 条消息`);
+    } else {
+      antdMessage.info("没有可压缩的历史消息");
+    }
+  }, [compactContext]);
+  
   // 判断用户是否在底部（允许 50px 的误差）
   const isNearBottom = useCallback(() => {
     const container = scrollAreaRef.current;
@@ -242,7 +270,7 @@ export function AIChatPanel({
   const handleSend = useCallback(async () => {
     if (!inputValue.trim() && pastedImages.length === 0) return;
     
-    const message = inputValue.trim();
+    const message = expandCommand(inputValue.trim());
     const images = pastedImages.length > 0 ? [...pastedImages] : undefined;
     
     setInputValue("");
@@ -256,15 +284,47 @@ export function AIChatPanel({
     
     // 直接发送消息
     await sendMessage(message || "请描述这张图片", images);
-  }, [inputValue, pastedImages, isLoading, isStreaming, sendMessage, queueMessage]);
+  }, [inputValue, pastedImages, isLoading, isStreaming, sendMessage, queueMessage, expandCommand]);
+  
+  // 输入变化时重新显示指令补全
+  const handleInputChange = useCallback((value: string) => {
+    setInputValue(value);
+    setActiveCommandIndex(0);
+    setCommandMenuDismissed(false);
+  }, []);
+  
+  // 选中指令：补全指令名，之后可继续输入补充说明
+  const handleSelectCommand = useCallback((command: PromptCommand) => {
+    setInputValue(`/${command.command} `);
+    setActiveCommandIndex(0);
+    textareaRef.current?.focus();
+  }, []);
   
   // 键盘事件（输入框内）
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (commandSuggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const offset = e.key === "ArrowDown" ? 1 : -1;
+        setActiveCommandIndex((index) => (index + offset + commandSuggestions.length) % commandSuggestions.length);
+        return;
+      }
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+        e.preventDefault();
+        handleSelectCommand(commandSuggestions[Math.min(activeCommandIndex, commandSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setCommandMenuDismissed(true);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
     }
-  }, [handleSend]);
+  }, [commandSuggestions, activeCommandIndex, handleSelectCommand, handleSend]);
   
   // 全局快捷键：Ctrl+N 清空会话
   useEffect(() => {
@@ -394,29 +454,46 @@ export function AIChatPanel({
           <div className="px-4 py-2 border-b shrink-0 space-y-1">
             <div className="flex items-center justify-between text-xs text-muted-foreground">
               <span>会话 Tokens</span>
+              <span>{sessionTokens.toLocaleString()}</span>
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
               <span>
-                {sessionTokens.toLocaleString()}
+                当前上下文约 {contextTokens.toLocaleString()}
                 {selectedModel?.contextLength && (
                   <span className="text-muted-foreground/70">
                     {" / "}{selectedModel.contextLength.toLocaleString()}
                   </span>
                 )}
               </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 px-1.5 text-xs"
+                onClick={handleCompact}
+                disabled={isLoading || isStreaming || isCompacting}
+              >
+                {isCompacting ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <Archive className="h-3 w-3 mr-1" />
+                )}
+                立即压缩
+              </Button>
             </div>
-            {/* 进度条 - 仅在配置了上下文长度时显示 */}
+            {/* 进度条 - 仅在配置了上下文长度时显示，接近上限时自动压缩 */}
             {selectedModel?.contextLength && (
               <div className="h-1.5 bg-muted rounded-full overflow-hidden">
                 <div 
                   className={cn(
                     "h-full rounded-full transition-all duration-300",
-                    sessionTokens / selectedModel.contextLength > 0.9 
+                    contextTokens / selectedModel.contextLength > 0.9 
                       ? "bg-red-500" 
-                      : sessionTokens / selectedModel.contextLength > 0.7 
+                      : contextTokens / selectedModel.contextLength > 0.7 
                         ? "bg-yellow-500" 
                         : "bg-purple-500"
                   )}
                   style={{ 
-                    width: `${Math.min(100, (sessionTokens / selectedModel.contextLength) * 100)}%` 
+                    width: `${Math.min(100, (contextTokens / selectedModel.contextLength) * 100)}%` 
                   }}
                 />
               </div>
@@ -549,11 +626,17 @@ export function AIChatPanel({
             </div>
           )}
           {/* 输入框 */}
-          <div className="px-3 pt-3">
+          <div className="px-3 pt-3 relative">
+            <SlashCommandMenu
+              commands={commandSuggestions}
+              activeIndex={activeCommandIndex}
+              onSelect={handleSelectCommand}
+              onHover={setActiveCommandIndex}
+            />
             <Textarea
               ref={textareaRef}
               value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
+              onChange={(e) => handleInputChange(e.target.value)}
               onKeyDown={handleKeyDown}
               onPaste={handlePaste}
               placeholder={
@@ -563,7 +646,7 @@ export function AIChatPanel({
                     ? "输入消息加入待发送队列..."
                     : pastedImages.length > 0
                       ? "添加描述或直接发送图片..."
-                      : "输入消息，可粘贴图片..."
+                      : "输入消息或 / 快捷指令，可粘贴图片..."
               }
               disabled={!selectedModel}
               className="resize-none min-h-[60px] max-h-[150px] border-0 shadow-none focus-visible:ring-0 px-0"
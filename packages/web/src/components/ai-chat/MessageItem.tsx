@@ -2,7 +2,7 @@ import { useState, useCallback, useRef, useEffect } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { Image } from "antd";
-import { Bot, Loader2, Pencil, X, Check } from "lucide-react";
+import { Bot, Loader2, Pencil, X, Check, Archive, ChevronRight, ChevronDown, Pin } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -23,10 +23,82 @@ interface MessageItemProps {
 }
 
 /**
- * 单条消息组件 - Cline 风格
- * 使用 memo 避免不必要的重新渲染（特别是 ReactMarkdown 渲染会触发图片请求）
+ * 上下文摘要 - 固定在被压缩的消息之后，默认展开
  */
-export function MessageItem({
+function SummaryMessage({ message }: { message: ChatMessage }) {
+  const [expanded, setExpanded] = useState(true);
+
+  return (
+    <div className="py-2">
+      <div className="rounded-md border border-amber-300/60 dark:border-amber-600/40 bg-amber-50/60 dark:bg-amber-950/20">
+        <button
+          type="button"
+          className="flex w-full items-center gap-2 px-3 py-1.5 text-left"
+          onClick={() => setExpanded(prev => !prev)}
+        >
+          <Pin className="h-3.5 w-3.5 text-amber-600 dark:text-amber-400" />
+          <span className="text-xs font-medium text-muted-foreground">上下文摘要</span>
+          <span className="text-[10px] text-muted-foreground/70">较早的对话已压缩，AI 将基于此摘要继续</span>
+          {expanded ? (
+            <ChevronDown className="h-3.5 w-3.5 text-muted-foreground ml-auto" />
+          ) : (
+            <ChevronRight className="h-3.5 w-3.5 text-muted-foreground ml-auto" />
+          )}
+        </button>
+        {expanded && (
+          <div className="px-3 pb-2 text-sm leading-relaxed ai-chat-markdown border-t border-amber-300/40 dark:border-amber-600/30 pt-2">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 单条消息组件
+ * 摘要消息固定展示；已压缩的消息折叠为一行，点击后展开原始内容
+ */
+export function MessageItem(props: MessageItemProps) {
+  const { message } = props;
+  const [expanded, setExpanded] = useState(false);
+
+  if (message.isSummary) {
+    return <SummaryMessage message={message} />;
+  }
+
+  if (!message.compactedInto) {
+    return <MessageBody {...props} />;
+  }
+
+  const preview = message.content.trim()
+    || (message.toolCalls?.length ? `调用工具：${message.toolCalls.map(tc => tc.name).join("、")}` : "");
+
+  return (
+    <div className="py-0.5">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1.5 rounded px-1 py-0.5 text-left text-xs text-muted-foreground/70 hover:bg-muted/50"
+        onClick={() => setExpanded(prev => !prev)}
+      >
+        {expanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+        <Archive className="h-3 w-3 shrink-0" />
+        <span className="shrink-0">{message.role === "user" ? "用户" : "AI"}</span>
+        <span className="truncate">{preview}</span>
+      </button>
+      {expanded && (
+        <div className="opacity-70">
+          <MessageBody {...props} onEditMessage={undefined} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 消息内容 - Cline 风格
+ */
+function MessageBody({
   message,
   pendingChanges,
   currentPendingChange,
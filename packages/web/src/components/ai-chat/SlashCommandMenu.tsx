@@ -0,0 +1,55 @@
+/**
+ * 快捷指令补全菜单
+ * 在输入框上方列出匹配的提示词指令
+ */
+
+import { useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+import type { PromptCommand } from "./types";
+
+interface SlashCommandMenuProps {
+  commands: PromptCommand[];
+  activeIndex: number;
+  onSelect: (command: PromptCommand) => void;
+  onHover: (index: number) => void;
+}
+
+export function SlashCommandMenu({ commands, activeIndex, onSelect, onHover }: SlashCommandMenuProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 键盘切换时保持选中项可见
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (commands.length === 0) return null;
+
+  return (
+    <div
+      ref={listRef}
+      className="absolute left-3 right-3 bottom-full mb-1 max-h-56 overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow-md z-20 py-1"
+    >
+      {commands.map((command, index) => (
+        <button
+          key={command.command}
+          type="button"
+          className={cn(
+            "w-full text-left px-3 py-1.5 text-sm flex items-baseline gap-2",
+            index === activeIndex && "bg-accent text-accent-foreground"
+          )}
+          // 阻止输入框失焦
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHover(index)}
+          onClick={() => onSelect(command)}
+        >
+          <span className="font-mono text-purple-600 dark:text-purple-400 shrink-0">/{command.command}</span>
+          <span className="shrink-0">{command.name}</span>
+          {command.description && (
+            <span className="text-xs text-muted-foreground truncate">{command.description}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
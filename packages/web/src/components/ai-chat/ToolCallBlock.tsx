@@ -17,6 +17,7 @@ import {
   Database,
   Clock,
   Eye,
+  Plug,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
@@ -26,8 +27,9 @@ import {
   TooltipProvider,
 } from "@/components/ui/tooltip";
 import { InlineDiffPreview } from "./InlineDiffPreview";
-import type { ToolCallRecord, PendingChange } from "./types";
-import { ToolRegistry } from "./types";
+import type { ToolCallRecord, PendingChange, McpToolInfo } from "./types";
+import { ToolRegistry, parseMcpToolName } from "./types";
+import { useMcpTools } from "./hooks/useMcpTools";
 
 interface ToolCallBlockProps {
   toolCalls: ToolCallRecord[];
@@ -42,6 +44,9 @@ interface ToolCallBlockProps {
 
 // 工具图标映射（根据工具类型和执行位置）
 const getToolIcon = (toolName: string): React.ReactNode => {
+  if (parseMcpToolName(toolName)) {
+    return <Plug className="h-3.5 w-3.5" />;
+  }
   const tool = ToolRegistry.getByName(toolName);
   if (!tool) {
     return <Wrench className="h-3.5 w-3.5" />;
@@ -64,11 +69,19 @@ const getToolIcon = (toolName: string): React.ReactNode => {
 };
 
 // 获取工具信息（从工具注册表获取，支持未注册的工具显示默认信息）
-const getToolInfo = (toolName: string): { name: string; description: string } => {
+const getToolInfo = (toolName: string, mcpTool?: McpToolInfo): { name: string; description: string } => {
   const tool = ToolRegistry.getByName(toolName);
   if (tool) {
     return { name: tool.displayName, description: tool.description };
   }
+  // MCP 工具：服务已删除或停用时只显示原始工具名
+  if (mcpTool) {
+    return { name: mcpTool.title, description: mcpTool.description || `${mcpTool.serverName} 提供的工具` };
+  }
+  const mcpName = parseMcpToolName(toolName);
+  if (mcpName) {
+    return { name: mcpName.toolName, description: "MCP 服务提供的工具" };
+  }
   // 未注册的工具返回默认信息
   return { name: toolName, description: `执行 ${toolName} 工具` };
 };
@@ -116,6 +129,8 @@ const statusConfig = {
 
 interface SingleToolCallProps {
   toolCall: ToolCallRecord;
+  // MCP 工具的服务和显示信息
+  mcpTool?: McpToolInfo;
   pendingChange?: PendingChange;
   // 当前正在审核的变更（用于判断是否显示 Diff 预览）
   currentPendingChange?: PendingChange | null;
@@ -123,7 +138,7 @@ interface SingleToolCallProps {
   onRejectChange?: (change: PendingChange) => void;
 }
 
-function SingleToolCall({ toolCall, pendingChange, currentPendingChange, onAcceptChange, onRejectChange }: SingleToolCallProps) {
+function SingleToolCall({ toolCall, mcpTool, pendingChange, currentPendingChange, onAcceptChange, onRejectChange }: SingleToolCallProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const argsRef = useRef<HTMLPreElement>(null);
   
@@ -152,7 +167,8 @@ function SingleToolCall({ toolCall, pendingChange, currentPendingChange, onAccep
   
   const status = statusConfig[toolCall.status];
   const icon = getToolIcon(toolCall.name);
-  const info = getToolInfo(toolCall.name);
+  const info = getToolInfo(toolCall.name, mcpTool);
+  const isMcp = toolCall.type === "mcp" || !!parseMcpToolName(toolCall.name);
   const displayName = info.name;
   const toolDescription = info.description;
   
@@ -206,7 +222,7 @@ function SingleToolCall({ toolCall, pendingChange, currentPendingChange, onAccep
         <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
           <Clock className="h-4 w-4 animate-pulse" />
           <span className="font-medium">
-            {getToolInfo(toolCall.name).name}
+            {displayName}
           </span>
           <span className="text-xs">- 等待审核...</span>
         </div>
@@ -280,7 +296,14 @@ function SingleToolCall({ toolCall, pendingChange, currentPendingChange, onAccep
             </span>
           )}
           
-          {toolCall.executionLocation === "backend" && (
+          {isMcp ? (
+            <span
+              className="text-[10px] px-1.5 py-0.5 rounded bg-purple-100 dark:bg-purple-900/50 text-purple-600 dark:text-purple-400 max-w-[120px] truncate"
+              title={mcpTool?.serverName}
+            >
+              {mcpTool?.serverName || "MCP"}
+            </span>
+          ) : toolCall.executionLocation === "backend" && (
             <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400">
               服务端
             </span>
@@ -318,7 +341,11 @@ function SingleToolCall({ toolCall, pendingChange, currentPendingChange, onAccep
             {parsedResult && (
               <div>
                 <div className="text-[10px] font-medium text-muted-foreground mb-1">结果</div>
-                <pre className="text-xs bg-black/5 dark:bg-white/5 rounded p-2 overflow-x-auto max-h-40">
+                <pre className={cn(
+                  "text-xs bg-black/5 dark:bg-white/5 rounded p-2 max-h-40",
+                  // MCP 工具返回的是文本，按行换行显示
+                  typeof parsedResult === "string" ? "overflow-auto whitespace-pre-wrap break-words" : "overflow-x-auto"
+                )}>
                   {typeof parsedResult === "string" 
                     ? parsedResult 
                     : JSON.stringify(parsedResult, null, 2)
@@ -351,6 +378,8 @@ export function ToolCallBlock({
   onAcceptChange,
   onRejectChange,
 }: ToolCallBlockProps) {
+  const { getTool: getMcpTool } = useMcpTools();
+
   if (!toolCalls || toolCalls.length === 0) return null;
   
   // 检查是否有正在执行的工具
@@ -430,6 +459,7 @@ export function ToolCallBlock({
           <SingleToolCall 
             key={toolCall.id || index} 
             toolCall={toolCall}
+            mcpTool={getMcpTool(toolCall.name)}
             pendingChange={pendingChange}
             currentPendingChange={currentPendingChange}
             onAcceptChange={onAcceptChange}
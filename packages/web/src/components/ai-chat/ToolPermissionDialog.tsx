@@ -11,6 +11,7 @@ import {
   Database,
   Eye,
   RotateCcw,
+  Plug,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -35,6 +36,9 @@ interface ToolPermissionDialogProps {
 
 // 根据工具定义获取图标
 const getToolIcon = (tool: ToolPermission): React.ReactNode => {
+  if (tool.mcpServerName) {
+    return <Plug className="h-4 w-4" />;
+  }
   const toolDef = ToolRegistry.getByName(tool.toolName);
   if (!toolDef) {
     return <Settings2 className="h-4 w-4" />;
@@ -73,9 +77,11 @@ export function ToolPermissionDialog({
 
   const tools = getToolList();
   
-  // 分组工具：只读工具 和 修改工具
-  const readTools = tools.filter(t => t.type === "read");
-  const writeTools = tools.filter(t => t.type === "write");
+  // 分组工具：只读工具、修改工具 和 MCP 服务提供的工具
+  const builtinTools = tools.filter(t => !t.mcpServerName);
+  const readTools = builtinTools.filter(t => t.type === "read");
+  const writeTools = builtinTools.filter(t => t.type === "write");
+  const mcpTools = tools.filter(t => t.mcpServerName);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -206,6 +212,28 @@ export function ToolPermissionDialog({
               ))}
             </div>
           </div>
+
+          {/* MCP 工具 */}
+          {mcpTools.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-1.5">
+                <Plug className="h-3.5 w-3.5" />
+                MCP 工具
+              </h4>
+              <div className="space-y-1">
+                {mcpTools.map(tool => (
+                  <ToolPermissionItem
+                    key={tool.toolName}
+                    tool={{ ...tool, displayName: `${tool.mcpServerName} · ${tool.displayName}` }}
+                    icon={getToolIcon(tool)}
+                    requiresApproval={settings.permissions[tool.toolName] ?? true}
+                    onChange={(requires) => setToolApproval(tool.toolName, requires)}
+                    disabled={isYoloMode}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -8,3 +8,6 @@ export const THINKING_SETTINGS_KEY = "editor-ai-thinking-settings";
 
 // 节流：工具参数更新的最小间隔（毫秒）
 export const ARGS_UPDATE_THROTTLE = 100;
+
+// 估算的上下文超过模型上下文长度的该比例时自动压缩
+export const CONTEXT_COMPACT_THRESHOLD = 0.8;
@@ -0,0 +1,67 @@
+/**
+ * 上下文压缩辅助函数
+ * 被压缩的消息只用于展示，发送给模型时用最新的摘要代替
+ */
+
+import type { ChatMessage } from "../types";
+
+export type CompactionMode = "turn" | "step";
+
+/**
+ * 粗略估算 token 数：中日韩字符约 1 token/字，其他字符约 4 字符/token
+ */
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  const cjk = text.match(/[　-鿿가-힯＀-￯]/g)?.length || 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * 仍需发送给模型的消息（未被压缩，且不是摘要）
+ */
+export function getActiveMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.filter((m) => !m.compactedInto && !m.isSummary);
+}
+
+/**
+ * 当前生效的摘要内容
+ */
+export function getContextSummary(messages: ChatMessage[]): string | undefined {
+  return [...messages].reverse().find((m) => m.isSummary && !m.compactedInto)?.content;
+}
+
+/**
+ * 摘要消息移到它所压缩的最后一条消息之后，使其固定在对话中被折叠部分的末尾
+ */
+export function placeSummaries(messages: ChatMessage[]): ChatMessage[] {
+  const result = messages.filter((m) => !m.isSummary);
+  for (const summary of messages.filter((m) => m.isSummary)) {
+    let index = -1;
+    result.forEach((m, i) => {
+      if (m.compactedInto === summary.id) index = i;
+    });
+    result.splice(index + 1, 0, summary);
+  }
+  return result;
+}
+
+/**
+ * 在本地消息列表上应用服务端的压缩结果（与服务端保留消息的规则一致）
+ */
+export function applyCompaction(
+  messages: ChatMessage[],
+  summary: ChatMessage,
+  mode: CompactionMode
+): ChatMessage[] {
+  const lastUserIndex = messages.map((m) => m.role).lastIndexOf("user");
+  const lastAssistantIndex = messages.map((m) => m.role).lastIndexOf("assistant");
+  const kept = (index: number) =>
+    mode === "turn"
+      ? index >= lastUserIndex
+      : index === lastUserIndex || (index === lastAssistantIndex && index > lastUserIndex);
+
+  const updated = messages.map((m, index) =>
+    m.compactedInto || kept(index) ? m : { ...m, compactedInto: summary.id as number }
+  );
+  return placeSummaries([...updated, { ...summary, isSummary: true }]);
+}
@@ -4,7 +4,8 @@
  * 支持待确认变更的管理
  */
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { message } from "antd";
 import { getApiBaseUrl } from "@/utils/serverConfig";
 import { getAuthToken } from "@/utils/auth";
 import type { 
@@ -18,7 +19,14 @@ import { executeToolCalls } from "../tools/frontendTools";
 import { buildContinueMessageHistory, type MessageContent } from "../tools/toolResultFormatter";
 import { useChatSession } from "./useChatSession";
 import { usePendingChanges } from "./usePendingChanges";
-import { DEFAULT_MAX_LOOP_COUNT, ARGS_UPDATE_THROTTLE } from "./constants";
+import { DEFAULT_MAX_LOOP_COUNT, ARGS_UPDATE_THROTTLE, CONTEXT_COMPACT_THRESHOLD } from "./constants";
+import {
+  estimateTokens,
+  getActiveMessages,
+  getContextSummary,
+  applyCompaction,
+  type CompactionMode,
+} from "./contextCompaction";
 
 interface UseAIChatOptions {
   articleId?: number;
@@ -35,6 +43,7 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentLoopCount, setCurrentLoopCount] = useState(0);
+  const [isCompacting, setIsCompacting] = useState(false);
   
   // 待发送消息队列
   const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
@@ -44,6 +53,8 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
   const currentMessageIdRef = useRef<string | null>(null);
   // 用于打破循环依赖的 ref
   const sendMessageToAPIRef = useRef<((messageHistory: Array<{ role: string; content: MessageContent }>, loopCount?: number) => Promise<void>) | null>(null);
+  // 上下文压缩后的摘要，随请求发送以代替已压缩的历史消息
+  const contextSummaryRef = useRef<string | undefined>(undefined);
   
   // 使用会话管理 Hook
   const sessionState = useChatSession({ articleId });
@@ -60,8 +71,51 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
     clearMessages: sessionClearMessages,
     addMessageMutation,
     updateMessageMutation,
+    compactSessionMutation,
   } = sessionState;
   
+  // 当前上下文的估算 token 数（未压缩的消息 + 摘要）
+  const contextTokens = useMemo(() => {
+    const active = getActiveMessages(messages).filter(m => m.role !== "tool");
+    return estimateTokens(active.map(m => ({ role: m.role, content: m.content, toolCalls: m.toolCalls })))
+      + estimateTokens(getContextSummary(messages) || "");
+  }, [messages]);
+  
+  // 消息历史是否接近模型的上下文长度
+  const shouldCompact = useCallback((messageHistory: unknown[]) => {
+    const contextLength = selectedModel?.contextLength;
+    if (!contextLength) return false;
+    const tokens = estimateTokens(messageHistory) + estimateTokens(contextSummaryRef.current || "");
+    return tokens > contextLength * CONTEXT_COMPACT_THRESHOLD;
+  }, [selectedModel]);
+  
+  // 压缩上下文：服务端总结较早的消息，本地同步折叠状态
+  // 返回被压缩的消息数
+  const compact = useCallback(async (mode: CompactionMode): Promise<number> => {
+    if (!session || !selectedModel) return 0;
+    setIsCompacting(true);
+    try {
+      const result = await compactSessionMutation.mutateAsync({
+        sessionId: session.id,
+        providerId: selectedModel.providerId,
+        modelId: selectedModel.modelId,
+        mode,
+      });
+      if (result.summary) {
+        const summary = {
+          ...result.summary,
+          role: "system",
+          status: "completed",
+        } as ChatMessage;
+        setMessages(prev => applyCompaction(prev, summary, mode));
+        contextSummaryRef.current = summary.content;
+      }
+      return result.compactedCount;
+    } finally {
+      setIsCompacting(false);
+    }
+  }, [session, selectedModel, compactSessionMutation, setMessages]);
+  
   // 执行后端工具
   const executeBackendTool = useCallback(async (
     toolCallId: string,
@@ -245,11 +299,13 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
           providerId: selectedModel.providerId,
           modelId: selectedModel.modelId,
           messages: messageHistory,
+          contextSummary: contextSummaryRef.current,
           enableTools: true,
           articleContext: toolContext.articleId ? {
             articleId: toolContext.articleId,
             title: toolContext.title,
             contentLength: toolContext.content.length,
+            platform: toolContext.platform,
           } : undefined,
           ...(thinkingSupported && thinkingSettings.enabled ? {
             thinkingEnabled: true,
@@ -361,7 +417,7 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
                 if (data.name) {
                   const newToolCall: ToolCallRecord = {
                     id: data.id || `call_${data.index}`,
-                    type: "function" as const,
+                    type: data.type || "function",
                     name: data.name,
                     arguments: "",
                     status: "pending" as const,
@@ -423,6 +479,11 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
                 }
                 break;
                 
+              case "budget_warning":
+                // 同一 key 只保留一条提示，AI Loop 多次请求不重复弹出
+                message.warning({ content: data.message, key: "ai-budget-warning", duration: 6 });
+                break;
+                
               case "done":
                 messageUsage = data.usage;
                 messageDuration = data.duration;
@@ -612,12 +673,29 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
         
         // 使用 toolResultFormatter 构建继续对话的消息历史
         // 避免多次 HTTP 传输导致的 JSON 转义字符累积问题
-        const newHistory = buildContinueMessageHistory(
+        let newHistory = buildContinueMessageHistory(
           messageHistory,
           assistantContent,
           executedToolCalls
         );
         
+        // 工具结果累积接近上下文上限时，压缩之前的步骤，只保留用户请求和本次工具结果
+        if (shouldCompact(newHistory)) {
+          try {
+            const compactedCount = await compact("step");
+            if (compactedCount > 0) {
+              const lastUserMessage = [...messageHistory].reverse().find(m => m.role === "user");
+              newHistory = buildContinueMessageHistory(
+                lastUserMessage ? [lastUserMessage] : [],
+                assistantContent,
+                executedToolCalls
+              );
+            }
+          } catch (err) {
+            console.error("[AI Loop] 压缩上下文失败:", err);
+          }
+        }
+        
         await sendMessageToAPI(newHistory, loopCount + 1);
       } else {
         // 没有工具调用，保存消息到数据库
@@ -657,7 +735,7 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
       setIsLoading(false);
       abortControllerRef.current = null;
     }
-  }, [selectedModel, toolContext, session, executeBackendTool, addMessageMutation, requiresApproval, thinkingSettings, setMessages, pendingChangesState]);
+  }, [selectedModel, toolContext, session, executeBackendTool, addMessageMutation, requiresApproval, thinkingSettings, setMessages, pendingChangesState, shouldCompact, compact]);
   
   // 更新 sendMessageToAPI 的 ref（在函数定义后立即更新）
   sendMessageToAPIRef.current = sendMessageToAPI;
@@ -723,16 +801,41 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
       }
     }
     
-    const messageHistory = [
-      ...messages.filter(m => m.role !== "tool").map(m => ({
+    contextSummaryRef.current = getContextSummary(messages);
+    let messageHistory: Array<{ role: string; content: MessageContent }> = [
+      ...getActiveMessages(messages).filter(m => m.role !== "tool").map(m => ({
         role: m.role,
         content: m.content,
       })),
       { role: "user", content: messageContent },
     ];
     
+    // 接近上下文上限时，先把之前的对话压缩为摘要
+    if (shouldCompact(messageHistory)) {
+      try {
+        const compactedCount = await compact("turn");
+        if (compactedCount > 0) {
+          messageHistory = [{ role: "user", content: messageContent }];
+        }
+      } catch (err) {
+        console.error("压缩上下文失败:", err);
+      }
+    }
+    
     await sendMessageToAPI(messageHistory, 0);
-  }, [isLoading, isStreaming, messages, session, addMessageMutation, sendMessageToAPI, setMessages]);
+  }, [isLoading, isStreaming, messages, session, addMessageMutation, sendMessageToAPI, setMessages, shouldCompact, compact]);
+  
+  // 手动压缩上下文（保留最近一轮对话）
+  const compactContext = useCallback(async () => {
+    if (isLoading || isStreaming || isCompacting) return 0;
+    setError(null);
+    try {
+      return await compact("turn");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "压缩上下文失败");
+      return 0;
+    }
+  }, [isLoading, isStreaming, isCompacting, compact]);
   
   // 停止生成 - 中断所有正在进行的操作并重置状态
   const stopGeneration = useCallback(() => {
@@ -859,8 +962,9 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
     }
     
     // 构建消息历史并发送
+    contextSummaryRef.current = getContextSummary(messagesBeforeEdit);
     const messageHistory = [
-      ...messagesBeforeEdit.filter(m => m.role !== "tool").map(m => ({
+      ...getActiveMessages(messagesBeforeEdit).filter(m => m.role !== "tool").map(m => ({
         role: m.role,
         content: m.content,
       })),
@@ -924,6 +1028,9 @@ export function useAIChat(options: UseAIChatOptions): UseAIChatReturn {
     clearMessages,
     createNewSession,
     editAndResend,
+    compactContext,
+    isCompacting,
+    contextTokens,
     queuedMessages,
     removeQueuedMessage,
     clearQueuedMessages,
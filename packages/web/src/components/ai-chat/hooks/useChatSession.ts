@@ -12,6 +12,7 @@ import type {
   ThinkingSettings,
 } from "../types";
 import { SELECTED_MODEL_KEY, THINKING_SETTINGS_KEY } from "./constants";
+import { placeSummaries } from "./contextCompaction";
 
 interface UseChatSessionOptions {
   articleId?: number;
@@ -32,6 +33,7 @@ export interface ChatSessionState {
   clearMessages: () => Promise<void>;
   addMessageMutation: ReturnType<typeof trpc.aiChat.addMessage.useMutation>;
   updateMessageMutation: ReturnType<typeof trpc.aiChat.updateMessage.useMutation>;
+  compactSessionMutation: ReturnType<typeof trpc.aiChat.compactSession.useMutation>;
   utils: ReturnType<typeof trpc.useContext>;
 }
 
@@ -74,6 +76,7 @@ export function useChatSession(options: UseChatSessionOptions): ChatSessionState
   const getOrCreateSessionMutation = trpc.aiChat.getOrCreateArticleSession.useMutation();
   const addMessageMutation = trpc.aiChat.addMessage.useMutation();
   const updateMessageMutation = trpc.aiChat.updateMessage.useMutation();
+  const compactSessionMutation = trpc.aiChat.compactSession.useMutation();
   
   // 加载消息
   const { data: messagesData } = trpc.aiChat.getMessages.useQuery(
@@ -153,11 +156,11 @@ export function useChatSession(options: UseChatSessionOptions): ChatSessionState
   useEffect(() => {
     if (messagesData?.messages && session?.id) {
       if (currentSessionIdRef.current === session.id) {
-        setMessages(messagesData.messages.map((m: any) => ({
+        setMessages(placeSummaries(messagesData.messages.map((m: any) => ({
           ...m,
           status: m.status as ChatMessage["status"],
           role: m.role as ChatMessage["role"],
-        })));
+        }))));
       }
     }
   }, [messagesData, session?.id]);
@@ -239,6 +242,7 @@ export function useChatSession(options: UseChatSessionOptions): ChatSessionState
     clearMessages,
     addMessageMutation,
     updateMessageMutation,
+    compactSessionMutation,
     utils,
   };
 }
@@ -0,0 +1,28 @@
+/**
+ * MCP 工具列表 Hook
+ * 获取用户启用的 MCP 服务提供的工具，用于权限配置和工具调用展示
+ */
+
+import { useCallback } from "react";
+import { trpc } from "@/utils/trpc";
+import type { McpToolInfo } from "../types";
+
+export function useMcpTools() {
+  const { data } = trpc.mcp.listTools.useQuery(undefined, {
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const tools: McpToolInfo[] = data?.tools || [];
+
+  const getTool = useCallback(
+    (name: string) => tools.find((tool) => tool.name === name),
+    [tools]
+  );
+
+  return {
+    tools,
+    errors: (data?.errors || []) as Array<{ serverId: number; serverName: string; error: string }>,
+    getTool,
+  };
+}
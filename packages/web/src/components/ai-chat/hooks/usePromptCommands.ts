@@ -0,0 +1,74 @@
+/**
+ * 提示词快捷指令 Hook
+ * 在输入框中输入 /指令 时补全提示词库中的指令，发送时展开为提示词内容
+ */
+
+import { useCallback, useMemo } from "react";
+import { trpc } from "@/utils/trpc";
+import type { FrontendToolContext, PromptCommand } from "../types";
+
+/**
+ * 替换 {{selection}}、{{title}}、{{platform}}，未知变量保持原样
+ */
+export function renderPromptTemplate(content: string, variables: Record<string, string>): string {
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(variables, key) ? variables[key] : match
+  );
+}
+
+/**
+ * 解析输入框开头的 /指令，返回指令名和其后的补充说明
+ */
+export function parseSlashCommand(text: string): { command: string; rest: string } | null {
+  const match = text.match(/^\/([^\s/]+)(?:\s+([\s\S]*))?$/);
+  return match ? { command: match[1], rest: (match[2] || "").trim() } : null;
+}
+
+export function usePromptCommands(toolContext: FrontendToolContext) {
+  const { data } = trpc.promptLibrary.list.useQuery(undefined, {
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const commands: PromptCommand[] = useMemo(
+    () => (data || []).filter((t: { kind: string; enabled: boolean }) => t.kind === "command" && t.enabled),
+    [data]
+  );
+
+  /**
+   * 正在输入指令名时的候选列表（输入中还没有空格）
+   */
+  const getSuggestions = useCallback(
+    (input: string): PromptCommand[] => {
+      const match = input.match(/^\/([^\s/]*)$/);
+      if (!match) return [];
+      const keyword = match[1].toLowerCase();
+      return commands.filter(
+        (c) => c.command.toLowerCase().startsWith(keyword) || c.name.toLowerCase().includes(keyword)
+      );
+    },
+    [commands]
+  );
+
+  /**
+   * 把以已知指令开头的消息展开为提示词，指令后的文字作为补充说明附在末尾；
+   * 不是指令时原样返回
+   */
+  const expandCommand = useCallback(
+    (input: string): string => {
+      const parsed = parseSlashCommand(input);
+      const command = parsed && commands.find((c) => c.command === parsed.command);
+      if (!parsed || !command) return input;
+
+      const content = renderPromptTemplate(command.content, {
+        selection: toolContext.selection || "",
+        title: toolContext.title || "无标题",
+        platform: toolContext.platform || "",
+      }).trim();
+      return parsed.rest ? `${content}\n\n补充说明：${parsed.rest}` : content;
+    },
+    [commands, toolContext.selection, toolContext.title, toolContext.platform]
+  );
+
+  return { commands, getSuggestions, expandCommand };
+}
@@ -3,9 +3,10 @@
  * 管理 AI 工具的审核权限设置
  */
 
-import { useState, useCallback, useEffect } from "react";
-import type { ToolPermissionSettings } from "../types";
+import { useState, useCallback, useEffect, useMemo } from "react";
+import type { ToolPermission, ToolPermissionSettings } from "../types";
 import { DEFAULT_PERMISSION_SETTINGS, DEFAULT_TOOLS } from "../types";
+import { useMcpTools } from "./useMcpTools";
 
 const STORAGE_KEY = "ai-tool-permission-settings";
 
@@ -60,12 +61,26 @@ export interface UseToolPermissionsReturn {
   setAllToolsApproval: (requires: boolean) => void;
   // 重置为默认设置
   resetToDefault: () => void;
-  // 获取工具列表（用于 UI 展示）
-  getToolList: () => typeof DEFAULT_TOOLS;
+  // 获取工具列表（用于 UI 展示），包含 MCP 服务提供的工具
+  getToolList: () => ToolPermission[];
 }
 
 export function useToolPermissions(): UseToolPermissionsReturn {
   const [settings, setSettings] = useState<ToolPermissionSettings>(loadSettings);
+  const { tools: mcpTools } = useMcpTools();
+
+  // MCP 工具来自外部服务，默认都需要审核
+  const toolList = useMemo<ToolPermission[]>(() => [
+    ...DEFAULT_TOOLS,
+    ...mcpTools.map((tool) => ({
+      toolName: tool.name,
+      displayName: tool.title,
+      description: tool.description,
+      requiresApproval: true,
+      type: tool.readOnly ? "read" as const : "write" as const,
+      mcpServerName: tool.serverName,
+    })),
+  ], [mcpTools]);
 
   // 设置变化时保存到 localStorage
   useEffect(() => {
@@ -113,12 +128,12 @@ export function useToolPermissions(): UseToolPermissionsReturn {
   const setAllToolsApproval = useCallback((requires: boolean) => {
     setSettings(prev => ({
       ...prev,
-      permissions: DEFAULT_TOOLS.reduce((acc, tool) => {
+      permissions: toolList.reduce((acc, tool) => {
         acc[tool.toolName] = requires;
         return acc;
       }, {} as Record<string, boolean>),
     }));
-  }, []);
+  }, [toolList]);
 
   // 重置为默认设置
   const resetToDefault = useCallback(() => {
@@ -126,7 +141,7 @@ export function useToolPermissions(): UseToolPermissionsReturn {
   }, []);
 
   // 获取工具列表
-  const getToolList = useCallback(() => DEFAULT_TOOLS, []);
+  const getToolList = useCallback(() => toolList, [toolList]);
 
   return {
     settings,
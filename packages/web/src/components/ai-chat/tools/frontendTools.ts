@@ -5,7 +5,7 @@
  */
 
 import type { FrontendToolContext, ToolCallRecord, PendingChange } from "../types";
-import { ToolRegistry } from "../types";
+import { ToolRegistry, parseMcpToolName } from "../types";
 import { exactReplace } from "./stringMatcher";
 import { shouldSkipDiff } from "./optimizedDiff";
 
@@ -448,7 +448,7 @@ export async function executeToolCalls(
           operation: "update",
           oldValue: "",
           newValue: result.result ? JSON.stringify(result.result, null, 2) : "",
-          description: `${toolDef?.displayName || toolCall.name}`,
+          description: `${toolDef?.displayName || parseMcpToolName(toolCall.name)?.toolName || toolCall.name}`,
           skipDiff: true, // 只读操作不显示 diff
           isReadOnly: true, // 标记为只读审批，确认时不会修改文章内容
         };
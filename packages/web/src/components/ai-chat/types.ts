@@ -61,7 +61,7 @@ export const TOOL_REGISTRY: ToolDefinition[] = [
   {
     name: "query_articles",
     displayName: "查询文章",
-    description: "搜索已有的文章列表",
+    description: "全文搜索已有的文章",
     type: "read",
     executionLocation: "backend",
     defaultRequiresApproval: true,
@@ -123,6 +123,26 @@ export const ToolRegistry = {
   getWriteTools: () => TOOL_REGISTRY.filter(t => t.type === "write"),
 };
 
+// MCP 服务提供的工具（服务端 mcp.listTools 返回）
+export interface McpToolInfo {
+  // 发送给大模型的工具名：mcp__{服务ID}__{工具名}
+  name: string;
+  toolName: string;
+  serverId: number;
+  serverName: string;
+  title: string;
+  description: string;
+  readOnly: boolean;
+}
+
+const MCP_TOOL_NAME_PATTERN = /^mcp__(\d+)__(.+)$/;
+
+// 解析 MCP 工具名，非 MCP 工具返回 null
+export function parseMcpToolName(name: string): { serverId: number; toolName: string } | null {
+  const match = name.match(MCP_TOOL_NAME_PATTERN);
+  return match ? { serverId: Number(match[1]), toolName: match[2] } : null;
+}
+
 // 工具权限配置（兼容旧类型）
 export interface ToolPermission {
   toolName: string;
@@ -130,6 +150,8 @@ export interface ToolPermission {
   description: string;
   requiresApproval: boolean;
   type: "read" | "write";
+  // MCP 工具所属的服务
+  mcpServerName?: string;
 }
 
 // 工具权限设置
@@ -222,6 +244,10 @@ export interface ChatMessage {
   createdAt: Date | string;
   // 用户消息中的图片（base64 格式）
   images?: string[];
+  // 上下文压缩生成的摘要消息
+  isSummary?: boolean;
+  // 已被压缩进的摘要消息 ID（折叠展示，不再发送给模型）
+  compactedInto?: number | null;
 }
 
 // 待发送消息（在队列中等待发送）
@@ -265,6 +291,17 @@ export interface FrontendToolContext {
   onEditorRefresh?: () => void;
   // 直接设置编辑器内容（不重建编辑器，保持滚动位置）
   setEditorContent?: (markdown: string) => boolean;
+  // 编辑器中最近选中的文字、当前预览的发布平台（用于提示词变量）
+  selection?: string;
+  platform?: string;
+}
+
+// 提示词库中的快捷指令
+export interface PromptCommand {
+  command: string;
+  name: string;
+  description: string | null;
+  content: string;
 }
 
 // AI 模型信息
@@ -307,7 +344,7 @@ export interface SSEEventData {
   message?: string;
   toolCalls?: Array<{
     id: string;
-    type: "function";
+    type: "function" | "mcp";
     function: {
       name: string;
       arguments: string;
@@ -356,6 +393,11 @@ export interface UseAIChatReturn {
   createNewSession: () => Promise<void>;
   // 编辑并重新发送用户消息
   editAndResend: (messageId: string | number, newContent: string, newImages?: string[]) => Promise<void>;
+  // 手动压缩上下文，返回被压缩的消息数
+  compactContext: () => Promise<number>;
+  isCompacting: boolean;
+  // 当前发送给模型的上下文估算 token 数
+  contextTokens: number;
   
   // 待发送消息队列
   queuedMessages: QueuedMessage[];
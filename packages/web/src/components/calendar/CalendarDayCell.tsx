@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { CalendarEventChip } from "./CalendarEventChip";
+import { getLoadLevel, type CalendarEvent } from "./utils";
+import dayjs from "dayjs";
+
+interface CalendarDayCellProps {
+  day: dayjs.Dayjs;
+  events: CalendarEvent[];
+  // 是否属于当前月份（月视图中淡化其他月份的日期）
+  inCurrentMonth: boolean;
+  // 月视图中最多显示的事件数
+  maxVisible?: number;
+  // 正在拖拽的事件，用于判断能否放置
+  draggingEvent: CalendarEvent | null;
+  onDragStart: (event: CalendarEvent) => void;
+  onDragEnd: () => void;
+  onDrop: (day: dayjs.Dayjs) => void;
+}
+
+// 日历中的一天：展示当天事件和发布负载，可作为改期的放置目标
+export function CalendarDayCell({
+  day,
+  events,
+  inCurrentMonth,
+  maxVisible,
+  draggingEvent,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+}: CalendarDayCellProps) {
+  const [isOver, setIsOver] = useState(false);
+  const isToday = day.isSame(dayjs(), "day");
+  const isPast = day.isBefore(dayjs(), "day");
+  const canDrop = !!draggingEvent && !isPast && !day.isSame(draggingEvent.time, "day");
+  const load = getLoadLevel(events.length);
+
+  const visible = maxVisible ? events.slice(0, maxVisible) : events;
+  const hiddenCount = events.length - visible.length;
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (canDrop) {
+          e.preventDefault();
+          setIsOver(true);
+        }
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        if (canDrop) {
+          onDrop(day);
+        }
+      }}
+      className={cn(
+        "flex min-h-[110px] flex-col gap-1 border-b border-r p-1",
+        !inCurrentMonth && "bg-muted/30 text-muted-foreground",
+        isOver && "bg-primary/10 ring-2 ring-inset ring-primary"
+      )}
+    >
+      <div className="flex items-center justify-between text-xs">
+        <span
+          className={cn(
+            "flex h-5 w-5 items-center justify-center rounded-full",
+            isToday && "bg-primary text-primary-foreground"
+          )}
+        >
+          {day.date()}
+        </span>
+        {load && (
+          <span className="flex items-center gap-1 text-[10px] text-muted-foreground" title="当天发布负载">
+            <span className={cn("h-1.5 w-1.5 rounded-full", load.className)} />
+            {load.label}
+          </span>
+        )}
+      </div>
+      {visible.map((event) => (
+        <CalendarEventChip
+          key={event.key}
+          event={event}
+          onDragStart={onDragStart}
+          onDragEnd={onDragEnd}
+        />
+      ))}
+      {hiddenCount > 0 && (
+        <span className="px-1 text-[10px] text-muted-foreground">还有 {hiddenCount} 项</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Link } from "@tanstack/react-router";
+import { AlertCircle, CheckCircle, Clock, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PLATFORM_NAMES } from "@/utils/publications";
+import { getPlatformColor, EVENT_STATUS_LABELS, type CalendarEvent } from "./utils";
+import dayjs from "dayjs";
+
+interface CalendarEventChipProps {
+  event: CalendarEvent;
+  onDragStart?: (event: CalendarEvent) => void;
+  onDragEnd?: () => void;
+}
+
+// 日历事件条目：待执行的定时任务可拖拽到其他日期改期
+export function CalendarEventChip({ event, onDragStart, onDragEnd }: CalendarEventChipProps) {
+  const color = getPlatformColor(event.platform);
+  const draggable = event.kind === "task" && event.status === "pending";
+
+  const StatusIcon =
+    event.kind === "published"
+      ? CheckCircle
+      : event.status === "failed"
+        ? AlertCircle
+        : event.status === "running"
+          ? Loader2
+          : Clock;
+
+  const statusLabel =
+    event.kind === "published" ? EVENT_STATUS_LABELS.published : EVENT_STATUS_LABELS[event.status];
+
+  return (
+    <Link
+      to="/articles/$id/edit"
+      params={{ id: String(event.articleId) }}
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", event.key);
+        onDragStart?.(event);
+      }}
+      onDragEnd={onDragEnd}
+      title={`${event.title}\n${PLATFORM_NAMES[event.platform] || event.platform} · ${statusLabel || event.status}${event.errorMessage ? `\n${event.errorMessage}` : ""}`}
+      className={cn(
+        "flex items-center gap-1 rounded border px-1 py-0.5 text-[11px] leading-tight hover:bg-muted",
+        color.chip,
+        event.status === "failed" && "border-destructive/60",
+        draggable ? "cursor-grab active:cursor-grabbing" : "cursor-pointer"
+      )}
+    >
+      <span className={cn("h-1.5 w-1.5 shrink-0 rounded-full", color.dot)} />
+      <StatusIcon
+        className={cn(
+          "h-3 w-3 shrink-0",
+          event.kind === "published" && "text-green-600",
+          event.status === "failed" && "text-destructive",
+          event.status === "running" && "animate-spin"
+        )}
+      />
+      <span className="shrink-0 text-muted-foreground">{dayjs(event.time).format("HH:mm")}</span>
+      <span className="truncate">{event.title}</span>
+    </Link>
+  );
+}
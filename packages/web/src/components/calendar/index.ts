@@ -0,0 +1,10 @@
+export { CalendarDayCell } from "./CalendarDayCell";
+export { CalendarEventChip } from "./CalendarEventChip";
+export {
+  getVisibleDays,
+  getPlatformColor,
+  startOfWeek,
+  PLATFORM_COLORS,
+  type CalendarEvent,
+  type CalendarView,
+} from "./utils";
@@ -0,0 +1,66 @@
+import dayjs from "dayjs";
+
+/**
+ * 日历事件（与服务端 CalendarEvent 一致）
+ */
+export interface CalendarEvent {
+  key: string;
+  kind: "task" | "published";
+  taskId?: number;
+  articleId: number;
+  title: string;
+  platform: string;
+  status: string;
+  time: string;
+  url?: string;
+  errorMessage?: string;
+}
+
+export type CalendarView = "month" | "week";
+
+// 平台颜色
+export const PLATFORM_COLORS: Record<string, { dot: string; chip: string }> = {
+  tencent: { dot: "bg-blue-500", chip: "border-blue-500/40 bg-blue-500/10" },
+  juejin: { dot: "bg-sky-400", chip: "border-sky-400/40 bg-sky-400/10" },
+  csdn: { dot: "bg-red-500", chip: "border-red-500/40 bg-red-500/10" },
+};
+
+const DEFAULT_PLATFORM_COLOR = { dot: "bg-gray-400", chip: "border-gray-400/40 bg-gray-400/10" };
+
+export function getPlatformColor(platform: string) {
+  return PLATFORM_COLORS[platform] || DEFAULT_PLATFORM_COLOR;
+}
+
+// 事件状态
+export const EVENT_STATUS_LABELS: Record<string, string> = {
+  pending: "待发布",
+  running: "发布中",
+  failed: "发布失败",
+  published: "已发布",
+};
+
+// 获取一周的第一天（周一）
+export function startOfWeek(date: dayjs.Dayjs): dayjs.Dayjs {
+  return date.subtract((date.day() + 6) % 7, "day").startOf("day");
+}
+
+/**
+ * 获取视图中显示的日期
+ * 月视图固定显示6周，周视图显示7天
+ */
+export function getVisibleDays(anchor: dayjs.Dayjs, view: CalendarView): dayjs.Dayjs[] {
+  const start = view === "month" ? startOfWeek(anchor.startOf("month")) : startOfWeek(anchor);
+  const count = view === "month" ? 42 : 7;
+  return Array.from({ length: count }, (_, i) => start.add(i, "day"));
+}
+
+/**
+ * 每日发布负载等级
+ * 用于提示当天安排的文章是否过多
+ */
+export function getLoadLevel(count: number): { label: string; className: string } | null {
+  if (count === 0) return null;
+  if (count <= 2) return { label: `${count} 篇`, className: "bg-green-500" };
+  if (count <= 4) return { label: `${count} 篇`, className: "bg-amber-500" };
+  return { label: `${count} 篇`, className: "bg-red-500" };
+}
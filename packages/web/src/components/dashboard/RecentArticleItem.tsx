@@ -2,6 +2,7 @@ import { useNavigate } from "@tanstack/react-router";
 import { FileEdit, ExternalLink } from "lucide-react";
 import { StatusBadge } from "./StatusBadge";
 import { formatRelativeTime } from "./utils";
+import { PLATFORM_NAMES, type ArticlePublication } from "@/utils/publications";
 
 interface RecentArticleItemProps {
   article: {
@@ -9,13 +10,15 @@ interface RecentArticleItemProps {
     title: string;
     status: string;
     updatedAt: string;
-    tencentArticleUrl?: string;
+    publications?: ArticlePublication[];
   };
 }
 
 // 最近文章列表项
 export function RecentArticleItem({ article }: RecentArticleItemProps) {
   const navigate = useNavigate();
+  // 第一个有文章链接的平台
+  const publishedOn = article.publications?.find((p) => !!p.url);
 
   const handleClick = () => {
     navigate({
@@ -26,13 +29,13 @@ export function RecentArticleItem({ article }: RecentArticleItemProps) {
 
   const handleExternalLinkClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (article.tencentArticleUrl) {
+    if (publishedOn?.url) {
       // 优先使用 Electron API 在系统默认浏览器中打开
       if (window.electronAPI?.shell?.openExternal) {
-        window.electronAPI.shell.openExternal(article.tencentArticleUrl);
+        window.electronAPI.shell.openExternal(publishedOn.url);
       } else {
         // 回退到 window.open（Web 环境）
-        window.open(article.tencentArticleUrl, "_blank", "noopener,noreferrer");
+        window.open(publishedOn.url, "_blank", "noopener,noreferrer");
       }
     }
   };
@@ -55,11 +58,11 @@ export function RecentArticleItem({ article }: RecentArticleItemProps) {
           {formatRelativeTime(article.updatedAt)}
         </span>
         <StatusBadge status={article.status} />
-        {article.tencentArticleUrl && (
+        {publishedOn?.url && (
           <button
             onClick={handleExternalLinkClick}
             className="text-muted-foreground hover:text-primary"
-            title="在腾讯云查看"
+            title={`在${PLATFORM_NAMES[publishedOn.platform] || publishedOn.platform}查看`}
           >
             <ExternalLink className="h-3 w-3" />
           </button>
@@ -0,0 +1,42 @@
+import { useNavigate } from "@tanstack/react-router";
+import { ClipboardCheck } from "lucide-react";
+import { formatRelativeTime } from "./utils";
+
+interface ReviewQueueItemProps {
+  article: {
+    id: number;
+    title: string;
+    author: string;
+    updatedAt: string;
+  };
+}
+
+// 待我审核列表项
+export function ReviewQueueItem({ article }: ReviewQueueItemProps) {
+  const navigate = useNavigate();
+
+  const handleClick = () => {
+    navigate({
+      to: "/articles/$id/edit",
+      params: { id: String(article.id) },
+    });
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className="flex items-center justify-between py-2 px-2 rounded hover:bg-muted/50 transition-colors cursor-pointer group"
+    >
+      <div className="flex items-center gap-2 min-w-0 flex-1">
+        <ClipboardCheck className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+        <p className="text-sm truncate group-hover:text-primary transition-colors">
+          {article.title || "无标题"}
+        </p>
+      </div>
+      <div className="flex items-center gap-2 shrink-0 text-xs text-muted-foreground">
+        <span>{article.author}</span>
+        <span className="hidden sm:inline">{formatRelativeTime(article.updatedAt)}</span>
+      </div>
+    </div>
+  );
+}
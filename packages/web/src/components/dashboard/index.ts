@@ -2,3 +2,4 @@ export { formatRelativeTime, formatScheduleTime } from "./utils";
 export { StatusBadge } from "./StatusBadge";
 export { RecentArticleItem } from "./RecentArticleItem";
 export { ScheduledTaskItem } from "./ScheduledTaskItem";
+export { ReviewQueueItem } from "./ReviewQueueItem";
@@ -12,7 +12,7 @@ import type { BaseEditorProps, EditorRef, VditorMode } from "./types";
 import { getServerBaseUrlSync } from "@/utils/serverConfig";
 
 // 检测是否在 Electron 环境中运行
-const isElectron = () => {
+export const isElectron = () => {
   return typeof window !== "undefined" && window.electronAPI !== undefined;
 };
 
@@ -28,7 +28,7 @@ const isElectron = () => {
  * 输出格式：
  * <div style="text-align: center">内容</div>
  */
-function transformAlignmentDirectives(content: string): string {
+export function transformAlignmentDirectives(content: string): string {
   const alignmentNames = ["center", "left", "right", "justify"];
   let result = content;
   
@@ -65,7 +65,7 @@ function transformAlignmentDirectives(content: string): string {
 }
 
 // 将图片路径转换为正确的完整 URL
-function convertImageUrl(url: string): string {
+export function convertImageUrl(url: string): string {
   // 如果是 base64，直接返回
   if (url.startsWith("data:")) {
     return url;
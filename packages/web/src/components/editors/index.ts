@@ -2,4 +2,10 @@
 export * from "./types";
 export { EditorSwitcher, EDITOR_ICONS, type EditorSwitcherProps, type EditorSwitcherRef } from "./EditorSwitcher";
 export { default as EditorSwitcherComponent } from "./EditorSwitcher";
-export { VditorEditor, type VditorEditorProps } from "./VditorEditor";
+export {
+  VditorEditor,
+  isElectron,
+  transformAlignmentDirectives,
+  convertImageUrl,
+  type VditorEditorProps,
+} from "./VditorEditor";
@@ -27,7 +27,9 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { trpc } from "@/utils/trpc";
+import { hasPermission, Permission } from "@/utils/auth";
 import { TreeNodeItem } from "./TreeNodeItem";
+import { FolderShareDialog } from "./FolderShareDialog";
 import {
   buildTree,
   buildTreeByPlatform,
@@ -61,6 +63,8 @@ export function FileTree({ onArticleClick }: FileTreeProps = {}) {
   );
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
+  // 正在设置共享的文件夹
+  const [shareTarget, setShareTarget] = useState<{ id: number; name: string } | null>(null);
   // 正在编辑的新建文件夹 ID
   const [editingFolderId, setEditingFolderId] = useState<number | null>(null);
   // 分组模式：none 表示不分组，其他为平台 ID
@@ -71,6 +75,9 @@ export function FileTree({ onArticleClick }: FileTreeProps = {}) {
   const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
   const [dropIndicator, setDropIndicator] = useState<DropIndicator | null>(null);
 
+  // 没有撰写权限的角色不能创建文章和文件夹
+  const canWrite = hasPermission(Permission.ARTICLE_WRITE);
+
   // 获取 tRPC context 用于手动刷新其他查询
   const trpcUtils = trpc.useContext();
 
@@ -497,6 +504,14 @@ export function FileTree({ onArticleClick }: FileTreeProps = {}) {
     [data?.articles]
   );
 
+  const handleShareFolder = useCallback(
+    (id: number) => {
+      const folder = data?.folders?.find((f: any) => f.id === id);
+      setShareTarget({ id, name: folder?.name || "文件夹" });
+    },
+    [data?.folders]
+  );
+
   const confirmDelete = useCallback(() => {
     if (!deleteTarget) return;
     if (deleteTarget.type === "folder") {
@@ -568,6 +583,7 @@ export function FileTree({ onArticleClick }: FileTreeProps = {}) {
             className="h-5 w-5"
             onClick={() => handleCreateArticle()}
             title="新建文章"
+            disabled={!canWrite}
           >
             <FilePlus className="h-3.5 w-3.5" />
           </Button>
@@ -577,6 +593,7 @@ export function FileTree({ onArticleClick }: FileTreeProps = {}) {
             className="h-5 w-5"
             onClick={() => handleCreateFolder()}
             title="新建文件夹"
+            disabled={!canWrite}
           >
             <FolderPlus className="h-3.5 w-3.5" />
           </Button>
@@ -616,6 +633,7 @@ export function FileTree({ onArticleClick }: FileTreeProps = {}) {
                     onRenameArticle={handleRenameArticle}
                     onDeleteFolder={handleDeleteFolder}
                     onDeleteArticle={handleDeleteArticle}
+                    onShareFolder={handleShareFolder}
                     onEditingComplete={() => setEditingFolderId(null)}
                     draggedItem={draggedItem}
                     dropTarget={dropTarget}
@@ -635,17 +653,23 @@ export function FileTree({ onArticleClick }: FileTreeProps = {}) {
           </ScrollArea>
         </ContextMenuTrigger>
         <ContextMenuContent>
-          <ContextMenuItem onClick={() => handleCreateArticle()}>
+          <ContextMenuItem disabled={!canWrite} onClick={() => handleCreateArticle()}>
             <FilePlus className="h-4 w-4 mr-2" />
             新建文章
           </ContextMenuItem>
-          <ContextMenuItem onClick={() => handleCreateFolder()}>
+          <ContextMenuItem disabled={!canWrite} onClick={() => handleCreateFolder()}>
             <FolderPlus className="h-4 w-4 mr-2" />
             新建文件夹
           </ContextMenuItem>
         </ContextMenuContent>
       </ContextMenu>
 
+      {/* 文件夹共享对话框 */}
+      <FolderShareDialog
+        folder={shareTarget}
+        onOpenChange={(open) => !open && setShareTarget(null)}
+      />
+
       {/* 删除确认对话框 */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Loader2, Trash2, Users } from "lucide-react";
+import { message } from "antd";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+
+type SharePermission = "read" | "edit";
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+  read: "只读",
+  edit: "可编辑",
+};
+
+interface FolderShareDialogProps {
+  folder: { id: number; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * 文件夹共享对话框
+ * 所有者把文件夹共享给其他成员，共享对子文件夹和其中的文章同样生效
+ */
+export function FolderShareDialog({ folder, onOpenChange }: FolderShareDialogProps) {
+  const open = folder !== null;
+  const utils = trpc.useContext();
+  const [memberId, setMemberId] = useState<string>("");
+  const [permission, setPermission] = useState<SharePermission>("read");
+
+  const { data: members } = trpc.folder.members.useQuery(undefined, { enabled: open });
+  const { data: shares, isLoading } = trpc.folder.shares.useQuery(
+    { folderId: folder?.id ?? 0 },
+    { enabled: open }
+  );
+
+  const handleSuccess = (list: any) => {
+    utils.folder.shares.setData({ folderId: folder!.id }, list);
+  };
+
+  const shareMutation = trpc.folder.share.useMutation({
+    onSuccess: (list: any) => {
+      handleSuccess(list);
+      setMemberId("");
+      message.success("已共享");
+    },
+    onError: (error: Error) => {
+      message.error(`共享失败: ${error.message}`);
+    },
+  });
+
+  const unshareMutation = trpc.folder.unshare.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error: Error) => {
+      message.error(`取消共享失败: ${error.message}`);
+    },
+  });
+
+  const sharedUserIds = new Set((shares || []).map((s: any) => s.userId));
+  const availableMembers = (members || []).filter((m: any) => !sharedUserIds.has(m.userId));
+
+  const handleShare = () => {
+    if (!folder || !memberId) return;
+    shareMutation.mutate({ folderId: folder.id, userId: Number(memberId), permission });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>共享文件夹</DialogTitle>
+          <DialogDescription>
+            共享 "{folder?.name}" 及其中的子文件夹和文章
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>添加成员</Label>
+          <div className="flex gap-2">
+            <Select value={memberId} onValueChange={setMemberId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={availableMembers.length ? "选择成员" : "没有可添加的成员"} />
+              </SelectTrigger>
+              <SelectContent>
+                {availableMembers.map((m: any) => (
+                  <SelectItem key={m.userId} value={String(m.userId)}>
+                    {m.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={permission} onValueChange={(v) => setPermission(v as SharePermission)}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="read">{PERMISSION_LABELS.read}</SelectItem>
+                <SelectItem value="edit">{PERMISSION_LABELS.edit}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleShare} disabled={!memberId || shareMutation.isLoading}>
+              共享
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>已共享</Label>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : !shares?.length ? (
+            <div className="flex items-center gap-2 py-3 text-sm text-muted-foreground">
+              <Users className="h-4 w-4" />
+              尚未共享给其他成员
+            </div>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {shares.map((share: any) => (
+                <div key={share.userId} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <span className="flex-1 truncate">{share.username}</span>
+                  <Select
+                    value={share.permission}
+                    onValueChange={(v) =>
+                      shareMutation.mutate({
+                        folderId: folder!.id,
+                        userId: share.userId,
+                        permission: v as SharePermission,
+                      })
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="read">{PERMISSION_LABELS.read}</SelectItem>
+                      <SelectItem value="edit">{PERMISSION_LABELS.edit}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="取消共享"
+                    disabled={unshareMutation.isLoading}
+                    onClick={() =>
+                      unshareMutation.mutate({ folderId: folder!.id, userId: share.userId })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
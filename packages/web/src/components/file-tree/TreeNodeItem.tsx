@@ -10,9 +10,11 @@ import {
   Pencil,
   Trash2,
   Globe,
+  Users,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { trpc } from "@/utils/trpc";
+import { hasPermission, Permission } from "@/utils/auth";
 import {
   ContextMenu,
   ContextMenuContent,
@@ -35,6 +37,7 @@ interface TreeNodeItemProps {
   onRenameArticle: (id: number, title: string) => void;
   onDeleteFolder: (id: number) => void;
   onDeleteArticle: (id: number) => void;
+  onShareFolder: (id: number) => void;
   onEditingComplete: () => void;
   draggedItem: DragData | null;
   dropTarget: DropTarget | null;
@@ -66,6 +69,7 @@ export function TreeNodeItem({
   onRenameArticle,
   onDeleteFolder,
   onDeleteArticle,
+  onShareFolder,
   onEditingComplete,
   draggedItem,
   dropTarget,
@@ -97,6 +101,16 @@ export function TreeNodeItem({
   const prefetchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isExpanded = node.type === "folder" && expandedFolders.has(node.id);
 
+  // 共享文件夹中的权限（文章使用所在文件夹的权限），自己的文件夹没有限制；
+  // 没有撰写权限的角色不能修改任何文章和文件夹
+  const access =
+    node.type === "folder"
+      ? node.access
+      : allFolders.find((f) => f.id === node.parentId)?.access;
+  const canWrite = hasPermission(Permission.ARTICLE_WRITE);
+  const canEdit = canWrite && access !== "read";
+  const isOwner = canWrite && (!access || access === "owner");
+
   const handleArticleMouseEnter = useCallback(() => {
     if (node.type !== "article") return;
     prefetchTimerRef.current = setTimeout(() => {
@@ -318,7 +332,7 @@ export function TreeNodeItem({
           />
         )}
         <button
-          draggable={!isEditing}
+          draggable={!isEditing && isOwner}
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
           onDragOver={handleDragOver}
@@ -357,6 +371,14 @@ export function TreeNodeItem({
               {node.name}
             </span>
           )}
+          {node.ownerName && (
+            <span
+              className="ml-1 shrink-0 text-muted-foreground"
+              title={`${node.ownerName} 共享（${access === "edit" ? "可编辑" : "只读"}）`}
+            >
+              <Users className="h-3.5 w-3.5" />
+            </span>
+          )}
         </button>
         {/* 排序指示器 - 下方 */}
         {showIndicatorAfter && (
@@ -378,27 +400,37 @@ export function TreeNodeItem({
               {folderContent}
             </ContextMenuTrigger>
             <ContextMenuContent>
-              <ContextMenuItem onClick={() => onCreateArticle(node.id)}>
+              <ContextMenuItem disabled={!canEdit} onClick={() => onCreateArticle(node.id)}>
                 <FilePlus className="h-4 w-4 mr-2" />
                 新建文章
               </ContextMenuItem>
-              <ContextMenuItem onClick={() => onCreateFolder(node.id)}>
+              <ContextMenuItem disabled={!canEdit} onClick={() => onCreateFolder(node.id)}>
                 <FolderPlus className="h-4 w-4 mr-2" />
                 新建文件夹
               </ContextMenuItem>
               <ContextMenuSeparator />
-              <ContextMenuItem onClick={() => setIsEditing(true)}>
+              <ContextMenuItem disabled={!canEdit} onClick={() => setIsEditing(true)}>
                 <Pencil className="h-4 w-4 mr-2" />
                 重命名
               </ContextMenuItem>
-              <ContextMenuSeparator />
-              <ContextMenuItem
-                onClick={() => onDeleteFolder(node.id)}
-                className="text-destructive focus:text-destructive"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                删除文件夹
-              </ContextMenuItem>
+              {isOwner && (
+                <ContextMenuItem onClick={() => onShareFolder(node.id)}>
+                  <Users className="h-4 w-4 mr-2" />
+                  共享...
+                </ContextMenuItem>
+              )}
+              {isOwner && (
+                <>
+                  <ContextMenuSeparator />
+                  <ContextMenuItem
+                    onClick={() => onDeleteFolder(node.id)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    删除文件夹
+                  </ContextMenuItem>
+                </>
+              )}
             </ContextMenuContent>
           </ContextMenu>
         )}
@@ -427,6 +459,7 @@ export function TreeNodeItem({
                   onRenameArticle={onRenameArticle}
                   onDeleteFolder={onDeleteFolder}
                   onDeleteArticle={onDeleteArticle}
+                  onShareFolder={onShareFolder}
                   onEditingComplete={onEditingComplete}
                   draggedItem={draggedItem}
                   dropTarget={dropTarget}
@@ -461,7 +494,7 @@ export function TreeNodeItem({
             />
           )}
           <Link
-            draggable={!isEditing}
+            draggable={!isEditing && canEdit}
             onDragStart={handleDragStart}
             onDragEnd={handleDragEnd}
             onDragOver={handleDragOver}
@@ -508,12 +541,13 @@ export function TreeNodeItem({
           <Pencil className="h-4 w-4 mr-2" />
           编辑文章
         </ContextMenuItem>
-        <ContextMenuItem onClick={() => setIsEditing(true)}>
+        <ContextMenuItem disabled={!canEdit} onClick={() => setIsEditing(true)}>
           <Pencil className="h-4 w-4 mr-2" />
           重命名
         </ContextMenuItem>
         <ContextMenuSeparator />
         <ContextMenuItem
+          disabled={!isOwner}
           onClick={() => onDeleteArticle(node.id)}
           className="text-destructive focus:text-destructive"
         >
@@ -1,3 +1,8 @@
+import { findPublication, type ArticlePublication } from "@/utils/publications";
+
+// 对文件夹的访问级别：owner 为所有者，edit / read 来自其他成员的共享
+export type FolderAccess = "owner" | "edit" | "read";
+
 // 文件夹项类型
 export interface FolderItem {
   id: number;
@@ -5,6 +10,9 @@ export interface FolderItem {
   parentId?: number;
   isExpanded: boolean;
   order: number;
+  access?: FolderAccess;
+  // 共享给自己的文件夹所有者，自己的文件夹为空
+  ownerName?: string | null;
 }
 
 // 文章项类型
@@ -14,13 +22,8 @@ export interface ArticleItem {
   folderId?: number;
   order: number;
   status: string;
-  // 平台发布状态
-  tencentArticleId?: string;
-  tencentArticleUrl?: string;
-  juejinArticleId?: string;
-  juejinArticleUrl?: string;
-  csdnArticleId?: string;
-  csdnArticleUrl?: string;
+  // 各平台发布状态
+  publications?: ArticlePublication[];
 }
 
 // 发布平台定义
@@ -36,17 +39,17 @@ export const PUBLISH_PLATFORMS: PublishPlatform[] = [
   {
     id: "tencent",
     name: "腾讯云社区",
-    checkPublished: (article) => !!article.tencentArticleId,
+    checkPublished: (article) => !!findPublication(article.publications, "tencent")?.remoteId,
   },
   {
     id: "juejin",
     name: "掘金",
-    checkPublished: (article) => !!article.juejinArticleId,
+    checkPublished: (article) => !!findPublication(article.publications, "juejin")?.remoteId,
   },
   {
     id: "csdn",
     name: "CSDN",
-    checkPublished: (article) => !!article.csdnArticleId,
+    checkPublished: (article) => !!findPublication(article.publications, "csdn")?.remoteId,
   },
 ];
 
@@ -61,6 +64,8 @@ export interface TreeNode {
   parentId?: number;
   isExpanded?: boolean;
   status?: string;
+  access?: FolderAccess;
+  ownerName?: string | null;
   children?: TreeNode[];
   // 虚拟目录相关（用于平台分组）
   isVirtual?: boolean;
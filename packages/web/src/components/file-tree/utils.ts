@@ -25,6 +25,8 @@ export function buildTree(
       name: folder.name,
       parentId: folder.parentId,
       isExpanded: folder.isExpanded,
+      access: folder.access,
+      ownerName: folder.ownerName,
       children: [],
     });
   });
@@ -112,6 +114,8 @@ export function buildTreeByPlatform(
       name: folder.name,
       parentId: folder.parentId,
       isExpanded: folder.isExpanded,
+      access: folder.access,
+      ownerName: folder.ownerName,
       children: [],
     });
   });
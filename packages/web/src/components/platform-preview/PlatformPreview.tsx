@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react";
+import Vditor from "vditor";
+import { GitCompare, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { trpc } from "@/utils/trpc";
+import { useDebounce } from "@/hooks/use-debounce";
+import {
+  isElectron,
+  transformAlignmentDirectives,
+  convertImageUrl,
+} from "@/components/editors";
+import { getPlatformPreviewTheme } from "./themes";
+import { TransformDiffOverlay } from "./TransformDiffOverlay";
+
+interface PublisherInfo {
+  platform: string;
+  name: string;
+}
+
+interface PreviewResult {
+  content: string;
+  supportsHtml: boolean;
+  report: {
+    processed: number;
+    downgrades: Array<{ name: string; line: number; style: string }>;
+  };
+}
+
+interface PlatformPreviewProps {
+  /** 编辑器中的 Markdown 原文 */
+  content: string;
+  platform: string;
+  onPlatformChange: (platform: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * 平台预览
+ * 先由服务端按平台转换 Markdown（与发布时相同的转换），再按平台的近似样式渲染
+ */
+export function PlatformPreview({ content, platform, onPlatformChange, onClose }: PlatformPreviewProps) {
+  const previewRef = useRef<HTMLDivElement>(null);
+  // 转换结果及其对应的原文
+  const [result, setResult] = useState<(PreviewResult & { source: string }) | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const debouncedContent = useDebounce(content, 500);
+  const theme = getPlatformPreviewTheme(platform);
+
+  const { data: publishers = [] } = trpc.publisher.list.useQuery(undefined, {
+    staleTime: 60 * 1000,
+  });
+  const platformOptions = (publishers as PublisherInfo[]).map((publisher) => ({
+    value: publisher.platform,
+    label: publisher.name,
+  }));
+
+  const previewMutation = trpc.publisher.preview.useMutation({
+    onSuccess: (data: PreviewResult, variables: { content: string }) =>
+      setResult({ ...data, source: variables.content }),
+  });
+
+  // 内容或平台变化后重新转换
+  useEffect(() => {
+    previewMutation.mutate({ platform, content: debouncedContent });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [platform, debouncedContent]);
+
+  // 渲染转换后的内容
+  useEffect(() => {
+    if (!previewRef.current || !result) return;
+
+    Vditor.preview(previewRef.current, result.content, {
+      mode: "light",
+      cdn: isElectron() ? "./vditor" : "/vditor",
+      hljs: {
+        enable: true,
+        style: theme.codeTheme,
+        lineNumber: theme.codeLineNumber,
+      },
+      markdown: {
+        toc: false,
+        autoSpace: false,
+        fixTermTypo: false,
+        // 平台不支持 HTML 时，原文中的 HTML 已在转换时移除；支持 HTML 的平台同样会过滤脚本等危险标签
+        sanitize: true,
+      },
+      transform: (html: string) => {
+        // 对齐指令只在保留原语法的平台（如腾讯云）上出现
+        return transformAlignmentDirectives(html).replace(
+          /src="([^"]+)"/g,
+          (_match, src: string) => `src="${convertImageUrl(src)}"`
+        );
+      },
+    });
+  }, [result, theme.codeTheme, theme.codeLineNumber]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-2 border-b px-3 py-2">
+        <div className="w-40">
+          <NativeSelect options={platformOptions} value={platform} onChange={onPlatformChange} />
+        </div>
+        {previewMutation.isLoading && (
+          <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+        )}
+        {result && result.report.downgrades.length > 0 && (
+          <span className="text-xs text-amber-600">
+            {result.report.downgrades.length} 处扩展语法已降级
+          </span>
+        )}
+        <div className="flex-1" />
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={showDiff ? "secondary" : "ghost"}
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => setShowDiff(!showDiff)}
+                disabled={!result}
+              >
+                <GitCompare className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{showDiff ? "隐藏转换改动" : "查看转换改动"}</TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="relative flex-1 overflow-hidden">
+        <div className="h-full overflow-auto bg-white">
+          <div
+            ref={previewRef}
+            className={`platform-preview ${theme.className} vditor-reset mx-auto px-6 py-6`}
+          />
+        </div>
+        {showDiff && result && (
+          <TransformDiffOverlay
+            original={result.source}
+            transformed={result.content}
+            onClose={() => setShowDiff(false)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
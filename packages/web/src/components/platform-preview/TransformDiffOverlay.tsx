@@ -0,0 +1,95 @@
+import { useMemo } from "react";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { generateOptimizedDiff } from "@/components/ai-chat/tools/optimizedDiff";
+
+interface TransformDiffOverlayProps {
+  /** 编辑器中的原文 */
+  original: string;
+  /** 按平台转换后的内容 */
+  transformed: string;
+  onClose: () => void;
+}
+
+/**
+ * 平台转换差异浮层
+ * 覆盖在平台预览上方，逐行标出转换对原文的改动（降级的扩展语法、被过滤的 HTML 等）
+ */
+export function TransformDiffOverlay({ original, transformed, onClose }: TransformDiffOverlayProps) {
+  const diff = useMemo(
+    () => generateOptimizedDiff(original, transformed, { contextLines: 2 }),
+    [original, transformed]
+  );
+  const lines = diff?.lines || [];
+
+  return (
+    <div className="absolute inset-0 z-10 flex flex-col bg-background/95 backdrop-blur-sm">
+      <div className="flex items-center justify-between border-b px-3 py-2 text-xs text-muted-foreground">
+        <span>
+          转换改动
+          {diff && lines.length > 0 && (
+            <>
+              <span className="ml-2 text-green-600">+{diff.stats.added}</span>
+              <span className="ml-1 text-red-600">-{diff.stats.removed}</span>
+            </>
+          )}
+        </span>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <div className="flex-1 overflow-auto font-mono text-xs">
+        {!diff ? (
+          <div className="flex h-16 items-center justify-center text-muted-foreground">
+            内容过大，无法对比
+          </div>
+        ) : lines.length === 0 ? (
+          <div className="flex h-16 items-center justify-center text-muted-foreground">
+            该平台不需要转换，内容与原文一致
+          </div>
+        ) : (
+          <table className="w-full border-collapse">
+            <tbody>
+              {lines.map((line, index) =>
+                line.type === "separator" ? (
+                  <tr key={index} className="bg-muted/50">
+                    <td colSpan={3} className="px-3 py-1 text-center italic text-muted-foreground">
+                      {line.content}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr
+                    key={index}
+                    className={cn(
+                      line.type === "added" && "bg-green-100/70 dark:bg-green-950/40",
+                      line.type === "removed" && "bg-red-100/70 dark:bg-red-950/40"
+                    )}
+                  >
+                    {/* 原文行号 */}
+                    <td className="w-10 select-none px-2 py-0.5 text-right text-muted-foreground">
+                      {line.oldLineNum ?? ""}
+                    </td>
+                    <td className="w-5 select-none px-1 py-0.5 text-center font-bold">
+                      {line.type === "added" && <span className="text-green-600">+</span>}
+                      {line.type === "removed" && <span className="text-red-600">-</span>}
+                    </td>
+                    <td
+                      className={cn(
+                        "whitespace-pre-wrap break-all px-2 py-0.5",
+                        line.type === "added" && "text-green-800 dark:text-green-200",
+                        line.type === "removed" && "text-red-800 line-through opacity-75 dark:text-red-200"
+                      )}
+                    >
+                      {line.content || " "}
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
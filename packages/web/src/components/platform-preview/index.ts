@@ -0,0 +1,7 @@
+export { PlatformPreview } from "./PlatformPreview";
+export { TransformDiffOverlay } from "./TransformDiffOverlay";
+export {
+  getPlatformPreviewTheme,
+  PLATFORM_PREVIEW_THEMES,
+  type PlatformPreviewTheme,
+} from "./themes";
@@ -0,0 +1,43 @@
+/**
+ * 各平台文章页的近似展示规则
+ * 用于平台预览，尽量贴近文章发布后在平台上的效果（代码块配色、标题层级、图片尺寸等）
+ */
+export interface PlatformPreviewTheme {
+  /** 代码高亮配色（highlight.js 主题名） */
+  codeTheme: string;
+  /** 代码块是否显示行号 */
+  codeLineNumber: boolean;
+  /** 应用平台排版样式的 CSS 类名，样式定义在 index.css */
+  className: string;
+}
+
+const DEFAULT_THEME: PlatformPreviewTheme = {
+  codeTheme: "github",
+  codeLineNumber: false,
+  className: "platform-preview-default",
+};
+
+export const PLATFORM_PREVIEW_THEMES: Record<string, PlatformPreviewTheme> = {
+  // 腾讯云开发者社区：浅色代码块，图片居中
+  tencent: {
+    codeTheme: "github",
+    codeLineNumber: false,
+    className: "platform-preview-tencent",
+  },
+  // 掘金：浅色代码块，一级标题与二级标题字号接近，图片居中
+  juejin: {
+    codeTheme: "atom-one-light",
+    codeLineNumber: false,
+    className: "platform-preview-juejin",
+  },
+  // CSDN：深色代码块带行号，图片靠左
+  csdn: {
+    codeTheme: "atom-one-dark",
+    codeLineNumber: true,
+    className: "platform-preview-csdn",
+  },
+};
+
+export function getPlatformPreviewTheme(platform: string): PlatformPreviewTheme {
+  return PLATFORM_PREVIEW_THEMES[platform] || DEFAULT_THEME;
+}
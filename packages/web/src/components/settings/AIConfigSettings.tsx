@@ -12,6 +12,11 @@ import { ClaudeCodeConnect } from "./ai-config/ClaudeCodeConnect";
 import { ProviderManager } from "./ai-config/ProviderManager";
 import { ModelManager } from "./ai-config/ModelManager";
 import { TestDialog } from "./ai-config/TestDialog";
+import { McpServerManager } from "./ai-config/McpServerManager";
+import { PromptLibraryManager } from "./ai-config/PromptLibraryManager";
+import { UsageDashboard } from "./ai-config/UsageDashboard";
+import { BudgetManager } from "./ai-config/BudgetManager";
+import { isSuperAdmin } from "@/utils/auth";
 import type { Model, Provider } from "./ai-config/types";
 
 // AI 配置组件
@@ -65,6 +70,18 @@ export function AIConfigSettings() {
         onTestModel={handleOpenTestDialog}
       />
 
+      {/* MCP 服务 */}
+      <McpServerManager />
+
+      {/* 提示词库 */}
+      <PromptLibraryManager />
+
+      {/* 用量与费用 */}
+      <UsageDashboard />
+
+      {/* 成员预算（仅超级管理员） */}
+      {isSuperAdmin() && <BudgetManager />}
+
       {/* 使用说明 */}
       <Card>
         <CardHeader>
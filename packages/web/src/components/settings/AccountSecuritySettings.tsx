@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { User, Eye, EyeOff, Loader2, Shield, ShieldCheck } from "lucide-react";
-import { getAuthUser, AdminRole } from "@/utils/auth";
+import { getAuthUser, AdminRole, ROLE_LABELS } from "@/utils/auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -75,7 +75,7 @@ export function AccountSecuritySettings() {
             ) : (
               <Badge variant="secondary">
                 <Shield className="h-3 w-3 mr-1" />
-                管理员
+                {authUser ? ROLE_LABELS[authUser.role] || authUser.role : "管理员"}
               </Badge>
             )}
           </div>
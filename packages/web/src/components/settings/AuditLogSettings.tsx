@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { History, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/utils/trpc";
+
+const PAGE_SIZE = 30;
+
+// 操作名称
+const ACTION_LABELS: Record<string, string> = {
+  "article.create": "创建文章",
+  "article.update": "编辑文章",
+  "article.rename": "重命名文章",
+  "article.move": "移动文章",
+  "article.delete": "删除文章",
+  "article.restore": "恢复历史版本",
+  "article.publish": "发布文章",
+  "article.schedule": "创建定时发布",
+  "article.campaign": "创建发布计划",
+  "article.import": "从平台导入",
+  "article.review": "审核状态变更",
+  "article.review.assign": "更换审核人",
+  "folder.create": "创建文件夹",
+  "folder.rename": "重命名文件夹",
+  "folder.move": "移动文件夹",
+  "folder.delete": "删除文件夹",
+  "folder.share": "共享文件夹",
+  "folder.unshare": "取消共享",
+  "platform.login": "登录平台",
+  "platform.logout": "退出平台",
+};
+
+const PERMISSION_LABELS: Record<string, string> = {
+  read: "只读",
+  edit: "可编辑",
+};
+
+const REVIEW_STATUS_NAMES: Record<string, string> = {
+  none: "未提交",
+  in_review: "审核中",
+  changes_requested: "需要修改",
+  approved: "审核通过",
+};
+
+const PLATFORM_NAMES: Record<string, string> = {
+  tencent: "腾讯云社区",
+  juejin: "掘金",
+  csdn: "CSDN",
+};
+
+/**
+ * 操作详情的简短描述
+ */
+function describeDetail(action: string, detail: Record<string, any> | null): string {
+  if (!detail) return "";
+  switch (action) {
+    case "folder.share":
+      return `${detail.member}（${PERMISSION_LABELS[detail.permission] || detail.permission}）`;
+    case "folder.unshare":
+      return String(detail.member ?? "");
+    case "folder.rename":
+    case "article.rename":
+      return `${detail.from ?? ""} → ${detail.to ?? ""}`;
+    case "article.publish":
+    case "article.schedule":
+      return PLATFORM_NAMES[detail.platform] || String(detail.platform ?? "");
+    case "article.import": {
+      const platform = PLATFORM_NAMES[detail.platform] || String(detail.platform ?? "");
+      return detail.linked ? `${platform}（关联已有文章）` : platform;
+    }
+    case "article.campaign":
+      return (detail.platforms || []).map((p: string) => PLATFORM_NAMES[p] || p).join("、");
+    case "article.review": {
+      const change = `${REVIEW_STATUS_NAMES[detail.from] || detail.from} → ${REVIEW_STATUS_NAMES[detail.to] || detail.to}`;
+      return detail.note ? `${change}：${detail.note}` : change;
+    }
+    case "article.review.assign":
+      return String(detail.reviewer ?? "");
+    default:
+      return "";
+  }
+}
+
+// 操作记录组件
+export function AuditLogSettings() {
+  const [page, setPage] = useState(1);
+  const { data, isLoading, isFetching } = trpc.audit.list.useQuery(
+    { page, pageSize: PAGE_SIZE },
+    { keepPreviousData: true }
+  );
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">操作记录</h2>
+        <p className="text-sm text-muted-foreground">
+          查看你的操作，以及其他成员对你的文章和文件夹所做的修改
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-4 w-4" />
+            最近操作
+            {isFetching && !isLoading && (
+              <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+            )}
+          </CardTitle>
+          <CardDescription>
+            连续编辑同一篇文章时只记录一次
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-20">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : data && data.items.length > 0 ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>时间</TableHead>
+                    <TableHead>成员</TableHead>
+                    <TableHead>操作</TableHead>
+                    <TableHead>对象</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.items.map((log: any) => (
+                    <TableRow key={log.id}>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {new Date(log.createdAt).toLocaleString("zh-CN")}
+                      </TableCell>
+                      <TableCell>{log.username}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{ACTION_LABELS[log.action] || log.action}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[240px]">
+                        <div className="truncate font-medium">{log.entityName || "-"}</div>
+                        {describeDetail(log.action, log.detail) && (
+                          <div className="truncate text-xs text-muted-foreground">
+                            {describeDetail(log.action, log.detail)}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {totalPages > 1 && (
+                <div className="flex items-center justify-end gap-2 pt-4 text-sm">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page <= 1}
+                    onClick={() => setPage((p) => p - 1)}
+                  >
+                    上一页
+                  </Button>
+                  <span className="text-muted-foreground">
+                    {page} / {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= totalPages}
+                    onClick={() => setPage((p) => p + 1)}
+                  >
+                    下一页
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center text-sm text-muted-foreground py-8">
+              暂无操作记录
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
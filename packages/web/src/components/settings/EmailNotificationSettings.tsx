@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Mail, Eye, EyeOff, Send, CheckCircle, XCircle, Clock, Loader2 } from "lucide-react";
+import { Mail, Eye, EyeOff, Send, CheckCircle, XCircle, Clock, ClipboardCheck, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
@@ -33,6 +33,7 @@ export function EmailNotificationSettings() {
     notifyOnSuccess: true,
     notifyOnFailed: true,
     notifyOnCookieExpired: true,
+    notifyOnReview: true,
     enabled: false,
   });
 
@@ -51,6 +52,7 @@ export function EmailNotificationSettings() {
         notifyOnSuccess: emailConfig.notifyOnSuccess ?? true,
         notifyOnFailed: emailConfig.notifyOnFailed ?? true,
         notifyOnCookieExpired: emailConfig.notifyOnCookieExpired ?? true,
+        notifyOnReview: emailConfig.notifyOnReview ?? true,
         enabled: emailConfig.enabled ?? false,
       });
     }
@@ -315,6 +317,16 @@ export function EmailNotificationSettings() {
                 onCheckedChange={(checked) => setFormData({ ...formData, notifyOnCookieExpired: checked })}
               />
             </div>
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center gap-2">
+                <ClipboardCheck className="h-4 w-4 text-blue-500" />
+                文章审核状态变化时通知
+              </Label>
+              <Switch
+                checked={formData.notifyOnReview}
+                onCheckedChange={(checked) => setFormData({ ...formData, notifyOnReview: checked })}
+              />
+            </div>
           </div>
 
           <div className="flex gap-2 pt-2">
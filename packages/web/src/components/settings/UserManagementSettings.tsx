@@ -1,8 +1,8 @@
 import { useState } from "react";
-import { Plus, Pencil, Trash2, Loader2, Shield, ShieldCheck } from "lucide-react";
-import { AdminRole } from "@/utils/auth";
+import { Plus, Pencil, Trash2, Loader2, Shield, ShieldCheck, Check, Minus } from "lucide-react";
+import { AdminRole, ROLE_LABELS } from "@/utils/auth";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
@@ -36,6 +36,7 @@ import { message } from "antd";
 // 用户管理组件（仅超级管理员可见）
 export function UserManagementSettings() {
   const { data: adminList, isLoading } = trpc.adminUser.list.useQuery();
+  const { data: permissionMatrix } = trpc.adminUser.roles.useQuery();
   const utils = trpc.useContext();
 
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -146,11 +147,22 @@ export function UserManagementSettings() {
     return (
       <Badge variant="secondary">
         <Shield className="h-3 w-3 mr-1" />
-        管理员
+        {ROLE_LABELS[role as AdminRole] || role}
       </Badge>
     );
   };
 
+  // 角色选项（创建和编辑共用）
+  const roleOptions = (
+    <SelectContent>
+      {Object.values(AdminRole).map((role) => (
+        <SelectItem key={role} value={role}>
+          {ROLE_LABELS[role]}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -203,10 +215,7 @@ export function UserManagementSettings() {
                   <SelectTrigger>
                     <SelectValue placeholder="选择角色" />
                   </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value={AdminRole.ADMIN}>管理员</SelectItem>
-                    <SelectItem value={AdminRole.SUPER_ADMIN}>超级管理员</SelectItem>
-                  </SelectContent>
+                  {roleOptions}
                 </Select>
               </div>
             </div>
@@ -284,6 +293,48 @@ export function UserManagementSettings() {
         </CardContent>
       </Card>
 
+      {/* 角色权限 */}
+      {permissionMatrix && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">角色权限</CardTitle>
+            <CardDescription>
+              各角色可以执行的操作；用户管理和数据导入导出仅超级管理员可用
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>角色</TableHead>
+                  {permissionMatrix.permissions.map((permission: any) => (
+                    <TableHead key={permission.id} className="text-center">
+                      {permission.label}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {permissionMatrix.roles.map((role: any) => (
+                  <TableRow key={role.id}>
+                    <TableCell className="font-medium">{role.label}</TableCell>
+                    {permissionMatrix.permissions.map((permission: any) => (
+                      <TableCell key={permission.id} className="text-center">
+                        {role.permissions.includes(permission.id) ? (
+                          <Check className="h-4 w-4 inline text-green-600" />
+                        ) : (
+                          <Minus className="h-4 w-4 inline text-muted-foreground" />
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* 编辑用户对话框 */}
       <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
         <DialogContent>
@@ -323,10 +374,7 @@ export function UserManagementSettings() {
                 <SelectTrigger>
                   <SelectValue placeholder="选择角色" />
                 </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value={AdminRole.ADMIN}>管理员</SelectItem>
-                  <SelectItem value={AdminRole.SUPER_ADMIN}>超级管理员</SelectItem>
-                </SelectContent>
+                {roleOptions}
               </Select>
             </div>
           </div>
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Wallet, Pencil, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { message } from "antd";
+import type { BudgetAction, MemberBudget } from "./types";
+import { formatCost } from "./types";
+
+interface BudgetForm {
+  dailyLimit: string;
+  monthlyLimit: string;
+  action: BudgetAction;
+}
+
+const parseLimit = (value: string) => (value.trim() ? Math.max(0, parseFloat(value) || 0) : null);
+
+const formatWindow = (window: { spent: number; limit: number | null }) =>
+  window.limit === null ? formatCost(window.spent) : `${formatCost(window.spent)} / ${formatCost(window.limit)}`;
+
+// 成员 AI 用量预算（仅超级管理员）
+export function BudgetManager() {
+  const utils = trpc.useContext();
+  const { data: members } = trpc.aiUsage.listBudgets.useQuery();
+
+  const [editingMember, setEditingMember] = useState<MemberBudget | null>(null);
+  const [form, setForm] = useState<BudgetForm>({ dailyLimit: "", monthlyLimit: "", action: "warn" });
+
+  const setBudgetMutation = trpc.aiUsage.setBudget.useMutation({
+    onSuccess: () => {
+      message.success("预算已保存");
+      setEditingMember(null);
+      utils.aiUsage.listBudgets.invalidate();
+      utils.aiUsage.budgetStatus.invalidate();
+    },
+    onError: (error: Error) => {
+      message.error(`保存失败: ${error.message}`);
+    },
+  });
+
+  const handleEdit = (member: MemberBudget) => {
+    setEditingMember(member);
+    setForm({
+      dailyLimit: member.status.daily.limit?.toString() ?? "",
+      monthlyLimit: member.status.monthly.limit?.toString() ?? "",
+      action: member.status.action,
+    });
+  };
+
+  const handleSave = () => {
+    if (!editingMember) return;
+    setBudgetMutation.mutate({
+      userId: editingMember.userId,
+      dailyLimit: parseLimit(form.dailyLimit),
+      monthlyLimit: parseLimit(form.monthlyLimit),
+      action: form.action,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="space-y-1">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Wallet className="h-4 w-4" />
+            成员预算
+          </CardTitle>
+          <CardDescription>
+            按自然日、自然月限制成员的 AI 费用，超出后在 AI 助手中提示或暂停使用
+          </CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>成员</TableHead>
+              <TableHead>今日</TableHead>
+              <TableHead>本月</TableHead>
+              <TableHead>超出后</TableHead>
+              <TableHead className="text-right">操作</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {((members || []) as MemberBudget[]).map((member) => {
+              const hasBudget = member.status.daily.limit !== null || member.status.monthly.limit !== null;
+              return (
+                <TableRow key={member.userId}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {member.username}
+                      {member.status.state !== "ok" && (
+                        <Badge
+                          variant={member.status.state === "blocked" ? "destructive" : "secondary"}
+                          className="text-xs"
+                        >
+                          已超出
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{formatWindow(member.status.daily)}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatWindow(member.status.monthly)}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {hasBudget ? (member.status.action === "block" ? "暂停使用" : "仅提示") : "不限制"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(member)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!editingMember} onOpenChange={(open) => !open && setEditingMember(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>设置预算 - {editingMember?.username}</DialogTitle>
+            <DialogDescription>
+              金额与模型价格使用同一币种，留空表示不限制
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="budget-daily">每日预算</Label>
+                <Input
+                  id="budget-daily"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="不限制"
+                  value={form.dailyLimit}
+                  onChange={(e) => setForm({ ...form, dailyLimit: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budget-monthly">每月预算</Label>
+                <Input
+                  id="budget-monthly"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="不限制"
+                  value={form.monthlyLimit}
+                  onChange={(e) => setForm({ ...form, monthlyLimit: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-action">超出预算后</Label>
+              <Select value={form.action} onValueChange={(value: BudgetAction) => setForm({ ...form, action: value })}>
+                <SelectTrigger id="budget-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="warn">仅提示，继续使用</SelectItem>
+                  <SelectItem value="block">暂停使用 AI 助手</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={setBudgetMutation.isLoading}>
+              {setBudgetMutation.isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              保存
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,422 @@
+import { useState } from "react";
+import {
+  Plug,
+  Plus,
+  Pencil,
+  Trash2,
+  Loader2,
+  Zap,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { isSuperAdmin } from "@/utils/auth";
+import { message } from "antd";
+import type { McpServer, McpServerFormData, McpTransport } from "./types";
+
+const emptyForm: McpServerFormData = {
+  name: "",
+  transport: "http",
+  command: "",
+  args: "",
+  env: "",
+  url: "",
+  headers: "",
+};
+
+// 键值对与多行文本互相转换：环境变量用 KEY=VALUE，请求头用 Key: Value
+const formatPairs = (record: Record<string, string>, separator: string) =>
+  Object.entries(record).map(([key, value]) => `${key}${separator}${value}`).join("\n");
+
+const parsePairs = (text: string, separator: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const index = line.indexOf(separator);
+    if (index <= 0) continue;
+    result[line.slice(0, index).trim()] = line.slice(index + separator.length).trim();
+  }
+  return result;
+};
+
+export function McpServerManager() {
+  const utils = trpc.useContext();
+  const { data: servers } = trpc.mcp.list.useQuery();
+  // 本地命令会在服务器上执行，只有超级管理员可以配置
+  const canUseStdio = isSuperAdmin();
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingServer, setEditingServer] = useState<McpServer | null>(null);
+  const [form, setForm] = useState<McpServerFormData>(emptyForm);
+  const [testingId, setTestingId] = useState<number | null>(null);
+
+  const invalidate = () => {
+    utils.mcp.list.invalidate();
+    utils.mcp.listTools.invalidate();
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    setEditingServer(null);
+    setForm(emptyForm);
+  };
+
+  const createMutation = trpc.mcp.create.useMutation({
+    onSuccess: () => {
+      message.success("MCP 服务已添加");
+      closeDialog();
+      invalidate();
+    },
+    onError: (error: Error) => {
+      message.error(`添加失败: ${error.message}`);
+    },
+  });
+
+  // 编辑和启停共用，编辑成功的提示在保存时单独处理
+  const updateMutation = trpc.mcp.update.useMutation({
+    onSuccess: () => {
+      closeDialog();
+      invalidate();
+    },
+    onError: (error: Error) => {
+      message.error(`更新失败: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = trpc.mcp.delete.useMutation({
+    onSuccess: () => {
+      message.success("MCP 服务已删除");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      message.error(`删除失败: ${error.message}`);
+    },
+  });
+
+  const testMutation = trpc.mcp.test.useMutation({
+    onSuccess: (result: { success: boolean; message: string; tools: { name: string }[] }) => {
+      if (result.success) {
+        message.success(
+          result.tools.length > 0
+            ? `${result.message}: ${result.tools.map((t) => t.name).join(", ")}`
+            : result.message
+        );
+      } else {
+        message.error(`连接失败: ${result.message}`);
+      }
+    },
+    onError: (error: Error) => {
+      message.error(`连接失败: ${error.message}`);
+    },
+    onSettled: () => setTestingId(null),
+  });
+
+  const handleAdd = () => {
+    setEditingServer(null);
+    setForm(emptyForm);
+    setShowDialog(true);
+  };
+
+  const handleEdit = (server: McpServer) => {
+    setEditingServer(server);
+    setForm({
+      name: server.name,
+      transport: server.transport,
+      command: server.command || "",
+      args: server.args.join("\n"),
+      env: formatPairs(server.env, "="),
+      url: server.url || "",
+      headers: formatPairs(server.headers, ": "),
+    });
+    setShowDialog(true);
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      message.error("请输入服务名称");
+      return;
+    }
+    if (form.transport === "stdio" && !form.command.trim()) {
+      message.error("请输入启动命令");
+      return;
+    }
+    if (form.transport === "http" && !form.url.trim()) {
+      message.error("请输入服务地址");
+      return;
+    }
+
+    const data = form.transport === "stdio"
+      ? {
+          name: form.name,
+          transport: form.transport,
+          command: form.command,
+          args: form.args.split("\n").map((arg) => arg.trim()).filter(Boolean),
+          env: parsePairs(form.env, "="),
+        }
+      : {
+          name: form.name,
+          transport: form.transport,
+          url: form.url,
+          headers: parsePairs(form.headers, ":"),
+        };
+
+    if (editingServer) {
+      updateMutation.mutate(
+        { id: editingServer.id, ...data },
+        { onSuccess: () => message.success("MCP 服务已更新") }
+      );
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleDelete = (server: McpServer) => {
+    if (confirm(`确定要删除 MCP 服务 "${server.name}" 吗？`)) {
+      deleteMutation.mutate({ id: server.id });
+    }
+  };
+
+  const handleTest = (server: McpServer) => {
+    setTestingId(server.id);
+    testMutation.mutate({ id: server.id });
+  };
+
+  const isSaving = createMutation.isLoading || updateMutation.isLoading;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Plug className="h-4 w-4" />
+              MCP 服务
+            </CardTitle>
+            <CardDescription>
+              连接 Model Context Protocol 服务，让 AI 助手可以使用外部工具
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-1" />
+            添加服务
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {servers && servers.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>名称</TableHead>
+                <TableHead>连接</TableHead>
+                <TableHead>启用</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(servers as McpServer[]).map((server) => (
+                <TableRow key={server.id}>
+                  <TableCell className="font-medium">{server.name}</TableCell>
+                  <TableCell className="text-muted-foreground text-sm max-w-[240px]">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {server.transport === "stdio" ? "本地命令" : "HTTP"}
+                      </Badge>
+                      <span className="truncate">
+                        {server.transport === "stdio"
+                          ? [server.command, ...server.args].join(" ")
+                          : server.url}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={server.enabled}
+                      disabled={server.transport === "stdio" && !canUseStdio}
+                      onCheckedChange={(enabled) => updateMutation.mutate({ id: server.id, enabled })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleTest(server)}
+                      disabled={testingId === server.id}
+                      title="测试连接"
+                    >
+                      {testingId === server.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Zap className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(server)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(server)}
+                      disabled={deleteMutation.isLoading}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center text-sm text-muted-foreground py-8">
+            <Plug className="h-12 w-12 mx-auto mb-3 text-muted-foreground/50" />
+            <p>暂未添加 MCP 服务</p>
+            <p className="text-xs mt-1">添加后，服务提供的工具会出现在 AI 助手的工具列表中</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingServer ? "编辑 MCP 服务" : "添加 MCP 服务"}</DialogTitle>
+            <DialogDescription>
+              工具调用时与内置工具一样遵循工具权限配置中的审核设置
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="mcp-name">服务名称</Label>
+              <Input
+                id="mcp-name"
+                placeholder="如: 文件系统、网页搜索"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mcp-transport">连接方式</Label>
+              <Select
+                value={form.transport}
+                onValueChange={(value: McpTransport) => setForm({ ...form, transport: value })}
+              >
+                <SelectTrigger id="mcp-transport">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="http">Streamable HTTP</SelectItem>
+                  <SelectItem value="stdio" disabled={!canUseStdio}>
+                    本地命令 (stdio)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              {!canUseStdio && (
+                <p className="text-xs text-muted-foreground">
+                  本地命令会在服务器上执行，只有超级管理员可以配置；HTTP 服务只能使用公网地址
+                </p>
+              )}
+            </div>
+            {form.transport === "stdio" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="mcp-command">启动命令</Label>
+                  <Input
+                    id="mcp-command"
+                    placeholder="如: npx"
+                    value={form.command}
+                    onChange={(e) => setForm({ ...form, command: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mcp-args">参数</Label>
+                  <Textarea
+                    id="mcp-args"
+                    rows={3}
+                    placeholder={"每行一个参数，如:\n-y\n@modelcontextprotocol/server-filesystem"}
+                    value={form.args}
+                    onChange={(e) => setForm({ ...form, args: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mcp-env">环境变量</Label>
+                  <Textarea
+                    id="mcp-env"
+                    rows={2}
+                    placeholder="每行一个，如: API_KEY=xxx"
+                    value={form.env}
+                    onChange={(e) => setForm({ ...form, env: e.target.value })}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="mcp-url">服务地址</Label>
+                  <Input
+                    id="mcp-url"
+                    placeholder="如: https://example.com/mcp"
+                    value={form.url}
+                    onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mcp-headers">请求头</Label>
+                  <Textarea
+                    id="mcp-headers"
+                    rows={2}
+                    placeholder="每行一个，如: Authorization: Bearer xxx"
+                    value={form.headers}
+                    onChange={(e) => setForm({ ...form, headers: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+            {editingServer && (
+              <p className="text-xs text-muted-foreground">
+                已保存的值显示为 ••••••••，不修改则保持不变
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingServer ? "保存" : "添加"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -45,8 +45,27 @@ import {
 } from "@/components/ui/select";
 import { trpc } from "@/utils/trpc";
 import { message } from "antd";
-import type { Provider, Model, ModelFormData } from "./types";
-import { defaultCapabilities, defaultAILoopConfig, defaultParameters } from "./types";
+import type { Provider, Model, ModelFormData, ModelPricing, ModelPricingForm } from "./types";
+import { defaultCapabilities, defaultAILoopConfig, defaultParameters, emptyPricingForm } from "./types";
+
+// 价格表单转换为提交的数据，输入和输出价格都留空时不计费
+function toPricing(form: ModelPricingForm): ModelPricing | null {
+  if (!form.input.trim() && !form.output.trim()) return null;
+  return {
+    input: parseFloat(form.input) || 0,
+    output: parseFloat(form.output) || 0,
+    ...(form.cachedInput.trim() ? { cachedInput: parseFloat(form.cachedInput) || 0 } : {}),
+  };
+}
+
+function toPricingForm(pricing: ModelPricing | null | undefined): ModelPricingForm {
+  if (!pricing) return emptyPricingForm;
+  return {
+    input: String(pricing.input),
+    output: String(pricing.output),
+    cachedInput: pricing.cachedInput !== undefined ? String(pricing.cachedInput) : "",
+  };
+}
 
 interface ModelManagerProps {
   providers: Provider[] | undefined;
@@ -69,6 +88,7 @@ export function ModelManager({ providers, models, onTestModel }: ModelManagerPro
     parameters: defaultParameters,
     capabilities: defaultCapabilities,
     aiLoopConfig: defaultAILoopConfig,
+    pricing: emptyPricingForm,
   });
 
   // 创建模型
@@ -118,6 +138,7 @@ export function ModelManager({ providers, models, onTestModel }: ModelManagerPro
       parameters: defaultParameters,
       capabilities: defaultCapabilities,
       aiLoopConfig: defaultAILoopConfig,
+      pricing: emptyPricingForm,
     });
     setSelectedProviderId(null);
   };
@@ -163,6 +184,7 @@ export function ModelManager({ providers, models, onTestModel }: ModelManagerPro
       parameters: model.parameters || defaultParameters,
       capabilities: mergedCapabilities,
       aiLoopConfig: mergedAILoopConfig,
+      pricing: toPricingForm(model.pricing),
     });
     setShowModelDialog(true);
   };
@@ -187,15 +209,16 @@ export function ModelManager({ providers, models, onTestModel }: ModelManagerPro
       return;
     }
 
+    const data = { ...modelForm, pricing: toPricing(modelForm.pricing) };
     if (editingModel) {
       updateModelMutation.mutate({
         id: editingModel.id,
-        ...modelForm,
+        ...data,
       });
     } else {
       createModelMutation.mutate({
         providerId: selectedProviderId,
-        ...modelForm,
+        ...data,
       });
     }
   };
@@ -349,6 +372,39 @@ export function ModelManager({ providers, models, onTestModel }: ModelManagerPro
                   </div>
                 </div>
 
+                {/* 价格配置 */}
+                <div className="space-y-2">
+                  <Label>价格（每百万 Tokens）</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      ["input", "输入"],
+                      ["output", "输出"],
+                      ["cachedInput", "缓存输入"],
+                    ] as const).map(([key, label]) => (
+                      <div key={key} className="space-y-1">
+                        <Label htmlFor={`model-price-${key}`} className="text-xs text-muted-foreground">
+                          {label}
+                        </Label>
+                        <Input
+                          id={`model-price-${key}`}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder={key === "cachedInput" ? "同输入" : "不计费"}
+                          value={modelForm.pricing[key]}
+                          onChange={(e) => setModelForm({
+                            ...modelForm,
+                            pricing: { ...modelForm.pricing, [key]: e.target.value },
+                          })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    用于统计 AI 用量费用和预算，所有模型请使用同一币种
+                  </p>
+                </div>
+
                 {/* 模型能力配置 */}
                 <div className="space-y-3 pt-2 border-t">
                   <Label>模型能力</Label>
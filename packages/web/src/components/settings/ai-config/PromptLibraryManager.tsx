@@ -0,0 +1,462 @@
+import { useRef, useState } from "react";
+import {
+  BookText,
+  Plus,
+  Pencil,
+  Trash2,
+  Loader2,
+  Download,
+  Upload,
+  RotateCcw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { message } from "antd";
+import type { PromptTemplate, PromptTemplateFormData, PromptTemplateKind } from "./types";
+
+const emptyForm: PromptTemplateFormData = {
+  command: "",
+  name: "",
+  description: "",
+  content: "",
+  kind: "command",
+  enabled: true,
+};
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+async function readAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// 提示词库：快捷指令与自定义系统提示词
+export function PromptLibraryManager() {
+  const utils = trpc.useContext();
+  const { data: templates } = trpc.promptLibrary.list.useQuery();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<PromptTemplate | null>(null);
+  const [form, setForm] = useState<PromptTemplateFormData>(emptyForm);
+  const [overwriteOnImport, setOverwriteOnImport] = useState(false);
+
+  const invalidate = () => utils.promptLibrary.list.invalidate();
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    setEditingTemplate(null);
+    setForm(emptyForm);
+  };
+
+  const createMutation = trpc.promptLibrary.create.useMutation({
+    onSuccess: () => {
+      message.success("提示词已添加");
+      closeDialog();
+      invalidate();
+    },
+    onError: (error: Error) => {
+      message.error(`添加失败: ${error.message}`);
+    },
+  });
+
+  // 编辑和启停共用，编辑成功的提示在保存时单独处理
+  const updateMutation = trpc.promptLibrary.update.useMutation({
+    onSuccess: () => {
+      closeDialog();
+      invalidate();
+    },
+    onError: (error: Error) => {
+      message.error(`更新失败: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = trpc.promptLibrary.delete.useMutation({
+    onSuccess: () => {
+      message.success("提示词已删除");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      message.error(`删除失败: ${error.message}`);
+    },
+  });
+
+  const handleImportResult = (result: ImportResult) => {
+    const summary = [`新增 ${result.created} 个`];
+    if (result.updated) summary.push(`覆盖 ${result.updated} 个`);
+    if (result.skipped) summary.push(`跳过 ${result.skipped} 个同名指令`);
+    message.success(`导入完成：${summary.join("，")}`);
+    result.errors.forEach((error) => message.warning(error));
+    invalidate();
+  };
+
+  const importMutation = trpc.promptLibrary.import.useMutation({
+    onSuccess: handleImportResult,
+    onError: (error: Error) => {
+      message.error(`导入失败: ${error.message}`);
+    },
+  });
+
+  const importDefaultsMutation = trpc.promptLibrary.importDefaults.useMutation({
+    onSuccess: handleImportResult,
+    onError: (error: Error) => {
+      message.error(`恢复失败: ${error.message}`);
+    },
+  });
+
+  const exportMutation = trpc.promptLibrary.export.useMutation({
+    onSuccess: (file: { fileName: string; content: string }) => {
+      downloadBlob(new Blob([file.content], { type: "text/markdown;charset=utf-8" }), file.fileName);
+    },
+    onError: (error: Error) => {
+      message.error(`导出失败: ${error.message}`);
+    },
+  });
+
+  const exportAllMutation = trpc.promptLibrary.exportAll.useMutation({
+    onSuccess: (result: { data: string }) => {
+      const binaryString = atob(result.data);
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+      downloadBlob(new Blob([bytes], { type: "application/zip" }), "penbridge-prompts.zip");
+    },
+    onError: (error: Error) => {
+      message.error(`导出失败: ${error.message}`);
+    },
+  });
+
+  const handleAdd = () => {
+    setEditingTemplate(null);
+    setForm(emptyForm);
+    setShowDialog(true);
+  };
+
+  const handleEdit = (template: PromptTemplate) => {
+    setEditingTemplate(template);
+    setForm({
+      command: template.command,
+      name: template.name,
+      description: template.description || "",
+      content: template.content,
+      kind: template.kind,
+      enabled: template.enabled,
+    });
+    setShowDialog(true);
+  };
+
+  const handleSave = () => {
+    if (!form.command.trim()) {
+      message.error("请输入指令名");
+      return;
+    }
+    if (!form.name.trim()) {
+      message.error("请输入名称");
+      return;
+    }
+    if (!form.content.trim()) {
+      message.error("请输入提示词内容");
+      return;
+    }
+
+    const data = { ...form, description: form.description.trim() || null };
+    if (editingTemplate) {
+      updateMutation.mutate(
+        { id: editingTemplate.id, ...data },
+        { onSuccess: () => message.success("提示词已更新") }
+      );
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (confirm(`确定要删除提示词 "${template.name}" 吗？`)) {
+      deleteMutation.mutate({ id: template.id });
+    }
+  };
+
+  // 选择 .md 文件（可多选）或包含 .md 文件的 .zip
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    try {
+      const zipFile = files.find((file) => file.name.toLowerCase().endsWith(".zip"));
+      if (zipFile) {
+        importMutation.mutate({ zip: await readAsBase64(zipFile), overwrite: overwriteOnImport });
+      } else {
+        const markdownFiles = await Promise.all(
+          files.map(async (file) => ({ fileName: file.name, content: await file.text() }))
+        );
+        importMutation.mutate({ files: markdownFiles, overwrite: overwriteOnImport });
+      }
+    } catch {
+      message.error("无法读取文件");
+    }
+  };
+
+  const isSaving = createMutation.isLoading || updateMutation.isLoading;
+  const isImporting = importMutation.isLoading || importDefaultsMutation.isLoading;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <CardTitle className="text-base flex items-center gap-2">
+              <BookText className="h-4 w-4" />
+              提示词库
+            </CardTitle>
+            <CardDescription>
+              在 AI 助手输入框中输入 /指令 调用常用提示词，或把提示词追加到系统提示词中
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-1" />
+            添加提示词
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {templates && templates.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>指令</TableHead>
+                <TableHead>名称</TableHead>
+                <TableHead>启用</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(templates as PromptTemplate[]).map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-mono text-sm">
+                    {template.kind === "system" ? (
+                      <Badge variant="secondary" className="text-xs">系统提示词</Badge>
+                    ) : (
+                      `/${template.command}`
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[240px]">
+                    <div className="font-medium truncate">{template.name}</div>
+                    {template.description && (
+                      <div className="text-xs text-muted-foreground truncate">{template.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={template.enabled}
+                      onCheckedChange={(enabled) => updateMutation.mutate({ id: template.id, enabled })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => exportMutation.mutate({ id: template.id })}
+                      title="导出为 Markdown"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(template)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(template)}
+                      disabled={deleteMutation.isLoading}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center text-sm text-muted-foreground py-8">
+            <BookText className="h-12 w-12 mx-auto mb-3 text-muted-foreground/50" />
+            <p>提示词库为空</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".md,.zip"
+            multiple
+            className="hidden"
+            onChange={handleFileSelect}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {importMutation.isLoading ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-1" />
+            )}
+            导入
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportAllMutation.mutate()}
+            disabled={exportAllMutation.isLoading || !templates?.length}
+          >
+            {exportAllMutation.isLoading ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-1" />
+            )}
+            导出全部
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => importDefaultsMutation.mutate()} disabled={isImporting}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            恢复内置提示词
+          </Button>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground ml-auto">
+            <Switch checked={overwriteOnImport} onCheckedChange={setOverwriteOnImport} />
+            导入时覆盖同名指令
+          </label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          每个提示词对应一个 Markdown 文件，文件名即指令名，开头的 front matter 可填写 name、description 和 kind: system
+        </p>
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? "编辑提示词" : "添加提示词"}</DialogTitle>
+            <DialogDescription>
+              {"内容中可以使用 {{selection}}（编辑器中选中的文字）、{{title}}（文章标题）和 {{platform}}（当前预览的平台）"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="prompt-command">指令名</Label>
+                <Input
+                  id="prompt-command"
+                  placeholder="如: polish"
+                  value={form.command}
+                  onChange={(e) => setForm({ ...form, command: e.target.value.replace(/^\//, "") })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="prompt-name">名称</Label>
+                <Input
+                  id="prompt-name"
+                  placeholder="如: 润色"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-description">说明</Label>
+              <Input
+                id="prompt-description"
+                placeholder="显示在指令补全列表中"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-kind">类型</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(value: PromptTemplateKind) => setForm({ ...form, kind: value })}
+              >
+                <SelectTrigger id="prompt-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="command">快捷指令（输入 /指令 调用）</SelectItem>
+                  <SelectItem value="system">系统提示词（启用后追加到每次对话）</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-content">提示词内容</Label>
+              <Textarea
+                id="prompt-content"
+                rows={10}
+                className="font-mono text-sm"
+                placeholder={"请润色下面的内容：\n\n{{selection}}"}
+                value={form.content}
+                onChange={(e) => setForm({ ...form, content: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingTemplate ? "保存" : "添加"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
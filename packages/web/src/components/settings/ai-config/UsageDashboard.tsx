@@ -0,0 +1,220 @@
+import { useMemo, useState } from "react";
+import { BarChart3, Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { isSuperAdmin } from "@/utils/auth";
+import type { BudgetStatus, UsageGroupBy, UsageReportRow } from "./types";
+import { formatCost } from "./types";
+
+type UsageRange = "7d" | "30d" | "month";
+
+const GROUP_LABELS: Record<UsageGroupBy, string> = {
+  day: "日期",
+  model: "模型",
+  provider: "供应商",
+  article: "文章",
+  user: "成员",
+};
+
+// 统计时间范围（本地时间的整天）
+function getRange(range: UsageRange): { from: string; to: string } {
+  const now = new Date();
+  const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const start = range === "month"
+    ? new Date(now.getFullYear(), now.getMonth(), 1)
+    : new Date(now.getFullYear(), now.getMonth(), now.getDate() - (range === "7d" ? 6 : 29));
+  return { from: start.toISOString(), to: end.toISOString() };
+}
+
+const formatTokens = (value: number) => value.toLocaleString();
+
+function BudgetSummary({ status }: { status: BudgetStatus }) {
+  const windows = [
+    { label: "今日", ...status.daily },
+    { label: "本月", ...status.monthly },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {windows.map((window) => (
+        <div key={window.label} className="rounded-md bg-muted/50 p-3 space-y-1">
+          <div className="text-xs text-muted-foreground">{window.label}费用</div>
+          <div className="text-lg font-semibold">
+            {formatCost(window.spent)}
+            {window.limit !== null && (
+              <span className="text-sm font-normal text-muted-foreground"> / {formatCost(window.limit)}</span>
+            )}
+          </div>
+          {window.limit !== null && (
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+              <div
+                className={window.spent >= window.limit ? "h-full bg-red-500" : "h-full bg-purple-500"}
+                style={{ width: `${Math.min(100, window.limit > 0 ? (window.spent / window.limit) * 100 : 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+      {status.message && (
+        <p className={`col-span-2 text-xs ${status.state === "blocked" ? "text-destructive" : "text-amber-600"}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function UsageDashboard() {
+  const canViewAll = isSuperAdmin();
+  const [range, setRange] = useState<UsageRange>("30d");
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>("day");
+  const [scope, setScope] = useState<"self" | "all">("self");
+
+  const { from, to } = useMemo(() => getRange(range), [range]);
+  const { data: budgetStatus } = trpc.aiUsage.budgetStatus.useQuery();
+  const { data: report, isLoading } = trpc.aiUsage.report.useQuery({
+    from,
+    to,
+    groupBy: scope === "self" && groupBy === "user" ? "day" : groupBy,
+    scope,
+  });
+
+  const rows = (report?.rows || []) as UsageReportRow[];
+  const groupOptions = (Object.keys(GROUP_LABELS) as UsageGroupBy[]).filter(
+    (key) => key !== "user" || scope === "all"
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="space-y-1">
+          <CardTitle className="text-base flex items-center gap-2">
+            <BarChart3 className="h-4 w-4" />
+            用量与费用
+            {budgetStatus && budgetStatus.state !== "ok" && (
+              <Badge variant={budgetStatus.state === "blocked" ? "destructive" : "secondary"} className="text-xs">
+                {budgetStatus.state === "blocked" ? "已超出预算，暂停使用" : "已超出预算"}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            按模型价格统计 AI 助手的 Token 用量和费用，未设置价格的模型只统计用量
+          </CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {budgetStatus && <BudgetSummary status={budgetStatus as BudgetStatus} />}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={range} onValueChange={(value: UsageRange) => setRange(value)}>
+            <SelectTrigger className="w-28 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">近 7 天</SelectItem>
+              <SelectItem value="30d">近 30 天</SelectItem>
+              <SelectItem value="month">本月</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={groupBy} onValueChange={(value: UsageGroupBy) => setGroupBy(value)}>
+            <SelectTrigger className="w-28 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {groupOptions.map((key) => (
+                <SelectItem key={key} value={key}>按{GROUP_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canViewAll && (
+            <Select
+              value={scope}
+              onValueChange={(value: "self" | "all") => {
+                setScope(value);
+                if (value === "self" && groupBy === "user") setGroupBy("day");
+              }}
+            >
+              <SelectTrigger className="w-28 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="self">仅自己</SelectItem>
+                <SelectItem value="all">全部成员</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{GROUP_LABELS[groupBy]}</TableHead>
+                <TableHead className="text-right">请求</TableHead>
+                <TableHead className="text-right">输入</TableHead>
+                <TableHead className="text-right">缓存</TableHead>
+                <TableHead className="text-right">输出</TableHead>
+                <TableHead className="text-right">费用</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium max-w-[200px] truncate" title={row.label}>
+                    {row.label}
+                  </TableCell>
+                  <TableCell className="text-right">{row.requests}</TableCell>
+                  <TableCell className="text-right">{formatTokens(row.inputTokens)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{formatTokens(row.cachedInputTokens)}</TableCell>
+                  <TableCell className="text-right">{formatTokens(row.outputTokens)}</TableCell>
+                  <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                </TableRow>
+              ))}
+              {report && (
+                <TableRow className="font-medium">
+                  <TableCell>合计</TableCell>
+                  <TableCell className="text-right">{report.total.requests}</TableCell>
+                  <TableCell className="text-right">{formatTokens(report.total.inputTokens)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{formatTokens(report.total.cachedInputTokens)}</TableCell>
+                  <TableCell className="text-right">{formatTokens(report.total.outputTokens)}</TableCell>
+                  <TableCell className="text-right">{formatCost(report.total.cost)}</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center text-sm text-muted-foreground py-8">
+            <BarChart3 className="h-12 w-12 mx-auto mb-3 text-muted-foreground/50" />
+            <p>所选时间范围内没有 AI 用量</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,8 @@
 export { ProviderManager } from "./ProviderManager";
 export { ModelManager } from "./ModelManager";
 export { TestDialog } from "./TestDialog";
+export { McpServerManager } from "./McpServerManager";
+export { PromptLibraryManager } from "./PromptLibraryManager";
+export { UsageDashboard } from "./UsageDashboard";
+export { BudgetManager } from "./BudgetManager";
 export * from "./types";
@@ -32,6 +32,20 @@ export interface ModelParameters {
   maxTokens: number;
 }
 
+// 模型价格（每百万 tokens）
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cachedInput?: number;
+}
+
+// 模型价格表单（输入框的原始文本，留空表示不计费）
+export interface ModelPricingForm {
+  input: string;
+  output: string;
+  cachedInput: string;
+}
+
 // 模型类型
 export interface Model {
   id: number;
@@ -44,8 +58,52 @@ export interface Model {
   parameters: ModelParameters;
   capabilities: ModelCapabilities;
   aiLoopConfig: AILoopConfig;
+  pricing?: ModelPricing | null;
+}
+
+// MCP 服务连接方式
+export type McpTransport = "stdio" | "http";
+
+// MCP 服务（环境变量和请求头的值已隐藏）
+export interface McpServer {
+  id: number;
+  name: string;
+  transport: McpTransport;
+  command: string | null;
+  args: string[];
+  env: Record<string, string>;
+  url: string | null;
+  headers: Record<string, string>;
+  enabled: boolean;
+}
+
+// MCP 服务表单数据（参数、环境变量、请求头均为多行文本）
+export interface McpServerFormData {
+  name: string;
+  transport: McpTransport;
+  command: string;
+  args: string;
+  env: string;
+  url: string;
+  headers: string;
 }
 
+// 提示词类型：快捷指令（/指令 调用）或自定义系统提示词
+export type PromptTemplateKind = "command" | "system";
+
+// 提示词库条目
+export interface PromptTemplate {
+  id: number;
+  command: string;
+  name: string;
+  description: string | null;
+  content: string;
+  kind: PromptTemplateKind;
+  enabled: boolean;
+}
+
+export type PromptTemplateFormData = Omit<PromptTemplate, "id" | "description"> & { description: string };
+
 // 供应商表单数据
 export interface ProviderFormData {
   name: string;
@@ -63,6 +121,7 @@ export interface ModelFormData {
   parameters: ModelParameters;
   capabilities: ModelCapabilities;
   aiLoopConfig: AILoopConfig;
+  pricing: ModelPricingForm;
 }
 
 // 测试结果
@@ -99,3 +158,46 @@ export const defaultParameters: ModelParameters = {
   temperature: 0.7,
   maxTokens: 4096,
 };
+
+// 空的价格表单
+export const emptyPricingForm: ModelPricingForm = {
+  input: "",
+  output: "",
+  cachedInput: "",
+};
+
+// 用量报表分组方式
+export type UsageGroupBy = "day" | "model" | "provider" | "article" | "user";
+
+// 用量报表行
+export interface UsageReportRow {
+  key: string;
+  label: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  requests: number;
+  cost: number;
+}
+
+// 超出预算时的处理方式
+export type BudgetAction = "warn" | "block";
+
+// 预算状态（本日、本月）
+export interface BudgetStatus {
+  daily: { spent: number; limit: number | null };
+  monthly: { spent: number; limit: number | null };
+  action: BudgetAction;
+  state: "ok" | "warn" | "blocked";
+  message: string | null;
+}
+
+// 成员预算
+export interface MemberBudget {
+  userId: number;
+  username: string;
+  status: BudgetStatus;
+}
+
+// 费用保留位数：小额显示 4 位小数
+export const formatCost = (cost: number) => cost.toFixed(cost < 1 ? 4 : 2);
@@ -62,6 +62,7 @@ export function ExportSection() {
       includeEmailConfig: exportOptions.includeEmailConfig,
       includeScheduledTasks: exportOptions.includeScheduledTasks,
       includeImages: exportOptions.includeImages,
+      includeComments: exportOptions.includeArticles && exportOptions.includeComments,
       includeSensitiveData: exportOptions.includeSensitiveData,
       encryptionPassword: exportOptions.encryptionPassword || undefined,
     }, {
@@ -165,6 +166,17 @@ export function ExportSection() {
                 onCheckedChange={(checked) => setExportOptions({ ...exportOptions, includeImages: checked })}
               />
             </div>
+            <div className="flex items-center justify-between p-2 rounded-md bg-muted/50">
+              <Label htmlFor="export-comments" className="text-sm font-normal cursor-pointer">
+                文章评论
+              </Label>
+              <Switch
+                id="export-comments"
+                checked={exportOptions.includeComments}
+                disabled={!exportOptions.includeArticles}
+                onCheckedChange={(checked) => setExportOptions({ ...exportOptions, includeComments: checked })}
+              />
+            </div>
           </div>
         </div>
 
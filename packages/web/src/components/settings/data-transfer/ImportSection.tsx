@@ -51,6 +51,7 @@ export function ImportSection() {
           emailConfig: (data.stats.counts?.emailConfigs || 0) > 0,
           scheduledTasks: data.stats.counts?.scheduledTasks || 0,
           images: data.stats.counts?.images || 0,
+          comments: data.stats.counts?.comments || 0,
         },
       });
     },
@@ -150,6 +151,7 @@ export function ImportSection() {
         zipData: base64Data,
         decryptionPassword: importOptions.decryptionPassword || undefined,
         overwriteExisting: importOptions.overwriteExisting,
+        importComments: importOptions.importComments,
       }, {
         onSettled: () => setIsImporting(false),
       });
@@ -277,6 +279,12 @@ export function ImportSection() {
                   <span>{previewData.counts.images}</span>
                 </div>
               )}
+              {previewData.counts.comments > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">文章评论:</span>
+                  <span>{previewData.counts.comments}</span>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -328,6 +336,25 @@ export function ImportSection() {
                 onCheckedChange={(checked) => setImportOptions({ ...importOptions, overwriteExisting: checked })}
               />
             </div>
+
+            {/* 评论选项：与导出一致，默认不导入 */}
+            {previewData.counts.comments > 0 && (
+              <div className="flex items-center justify-between p-3 rounded-md border">
+                <div>
+                  <Label htmlFor="import-comments" className="text-sm font-medium cursor-pointer">
+                    导入文章评论
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    备份中包含 {previewData.counts.comments} 条评论，不导入时只恢复文章正文
+                  </p>
+                </div>
+                <Switch
+                  id="import-comments"
+                  checked={importOptions.importComments}
+                  onCheckedChange={(checked) => setImportOptions({ ...importOptions, importComments: checked })}
+                />
+              </div>
+            )}
           </div>
         )}
 
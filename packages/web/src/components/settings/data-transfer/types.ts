@@ -8,6 +8,7 @@ export interface ExportOptions {
   includeEmailConfig: boolean;
   includeScheduledTasks: boolean;
   includeImages: boolean;
+  includeComments: boolean;
   includeSensitiveData: boolean;
   encryptionPassword: string;
 }
@@ -16,6 +17,7 @@ export interface ExportOptions {
 export interface ImportOptions {
   decryptionPassword: string;
   overwriteExisting: boolean;
+  importComments: boolean;
 }
 
 // 预览数据类型
@@ -33,6 +35,7 @@ export interface PreviewData {
     emailConfig: boolean;
     scheduledTasks: number;
     images: number;
+    comments: number;
   };
 }
 
@@ -73,6 +76,7 @@ export const defaultExportOptions: ExportOptions = {
   includeEmailConfig: true,
   includeScheduledTasks: true,
   includeImages: true,
+  includeComments: false,
   includeSensitiveData: false,
   encryptionPassword: "",
 };
@@ -81,4 +85,5 @@ export const defaultExportOptions: ExportOptions = {
 export const defaultImportOptions: ImportOptions = {
   decryptionPassword: "",
   overwriteExisting: false,
+  importComments: false,
 };
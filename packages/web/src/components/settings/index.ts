@@ -6,6 +6,7 @@ export { EmailNotificationSettings } from "./EmailNotificationSettings";
 export { ScheduleTaskSettings } from "./ScheduleTaskSettings";
 export { UserManagementSettings } from "./UserManagementSettings";
 export { AccountSecuritySettings } from "./AccountSecuritySettings";
+export { AuditLogSettings } from "./AuditLogSettings";
 export { ServerConfigSettings } from "./ServerConfigSettings";
 export { EditorSettings } from "./EditorSettings";
 export { AIConfigSettings } from "./AIConfigSettings";
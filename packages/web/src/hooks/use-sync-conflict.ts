@@ -6,6 +6,8 @@ interface ConflictState {
   hasConflict: boolean;
   remoteContent?: string;
   remoteUpdatedAt?: Date;
+  // 冲突内容的来源，在平台上直接修改时为平台标识
+  remoteSource?: string;
   syncStatus: string;
   dismissed: boolean;
 }
@@ -42,6 +44,7 @@ export function useSyncConflict(articleId: number | undefined) {
         hasConflict: true,
         remoteContent: data.remoteContent,
         remoteUpdatedAt: data.remoteUpdatedAt ? new Date(data.remoteUpdatedAt) : undefined,
+        remoteSource: data.remoteSource,
         syncStatus: data.syncStatus,
         dismissed: false,
       });
@@ -85,6 +88,22 @@ export function useSyncConflict(articleId: number | undefined) {
     return true;
   }, [articleId, resolveConflictMutation]);
 
+  // 使用三方合并的结果解决冲突
+  const useMergedVersion = useCallback(async (content: string) => {
+    if (!articleId) return;
+    await resolveConflictMutation.mutateAsync({
+      articleId,
+      resolution: "merged",
+      content,
+    });
+    setConflictState({
+      hasConflict: false,
+      syncStatus: "synced",
+      dismissed: false,
+    });
+    return true;
+  }, [articleId, resolveConflictMutation]);
+
   const resetDismissed = useCallback(() => {
     setConflictState((prev) => ({ ...prev, dismissed: false }));
   }, []);
@@ -95,6 +114,7 @@ export function useSyncConflict(articleId: number | undefined) {
     dismissConflict,
     useLocalVersion,
     useRemoteVersion,
+    useMergedVersion,
     resetDismissed,
     refetch,
   };
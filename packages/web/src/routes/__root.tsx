@@ -2,12 +2,14 @@ import { createRootRoute, Outlet, Link, useLocation, useNavigate } from "@tansta
 import { useState, useEffect, useRef, useCallback } from "react";
 import {
   Home,
+  CalendarDays,
   FileText,
   Settings,
   PanelLeftClose,
   PanelLeft,
   LogOut,
   Menu,
+  Search,
 } from "lucide-react";
 import { App } from "antd";
 import { cn } from "@/lib/utils";
@@ -27,7 +29,8 @@ import {
 import TitleBar from "@/components/TitleBar";
 import { FileTree } from "@/components/FileTree";
 import { UpdateNotification } from "@/components/UpdateNotification";
-import { isAuthenticated, clearAuthToken, getAuthUser } from "@/utils/auth";
+import { ArticleSearchPalette } from "@/components/ArticleSearchPalette";
+import { isAuthenticated, clearAuthToken, getAuthUser, setAuthUser } from "@/utils/auth";
 import { isServerConfiguredSync } from "@/utils/serverConfig";
 import { trpc } from "@/utils/trpc";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -41,6 +44,7 @@ const SIDEBAR_DEFAULT_WIDTH = 224; // 原来的 w-56 = 14rem = 224px
 const sidebarButtons = [
   { id: "home", icon: Home, label: "首页", to: "/" },
   { id: "articles", icon: FileText, label: "文章", to: "/articles" },
+  { id: "calendar", icon: CalendarDays, label: "日历", to: "/calendar" },
   { id: "settings", icon: Settings, label: "设置", to: "/settings" },
 ];
 
@@ -48,6 +52,7 @@ const sidebarButtons = [
 function getActiveView(pathname: string): string {
   if (pathname === "/") return "home";
   if (pathname.startsWith("/articles")) return "articles";
+  if (pathname.startsWith("/calendar")) return "calendar";
   if (pathname.startsWith("/settings")) return "settings";
   return "home";
 }
@@ -61,6 +66,7 @@ function RootComponent() {
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [sidebarWidth, setSidebarWidth] = useState(SIDEBAR_DEFAULT_WIDTH);
   const [isResizing, setIsResizing] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
   const sidebarRef = useRef<HTMLDivElement>(null);
   const authUser = getAuthUser();
 
@@ -74,6 +80,28 @@ function RootComponent() {
     },
   });
 
+  // 同步服务端的角色和权限，超级管理员修改角色后无需重新登录（必须在条件 return 之前）
+  const { data: sessionData } = trpc.adminAuth.validate.useQuery(undefined, {
+    enabled: location.pathname !== "/login" && location.pathname !== "/setup" && isAuthenticated(),
+    staleTime: 5 * 60 * 1000,
+  });
+  useEffect(() => {
+    const admin = sessionData?.admin;
+    if (!admin) return;
+    const current = getAuthUser();
+    if (
+      current?.role !== admin.role ||
+      current?.permissions?.join(",") !== admin.permissions.join(",")
+    ) {
+      setAuthUser({
+        adminId: admin.adminId,
+        username: admin.username,
+        role: admin.role,
+        permissions: admin.permissions,
+      });
+    }
+  }, [sessionData]);
+
   // 从 localStorage 恢复侧边栏状态和宽度（必须在条件 return 之前）
   useEffect(() => {
     const savedOpen = localStorage.getItem("sidebar-open");
@@ -149,6 +177,21 @@ function RootComponent() {
     }
   }, [location.pathname, navigate]);
 
+  // Ctrl/Cmd + K 打开文章搜索
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === "k") {
+        e.preventDefault();
+        setSearchOpen((prev) => !prev);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, []);
+
   // 保存侧边栏状态到 localStorage
   const toggleSidebar = () => {
     setSidebarOpen((prev) => {
@@ -227,6 +270,16 @@ function RootComponent() {
                   </SheetHeader>
                   {/* 功能按钮列表 */}
                   <div className="flex flex-col pb-1">
+                    <button
+                      onClick={() => {
+                        setMobileSidebarOpen(false);
+                        setSearchOpen(true);
+                      }}
+                      className="flex items-center gap-3 px-4 py-2.5 text-sm transition-colors hover:bg-accent/50 text-muted-foreground hover:text-foreground"
+                    >
+                      <Search className="h-5 w-5" />
+                      搜索
+                    </button>
                     {sidebarButtons.map((item) => (
                       <Link
                         key={item.id}
@@ -272,6 +325,21 @@ function RootComponent() {
               <div className="flex flex-col w-12 bg-sidebar border-r border-sidebar-border shrink-0">
                 {/* 功能按钮 */}
                 <div className="flex flex-col items-center py-2 gap-1">
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-9 w-9 text-foreground"
+                        onClick={() => setSearchOpen(true)}
+                      >
+                        <Search className="h-5 w-5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="right">
+                      搜索 (Ctrl+K)
+                    </TooltipContent>
+                  </Tooltip>
                   {sidebarButtons.map((item) => (
                     <Tooltip key={item.id}>
                       <TooltipTrigger asChild>
@@ -371,6 +439,9 @@ function RootComponent() {
             </main>
           </div>
 
+          {/* 文章搜索 */}
+          <ArticleSearchPalette open={searchOpen} onOpenChange={setSearchOpen} />
+
           {/* 更新通知（Electron 环境） */}
           <UpdateNotification />
         </div>
@@ -2,8 +2,10 @@ import { createFileRoute, useNavigate, useSearch } from "@tanstack/react-router"
 import { useEffect, useState, useRef, useCallback } from "react";
 import { message, Modal } from "antd";
 import dayjs from "dayjs";
-import { Save } from "lucide-react";
+import { Eye, Save } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { hasPermission, Permission } from "@/utils/auth";
 import { trpc } from "@/utils/trpc";
 import PublishMenu from "@/components/PublishMenu";
 import ArticleEditorLayout from "@/components/ArticleEditorLayout";
@@ -28,28 +30,11 @@ function EditArticlePage() {
   const [title, setTitle] = useState("");
   const [summary, setSummary] = useState("");
   const [content, setContent] = useState<string>("");
-  const [tencentTagIds, setTencentTagIds] = useState<number[]>([]);
-  const [sourceType, setSourceType] = useState<number>(1);
   const [scheduledAt, setScheduledAt] = useState<any>(null);
   const [editorKey, setEditorKey] = useState(0);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
   const [saveError, setSaveError] = useState<string | undefined>();
   const { hasConflict, syncStatus: conflictSyncStatus } = useSyncConflict(Number(id));
-  // 掘金相关状态
-  const [juejinCategoryId, setJuejinCategoryId] = useState<string>("");
-  const [juejinTagIds, setJuejinTagIds] = useState<string[]>([]);
-  const [juejinTagNames, setJuejinTagNames] = useState<string[]>([]);
-  const [juejinBriefContent, setJuejinBriefContent] = useState<string>("");
-  const [juejinIsOriginal, setJuejinIsOriginal] = useState<number>(1);
-  const [juejinStatus, setJuejinStatus] = useState<string>("");
-  const [juejinArticleUrl, setJuejinArticleUrl] = useState<string>("");
-  // CSDN 相关状态
-  const [csdnTags, setCsdnTags] = useState<string[]>([]);
-  const [csdnDescription, setCsdnDescription] = useState<string>("");
-  const [csdnType, setCsdnType] = useState<string>("original");
-  const [csdnReadType, setCsdnReadType] = useState<string>("public");
-  const [csdnStatus, setCsdnStatus] = useState<string>("");
-  const [csdnArticleUrl, setCsdnArticleUrl] = useState<string>("");
   const trpcUtils = trpc.useContext();
 
   // 用于跟踪是否为初始加载（避免初始加载时触发保存）
@@ -81,6 +66,14 @@ function EditArticlePage() {
     { staleTime: 5 * 60 * 1000 }
   );
 
+  // 审核状态：未通过审核时不能发布
+  const { data: review } = trpc.review.get.useQuery({ articleId: Number(id) });
+
+  // 共享给自己的只读文章、或当前角色没有撰写权限时：可以查看，不保存修改
+  const isReadOnly = articleMeta?.access === "read" || !hasPermission(Permission.ARTICLE_WRITE);
+  const isReadOnlyRef = useRef(isReadOnly);
+  useEffect(() => { isReadOnlyRef.current = isReadOnly; }, [isReadOnly]);
+
   // 合并元数据和内容，兼容原有逻辑
   const article = articleMeta ? {
     ...articleMeta,
@@ -92,6 +85,10 @@ function EditArticlePage() {
       trpcUtils.folder.tree.invalidate();
       trpcUtils.article.getMeta.invalidate({ id: Number(id) });
       trpcUtils.article.getContent.invalidate({ id: Number(id) });
+      // 审核通过后修改内容会回到审核中
+      trpcUtils.review.get.invalidate({ articleId: Number(id) });
+      // 评论锚点随正文重新定位
+      trpcUtils.comment.list.invalidate({ articleId: Number(id) });
       setSaveStatus("saved");
       setSaveError(undefined);
       if (savedStatusTimerRef.current) {
@@ -179,7 +176,7 @@ function EditArticlePage() {
       if ((e.ctrlKey || e.metaKey) && e.key === "s") {
         e.preventDefault(); // 阻止浏览器默认保存行为
         // 初始加载时不触发保存
-        if (isInitialLoadRef.current) {
+        if (isInitialLoadRef.current || isReadOnlyRef.current) {
           return;
         }
         manualSave();
@@ -247,24 +244,7 @@ function EditArticlePage() {
 
       setTitle(articleMeta.title || "");
       setSummary(articleMeta.summary || "");
-      setTencentTagIds(articleMeta.tencentTagIds || []);
-      setSourceType(articleMeta.sourceType || 1);
       setScheduledAt(articleMeta.scheduledAt ? dayjs(articleMeta.scheduledAt) : null);
-      // 掘金相关
-      setJuejinCategoryId((articleMeta as any).juejinCategoryId || "");
-      setJuejinTagIds((articleMeta as any).juejinTagIds || []);
-      setJuejinTagNames((articleMeta as any).juejinTagNames || []);
-      setJuejinBriefContent((articleMeta as any).juejinBriefContent || "");
-      setJuejinIsOriginal((articleMeta as any).juejinIsOriginal ?? 1);
-      setJuejinStatus((articleMeta as any).juejinStatus || "");
-      setJuejinArticleUrl((articleMeta as any).juejinArticleUrl || "");
-      // CSDN 相关
-      setCsdnTags((articleMeta as any).csdnTags || []);
-      setCsdnDescription((articleMeta as any).csdnDescription || "");
-      setCsdnType((articleMeta as any).csdnType || "original");
-      setCsdnReadType((articleMeta as any).csdnReadType || "public");
-      setCsdnStatus((articleMeta as any).csdnStatus || "");
-      setCsdnArticleUrl((articleMeta as any).csdnArticleUrl || "");
 
       if (isNewArticle) {
         loadedArticleIdRef.current = articleMeta.id;
@@ -317,7 +297,7 @@ function EditArticlePage() {
     (newTitle: string) => {
       setTitle(newTitle);
       // 初始加载时不触发保存
-      if (isInitialLoadRef.current) {
+      if (isInitialLoadRef.current || isReadOnlyRef.current) {
         return;
       }
       debouncedSave(newTitle, contentRef.current, summaryRef.current);
@@ -330,7 +310,7 @@ function EditArticlePage() {
     (newContent: string) => {
       setContent(newContent);
       // 初始加载时不触发保存
-      if (isInitialLoadRef.current) {
+      if (isInitialLoadRef.current || isReadOnlyRef.current) {
         return;
       }
       debouncedSave(titleRef.current, newContent, summaryRef.current);
@@ -398,6 +378,7 @@ function EditArticlePage() {
       editorKey={editorKey}
       articleId={Number(id)}
       onContentReload={handleContentReload}
+      readOnly={isReadOnly}
       settingsContent={({ onClose }) => (
         <ImportWordSettings
           onImport={handleWordImport}
@@ -406,59 +387,53 @@ function EditArticlePage() {
         />
       )}
       statusIndicator={
-        <SyncStatusIndicator 
-          syncStatus={
-            hasConflict ? "conflict" :
-            saveStatus === "saving" ? "syncing" :
-            saveError ? "error" :
-            saveStatus === "saved" ? "synced" :
-            conflictSyncStatus === "pending" ? "pending" :
-            "synced"
-          }
-          errorMessage={saveError}
-        />
+        isReadOnly ? (
+          <Badge variant="secondary" className="gap-1" title="没有编辑该文章的权限，修改不会保存">
+            <Eye className="h-3 w-3" />
+            只读
+          </Badge>
+        ) : (
+          <SyncStatusIndicator 
+            syncStatus={
+              hasConflict ? "conflict" :
+              saveStatus === "saving" ? "syncing" :
+              saveError ? "error" :
+              saveStatus === "saved" ? "synced" :
+              conflictSyncStatus === "pending" ? "pending" :
+              "synced"
+            }
+            errorMessage={saveError}
+          />
+        )
       }
       actionButtons={
-        <>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onSave}
-            disabled={updateMutation.isLoading}
-            className="gap-1.5"
-          >
-            <Save className="h-4 w-4" />
-            保存
-          </Button>
-
-          {/* 发布菜单 */}
-          <PublishMenu
-            articleId={Number(id)}
-            articleStatus={article.status}
-            articleTitle={title}
-            articleContent={content}
-            tencentArticleUrl={article.tencentArticleUrl}
-            tencentTagIds={tencentTagIds}
-            sourceType={sourceType}
-            summary={summary}
-            // 掘金相关
-            juejinArticleUrl={juejinArticleUrl}
-            juejinCategoryId={juejinCategoryId}
-            juejinTagIds={juejinTagIds}
-            juejinTagNames={juejinTagNames}
-            juejinBriefContent={juejinBriefContent}
-            juejinIsOriginal={juejinIsOriginal}
-            juejinStatus={juejinStatus}
-            // CSDN 相关
-            csdnArticleUrl={csdnArticleUrl}
-            csdnTags={csdnTags}
-            csdnDescription={csdnDescription}
-            csdnType={csdnType}
-            csdnReadType={csdnReadType}
-            csdnStatus={csdnStatus}
-            variant="button"
-          />
-        </>
+        isReadOnly ? null : (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onSave}
+              disabled={updateMutation.isLoading}
+              className="gap-1.5"
+            >
+              <Save className="h-4 w-4" />
+              保存
+            </Button>
+
+            {/* 发布菜单 */}
+            <PublishMenu
+              articleId={Number(id)}
+              articleStatus={article.status}
+              articleTitle={title}
+              articleContent={content}
+              publications={article.publications}
+              summary={summary}
+              onTitleChange={handleTitleChange}
+              variant="button"
+              blockedReason={review?.publishBlockReason}
+            />
+          </>
+        )
       }
     />
   );
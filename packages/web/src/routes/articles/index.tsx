@@ -9,6 +9,7 @@ import {
   Loader2,
   Sparkles,
   Code2,
+  Download,
 } from "lucide-react";
 import { notification } from "antd";
 import { cn } from "@/lib/utils";
@@ -36,7 +37,9 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { trpc } from "@/utils/trpc";
+import { findPublication } from "@/utils/publications";
 import PublishMenu from "@/components/PublishMenu";
+import PlatformImportDialog from "@/components/PlatformImportDialog";
 
 // 同步结果类型
 interface SyncResult {
@@ -50,6 +53,7 @@ function ArticlesPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [articleToDelete, setArticleToDelete] = useState<number | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
 
   const trpcUtils = trpc.useContext();
 
@@ -215,15 +219,16 @@ function ArticlesPage() {
       return;
     }
     
-    const needsTencentSync = data?.articles?.some(
-      (a: any) => a.status === "pending" || a.tencentArticleId
-    );
-    const needsJuejinSync = data?.articles?.some(
-      (a: any) => a.juejinStatus === "pending" || a.juejinArticleId
-    );
-    const needsCsdnSync = data?.articles?.some(
-      (a: any) => a.csdnStatus === "pending" || a.csdnArticleId
-    );
+    // 有待审核或已关联平台文章的平台才需要同步
+    const needsPlatformSync = (platform: string) =>
+      data?.articles?.some((a: any) => {
+        const publication = findPublication(a.publications, platform);
+        return publication?.status === "pending" || !!publication?.remoteId;
+      });
+    const needsTencentSync =
+      data?.articles?.some((a: any) => a.status === "pending") || needsPlatformSync("tencent");
+    const needsJuejinSync = needsPlatformSync("juejin");
+    const needsCsdnSync = needsPlatformSync("csdn");
     if (needsTencentSync || needsJuejinSync || needsCsdnSync) {
       hasSyncedRef.current = true;
       handleSyncAll();
@@ -269,6 +274,10 @@ function ArticlesPage() {
             />
             同步状态
           </Button>
+          <Button variant="outline" size="sm" onClick={() => setImportDialogOpen(true)}>
+            <Download className="h-4 w-4 mr-2" />
+            从平台导入
+          </Button>
           <Button
             size="sm"
             onClick={() => createArticleMutation.mutate({ title: "无标题" })}
@@ -330,7 +339,8 @@ function ArticlesPage() {
                       <div className="flex flex-nowrap gap-1 whitespace-nowrap">
                         {/* 腾讯云平台徽章 */}
                         {(() => {
-                          const hasTencentId = article.tencentArticleId || article.tencentDraftId;
+                          const tencent = findPublication(article.publications, "tencent");
+                          const hasTencentId = tencent?.remoteId || tencent?.draftId;
                           const isPublished = article.status === "published" && hasTencentId;
                           const isPending = article.status === "pending" && hasTencentId;
                           const isFailed = article.status === "failed" && hasTencentId;
@@ -369,8 +379,9 @@ function ArticlesPage() {
                         })()}
                         {/* 掘金平台徽章 */}
                         {(() => {
-                          const hasJuejinId = article.juejinArticleId || article.juejinDraftId;
-                          const juejinStatus = article.juejinStatus;
+                          const juejin = findPublication(article.publications, "juejin");
+                          const hasJuejinId = juejin?.remoteId || juejin?.draftId;
+                          const juejinStatus = juejin?.status;
 
                           let badgeClass = "";
                           let tooltipText = "";
@@ -412,8 +423,9 @@ function ArticlesPage() {
                         })()}
                         {/* CSDN平台徽章 */}
                         {(() => {
-                          const hasCsdnId = !!article.csdnArticleId;
-                          const csdnStatus = article.csdnStatus;
+                          const csdn = findPublication(article.publications, "csdn");
+                          const hasCsdnId = !!csdn?.remoteId;
+                          const csdnStatus = csdn?.status;
 
                           let badgeClass = "bg-gray-100 text-gray-400";
                           let tooltipText = "未发布";
@@ -484,9 +496,7 @@ function ArticlesPage() {
                         <PublishMenu
                           articleId={article.id}
                           articleStatus={article.status}
-                          tencentArticleUrl={article.tencentArticleUrl}
-                          tencentTagIds={article.tencentTagIds}
-                          sourceType={article.sourceType}
+                          publications={article.publications}
                           summary={article.summary}
                           variant="icon"
                           onSuccess={() => refetch()}
@@ -546,7 +556,11 @@ function ArticlesPage() {
         </DialogContent>
       </Dialog>
 
-
+      <PlatformImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onSuccess={refetch}
+      />
     </div>
   );
 }
@@ -0,0 +1,185 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { message } from "antd";
+import dayjs from "dayjs";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/utils/trpc";
+import { PLATFORM_NAMES } from "@/utils/publications";
+import {
+  CalendarDayCell,
+  getVisibleDays,
+  PLATFORM_COLORS,
+  type CalendarEvent,
+  type CalendarView,
+} from "@/components/calendar";
+
+const WEEKDAY_LABELS = ["周一", "周二", "周三", "周四", "周五", "周六", "周日"];
+
+// 月视图每天最多显示的事件数
+const MONTH_MAX_VISIBLE = 3;
+
+function CalendarPage() {
+  const trpcUtils = trpc.useContext();
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => dayjs());
+  const [draggingEvent, setDraggingEvent] = useState<CalendarEvent | null>(null);
+
+  const days = useMemo(() => getVisibleDays(anchor, view), [anchor, view]);
+  const range = useMemo(
+    () => ({
+      from: days[0].startOf("day").toISOString(),
+      to: days[days.length - 1].endOf("day").toISOString(),
+    }),
+    [days]
+  );
+
+  const { data: events = [], isLoading } = trpc.schedule.calendar.useQuery(range);
+
+  // 按日期分组
+  const eventsByDay = useMemo(() => {
+    const groups = new Map<string, CalendarEvent[]>();
+    for (const event of events as CalendarEvent[]) {
+      const key = dayjs(event.time).format("YYYY-MM-DD");
+      groups.set(key, [...(groups.get(key) || []), event]);
+    }
+    return groups;
+  }, [events]);
+
+  const rescheduleMutation = trpc.schedule.update.useMutation({
+    onSuccess: () => {
+      message.success("已调整发布时间");
+      trpcUtils.schedule.calendar.invalidate();
+      trpcUtils.schedule.listPending.invalidate();
+    },
+    onError: (error: Error) => {
+      message.error(`调整失败: ${error.message}`);
+    },
+  });
+
+  // 拖拽到其他日期：保留原来的时间点，只修改日期
+  const handleDrop = (day: dayjs.Dayjs) => {
+    const event = draggingEvent;
+    setDraggingEvent(null);
+    if (!event?.taskId) return;
+
+    const original = dayjs(event.time);
+    const target = day.hour(original.hour()).minute(original.minute()).second(0).millisecond(0);
+    if (target.isBefore(dayjs())) {
+      message.error("发布时间必须在当前时间之后");
+      return;
+    }
+
+    rescheduleMutation.mutate({
+      taskId: event.taskId,
+      scheduledAt: target.toISOString(),
+    });
+  };
+
+  const title =
+    view === "month"
+      ? anchor.format("YYYY年M月")
+      : `${days[0].format("YYYY年M月D日")} - ${days[6].format("M月D日")}`;
+
+  return (
+    <div className="p-4 space-y-3 max-w-7xl mx-auto">
+      {/* 页面标题 */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-xl font-bold tracking-tight">内容日历</h1>
+          <p className="text-sm text-muted-foreground">拖拽待发布的任务到其他日期即可改期</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border p-0.5">
+            {(["month", "week"] as const).map((item) => (
+              <Button
+                key={item}
+                variant={view === item ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 px-3 text-xs"
+                onClick={() => setView(item)}
+              >
+                {item === "month" ? "月" : "周"}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setAnchor(anchor.subtract(1, view))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setAnchor(dayjs())}>
+            今天
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setAnchor(anchor.add(1, view))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {title}
+          {(isLoading || rescheduleMutation.isLoading) && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        {/* 图例 */}
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {Object.entries(PLATFORM_COLORS).map(([platform, color]) => (
+            <span key={platform} className="flex items-center gap-1">
+              <span className={cn("h-2 w-2 rounded-full", color.dot)} />
+              {PLATFORM_NAMES[platform] || platform}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            负载
+            <span className="h-1.5 w-1.5 rounded-full bg-green-500" />
+            <span className="h-1.5 w-1.5 rounded-full bg-amber-500" />
+            <span className="h-1.5 w-1.5 rounded-full bg-red-500" />
+          </span>
+        </div>
+      </div>
+
+      {/* 日历网格 */}
+      <div className="overflow-hidden rounded-md border-l border-t">
+        <div className="grid grid-cols-7">
+          {WEEKDAY_LABELS.map((label) => (
+            <div
+              key={label}
+              className="border-b border-r bg-muted/50 py-1.5 text-center text-xs text-muted-foreground"
+            >
+              {label}
+            </div>
+          ))}
+          {days.map((day) => (
+            <CalendarDayCell
+              key={day.format("YYYY-MM-DD")}
+              day={day}
+              events={eventsByDay.get(day.format("YYYY-MM-DD")) || []}
+              inCurrentMonth={view === "week" || day.month() === anchor.month()}
+              maxVisible={view === "month" ? MONTH_MAX_VISIBLE : undefined}
+              draggingEvent={draggingEvent}
+              onDragStart={setDraggingEvent}
+              onDragEnd={() => setDraggingEvent(null)}
+              onDrop={handleDrop}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const Route = createFileRoute("/calendar")({
+  component: CalendarPage,
+});
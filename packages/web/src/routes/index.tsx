@@ -13,6 +13,7 @@ import {
   Loader2,
   CloudUpload,
   Coffee,
+  ClipboardCheck,
 } from "lucide-react";
 import {
   Card,
@@ -25,7 +26,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { trpc } from "@/utils/trpc";
 import { notification } from "antd";
-import { RecentArticleItem, ScheduledTaskItem } from "@/components/dashboard";
+import { RecentArticleItem, ReviewQueueItem, ScheduledTaskItem } from "@/components/dashboard";
 
 function HomePage() {
   const navigate = useNavigate();
@@ -77,6 +78,9 @@ function HomePage() {
   const { data: pendingTasks, isLoading: tasksLoading } =
     trpc.schedule.listPending.useQuery();
 
+  // 指派给我、等待审核的文章
+  const { data: reviewQueue = [] } = trpc.review.assigned.useQuery();
+
   // 腾讯云社区状态
   const tencentAuthStatus = authStatus;
   const {
@@ -184,6 +188,26 @@ function HomePage() {
         </Card>
       )}
 
+      {/* 待我审核 */}
+      {reviewQueue.length > 0 && (
+        <Card className="py-0 gap-0">
+          <CardHeader className="py-3 px-4 pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-1.5">
+              <ClipboardCheck className="h-3.5 w-3.5" />
+              待我审核
+              <span className="text-xs font-normal text-muted-foreground">{reviewQueue.length}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="px-2 pb-2 pt-0">
+            <div className="space-y-0.5">
+              {reviewQueue.map((article: any) => (
+                <ReviewQueueItem key={article.id} article={article} />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* 统计卡片 */}
       <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
         <Card className="py-0 gap-0 group hover:border-blue-200 dark:hover:border-blue-800 transition-colors">
@@ -507,12 +531,19 @@ function HomePage() {
           <CardHeader className="py-3 px-4 pb-2">
             <div className="flex items-center justify-between">
               <CardTitle className="text-sm font-medium">定时发布</CardTitle>
-              <Link to="/settings" search={{ tab: "schedule" }}>
-                <Button variant="ghost" size="sm" className="h-6 text-xs px-2">
-                  管理
-                  <ArrowRight className="h-3 w-3 ml-0.5" />
-                </Button>
-              </Link>
+              <div className="flex items-center">
+                <Link to="/calendar">
+                  <Button variant="ghost" size="sm" className="h-6 text-xs px-2">
+                    日历
+                  </Button>
+                </Link>
+                <Link to="/settings" search={{ tab: "schedule" }}>
+                  <Button variant="ghost" size="sm" className="h-6 text-xs px-2">
+                    管理
+                    <ArrowRight className="h-3 w-3 ml-0.5" />
+                  </Button>
+                </Link>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="px-2 pb-2 pt-0">
@@ -19,13 +19,18 @@ function LoginPage() {
   const [error, setError] = useState("");
 
   const loginMutation = trpc.adminAuth.login.useMutation({
-    onSuccess: (data: { token: string; admin: { id: number; username: string; role: string } }) => {
+    onSuccess: (data: {
+      token: string;
+      admin: { id: number; username: string; role: string };
+      permissions: string[];
+    }) => {
       // 保存 token 和用户信息
       setAuthToken(data.token);
       setAuthUser({
         adminId: data.admin.id,
         username: data.admin.username,
         role: data.admin.role as any,
+        permissions: data.permissions as any,
       });
       // 使用 replace 跳转到首页并刷新（确保 tRPC 客户端使用新 token）
       // 使用完整 URL 避免 hash 路由在刷新前被 TanStack Router 解析导致短暂报错
@@ -1,8 +1,8 @@
 import { createFileRoute, useNavigate, useSearch } from "@tanstack/react-router";
 import { useState } from "react";
 import { z } from "zod";
-import { Cloud, Info, Mail, Calendar, Users, Key, Server, PenLine, Sparkles, Bot, Database, ChevronRight, FileCode } from "lucide-react";
-import { isSuperAdmin } from "@/utils/auth";
+import { Cloud, Info, Mail, Calendar, Users, Key, Server, PenLine, Sparkles, Bot, Database, ChevronRight, FileCode, History } from "lucide-react";
+import { isSuperAdmin, hasPermission, Permission } from "@/utils/auth";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
@@ -18,6 +18,7 @@ import {
   ScheduleTaskSettings,
   UserManagementSettings,
   AccountSecuritySettings,
+  AuditLogSettings,
   ServerConfigSettings,
   EditorSettings,
   AIConfigSettings,
@@ -28,17 +29,9 @@ import {
 // 导入类型定义
 import type { MenuItem, MenuGroup } from "@/components/settings";
 
-// 设置菜单项（用户管理仅超级管理员可见）
+// 设置菜单项（用户管理和数据管理仅超级管理员可见，发布渠道需要管理平台账号的权限）
 const getSettingsMenu = (): MenuGroup[] => {
   const groups: MenuGroup[] = [
-    {
-      title: "发布渠道",
-      items: [
-        { id: "tencent", icon: Cloud, label: "腾讯云社区" },
-        { id: "juejin", icon: Sparkles, label: "掘金" },
-        { id: "csdn", icon: FileCode, label: "CSDN" },
-      ],
-    },
     {
       title: "AI 设置",
       items: [
@@ -52,11 +45,27 @@ const getSettingsMenu = (): MenuGroup[] => {
         { id: "email", icon: Mail, label: "邮件通知" },
         { id: "server", icon: Server, label: "服务器配置" },
         { id: "editor", icon: PenLine, label: "编辑器设置" },
-        { id: "data", icon: Database, label: "数据管理" },
       ],
     },
   ];
 
+  // 导入导出包含所有成员的数据，仅超级管理员可用
+  if (isSuperAdmin()) {
+    groups[1].items.push({ id: "data", icon: Database, label: "数据管理" });
+  }
+
+  // 管理平台账号需要对应的角色权限
+  if (hasPermission(Permission.PLATFORM_MANAGE)) {
+    groups.unshift({
+      title: "发布渠道",
+      items: [
+        { id: "tencent", icon: Cloud, label: "腾讯云社区" },
+        { id: "juejin", icon: Sparkles, label: "掘金" },
+        { id: "csdn", icon: FileCode, label: "CSDN" },
+      ],
+    });
+  }
+
   // 账户管理分组
   const accountItems: MenuItem[] = [];
   
@@ -67,6 +76,7 @@ const getSettingsMenu = (): MenuGroup[] => {
 
   // 所有用户都可以修改自己的密码
   accountItems.push({ id: "account", icon: Key, label: "账号安全" });
+  accountItems.push({ id: "audit", icon: History, label: "操作记录" });
   
   groups.push({
     title: "账户管理",
@@ -87,14 +97,17 @@ const getSettingsMenu = (): MenuGroup[] => {
 function SettingsPage() {
   const navigate = useNavigate();
   const { tab } = useSearch({ from: "/settings" });
-  const activeTab = tab || "tencent";
+  // 没有管理平台账号权限时不显示发布渠道设置
+  const canManagePlatforms = hasPermission(Permission.PLATFORM_MANAGE);
+  const isPlatformTab = tab === "tencent" || tab === "juejin" || tab === "csdn";
+  const activeTab = tab && (canManagePlatforms || !isPlatformTab) ? tab : canManagePlatforms ? "tencent" : "ai";
   const isMobile = useIsMobile();
   const [menuOpen, setMenuOpen] = useState(false);
 
   const handleTabChange = (tabId: string) => {
     navigate({
       to: "/settings",
-      search: { tab: tabId as "server" | "tencent" | "juejin" | "csdn" | "email" | "schedule" | "users" | "account" | "editor" | "about" | "ai" | "data" },
+      search: { tab: tabId as "server" | "tencent" | "juejin" | "csdn" | "email" | "schedule" | "users" | "account" | "audit" | "editor" | "about" | "ai" | "data" },
       replace: true,
     });
     // 移动端选择后关闭菜单
@@ -193,16 +206,17 @@ function SettingsPage() {
       <ScrollArea className="flex-1">
         <div className={cn("p-4 md:p-6 max-w-2xl", isMobile && "pb-20")}>
           {activeTab === "server" && <ServerConfigSettings />}
-          {activeTab === "tencent" && <TencentAuthSettings />}
-          {activeTab === "juejin" && <JuejinAuthSettings />}
-          {activeTab === "csdn" && <CsdnAuthSettings />}
+          {activeTab === "tencent" && canManagePlatforms && <TencentAuthSettings />}
+          {activeTab === "juejin" && canManagePlatforms && <JuejinAuthSettings />}
+          {activeTab === "csdn" && canManagePlatforms && <CsdnAuthSettings />}
           {activeTab === "email" && <EmailNotificationSettings />}
           {activeTab === "schedule" && <ScheduleTaskSettings />}
           {activeTab === "users" && isSuperAdmin() && <UserManagementSettings />}
           {activeTab === "account" && <AccountSecuritySettings />}
+          {activeTab === "audit" && <AuditLogSettings />}
           {activeTab === "editor" && <EditorSettings />}
           {activeTab === "ai" && <AIConfigSettings />}
-          {activeTab === "data" && <DataTransferSettings />}
+          {activeTab === "data" && isSuperAdmin() && <DataTransferSettings />}
           {activeTab === "about" && <AboutSettings />}
         </div>
       </ScrollArea>
@@ -212,7 +226,7 @@ function SettingsPage() {
 
 // 定义 search params 的验证 schema
 const settingsSearchSchema = z.object({
-  tab: z.enum(["server", "tencent", "juejin", "csdn", "email", "schedule", "users", "account", "editor", "about", "ai", "data"]).optional().catch("tencent"),
+  tab: z.enum(["server", "tencent", "juejin", "csdn", "email", "schedule", "users", "account", "audit", "editor", "about", "ai", "data"]).optional().catch("tencent"),
 });
 
 export const Route = createFileRoute("/settings")({
@@ -7,6 +7,26 @@ const AUTH_USER_KEY = "admin_auth_user";
 export enum AdminRole {
   SUPER_ADMIN = "super_admin",
   ADMIN = "admin",
+  EDITOR = "editor",
+  REVIEWER = "reviewer",
+  PUBLISHER = "publisher",
+}
+
+// 角色名称
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  [AdminRole.SUPER_ADMIN]: "超级管理员",
+  [AdminRole.ADMIN]: "管理员",
+  [AdminRole.EDITOR]: "编辑",
+  [AdminRole.REVIEWER]: "审核",
+  [AdminRole.PUBLISHER]: "发布",
+};
+
+// 权限（与服务端 services/permissions.ts 一致）
+export enum Permission {
+  ARTICLE_WRITE = "article:write",
+  ARTICLE_REVIEW = "article:review",
+  ARTICLE_PUBLISH = "article:publish",
+  PLATFORM_MANAGE = "platform:manage",
 }
 
 // 管理员信息类型
@@ -14,6 +34,8 @@ export interface AdminInfo {
   adminId: number;
   username: string;
   role: AdminRole;
+  // 登录时由服务端返回的角色权限
+  permissions?: Permission[];
 }
 
 /**
@@ -72,3 +94,16 @@ export function isSuperAdmin(): boolean {
   const user = getAuthUser();
   return user?.role === AdminRole.SUPER_ADMIN;
 }
+
+/**
+ * 检查当前用户是否拥有指定权限
+ * 引入角色权限之前保存的登录信息没有 permissions，管理员和超级管理员视为拥有全部权限
+ */
+export function hasPermission(permission: Permission): boolean {
+  const user = getAuthUser();
+  if (!user) return false;
+  if (!user.permissions) {
+    return user.role === AdminRole.SUPER_ADMIN || user.role === AdminRole.ADMIN;
+  }
+  return user.permissions.includes(permission);
+}
@@ -0,0 +1,59 @@
+// 评论锚点：把编辑器中选中的文字定位到 Markdown 正文中
+
+export interface CommentSelection {
+  // 选中的原文
+  quote: string;
+  // 原文在 Markdown 正文中的起始位置
+  anchorStart: number;
+}
+
+/**
+ * 在正文中查找原文，选择离 hint 最近的一处（与服务端 locateQuote 一致）
+ */
+export function locateQuote(content: string, quote: string, hint: number): number | null {
+  if (!quote) return null;
+  if (content.startsWith(quote, hint)) return hint;
+  let best: number | null = null;
+  for (let i = content.indexOf(quote); i !== -1; i = content.indexOf(quote, i + 1)) {
+    if (best === null || Math.abs(i - hint) < Math.abs(best - hint)) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * 读取 container 内的当前选区并定位到 Markdown 正文
+ * 渲染后的文字与 Markdown 的位置不一一对应，按选区在渲染文字中的相对位置估算，再取最近的匹配
+ *
+ * @returns 没有选中文字时返回 null；选中的文字在正文中找不到（如跨越了格式标记）时 anchorStart 为 -1
+ */
+export function getSelectionAnchor(container: HTMLElement, content: string): CommentSelection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.commonAncestorContainer)) return null;
+
+  const quote = selection.toString().trim();
+  if (!quote) return null;
+
+  const before = document.createRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+  const total = container.textContent?.length || 1;
+  const hint = Math.round((before.toString().length / total) * content.length);
+
+  return { quote, anchorStart: locateQuote(content, quote, hint) ?? -1 };
+}
+
+/**
+ * 正文位置对应的行号（1-based），用于滚动到评论位置
+ */
+export function lineNumberAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
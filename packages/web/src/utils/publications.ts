@@ -0,0 +1,48 @@
+/**
+ * 文章发布记录工具
+ * 文章在各平台的发布信息由服务端以 publications 列表返回
+ */
+
+/** 文章在某个平台上的发布记录 */
+export interface ArticlePublication {
+  platform: string;
+  /** 平台文章ID */
+  remoteId?: string | null;
+  /** 平台草稿ID */
+  draftId?: string | null;
+  /** 平台文章链接 */
+  url?: string | null;
+  /** 平台文章状态 */
+  status?: string | null;
+  /** 平台发布配置（标签、分类、摘要等） */
+  config?: Record<string, any> | null;
+  errorMessage?: string | null;
+  lastSyncedAt?: string | null;
+}
+
+/** 平台显示名称 */
+export const PLATFORM_NAMES: Record<string, string> = {
+  tencent: "腾讯云社区",
+  juejin: "掘金",
+  csdn: "CSDN",
+};
+
+/**
+ * 获取文章在指定平台的发布记录
+ */
+export function findPublication(
+  publications: ArticlePublication[] | null | undefined,
+  platform: string
+): ArticlePublication | undefined {
+  return publications?.find((p) => p.platform === platform);
+}
+
+/**
+ * 获取文章在指定平台的发布配置，没有记录时返回空对象
+ */
+export function getPublicationConfig<T extends object>(
+  publications: ArticlePublication[] | null | undefined,
+  platform: string
+): Partial<T> {
+  return (findPublication(publications, platform)?.config || {}) as Partial<T>;
+}